@@ -48,6 +48,7 @@ function Router() {
       <ProtectedRoute path="/calendar" component={Calendar} />
       <ProtectedRoute path="/team" component={Team} />
       <ProtectedRoute path="/team/user/:id" component={UserProfile} />
+      <ProtectedRoute path="/team/:id" component={UserProfile} />
       <ProtectedRoute path="/settings" component={Settings} />
       <ProtectedRoute path="/files" component={Files} />
       <Route component={NotFound} />
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { showSuccessToast } from "@/lib/utils";
+
+export interface ActiveSession {
+  id: number;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string | null;
+  last_used_at: string | null;
+  expires_at: string;
+  current: boolean;
+}
+
+interface ActiveSessionsListProps {
+  // Sem userId, lista as sessões do próprio usuário; com userId, as de outro membro (somente admin)
+  userId?: number;
+}
+
+const MOBILE_USER_AGENT = /android|iphone|ipad|ipod|mobile/i;
+
+// Descrição legível do navegador e sistema a partir do user agent
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Dispositivo desconhecido";
+
+  const browser =
+    /edg\//i.test(userAgent) ? "Edge" :
+    /opr\/|opera/i.test(userAgent) ? "Opera" :
+    /firefox\//i.test(userAgent) ? "Firefox" :
+    /chrome\//i.test(userAgent) ? "Chrome" :
+    /safari\//i.test(userAgent) ? "Safari" :
+    "Navegador";
+
+  const system =
+    /windows/i.test(userAgent) ? "Windows" :
+    /iphone|ipad|ipod/i.test(userAgent) ? "iOS" :
+    /mac os x/i.test(userAgent) ? "macOS" :
+    /android/i.test(userAgent) ? "Android" :
+    /linux/i.test(userAgent) ? "Linux" :
+    null;
+
+  return system ? `${browser} em ${system}` : browser;
+}
+
+/**
+ * Lista de sessões ativas (dispositivos conectados) com opção de encerrar
+ * uma sessão ou todas de uma vez
+ */
+export function ActiveSessionsList({ userId }: ActiveSessionsListProps) {
+  const { toast } = useToast();
+  const [confirmRevokeAll, setConfirmRevokeAll] = useState(false);
+  const isSelf = userId === undefined;
+  const baseUrl = isSelf ? "/api/auth/sessions" : `/api/users/${userId}/sessions`;
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: [baseUrl],
+  });
+
+  // Ao encerrar a sessão deste navegador, o usuário volta para o login
+  const signOutLocally = () => {
+    queryClient.clear();
+    window.location.href = "/auth";
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      const res = await apiRequest("DELETE", `${baseUrl}/${sessionId}`);
+      return await res.json() as { success: boolean; current?: boolean };
+    },
+    onSuccess: (data) => {
+      if (isSelf && data.current) {
+        signOutLocally();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      showSuccessToast({
+        title: "Sessão encerrada",
+        description: "O dispositivo foi desconectado."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível encerrar a sessão",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${baseUrl}/revoke-all`, isSelf ? { keepCurrent: false } : undefined);
+      return await res.json() as { revoked: number };
+    },
+    onSuccess: (data) => {
+      if (isSelf) {
+        signOutLocally();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      showSuccessToast({
+        title: "Sessões encerradas",
+        description: `${data.revoked} ${data.revoked === 1 ? "sessão encerrada" : "sessões encerradas"}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível encerrar as sessões",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Carregando sessões...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {sessions.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">Nenhuma sessão ativa.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {sessions.map((session) => {
+            const DeviceIcon = session.user_agent && MOBILE_USER_AGENT.test(session.user_agent) ? Smartphone : Monitor;
+            const lastActivity = session.last_used_at ?? session.created_at;
+
+            return (
+              <li key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex min-w-0 items-center gap-3">
+                  <DeviceIcon className="h-5 w-5 shrink-0 text-gray-500" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate text-sm font-medium">{describeUserAgent(session.user_agent)}</p>
+                      {isSelf && session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ip_address || "IP desconhecido"}
+                      {session.created_at && ` · Conectado em ${format(new Date(session.created_at), "dd/MM/yyyy HH:mm")}`}
+                      {lastActivity && ` · Ativo ${formatDistanceToNow(new Date(lastActivity), { locale: ptBR, addSuffix: true })}`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0 text-red-600 hover:bg-red-50 hover:text-red-700"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(session.id)}
+                >
+                  {isSelf && session.current ? "Sair" : "Encerrar"}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            disabled={revokeAllMutation.isPending}
+            onClick={() => setConfirmRevokeAll(true)}
+          >
+            {revokeAllMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <LogOut className="mr-2 h-4 w-4" />
+            )}
+            {isSelf ? "Sair de todos os dispositivos" : "Encerrar todas as sessões"}
+          </Button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmRevokeAll}
+        onClose={() => setConfirmRevokeAll(false)}
+        onConfirm={() => {
+          setConfirmRevokeAll(false);
+          revokeAllMutation.mutate();
+        }}
+        title={isSelf ? "Sair de todos os dispositivos?" : "Encerrar todas as sessões?"}
+        description={isSelf
+          ? "Todas as sessões serão encerradas, inclusive a deste navegador. Será preciso entrar novamente em cada dispositivo."
+          : "O usuário será desconectado de todos os dispositivos e precisará entrar novamente."}
+        confirmLabel={isSelf ? "Sair de todos" : "Encerrar sessões"}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ChevronDown, ChevronUp, History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserAvatar } from "./UserAvatar";
+import { useTeamDirectory } from "./comments";
+import { cn } from "@/lib/utils";
+import {
+  ACTIVITY_ACTIONS,
+  ACTIVITY_ENTITY_TYPES,
+  type ActivityAction,
+  type ActivityEntityType,
+  type ActivityLogItem
+} from "@shared/schema";
+
+interface ActivityPage {
+  entries: ActivityLogItem[];
+  total: number;
+}
+
+interface ActivityTimelineProps {
+  // Endpoint da linha do tempo: /api/activity, /api/projects/:id/activity ou /api/clients/:id/activity
+  endpoint: string;
+  entityTypes?: readonly ActivityEntityType[];
+  showUserFilter?: boolean;
+  className?: string;
+}
+
+const PAGE_SIZE = 20;
+const MAX_LIMIT = 200; // Limite aceito pela API
+const ALL = "all";
+
+const entityLabels: Record<ActivityEntityType, { label: string; noun: string }> = {
+  project: { label: "Projetos", noun: "o projeto" },
+  task: { label: "Tarefas", noun: "a tarefa" },
+  client: { label: "Clientes", noun: "o cliente" },
+  client_contact: { label: "Contatos", noun: "o contato" },
+  expense: { label: "Despesas", noun: "a despesa" },
+  event: { label: "Eventos", noun: "o evento" },
+  project_member: { label: "Equipe", noun: "o membro" },
+  project_stage: { label: "Etapas", noun: "a etapa" },
+  task_attachment: { label: "Anexos de tarefas", noun: "o anexo" },
+  project_attachment: { label: "Anexos de projetos", noun: "o anexo" }
+};
+
+const actionLabels: Record<ActivityAction, { label: string; verb: string; className: string }> = {
+  created: { label: "Criações", verb: "criou", className: "bg-green-100 text-green-800" },
+  updated: { label: "Alterações", verb: "alterou", className: "bg-blue-100 text-blue-800" },
+  deleted: { label: "Exclusões", verb: "excluiu", className: "bg-red-100 text-red-800" }
+};
+
+const fieldLabels: Record<string, string> = {
+  name: "Nome",
+  title: "Título",
+  description: "Descrição",
+  status: "Status",
+  special_status: "Status especial",
+  priority: "Prioridade",
+  progress: "Progresso",
+  budget: "Orçamento",
+  amount: "Valor",
+  category: "Categoria",
+  client_id: "Cliente",
+  project_id: "Projeto",
+  assigned_to: "Responsável",
+  start_date: "Início",
+  startDate: "Início",
+  due_date: "Prazo",
+  endDate: "Término",
+  end_date: "Término",
+  date: "Data",
+  completed: "Concluída",
+  completion_date: "Data de conclusão",
+  paid: "Pago",
+  approved: "Aprovado",
+  active: "Ativo",
+  is_primary: "Contato principal",
+  email: "Email",
+  phone: "Telefone",
+  position: "Cargo",
+  notes: "Observações",
+  location: "Local",
+  role: "Papel",
+  user_id: "Usuário",
+  task_id: "Tarefa",
+  order: "Ordem",
+  file_name: "Arquivo",
+  file_size: "Tamanho",
+  file_type: "Tipo de arquivo",
+  file_url: "Conteúdo"
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR });
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+function ActivityEntryItem({ entry }: { entry: ActivityLogItem }) {
+  const [expanded, setExpanded] = useState(false);
+  const action = actionLabels[entry.action as ActivityAction] ?? actionLabels.updated;
+  const entity = entityLabels[entry.entity_type as ActivityEntityType];
+  const changes = Object.entries(entry.changes ?? {});
+
+  // Alterações ficam sempre visíveis; criação e exclusão mostram os campos sob demanda
+  const showChanges = entry.action === "updated" || expanded;
+
+  return (
+    <li className="flex gap-3 py-3">
+      <UserAvatar
+        user={{ id: entry.user_id ?? 0, name: entry.user_name ?? "Sistema", avatar: entry.user_avatar }}
+        className="h-8 w-8"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-x-1.5 gap-y-1 text-sm">
+          <span className="font-medium">{entry.user_name ?? "Sistema"}</span>
+          <span className="text-muted-foreground">{action.verb} {entity?.noun ?? entry.entity_type}</span>
+          <span className="font-medium truncate">{entry.entity_label || `#${entry.entity_id}`}</span>
+          <Badge variant="outline" className={cn("border-0 text-[10px] px-1.5", action.className)}>
+            {entity?.label ?? entry.entity_type}
+          </Badge>
+        </div>
+        {entry.created_at && (
+          <p
+            className="text-xs text-muted-foreground"
+            title={format(new Date(entry.created_at), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+          >
+            {formatDistanceToNow(new Date(entry.created_at), { locale: ptBR, addSuffix: true })}
+          </p>
+        )}
+
+        {showChanges && changes.length > 0 && (
+          <ul className="mt-2 space-y-1 rounded-md bg-muted/50 p-2 text-xs">
+            {changes.map(([field, change]) => (
+              <li key={field} className="flex flex-wrap gap-1">
+                <span className="font-medium">{fieldLabels[field] ?? field}:</span>
+                {entry.action !== "created" && (
+                  <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+                )}
+                {entry.action === "updated" && <span className="text-muted-foreground">→</span>}
+                {entry.action !== "deleted" && <span>{formatValue(change.after)}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {entry.action !== "updated" && changes.length > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 mt-1 text-xs"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+            {expanded ? "Ocultar detalhes" : "Ver detalhes"}
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Linha do tempo do registro de atividades: quem criou, alterou ou excluiu o quê,
+ * com os valores anteriores e novos, filtrável por tipo de registro, ação e usuário
+ */
+export function ActivityTimeline({
+  endpoint,
+  entityTypes = ACTIVITY_ENTITY_TYPES,
+  showUserFilter = false,
+  className
+}: ActivityTimelineProps) {
+  const [entityType, setEntityType] = useState<string>(ALL);
+  const [action, setAction] = useState<string>(ALL);
+  const [userId, setUserId] = useState<string>(ALL);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data: members = [] } = useTeamDirectory();
+
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (action !== ALL) params.set("action", action);
+  if (userId !== ALL) params.set("userId", userId);
+
+  const { data, isLoading, isFetching, error } = useQuery<ActivityPage>({
+    queryKey: [`${endpoint}?${params.toString()}`],
+    placeholderData: (previous) => previous
+  });
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+
+  // Mudar um filtro volta para a primeira página
+  const changeFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap gap-2">
+        {entityTypes.length > 1 && (
+          <Select value={entityType} onValueChange={changeFilter(setEntityType)}>
+            <SelectTrigger className="h-8 w-[150px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os registros</SelectItem>
+              {entityTypes.map(type => (
+                <SelectItem key={type} value={type}>{entityLabels[type].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={action} onValueChange={changeFilter(setAction)}>
+          <SelectTrigger className="h-8 w-[140px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todas as ações</SelectItem>
+            {ACTIVITY_ACTIONS.map(value => (
+              <SelectItem key={value} value={value}>{actionLabels[value].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {showUserFilter && (
+          <Select value={userId} onValueChange={changeFilter(setUserId)}>
+            <SelectTrigger className="h-8 w-[180px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os usuários</SelectItem>
+              {members.map(member => (
+                <SelectItem key={member.id} value={String(member.id)}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">
+          Carregando atividades...
+        </div>
+      ) : error ? (
+        <div className="rounded-md p-4 border border-destructive/50 bg-destructive/10">
+          <p className="text-sm text-destructive">Erro ao carregar atividades. Tente novamente mais tarde.</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="flex flex-col items-center py-6 text-sm text-muted-foreground">
+          <History className="h-6 w-6 mb-2" />
+          Nenhuma atividade registrada.
+        </div>
+      ) : (
+        <>
+          <ul className="divide-y">
+            {entries.map(entry => (
+              <ActivityEntryItem key={entry.id} entry={entry} />
+            ))}
+          </ul>
+          {entries.length < total && limit < MAX_LIMIT && (
+            <div className="text-center">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isFetching}
+                onClick={() => setLimit(Math.min(limit + PAGE_SIZE, MAX_LIMIT))}
+              >
+                {isFetching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Carregar mais ({total - entries.length})
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { apiRequest, queryClient, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { showSuccessToast } from "@/lib/utils";
+import {
+  API_TOKEN_RESOURCES,
+  API_TOKEN_RESOURCE_LABELS,
+  type ApiTokenScope,
+  type CreateApiTokenInput
+} from "@shared/schema";
+
+export interface ApiTokenItem {
+  id: number;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  created_at: string | null;
+}
+
+const TOKENS_URL = "/api/auth/api-tokens";
+
+const EXPIRATION_OPTIONS = [
+  { value: "30", label: "30 dias" },
+  { value: "90", label: "90 dias" },
+  { value: "365", label: "1 ano" },
+  { value: "never", label: "Sem expiração" },
+];
+
+const ACCESS_LABELS = { read: "Leitura", write: "Escrita" } as const;
+
+function describeScope(scope: string): string {
+  const [resource, access] = scope.split(":") as [keyof typeof API_TOKEN_RESOURCE_LABELS, keyof typeof ACCESS_LABELS];
+  return `${API_TOKEN_RESOURCE_LABELS[resource] ?? resource}: ${ACCESS_LABELS[access]?.toLowerCase() ?? access}`;
+}
+
+/**
+ * Tokens de acesso pessoais para integrações e scripts: criação com escopos
+ * e expiração, último uso e revogação
+ */
+export function ApiTokensList() {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiration, setExpiration] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [tokenToRevoke, setTokenToRevoke] = useState<ApiTokenItem | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenItem[]>({
+    queryKey: [TOKENS_URL],
+  });
+
+  const closeCreateDialog = () => {
+    setIsCreateOpen(false);
+    setName("");
+    setScopes([]);
+    setExpiration("90");
+    setCreatedToken(null);
+    createMutation.reset();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const payload: CreateApiTokenInput = {
+        name,
+        scopes,
+        expiresInDays: expiration === "never" ? null : parseInt(expiration)
+      };
+      const res = await apiRequest("POST", TOKENS_URL, payload);
+      return await res.json() as ApiTokenItem & { token: string };
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      queryClient.invalidateQueries({ queryKey: [TOKENS_URL] });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (tokenId: number) => {
+      await apiRequest("DELETE", `${TOKENS_URL}/${tokenId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TOKENS_URL] });
+      showSuccessToast({
+        title: "Token revogado",
+        description: "Integrações que usavam este token deixarão de funcionar."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: parseApiError(error).message || "Não foi possível revogar o token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Escrita inclui leitura: marcar escrita marca leitura, desmarcar leitura desmarca escrita
+  const toggleScope = (resource: typeof API_TOKEN_RESOURCES[number], access: "read" | "write", checked: boolean) => {
+    const read = `${resource}:read` as ApiTokenScope;
+    const write = `${resource}:write` as ApiTokenScope;
+    setScopes(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(access === "write" ? write : read);
+        if (access === "write") next.add(read);
+      } else {
+        next.delete(access === "write" ? write : read);
+        if (access === "read") next.delete(write);
+      }
+      return Array.from(next);
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    showSuccessToast({ title: "Token copiado", description: "Guarde-o em um local seguro." });
+  };
+
+  const isExpired = (token: ApiTokenItem) => !!token.expires_at && new Date(token.expires_at) <= new Date();
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Carregando tokens...
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">Nenhum token de API criado.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="flex min-w-0 items-start gap-3">
+                <KeyRound className="mt-0.5 h-5 w-5 shrink-0 text-gray-500" />
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="truncate text-sm font-medium">{token.name}</p>
+                    <code className="rounded bg-muted px-1.5 text-xs">{token.token_prefix}…</code>
+                    {isExpired(token) && <Badge variant="destructive">Expirado</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="font-normal">{describeScope(scope)}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {token.created_at && `Criado em ${format(new Date(token.created_at), "dd/MM/yyyy")}`}
+                    {" · "}
+                    {token.expires_at
+                      ? `${isExpired(token) ? "Expirou" : "Expira"} em ${format(new Date(token.expires_at), "dd/MM/yyyy")}`
+                      : "Sem expiração"}
+                    {" · "}
+                    {token.last_used_at
+                      ? `Usado ${formatDistanceToNow(new Date(token.last_used_at), { locale: ptBR, addSuffix: true })}`
+                      : "Nunca usado"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="shrink-0 text-red-600 hover:bg-red-50 hover:text-red-700"
+                disabled={revokeMutation.isPending}
+                onClick={() => setTokenToRevoke(token)}
+              >
+                Revogar
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Novo token
+        </Button>
+      </div>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !open && closeCreateDialog()}>
+        <DialogContent className="sm:max-w-lg">
+          {createdToken ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Token criado</DialogTitle>
+                <DialogDescription>
+                  Copie o token agora. Por segurança, ele não será exibido novamente.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 select-all break-all rounded bg-muted px-3 py-2 text-sm">{createdToken}</code>
+                <Button type="button" variant="outline" size="icon" onClick={handleCopy} title="Copiar">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Envie o token no cabeçalho <code>Authorization: Bearer {"<token>"}</code>.
+              </p>
+              <DialogFooter>
+                <Button onClick={closeCreateDialog}>Concluir</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>Novo token de API</DialogTitle>
+                <DialogDescription>
+                  O token age em seu nome e nunca ultrapassa as suas permissões.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="apiTokenName">Nome</Label>
+                  <Input
+                    id="apiTokenName"
+                    placeholder="Ex.: Relatórios mensais"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Escopos</Label>
+                  <div className="rounded-md border">
+                    {API_TOKEN_RESOURCES.map((resource) => (
+                      <div key={resource} className="flex items-center justify-between border-b px-3 py-2 last:border-b-0">
+                        <span className="text-sm">{API_TOKEN_RESOURCE_LABELS[resource]}</span>
+                        <div className="flex gap-4">
+                          {(["read", "write"] as const).map((access) => (
+                            <label key={access} className="flex items-center gap-2 text-sm text-gray-600">
+                              <Checkbox
+                                checked={scopes.includes(`${resource}:${access}` as ApiTokenScope)}
+                                onCheckedChange={(checked) => toggleScope(resource, access, checked === true)}
+                              />
+                              {ACCESS_LABELS[access]}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Expiração</Label>
+                  <Select value={expiration} onValueChange={setExpiration}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRATION_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {createMutation.isError && (
+                  <p className="text-sm text-destructive">{parseApiError(createMutation.error).message}</p>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={closeCreateDialog}>Cancelar</Button>
+                <Button
+                  disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                  onClick={() => createMutation.mutate()}
+                >
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Criar token
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={!!tokenToRevoke}
+        onClose={() => setTokenToRevoke(null)}
+        onConfirm={() => {
+          if (tokenToRevoke) revokeMutation.mutate(tokenToRevoke.id);
+          setTokenToRevoke(null);
+        }}
+        title="Revogar token?"
+        description={tokenToRevoke ? `O token "${tokenToRevoke.name}" deixará de funcionar imediatamente.` : undefined}
+        confirmLabel="Revogar"
+      />
+    </div>
+  );
+}
@@ -1,106 +1,222 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { useQuery, useInfiniteQuery, useMutation, type InfiniteData } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { MessageSquare, Send, X, MinusCircle, Maximize2, ChevronUp, ChevronDown } from 'lucide-react';
-import { useSocket } from '@/contexts/SocketContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquare, Send, X, ChevronUp, ChevronDown, ArrowLeft, Hash, Folder, User as UserIcon } from 'lucide-react';
+import { useSocket, useRealtimeEvent } from '@/contexts/SocketContext';
 import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient, parseApiError } from '@/lib/queryClient';
 import { cn } from '@/lib/utils';
+import { CHAT_MESSAGE_MAX_LENGTH, type ChatChannel, type ChatChannelSummary, type ChatMessageWithUser } from '@shared/schema';
 
-interface Message {
-  id: string;
-  userId: number;
-  userName: string;
-  message: string;
-  timestamp: string;
-  type: 'chat' | 'system' | 'notification';
+interface MessagesPage {
+  messages: ChatMessageWithUser[];
+  hasMore: boolean;
+}
+
+type ChatPeer = NonNullable<ChatChannelSummary['peer']>;
+
+const CHANNELS_QUERY_KEY = ['/api/chat/channels'];
+const messagesQueryKey = (channelId: number) => ['/api/chat/channels', channelId, 'messages'];
+
+// Destaca as menções (@username) no texto da mensagem
+function renderContent(content: string) {
+  return content.split(/(@[\w.-]+)/g).map((part, index) =>
+    part.startsWith('@') ? <span key={index} className="font-semibold">{part}</span> : part
+  );
+}
+
+function ChannelIcon({ channel }: { channel: ChatChannelSummary }) {
+  if (channel.type === 'direct') {
+    return (
+      <Avatar className="h-7 w-7">
+        {channel.peer?.avatar && <AvatarImage src={channel.peer.avatar} alt={channel.displayName} />}
+        <AvatarFallback className="text-xs">{channel.displayName.substring(0, 2).toUpperCase()}</AvatarFallback>
+      </Avatar>
+    );
+  }
+
+  const Icon = channel.type === 'project' ? Folder : Hash;
+  return (
+    <div className="h-7 w-7 rounded-full bg-muted flex items-center justify-center">
+      <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+    </div>
+  );
 }
 
 export function ChatWidget() {
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
+  const [activeChannelId, setActiveChannelId] = useState<number | null>(null);
   const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
+  const [sendError, setSendError] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  
+
   const { user } = useAuth();
-  const { sendMessage, isConnected } = useSocket();
+  const { isConnected, subscribe } = useSocket();
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+
+  const isViewing = isOpen && !isMinimized;
+
+  const { data: channels = [] } = useQuery<ChatChannelSummary[]>({
+    queryKey: CHANNELS_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  const { data: chatUsers = [] } = useQuery<ChatPeer[]>({
+    queryKey: ['/api/chat/users'],
+    enabled: !!user && isViewing && activeChannelId === null,
+  });
+
+  const { data: projects = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/projects'],
+    enabled: !!user && isViewing && activeChannelId === null,
+  });
+
+  const activeChannel = channels.find(channel => channel.id === activeChannelId) ?? null;
+  const totalUnread = channels.reduce((total, channel) => total + channel.unreadCount, 0);
+
+  const messagesQuery = useInfiniteQuery<MessagesPage, Error, InfiniteData<MessagesPage>, (string | number)[], number | undefined>({
+    queryKey: messagesQueryKey(activeChannelId ?? 0),
+    enabled: activeChannelId !== null,
+    initialPageParam: undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = pageParam ? `?before=${pageParam}` : '';
+      const res = await apiRequest('GET', `/api/chat/channels/${activeChannelId}/messages${params}`);
+      return await res.json();
+    },
+    // As páginas vão da mais recente para a mais antiga; o cursor é a mensagem mais antiga carregada
+    getNextPageParam: (lastPage) => lastPage.hasMore ? lastPage.messages[0]?.id : undefined,
+  });
 
-  // Adicionar mensagem de sistema no início
+  const messages = useMemo(
+    () => [...(messagesQuery.data?.pages ?? [])].reverse().flatMap(page => page.messages),
+    [messagesQuery.data]
+  );
+
+  // Acompanhar em tempo real todos os canais listados (o geral chega para todos)
+  const channelIds = channels.filter(channel => channel.type !== 'general').map(channel => channel.id).join(',');
   useEffect(() => {
-    if (isConnected) {
-      setMessages([
-        {
-          id: 'system-welcome',
-          userId: 0,
-          userName: 'Sistema',
-          message: 'Conectado ao chat. Você pode conversar com outros usuários conectados.',
-          timestamp: new Date().toISOString(),
-          type: 'system'
-        }
-      ]);
+    if (!channelIds) return;
+    const unsubscribers = channelIds.split(',').map(id => subscribe('chat', Number(id)));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [channelIds, subscribe]);
+
+  // Link de notificação de menção: /?chat=<id> abre o canal
+  useEffect(() => {
+    const channelParam = new URLSearchParams(search).get('chat');
+    if (!channelParam) return;
+
+    const channelId = parseInt(channelParam);
+    if (!isNaN(channelId)) {
+      setIsOpen(true);
+      setIsMinimized(false);
+      setActiveChannelId(channelId);
     }
-  }, [isConnected]);
+    navigate(location, { replace: true });
+  }, [search]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async ({ channelId, messageId }: { channelId: number; messageId?: number }) => {
+      await apiRequest('POST', `/api/chat/channels/${channelId}/read`, messageId ? { messageId } : {});
+    },
+    onMutate: ({ channelId }) => {
+      queryClient.setQueryData<ChatChannelSummary[]>(CHANNELS_QUERY_KEY, current =>
+        current?.map(channel => channel.id === channelId ? { ...channel, unreadCount: 0 } : channel)
+      );
+    },
+  });
 
-  // Registrar handler para mensagens de chat
+  // Ao abrir um canal com mensagens não lidas, marcá-lo como lido
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.type === 'chat' || data.type === 'system' || data.type === 'notification') {
-          const newMessage: Message = {
-            id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            userId: data.userId || 0,
-            userName: data.userName || 'Sistema',
-            message: data.message,
-            timestamp: data.timestamp || new Date().toISOString(),
-            type: data.type
-          };
-          
-          setMessages(prev => [...prev, newMessage]);
-          
-          // Incrementar contador de não lidos se o chat estiver minimizado
-          if (!isOpen || isMinimized) {
-            setUnreadCount(prev => prev + 1);
-          }
-        }
-      } catch (error) {
-        console.error('Erro ao processar mensagem:', error);
+    if (isViewing && activeChannel && activeChannel.unreadCount > 0) {
+      markReadMutation.mutate({ channelId: activeChannel.id });
+    }
+  }, [isViewing, activeChannel?.id, activeChannel?.unreadCount]);
+
+  const appendMessage = (newMessage: ChatMessageWithUser) => {
+    queryClient.setQueryData<InfiniteData<MessagesPage>>(messagesQueryKey(newMessage.channel_id), current => {
+      if (!current || current.pages.length === 0) return current;
+      if (current.pages.some(page => page.messages.some(item => item.id === newMessage.id))) return current;
+
+      const [latest, ...older] = current.pages;
+      return { ...current, pages: [{ ...latest, messages: [...latest.messages, newMessage] }, ...older] };
+    });
+  };
+
+  useRealtimeEvent('chat_message', (newMessage) => {
+    appendMessage(newMessage);
+
+    const known = channels.some(channel => channel.id === newMessage.channel_id);
+    const isOwn = newMessage.user_id === user?.id;
+
+    if (isViewing && newMessage.channel_id === activeChannelId) {
+      if (!isOwn) {
+        markReadMutation.mutate({ channelId: newMessage.channel_id, messageId: newMessage.id });
       }
-    };
+      queryClient.setQueryData<ChatChannelSummary[]>(CHANNELS_QUERY_KEY, current =>
+        current?.map(channel => channel.id === newMessage.channel_id ? { ...channel, lastMessage: newMessage } : channel)
+      );
+    } else if (!known) {
+      // Conversa direta nova: recarregar a lista para exibir o canal
+      queryClient.invalidateQueries({ queryKey: CHANNELS_QUERY_KEY });
+    } else {
+      queryClient.setQueryData<ChatChannelSummary[]>(CHANNELS_QUERY_KEY, current =>
+        current?.map(channel => channel.id === newMessage.channel_id
+          ? { ...channel, lastMessage: newMessage, unreadCount: channel.unreadCount + (isOwn ? 0 : 1) }
+          : channel)
+      );
+    }
+  });
 
-    // Adicionar evento para WebSocket
-    window.addEventListener('message', handleMessage);
-    
-    return () => {
-      window.removeEventListener('message', handleMessage);
-    };
-  }, [isOpen, isMinimized]);
+  const sendMutation = useMutation({
+    mutationFn: async ({ channelId, content }: { channelId: number; content: string }) => {
+      const res = await apiRequest('POST', `/api/chat/channels/${channelId}/messages`, { content });
+      return await res.json() as ChatMessageWithUser;
+    },
+    onSuccess: (created) => {
+      appendMessage(created);
+      setMessage('');
+      setSendError(null);
+    },
+    onError: (error: Error) => {
+      setSendError(parseApiError(error).message || 'Falha ao enviar mensagem. Tente novamente.');
+    },
+  });
 
-  // Scroll para a última mensagem quando chegar uma nova
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  const openChannelMutation = useMutation({
+    mutationFn: async (target: { userId: number } | { projectId: number }) => {
+      const res = 'userId' in target
+        ? await apiRequest('POST', '/api/chat/channels/direct', { userId: target.userId })
+        : await apiRequest('POST', `/api/chat/channels/project/${target.projectId}`);
+      return await res.json() as ChatChannel;
+    },
+    onSuccess: async (channel) => {
+      await queryClient.invalidateQueries({ queryKey: CHANNELS_QUERY_KEY });
+      setActiveChannelId(channel.id);
+    },
+  });
 
-  // Resetar contador de não lidos quando abrir o chat
+  // Scroll para a última mensagem quando chegar uma nova (não ao carregar o histórico antigo)
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
-    if (isOpen && !isMinimized) {
-      setUnreadCount(0);
-    }
-  }, [isOpen, isMinimized]);
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId, activeChannelId]);
 
-  // Focar no input quando abrir o chat
+  // Focar no input quando abrir um canal
   useEffect(() => {
-    if (isOpen && !isMinimized) {
+    if (isViewing && activeChannelId !== null) {
       inputRef.current?.focus();
     }
-  }, [isOpen, isMinimized]);
+  }, [isViewing, activeChannelId]);
 
   const handleToggleOpen = () => {
     setIsOpen(!isOpen);
@@ -113,55 +229,23 @@ export function ChatWidget() {
     setIsMinimized(!isMinimized);
     if (!isMinimized) {
       inputRef.current?.blur();
-    } else {
-      inputRef.current?.focus();
-      setUnreadCount(0);
     }
   };
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!message.trim() || !user) return;
-    
-    const messageData = {
-      type: 'chat',
-      userId: user.id,
-      userName: user.name,
-      message: message.trim(),
-      timestamp: new Date().toISOString()
-    };
-    
-    // Enviar para o servidor via WebSocket
-    if (sendMessage(messageData)) {
-      // Adicionar à lista local (o eco virá do servidor)
-      const newMessage: Message = {
-        id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        userId: user.id,
-        userName: user.name,
-        message: message.trim(),
-        timestamp: new Date().toISOString(),
-        type: 'chat'
-      };
-      
-      setMessages(prev => [...prev, newMessage]);
-      setMessage('');
-      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    } else {
-      // Falha ao enviar - mostrar mensagem de erro
-      const errorMessage: Message = {
-        id: `error-${Date.now()}`,
-        userId: 0,
-        userName: 'Sistema',
-        message: 'Falha ao enviar mensagem. Tente novamente.',
-        timestamp: new Date().toISOString(),
-        type: 'system'
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
-    }
+
+    const content = message.trim();
+    if (!content || !user || activeChannelId === null) return;
+
+    sendMutation.mutate({ channelId: activeChannelId, content });
   };
 
+  const formatTime = (timestamp: string | Date | null) =>
+    timestamp
+      ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : '';
+
   if (!isOpen) {
     return (
       <Button
@@ -169,14 +253,15 @@ export function ChatWidget() {
         className="fixed bottom-4 right-4 h-12 w-12 rounded-full p-0 shadow-lg"
         size="icon"
         variant="default"
+        aria-label="Abrir chat"
       >
         <MessageSquare className="h-6 w-6" />
-        {unreadCount > 0 && (
+        {totalUnread > 0 && (
           <Badge
             variant="destructive"
-            className="absolute -right-2 -top-2 h-6 w-6 rounded-full p-0 flex items-center justify-center"
+            className="absolute -right-2 -top-2 h-6 min-w-6 rounded-full px-1 flex items-center justify-center"
           >
-            {unreadCount}
+            {totalUnread > 99 ? '99+' : totalUnread}
           </Badge>
         )}
       </Button>
@@ -186,18 +271,30 @@ export function ChatWidget() {
   return (
     <Card className={cn(
       "fixed bottom-4 right-4 shadow-lg transition-all duration-200",
-      isMinimized ? "w-64 h-12" : "w-80 h-96 md:w-96"
+      isMinimized ? "w-64 h-12" : "w-80 h-[28rem] md:w-96"
     )}>
       <CardHeader className="px-4 py-2 flex flex-row items-center justify-between space-y-0 border-b">
-        <CardTitle className="text-sm font-medium flex items-center">
-          <MessageSquare className="h-4 w-4 mr-2" />
-          Chat em Tempo Real
-          {unreadCount > 0 && isMinimized && (
+        <CardTitle className="text-sm font-medium flex items-center min-w-0">
+          {activeChannel && !isMinimized ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 mr-1"
+              onClick={() => setActiveChannelId(null)}
+              aria-label="Voltar aos canais"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          ) : (
+            <MessageSquare className="h-4 w-4 mr-2" />
+          )}
+          <span className="truncate">{activeChannel ? activeChannel.displayName : 'Chat da equipe'}</span>
+          {totalUnread > 0 && isMinimized && (
             <Badge
               variant="destructive"
-              className="ml-2 h-5 w-5 rounded-full p-0 flex items-center justify-center"
+              className="ml-2 h-5 min-w-5 rounded-full px-1 flex items-center justify-center"
             >
-              {unreadCount}
+              {totalUnread > 99 ? '99+' : totalUnread}
             </Badge>
           )}
         </CardTitle>
@@ -220,77 +317,167 @@ export function ChatWidget() {
           </Button>
         </div>
       </CardHeader>
-      
-      {!isMinimized && (
+
+      {!isMinimized && activeChannelId === null && (
+        <CardContent className="px-2 py-2 h-[calc(100%-48px)] flex flex-col">
+          <ScrollArea className="flex-1">
+            <ul className="space-y-1 pr-2">
+              {channels.map(channel => (
+                <li key={channel.id}>
+                  <button
+                    type="button"
+                    className="w-full flex items-center gap-2 rounded-md px-2 py-2 text-left hover:bg-accent"
+                    onClick={() => setActiveChannelId(channel.id)}
+                  >
+                    <ChannelIcon channel={channel} />
+                    <div className="flex-1 min-w-0">
+                      <p className={cn("text-sm truncate", channel.unreadCount > 0 && "font-semibold")}>
+                        {channel.displayName}
+                      </p>
+                      {channel.lastMessage && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {channel.lastMessage.user?.name ? `${channel.lastMessage.user.name}: ` : ''}
+                          {channel.lastMessage.content}
+                        </p>
+                      )}
+                    </div>
+                    {channel.unreadCount > 0 && (
+                      <Badge variant="destructive" className="h-5 min-w-5 rounded-full px-1 flex items-center justify-center">
+                        {channel.unreadCount > 99 ? '99+' : channel.unreadCount}
+                      </Badge>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+
+          <div className="border-t pt-2 mt-2 space-y-2">
+            <Select
+              value=""
+              onValueChange={(value) => openChannelMutation.mutate({ userId: Number(value) })}
+              disabled={openChannelMutation.isPending}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <UserIcon className="h-3.5 w-3.5 mr-1" />
+                <SelectValue placeholder="Conversa direta com..." />
+              </SelectTrigger>
+              <SelectContent>
+                {chatUsers.filter(chatUser => chatUser.id !== user?.id).map(chatUser => (
+                  <SelectItem key={chatUser.id} value={String(chatUser.id)}>{chatUser.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value=""
+              onValueChange={(value) => openChannelMutation.mutate({ projectId: Number(value) })}
+              disabled={openChannelMutation.isPending}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <Folder className="h-3.5 w-3.5 mr-1" />
+                <SelectValue placeholder="Canal de projeto..." />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      )}
+
+      {!isMinimized && activeChannelId !== null && (
         <>
           <CardContent className="px-4 py-2 h-[calc(100%-96px)]">
             <ScrollArea className="h-full pr-4">
               <div className="space-y-4">
-                {messages.map((msg) => (
-                  <div
-                    key={msg.id}
-                    className={cn(
-                      "flex items-start space-x-2",
-                      msg.userId === user?.id ? "justify-end" : "justify-start",
-                      msg.type === 'system' && "justify-center"
-                    )}
-                  >
-                    {msg.type === 'system' ? (
-                      <div className="bg-muted text-muted-foreground text-xs p-2 rounded-md max-w-[80%] text-center">
-                        {msg.message}
-                      </div>
-                    ) : (
-                      <>
-                        {msg.userId !== user?.id && (
-                          <Avatar className="h-6 w-6">
-                            <AvatarFallback className="text-xs">
-                              {msg.userName.substring(0, 2).toUpperCase()}
-                            </AvatarFallback>
-                          </Avatar>
-                        )}
-                        <div
-                          className={cn(
-                            "rounded-lg p-2 text-sm max-w-[70%]",
-                            msg.userId === user?.id
-                              ? "bg-primary text-primary-foreground"
-                              : "bg-accent"
-                          )}
-                        >
-                          {msg.userId !== user?.id && (
-                            <p className="text-xs font-medium mb-1">{msg.userName}</p>
-                          )}
-                          <p>{msg.message}</p>
-                          <p className="text-xs opacity-70 text-right mt-1">
-                            {new Date(msg.timestamp).toLocaleTimeString([], {
-                              hour: '2-digit',
-                              minute: '2-digit'
-                            })}
-                          </p>
-                        </div>
-                      </>
-                    )}
+                {messagesQuery.hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => messagesQuery.fetchNextPage()}
+                      disabled={messagesQuery.isFetchingNextPage}
+                    >
+                      {messagesQuery.isFetchingNextPage ? 'Carregando...' : 'Carregar mensagens anteriores'}
+                    </Button>
                   </div>
-                ))}
+                )}
+
+                {messagesQuery.isLoading && (
+                  <p className="text-center text-xs text-muted-foreground">Carregando mensagens...</p>
+                )}
+
+                {!messagesQuery.isLoading && messages.length === 0 && (
+                  <div className="bg-muted text-muted-foreground text-xs p-2 rounded-md text-center">
+                    Nenhuma mensagem ainda. Use @usuário para mencionar alguém.
+                  </div>
+                )}
+
+                {messages.map((msg) => {
+                  const isOwn = msg.user_id === user?.id;
+                  const authorName = msg.user?.name ?? 'Usuário removido';
+
+                  return (
+                    <div
+                      key={msg.id}
+                      className={cn("flex items-start space-x-2", isOwn ? "justify-end" : "justify-start")}
+                    >
+                      {!isOwn && (
+                        <Avatar className="h-6 w-6">
+                          {msg.user?.avatar && <AvatarImage src={msg.user.avatar} alt={authorName} />}
+                          <AvatarFallback className="text-xs">
+                            {authorName.substring(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                      )}
+                      <div
+                        className={cn(
+                          "rounded-lg p-2 text-sm max-w-[70%] break-words",
+                          isOwn
+                            ? "bg-primary text-primary-foreground"
+                            : user && msg.mentions.includes(user.id)
+                              ? "bg-amber-100 dark:bg-amber-900/40"
+                              : "bg-accent"
+                        )}
+                      >
+                        {!isOwn && (
+                          <p className="text-xs font-medium mb-1">{authorName}</p>
+                        )}
+                        <p className="whitespace-pre-wrap">{renderContent(msg.content)}</p>
+                        <p className="text-xs opacity-70 text-right mt-1">
+                          {formatTime(msg.created_at)}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
                 <div ref={messagesEndRef} />
               </div>
             </ScrollArea>
           </CardContent>
-          
-          <CardFooter className="p-2 border-t">
+
+          <CardFooter className="p-2 border-t flex-col items-stretch gap-1">
+            {sendError && (
+              <p className="text-xs text-destructive px-1">{sendError}</p>
+            )}
             <form onSubmit={handleSendMessage} className="flex w-full space-x-2">
               <Input
                 ref={inputRef}
                 type="text"
-                placeholder={isConnected ? "Digite sua mensagem..." : "Conectando..."}
+                placeholder={isConnected ? "Digite sua mensagem..." : "Reconectando..."}
                 value={message}
+                maxLength={CHAT_MESSAGE_MAX_LENGTH}
                 onChange={(e) => setMessage(e.target.value)}
                 className="flex-1"
-                disabled={!isConnected || !user}
+                disabled={!user || sendMutation.isPending}
               />
               <Button
                 type="submit"
                 size="icon"
-                disabled={!isConnected || !message.trim() || !user}
+                disabled={!message.trim() || !user || sendMutation.isPending}
               >
                 <Send className="h-4 w-4" />
               </Button>
@@ -300,4 +487,4 @@ export function ChatWidget() {
       )}
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -8,6 +8,7 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { ImageUpload } from "@/components/ui/image-upload";
 import ClientContacts from "@/components/ClientContacts";
 import EntityFileManager from "@/components/EntityFileManager";
+import { ActivityTimeline } from "@/components/ActivityTimeline";
 import { 
   Building, 
   Mail, 
@@ -26,7 +27,9 @@ import {
   Users,
   ListTodo,
   CalendarCheck,
-  CheckSquare
+  CheckSquare,
+  MessageSquare,
+  History
 } from "lucide-react";
 import type { ClientWithDetails } from "@/lib/types";
 import { format } from "date-fns";
@@ -45,7 +48,9 @@ import { insertClientSchema, insertProjectSchema, type InsertClient, type Insert
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CLIENT_TYPE_OPTIONS } from "@/lib/constants";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeEvent, useRealtimeRoom } from "@/contexts/SocketContext";
 import FileAttachments from "@/components/FileAttachments";
+import { CommentSection } from "@/components/comments";
 import {
   Dialog,
   DialogContent,
@@ -108,6 +113,15 @@ export default function ClientDetail({ clientId }: ClientDetailProps) {
     refetchOnWindowFocus: false
   });
 
+  // Alterações no cliente e nos contatos feitas por outros usuários
+  useRealtimeRoom('client', clientId);
+  useRealtimeEvent('client_updated', (event) => {
+    if (event.clientId !== clientId) return;
+    queryClient.invalidateQueries({
+      queryKey: [event.type === 'client_updated' ? `/api/clients/${clientId}` : `/api/clients/${clientId}/contacts`]
+    });
+  });
+
   // Usando o cache efetivamente para dados relacionados
   const { data: projects } = useQuery({
     queryKey: [`/api/clients/${clientId}/projects`],
@@ -629,7 +643,7 @@ export default function ClientDetail({ clientId }: ClientDetailProps) {
           </Card>
           
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid grid-cols-3 mb-4">
+            <TabsList className="grid grid-cols-5 mb-4">
               <TabsTrigger value="contacts">
                 <Users className="h-4 w-4 mr-2" />
                 Contatos
@@ -639,6 +653,14 @@ export default function ClientDetail({ clientId }: ClientDetailProps) {
                 Arquivos
               </TabsTrigger>
               <TabsTrigger value="financial">Documentos Financeiros</TabsTrigger>
+              <TabsTrigger value="comments">
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Discussão
+              </TabsTrigger>
+              <TabsTrigger value="activity">
+                <History className="h-4 w-4 mr-2" />
+                Atividade
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="contacts" className="space-y-4">
@@ -736,6 +758,19 @@ export default function ClientDetail({ clientId }: ClientDetailProps) {
                 </TableBody>
               </Table>
             </TabsContent>
+            
+            <TabsContent value="comments">
+              <CommentSection
+                entityType="client"
+                entityId={clientId}
+                placeholder="Escreva um comentário sobre o cliente (use @ para mencionar)"
+                className="mt-0"
+              />
+            </TabsContent>
+            
+            <TabsContent value="activity">
+              <ActivityTimeline endpoint={`/api/clients/${clientId}/activity`} />
+            </TabsContent>
           </Tabs>
         </div>
 
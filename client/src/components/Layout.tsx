@@ -3,8 +3,9 @@ import { useLocation } from "wouter";
 import Sidebar from "./Sidebar";
 import SearchBar from "./SearchBar";
 import { ChatWidget } from "./ChatWidget";
+import NotificationBell from "./NotificationBell";
 import { Button } from "@/components/ui/button";
-import { Bell, Menu, UserCircle, Plus, List, User, LogOut, Settings } from "lucide-react";
+import { Menu, UserCircle, Plus, List, User, LogOut, Settings } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -101,9 +102,7 @@ export default function Layout({ children }: LayoutProps) {
 
             {/* Notification button */}
             <div className="flex items-center">
-              <Button variant="ghost" size="icon" className="text-gray-500">
-                <Bell className="h-5 w-5" />
-              </Button>
+              <NotificationBell />
             </div>
           </div>
         </header>
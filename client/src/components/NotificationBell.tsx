@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Bell, CheckCheck, ClipboardList, MessageSquare, DollarSign, AlertTriangle, AtSign, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useRealtimeEvent } from "@/contexts/SocketContext";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { Notification } from "@shared/schema";
+import { mentionsToPlainText, type MentionedComment } from "@shared/mentions";
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+interface MentionsResponse {
+  mentions: MentionedComment[];
+  hasMore: boolean;
+}
+
+const NOTIFICATIONS_QUERY_KEY = ['/api/notifications'];
+const MENTIONS_QUERY_KEY = ['/api/mentions'];
+
+type InboxTab = 'all' | 'mentions';
+
+// Ícone exibido para cada tipo de notificação
+function getNotificationIcon(type: string) {
+  switch (type) {
+    case 'task_assigned':
+      return <ClipboardList className="h-4 w-4 text-blue-500" />;
+    case 'task_comment':
+    case 'project_comment':
+    case 'client_comment':
+    case 'financial_document_comment':
+      return <MessageSquare className="h-4 w-4 text-purple-500" />;
+    case 'payment_received':
+      return <DollarSign className="h-4 w-4 text-green-500" />;
+    case 'project_delayed':
+      return <AlertTriangle className="h-4 w-4 text-amber-500" />;
+    case 'task_due':
+    case 'invoice_due':
+      return <CalendarClock className="h-4 w-4 text-orange-500" />;
+    case 'chat_mention':
+    case 'comment_mention':
+      return <AtSign className="h-4 w-4 text-sky-500" />;
+    default:
+      return <Bell className="h-4 w-4 text-gray-500" />;
+  }
+}
+
+/**
+ * Sino de notificações do cabeçalho com a caixa de entrada do usuário
+ */
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<InboxTab>('all');
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<NotificationsResponse>({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    refetchInterval: 60000, // Fallback caso o canal em tempo real esteja desconectado
+  });
+
+  // Filtro "Menções": comentários de tarefas e projetos que citam o usuário
+  const { data: mentionsData, isLoading: isLoadingMentions } = useQuery<MentionsResponse>({
+    queryKey: MENTIONS_QUERY_KEY,
+    enabled: open && tab === 'mentions',
+  });
+
+  const notifications = data?.notifications ?? [];
+  const mentions = mentionsData?.mentions ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  // Atualizar a caixa de entrada quando uma notificação chegar em tempo real
+  useRealtimeEvent('notification', (notification) => {
+    queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    if (notification.type === 'comment_mention') {
+      queryClient.invalidateQueries({ queryKey: MENTIONS_QUERY_KEY });
+    }
+    toast({
+      title: notification.title,
+      description: notification.message,
+    });
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("PATCH", `/api/notifications/${id}/read`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notifications/read-all");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível marcar as notificações como lidas.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.read) {
+      markReadMutation.mutate(notification.id);
+    }
+
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleOpenMention = (mention: MentionedComment) => {
+    setOpen(false);
+    navigate(mention.link);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-gray-500" aria-label="Notificações">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h4 className="text-sm font-semibold">Notificações</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+          >
+            <CheckCheck className="mr-1 h-3.5 w-3.5" />
+            Marcar todas como lidas
+          </Button>
+        </div>
+
+        <div className="flex gap-1 border-b px-4 py-2">
+          {([['all', 'Todas'], ['mentions', 'Menções']] as const).map(([value, label]) => (
+            <Button
+              key={value}
+              variant={tab === value ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setTab(value)}
+            >
+              {value === 'mentions' && <AtSign className="mr-1 h-3.5 w-3.5" />}
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <ScrollArea className="max-h-96">
+          {tab === 'mentions' ? (
+            isLoadingMentions ? (
+              <p className="px-4 py-6 text-center text-sm text-muted-foreground">Carregando...</p>
+            ) : mentions.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-muted-foreground">Ninguém mencionou você ainda.</p>
+            ) : (
+              <ul className="divide-y">
+                {mentions.map((mention) => (
+                  <li key={`${mention.kind}-${mention.id}`}>
+                    <button
+                      type="button"
+                      onClick={() => handleOpenMention(mention)}
+                      className="flex w-full gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/60"
+                    >
+                      <div className="mt-0.5 shrink-0"><AtSign className="h-4 w-4 text-sky-500" /></div>
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm">
+                          <span className="font-semibold">{mention.author?.name ?? 'Alguém'}</span>
+                          {mention.kind === 'task' ? ' na tarefa ' : ' no projeto '}
+                          <span className="font-medium">"{mention.entity_title}"</span>
+                        </p>
+                        <p className="line-clamp-2 text-xs text-muted-foreground">{mentionsToPlainText(mention.comment)}</p>
+                        {mention.creation_date && (
+                          <p className="mt-1 text-[11px] text-muted-foreground">
+                            {formatDistanceToNow(new Date(mention.creation_date), { locale: ptBR, addSuffix: true })}
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : isLoading ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">Carregando...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">Nenhuma notificação por aqui.</p>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpenNotification(notification)}
+                    className={cn(
+                      "flex w-full gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/60",
+                      !notification.read && "bg-blue-50/60"
+                    )}
+                  >
+                    <div className="mt-0.5 shrink-0">{getNotificationIcon(notification.type)}</div>
+                    <div className="min-w-0 flex-1">
+                      <p className={cn("text-sm", !notification.read && "font-semibold")}>{notification.title}</p>
+                      <p className="line-clamp-2 text-xs text-muted-foreground">{notification.message}</p>
+                      {notification.created_at && (
+                        <p className="mt-1 text-[11px] text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.created_at), { locale: ptBR, addSuffix: true })}
+                        </p>
+                      )}
+                    </div>
+                    {!notification.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-500" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
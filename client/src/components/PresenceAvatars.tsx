@@ -0,0 +1,67 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useRoomPresence } from '@/contexts/SocketContext';
+import { useAuth } from '@/hooks/use-auth';
+import { cn } from '@/lib/utils';
+import type { RealtimeRoomType } from '@shared/realtime';
+
+interface PresenceAvatarsProps {
+  type: RealtimeRoomType;
+  id: number | null | undefined;
+  // Quantidade de avatares antes do contador "+N"
+  max?: number;
+  className?: string;
+}
+
+function getInitials(name: string) {
+  const parts = name.trim().split(' ');
+  if (parts.length === 1) return parts[0].substring(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+}
+
+/**
+ * Avatares de quem mais está com a tarefa ou o projeto aberto neste momento
+ */
+export function PresenceAvatars({ type, id, max = 4, className }: PresenceAvatarsProps) {
+  const { user } = useAuth();
+  const viewers = useRoomPresence(type, id).filter(viewer => viewer.id !== user?.id);
+
+  if (viewers.length === 0) return null;
+
+  const visible = viewers.slice(0, max);
+  const hidden = viewers.slice(max);
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div className={cn('flex items-center', className)} aria-label="Também vendo agora">
+        <span className="relative mr-2 flex h-2 w-2">
+          <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-400 opacity-75" />
+          <span className="relative inline-flex h-2 w-2 rounded-full bg-emerald-500" />
+        </span>
+        <div className="flex -space-x-2">
+          {visible.map(viewer => (
+            <Tooltip key={viewer.id}>
+              <TooltipTrigger asChild>
+                <Avatar className="h-6 w-6 border-2 border-white">
+                  {viewer.avatar && <AvatarImage src={viewer.avatar} alt={viewer.name} />}
+                  <AvatarFallback className="text-[10px]">{getInitials(viewer.name)}</AvatarFallback>
+                </Avatar>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">{viewer.name} está vendo</TooltipContent>
+            </Tooltip>
+          ))}
+          {hidden.length > 0 && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-white bg-gray-100 text-[10px] font-medium text-gray-600">
+                  +{hidden.length}
+                </div>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">{hidden.map(viewer => viewer.name).join(', ')}</TooltipContent>
+            </Tooltip>
+          )}
+        </div>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -17,7 +17,8 @@ import StatusBadge from "./StatusBadge";
 import { ProjectProgress } from "./ProjectProgress";
 import { ProjectTimeline } from "./ProjectTimeline";
 import { TimelineProgressBar } from "./TimelineProgressBar";
-import { ProjectCommentSection } from "./comments";
+import { CommentSection } from "./comments";
+import { ActivityTimeline } from "./ActivityTimeline";
 import ProjectAttachments from "./ProjectAttachments";
 import { ProjectStageStatus, isProjectStage, isProjectSpecialStatus } from "@/lib/types";
 import { ProjectSpecialStatus } from "./ProjectSpecialStatus";
@@ -56,6 +57,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ProjectFormDialog } from "./ProjectFormDialog";
+import { PresenceAvatars } from "./PresenceAvatars";
 
 interface ProjectDetailSidebarProps {
   projectId: number;
@@ -837,6 +839,7 @@ export default function ProjectDetailSidebar({ projectId, onClose }: ProjectDeta
     <div ref={sidebarRef} className="fixed inset-y-0 right-0 bg-white shadow-lg w-96 transform transition-all duration-300 z-20 border-l border-gray-200 overflow-y-auto">
       <div className="flex items-center justify-between p-4 border-b border-gray-200">
         <h2 className="font-semibold text-lg">DETALHES DO PROJETO</h2>
+        <PresenceAvatars type="project" id={projectId} className="ml-auto mr-2" />
         <Button variant="ghost" size="icon" onClick={onClose}>
           <X className="h-5 w-5" />
         </Button>
@@ -1310,7 +1313,23 @@ export default function ProjectDetailSidebar({ projectId, onClose }: ProjectDeta
           <div className="flex justify-between items-center mb-2">
             <div className="text-xs font-medium text-gray-500">COMENTÁRIOS</div>
           </div>
-          <ProjectCommentSection projectId={projectId} />
+          <CommentSection
+            entityType="project"
+            entityId={projectId}
+            title="Comentários do Projeto"
+            placeholder="Escreva um comentário sobre o projeto (use @ para mencionar)"
+          />
+        </div>
+        
+        {/* Linha do tempo de atividades do projeto, suas tarefas, despesas e eventos */}
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <div className="text-xs font-medium text-gray-500">ATIVIDADE</div>
+          </div>
+          <ActivityTimeline
+            endpoint={`/api/projects/${projectId}/activity`}
+            entityTypes={['project', 'project_member', 'project_stage', 'project_attachment', 'task', 'task_attachment', 'expense', 'event']}
+          />
         </div>
         
         {/* Diálogo de confirmação para exclusão de anexo */}
@@ -9,7 +9,7 @@ import { ptBR } from "date-fns/locale";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { showSuccessToast } from "@/lib/utils";
-import { insertProjectSchema, PROJECT_STATUS_CONFIG, type ProjectStatus } from "@shared/schema";
+import { insertProjectSchema, installmentPlanError, PROJECT_STATUS_CONFIG, type ProjectStatus } from "@shared/schema";
 import { useProjectForm } from "@/contexts/ProjectFormContext";
 import { 
   standardizeToUTC, 
@@ -19,6 +19,7 @@ import {
   standardizeProjectDates
 } from "@/lib/date-handlers";
 import { ImageUpload } from "@/components/ui/image-upload";
+import { InstallmentPlanEditor } from "@/components/financial/InstallmentPlanEditor";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -79,6 +80,11 @@ const projectFormSchema = insertProjectSchema.extend({
   complexity: z.enum(["simples", "moderada", "complexa", "muito_complexa"]).default("moderada"),
   team_members: z.array(z.number()).optional(),
   team_members_roles: z.record(z.string(), z.string()).optional(),
+}).superRefine((data, ctx) => {
+  const error = installmentPlanError(data.installment_plan, data.budget);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['installment_plan'] });
+  }
 });
 
 type ProjectFormValues = z.infer<typeof projectFormSchema>;
@@ -118,6 +124,7 @@ export function ProjectFormDialog() {
       endDate: projectToEdit?.endDate ? new Date(projectToEdit.endDate) : null,
       issue_date: projectToEdit?.issue_date ? new Date(projectToEdit.issue_date) : null,
       payment_term: projectToEdit?.payment_term || 30,
+      installment_plan: projectToEdit?.installment_plan ?? null,
       priority: projectToEdit?.priority || "media",
       complexity: projectToEdit?.complexity || "moderada",
       team_members: projectToEdit?.team_members || [],
@@ -140,6 +147,7 @@ export function ProjectFormDialog() {
         endDate: projectToEdit.endDate ? new Date(projectToEdit.endDate) : null,
         issue_date: projectToEdit.issue_date ? new Date(projectToEdit.issue_date) : null,
         payment_term: projectToEdit.payment_term || 30,
+        installment_plan: projectToEdit.installment_plan ?? null,
         priority: projectToEdit.priority || "media",
         complexity: projectToEdit.complexity || "moderada",
         team_members: projectToEdit.team_members || [],
@@ -198,7 +206,7 @@ export function ProjectFormDialog() {
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
       
       // Importante: Invalidar cache de documentos financeiros também
-      // já que a criação do projeto gera automaticamente uma fatura
+      // já que a criação do projeto gera automaticamente as faturas (uma por parcela)
       queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
       
       // Mostrar uma mensagem de sucesso
@@ -872,6 +880,24 @@ export function ProjectFormDialog() {
                     />
                   </div>
                   
+                  <FormField
+                    control={form.control}
+                    name="installment_plan"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <InstallmentPlanEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            budget={form.watch("budget")}
+                            issueDate={form.watch("issue_date")}
+                            paymentTerm={form.watch("payment_term") || 30}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={form.control}
                     name="thumbnail"
@@ -1,8 +1,19 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Search, ProjectorIcon, CheckCircle, Users, Calendar } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import {
+  Search,
+  ProjectorIcon,
+  CheckCircle,
+  Users,
+  Calendar,
+  Contact,
+  MessageSquare,
+  Paperclip,
+  Receipt,
+  Loader2,
+  type LucideIcon
+} from "lucide-react";
 import {
   CommandDialog,
   CommandEmpty,
@@ -12,25 +23,52 @@ import {
   CommandList,
   CommandSeparator
 } from "@/components/ui/command";
+import {
+  SEARCH_MIN_LENGTH,
+  SEARCH_RESULT_LABELS,
+  SEARCH_RESULT_TYPES,
+  type SearchResponse,
+  type SearchResultType
+} from "@shared/search";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const resultIcons: Record<SearchResultType, LucideIcon> = {
+  project: ProjectorIcon,
+  task: CheckCircle,
+  client: Users,
+  contact: Contact,
+  comment: MessageSquare,
+  attachment: Paperclip,
+  financial_document: Receipt
+};
+
+const pages = [
+  { path: "/dashboard", label: "Dashboard" },
+  { path: "/projects", label: "Projetos", icon: ProjectorIcon },
+  { path: "/tasks", label: "Tarefas", icon: CheckCircle },
+  { path: "/clients", label: "Clientes", icon: Users },
+  { path: "/calendar", label: "Calendário", icon: Calendar }
+];
 
 export default function SearchBar() {
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
   const [, navigate] = useLocation();
 
-  const { data: projects } = useQuery({
-    queryKey: ['/api/projects'],
-    enabled: open
-  });
+  // Só consulta o servidor depois que o usuário para de digitar
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-  const { data: tasks } = useQuery({
-    queryKey: ['/api/tasks'],
-    enabled: open
-  });
+  const canSearch = debouncedQuery.length >= SEARCH_MIN_LENGTH;
 
-  const { data: clients } = useQuery({
-    queryKey: ['/api/clients'],
-    enabled: open
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && canSearch,
+    staleTime: 30000
   });
 
   useEffect(() => {
@@ -45,38 +83,29 @@ export default function SearchBar() {
     return () => document.removeEventListener("keydown", down);
   }, []);
 
-  const handleSelect = (value: string) => {
+  const handleSelect = (path: string) => {
     setOpen(false);
-    navigate(value);
+    setSearchQuery("");
+    navigate(path);
   };
 
-  // Filter results based on search query - with safety checks
-  const filteredProjects = (projects && Array.isArray(projects)) 
-    ? projects.filter((project: any) => 
-        project?.name?.toLowerCase()?.includes(searchQuery.toLowerCase())
-      ) 
-    : [];
-  
-  const filteredTasks = (tasks && Array.isArray(tasks)) 
-    ? tasks.filter((task: any) => 
-        task?.title?.toLowerCase()?.includes(searchQuery.toLowerCase())
-      ) 
-    : [];
-  
-  const filteredClients = (clients && Array.isArray(clients)) 
-    ? clients.filter((client: any) => 
-        client?.name?.toLowerCase()?.includes(searchQuery.toLowerCase())
-      ) 
-    : [];
+  // Resultados do servidor agrupados por tipo, na ordem de relevância de cada grupo
+  const results = canSearch ? data?.results ?? [] : [];
+  const groups = SEARCH_RESULT_TYPES
+    .map(type => ({ type, items: results.filter(result => result.type === type) }))
+    .filter(group => group.items.length > 0);
+
+  const normalizedQuery = searchQuery.trim().toLowerCase();
+  const filteredPages = pages.filter(page => page.label.toLowerCase().includes(normalizedQuery));
 
   return (
     <>
-      <div 
+      <div
         className="flex items-center h-9 rounded-md border border-input px-4 py-2 bg-background cursor-pointer"
         onClick={() => setOpen(true)}
       >
         <Search className="h-4 w-4 mr-2 text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Buscar projetos, clientes ou tarefas...</span>
+        <span className="text-sm text-muted-foreground">Buscar projetos, tarefas, clientes, comentários...</span>
         <div className="ml-auto hidden md:flex items-center text-xs text-muted-foreground">
           <kbd className="ml-auto inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground">
             <span className="text-xs">⌘</span>K
@@ -84,118 +113,66 @@ export default function SearchBar() {
         </div>
       </div>
 
-      <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput 
-          placeholder="Digite para buscar..." 
+      {/* A filtragem é feita pelo servidor; o cmdk só exibe os resultados */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Buscar em projetos, tarefas, clientes, contatos, comentários e arquivos..."
           value={searchQuery}
           onValueChange={setSearchQuery}
         />
         <CommandList>
-          <CommandEmpty>Nenhum resultado encontrado.</CommandEmpty>
-          
-          {filteredProjects.length > 0 && (
-            <CommandGroup heading="Projetos">
-              {filteredProjects.slice(0, 5).map((project: any) => (
-                <CommandItem 
-                  key={`project-${project.id}`}
-                  value={`/projects?id=${project.id}`}
-                  onSelect={handleSelect}
-                >
-                  <ProjectorIcon className="mr-2 h-4 w-4" />
-                  <span>{project.name}</span>
-                </CommandItem>
-              ))}
-              {filteredProjects.length > 5 && (
-                <CommandItem
-                  value="/projects"
-                  onSelect={handleSelect}
-                >
-                  <span className="text-muted-foreground text-sm">
-                    Ver todos os projetos...
-                  </span>
-                </CommandItem>
-              )}
-            </CommandGroup>
+          {isFetching && groups.length === 0 ? (
+            <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Buscando...
+            </div>
+          ) : (
+            <CommandEmpty>
+              {normalizedQuery.length < SEARCH_MIN_LENGTH
+                ? `Digite ao menos ${SEARCH_MIN_LENGTH} caracteres para buscar.`
+                : "Nenhum resultado encontrado."}
+            </CommandEmpty>
           )}
-          
-          <CommandSeparator />
-          
-          {filteredTasks.length > 0 && (
-            <CommandGroup heading="Tarefas">
-              {filteredTasks.slice(0, 5).map((task: any) => (
-                <CommandItem 
-                  key={`task-${task.id}`}
-                  value={`/tasks?search=${encodeURIComponent(task.title)}`}
-                  onSelect={handleSelect}
-                >
-                  <CheckCircle className="mr-2 h-4 w-4" />
-                  <span>{task.title}</span>
-                </CommandItem>
-              ))}
-              {filteredTasks.length > 5 && (
-                <CommandItem
-                  value="/tasks"
-                  onSelect={handleSelect}
-                >
-                  <span className="text-muted-foreground text-sm">
-                    Ver todas as tarefas...
-                  </span>
-                </CommandItem>
-              )}
-            </CommandGroup>
-          )}
-          
-          <CommandSeparator />
-          
-          {filteredClients.length > 0 && (
-            <CommandGroup heading="Clientes">
-              {filteredClients.slice(0, 5).map((client: any) => (
-                <CommandItem 
-                  key={`client-${client.id}`}
-                  value={`/clients?search=${encodeURIComponent(client.name)}`}
-                  onSelect={handleSelect}
-                >
-                  <Users className="mr-2 h-4 w-4" />
-                  <span>{client.name}</span>
+
+          {groups.map(({ type, items }) => {
+            const Icon = resultIcons[type];
+            return (
+              <CommandGroup key={type} heading={SEARCH_RESULT_LABELS[type]}>
+                {items.map(result => (
+                  <CommandItem
+                    key={`${type}-${result.id}`}
+                    value={`${type}-${result.id}`}
+                    onSelect={() => handleSelect(result.link)}
+                  >
+                    <Icon className="mr-2 h-4 w-4 shrink-0" />
+                    <div className="flex min-w-0 flex-col">
+                      <span className="truncate">{result.title}</span>
+                      {result.subtitle && (
+                        <span className="truncate text-xs text-muted-foreground">{result.subtitle}</span>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+
+          {groups.length > 0 && filteredPages.length > 0 && <CommandSeparator />}
+
+          {filteredPages.length > 0 && (
+            <CommandGroup heading="Páginas">
+              {filteredPages.map(page => (
+                <CommandItem key={page.path} value={page.path} onSelect={() => handleSelect(page.path)}>
+                  {page.icon ? (
+                    <page.icon className="mr-2 h-4 w-4" />
+                  ) : (
+                    <div className="mr-2 h-4 w-4 flex items-center justify-center">📊</div>
+                  )}
+                  <span>{page.label}</span>
                 </CommandItem>
               ))}
-              {filteredClients.length > 5 && (
-                <CommandItem
-                  value="/clients"
-                  onSelect={handleSelect}
-                >
-                  <span className="text-muted-foreground text-sm">
-                    Ver todos os clientes...
-                  </span>
-                </CommandItem>
-              )}
             </CommandGroup>
           )}
-          
-          <CommandSeparator />
-          
-          <CommandGroup heading="Páginas">
-            <CommandItem value="/dashboard" onSelect={handleSelect}>
-              <div className="mr-2 h-4 w-4 flex items-center justify-center">📊</div>
-              <span>Dashboard</span>
-            </CommandItem>
-            <CommandItem value="/projects" onSelect={handleSelect}>
-              <ProjectorIcon className="mr-2 h-4 w-4" />
-              <span>Projetos</span>
-            </CommandItem>
-            <CommandItem value="/tasks" onSelect={handleSelect}>
-              <CheckCircle className="mr-2 h-4 w-4" />
-              <span>Tarefas</span>
-            </CommandItem>
-            <CommandItem value="/clients" onSelect={handleSelect}>
-              <Users className="mr-2 h-4 w-4" />
-              <span>Clientes</span>
-            </CommandItem>
-            <CommandItem value="/calendar" onSelect={handleSelect}>
-              <Calendar className="mr-2 h-4 w-4" />
-              <span>Calendário</span>
-            </CommandItem>
-          </CommandGroup>
         </CommandList>
       </CommandDialog>
     </>
@@ -17,6 +17,7 @@ import type { UserLike } from "./UserAvatar";
 import { Separator } from "@/components/ui/separator";
 import { TASK_STATUS_OPTIONS } from "@/lib/constants";
 import { CommentSection } from "@/components/comments/CommentSection";
+import { PresenceAvatars } from "@/components/PresenceAvatars";
 import {
   Select,
   SelectContent,
@@ -458,6 +459,7 @@ export default function TaskDetailSidebarNew({ taskId, onClose, onEdit }: TaskDe
       {/* Header with close button */}
       <div className="sticky top-0 bg-white z-10 px-5 py-4 border-b border-gray-100 flex justify-between items-center">
         <h2 className="text-sm font-medium text-gray-500">Detalhes da Tarefa</h2>
+        <PresenceAvatars type="task" id={task.id} className="ml-auto mr-3" />
         <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6 -mr-1">
           <X className="h-4 w-4" />
         </Button>
@@ -812,7 +814,7 @@ export default function TaskDetailSidebarNew({ taskId, onClose, onEdit }: TaskDe
           {/* Using the CommentSection component */}
           <div className="mb-4">
             {taskId && (
-              <CommentSection taskId={taskId} className="pt-0" />
+              <CommentSection entityType="task" entityId={taskId} className="pt-0" />
             )}
           </div>
         </div>
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient, parseApiError } from "@/lib/queryClient";
+import { showSuccessToast } from "@/lib/utils";
+import {
+  TwoFactorCodeInput,
+  TwoFactorEnrollment,
+  RecoveryCodesList,
+  type TwoFactorEnrollmentData
+} from "@/components/TwoFactorSetup";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+  policyEnabled: boolean;
+}
+
+type DialogMode = "setup" | "regenerate" | "disable" | "codes";
+
+const STATUS_URL = "/api/auth/2fa/status";
+
+/**
+ * Configuração da autenticação em dois fatores do próprio usuário:
+ * ativação, novos códigos de recuperação e desativação
+ */
+export function TwoFactorSettings() {
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: [STATUS_URL],
+  });
+
+  const closeDialog = () => {
+    setMode(null);
+    setCode("");
+    setRecoveryCode("");
+    setUseRecovery(false);
+    setRecoveryCodes([]);
+    setupMutation.reset();
+    confirmMutation.reset();
+    regenerateMutation.reset();
+    disableMutation.reset();
+  };
+
+  const showRecoveryCodes = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setCode("");
+    setMode("codes");
+    queryClient.invalidateQueries({ queryKey: [STATUS_URL] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return await res.json() as TwoFactorEnrollmentData;
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup/confirm", { code });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      showRecoveryCodes(data.recoveryCodes);
+      showSuccessToast({
+        title: "Verificação em dois fatores ativada",
+        description: "Seu próximo login pedirá o código do app autenticador."
+      });
+    },
+    onError: () => setCode(""),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => showRecoveryCodes(data.recoveryCodes),
+    onError: () => setCode(""),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", useRecovery ? { recoveryCode } : { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [STATUS_URL] });
+      closeDialog();
+      showSuccessToast({
+        title: "Verificação em dois fatores desativada",
+        description: "Sua conta voltou a exigir apenas a senha."
+      });
+    },
+    onError: () => setCode(""),
+  });
+
+  const openSetup = () => {
+    setMode("setup");
+    setupMutation.mutate();
+  };
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex items-center py-4 text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Carregando...
+      </div>
+    );
+  }
+
+  const errorMessage = (error: Error | null) => (error ? parseApiError(error).message : null);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-start gap-3">
+          {status.enabled ? (
+            <ShieldCheck className="mt-0.5 h-5 w-5 shrink-0 text-green-600" />
+          ) : (
+            <ShieldOff className="mt-0.5 h-5 w-5 shrink-0 text-gray-400" />
+          )}
+          <div>
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm font-medium">{status.enabled ? "Ativada" : "Desativada"}</p>
+              {status.required && <Badge variant="secondary">Obrigatória para o seu perfil</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {status.enabled
+                ? `${status.enabledAt ? `Ativada em ${format(new Date(status.enabledAt), "dd/MM/yyyy")} · ` : ""}${status.recoveryCodesRemaining} ${status.recoveryCodesRemaining === 1 ? "código de recuperação disponível" : "códigos de recuperação disponíveis"}`
+                : "Proteja sua conta exigindo um código do app autenticador além da senha."}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex shrink-0 gap-2">
+          {status.enabled ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setMode("regenerate")}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Novos códigos
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => setMode("disable")}
+                >
+                  Desativar
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button size="sm" onClick={openSetup}>
+              Ativar
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {status.enabled && status.recoveryCodesRemaining <= 2 && (
+        <p className="text-xs text-amber-600">
+          Restam poucos códigos de recuperação. Gere um novo conjunto para não perder o acesso à conta.
+        </p>
+      )}
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          {mode === "setup" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Ativar verificação em dois fatores</DialogTitle>
+                <DialogDescription>Cadastre sua conta em um app autenticador.</DialogDescription>
+              </DialogHeader>
+              {setupMutation.isSuccess ? (
+                <TwoFactorEnrollment
+                  enrollment={setupMutation.data}
+                  code={code}
+                  onCodeChange={setCode}
+                  onConfirm={() => confirmMutation.mutate()}
+                  isConfirming={confirmMutation.isPending}
+                  error={errorMessage(confirmMutation.error)}
+                />
+              ) : setupMutation.isError ? (
+                <p className="text-sm text-destructive">{errorMessage(setupMutation.error)}</p>
+              ) : (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+                </div>
+              )}
+            </>
+          )}
+
+          {mode === "regenerate" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Gerar novos códigos de recuperação</DialogTitle>
+                <DialogDescription>
+                  Os códigos atuais deixarão de funcionar. Informe o código do app autenticador para continuar.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex flex-col items-center gap-3">
+                <TwoFactorCodeInput value={code} onChange={setCode} disabled={regenerateMutation.isPending} />
+                {regenerateMutation.isError && (
+                  <p className="text-sm text-destructive">{errorMessage(regenerateMutation.error)}</p>
+                )}
+                <Button
+                  className="w-full"
+                  disabled={code.length !== 6 || regenerateMutation.isPending}
+                  onClick={() => regenerateMutation.mutate()}
+                >
+                  {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Gerar novos códigos
+                </Button>
+              </div>
+            </>
+          )}
+
+          {mode === "disable" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Desativar verificação em dois fatores</DialogTitle>
+                <DialogDescription>
+                  {useRecovery
+                    ? "Informe um dos seus códigos de recuperação para confirmar."
+                    : "Informe o código do app autenticador para confirmar."}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex flex-col items-center gap-3">
+                {useRecovery ? (
+                  <Input
+                    placeholder="XXXXX-XXXXX"
+                    className="text-center font-mono tracking-wider"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                  />
+                ) : (
+                  <TwoFactorCodeInput value={code} onChange={setCode} disabled={disableMutation.isPending} />
+                )}
+                {disableMutation.isError && (
+                  <p className="text-sm text-destructive">{errorMessage(disableMutation.error)}</p>
+                )}
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  disabled={disableMutation.isPending || (useRecovery ? !recoveryCode.trim() : code.length !== 6)}
+                  onClick={() => disableMutation.mutate()}
+                >
+                  {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Desativar
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => {
+                    setUseRecovery(!useRecovery);
+                    disableMutation.reset();
+                  }}
+                >
+                  {useRecovery ? "Usar o app autenticador" : "Perdi o acesso ao app autenticador"}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {mode === "codes" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Códigos de recuperação</DialogTitle>
+              </DialogHeader>
+              <RecoveryCodesList codes={recoveryCodes} />
+              <Button className="w-full" onClick={closeDialog}>
+                Guardei meus códigos
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Copy, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { showSuccessToast } from "@/lib/utils";
+
+export interface TwoFactorEnrollmentData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+/**
+ * Campo de 6 dígitos para o código do app autenticador
+ */
+export function TwoFactorCodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} pattern="^[0-9]*$" autoFocus>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+interface TwoFactorEnrollmentProps {
+  enrollment: TwoFactorEnrollmentData;
+  code: string;
+  onCodeChange: (value: string) => void;
+  onConfirm: () => void;
+  isConfirming: boolean;
+  error?: string | null;
+}
+
+/**
+ * Passo de ativação do 2FA: QR code, segredo para cadastro manual e confirmação do primeiro código
+ */
+export function TwoFactorEnrollment({ enrollment, code, onCodeChange, onConfirm, isConfirming, error }: TwoFactorEnrollmentProps) {
+  return (
+    <div className="space-y-5">
+      <ol className="list-decimal space-y-1 pl-5 text-sm text-gray-600">
+        <li>Abra um app autenticador (Google Authenticator, Microsoft Authenticator, 1Password...).</li>
+        <li>Escaneie o QR code abaixo ou digite a chave manualmente.</li>
+        <li>Informe o código de 6 dígitos exibido no app.</li>
+      </ol>
+
+      <div className="flex flex-col items-center gap-3">
+        <img src={enrollment.qrCode} alt="QR code para o app autenticador" className="h-44 w-44 rounded-md border bg-white p-2" />
+        <div className="text-center">
+          <p className="text-xs text-muted-foreground">Chave para cadastro manual</p>
+          <code className="select-all break-all rounded bg-muted px-2 py-1 text-sm font-mono tracking-wider">
+            {enrollment.secret}
+          </code>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center gap-3">
+        <TwoFactorCodeInput value={code} onChange={onCodeChange} disabled={isConfirming} />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button
+          className="w-full"
+          disabled={code.length !== 6 || isConfirming}
+          onClick={onConfirm}
+        >
+          {isConfirming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Ativar autenticação em dois fatores
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Códigos de recuperação recém-gerados (exibidos uma única vez)
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const content = codes.join("\n");
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(content);
+    showSuccessToast({ title: "Códigos copiados", description: "Guarde-os em um local seguro." });
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Códigos de recuperação - Content Crush\n\n${content}\n`], { type: "text/plain;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "content-crush-codigos-de-recuperacao.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Guarde estes códigos em um local seguro. Cada código pode ser usado uma única vez para entrar
+        caso você perca acesso ao app autenticador. Eles não serão exibidos novamente.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center tracking-wider">{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copiar
+        </Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Baixar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useCallback, useRef, useState } from "react";
+import { FileText, Loader2, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import FilePreview from "@/components/FilePreview";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatFileSize } from "@/lib/utils";
+import { COMMENT_ATTACHMENT_LIMIT, type CommentAttachment, type EntityComment } from "@shared/schema";
+
+// Entidades com anexos próprios; documentos financeiros não aceitam arquivos nos comentários
+export type CommentAttachmentTarget = { type: 'task' | 'project' | 'client'; id: number };
+
+export function getCommentAttachmentTarget(comment: Pick<EntityComment, 'entity_type' | 'entity_id'>): CommentAttachmentTarget | null {
+  return comment.entity_type === 'financial_document'
+    ? null
+    : { type: comment.entity_type, id: comment.entity_id };
+}
+
+/**
+ * Arquivos enviados para o comentário que ainda está sendo escrito. O upload usa
+ * as mesmas rotas dos anexos da tarefa/projeto/cliente; ao publicar, os IDs seguem
+ * em attachment_ids e o servidor vincula os arquivos ao comentário.
+ */
+export function useCommentAttachments(target: CommentAttachmentTarget | null) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<CommentAttachment[]>([]);
+  const [uploading, setUploading] = useState(0);
+  const baseUrl = target ? `/api/attachments/${target.type}s/${target.id}` : null;
+
+  const upload = useCallback(async (files: File[]) => {
+    if (!baseUrl) return;
+    const accepted = files.slice(0, Math.max(COMMENT_ATTACHMENT_LIMIT - pending.length, 0));
+    if (accepted.length < files.length) {
+      toast({
+        title: "Limite de anexos",
+        description: `Cada comentário aceita até ${COMMENT_ATTACHMENT_LIMIT} arquivos.`,
+        variant: "destructive"
+      });
+    }
+
+    await Promise.all(accepted.map(async file => {
+      setUploading(count => count + 1);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await fetch(baseUrl, { method: 'POST', body: formData, credentials: 'include' });
+        if (!response.ok) {
+          const error = await response.json().catch(() => null);
+          throw new Error(error?.message || 'Erro ao enviar o arquivo');
+        }
+        const attachment: CommentAttachment = await response.json();
+        setPending(current => [...current, attachment]);
+      } catch (error) {
+        toast({
+          title: `Erro ao anexar ${file.name}`,
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive"
+        });
+      } finally {
+        setUploading(count => count - 1);
+      }
+    }));
+
+    queryClient.invalidateQueries({ queryKey: [baseUrl] });
+  }, [baseUrl, pending.length, toast]);
+
+  // Remover um arquivo antes de publicar o comentário
+  const remove = useCallback(async (attachmentId: number) => {
+    setPending(current => current.filter(attachment => attachment.id !== attachmentId));
+    if (!baseUrl) return;
+    try {
+      await apiRequest('DELETE', `${baseUrl}/${attachmentId}`);
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+    } catch (error) {
+      console.error('Erro ao remover anexo do comentário:', error);
+    }
+  }, [baseUrl]);
+
+  // Colar prints (imagens da área de transferência) direto no campo do comentário
+  const handlePaste = useCallback((event: React.ClipboardEvent) => {
+    const files = Array.from(event.clipboardData.files);
+    if (!baseUrl || files.length === 0) return;
+    event.preventDefault();
+    upload(files);
+  }, [baseUrl, upload]);
+
+  const clear = useCallback(() => setPending([]), []);
+
+  return {
+    pending,
+    ids: pending.map(attachment => attachment.id),
+    enabled: !!baseUrl,
+    isUploading: uploading > 0,
+    upload,
+    remove,
+    clear,
+    handlePaste
+  };
+}
+
+export type CommentAttachmentsState = ReturnType<typeof useCommentAttachments>;
+
+interface CommentAttachmentPickerProps {
+  attachments: CommentAttachmentsState;
+}
+
+/**
+ * Botão de anexar e lista dos arquivos enviados para o comentário em edição
+ */
+export function CommentAttachmentPicker({ attachments }: CommentAttachmentPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (!attachments.enabled) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={event => {
+          attachments.upload(Array.from(event.target.files ?? []));
+          event.target.value = '';
+        }}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2 text-muted-foreground"
+        onClick={() => inputRef.current?.click()}
+        disabled={attachments.pending.length >= COMMENT_ATTACHMENT_LIMIT}
+        title="Anexar arquivos (ou cole um print no campo)"
+      >
+        {attachments.isUploading
+          ? <Loader2 className="h-4 w-4 animate-spin" />
+          : <Paperclip className="h-4 w-4" />}
+      </Button>
+      {attachments.pending.map(attachment => (
+        <span key={attachment.id} className="flex max-w-[200px] items-center gap-1 rounded-md border bg-muted/50 px-2 py-1 text-xs">
+          <FileText className="h-3 w-3 shrink-0" />
+          <span className="truncate">{attachment.file_name}</span>
+          <button
+            type="button"
+            className="shrink-0 text-muted-foreground hover:text-foreground"
+            onClick={() => attachments.remove(attachment.id)}
+            aria-label={`Remover ${attachment.file_name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface CommentAttachmentListProps {
+  target: CommentAttachmentTarget;
+  attachments: CommentAttachment[];
+}
+
+/**
+ * Anexos de um comentário publicado: miniaturas para imagens e atalhos para os
+ * demais arquivos, abrindo o FilePreview
+ */
+export function CommentAttachmentList({ target, attachments }: CommentAttachmentListProps) {
+  const [selected, setSelected] = useState<CommentAttachment | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const downloadUrl = (attachment: CommentAttachment) =>
+    `/api/attachments/${target.type}s/${target.id}/download/${attachment.id}`;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map(attachment => attachment.file_type?.startsWith('image/') ? (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => setSelected(attachment)}
+            className="overflow-hidden rounded-md border hover:opacity-90"
+            title={attachment.file_name}
+          >
+            <img src={downloadUrl(attachment)} alt={attachment.file_name} className="h-24 max-w-[160px] object-cover" loading="lazy" />
+          </button>
+        ) : (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => setSelected(attachment)}
+            className="flex max-w-[220px] items-center gap-2 rounded-md border px-2 py-1.5 text-left text-xs hover:bg-muted/60"
+          >
+            <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="min-w-0">
+              <span className="block truncate font-medium">{attachment.file_name}</span>
+              {attachment.file_size != null && (
+                <span className="text-muted-foreground">{formatFileSize(attachment.file_size)}</span>
+              )}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <FilePreview
+        open={selected !== null}
+        onClose={() => setSelected(null)}
+        file={selected && {
+          id: selected.id,
+          type: target.type,
+          entity_id: target.id,
+          file_name: selected.file_name,
+          file_size: selected.file_size ?? 0,
+          file_type: selected.file_type ?? 'application/octet-stream',
+          file_url: selected.file_url,
+          uploaded_by: selected.uploaded_by,
+          uploaded_at: selected.upload_date ? String(selected.upload_date) : new Date().toISOString()
+        }}
+      />
+    </>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState } from "react";
-import { TaskComment, User } from "@shared/schema";
+import { EntityComment } from "@shared/schema";
 import { UserAvatar } from "./UserAvatar";
 import { RelativeTime } from "./RelativeTime";
+import { CommentMarkdown } from "./CommentMarkdown";
+import { CommentAttachmentList, CommentAttachmentPicker, getCommentAttachmentTarget, useCommentAttachments } from "./CommentAttachments";
+import { MentionTextarea, useMentionInput, type TeamMember } from "./MentionTextarea";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { 
@@ -14,7 +17,6 @@ import {
   MoreVertical,
   MessageSquare
 } from "lucide-react";
-import { Textarea } from "@/components/ui/textarea";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -23,19 +25,20 @@ import {
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
-import { useSocket } from "@/contexts/SocketContext";
 import { useAuth } from "@/hooks/use-auth";
 
 interface CommentItemProps {
-  comment: TaskComment;
-  users: Record<number, User>;
-  onReply: (comment: TaskComment) => void;
+  comment: EntityComment;
+  users: Record<number, TeamMember>;
+  onReply: (comment: EntityComment, attachmentIds: number[]) => void;
   onDelete: (commentId: number) => void;
   onEdit: (commentId: number, newText: string) => void;
   isReply?: boolean;
-  reactions?: any[]; // Mantido por compatibilidade, mas as reações agora vêm do próprio comentário
-  onReaction: (commentId: number) => void;
-  replies?: TaskComment[];
+  // Curtir ou desfazer a curtida
+  onReaction: (comment: EntityComment) => void;
+  // Pode excluir comentários de outras pessoas (administrador, gerente ou produtor do projeto)
+  canModerate?: boolean;
+  replies?: EntityComment[];
 }
 
 export function CommentItem({ 
@@ -45,16 +48,17 @@ export function CommentItem({
   onDelete, 
   onEdit,
   isReply = false,
-  reactions,
   onReaction,
+  canModerate = false,
   replies = []
 }: CommentItemProps) {
   const { user: currentUser } = useAuth();
-  const { socket } = useSocket();
   const [isEditing, setIsEditing] = useState(false);
-  const [editedText, setEditedText] = useState(comment.comment);
+  const editInput = useMentionInput(comment.comment);
   const [isReplying, setIsReplying] = useState(false);
-  const [replyText, setReplyText] = useState("");
+  const replyInput = useMentionInput();
+  const attachmentTarget = getCommentAttachmentTarget(comment);
+  const replyAttachments = useCommentAttachments(attachmentTarget);
   const [showReplies, setShowReplies] = useState(false);
 
   // Obter o autor do comentário
@@ -82,42 +86,35 @@ export function CommentItem({
   
   // Função para salvar a edição
   const handleSaveEdit = () => {
-    onEdit(comment.id, editedText);
+    onEdit(comment.id, editInput.toMarkup());
     setIsEditing(false);
   };
   
   // Função para enviar resposta
   const handleSubmitReply = () => {
-    if (!replyText.trim() || !currentUser?.id) return;
+    if ((!replyInput.text.trim() && replyAttachments.ids.length === 0) || !currentUser?.id) return;
     
     // Criar um objeto representando a resposta
     const replyComment = {
-      ...comment, // Preservamos propriedades como task_id ou project_id
+      ...comment, // Preservamos a entidade do comentário
       id: comment.id, // ID do comentário pai
       user_id: currentUser.id,
-      comment: replyText,
+      comment: replyInput.toMarkup(),
       parent_id: comment.id
     };
     
     // Chamar a função de callback fornecida pelo componente pai
-    onReply(replyComment);
+    onReply(replyComment, replyAttachments.ids);
     
     // Resetar state
-    setReplyText("");
+    replyInput.reset();
+    replyAttachments.clear();
     setIsReplying(false);
     
     // Mostrar as respostas após responder
     setShowReplies(true);
   };
 
-  // Formatar o conteúdo do comentário com suporte a quebras de linha
-  const formattedComment = comment.comment.split("\n").map((line, i) => (
-    <span key={i}>
-      {line}
-      {i < comment.comment.split("\n").length - 1 && <br />}
-    </span>
-  ));
-  
   return (
     <div className={cn(
       "flex gap-3 py-3", 
@@ -139,7 +136,7 @@ export function CommentItem({
             <RelativeTime date={comment.creation_date} className="text-xs" />
           </div>
           
-          {isAuthor && !isEditing && (
+          {(isAuthor || canModerate) && !isEditing && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -147,11 +144,18 @@ export function CommentItem({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => setIsEditing(true)}>
-                  <Edit className="mr-2 h-4 w-4" />
-                  <span>Editar</span>
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
+                {isAuthor && (
+                  <>
+                    <DropdownMenuItem onClick={() => {
+                      editInput.reset(comment.comment);
+                      setIsEditing(true);
+                    }}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      <span>Editar</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
                 <DropdownMenuItem 
                   onClick={() => onDelete(comment.id)}
                   className="text-red-600 focus:text-red-600"
@@ -166,9 +170,8 @@ export function CommentItem({
         
         {isEditing ? (
           <div className="space-y-2">
-            <Textarea
-              value={editedText}
-              onChange={(e) => setEditedText(e.target.value)}
+            <MentionTextarea
+              input={editInput}
               className="min-h-[100px] w-full"
             />
             <div className="flex justify-end space-x-2">
@@ -177,7 +180,7 @@ export function CommentItem({
                 variant="outline" 
                 onClick={() => {
                   setIsEditing(false);
-                  setEditedText(comment.comment);
+                  editInput.reset(comment.comment);
                 }}
               >
                 <X className="mr-1 h-4 w-4" />
@@ -193,7 +196,12 @@ export function CommentItem({
             </div>
           </div>
         ) : (
-          <div className="text-sm">{formattedComment}</div>
+          <div className="space-y-2">
+            {comment.comment && <CommentMarkdown text={comment.comment} className="text-sm" />}
+            {attachmentTarget && (
+              <CommentAttachmentList target={attachmentTarget} attachments={comment.attachments ?? []} />
+            )}
+          </div>
         )}
         
         {!isEditing && (
@@ -205,7 +213,7 @@ export function CommentItem({
                     variant={hasReacted ? "secondary" : "ghost"} 
                     size="sm" 
                     className="h-7 px-2 text-xs"
-                    onClick={() => onReaction(comment.id)}
+                    onClick={() => onReaction(comment)}
                   >
                     <Heart className={cn(
                       "mr-1 h-3 w-3", 
@@ -219,6 +227,7 @@ export function CommentItem({
                     ? <p>{reactionUsers}</p>
                     : <p>Curtir</p>
                   }
+                  {hasReacted && <p className="text-xs text-muted-foreground">Clique para desfazer</p>}
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -260,30 +269,34 @@ export function CommentItem({
         
         {isReplying && (
           <div className="mt-3 space-y-2">
-            <Textarea
-              placeholder="Escreva sua resposta..."
-              value={replyText}
-              onChange={(e) => setReplyText(e.target.value)}
+            <MentionTextarea
+              placeholder="Escreva sua resposta... (use @ para mencionar)"
+              input={replyInput}
+              onPaste={replyAttachments.handlePaste}
               className="min-h-[80px] w-full text-sm"
             />
-            <div className="flex justify-end space-x-2">
-              <Button 
-                size="sm" 
-                variant="outline" 
-                onClick={() => {
-                  setIsReplying(false);
-                  setReplyText("");
-                }}
-              >
-                Cancelar
-              </Button>
-              <Button 
-                size="sm" 
-                onClick={handleSubmitReply}
-                disabled={!replyText.trim()}
-              >
-                Responder
-              </Button>
+            <div className="flex items-start justify-between gap-2">
+              <CommentAttachmentPicker attachments={replyAttachments} />
+              <div className="flex shrink-0 space-x-2">
+                <Button 
+                  size="sm" 
+                  variant="outline" 
+                  onClick={() => {
+                    setIsReplying(false);
+                    replyInput.reset();
+                    replyAttachments.ids.forEach(id => replyAttachments.remove(id));
+                  }}
+                >
+                  Cancelar
+                </Button>
+                <Button 
+                  size="sm" 
+                  onClick={handleSubmitReply}
+                  disabled={(!replyInput.text.trim() && replyAttachments.ids.length === 0) || replyAttachments.isUploading}
+                >
+                  Responder
+                </Button>
+              </div>
             </div>
           </div>
         )}
@@ -299,8 +312,8 @@ export function CommentItem({
                 onDelete={onDelete}
                 onEdit={onEdit}
                 isReply={true}
-                reactions={[]} // Não é mais necessário passar reactions separadamente
                 onReaction={onReaction}
+                canModerate={canModerate}
               />
             ))}
           </div>
@@ -0,0 +1,78 @@
+import { Fragment, useMemo } from "react";
+import { Link } from "wouter";
+import { parseCommentMarkdown, type MarkdownInline } from "@shared/markdown";
+import { useTeamDirectory } from "./MentionTextarea";
+import { cn } from "@/lib/utils";
+
+interface CommentMarkdownProps {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: MarkdownInline[], namesById: Map<number, string>): React.ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, namesById)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, namesById)}</em>;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-2">
+            {renderInline(node.children, namesById)}
+          </a>
+        );
+      case 'mention':
+        // O nome exibido é o atual do usuário; o gravado no comentário fica como fallback
+        return (
+          <Link
+            key={index}
+            href={`/team/${node.userId}`}
+            className="rounded bg-primary/10 px-1 font-medium text-primary hover:underline"
+          >
+            @{namesById.get(node.userId) ?? node.name}
+          </Link>
+        );
+    }
+  });
+}
+
+/**
+ * Texto de um comentário com o subconjunto de markdown e as menções como links
+ */
+export function CommentMarkdown({ text, className }: CommentMarkdownProps) {
+  const { data: members = [] } = useTeamDirectory();
+  const namesById = useMemo(() => new Map(members.map(member => [member.id, member.name])), [members]);
+  const blocks = useMemo(() => parseCommentMarkdown(text), [text]);
+
+  return (
+    <div className={cn("space-y-2 break-words", className)}>
+      {blocks.map((block, index) => {
+        if (block.type === 'code_block') {
+          return (
+            <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+              <code>{block.text}</code>
+            </pre>
+          );
+        }
+
+        if (block.type === 'list') {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={index} className={cn("space-y-0.5 pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item, namesById)}</li>
+              ))}
+            </ListTag>
+          );
+        }
+
+        return <p key={index} className="whitespace-pre-wrap">{renderInline(block.children, namesById)}</p>;
+      })}
+    </div>
+  );
+}
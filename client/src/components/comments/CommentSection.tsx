@@ -1,72 +1,81 @@
-import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { TaskComment, User, InsertTaskComment, InsertCommentReaction } from "@shared/schema";
+import { commentsApiPath, type CommentEntityType, type CreateComment, type EntityComment } from "@shared/schema";
+import { PRESENCE_ROOM_TYPES } from "@shared/realtime";
 import { CommentItem } from "./CommentItem";
-import { Textarea } from "@/components/ui/textarea";
+import { TypingIndicator } from "./TypingIndicator";
+import { MentionTextarea, useMentionInput, useTeamDirectory, type TeamMember } from "./MentionTextarea";
+import { CommentAttachmentPicker, getCommentAttachmentTarget, useCommentAttachments } from "./CommentAttachments";
 import { Button } from "@/components/ui/button";
 import { Send } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
-import { useSocket } from "@/contexts/SocketContext";
+import { useRealtimeEvent, useRealtimeRoom, useTypingIndicator } from "@/contexts/SocketContext";
 import { cn, showSuccessToast } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 
 interface CommentSectionProps {
-  taskId: number;
+  entityType: CommentEntityType;
+  entityId: number;
+  title?: string;
+  placeholder?: string;
   className?: string;
 }
 
-export function CommentSection({ taskId, className = "" }: CommentSectionProps) {
+/**
+ * Comentários de uma tarefa, projeto, cliente ou documento financeiro, com
+ * respostas, menções, anexos e reações
+ */
+export function CommentSection({
+  entityType,
+  entityId,
+  title = "Comentários",
+  placeholder = "Escreva um comentário (use @ para mencionar)",
+  className = ""
+}: CommentSectionProps) {
   const { user: currentUser } = useAuth();
-  const { socket } = useSocket();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [commentText, setCommentText] = useState("");
-  
-  // Buscar os comentários da tarefa
-  const { 
-    data: comments = [], 
+  const commentInput = useMentionInput();
+  const commentAttachments = useCommentAttachments(getCommentAttachmentTarget({ entity_type: entityType, entity_id: entityId }));
+  const commentsUrl = commentsApiPath(entityType, entityId);
+
+  // Buscar os comentários da entidade
+  const {
+    data: comments = [],
     isLoading: isLoadingComments,
     error: commentsError
-  } = useQuery<TaskComment[]>({ 
-    queryKey: [`/api/tasks/${taskId}/comments`],
+  } = useQuery<EntityComment[]>({
+    queryKey: [commentsUrl],
     staleTime: 1000 * 60 * 5 // 5 minutos
   });
-  
-  // Buscar todos os usuários para exibir as informações nos comentários
-  const { 
-    data: allUsers = [], 
-    isLoading: isLoadingUsers 
-  } = useQuery<User[]>({ 
-    queryKey: ['/api/users'],
-    staleTime: 1000 * 60 * 15 // 15 minutos
-  });
-  
-  // As reações já vêm junto com os comentários na resposta da API,
-  // não há necessidade de uma consulta separada
-  const isLoadingReactions = false;
-  
+
+  // Diretório da equipe para exibir os autores dos comentários
+  const { data: members = [], isLoading: isLoadingUsers } = useTeamDirectory();
+
   // Criar um objeto de usuários indexado por ID para acesso rápido
-  const usersMap = allUsers.reduce((acc, user) => {
-    acc[user.id] = user;
+  const usersMap = members.reduce((acc, member) => {
+    acc[member.id] = member;
     return acc;
-  }, {} as Record<number, User>);
-  
-  // Mutation para adicionar novo comentário
+  }, {} as Record<number, TeamMember>);
+
+  // Administradores e gerentes podem excluir comentários de outras pessoas
+  const canModerate = !!currentUser && ['admin', 'manager'].includes(currentUser.role);
+
+  const refreshComments = () => {
+    queryClient.invalidateQueries({ queryKey: [commentsUrl] });
+  };
+
+  // Mutation para adicionar novo comentário ou resposta
   const addCommentMutation = useMutation({
-    mutationFn: async (commentData: InsertTaskComment) => {
-      const res = await apiRequest('POST', `/api/tasks/${taskId}/comments`, commentData);
+    mutationFn: async (commentData: CreateComment) => {
+      const res = await apiRequest('POST', commentsUrl, commentData);
       return await res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ 
-        queryKey: [`/api/tasks/${taskId}/comments`] 
-      });
-      setCommentText("");
-      showSuccessToast({
-        title: "Comentário adicionado",
-        description: "Seu comentário foi adicionado com sucesso."
-      });
+    onSuccess: (_data, variables) => {
+      refreshComments();
+      showSuccessToast(variables.parent_id
+        ? { title: "Resposta adicionada", description: "Sua resposta foi adicionada com sucesso." }
+        : { title: "Comentário adicionado", description: "Seu comentário foi adicionado com sucesso." });
     },
     onError: (error: Error) => {
       toast({
@@ -76,15 +85,15 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       });
     }
   });
-  
+
   // Mutation para editar um comentário
   const editCommentMutation = useMutation({
     mutationFn: async ({ commentId, text }: { commentId: number; text: string }) => {
-      const res = await apiRequest('PATCH', `/api/comments/${commentId}`, { comment: text });
+      const res = await apiRequest('PATCH', `${commentsUrl}/${commentId}`, { comment: text });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/comments`] });
+      refreshComments();
       showSuccessToast({
         title: "Comentário atualizado",
         description: "Seu comentário foi atualizado com sucesso."
@@ -98,16 +107,15 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       });
     }
   });
-  
+
   // Mutation para excluir um comentário
   const deleteCommentMutation = useMutation({
     mutationFn: async (commentId: number) => {
-      const res = await apiRequest('DELETE', `/api/comments/${commentId}`);
-      if (!res.ok) throw new Error("Erro ao excluir comentário");
+      await apiRequest('DELETE', `${commentsUrl}/${commentId}`);
       return true;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/comments`] });
+      refreshComments();
       showSuccessToast({
         title: "Comentário excluído",
         description: "O comentário foi excluído com sucesso."
@@ -121,25 +129,18 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       });
     }
   });
-  
-  // Mutation para reagir a um comentário
-  const reactToCommentMutation = useMutation({
-    mutationFn: async (commentId: number) => {
-      const reactionData: InsertCommentReaction = {
-        comment_id: commentId,
-        user_id: currentUser?.id as number,
-        reaction_type: "like"
-      };
-      const res = await apiRequest('POST', `/api/comments/${commentId}/reactions`, reactionData);
-      return await res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/comments`] });
-      showSuccessToast({
-        title: "Reação adicionada",
-        description: "Sua reação foi adicionada ao comentário"
-      });
+
+  // Mutation para curtir um comentário ou desfazer a curtida
+  const reactionMutation = useMutation({
+    mutationFn: async (comment: EntityComment) => {
+      const ownReaction = comment.reactions?.find(reaction => reaction.user_id === currentUser?.id);
+      if (ownReaction) {
+        await apiRequest('DELETE', `${commentsUrl}/${comment.id}/reactions/${ownReaction.id}`);
+      } else {
+        await apiRequest('POST', `${commentsUrl}/${comment.id}/reactions`, { reaction_type: "like" });
+      }
     },
+    onSuccess: refreshComments,
     onError: (error: Error) => {
       toast({
         title: "Erro ao reagir ao comentário",
@@ -148,91 +149,50 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       });
     }
   });
-  
+
+  // Acompanhar a entidade em tempo real: comentários e reações de outros usuários.
+  // Documentos financeiros não têm sala; o evento chega a todos os usuários.
+  const roomType = entityType === 'financial_document' ? null : entityType;
+  useRealtimeRoom(roomType, entityId);
+
+  // Quem mais está escrevendo um comentário agora (tarefas e projetos)
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    roomType && PRESENCE_ROOM_TYPES.includes(roomType) ? roomType : null,
+    entityId
+  );
+
+  useRealtimeEvent('comment_changed', (event) => {
+    if (event.entity_type === entityType && event.entity_id === entityId) refreshComments();
+  });
+
   // Submeter um novo comentário
   const handleSubmitComment = () => {
-    if (!commentText.trim() || !currentUser?.id) return;
-    
-    const commentData: InsertTaskComment = {
-      task_id: taskId,
-      user_id: currentUser.id,
-      comment: commentText.trim()
-    };
-    
-    // Se temos WebSocket, enviar por ele, senão pela API REST
-    if (socket) {
-      socket.send(JSON.stringify({
-        type: "comment",
-        data: commentData
-      }));
-      setCommentText("");
-    } else {
-      addCommentMutation.mutate(commentData);
-    }
-  };
-  
-  // Lidar com a resposta a um comentário
-  const handleReply = (comment: TaskComment) => {
-    // Esta função é chamada pelo CommentItem quando o usuário submeter a resposta
-    // O CommentItem já terá coletado o texto da resposta que está em comment.comment
-    if (!comment.comment.trim() || !currentUser?.id) return;
-    
-    handleSendReply(comment.id, comment.comment);
-  };
-  
-  // Enviar uma resposta a um comentário
-  const handleSendReply = (parentId: number, replyText: string) => {
-    if (!replyText.trim() || !currentUser?.id) return;
-    
-    const replyData: InsertTaskComment = {
-      task_id: taskId,
-      user_id: currentUser.id,
-      comment: replyText.trim(),
-      parent_id: parentId
-    };
-    
-    // Se temos WebSocket, enviar por ele, senão pela API REST
-    if (socket) {
-      socket.send(JSON.stringify({
-        type: "comment",
-        data: replyData
-      }));
-    } else {
-      addCommentMutation.mutate(replyData);
-    }
+    if ((!commentInput.text.trim() && commentAttachments.ids.length === 0) || !currentUser?.id) return;
+
+    stopTyping();
+
+    addCommentMutation.mutate({
+      comment: commentInput.toMarkup(),
+      attachment_ids: commentAttachments.ids
+    }, {
+      onSuccess: () => {
+        commentInput.reset();
+        commentAttachments.clear();
+      }
+    });
   };
-  
-  // Reagir a um comentário
-  const handleReaction = (commentId: number) => {
-    reactToCommentMutation.mutate(commentId);
+
+  // Resposta enviada pelo CommentItem: o texto vem em comment.comment
+  const handleReply = (reply: EntityComment, attachmentIds: number[]) => {
+    if ((!reply.comment.trim() && attachmentIds.length === 0) || !currentUser?.id) return;
+
+    addCommentMutation.mutate({
+      comment: reply.comment.trim(),
+      parent_id: reply.id,
+      attachment_ids: attachmentIds
+    });
   };
-  
-  // Ouvir eventos do WebSocket
-  useEffect(() => {
-    if (!socket) return;
-    
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.type === "comment" && data.task_id === taskId) {
-          queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/comments`] });
-        } else if (data.type === "comment_reaction") {
-          // As reações agora vêm junto com os comentários
-          queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/comments`] });
-        }
-      } catch (error) {
-        console.error("Erro ao processar mensagem do WebSocket:", error);
-      }
-    };
-    
-    socket.addEventListener("message", handleMessage);
-    
-    return () => {
-      socket.removeEventListener("message", handleMessage);
-    };
-  }, [socket, taskId, queryClient]);
-  
+
   // Organizar comentários em threads (comentários principais e respostas)
   const commentThreads = comments.reduce((acc, comment) => {
     if (!comment.parent_id) {
@@ -256,8 +216,8 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       }
     }
     return acc;
-  }, {} as Record<number, { comment?: TaskComment; replies: TaskComment[] }>);
-  
+  }, {} as Record<number, { comment?: EntityComment; replies: EntityComment[] }>);
+
   // Converter para array ordenado por data (mais recente primeiro para mais antigo)
   const sortedThreads = Object.values(commentThreads)
     .filter(thread => thread.comment) // Apenas threads com comentário principal
@@ -266,9 +226,9 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       const dateB = b.comment?.creation_date ? new Date(b.comment.creation_date).getTime() : 0;
       return dateB - dateA; // Ordem decrescente
     });
-  
-  const isLoading = isLoadingComments || isLoadingUsers || isLoadingReactions;
-  
+
+  const isLoading = isLoadingComments || isLoadingUsers;
+
   if (commentsError) {
     return (
       <div className={cn("mt-4 rounded-md p-4 border border-destructive/50 bg-destructive/10", className)}>
@@ -276,46 +236,53 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
       </div>
     );
   }
-  
+
   return (
     <div className={cn("mt-4", className)}>
       <h3 className="text-lg font-medium mb-4">
-        Comentários ({comments.filter(c => !c.parent_id).length})
+        {title} ({comments.filter(c => !c.parent_id).length})
       </h3>
-      
+
       {/* Formulário para adicionar novo comentário */}
       <div className="mb-6 space-y-2">
-        <Textarea
-          placeholder="Escreva um comentário..."
-          value={commentText}
-          onChange={(e) => setCommentText(e.target.value)}
+        <MentionTextarea
+          placeholder={placeholder}
+          input={commentInput}
+          onTextChange={(text) => {
+            if (text.trim()) notifyTyping();
+          }}
+          onBlur={stopTyping}
+          onPaste={commentAttachments.handlePaste}
           className="min-h-[100px] w-full"
         />
-        <div className="flex justify-end">
-          <Button 
-            onClick={handleSubmitComment} 
-            disabled={!commentText.trim() || addCommentMutation.isPending}
+        <div className="flex items-center justify-between gap-2">
+          <CommentAttachmentPicker attachments={commentAttachments} />
+          <TypingIndicator users={typingUsers} />
+          <Button
+            className="ml-auto"
+            onClick={handleSubmitComment}
+            disabled={(!commentInput.text.trim() && commentAttachments.ids.length === 0) || commentAttachments.isUploading || addCommentMutation.isPending}
           >
             <Send className="mr-2 h-4 w-4" />
             Comentar
           </Button>
         </div>
       </div>
-      
+
       {/* Exibir mensagem de carregamento */}
       {isLoading && (
         <div className="py-4 text-center text-muted-foreground">
           Carregando comentários...
         </div>
       )}
-      
+
       {/* Exibir mensagem quando não há comentários */}
       {!isLoading && sortedThreads.length === 0 && (
         <div className="py-4 text-center text-muted-foreground">
           Nenhum comentário ainda. Seja o primeiro a comentar!
         </div>
       )}
-      
+
       {/* Lista de comentários */}
       <div className="space-y-1 divide-y">
         {sortedThreads.map(thread => (
@@ -323,17 +290,17 @@ export function CommentSection({ taskId, className = "" }: CommentSectionProps)
             key={thread.comment!.id}
             comment={thread.comment!}
             users={usersMap}
-            onReply={(parentComment) => handleReply(parentComment as any)}
+            onReply={handleReply}
             onDelete={(commentId) => deleteCommentMutation.mutate(commentId)}
-            onEdit={(commentId, newText) => 
+            onEdit={(commentId, newText) =>
               editCommentMutation.mutate({ commentId, text: newText })
             }
-            reactions={[]} // Não é mais necessário passar reactions separadamente
-            onReaction={handleReaction}
+            onReaction={(comment) => reactionMutation.mutate(comment)}
+            canModerate={canModerate}
             replies={thread.replies}
           />
         ))}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
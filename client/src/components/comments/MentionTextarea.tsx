@@ -0,0 +1,196 @@
+import { forwardRef, useCallback, useImperativeHandle, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Textarea } from "@/components/ui/textarea";
+import { UserAvatar } from "./UserAvatar";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { applyMentions, mentionsToPlainText, parseMentions } from "@shared/mentions";
+import type { ChatChannelSummary } from "@shared/schema";
+
+// Diretório da equipe (usuários ativos), o mesmo usado pelo chat
+export type TeamMember = NonNullable<ChatChannelSummary['peer']>;
+
+type SelectedMention = { id: number; name: string };
+
+const MAX_SUGGESTIONS = 6;
+
+export function useTeamDirectory() {
+  return useQuery<TeamMember[]>({
+    queryKey: ['/api/chat/users'],
+    staleTime: 1000 * 60 * 15 // 15 minutos
+  });
+}
+
+function mentionsFrom(markup: string): SelectedMention[] {
+  return parseMentions(markup).flatMap(segment =>
+    segment.type === 'mention' ? [{ id: segment.userId, name: segment.name }] : []
+  );
+}
+
+/**
+ * Estado de um campo com menções: o usuário vê "@Nome" e, ao enviar,
+ * toMarkup() devolve o texto com os IDs de quem foi escolhido no autocompletar
+ */
+export function useMentionInput(initialMarkup = "") {
+  const [text, setText] = useState(() => mentionsToPlainText(initialMarkup));
+  const [mentions, setMentions] = useState<SelectedMention[]>(() => mentionsFrom(initialMarkup));
+
+  const addMention = useCallback((member: SelectedMention) => {
+    setMentions(previous => previous.some(mention => mention.id === member.id)
+      ? previous
+      : [...previous, { id: member.id, name: member.name }]);
+  }, []);
+
+  const reset = useCallback((markup = "") => {
+    setText(mentionsToPlainText(markup));
+    setMentions(mentionsFrom(markup));
+  }, []);
+
+  const toMarkup = useCallback(() => applyMentions(text.trim(), mentions), [text, mentions]);
+
+  return { text, setText, addMention, reset, toMarkup };
+}
+
+export type MentionInput = ReturnType<typeof useMentionInput>;
+
+interface MentionTextareaProps extends Omit<React.ComponentProps<"textarea">, 'value' | 'onChange'> {
+  input: MentionInput;
+  // Chamado a cada alteração do texto (ex.: indicador de digitação)
+  onTextChange?: (text: string) => void;
+}
+
+// Trecho "@consulta" imediatamente antes do cursor
+function findMentionQuery(text: string, caret: number) {
+  const match = /(^|\s)@([^\s@]{0,30})$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
+
+/**
+ * Textarea com autocompletar de membros da equipe ao digitar "@"
+ */
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ input, onTextChange, onKeyDown, onBlur, className, ...props }, ref) => {
+    const { user: currentUser } = useAuth();
+    const { data: members = [] } = useTeamDirectory();
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [trigger, setTrigger] = useState<{ query: string; start: number } | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+
+    useImperativeHandle(ref, () => textareaRef.current!);
+
+    const suggestions = useMemo(() => {
+      if (!trigger) return [];
+      const query = trigger.query.toLocaleLowerCase('pt-BR');
+      return members
+        .filter(member => member.id !== currentUser?.id)
+        .filter(member => member.name.toLocaleLowerCase('pt-BR').includes(query)
+          || member.username.toLocaleLowerCase('pt-BR').includes(query))
+        .slice(0, MAX_SUGGESTIONS);
+    }, [trigger, members, currentUser?.id]);
+
+    const updateTrigger = (text: string, caret: number) => {
+      setTrigger(findMentionQuery(text, caret));
+      setHighlighted(0);
+    };
+
+    const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+      const { value, selectionStart } = event.target;
+      input.setText(value);
+      updateTrigger(value, selectionStart ?? value.length);
+      onTextChange?.(value);
+    };
+
+    const selectMember = (member: TeamMember) => {
+      const textarea = textareaRef.current;
+      if (!trigger || !textarea) return;
+
+      const caret = textarea.selectionStart ?? input.text.length;
+      const inserted = `@${member.name} `;
+      const value = input.text.slice(0, trigger.start) + inserted + input.text.slice(caret);
+
+      input.setText(value);
+      input.addMention(member);
+      setTrigger(null);
+      onTextChange?.(value);
+
+      // Reposicionar o cursor depois da menção inserida
+      const position = trigger.start + inserted.length;
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(position, position);
+      });
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (suggestions.length > 0) {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+          event.preventDefault();
+          const step = event.key === 'ArrowDown' ? 1 : -1;
+          setHighlighted(current => (current + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          event.preventDefault();
+          selectMember(suggestions[highlighted]);
+          return;
+        }
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          setTrigger(null);
+          return;
+        }
+      }
+      onKeyDown?.(event);
+    };
+
+    return (
+      <div className="relative">
+        <Textarea
+          {...props}
+          ref={textareaRef}
+          value={input.text}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={event => updateTrigger(event.currentTarget.value, event.currentTarget.selectionStart ?? 0)}
+          onBlur={event => {
+            // Atraso para que o clique em uma sugestão seja processado antes de fechar a lista
+            setTimeout(() => setTrigger(null), 150);
+            onBlur?.(event);
+          }}
+          className={className}
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute left-0 top-full z-50 mt-1 w-64 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {suggestions.map((member, index) => (
+              <li
+                key={member.id}
+                role="option"
+                aria-selected={index === highlighted}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                  index === highlighted ? "bg-accent text-accent-foreground" : ""
+                )}
+                onMouseEnter={() => setHighlighted(index)}
+                onMouseDown={event => {
+                  event.preventDefault();
+                  selectMember(member);
+                }}
+              >
+                <UserAvatar user={member} size="sm" />
+                <span className="truncate">{member.name}</span>
+                <span className="ml-auto truncate text-xs text-muted-foreground">@{member.username}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+MentionTextarea.displayName = "MentionTextarea";
@@ -0,0 +1,28 @@
+import type { PresenceUser } from "@shared/realtime";
+
+interface TypingIndicatorProps {
+  users: PresenceUser[];
+}
+
+// Texto "Fulano está digitando..." para quem está escrevendo um comentário
+function describeTyping(users: PresenceUser[]) {
+  const names = users.map(user => user.name.split(' ')[0]);
+  if (names.length === 1) return `${names[0]} está digitando...`;
+  if (names.length === 2) return `${names[0]} e ${names[1]} estão digitando...`;
+  return `${names[0]} e mais ${names.length - 1} pessoas estão digitando...`;
+}
+
+export function TypingIndicator({ users }: TypingIndicatorProps) {
+  if (users.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground" aria-live="polite">
+      <span className="flex gap-0.5">
+        <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-muted-foreground [animation-delay:-0.3s]" />
+        <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-muted-foreground [animation-delay:-0.15s]" />
+        <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-muted-foreground" />
+      </span>
+      {describeTyping(users)}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { User } from "@shared/schema";
 import { useState, useEffect } from "react";
 
 interface UserAvatarProps {
-  user: User | undefined;
+  user: Pick<User, "id" | "name" | "avatar"> | undefined;
   size?: "sm" | "md" | "lg";
   className?: string;
 }
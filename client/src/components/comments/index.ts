@@ -2,4 +2,7 @@ export * from './UserAvatar';
 export * from './RelativeTime';
 export * from './CommentItem';
 export * from './CommentSection';
-export * from './ProjectCommentSection';
\ No newline at end of file
+export * from './TypingIndicator';
+export * from './MentionTextarea';
+export * from './CommentMarkdown';
+export * from './CommentAttachments';
\ No newline at end of file
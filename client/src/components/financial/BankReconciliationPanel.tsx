@@ -0,0 +1,393 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CheckCheck, EyeOff, FileUp, Loader2, RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { cn, formatCurrency, showSuccessToast } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BANK_STATEMENT_EXTENSIONS,
+  BANK_STATEMENT_FORMAT_LABELS,
+  RECONCILIATION_AUTO_SELECT_SCORE,
+  type BankStatementImportDetail,
+  type BankStatementImportSummary,
+  type ConfirmReconciliationResult,
+  type ReconciliationCandidate,
+  type ReconciliationMatchReason,
+  type ReconciliationTransaction
+} from "@shared/bank-reconciliation";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+
+const IMPORTS_KEY = '/api/bank-reconciliation/imports';
+
+const REASON_LABELS: Record<ReconciliationMatchReason, string> = {
+  amount: 'valor',
+  date: 'data',
+  document_number: 'nº do documento'
+};
+
+// Chave do candidato no select ("document:12" ou "expense:3")
+const candidateKey = (candidate: ReconciliationCandidate) => `${candidate.kind}:${candidate.id}`;
+
+function formatDay(value: string | null) {
+  return value ? format(parseISO(value), "dd/MM/yyyy", { locale: ptBR }) : "—";
+}
+
+/**
+ * Importação de extratos OFX / retornos CNAB e revisão das conciliações sugeridas.
+ * Sugestões com pontuação alta vêm marcadas; nada é baixado sem a confirmação do usuário.
+ */
+export function BankReconciliationPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedImportId, setSelectedImportId] = useState<number | null>(null);
+  const [choices, setChoices] = useState<Record<number, string>>({});
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+
+  const { data: imports = [] } = useQuery<BankStatementImportSummary[]>({
+    queryKey: [IMPORTS_KEY],
+  });
+
+  const importId = selectedImportId ?? imports[0]?.id ?? null;
+  const detailKey = `${IMPORTS_KEY}/${importId}`;
+
+  const { data: detail, isLoading: detailLoading } = useQuery<BankStatementImportDetail>({
+    queryKey: [detailKey],
+    enabled: importId !== null,
+  });
+
+  // Pré-seleciona as sugestões sempre que a importação é (re)carregada
+  useEffect(() => {
+    if (!detail) return;
+    const nextChoices: Record<number, string> = {};
+    const nextChecked = new Set<number>();
+    detail.transactions.forEach(transaction => {
+      if (transaction.status !== 'pending' || !transaction.suggestion) return;
+      nextChoices[transaction.id] = candidateKey(transaction.suggestion);
+      if (transaction.suggestion.score >= RECONCILIATION_AUTO_SELECT_SCORE) {
+        nextChecked.add(transaction.id);
+      }
+    });
+    setChoices(nextChoices);
+    setChecked(nextChecked);
+  }, [detail]);
+
+  const invalidateImports = () => {
+    queryClient.invalidateQueries({ queryKey: [IMPORTS_KEY] });
+    queryClient.invalidateQueries({ queryKey: [detailKey] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(IMPORTS_KEY, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || 'Erro ao importar o arquivo');
+      }
+      return body as BankStatementImportDetail;
+    },
+    onSuccess: (created) => {
+      showSuccessToast({
+        title: "Extrato importado",
+        description: created.duplicates_skipped
+          ? `${created.transaction_count} transação(ões) importada(s); ${created.duplicates_skipped} já importada(s) anteriormente.`
+          : `${created.transaction_count} transação(ões) importada(s) para revisão.`
+      });
+      setSelectedImportId(created.id);
+      queryClient.invalidateQueries({ queryKey: [IMPORTS_KEY] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao importar extrato",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (matches: { transaction_id: number; document_id?: number; expense_id?: number }[]) => {
+      const response = await apiRequest("POST", `${IMPORTS_KEY}/${importId}/confirm`, { matches });
+      return response.json() as Promise<ConfirmReconciliationResult>;
+    },
+    onSuccess: (result) => {
+      if (result.confirmed > 0) {
+        showSuccessToast({
+          title: "Conciliação confirmada",
+          description: `${result.confirmed} transação(ões) conciliada(s) e baixada(s).`
+        });
+      }
+      if (result.errors.length > 0) {
+        toast({
+          title: `${result.errors.length} conciliação(ões) não confirmada(s)`,
+          description: result.errors.map(error => `#${error.transaction_id}: ${error.message}`).join('\n'),
+          variant: "destructive",
+        });
+      }
+      invalidateImports();
+      queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao confirmar conciliação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: async ({ transaction, ignore }: { transaction: ReconciliationTransaction; ignore: boolean }) => {
+      const response = await apiRequest("POST", `/api/bank-reconciliation/transactions/${transaction.id}/${ignore ? 'ignore' : 'restore'}`);
+      return response.json();
+    },
+    onSuccess: invalidateImports,
+    onError: (error) => {
+      toast({
+        title: "Erro ao atualizar transação",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    event.target.value = '';
+  };
+
+  const toggleChecked = (transactionId: number, value: boolean) => {
+    setChecked(previous => {
+      const next = new Set(previous);
+      if (value) next.add(transactionId);
+      else next.delete(transactionId);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const matches = Array.from(checked).flatMap(transactionId => {
+      const [kind, id] = (choices[transactionId] || '').split(':');
+      if (!id) return [];
+      return [kind === 'document'
+        ? { transaction_id: transactionId, document_id: Number(id) }
+        : { transaction_id: transactionId, expense_id: Number(id) }];
+    });
+    if (matches.length > 0) confirmMutation.mutate(matches);
+  };
+
+  const selectedCount = Array.from(checked).filter(transactionId => choices[transactionId]).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Conciliação bancária</CardTitle>
+            <CardDescription>
+              Importe o extrato OFX ou o arquivo de retorno CNAB 240/400 do banco para baixar faturas e despesas.
+            </CardDescription>
+          </div>
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={BANK_STATEMENT_EXTENSIONS.join(',')}
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+              {uploadMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <FileUp className="h-4 w-4 mr-2" />}
+              Importar arquivo
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {imports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum extrato importado ainda.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {imports.map(item => (
+                <Button
+                  key={item.id}
+                  variant={item.id === importId ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedImportId(item.id)}
+                >
+                  {item.file_name}
+                  <Badge variant="secondary" className="ml-2">
+                    {item.pending_count > 0 ? `${item.pending_count} pendente(s)` : 'revisado'}
+                  </Badge>
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {importId !== null && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-base">{detail?.file_name ?? 'Carregando...'}</CardTitle>
+              {detail && (
+                <CardDescription>
+                  {BANK_STATEMENT_FORMAT_LABELS[detail.format]}
+                  {detail.account ? ` · Conta ${detail.account}` : ''}
+                  {` · ${formatDay(detail.period_start)} a ${formatDay(detail.period_end)}`}
+                  {` · ${detail.matched_count} conciliada(s), ${detail.pending_count} pendente(s), ${detail.ignored_count} ignorada(s)`}
+                </CardDescription>
+              )}
+            </div>
+            <Button onClick={handleConfirm} disabled={selectedCount === 0 || confirmMutation.isPending}>
+              {confirmMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <CheckCheck className="h-4 w-4 mr-2" />}
+              Confirmar selecionadas ({selectedCount})
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {detailLoading || !detail ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="w-[340px]">Conciliar com</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.transactions.map(transaction => {
+                    const pending = transaction.status === 'pending';
+                    const choice = choices[transaction.id];
+                    const chosen = transaction.candidates.find(candidate => candidateKey(candidate) === choice);
+
+                    return (
+                      <TableRow key={transaction.id} className={cn(!pending && "text-muted-foreground")}>
+                        <TableCell>
+                          <Checkbox
+                            checked={checked.has(transaction.id)}
+                            disabled={!pending || !choice}
+                            onCheckedChange={(value) => toggleChecked(transaction.id, value === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDay(transaction.transaction_date)}</TableCell>
+                        <TableCell>
+                          <div className="max-w-[280px] truncate" title={transaction.description ?? undefined}>
+                            {transaction.description || transaction.external_id}
+                          </div>
+                          {transaction.document_number && (
+                            <div className="text-xs text-muted-foreground">Doc. {transaction.document_number}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className={cn("text-right whitespace-nowrap", transaction.amount > 0 ? "text-green-600" : "text-red-600")}>
+                          {formatCurrency(transaction.amount)}
+                        </TableCell>
+                        <TableCell>
+                          {transaction.status === 'matched' ? (
+                            <Badge variant="outline" className="border-green-500 text-green-600">
+                              Conciliada com {transaction.matched_document_id ? `fatura #${transaction.matched_document_id}` : `despesa #${transaction.matched_expense_id}`}
+                            </Badge>
+                          ) : transaction.status === 'ignored' ? (
+                            <Badge variant="secondary">Ignorada</Badge>
+                          ) : transaction.candidates.length === 0 ? (
+                            <span className="text-sm text-muted-foreground">
+                              Nenhuma {transaction.amount > 0 ? 'fatura em aberto' : 'despesa não paga'} compatível
+                            </span>
+                          ) : (
+                            <div className="space-y-1">
+                              <Select
+                                value={choice ?? ''}
+                                onValueChange={(value) => {
+                                  setChoices(previous => ({ ...previous, [transaction.id]: value }));
+                                  toggleChecked(transaction.id, true);
+                                }}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue placeholder="Selecione..." />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {transaction.candidates.map(candidate => (
+                                    <SelectItem key={candidateKey(candidate)} value={candidateKey(candidate)}>
+                                      {candidate.label} · {formatCurrency(candidate.amount)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {chosen && (
+                                <div className="text-xs text-muted-foreground">
+                                  {chosen.score}% · {chosen.reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+                                  {chosen.date ? ` · ${chosen.kind === 'document' ? 'vence' : 'data'} ${formatDay(chosen.date)}` : ''}
+                                  {chosen.kind === 'document' && transaction.amount < chosen.amount ? ' · pagamento parcial' : ''}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {transaction.status !== 'matched' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title={pending ? "Ignorar transação" : "Voltar para revisão"}
+                              disabled={ignoreMutation.isPending}
+                              onClick={() => ignoreMutation.mutate({ transaction, ignore: pending })}
+                            >
+                              {pending ? <EyeOff className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -62,6 +62,8 @@ export function FinancialAuditDialog({ documentId, open, onOpenChange }: Financi
       approve: { label: "Aprovado", variant: "default" },
       archive: { label: "Arquivado", variant: "outline" },
       cancel: { label: "Cancelado", variant: "destructive" },
+      pay: { label: "Pagamento", variant: "default" },
+      revert_payment: { label: "Pagamento revertido", variant: "destructive" },
     };
 
     const config = actions[action] || { label: action, variant: "outline" };
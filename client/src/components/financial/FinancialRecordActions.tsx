@@ -36,6 +36,7 @@ interface FinancialDocument {
   due_date: string;
   description: string | null;
   paid: boolean;
+  amount_paid?: number | null;
   status: string;
   invoice_file?: string | null;
   invoice_file_name?: string | null;
@@ -86,7 +87,7 @@ export function FinancialRecordActions({
   const canRegisterPayment = () => {
     if (type === "document") {
       const doc = record as FinancialDocument;
-      return !doc.paid && doc.status !== "canceled";
+      return !doc.paid && doc.status !== "cancelled";
     } else {
       const expense = record as Expense;
       return !expense.approved;
@@ -97,7 +98,8 @@ export function FinancialRecordActions({
   const canRevertPayment = () => {
     if (type === "document") {
       const doc = record as FinancialDocument;
-      return doc.paid === true;
+      // Reverte o pagamento mais recente (pagamentos parciais também podem ser revertidos)
+      return doc.paid === true || (doc.amount_paid || 0) > 0;
     } else {
       const expense = record as Expense;
       return expense.approved === true;
@@ -193,13 +195,14 @@ export function FinancialRecordActions({
       showSuccessToast({
         title: "Pagamento revertido com sucesso",
         description: type === "document" 
-          ? "O documento foi marcado como pendente novamente."
+          ? "O último pagamento registrado foi revertido."
           : "A despesa foi marcada como não aprovada."
       });
       
       // Recarregar os dados após reverter pagamento
       if (type === "document") {
         queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
+        queryClient.invalidateQueries({ queryKey: [`/api/financial-documents/${record.id}/payments`] });
       } else {
         queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
       }
@@ -286,7 +289,7 @@ export function FinancialRecordActions({
           {canRevertPayment() && (
             <DropdownMenuItem onClick={() => revertPaymentMutation.mutate()}>
               <RotateCcw className="mr-2 h-4 w-4" />
-              <span>{revertPaymentMutation.isPending ? "Revertendo..." : "Reverter Pagamento"}</span>
+              <span>{revertPaymentMutation.isPending ? "Revertendo..." : type === "document" ? "Reverter Último Pagamento" : "Reverter Pagamento"}</span>
             </DropdownMenuItem>
           )}
           
@@ -18,6 +18,8 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { InvoiceAttachment } from "./InvoiceAttachment";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CommentSection } from "@/components/comments";
+import type { NfseInvoiceData } from "@shared/nfse";
 
 // Tipos para os registros financeiros
 interface FinancialDocument {
@@ -36,6 +38,7 @@ interface FinancialDocument {
   invoice_file_name?: string | null;
   invoice_file_uploaded_at?: string | null;
   invoice_file_uploaded_by?: number | null;
+  invoice_nfse?: NfseInvoiceData | null;
 }
 
 interface Expense {
@@ -176,9 +179,12 @@ export function FinancialRecordDetails({
         </DialogHeader>
 
         <Tabs defaultValue="details" className="w-full">
-          <TabsList className="grid grid-cols-2">
+          <TabsList className={type === "document" ? "grid grid-cols-3" : "grid grid-cols-2"}>
             <TabsTrigger value="details">Detalhes</TabsTrigger>
             <TabsTrigger value="invoice">Nota Fiscal</TabsTrigger>
+            {type === "document" && (
+              <TabsTrigger value="discussion">Discussão</TabsTrigger>
+            )}
           </TabsList>
           
           <TabsContent value="details" className="space-y-4 mt-4">
@@ -314,9 +320,22 @@ export function FinancialRecordDetails({
               invoiceFile={record.invoice_file}
               invoiceFileName={record.invoice_file_name}
               invoiceUploadedAt={record.invoice_file_uploaded_at}
+              invoiceNfse={type === "document" ? (record as FinancialDocument).invoice_nfse : null}
               onInvoiceUpdated={handleInvoiceUpdated}
             />
           </TabsContent>
+
+          {type === "document" && (
+            <TabsContent value="discussion" className="mt-4 max-h-[60vh] overflow-y-auto">
+              <CommentSection
+                entityType="financial_document"
+                entityId={record.id}
+                title="Discussão"
+                placeholder="Comente sobre este documento (use @ para mencionar)"
+                className="mt-0"
+              />
+            </TabsContent>
+          )}
         </Tabs>
 
         <DialogFooter className="mt-6">
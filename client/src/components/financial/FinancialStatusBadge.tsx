@@ -51,7 +51,17 @@ export function FinancialStatusBadge({
       );
     }
     
-    // Prioridade 3: Se não foi pago e não está vencido, sempre mostrar como Pendente
+    // Prioridade 3: Pagamento parcial registrado e ainda dentro do prazo
+    if (status === "partially_paid") {
+      return (
+        <Badge variant="secondary" className={`bg-blue-100 text-blue-800 hover:bg-blue-100 ${className}`}>
+          <DollarSign className="h-3 w-3 mr-1" />
+          Pago parcialmente
+        </Badge>
+      );
+    }
+    
+    // Prioridade 4: Se não foi pago e não está vencido, sempre mostrar como Pendente
     // (Removemos a lógica de "archived" para não pagos)
     return (
       <Badge variant="secondary" className={`bg-amber-100 text-amber-800 hover:bg-amber-100 ${className}`}>
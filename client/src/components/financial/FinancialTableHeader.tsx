@@ -30,6 +30,9 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 
+// Campos de ordenação das listas A Receber e A Pagar
+export type FinancialSortField = 'amount' | 'document_number' | 'issue_date' | 'due_date' | 'client_name' | 'id';
+
 interface FinancialTableHeaderProps {
   title: string;
   type: "receivables" | "payables";
@@ -41,10 +44,10 @@ interface FinancialTableHeaderProps {
   statusFilter: string;
   onStatusFilterChange: (value: string) => void;
   sortConfig: {
-    field: string;
+    field: FinancialSortField;
     direction: 'asc' | 'desc';
   };
-  onSort: (field: string) => void;
+  onSort: (field: FinancialSortField) => void;
   onAddNew: () => void;
   onExport?: () => void;
   formatCurrency: (value: number) => string;
@@ -82,7 +85,7 @@ export function FinancialTableHeader({
         { value: "rejected", label: "Rejeitadas", icon: <AlertCircle className="h-4 w-4" /> }
       ];
 
-  const sortOptions = [
+  const sortOptions: { value: FinancialSortField; label: string }[] = [
     { value: "id", label: "Data de Criação" },
     { value: "amount", label: "Valor" },
     { value: "due_date", label: type === "receivables" ? "Vencimento" : "Data" },
@@ -0,0 +1,189 @@
+import { addDays, format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  buildInstallmentSchedule,
+  installmentPlanError,
+  PROJECT_INSTALLMENTS_MAX,
+  projectInstallmentPlanSchema,
+  type InstallmentPlanType,
+  type ProjectInstallmentPlan
+} from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface InstallmentPlanEditorProps {
+  value: ProjectInstallmentPlan | null | undefined;
+  onChange: (plan: ProjectInstallmentPlan | null) => void;
+  budget: number | null | undefined;
+  issueDate: Date | null | undefined;
+  paymentTerm: number;
+}
+
+// Parcelamentos mais usados, em percentual do orçamento
+const PRESETS: { label: string; plan: ProjectInstallmentPlan }[] = [
+  {
+    label: "50% / 50%",
+    plan: { type: 'percentage', installments: [{ value: 50, due_offset_days: 0 }, { value: 50, due_offset_days: 30 }] }
+  },
+  {
+    label: "3x iguais",
+    plan: {
+      type: 'percentage',
+      installments: [
+        { value: 33.33, due_offset_days: 30 },
+        { value: 33.33, due_offset_days: 60 },
+        { value: 33.34, due_offset_days: 90 }
+      ]
+    }
+  }
+];
+
+/**
+ * Editor do parcelamento do faturamento do projeto, com prévia dos valores e vencimentos
+ * de cada fatura que será gerada
+ */
+export function InstallmentPlanEditor({ value, onChange, budget, issueDate, paymentTerm }: InstallmentPlanEditorProps) {
+  const enabled = !!value;
+  const schedule = buildInstallmentSchedule(budget || 0, value, paymentTerm);
+  const baseDate = issueDate || new Date();
+  const parsed = value ? projectInstallmentPlanSchema.safeParse(value) : null;
+  const error = parsed && !parsed.success ? parsed.error.errors[0]?.message : installmentPlanError(value, budget);
+
+  const updateInstallment = (index: number, changes: Partial<ProjectInstallmentPlan['installments'][number]>) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      installments: value.installments.map((item, i) => i === index ? { ...item, ...changes } : item)
+    });
+  };
+
+  const addInstallment = () => {
+    if (!value || value.installments.length >= PROJECT_INSTALLMENTS_MAX) return;
+    const last = value.installments[value.installments.length - 1];
+    onChange({
+      ...value,
+      installments: [...value.installments, { value: last?.value || 1, due_offset_days: (last?.due_offset_days || 0) + 30 }]
+    });
+  };
+
+  const removeInstallment = (index: number) => {
+    if (!value || value.installments.length <= 2) return;
+    onChange({ ...value, installments: value.installments.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <Label htmlFor="installment-plan-toggle">Faturar em parcelas</Label>
+          <p className="text-xs text-muted-foreground">
+            Gera uma fatura por parcela, com vencimento contado a partir da data de emissão
+          </p>
+        </div>
+        <Switch
+          id="installment-plan-toggle"
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? PRESETS[0].plan : null)}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={value.type}
+              onValueChange={(type) => onChange({ ...value, type: type as InstallmentPlanType })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percentual</SelectItem>
+                <SelectItem value="fixed">Valor fixo (R$)</SelectItem>
+              </SelectContent>
+            </Select>
+            {PRESETS.map(preset => (
+              <Button key={preset.label} type="button" variant="outline" size="sm" onClick={() => onChange(preset.plan)}>
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {value.installments.map((item, index) => (
+              <div key={index} className="grid grid-cols-[auto_1fr_1fr_auto] items-center gap-2">
+                <span className="w-8 text-sm text-muted-foreground">{index + 1}ª</span>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={item.value || ""}
+                    onChange={(e) => updateInstallment(index, { value: e.target.value ? parseFloat(e.target.value) : 0 })}
+                  />
+                  <span className="text-xs text-muted-foreground">{value.type === 'percentage' ? '%' : 'R$'}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={item.due_offset_days}
+                    onChange={(e) => updateInstallment(index, { due_offset_days: e.target.value ? parseInt(e.target.value) : 0 })}
+                  />
+                  <span className="whitespace-nowrap text-xs text-muted-foreground">dias após emissão</span>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={value.installments.length <= 2}
+                  onClick={() => removeInstallment(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={value.installments.length >= PROJECT_INSTALLMENTS_MAX}
+              onClick={addInstallment}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Adicionar parcela
+            </Button>
+          </div>
+
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+          {!!budget && (
+            <div className="rounded bg-muted/50 p-2 text-xs">
+              <p className="mb-1 font-medium">Faturas que serão geradas</p>
+              {schedule.map(installment => (
+                <div key={installment.number} className="flex justify-between">
+                  <span>
+                    Parcela {installment.number}/{installment.count} · vence em{" "}
+                    {format(addDays(baseDate, installment.dueOffsetDays), "dd/MM/yyyy", { locale: ptBR })}
+                  </span>
+                  <span className="font-medium">{formatCurrency(installment.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { showSuccessToast } from "@/lib/utils";
+import { hasNfseMismatch, type NfseInvoiceData } from "@shared/nfse";
+import { NfseSummary } from "./NfseSummary";
 
 interface InvoiceAttachmentProps {
   type: "document" | "expense";
@@ -34,6 +36,7 @@ interface InvoiceAttachmentProps {
   invoiceFile: string | null;
   invoiceFileName: string | null;
   invoiceUploadedAt: string | null;
+  invoiceNfse?: NfseInvoiceData | null;
   onInvoiceUpdated: () => void;
 }
 
@@ -43,6 +46,7 @@ export const InvoiceAttachment = ({
   invoiceFile,
   invoiceFileName,
   invoiceUploadedAt,
+  invoiceNfse = null,
   onInvoiceUpdated
 }: InvoiceAttachmentProps) => {
   const { toast } = useToast();
@@ -50,6 +54,8 @@ export const InvoiceAttachment = ({
   const [confirmDelete, setConfirmDelete] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploading, setUploading] = useState(false);
+  // Dados da NFS-e quando o arquivo anexado é o XML da nota (apenas documentos financeiros)
+  const [nfse, setNfse] = useState<NfseInvoiceData | null>(invoiceNfse);
 
   // URL base para uploads e ações
   const apiBaseUrl = type === "document" 
@@ -107,11 +113,27 @@ export const InvoiceAttachment = ({
         setUploading(false);
       }
     },
-    onSuccess: () => {
-      showSuccessToast({
-        title: "Nota fiscal anexada com sucesso",
-        description: "O arquivo foi vinculado ao registro financeiro"
-      });
+    onSuccess: (result) => {
+      const uploadedNfse: NfseInvoiceData | null = result?.nfse ?? null;
+      setNfse(uploadedNfse);
+
+      if (uploadedNfse && hasNfseMismatch(uploadedNfse)) {
+        toast({
+          title: `NFS-e nº ${uploadedNfse.number} anexada com divergências`,
+          description: uploadedNfse.checks
+            .filter(check => check.status === "mismatch")
+            .map(check => check.message)
+            .join("\n"),
+          variant: "destructive",
+        });
+      } else {
+        showSuccessToast({
+          title: "Nota fiscal anexada com sucesso",
+          description: uploadedNfse
+            ? `NFS-e nº ${uploadedNfse.number} conferida com o documento`
+            : "O arquivo foi vinculado ao registro financeiro"
+        });
+      }
       
       // Invalidar queries para atualizar os dados
       if (type === "document") {
@@ -148,6 +170,7 @@ export const InvoiceAttachment = ({
       return await response.json();
     },
     onSuccess: () => {
+      setNfse(null);
       showSuccessToast({
         title: "Nota fiscal removida",
         description: "O arquivo foi desvinculado do registro"
@@ -258,6 +281,8 @@ export const InvoiceAttachment = ({
           </CardContent>
         </Card>
 
+        {nfse && <NfseSummary nfse={nfse} />}
+
         {/* Diálogo de confirmação para exclusão */}
         <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
           <AlertDialogContent>
@@ -302,7 +327,7 @@ export const InvoiceAttachment = ({
             type="file"
             id="invoice-upload"
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            accept=".pdf,.jpg,.jpeg,.png"
+            accept={type === "document" ? ".pdf,.jpg,.jpeg,.png,.xml" : ".pdf,.jpg,.jpeg,.png"}
             onChange={handleFileUpload}
             disabled={uploading}
           />
@@ -324,9 +349,13 @@ export const InvoiceAttachment = ({
         )}
         
         <p className="text-xs text-muted-foreground mt-4">
-          Formatos suportados: PDF, JPG, JPEG, PNG (máx. 10MB)
+          {type === "document"
+            ? "Formatos suportados: PDF, JPG, JPEG, PNG e XML da NFS-e (máx. 10MB)"
+            : "Formatos suportados: PDF, JPG, JPEG, PNG (máx. 10MB)"}
         </p>
       </div>
+
+      {nfse && <NfseSummary nfse={nfse} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle, CheckCircle2, FileCode2, HelpCircle, PencilLine } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn, formatCurrency } from "@/lib/utils";
+import {
+  NFSE_CHECK_FIELD_LABELS,
+  formatCnpj,
+  hasNfseMismatch,
+  type NfseCheckStatus,
+  type NfseInvoiceData
+} from "@shared/nfse";
+
+const STATUS_ICONS: Record<NfseCheckStatus, JSX.Element> = {
+  match: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  filled: <PencilLine className="h-4 w-4 text-blue-600" />,
+  mismatch: <AlertTriangle className="h-4 w-4 text-amber-600" />,
+  missing: <HelpCircle className="h-4 w-4 text-muted-foreground" />
+};
+
+interface NfseSummaryProps {
+  nfse: NfseInvoiceData;
+}
+
+/**
+ * Dados da NFS-e lidos do XML anexado e o resultado da conferência com o documento
+ */
+export function NfseSummary({ nfse }: NfseSummaryProps) {
+  const mismatch = hasNfseMismatch(nfse);
+  const retained = nfse.iss_withheld_value + Object.values(nfse.retentions).reduce((total, value) => total + value, 0);
+
+  return (
+    <Card className={cn(mismatch && "border-amber-300")}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FileCode2 className="h-5 w-5 text-primary" />
+            <h4 className="text-sm font-semibold">NFS-e nº {nfse.number}</h4>
+          </div>
+          <Badge variant="outline" className={mismatch ? "border-amber-500 text-amber-700" : "border-green-500 text-green-700"}>
+            {mismatch ? "Com divergências" : "Conferida"}
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          <span className="text-muted-foreground">Emissão</span>
+          <span>{nfse.issue_date ? format(parseISO(nfse.issue_date), "dd/MM/yyyy", { locale: ptBR }) : "—"}</span>
+          <span className="text-muted-foreground">Valor dos serviços</span>
+          <span>{formatCurrency(nfse.service_value)}</span>
+          <span className="text-muted-foreground">ISS{nfse.iss_withheld ? " (retido)" : ""}</span>
+          <span>{formatCurrency(nfse.iss_value)}</span>
+          {retained > 0 && (
+            <>
+              <span className="text-muted-foreground">Retenções</span>
+              <span>{formatCurrency(retained)}</span>
+            </>
+          )}
+          {nfse.net_value !== null && (
+            <>
+              <span className="text-muted-foreground">Valor líquido</span>
+              <span>{formatCurrency(nfse.net_value)}</span>
+            </>
+          )}
+          <span className="text-muted-foreground">Tomador</span>
+          <span className="truncate" title={nfse.borrower_name ?? undefined}>
+            {nfse.borrower_document ? formatCnpj(nfse.borrower_document) : "—"}
+            {nfse.borrower_name ? ` · ${nfse.borrower_name}` : ""}
+          </span>
+        </div>
+
+        <ul className="space-y-1">
+          {nfse.checks.map(check => (
+            <li key={check.field} className="flex items-start gap-2 text-xs">
+              {STATUS_ICONS[check.status]}
+              <span className={cn(check.status === "mismatch" && "text-amber-700 font-medium")}>
+                <span className="font-medium">{NFSE_CHECK_FIELD_LABELS[check.field]}:</span> {check.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,20 @@
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
-import { Check, Calendar as CalendarIcon } from "lucide-react";
+import { Check, Calendar as CalendarIcon, RotateCcw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, showSuccessToast } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import {
+  FINANCIAL_PAYMENT_METHODS,
+  FINANCIAL_PAYMENT_METHOD_LABELS,
+  outstandingBalance,
+  type FinancialDocumentPayment,
+  type FinancialPaymentMethod
+} from "@shared/schema";
 
 import {
   Dialog,
@@ -25,7 +33,16 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -50,6 +67,7 @@ interface FinancialDocument {
   due_date: string;
   description: string | null;
   paid: boolean;
+  amount_paid?: number | null;
   status: string;
 }
 
@@ -68,10 +86,20 @@ type FinancialRecord = FinancialDocument | Expense;
 
 // Schemas para validação
 const paymentSchema = z.object({
+  amount: z.number().positive("Informe um valor maior que zero").optional(),
+  method: z.enum(FINANCIAL_PAYMENT_METHODS).optional(),
+  reference: z.string().optional(),
   notes: z.string().optional(),
   payment_date: z.date().optional().nullable(),
 });
 
+interface PaymentHistory {
+  payments: FinancialDocumentPayment[];
+  amount: number;
+  amount_paid: number;
+  outstanding: number;
+}
+
 interface PaymentRegistrationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -87,6 +115,18 @@ export function PaymentRegistrationDialog({
 }: PaymentRegistrationDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [paymentToRevert, setPaymentToRevert] = useState<FinancialDocumentPayment | null>(null);
+  const isDocument = type === "document";
+  const financialDocument = isDocument ? record as FinancialDocument | null : null;
+  const paymentsKey = `/api/financial-documents/${record?.id}/payments`;
+  
+  // Histórico de pagamentos do documento
+  const { data: history } = useQuery<PaymentHistory>({
+    queryKey: [paymentsKey],
+    enabled: open && isDocument && !!record,
+  });
+  
+  const outstanding = history?.outstanding ?? (financialDocument ? outstandingBalance(financialDocument) : 0);
   
   // Configurar o formulário
   const form = useForm<z.infer<typeof paymentSchema>>({
@@ -96,6 +136,18 @@ export function PaymentRegistrationDialog({
       payment_date: new Date(), // Data atual como padrão
     },
   });
+  
+  // Sugerir o saldo em aberto como valor do pagamento
+  useEffect(() => {
+    if (open && isDocument) {
+      form.setValue("amount", outstanding || undefined);
+    }
+  }, [open, isDocument, outstanding, form]);
+  
+  const invalidatePayments = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
+    queryClient.invalidateQueries({ queryKey: [paymentsKey] });
+  };
 
   // Mutação para registrar pagamento
   const mutation = useMutation({
@@ -106,7 +158,7 @@ export function PaymentRegistrationDialog({
         ? `/api/financial-documents/${record.id}/pay` 
         : `/api/expenses/${record.id}/approve`;
       
-      const response = await apiRequest("POST", endpoint, data);
+      const response = await apiRequest("POST", endpoint, isDocument ? data : { notes: data.notes, payment_date: data.payment_date });
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -115,17 +167,19 @@ export function PaymentRegistrationDialog({
       
       return response.json().catch(() => ({}));
     },
-    onSuccess: () => {
+    onSuccess: (updated) => {
       showSuccessToast({
         title: type === "document" ? "Pagamento registrado" : "Despesa aprovada",
         description: type === "document" 
-          ? "O pagamento foi registrado com sucesso." 
+          ? updated?.paid
+            ? "O pagamento foi registrado e o documento está quitado."
+            : `Pagamento parcial registrado. Em aberto: ${formatCurrency(outstandingBalance(updated))}.`
           : "A despesa foi aprovada com sucesso."
       });
       
       // Recarregar os dados
       if (type === "document") {
-        queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
+        invalidatePayments();
       } else {
         queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
       }
@@ -142,6 +196,33 @@ export function PaymentRegistrationDialog({
     },
   });
 
+  // Mutação para reverter um pagamento específico do histórico
+  const revertMutation = useMutation({
+    mutationFn: async (payment: FinancialDocumentPayment) => {
+      const response = await apiRequest("POST", `/api/financial-documents/${record!.id}/revert-payment`, {
+        payment_id: payment.id
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      showSuccessToast({
+        title: "Pagamento revertido",
+        description: "O pagamento foi revertido e o saldo do documento atualizado."
+      });
+      invalidatePayments();
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar'] });
+      // A transação do extrato conciliada com o pagamento volta para a revisão
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/bank-reconciliation/') });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao reverter pagamento",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (!record) return null;
 
   return (
@@ -178,12 +259,72 @@ export function PaymentRegistrationDialog({
                 <p className="text-lg font-semibold">{formatCurrency(record.amount)}</p>
               </div>
             </div>
+            {isDocument && (history?.amount_paid ?? financialDocument?.amount_paid ?? 0) > 0 && (
+              <div className="flex justify-between text-sm mt-3 pt-3 border-t">
+                <span className="text-muted-foreground">
+                  Pago: {formatCurrency(history?.amount_paid ?? financialDocument?.amount_paid ?? 0)}
+                </span>
+                <span className="font-medium">Em aberto: {formatCurrency(outstanding)}</span>
+              </div>
+            )}
           </div>
         </div>
 
         <div className="p-6">
           <Form {...form}>
             <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+              {isDocument && (
+                <div className="grid grid-cols-2 gap-4">
+                  {/* Valor recebido (pagamento parcial quando menor que o saldo) */}
+                  <FormField
+                    control={form.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valor (R$)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min={0}
+                            max={outstanding}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {/* Forma de pagamento */}
+                  <FormField
+                    control={form.control}
+                    name="method"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Forma de pagamento</FormLabel>
+                        <Select value={field.value} onValueChange={(value) => field.onChange(value as FinancialPaymentMethod)}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FINANCIAL_PAYMENT_METHODS.map(method => (
+                              <SelectItem key={method} value={method}>
+                                {FINANCIAL_PAYMENT_METHOD_LABELS[method]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+              
               {/* Data Efetuada */}
               <FormField
                 control={form.control}
@@ -224,6 +365,23 @@ export function PaymentRegistrationDialog({
                 )}
               />
               
+              {/* Referência da transação */}
+              {isDocument && (
+                <FormField
+                  control={form.control}
+                  name="reference"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Referência (opcional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="ID da transação, nº do boleto..." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
               {/* Observações */}
               <FormField
                 control={form.control}
@@ -265,7 +423,72 @@ export function PaymentRegistrationDialog({
               </DialogFooter>
             </form>
           </Form>
+          
+          {/* Histórico de pagamentos */}
+          {isDocument && history && history.payments.length > 0 && (
+            <div className="mt-6 border-t pt-4">
+              <p className="text-sm font-medium mb-2">Histórico de pagamentos</p>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {history.payments.map(payment => (
+                  <div
+                    key={payment.id}
+                    className={cn(
+                      "flex items-center justify-between gap-2 rounded-md border p-2 text-sm",
+                      payment.reverted_at && "opacity-60"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className={cn("font-medium", payment.reverted_at && "line-through")}>
+                        {formatCurrency(payment.amount)}
+                        <span className="ml-2 font-normal text-muted-foreground">
+                          {format(new Date(payment.payment_date), "dd/MM/yyyy", { locale: ptBR })}
+                          {payment.method && ` · ${FINANCIAL_PAYMENT_METHOD_LABELS[payment.method as FinancialPaymentMethod] ?? payment.method}`}
+                        </span>
+                      </p>
+                      {(payment.reference || payment.notes) && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[payment.reference, payment.notes].filter(Boolean).join(" · ")}
+                        </p>
+                      )}
+                      {payment.reverted_at && (
+                        <p className="text-xs text-destructive">
+                          Revertido em {format(new Date(payment.reverted_at), "dd/MM/yyyy", { locale: ptBR })}
+                          {payment.revert_reason && `: ${payment.revert_reason}`}
+                        </p>
+                      )}
+                    </div>
+                    {!payment.reverted_at && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={revertMutation.isPending}
+                        onClick={() => setPaymentToRevert(payment)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Reverter
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
+        
+        <ConfirmDialog
+          isOpen={!!paymentToRevert}
+          onClose={() => setPaymentToRevert(null)}
+          onConfirm={() => {
+            if (paymentToRevert) revertMutation.mutate(paymentToRevert);
+            setPaymentToRevert(null);
+          }}
+          title="Reverter pagamento?"
+          description={paymentToRevert
+            ? `O pagamento de ${formatCurrency(paymentToRevert.amount)} será revertido e o valor voltará ao saldo em aberto. A reversão fica registrada na auditoria.`
+            : undefined}
+          confirmLabel="Reverter"
+        />
       </DialogContent>
     </Dialog>
   );
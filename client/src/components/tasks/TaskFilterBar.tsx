@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { Filter, Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TaskTagsInput } from "./TaskTagsInput";
+import { TASK_PRIORITY_OPTIONS, TASK_STATUS_OPTIONS } from "@/lib/constants";
+import { TASK_DUE_PERIODS, type TaskDuePeriod, type TaskListFilters } from "@shared/schema";
+
+interface NamedOption {
+  id: number;
+  name: string;
+  shortName?: string | null;
+}
+
+interface TaskFilterBarProps {
+  filters: TaskListFilters;
+  onChange: (patch: Partial<TaskListFilters>) => void;
+  onClear: () => void;
+  projects: NamedOption[];
+  clients: NamedOption[];
+  users: NamedOption[];
+}
+
+export const TASK_DUE_PERIOD_LABELS: Record<TaskDuePeriod, string> = {
+  today: "Vence hoje",
+  this_week: "Vence esta semana",
+  next_7_days: "Próximos 7 dias",
+  this_month: "Vence este mês",
+  no_date: "Sem prazo"
+};
+
+const ALL = "all";
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Campos que contam como "filtros avançados" no contador do botão
+const ADVANCED_FILTER_KEYS: (keyof TaskListFilters)[] = [
+  "projectId", "clientId", "priority", "status", "tags", "duePeriod", "dueFrom", "dueTo", "overdue"
+];
+
+function toggle<T>(list: T[] | undefined, value: T): T[] | undefined {
+  const current = list ?? [];
+  const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+  return next.length > 0 ? next : undefined;
+}
+
+function isActive(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== "";
+}
+
+/**
+ * Construtor de filtros da lista de tarefas. Os filtros são aplicados pelo servidor
+ * (GET /api/tasks), então a página só repassa o objeto de filtros para a consulta.
+ */
+export function TaskFilterBar({ filters, onChange, onClear, projects, clients, users }: TaskFilterBarProps) {
+  const [searchDraft, setSearchDraft] = useState(filters.search ?? "");
+
+  // Aplicar uma visão salva troca a busca por fora do campo
+  useEffect(() => {
+    setSearchDraft(filters.search ?? "");
+  }, [filters.search]);
+
+  useEffect(() => {
+    const trimmed = searchDraft.trim();
+    if (trimmed === (filters.search ?? "")) return;
+
+    const timeout = setTimeout(() => onChange({ search: trimmed || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchDraft]);
+
+  const situation = filters.completed === undefined ? ALL : filters.completed ? "completed" : "pending";
+  const assignee = filters.assignedTo?.[0]?.toString() ?? ALL;
+  const advancedCount = ADVANCED_FILTER_KEYS.filter(key => isActive(filters[key])).length;
+  // A situação (pendentes/concluídas) tem seletor próprio e não conta como filtro a limpar
+  const hasFilters = Object.entries(filters).some(([key, value]) => key !== "completed" && isActive(value));
+
+  const nameOf = (options: NamedOption[], id: number) => {
+    const option = options.find(item => item.id === id);
+    return option ? option.shortName || option.name : `#${id}`;
+  };
+  const labelOf = (options: { value: string; label: string }[], value: string) =>
+    options.find(option => option.value === value)?.label ?? value;
+
+  // Filtros ativos exibidos como etiquetas removíveis
+  const chips: { key: string; label: string; remove: () => void }[] = [];
+  filters.assignedTo?.forEach(value => chips.push({
+    key: `assignee-${value}`,
+    label: `Responsável: ${value === "me" ? "eu" : value === "none" ? "ninguém" : nameOf(users, value)}`,
+    remove: () => onChange({ assignedTo: toggle(filters.assignedTo, value) })
+  }));
+  filters.projectId?.forEach(id => chips.push({
+    key: `project-${id}`,
+    label: `Projeto: ${nameOf(projects, id)}`,
+    remove: () => onChange({ projectId: toggle(filters.projectId, id) })
+  }));
+  filters.clientId?.forEach(id => chips.push({
+    key: `client-${id}`,
+    label: `Cliente: ${nameOf(clients, id)}`,
+    remove: () => onChange({ clientId: toggle(filters.clientId, id) })
+  }));
+  filters.priority?.forEach(value => chips.push({
+    key: `priority-${value}`,
+    label: `Prioridade: ${labelOf(TASK_PRIORITY_OPTIONS, value)}`,
+    remove: () => onChange({ priority: toggle(filters.priority, value) })
+  }));
+  filters.status?.forEach(value => chips.push({
+    key: `status-${value}`,
+    label: `Status: ${labelOf(TASK_STATUS_OPTIONS, value)}`,
+    remove: () => onChange({ status: toggle(filters.status, value) })
+  }));
+  filters.tags?.forEach(tag => chips.push({
+    key: `tag-${tag}`,
+    label: `#${tag}`,
+    remove: () => onChange({ tags: toggle(filters.tags, tag) })
+  }));
+  if (filters.duePeriod) {
+    chips.push({ key: "due-period", label: TASK_DUE_PERIOD_LABELS[filters.duePeriod], remove: () => onChange({ duePeriod: undefined }) });
+  }
+  if (filters.dueFrom) {
+    chips.push({ key: "due-from", label: `Prazo a partir de ${filters.dueFrom.split("-").reverse().join("/")}`, remove: () => onChange({ dueFrom: undefined }) });
+  }
+  if (filters.dueTo) {
+    chips.push({ key: "due-to", label: `Prazo até ${filters.dueTo.split("-").reverse().join("/")}`, remove: () => onChange({ dueTo: undefined }) });
+  }
+  if (filters.overdue) {
+    chips.push({ key: "overdue", label: "Atrasadas", remove: () => onChange({ overdue: undefined }) });
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-full sm:w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Buscar tarefas..."
+            className="pl-9 bg-gray-50 border-gray-200"
+            value={searchDraft}
+            onChange={(e) => setSearchDraft(e.target.value)}
+          />
+        </div>
+
+        <Select
+          value={situation}
+          onValueChange={(value) => onChange({ completed: value === ALL ? undefined : value === "completed" })}
+        >
+          <SelectTrigger className="w-full sm:w-36 bg-gray-50 border-gray-200">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pendentes</SelectItem>
+            <SelectItem value="completed">Concluídas</SelectItem>
+            <SelectItem value={ALL}>Todas</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={assignee}
+          onValueChange={(value) => onChange({
+            assignedTo: value === ALL ? undefined : [value === "me" || value === "none" ? value : parseInt(value)]
+          })}
+        >
+          <SelectTrigger className="w-full sm:w-44 bg-gray-50 border-gray-200">
+            <SelectValue placeholder="Responsável" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os responsáveis</SelectItem>
+            <SelectItem value="me">Minhas tarefas</SelectItem>
+            <SelectItem value="none">Sem responsável</SelectItem>
+            {users.map(user => (
+              <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="bg-gray-50 border-gray-200">
+              <Filter className="h-4 w-4 mr-2" />
+              Filtros
+              {advancedCount > 0 && (
+                <Badge variant="secondary" className="ml-2 h-5 px-1.5">{advancedCount}</Badge>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-[340px] space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Projeto</Label>
+                <Select
+                  value={filters.projectId?.[0]?.toString() ?? ALL}
+                  onValueChange={(value) => onChange({ projectId: value === ALL ? undefined : [parseInt(value)] })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id.toString()}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Cliente</Label>
+                <Select
+                  value={filters.clientId?.[0]?.toString() ?? ALL}
+                  onValueChange={(value) => onChange({ clientId: value === ALL ? undefined : [parseInt(value)] })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos</SelectItem>
+                    {clients.map(client => (
+                      <SelectItem key={client.id} value={client.id.toString()}>{client.shortName || client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Prioridade</Label>
+              <div className="flex flex-wrap gap-1">
+                {TASK_PRIORITY_OPTIONS.map(option => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    size="sm"
+                    variant={filters.priority?.includes(option.value) ? "default" : "outline"}
+                    className="h-7 text-xs"
+                    onClick={() => onChange({ priority: toggle(filters.priority, option.value) })}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Status</Label>
+              <div className="flex flex-wrap gap-1">
+                {TASK_STATUS_OPTIONS.map(option => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    size="sm"
+                    variant={filters.status?.includes(option.value) ? "default" : "outline"}
+                    className="h-7 text-xs"
+                    onClick={() => onChange({ status: toggle(filters.status, option.value) })}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Prazo</Label>
+              <Select
+                value={filters.duePeriod ?? ALL}
+                onValueChange={(value) => onChange({ duePeriod: value === ALL ? undefined : value as TaskDuePeriod })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Qualquer prazo</SelectItem>
+                  {TASK_DUE_PERIODS.map(period => (
+                    <SelectItem key={period} value={period}>{TASK_DUE_PERIOD_LABELS[period]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  className="h-8 text-xs"
+                  value={filters.dueFrom ?? ""}
+                  onChange={(e) => onChange({ dueFrom: e.target.value || undefined })}
+                  aria-label="Prazo a partir de"
+                />
+                <Input
+                  type="date"
+                  className="h-8 text-xs"
+                  value={filters.dueTo ?? ""}
+                  onChange={(e) => onChange({ dueTo: e.target.value || undefined })}
+                  aria-label="Prazo até"
+                />
+              </div>
+              <label className="flex items-center gap-2 pt-1 text-xs">
+                <Checkbox
+                  checked={!!filters.overdue}
+                  onCheckedChange={(checked) => onChange({ overdue: checked === true ? true : undefined })}
+                />
+                Somente atrasadas
+              </label>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Etiquetas</Label>
+              <TaskTagsInput
+                value={filters.tags}
+                onChange={(tags) => onChange({ tags: tags.length > 0 ? tags : undefined })}
+                placeholder="Filtrar por etiqueta..."
+              />
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        {hasFilters && (
+          <Button variant="ghost" size="sm" className="text-xs text-muted-foreground" onClick={onClear}>
+            Limpar filtros
+          </Button>
+        )}
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {chips.map(chip => (
+            <Badge key={chip.key} variant="outline" className="gap-1 pr-1 font-normal bg-white">
+              {chip.label}
+              <button
+                type="button"
+                className="rounded-sm opacity-60 hover:opacity-100"
+                onClick={chip.remove}
+                aria-label={`Remover filtro ${chip.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Check, ChevronDown, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { SaveTaskViewInput, TaskListFilters, TaskSortDirection, TaskSortField, TaskView } from "@shared/schema";
+
+interface TaskSavedViewsMenuProps {
+  filters: TaskListFilters;
+  sortBy: TaskSortField;
+  sortDir: TaskSortDirection;
+  activeViewId: number | null;
+  onApply: (view: TaskView) => void;
+  onReset: () => void;
+}
+
+const VIEWS_KEY = "/api/task-views";
+
+/**
+ * Visões salvas da lista de tarefas do usuário: aplicar, salvar os filtros e a
+ * ordenação atuais com um nome, atualizar ou excluir a visão ativa
+ */
+export function TaskSavedViewsMenu({ filters, sortBy, sortDir, activeViewId, onApply, onReset }: TaskSavedViewsMenuProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: views = [] } = useQuery<TaskView[]>({ queryKey: [VIEWS_KEY] });
+  const activeView = views.find(view => view.id === activeViewId) ?? null;
+
+  const current = (viewName: string): SaveTaskViewInput => ({ name: viewName, filters, sort_by: sortBy, sort_dir: sortDir });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: SaveTaskViewInput) => {
+      const res = await apiRequest("POST", VIEWS_KEY, input);
+      return res.json() as Promise<TaskView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: [VIEWS_KEY] });
+      onApply(view);
+      setDialogOpen(false);
+      toast({ title: "Visão salva", description: `"${view.name}" foi adicionada às suas visões.` });
+    },
+    onError: onError("Erro ao salvar visão")
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, input }: { id: number; input: SaveTaskViewInput }) => {
+      const res = await apiRequest("PUT", `${VIEWS_KEY}/${id}`, input);
+      return res.json() as Promise<TaskView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: [VIEWS_KEY] });
+      toast({ title: "Visão atualizada", description: `"${view.name}" agora usa os filtros atuais.` });
+    },
+    onError: onError("Erro ao atualizar visão")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${VIEWS_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [VIEWS_KEY] });
+      onReset();
+      toast({ title: "Visão excluída" });
+    },
+    onError: onError("Erro ao excluir visão")
+  });
+
+  const openSaveDialog = () => {
+    setName("");
+    setDialogOpen(true);
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) createMutation.mutate(current(name.trim()));
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="bg-gray-50 border-gray-200 max-w-[260px]">
+            <Bookmark className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{activeView ? activeView.name : "Visões"}</span>
+            <ChevronDown className="h-4 w-4 ml-2 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Minhas visões</DropdownMenuLabel>
+          <DropdownMenuItem onClick={onReset}>
+            <Check className={`h-4 w-4 mr-2 ${activeView ? "invisible" : ""}`} />
+            Todas as tarefas pendentes
+          </DropdownMenuItem>
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onClick={() => onApply(view)}>
+              <Check className={`h-4 w-4 mr-2 ${view.id === activeViewId ? "" : "invisible"}`} />
+              <span className="truncate">{view.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Salvar filtros como nova visão...
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem
+                disabled={updateMutation.isPending}
+                onClick={() => updateMutation.mutate({ id: activeView.id, input: current(activeView.name) })}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Atualizar "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-red-600"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(activeView.id)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Excluir visão
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Salvar visão</DialogTitle>
+              <DialogDescription>
+                Os filtros e a ordenação atuais ficam salvos com este nome. Prazos relativos,
+                como "esta semana", são recalculados sempre que a visão é aberta.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="task-view-name">Nome</Label>
+              <Input
+                id="task-view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex.: Minhas tarefas críticas desta semana"
+                maxLength={80}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+                Salvar visão
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
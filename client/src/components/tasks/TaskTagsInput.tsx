@@ -0,0 +1,65 @@
+import { useState, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { normalizeTaskTags, TASK_TAGS_MAX } from "@shared/schema";
+
+interface TaskTagsInputProps {
+  value: string[] | null | undefined;
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Campo de etiquetas: Enter ou vírgula adiciona a etiqueta digitada, Backspace
+ * com o campo vazio remove a última
+ */
+export function TaskTagsInput({ value, onChange, placeholder = "Adicionar etiqueta...", className }: TaskTagsInputProps) {
+  const [draft, setDraft] = useState("");
+  const tags = value ?? [];
+
+  const commit = () => {
+    if (!draft.trim()) return;
+    onChange(normalizeTaskTags([...tags, draft]));
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Backspace" && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1", className)}>
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="gap-1 pr-1 font-normal">
+          {tag}
+          <button
+            type="button"
+            className="rounded-sm opacity-60 hover:opacity-100"
+            onClick={() => onChange(tags.filter(item => item !== tag))}
+            aria-label={`Remover etiqueta ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {tags.length < TASK_TAGS_MAX && (
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+          placeholder={tags.length === 0 ? placeholder : ""}
+          className="h-7 min-w-[120px] flex-1 border-0 p-0 shadow-none focus-visible:ring-0"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export * from './TaskTagsInput';
+export * from './TaskFilterBar';
+export * from './TaskSavedViewsMenu';
@@ -5,15 +5,37 @@ import {
   UseMutationResult,
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { getQueryFn, apiRequest, queryClient, parseApiError } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { showSuccessToast } from "@/lib/utils";
 
-type AuthResponse = {
+export type AuthResponse = {
   user: SelectUser;
   token: string;
 };
 
+// Login com 2FA: a senha foi aceita, mas a sessão depende do segundo passo
+export type TwoFactorChallenge = {
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken: string;
+};
+
+type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+type TwoFactorLoginData = {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+};
+
+// O cadastro não inicia a sessão: a conta precisa ser confirmada pelo link enviado por email
+type RegisterResponse = {
+  message: string;
+  requiresVerification: boolean;
+  email: string;
+};
+
 type PasswordChangeData = {
   currentPassword: string;
   newPassword: string;
@@ -23,9 +45,11 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<AuthResponse, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<AuthResponse, Error, TwoFactorLoginData>;
+  completeLogin: (data: AuthResponse) => void;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<AuthResponse, Error, InsertUser>;
+  registerMutation: UseMutationResult<RegisterResponse, Error, InsertUser>;
   updateProfileMutation: UseMutationResult<SelectUser, Error, Partial<SelectUser>>;
   changePasswordMutation: UseMutationResult<{ message: string, user: SelectUser }, Error, PasswordChangeData>;
 };
@@ -49,39 +73,55 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refetchOnWindowFocus: false,
   });
 
+  // Sessão aberta pelo servidor (login direto ou após o segundo fator)
+  const completeLogin = (data: AuthResponse) => {
+    queryClient.setQueryData(["/api/auth/me"], data);
+    // O token agora é armazenado em cookies HTTP-only pelo servidor
+    showSuccessToast({
+      title: "Login bem-sucedido",
+      description: `Bem-vindo de volta, ${data.user.name}!`
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/auth/login", credentials);
-      return await res.json();
+      return await res.json() as LoginResponse;
     },
-    onSuccess: (data: { user: SelectUser, token: string }) => {
-      queryClient.setQueryData(["/api/auth/me"], data);
-      // O token agora é armazenado em cookies HTTP-only pelo servidor
-      showSuccessToast({
-        title: "Login bem-sucedido",
-        description: `Bem-vindo de volta, ${data.user.name}!`
-      });
+    onSuccess: (data: LoginResponse) => {
+      // Com 2FA, a tela de login conduz o segundo passo a partir do desafio
+      if ("user" in data) {
+        completeLogin(data);
+      }
     },
     onError: (error: Error) => {
       toast({
         title: "Falha no login",
-        description: error.message || "Credenciais inválidas",
+        description: parseApiError(error).message || "Credenciais inválidas",
         variant: "destructive",
       });
     },
   });
 
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login/2fa", data);
+      return await res.json() as AuthResponse;
+    },
+    onSuccess: (data: AuthResponse) => {
+      completeLogin(data);
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (userData: InsertUser) => {
       const res = await apiRequest("POST", "/api/auth/register", userData);
       return await res.json();
     },
-    onSuccess: (data: { user: SelectUser, token: string }) => {
-      queryClient.setQueryData(["/api/auth/me"], data);
-      // O token agora é armazenado em cookies HTTP-only pelo servidor
+    onSuccess: (data: RegisterResponse) => {
       showSuccessToast({
         title: "Registro bem-sucedido",
-        description: `Bem-vindo, ${data.user.name}!`
+        description: data.message
       });
     },
     onError: (error: Error) => {
@@ -185,6 +225,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
+        completeLogin,
         logoutMutation,
         registerMutation,
         updateProfileMutation,
@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import type { Query } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { onRealtimeEvent } from '@/lib/socket';
+import type { EntityChangedEvent } from '@shared/realtime';
+
+// Alterações que chegam juntas (ex.: projeto + fatura gerada) viram uma única invalidação
+const INVALIDATION_DELAY_MS = 300;
+
+/**
+ * Prefixos das query keys afetadas por uma alteração. As chaves seguem a URL da API,
+ * então '/api/projects' cobre também '/api/projects/12' e '/api/projects/12/members'.
+ */
+function affectedPrefixes({ entity, action, projectId, clientId }: EntityChangedEvent): string[] {
+  // O registro de atividades (/api/activity e as linhas do tempo) acompanha todas as entidades
+  const prefixes: string[] = ['/api/activity'];
+  const related = () => {
+    if (projectId) prefixes.push(`/api/projects/${projectId}`, `/api/financial-documents/project/${projectId}`);
+    if (clientId) prefixes.push(`/api/clients/${clientId}`);
+  };
+
+  switch (entity) {
+    case 'project':
+      prefixes.push('/api/projects', '/api/financial-documents', '/api/financial-reports', '/api/events', '/api/calendar');
+      related();
+      if (action === 'deleted') prefixes.push('/api/tasks');
+      break;
+    case 'task':
+      // A carga de trabalho da equipe é calculada a partir das tarefas
+      prefixes.push('/api/tasks', '/api/users');
+      related();
+      break;
+    case 'client':
+      prefixes.push('/api/clients');
+      if (action === 'deleted') prefixes.push('/api/projects', '/api/tasks', '/api/financial-documents', '/api/financial-reports');
+      break;
+    case 'financial_document':
+      prefixes.push('/api/financial-documents', '/api/financial-reports', '/api/events', '/api/calendar', '/api/bank-reconciliation');
+      related();
+      break;
+    case 'expense':
+      prefixes.push('/api/expenses', '/api/financial-reports', '/api/events', '/api/calendar', '/api/bank-reconciliation');
+      related();
+      break;
+    case 'event':
+      prefixes.push('/api/events', '/api/calendar');
+      break;
+  }
+
+  return prefixes;
+}
+
+/**
+ * Mantém o cache do React Query em dia com as alterações feitas por outros usuários
+ * (ou em outras abas), invalidando as consultas ligadas à entidade alterada.
+ */
+export function useEntityChangeSync() {
+  useEffect(() => {
+    const pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      const prefixes = Array.from(pending);
+      pending.clear();
+
+      queryClient.invalidateQueries({
+        predicate: (query: Query) => {
+          const [key] = query.queryKey;
+          return typeof key === 'string' && prefixes.some(prefix => key.startsWith(prefix));
+        }
+      });
+    };
+
+    const unsubscribe = onRealtimeEvent('entity_changed', (event) => {
+      affectedPrefixes(event).forEach(prefix => pending.add(prefix));
+      if (!timer) {
+        timer = setTimeout(flush, INVALIDATION_DELAY_MS);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+}
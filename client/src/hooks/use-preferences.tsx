@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import type { NotificationPreferences } from "@shared/schema";
 
 // Tipos para preferências do usuário
 type ThemeType = "light" | "dark" | "system";
@@ -18,6 +19,7 @@ export interface UserPreference {
   sidebar_collapsed: boolean;
   dashboard_widgets: string[];
   quick_actions: string[];
+  notification_preferences?: NotificationPreferences;
   updated_at?: Date;
 }
 
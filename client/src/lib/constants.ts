@@ -101,22 +101,8 @@ export const PRIORITY_COLOR_CLASSES = {
   default: "bg-gray-500"
 };
 
-// Valores numéricos para ordenação de prioridades
-export const TASK_PRIORITY_WEIGHTS = {
-  critica: 40,
-  alta: 30,
-  media: 20,
-  baixa: 10
-};
-
-// Valores numéricos para ordenação de status
-export const TASK_STATUS_WEIGHTS = {
-  bloqueada: 40,
-  pendente: 30,
-  em_andamento: 20,
-  concluido: 10,
-  cancelada: 0
-};
+// Pesos de ordenação de prioridade e status (compartilhados com a ordenação do servidor)
+export { TASK_PRIORITY_WEIGHTS, TASK_STATUS_WEIGHTS } from "@shared/schema";
 
 export const DOCUMENT_TYPE_OPTIONS = [
   { value: "invoice", label: "Fatura" },
@@ -191,7 +177,8 @@ export const TEAM_ROLE_OPTIONS = [
   { value: "direcao_foto", label: "Direção de Foto" },
   { value: "assistente_foto", label: "Assistente de Foto" },
   { value: "culinarista", label: "Culinarista" },
-  { value: "apresentadora", label: "Apresentadora" }
+  { value: "apresentadora", label: "Apresentadora" },
+  { value: "observer", label: "Observador (somente leitura)" }
 ];
 
 export const DEPARTMENT_OPTIONS = [
@@ -7,6 +7,23 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/**
+ * Extrai status, mensagem e código do erro lançado por uma requisição com falha
+ * (formato "<status>: <corpo da resposta>")
+ */
+export function parseApiError(error: Error): { status?: number; message: string; code?: string } {
+  const match = error.message.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) return { message: error.message };
+
+  const status = parseInt(match[1]);
+  try {
+    const body = JSON.parse(match[2]);
+    return { status, message: body.message || match[2], code: body.code };
+  } catch {
+    return { status, message: match[2] };
+  }
+}
+
 // Objeto global para armazenar listeners de websocket para invalidação de cache
 export const cacheInvalidationListeners: { [key: string]: (() => void)[] } = {};
 
@@ -17,7 +34,7 @@ function getAuthHeaders(hasContentType: boolean = false): HeadersInit {
 }
 
 // Função para renovar o token expirado
-async function refreshToken(): Promise<boolean> {
+export async function refreshToken(): Promise<boolean> {
   try {
     const res = await fetch('/api/auth/refresh', {
       method: 'POST',
@@ -1,6 +1,6 @@
 import { 
   User, Client, Project, ProjectMember, ProjectStage,
-  Task, TaskComment, TaskAttachment, ClientInteraction,
+  Task, EntityComment, TaskAttachment, ClientInteraction,
   FinancialDocument, Expense, Event 
 } from "@shared/schema";
 
@@ -17,8 +17,9 @@ export interface ProjectWithDetails extends Project {
 
 export interface TaskWithDetails extends Task {
   project?: ProjectWithClient;
+  client?: Pick<Client, 'id' | 'name' | 'shortName'>; // Cliente do projeto (listas de tarefas)
   assignedUser?: User;
-  comments?: (TaskComment & { user?: User })[];
+  comments?: (EntityComment & { user?: User })[];
   attachments?: TaskAttachment[];
   _isOptimistic?: boolean; // Flag para indicar que é uma tarefa em estado otimista (ainda não confirmada pelo servidor)
 }
@@ -1,17 +1,21 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { insertUserSchema } from "@shared/schema";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, type AuthResponse, type TwoFactorChallenge } from "@/hooks/use-auth";
+import { TwoFactorCodeInput, TwoFactorEnrollment, RecoveryCodesList, type TwoFactorEnrollmentData } from "@/components/TwoFactorSetup";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
 
 // UI Components
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { EyeIcon, EyeOffIcon, KeyRound, Lock, User, Users } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, CheckCircle2, EyeIcon, EyeOffIcon, KeyRound, Loader2, Lock, Mail, ShieldCheck, User, Users, XCircle } from "lucide-react";
 
 // Validação para o formulário de login
 const loginSchema = z.object({
@@ -29,21 +33,438 @@ const registerSchema = insertUserSchema.extend({
   path: ["confirmPassword"],
 });
 
+// Solicitação por email (esqueci a senha / reenviar confirmação)
+const emailRequestSchema = z.object({
+  email: z.string().email("Email inválido"),
+});
+
+// Nova senha definida a partir do link de redefinição
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
 type LoginFormValues = z.infer<typeof loginSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
+type EmailRequestFormValues = z.infer<typeof emailRequestSchema>;
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+// Telas do painel de autenticação além das abas de login/registro
+type AuthView = "tabs" | "forgot" | "resend" | "registered" | "reset" | "verify" | "two-factor" | "two-factor-setup";
+
+interface EmailRequestFormProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  endpoint: string;
+  defaultEmail?: string;
+  onBack: () => void;
+}
+
+/**
+ * Formulário que envia um email ao usuário (redefinição de senha ou confirmação de cadastro).
+ * A resposta do servidor é sempre genérica para não revelar quais emails estão cadastrados.
+ */
+function EmailRequestForm({ title, description, submitLabel, endpoint, defaultEmail = "", onBack }: EmailRequestFormProps) {
+  const form = useForm<EmailRequestFormValues>({
+    resolver: zodResolver(emailRequestSchema),
+    defaultValues: { email: defaultEmail },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: EmailRequestFormValues) => {
+      const res = await apiRequest("POST", endpoint, data);
+      return await res.json() as { message: string };
+    },
+  });
+
+  return (
+    <div>
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold mb-2">{title}</h2>
+        <p className="text-gray-500">{description}</p>
+      </div>
+
+      {requestMutation.isSuccess ? (
+        <Alert className="mb-6">
+          <Mail className="h-4 w-4" />
+          <AlertDescription>{requestMutation.data.message}</AlertDescription>
+        </Alert>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                        <Mail className="h-5 w-5 text-gray-400" />
+                      </div>
+                      <Input placeholder="seu@email.com" className="pl-10" {...field} />
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {requestMutation.isError && (
+              <p className="text-sm text-destructive">{parseApiError(requestMutation.error).message}</p>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full bg-rose-500 hover:bg-rose-600"
+              disabled={requestMutation.isPending}
+            >
+              {requestMutation.isPending ? "Enviando..." : submitLabel}
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <div className="mt-4 text-center">
+        <Button variant="link" className="text-sm text-rose-500" onClick={onBack}>
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Voltar para o login
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Definição de nova senha a partir do link enviado por email
+ */
+function ResetPasswordForm({ token, onDone }: { token: string; onDone: () => void }) {
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/auth/reset-password", { token, password: data.password });
+      return await res.json() as { message: string };
+    },
+  });
+
+  return (
+    <div>
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold mb-2">Redefinir senha</h2>
+        <p className="text-gray-500">Escolha uma nova senha para a sua conta</p>
+      </div>
+
+      {resetMutation.isSuccess ? (
+        <Alert className="mb-6">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>{resetMutation.data.message}</AlertDescription>
+        </Alert>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nova senha</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Nova senha" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirme a nova senha</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Confirme a nova senha" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {resetMutation.isError && (
+              <p className="text-sm text-destructive">{parseApiError(resetMutation.error).message}</p>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full bg-rose-500 hover:bg-rose-600"
+              disabled={resetMutation.isPending}
+            >
+              {resetMutation.isPending ? "Salvando..." : "Redefinir senha"}
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <div className="mt-4 text-center">
+        <Button variant="link" className="text-sm text-rose-500" onClick={onDone}>
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Voltar para o login
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Segundo passo do login: código do app autenticador ou código de recuperação
+ */
+function TwoFactorLoginStep({ challenge, onBack }: { challenge: TwoFactorChallenge; onBack: () => void }) {
+  const { twoFactorLoginMutation } = useAuth();
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const error = twoFactorLoginMutation.isError ? parseApiError(twoFactorLoginMutation.error) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    twoFactorLoginMutation.mutate(
+      useRecovery
+        ? { challengeToken: challenge.challengeToken, recoveryCode }
+        : { challengeToken: challenge.challengeToken, code },
+      { onError: () => setCode("") }
+    );
+  };
+
+  return (
+    <div>
+      <div className="text-center mb-8">
+        <ShieldCheck className="mx-auto mb-3 h-10 w-10 text-rose-500" />
+        <h2 className="text-2xl font-bold mb-2">Verificação em dois fatores</h2>
+        <p className="text-gray-500">
+          {useRecovery
+            ? "Informe um dos seus códigos de recuperação"
+            : "Informe o código de 6 dígitos do seu app autenticador"}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="flex justify-center">
+          {useRecovery ? (
+            <Input
+              placeholder="XXXXX-XXXXX"
+              className="text-center font-mono tracking-wider"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              autoFocus
+            />
+          ) : (
+            <TwoFactorCodeInput value={code} onChange={setCode} disabled={twoFactorLoginMutation.isPending} />
+          )}
+        </div>
+
+        {error && <p className="text-center text-sm text-destructive">{error.message}</p>}
+
+        <Button
+          type="submit"
+          className="w-full bg-rose-500 hover:bg-rose-600"
+          disabled={twoFactorLoginMutation.isPending || (useRecovery ? !recoveryCode.trim() : code.length !== 6)}
+        >
+          {twoFactorLoginMutation.isPending ? "Verificando..." : "Verificar"}
+        </Button>
+      </form>
+
+      <div className="mt-4 flex flex-col items-center gap-1">
+        <Button
+          variant="link"
+          className="text-sm text-rose-500"
+          onClick={() => {
+            setUseRecovery(!useRecovery);
+            twoFactorLoginMutation.reset();
+          }}
+        >
+          {useRecovery ? "Usar o app autenticador" : "Usar um código de recuperação"}
+        </Button>
+        <Button variant="link" className="text-sm text-gray-500" onClick={onBack}>
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Voltar para o login
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Ativação obrigatória do 2FA durante o login (política para administradores e financeiro)
+ */
+function TwoFactorSetupLoginStep({ challenge, onBack }: { challenge: TwoFactorChallenge; onBack: () => void }) {
+  const { completeLogin } = useAuth();
+  const [code, setCode] = useState("");
+  const [session, setSession] = useState<AuthResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const enrollMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/login/2fa/setup", { challengeToken: challenge.challengeToken });
+      return await res.json() as TwoFactorEnrollmentData;
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/login/2fa/setup/confirm", { challengeToken: challenge.challengeToken, code });
+      return await res.json() as AuthResponse & { recoveryCodes: string[] };
+    },
+    onSuccess: ({ recoveryCodes, ...auth }) => {
+      setRecoveryCodes(recoveryCodes);
+      setSession(auth);
+    },
+    onError: () => setCode(""),
+  });
+
+  useEffect(() => {
+    enrollMutation.mutate();
+  }, [challenge.challengeToken]);
+
+  return (
+    <div>
+      <div className="text-center mb-6">
+        <ShieldCheck className="mx-auto mb-3 h-10 w-10 text-rose-500" />
+        <h2 className="text-2xl font-bold mb-2">
+          {session ? "Códigos de recuperação" : "Ative a verificação em dois fatores"}
+        </h2>
+        {!session && (
+          <p className="text-gray-500">
+            Seu perfil de acesso exige a verificação em dois fatores para entrar no sistema.
+          </p>
+        )}
+      </div>
+
+      {session ? (
+        <div className="space-y-6">
+          <RecoveryCodesList codes={recoveryCodes} />
+          <Button className="w-full bg-rose-500 hover:bg-rose-600" onClick={() => completeLogin(session)}>
+            Guardei meus códigos, continuar
+          </Button>
+        </div>
+      ) : enrollMutation.isSuccess ? (
+        <TwoFactorEnrollment
+          enrollment={enrollMutation.data}
+          code={code}
+          onCodeChange={setCode}
+          onConfirm={() => confirmMutation.mutate()}
+          isConfirming={confirmMutation.isPending}
+          error={confirmMutation.isError ? parseApiError(confirmMutation.error).message : null}
+        />
+      ) : enrollMutation.isError ? (
+        <p className="text-center text-sm text-destructive">{parseApiError(enrollMutation.error).message}</p>
+      ) : (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      )}
+
+      {!session && (
+        <div className="mt-4 text-center">
+          <Button variant="link" className="text-sm text-gray-500" onClick={onBack}>
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Voltar para o login
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Confirmação do email de cadastro a partir do link enviado por email
+ */
+function VerifyEmail({ token, onDone, onResend }: { token: string; onDone: () => void; onResend: () => void }) {
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/verify-email", { token });
+      return await res.json() as { message: string };
+    },
+  });
+
+  useEffect(() => {
+    verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="text-center">
+      <h2 className="text-2xl font-bold mb-6">Confirmação de email</h2>
+
+      {verifyMutation.isSuccess ? (
+        <div className="space-y-4">
+          <CheckCircle2 className="mx-auto h-12 w-12 text-green-500" />
+          <p className="text-gray-600">{verifyMutation.data.message}</p>
+          <Button className="w-full bg-rose-500 hover:bg-rose-600" onClick={onDone}>
+            Ir para o login
+          </Button>
+        </div>
+      ) : verifyMutation.isError ? (
+        <div className="space-y-4">
+          <XCircle className="mx-auto h-12 w-12 text-destructive" />
+          <p className="text-gray-600">{parseApiError(verifyMutation.error).message}</p>
+          <Button variant="outline" className="w-full" onClick={onResend}>
+            Reenviar email de confirmação
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-3 text-gray-500">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <p>Confirmando seu email...</p>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function AuthPage() {
   const [location, setLocation] = useLocation();
+  const search = useSearch();
   const { user, loginMutation, registerMutation } = useAuth();
   const [activeTab, setActiveTab] = useState<string>("login");
   const [showPassword, setShowPassword] = useState(false);
 
+  // Links enviados por email abrem /auth?reset=<token> ou /auth?verify=<token>
+  const searchParams = new URLSearchParams(search);
+  const resetToken = searchParams.get("reset");
+  const verifyToken = searchParams.get("verify");
+  const [view, setView] = useState<AuthView>(resetToken ? "reset" : verifyToken ? "verify" : "tabs");
+  const [pendingEmail, setPendingEmail] = useState("");
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+
   // Redirecionamento se já estiver autenticado usando useEffect
   useEffect(() => {
-    if (user) {
+    if (user && !resetToken && !verifyToken) {
       setLocation("/");
     }
-  }, [user, setLocation]);
+  }, [user, resetToken, verifyToken, setLocation]);
+
+  // Login recusado porque o email ainda não foi confirmado
+  const loginRequiresVerification = loginMutation.isError &&
+    parseApiError(loginMutation.error).code === "EMAIL_NOT_VERIFIED";
+
+  // Voltar para o login limpando os tokens da URL
+  const backToLogin = () => {
+    setView("tabs");
+    setTwoFactorChallenge(null);
+    loginMutation.reset();
+    setActiveTab("login");
+    if (resetToken || verifyToken) {
+      setLocation("/auth");
+    }
+  };
 
   // Formulário de login
   const loginForm = useForm<LoginFormValues>({
@@ -71,14 +492,29 @@ export default function AuthPage() {
 
   // Submissão do formulário de login
   const onLoginSubmit = (data: LoginFormValues) => {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (response) => {
+        // Senha aceita, mas a sessão depende do segundo fator
+        if ("challengeToken" in response) {
+          setTwoFactorChallenge(response);
+          setView(response.twoFactorSetupRequired ? "two-factor-setup" : "two-factor");
+          loginForm.resetField("password");
+        }
+      },
+    });
   };
 
   // Submissão do formulário de registro
   const onRegisterSubmit = (data: RegisterFormValues) => {
     // Remover confirmPassword antes de enviar
     const { confirmPassword, ...userData } = data;
-    registerMutation.mutate(userData);
+    registerMutation.mutate(userData, {
+      onSuccess: (response) => {
+        setPendingEmail(response.email);
+        setView("registered");
+        registerForm.reset();
+      },
+    });
   };
 
   // Alternar visibilidade da senha
@@ -127,213 +563,289 @@ export default function AuthPage() {
       {/* Formulário */}
       <div className="flex items-center justify-center w-full lg:w-1/2 px-6 py-8">
         <div className="w-full max-w-md">
-          <div className="text-center mb-8">
-            <h2 className="text-2xl font-bold mb-2">Entrar</h2>
-            <p className="text-gray-500">Faça login com suas credenciais</p>
-          </div>
+          {view === "forgot" && (
+            <EmailRequestForm
+              title="Esqueceu sua senha?"
+              description="Informe seu email e enviaremos um link para redefinir a senha"
+              submitLabel="Enviar link de redefinição"
+              endpoint="/api/auth/forgot-password"
+              onBack={backToLogin}
+            />
+          )}
+
+          {view === "resend" && (
+            <EmailRequestForm
+              title="Confirmar email"
+              description="Informe o email do cadastro para receber um novo link de confirmação"
+              submitLabel="Reenviar confirmação"
+              endpoint="/api/auth/resend-verification"
+              defaultEmail={pendingEmail}
+              onBack={backToLogin}
+            />
+          )}
+
+          {view === "registered" && (
+            <div className="text-center space-y-4">
+              <Mail className="mx-auto h-12 w-12 text-rose-500" />
+              <h2 className="text-2xl font-bold">Confirme seu email</h2>
+              <p className="text-gray-500">
+                Enviamos um link de confirmação para <span className="font-medium text-gray-700">{pendingEmail}</span>.
+                Abra o link para ativar sua conta e depois faça login.
+              </p>
+              <div className="flex flex-col gap-2">
+                <Button className="w-full bg-rose-500 hover:bg-rose-600" onClick={backToLogin}>
+                  Ir para o login
+                </Button>
+                <Button variant="link" className="text-sm text-rose-500" onClick={() => setView("resend")}>
+                  Não recebeu? Reenviar email
+                </Button>
+              </div>
+            </div>
+          )}
 
-          <div className="mb-6">
-            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-2 mb-10">
-                <TabsTrigger value="login" className="rounded-md">Login</TabsTrigger>
-                <TabsTrigger value="register" className="rounded-md">Registrar</TabsTrigger>
-              </TabsList>
-
-              {/* Tab de Login */}
-              <TabsContent value="login" className="mt-0">
-                <Form {...loginForm}>
-                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-6">
-                    <FormField
-                      control={loginForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <div className="relative">
-                              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-                                <User className="h-5 w-5 text-gray-400" />
-                              </div>
-                              <Input 
-                                placeholder="Seu username" 
-                                className="pl-10" 
-                                {...field} 
-                              />
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={loginForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Senha</FormLabel>
-                          <FormControl>
-                            <div className="relative">
-                              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-                                <KeyRound className="h-5 w-5 text-gray-400" />
-                              </div>
-                              <Input
-                                type={showPassword ? "text" : "password"}
-                                placeholder="Sua senha"
-                                className="pl-10 pr-10"
-                                {...field}
-                              />
+          {view === "reset" && resetToken && (
+            <ResetPasswordForm token={resetToken} onDone={backToLogin} />
+          )}
+
+          {view === "two-factor" && twoFactorChallenge && (
+            <TwoFactorLoginStep challenge={twoFactorChallenge} onBack={backToLogin} />
+          )}
+
+          {view === "two-factor-setup" && twoFactorChallenge && (
+            <TwoFactorSetupLoginStep challenge={twoFactorChallenge} onBack={backToLogin} />
+          )}
+
+          {view === "verify" && verifyToken && (
+            <VerifyEmail token={verifyToken} onDone={backToLogin} onResend={() => setView("resend")} />
+          )}
+
+          {view === "tabs" && (
+            <>
+              <div className="text-center mb-8">
+                <h2 className="text-2xl font-bold mb-2">Entrar</h2>
+                <p className="text-gray-500">Faça login com suas credenciais</p>
+              </div>
+
+              <div className="mb-6">
+                <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+                  <TabsList className="grid w-full grid-cols-2 mb-10">
+                    <TabsTrigger value="login" className="rounded-md">Login</TabsTrigger>
+                    <TabsTrigger value="register" className="rounded-md">Registrar</TabsTrigger>
+                  </TabsList>
+
+                  {/* Tab de Login */}
+                  <TabsContent value="login" className="mt-0">
+                    <Form {...loginForm}>
+                      <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-6">
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                                    <User className="h-5 w-5 text-gray-400" />
+                                  </div>
+                                  <Input 
+                                    placeholder="Seu username" 
+                                    className="pl-10" 
+                                    {...field} 
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Senha</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                                    <KeyRound className="h-5 w-5 text-gray-400" />
+                                  </div>
+                                  <Input
+                                    type={showPassword ? "text" : "password"}
+                                    placeholder="Sua senha"
+                                    className="pl-10 pr-10"
+                                    {...field}
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={togglePasswordVisibility}
+                                    className="absolute inset-y-0 right-0 flex items-center pr-3"
+                                  >
+                                    {showPassword ? (
+                                      <EyeOffIcon className="h-5 w-5 text-gray-400" />
+                                    ) : (
+                                      <EyeIcon className="h-5 w-5 text-gray-400" />
+                                    )}
+                                  </button>
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        {loginRequiresVerification && (
+                          <Alert>
+                            <Mail className="h-4 w-4" />
+                            <AlertDescription>
+                              Seu email ainda não foi confirmado.{" "}
                               <button
                                 type="button"
-                                onClick={togglePasswordVisibility}
-                                className="absolute inset-y-0 right-0 flex items-center pr-3"
+                                className="font-medium text-rose-500 underline"
+                                onClick={() => setView("resend")}
                               >
-                                {showPassword ? (
-                                  <EyeOffIcon className="h-5 w-5 text-gray-400" />
-                                ) : (
-                                  <EyeIcon className="h-5 w-5 text-gray-400" />
-                                )}
+                                Reenviar email de confirmação
                               </button>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <Button 
-                      type="submit" 
-                      className="w-full bg-rose-500 hover:bg-rose-600" 
-                      disabled={loginMutation.isPending}
-                    >
-                      {loginMutation.isPending ? "Entrando..." : "Entrar"}
-                    </Button>
-                  </form>
-                </Form>
-
-                <div className="mt-4 text-center">
-                  <Button variant="link" className="text-sm text-rose-500">
-                    Esqueceu sua senha?
-                  </Button>
-                </div>
-              </TabsContent>
-
-              {/* Tab de Registro */}
-              <TabsContent value="register" className="mt-0">
-                <Form {...registerForm}>
-                  <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
-                    <FormField
-                      control={registerForm.control}
-                      name="name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nome Completo</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Seu nome completo" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={registerForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nome de Usuário</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Nome de usuário único" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={registerForm.control}
-                      name="email"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email</FormLabel>
-                          <FormControl>
-                            <Input placeholder="seu@email.com" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <FormField
-                        control={registerForm.control}
-                        name="department"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Departamento</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Seu departamento" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={registerForm.control}
-                        name="position"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Cargo</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Seu cargo" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
+                            </AlertDescription>
+                          </Alert>
                         )}
-                      />
+
+                        <Button 
+                          type="submit" 
+                          className="w-full bg-rose-500 hover:bg-rose-600" 
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending ? "Entrando..." : "Entrar"}
+                        </Button>
+                      </form>
+                    </Form>
+
+                    <div className="mt-4 text-center">
+                      <Button variant="link" className="text-sm text-rose-500" onClick={() => setView("forgot")}>
+                        Esqueceu sua senha?
+                      </Button>
                     </div>
-                    <FormField
-                      control={registerForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Senha</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="password"
-                              placeholder="Crie uma senha"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={registerForm.control}
-                      name="confirmPassword"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Confirme a Senha</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="password"
-                              placeholder="Confirme sua senha"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <Button 
-                      type="submit" 
-                      className="w-full bg-rose-500 hover:bg-rose-600" 
-                      disabled={registerMutation.isPending}
-                    >
-                      {registerMutation.isPending ? "Registrando..." : "Registrar"}
-                    </Button>
-                  </form>
-                </Form>
-              </TabsContent>
-            </Tabs>
-          </div>
+                  </TabsContent>
+
+                  {/* Tab de Registro */}
+                  <TabsContent value="register" className="mt-0">
+                    <Form {...registerForm}>
+                      <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
+                        <FormField
+                          control={registerForm.control}
+                          name="name"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nome Completo</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Seu nome completo" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={registerForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nome de Usuário</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Nome de usuário único" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={registerForm.control}
+                          name="email"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Email</FormLabel>
+                              <FormControl>
+                                <Input placeholder="seu@email.com" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={registerForm.control}
+                            name="department"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Departamento</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Seu departamento" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={registerForm.control}
+                            name="position"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Cargo</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Seu cargo" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <FormField
+                          control={registerForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Senha</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="password"
+                                  placeholder="Crie uma senha"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={registerForm.control}
+                          name="confirmPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Confirme a Senha</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="password"
+                                  placeholder="Confirme sua senha"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button 
+                          type="submit" 
+                          className="w-full bg-rose-500 hover:bg-rose-600" 
+                          disabled={registerMutation.isPending}
+                        >
+                          {registerMutation.isPending ? "Registrando..." : "Registrar"}
+                        </Button>
+                      </form>
+                    </Form>
+                  </TabsContent>
+                </Tabs>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -24,7 +24,7 @@ import { apiRequest } from '@/lib/queryClient';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Calendar as CalendarIcon, Clock, Tag, Info, MapPin, RefreshCw } from 'lucide-react';
-import { initWebSocket, onWebSocketMessage } from '@/lib/socket';
+import { useRealtimeEvent } from '@/contexts/SocketContext';
 import { useAuth } from '@/hooks/use-auth';
 import { showSuccessToast } from '@/lib/utils';
 
@@ -67,84 +67,20 @@ export default function CalendarPage() {
     }
   });
 
-  // Efeito para escutar eventos de calendário via WebSocket
-  useEffect(() => {
-    console.log('Configurando listeners WebSocket na página de calendário...');
+  // Atualizações do calendário feitas por outros usuários ou pela sincronização financeira
+  useRealtimeEvent('calendar_updated', (data) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/events'] });
     
-    // Inicializar WebSocket se ainda não estiver conectado
-    initWebSocket().catch(error => {
-      console.error('Erro ao inicializar WebSocket na página de calendário:', error);
+    showSuccessToast({
+      title: 'Calendário atualizado',
+      description: data.message || 'O calendário foi atualizado automaticamente'
     });
-    
-    // Registrar listeners para os vários formatos possíveis de eventos de calendário
-    const unregisterCalendarUpdateHandler = onWebSocketMessage('calendar_updated', (data) => {
-      console.log('Recebida notificação de atualização do calendário (formato novo):', data);
-      
-      // Atualizar dados do calendário
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-      
-      // Notificar o usuário (optional)
-      showSuccessToast({
-        title: 'Calendário atualizado',
-        description: data.message || 'O calendário foi atualizado automaticamente'
-      });
-    });
-    
-    // Suporte para formato antigo (calendar_update)
-    const unregisterCalendarOldHandler = onWebSocketMessage('calendar_update', (data) => {
-      console.log('Recebida notificação de atualização do calendário (formato antigo):', data);
-      
-      // Atualizar dados do calendário
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-    });
-    
-    // Registrar listener para eventos financeiros (despesas e documentos)
-    const unregisterFinancialUpdateHandler = onWebSocketMessage('financial_updated', (data) => {
-      console.log('Recebida notificação de atualização financeira (formato novo):', data);
-      
-      // Atualizar dados do calendário quando houver mudanças financeiras
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-      
-      // Só exibir toast se a notificação explicitamente mencionar o calendário
-      if (data.affects_calendar || data.updateCalendar || data.calendar) {
-        toast({
-          title: 'Calendário atualizado',
-          description: 'Eventos financeiros foram atualizados no calendário',
-          variant: 'default',
-        });
-      }
-    });
-    
-    // Suporte para formato antigo (financial_update)
-    const unregisterFinancialOldHandler = onWebSocketMessage('financial_update', (data) => {
-      console.log('Recebida notificação de atualização financeira (formato antigo):', data);
-      
-      // Atualizar dados do calendário quando houver mudanças financeiras
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-    });
-    
-    // Também registrar para o tipo genérico 'financial' e 'calendar' para maior compatibilidade
-    const unregisterFinancialGenericHandler = onWebSocketMessage('financial', (data) => {
-      console.log('Recebida notificação genérica financeira:', data);
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-    });
-    
-    const unregisterCalendarGenericHandler = onWebSocketMessage('calendar', (data) => {
-      console.log('Recebida notificação genérica de calendário:', data);
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-    });
-    
-    // Limpar listeners quando o componente for desmontado
-    return () => {
-      console.log('Removendo listeners WebSocket da página de calendário');
-      unregisterCalendarUpdateHandler();
-      unregisterCalendarOldHandler();
-      unregisterFinancialUpdateHandler();
-      unregisterFinancialOldHandler();
-      unregisterFinancialGenericHandler();
-      unregisterCalendarGenericHandler();
-    };
-  }, [queryClient, toast]);
+  });
+  
+  // Mudanças financeiras (despesas e documentos) também alteram eventos do calendário
+  useRealtimeEvent('financial_updated', () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+  });
 
   // Filtragem de eventos com base no filtro selecionado
   const filteredEvents = React.useMemo(() => {
@@ -14,6 +14,10 @@ import {
 import { Link } from "wouter";
 import { ProjectProgress } from "@/components/ProjectProgress";
 import { useProjectForm } from "@/contexts/ProjectFormContext";
+import type { FinancialProjectMargin, FinancialSummaryReport } from "@shared/financial-reports";
+
+// Cores das barras de "Faturamento por Projeto", na ordem do maior faturamento
+const PROJECT_INCOME_COLORS = ['pink', 'blue', 'purple', 'green', 'amber'];
 
 const StatusBadge = ({ status }: { status: string }) => {
   const colorMap: Record<string, string> = {
@@ -100,12 +104,14 @@ export default function DashboardNovo() {
     queryKey: ['/api/clients']
   });
   
-  const { data: financialDocuments = [] } = useQuery<any[]>({
-    queryKey: ['/api/financial-documents']
+  // Indicadores financeiros do período calculados no servidor, com os mesmos
+  // critérios da página Financeiro
+  const { data: financialSummary } = useQuery<FinancialSummaryReport>({
+    queryKey: [`/api/financial-reports/summary?period=${currentPeriod}`]
   });
   
-  const { data: expenses = [] } = useQuery<any[]>({
-    queryKey: ['/api/expenses']
+  const { data: projectMargins = [] } = useQuery<FinancialProjectMargin[]>({
+    queryKey: [`/api/financial-reports/by-project?period=${currentPeriod}`]
   });
   
   // Filtrar projetos ativos (não concluídos ou cancelados)
@@ -143,129 +149,17 @@ export default function DashboardNovo() {
     return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
   }
   
-  // Determinar data inicial e final com base no período selecionado
-  const getPeriodDates = () => {
-    const now = new Date();
-    
-    if (currentPeriod === 'week') {
-      // Início da semana atual (domingo)
-      const startOfWeek = new Date(now);
-      startOfWeek.setDate(now.getDate() - now.getDay());
-      startOfWeek.setHours(0, 0, 0, 0);
-      
-      // Final da semana atual (sábado)
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
-      endOfWeek.setHours(23, 59, 59, 999);
-      
-      // Período anterior (semana passada)
-      const startOfPreviousPeriod = new Date(startOfWeek);
-      startOfPreviousPeriod.setDate(startOfPreviousPeriod.getDate() - 7);
-      
-      const endOfPreviousPeriod = new Date(startOfPreviousPeriod);
-      endOfPreviousPeriod.setDate(startOfPreviousPeriod.getDate() + 6);
-      endOfPreviousPeriod.setHours(23, 59, 59, 999);
-      
-      return {
-        current: { start: startOfWeek, end: endOfWeek },
-        previous: { start: startOfPreviousPeriod, end: endOfPreviousPeriod },
-        displayText: `Semana ${currentWeek} de ${currentYear}`
-      };
-    } 
-    else if (currentPeriod === 'year') {
-      // Início do ano atual
-      const startOfYear = new Date(now.getFullYear(), 0, 1);
-      startOfYear.setHours(0, 0, 0, 0);
-      
-      // Final do ano atual
-      const endOfYear = new Date(now.getFullYear(), 11, 31);
-      endOfYear.setHours(23, 59, 59, 999);
-      
-      // Período anterior (ano passado)
-      const startOfPreviousPeriod = new Date(now.getFullYear() - 1, 0, 1);
-      startOfPreviousPeriod.setHours(0, 0, 0, 0);
-      
-      const endOfPreviousPeriod = new Date(now.getFullYear() - 1, 11, 31);
-      endOfPreviousPeriod.setHours(23, 59, 59, 999);
-      
-      return {
-        current: { start: startOfYear, end: endOfYear },
-        previous: { start: startOfPreviousPeriod, end: endOfPreviousPeriod },
-        displayText: `${currentYear}`
-      };
-    } 
-    else { // month (default)
-      // Início do mês atual
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      startOfMonth.setHours(0, 0, 0, 0);
-      
-      // Final do mês atual
-      const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      endOfMonth.setHours(23, 59, 59, 999);
-      
-      // Período anterior (mês passado)
-      const previousMonth = now.getMonth() === 0 ? 11 : now.getMonth() - 1;
-      const previousYear = now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear();
-      
-      const startOfPreviousPeriod = new Date(previousYear, previousMonth, 1);
-      startOfPreviousPeriod.setHours(0, 0, 0, 0);
-      
-      const endOfPreviousPeriod = new Date(previousYear, previousMonth + 1, 0);
-      endOfPreviousPeriod.setHours(23, 59, 59, 999);
-      
-      return {
-        current: { start: startOfMonth, end: endOfMonth },
-        previous: { start: startOfPreviousPeriod, end: endOfPreviousPeriod },
-        displayText: new Intl.DateTimeFormat('pt-BR', { month: 'long', year: 'numeric' }).format(now)
-      };
-    }
-  };
-  
-  const periodInfo = getPeriodDates();
-  const periodDisplay = periodInfo.displayText;
-
-  // Função para verificar se uma data está dentro de um período
-  const isDateInPeriod = (date: Date, period: { start: Date, end: Date }) => {
-    return date >= period.start && date <= period.end;
-  };
-  
-  // Receitas (financialDocuments)
-  const currentPeriodIncome = financialDocuments
-    .filter((doc: any) => {
-      const date = new Date(doc.due_date || doc.issue_date);
-      return isDateInPeriod(date, periodInfo.current) && 
-             doc.type === 'invoice' &&
-             (doc.status === 'pago' || doc.status === 'pendente');
-    })
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
-  
-  const previousPeriodIncome = financialDocuments
-    .filter((doc: any) => {
-      const date = new Date(doc.due_date || doc.issue_date);
-      return isDateInPeriod(date, periodInfo.previous) && 
-             doc.type === 'invoice' &&
-             (doc.status === 'pago' || doc.status === 'pendente');
-    })
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
-  
-  // Despesas
-  const currentPeriodExpenses = expenses
-    .filter((exp: any) => {
-      const date = new Date(exp.date);
-      return isDateInPeriod(date, periodInfo.current);
-    })
-    .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0);
-  
-  const previousPeriodExpenses = expenses
-    .filter((exp: any) => {
-      const date = new Date(exp.date);
-      return isDateInPeriod(date, periodInfo.previous);
-    })
-    .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0);
+  // Rótulo do período selecionado (os intervalos são calculados no servidor)
+  const periodDisplay = currentPeriod === 'week'
+    ? `Semana ${currentWeek} de ${currentYear}`
+    : currentPeriod === 'year'
+      ? `${currentYear}`
+      : currentMonthDisplay;
   
-  // Lucro
-  const currentPeriodProfit = currentPeriodIncome - currentPeriodExpenses;
-  const previousPeriodProfit = previousPeriodIncome - previousPeriodExpenses;
+  // Receitas, despesas e lucro
+  const currentPeriodIncome = financialSummary?.revenue ?? 0;
+  const currentPeriodExpenses = financialSummary?.expenses ?? 0;
+  const currentPeriodProfit = financialSummary?.profit ?? 0;
   
   // Cálculo das variações percentuais
   const calculatePercentChange = (current: number, previous: number) => {
@@ -273,33 +167,22 @@ export default function DashboardNovo() {
     return Math.round(((current - previous) / previous) * 100);
   };
   
-  const incomePercentChange = calculatePercentChange(currentPeriodIncome, previousPeriodIncome);
-  const expensesPercentChange = calculatePercentChange(currentPeriodExpenses, previousPeriodExpenses);
-  const profitPercentChange = calculatePercentChange(currentPeriodProfit, previousPeriodProfit);
+  const incomePercentChange = financialSummary?.change.revenue ?? 0;
+  const expensesPercentChange = financialSummary?.change.expenses ?? 0;
+  const profitPercentChange = financialSummary?.change.profit ?? 0;
   
-  // Calcular faturamento por projeto no período atual
-  const projectIncome = projects.map((project: any) => {
-    const projectDocs = financialDocuments.filter((doc: any) => {
-      const date = new Date(doc.due_date || doc.issue_date);
-      return doc.project_id === project.id && 
-             isDateInPeriod(date, periodInfo.current) &&
-             doc.type === 'invoice' &&
-             (doc.status === 'pago' || doc.status === 'pendente');
-    });
-    
-    const income = projectDocs.reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
-    
-    return {
+  // Faturamento por projeto no período atual (4 maiores)
+  const projectIncome = projectMargins
+    .filter(project => project.revenue > 0)
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, 4)
+    .map((project, index) => ({
       id: project.id,
       name: project.name,
-      client_id: project.client_id,
-      color: ['pink', 'blue', 'purple', 'green', 'amber'][Math.floor(Math.random() * 5)],
-      income
-    };
-  })
-  .filter((p: any) => p.income > 0)
-  .sort((a: any, b: any) => b.income - a.income)
-  .slice(0, 4);
+      client_id: project.clientId,
+      color: PROJECT_INCOME_COLORS[index % PROJECT_INCOME_COLORS.length],
+      income: project.revenue
+    }));
   
   // Dados para tarefas próximas
   const upcomingTasks = [...(pendingTasks || [])]
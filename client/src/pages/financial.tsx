@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { initWebSocket, onWebSocketMessage } from "@/lib/socket";
+import { useRealtimeEvent } from "@/contexts/SocketContext";
 import { useToast } from "@/hooks/use-toast";
 import { showSuccessToast } from "@/lib/utils";
 import { 
@@ -16,7 +16,6 @@ import {
   startOfYear, 
   endOfYear, 
   isBefore, 
-  isAfter, 
   isSameMonth,
   isSameYear,
   parseISO 
@@ -108,9 +107,20 @@ import { FinancialRecordActions } from "@/components/financial/FinancialRecordAc
 import { FinancialRecordDetails } from "@/components/financial/FinancialRecordDetails";
 import { PaymentRegistrationDialog } from "@/components/financial/PaymentRegistrationDialog";
 import { EditExpenseDialog } from "@/components/financial/EditExpenseDialog";
-import { FinancialTableHeader } from "@/components/financial/FinancialTableHeader";
+import { FinancialTableHeader, type FinancialSortField } from "@/components/financial/FinancialTableHeader";
 import { FinancialStatusBadge } from "@/components/financial/FinancialStatusBadge";
 import { FinancialQuickStats } from "@/components/financial/FinancialQuickStats";
+import { BankReconciliationPanel } from "@/components/financial/BankReconciliationPanel";
+import {
+  financialReportSearchParams,
+  type FinancialBreakdownItem,
+  type FinancialCashFlowPoint,
+  type FinancialProjectMargin,
+  type FinancialReportPeriod,
+  type FinancialSummaryReport
+} from "@shared/financial-reports";
+import { outstandingBalance } from "@shared/schema";
+import { hasNfseMismatch } from "@shared/nfse";
 
 // Definição de tipos
 interface Transaction {
@@ -140,7 +150,7 @@ export default function Financial() {
   const [period, setPeriod] = useState<string>("year");
   const [dateRange, setDateRange] = useState<Date | undefined>(new Date());
   const [sortConfig, setSortConfig] = useState<{
-    field: 'amount' | 'document_number' | 'issue_date' | 'due_date' | 'client_name' | 'id';
+    field: FinancialSortField;
     direction: 'asc' | 'desc';
   }>({ field: 'id', direction: 'desc' });
   
@@ -149,6 +159,10 @@ export default function Financial() {
   const [receivablesStatusFilter, setReceivablesStatusFilter] = useState<string>("all");
   const [payablesSearchTerm, setPayablesSearchTerm] = useState<string>("");
   const [payablesStatusFilter, setPayablesStatusFilter] = useState<string>("all");
+  
+  // Filtros de cliente e projeto dos relatórios da aba Dashboard
+  const [reportClientId, setReportClientId] = useState<string>("all");
+  const [reportProjectId, setReportProjectId] = useState<string>("all");
   const [customDateRange, setCustomDateRange] = useState<{
     from: Date | undefined;
     to: Date | undefined;
@@ -214,17 +228,6 @@ export default function Financial() {
     return newDate;
   }
   
-  // Função para verificar se uma data está dentro do intervalo de filtro
-  function isDateInRange(date: Date | string | null | undefined): boolean {
-    if (!date) return false;
-    
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
-    return (
-      isAfter(dateObj, subDays(dateFilterRange.startDate, 1)) && 
-      isBefore(dateObj, addDays(dateFilterRange.endDate, 1))
-    );
-  }
-  
   // Função para formatar o período selecionado para exibição
   const getPeriodLabel = (): string => {
     const { startDate, endDate } = dateFilterRange;
@@ -246,63 +249,34 @@ export default function Financial() {
     }
   };
   
-  // Efeito para escutar eventos financeiros via WebSocket
-  useEffect(() => {
-    console.log('Configurando listeners WebSocket na página financeira...');
-    
-    // Inicializar WebSocket se ainda não estiver conectado
-    initWebSocket().catch(error => {
-      console.error('Erro ao inicializar WebSocket na página financeira:', error);
-    });
-    
-    // Registrar listeners para eventos financeiros (incluindo versões do formato antigo)
-    // WebSocket deve processar tanto 'financial_updated' quanto 'financial_update'
-    const unregisterFinancialUpdateHandler = onWebSocketMessage('financial_updated', (data) => {
-      console.log('Recebida notificação de atualização financeira (format novo):', data);
-      
-      // Invalidar consultas financeiras para recarregar os dados
-      queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
-      
-      // Também invalidar eventos do calendário para garantir sincronização bidirecional
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-      
-      // Notificar o usuário
-      showSuccessToast({
-        title: 'Dados financeiros atualizados',
-        description: data.message || 'Os registros financeiros foram atualizados'
-      });
-    });
+  // Os relatórios usam a URL com parâmetros como chave
+  const invalidateReports = () => queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/financial-reports')
+  });
+  
+  // Atualizações financeiras feitas por outros usuários
+  useRealtimeEvent('financial_updated', (data) => {
+    // Invalidar consultas financeiras para recarregar os dados
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+    invalidateReports();
     
-    // Suporte para formato antigo (financial_update sem o 'd')
-    // Redundante com a correção no SocketContext, mas mantido por precaução
-    const unregisterOldFormatHandler = onWebSocketMessage('financial_update', (data) => {
-      console.log('Recebida notificação de atualização financeira (formato antigo):', data);
-      
-      // Invalidar consultas financeiras para recarregar os dados
-      queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
-      
-      // Também invalidar eventos do calendário para garantir sincronização bidirecional
-      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-    });
+    // Também invalidar eventos do calendário para garantir sincronização bidirecional
+    queryClient.invalidateQueries({ queryKey: ['/api/events'] });
     
-    const unregisterCalendarUpdateHandler = onWebSocketMessage('calendar_updated', (data) => {
-      console.log('Recebida notificação de atualização do calendário:', data);
-      
-      // Invalidar consultas financeiras para garantir sincronização
-      queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+    // Notificar o usuário
+    showSuccessToast({
+      title: 'Dados financeiros atualizados',
+      description: data.message || 'Os registros financeiros foram atualizados'
     });
-    
-    // Limpar listeners quando o componente for desmontado
-    return () => {
-      console.log('Removendo listeners WebSocket da página financeira');
-      unregisterFinancialUpdateHandler();
-      unregisterOldFormatHandler();
-      unregisterCalendarUpdateHandler();
-    };
-  }, [queryClient, toast]);
+  });
+  
+  useRealtimeEvent('calendar_updated', () => {
+    // Invalidar consultas financeiras para garantir sincronização
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-documents'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+    invalidateReports();
+  });
 
   // Fetch financial data
   const { data: financialDocuments, isLoading: isLoadingDocuments } = useQuery({
@@ -476,7 +450,7 @@ export default function Financial() {
     documents.forEach((doc: any) => {
       if (!doc.paid && doc.due_date) {
         const dueDate = new Date(doc.due_date);
-        const amount = doc.amount || 0;
+        const amount = outstandingBalance(doc);
         
         if (isBefore(dueDate, in7Days)) {
           nextWeek += amount;
@@ -502,8 +476,8 @@ export default function Financial() {
   const unpaidReceivables = receivablesData.filter((doc: any) => !doc.paid);
   
   const totalReceivables = unpaidReceivables.reduce((sum: number, doc: any) => {
-    console.log(`Documento #${doc.id} (A Receber): R$${doc.amount}`);
-    return sum + (doc.amount || 0);
+    console.log(`Documento #${doc.id} (A Receber): R$${outstandingBalance(doc)}`);
+    return sum + outstandingBalance(doc);
   }, 0);
   console.log('Total calculado (soma real):', totalReceivables);
   
@@ -514,7 +488,7 @@ export default function Financial() {
   const today = new Date();
   const overdueReceivables = (receivablesData || [])
     .filter((doc: any) => doc.due_date && isBefore(new Date(doc.due_date), today) && !doc.paid)
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
+    .reduce((sum: number, doc: any) => sum + outstandingBalance(doc), 0);
   
   // Cash flow next 7 and 30 days - with safety checks
   const receivablesNext7Days = (receivablesData || [])
@@ -524,7 +498,7 @@ export default function Financial() {
       !isBefore(new Date(doc.due_date), today) && // Não vencidas 
       !doc.paid // Ainda não pagas
     )
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
+    .reduce((sum: number, doc: any) => sum + outstandingBalance(doc), 0);
 
   const receivablesNext30Days = (receivablesData || [])
     .filter((doc: any) => 
@@ -533,14 +507,8 @@ export default function Financial() {
       !isBefore(new Date(doc.due_date), today) && // Não vencidas 
       !doc.paid // Ainda não pagas
     )
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
+    .reduce((sum: number, doc: any) => sum + outstandingBalance(doc), 0);
     
-  const payablesNext30Days = payablesData
-    .filter((exp: any) => exp.date && isBefore(new Date(exp.date), thirtyDaysFromNow))
-    .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0);
-    
-  const cashFlowNext30Days = receivablesNext30Days - payablesNext30Days;
-  
   // Due alerts (next 7 days) - valor total em vez da contagem
   const dueFaturas = receivablesData
     .filter((doc: any) => 
@@ -553,79 +521,68 @@ export default function Financial() {
   
   // Total financeiro dos alertas
   const dueAlerts = dueFaturas
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0);
+    .reduce((sum: number, doc: any) => sum + outstandingBalance(doc), 0);
     
   // Payables next 7 days
   const payablesNext7Days = payablesData
     .filter((exp: any) => exp.date && isBefore(new Date(exp.date), sevenDaysFromNow))
     .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0);
   
-  // Receita - documentos pagos no período selecionado
-  const { startDate, endDate } = dateFilterRange;
+  // Indicadores, séries e margens do período calculados no servidor (/api/financial-reports)
+  const reportQuery = financialReportSearchParams({
+    period: period === 'custom' && !(customDateRange.from && customDateRange.to) ? 'month' : period as FinancialReportPeriod,
+    from: period === 'custom' && customDateRange.from ? format(customDateRange.from, 'yyyy-MM-dd') : undefined,
+    to: period === 'custom' && customDateRange.to ? format(customDateRange.to, 'yyyy-MM-dd') : undefined,
+    clientId: reportClientId !== 'all' ? parseInt(reportClientId) : undefined,
+    projectId: reportProjectId !== 'all' ? parseInt(reportProjectId) : undefined
+  }).toString();
   
-  // Documentos pagos no período selecionado
-  const paidDocumentsInPeriod = financialDocuments?.filter((doc: any) => {
-    if (!doc.paid || !doc.payment_date) return false;
-    return isDateInRange(doc.payment_date);
-  }) || [];
+  const { data: summary } = useQuery<FinancialSummaryReport>({
+    queryKey: [`/api/financial-reports/summary?${reportQuery}`]
+  });
   
-  console.log(`Documentos pagos no período ${format(startDate, 'dd/MM/yyyy')} a ${format(endDate, 'dd/MM/yyyy')}:`, paidDocumentsInPeriod.length);
+  const { data: cashFlow = [] } = useQuery<FinancialCashFlowPoint[]>({
+    queryKey: [`/api/financial-reports/cash-flow?${reportQuery}`]
+  });
   
-  // Valor total dos documentos pagos no período selecionado
-  const periodRevenue = paidDocumentsInPeriod
-    .reduce((sum: number, doc: any) => {
-      console.log(`Documento #${doc.id} (Receita ${getPeriodLabel()}): R$${doc.amount}`);
-      return sum + (doc.amount || 0);
-    }, 0);
+  const { data: expensesByCategory = [] } = useQuery<FinancialBreakdownItem[]>({
+    queryKey: [`/api/financial-reports/by-category?${reportQuery}`]
+  });
   
-  // Despesas no período selecionado - incluindo todas as despesas, mesmo as pendentes
-  const periodExpenses = expenses
-    ?.filter((exp: any) => {
-      // Filtrar apenas as despesas dentro do período selecionado
-      return isDateInRange(exp.date);
-    })
-    .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0) || 0;
-    
-  // Total de faturas recebidas (todas as que já foram pagas)
-  const totalPaidInvoices = financialDocuments
-    ?.filter((doc: any) => doc.paid === true)
-    .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0) || 0;
-    
-  // Total de despesas aprovadas
-  const totalApprovedExpenses = expenses
-    ?.filter((exp: any) => exp.approved === true)
-    .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0) || 0;
+  const { data: revenueByClient = [] } = useQuery<FinancialBreakdownItem[]>({
+    queryKey: [`/api/financial-reports/by-client?${reportQuery}&metric=revenue&limit=5`]
+  });
   
-  // Gross margin para o período selecionado
-  const grossMargin = periodRevenue > 0 
-    ? ((periodRevenue - periodExpenses) / periodRevenue) * 100 
-    : 0;
+  const { data: receivablesByClient = [] } = useQuery<FinancialBreakdownItem[]>({
+    queryKey: ['/api/financial-reports/by-client?metric=receivables&limit=5']
+  });
   
-  // Calcular total de minutos de vídeo (com base nos projetos)
-  const totalMinutes = projects
-    ?.filter((p: any) => p.duration)
-    .reduce((sum: number, p: any) => sum + (p.duration || 0), 0) || 1; // Usar 1 como mínimo para evitar divisão por zero
+  const { data: projectMargins = [] } = useQuery<FinancialProjectMargin[]>({
+    queryKey: [`/api/financial-reports/by-project?${reportQuery}`]
+  });
   
-  const avgCostPerMinute = periodExpenses > 0 ? periodExpenses / totalMinutes : 0;
+  const periodRevenue = summary?.revenue ?? 0;
+  const periodExpenses = summary?.expenses ?? 0;
+  const grossMargin = summary?.grossMargin ?? 0;
+  const cashFlowNext30Days = summary?.cashFlowNext30Days ?? 0;
+  const totalPaidInvoices = summary?.totals.paidInvoices ?? 0;
+  const totalApprovedExpenses = summary?.totals.approvedExpenses ?? 0;
   
-  // Average collection period (calculado dinamicamente)
-  // A fórmula usada é: (Contas a receber / Receita do período) * 30 dias
-  const dso = totalReceivables > 0 && periodRevenue > 0 
-    ? Math.round((totalReceivables / periodRevenue) * 30) 
-    : 0;
+  // Tempo médio de recebimento: dias entre emissão e pagamento das faturas pagas no período
+  const dso = summary?.averageCollectionDays ?? 0;
 
   // Dashboard KPIs reorganizados em grid 3x2
   const kpis: FinancialKPI[] = [
     {
       title: "A Receber",
-      value: totalReceivables,
+      value: summary?.receivables.total ?? 0,
       icon: <CreditCard className="h-5 w-5" />,
       description: "Total de faturas a receber",
       variant: "blue"
     },
     {
       title: "A Pagar",
-      value: totalPayables,
+      value: summary?.payables.total ?? 0,
       icon: <Receipt className="h-5 w-5" />,
       description: "Total de despesas pendentes",
       variant: "red"
@@ -640,8 +597,9 @@ export default function Financial() {
     {
       title: "Receita",
       value: periodRevenue,
+      change: summary?.change.revenue,
       icon: <DollarSign className="h-5 w-5" />,
-      description: `${paidDocumentsInPeriod.length} pagamento(s) - ${getPeriodLabel()}`,
+      description: `${summary?.revenueCount ?? 0} pagamento(s) - ${getPeriodLabel()}`,
       variant: "green"
     },
     {
@@ -660,152 +618,34 @@ export default function Financial() {
     }
   ];
 
-  // Chart data for dashboard - calculado a partir de dados reais
-  // Cria último semestre de dados financeiros
-  const last6Months = Array.from({ length: 6 }, (_, i) => {
-    const date = new Date();
-    date.setMonth(date.getMonth() - 5 + i);
+  // Chart data for dashboard - meses do período (no mínimo o último semestre)
+  const monthlyData = cashFlow.map(point => {
+    const month = format(parseISO(`${point.month}-01`), 'MMM', { locale: ptBR });
     return {
-      date: date,
-      month: format(date, 'MMM', { locale: ptBR }).charAt(0).toUpperCase() + format(date, 'MMM', { locale: ptBR }).slice(1),
-      year: date.getFullYear(),
-      monthNumber: date.getMonth(),
-      receita: 0,
-      despesas: 0
+      month: month.charAt(0).toUpperCase() + month.slice(1),
+      receita: point.revenue,
+      despesas: point.expenses
     };
   });
-  
-  // Preenche com dados reais quando disponíveis
-  if (financialDocuments && financialDocuments.length > 0) {
-    financialDocuments.forEach((doc: any) => {
-      if (doc.paid && doc.payment_date) {
-        const paymentDate = new Date(doc.payment_date);
-        const monthData = last6Months.find(m => 
-          m.monthNumber === paymentDate.getMonth() && 
-          m.year === paymentDate.getFullYear()
-        );
-        
-        if (monthData) {
-          monthData.receita += doc.amount || 0;
-        }
-      }
-    });
-  }
-  
-  if (expenses && expenses.length > 0) {
-    expenses.forEach((exp: any) => {
-      // Incluir todas as despesas, mesmo as que não são aprovadas
-      if (exp.date) {
-        const expenseDate = new Date(exp.date);
-        const monthData = last6Months.find(m => 
-          m.monthNumber === expenseDate.getMonth() && 
-          m.year === expenseDate.getFullYear()
-        );
-        
-        if (monthData) {
-          monthData.despesas += exp.amount || 0;
-        }
-      }
-    });
-  }
-  
-  const monthlyData = last6Months.map(m => ({
-    month: m.month,
-    receita: m.receita,
-    despesas: m.despesas
-  }));
 
-  // Expense categories data - calculado dinamicamente a partir dos dados reais
-  // Identificando quais despesas são do processo de seed e quais foram criadas pelo usuário
-  // Despesas do seed são as que têm description específica e foram criadas com paid_by = user específico
-  const seedUserIds = [1, 2, 3]; // IDs dos usuários criados pelo seed
-  const seedExpenseDescriptions = [
-    "Aluguel de equipamento de iluminação",
-    "Hospedagem para filmagem em campo",
-    "Licenças de software para edição"
-  ];
-  
-  const expenseCategoriesMap: Record<string, number> = {};
-  
-  if (expenses && expenses.length > 0) {
-    // Filtrar para usar apenas despesas que NÃO são do seed
-    const userExpenses = expenses.filter((exp: any) => {
-      return !(
-        seedUserIds.includes(exp.paid_by) && 
-        seedExpenseDescriptions.includes(exp.description)
-      );
-    });
-    
-    // Se tiver alguma despesa criada pelo usuário, usamos apenas estas
-    if (userExpenses.length > 0) {
-      userExpenses.forEach((exp: any) => {
-        if (exp.category) {
-          const category = exp.category.charAt(0).toUpperCase() + exp.category.slice(1);
-          if (!expenseCategoriesMap[category]) {
-            expenseCategoriesMap[category] = 0;
-          }
-          expenseCategoriesMap[category] += exp.amount || 0;
-        }
-      });
-    }
-  }
-  
-  const expenseCategoriesData = Object.keys(expenseCategoriesMap).map(category => ({
-    name: category,
-    value: expenseCategoriesMap[category]
+  const expenseCategoriesData = expensesByCategory.map(category => ({
+    name: category.name.charAt(0).toUpperCase() + category.name.slice(1),
+    value: category.value
   }));
 
-  // Client distribution data - calculado a partir de dados reais
-  const clientDistributionMap: Record<string, number> = {};
-  
-  if (financialDocuments && financialDocuments.length > 0 && clients && clients.length > 0) {
-    financialDocuments.forEach((doc: any) => {
-      if (doc.client_id) {
-        const client = clients.find((c: any) => c.id === doc.client_id);
-        if (client && client.name) {
-          if (!clientDistributionMap[client.name]) {
-            clientDistributionMap[client.name] = 0;
-          }
-          clientDistributionMap[client.name] += doc.amount || 0;
-        }
-      }
-    });
-  }
-  
-  const clientDistributionData = Object.keys(clientDistributionMap).map(clientName => ({
-    name: clientName,
-    value: clientDistributionMap[clientName]
-  })).sort((a, b) => b.value - a.value).slice(0, 5); // Apenas os 5 maiores clientes
+  // Apenas os 5 maiores clientes
+  const clientDistributionData = revenueByClient.map(client => ({ name: client.name, value: client.value }));
+  const receivablesDistributionData = receivablesByClient.map(client => ({ name: client.name, value: client.value }));
 
-  // Project margin data - incluindo projetos em andamento e concluídos
-  const projectMarginData = projects?.filter((project: any) => {
-    // Incluir apenas projetos ativos (em andamento ou concluídos)
-    return project.status !== 'canceled' && project.status !== 'delayed' && project.status !== 'paused';
-  }).map((project: any) => {
-    const client = clients?.find((c: any) => c.id === project.client_id);
-    
-    const projectRevenue = financialDocuments
-      ?.filter((doc: any) => doc.project_id === project.id && doc.document_type === 'invoice')
-      .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0) || 0;
-      
-    const projectExpenses = expenses
-      ?.filter((exp: any) => exp.project_id === project.id)
-      .reduce((sum: number, exp: any) => sum + (exp.amount || 0), 0) || 0;
-      
-    const projectMargin = projectRevenue > 0 
-      ? ((projectRevenue - projectExpenses) / projectRevenue) * 100 
-      : 0;
-      
-    return {
-      id: project.id,
-      name: project.name,
-      client: client?.name || "Cliente",
-      revenue: projectRevenue,
-      expenses: projectExpenses,
-      margin: projectMargin,
-      status: project.status
-    };
-  }).sort((a: any, b: any) => b.margin - a.margin) || []; // Removido o .slice(0, 5) para mostrar todos
+  const projectMarginData = projectMargins.map(project => ({
+    id: project.id,
+    name: project.name,
+    client: project.clientName || "Cliente",
+    revenue: project.revenue,
+    expenses: project.expenses,
+    margin: project.margin,
+    status: project.status
+  }));
 
   // Não usamos mais dados de exemplo - apenas dados reais do banco de dados
 
@@ -831,6 +671,42 @@ export default function Financial() {
             </SelectContent>
           </Select>
           
+          {selectedTab === "dashboard" && (
+            <>
+              <Select
+                value={reportClientId}
+                onValueChange={(value) => {
+                  setReportClientId(value);
+                  setReportProjectId("all");
+                }}
+              >
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Cliente" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os clientes</SelectItem>
+                  {((clients as any[]) || []).map((client: any) => (
+                    <SelectItem key={client.id} value={String(client.id)}>{client.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
+              <Select value={reportProjectId} onValueChange={setReportProjectId}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Projeto" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os projetos</SelectItem>
+                  {((projects as any[]) || [])
+                    .filter((project: any) => reportClientId === "all" || String(project.client_id) === reportClientId)
+                    .map((project: any) => (
+                      <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          
           {period === "custom" ? (
             <Popover>
               <PopoverTrigger asChild>
@@ -911,6 +787,9 @@ export default function Financial() {
               <TabsTrigger value="payables" className="rounded-none data-[state=active]:border-primary data-[state=active]:border-b-2 data-[state=active]:shadow-none">
                 A Pagar
               </TabsTrigger>
+              <TabsTrigger value="reconciliation" className="rounded-none data-[state=active]:border-primary data-[state=active]:border-b-2 data-[state=active]:shadow-none">
+                Conciliação
+              </TabsTrigger>
             </TabsList>
           </div>
         </div>
@@ -979,7 +858,7 @@ export default function Financial() {
                 <div className="flex items-center justify-between">
                   <div className="flex flex-col">
                     <span className="text-3xl font-bold text-green-600">{formatCurrency(totalPaidInvoices)}</span>
-                    <span className="text-sm text-muted-foreground mt-1">Total de {financialDocuments?.filter((doc: any) => doc.paid === true).length || 0} faturas pagas</span>
+                    <span className="text-sm text-muted-foreground mt-1">Total de {summary?.totals.paidInvoicesCount ?? 0} faturas pagas</span>
                   </div>
                   <div className="h-14 w-14 bg-green-100 rounded-full flex items-center justify-center">
                     <CheckCircle className="h-8 w-8 text-green-600" />
@@ -997,7 +876,7 @@ export default function Financial() {
                 <div className="flex items-center justify-between">
                   <div className="flex flex-col">
                     <span className="text-3xl font-bold text-amber-600">{formatCurrency(totalApprovedExpenses)}</span>
-                    <span className="text-sm text-muted-foreground mt-1">Total de {expenses?.filter((exp: any) => exp.approved === true).length || 0} despesas aprovadas</span>
+                    <span className="text-sm text-muted-foreground mt-1">Total de {summary?.totals.approvedExpensesCount ?? 0} despesas aprovadas</span>
                   </div>
                   <div className="h-14 w-14 bg-amber-100 rounded-full flex items-center justify-center">
                     <Receipt className="h-8 w-8 text-amber-600" />
@@ -1094,7 +973,7 @@ export default function Financial() {
             <Card className="lg:col-span-2">
               <CardHeader className="pb-2">
                 <CardTitle className="text-base font-medium">Margem por Projeto</CardTitle>
-                <CardDescription>Todos os projetos ativos por margem de lucro</CardDescription>
+                <CardDescription>Projetos com movimento no período, por margem de lucro</CardDescription>
               </CardHeader>
               <CardContent className="px-0">
                 <ScrollArea className="h-[300px]">
@@ -1189,7 +1068,7 @@ export default function Financial() {
             type="receivables"
             totalCount={receivablesData.length}
             pendingCount={receivablesData.filter((doc: any) => !doc.paid).length}
-            pendingAmount={receivablesData.filter((doc: any) => !doc.paid).reduce((sum: number, doc: any) => sum + doc.amount, 0)}
+            pendingAmount={receivablesData.filter((doc: any) => !doc.paid).reduce((sum: number, doc: any) => sum + outstandingBalance(doc), 0)}
             searchTerm={receivablesSearchTerm}
             onSearchChange={setReceivablesSearchTerm}
             statusFilter={receivablesStatusFilter}
@@ -1350,10 +1229,10 @@ export default function Financial() {
                                 {doc.invoice_file && (
                                   <Tooltip delayDuration={300}>
                                     <TooltipTrigger asChild>
-                                      <FileText className="ml-2 h-4 w-4 text-green-600" />
+                                      <FileText className={cn("ml-2 h-4 w-4", hasNfseMismatch(doc.invoice_nfse) ? "text-amber-600" : "text-green-600")} />
                                     </TooltipTrigger>
                                     <TooltipContent>
-                                      <p>Nota fiscal anexada</p>
+                                      <p>{hasNfseMismatch(doc.invoice_nfse) ? "NFS-e anexada com divergências" : "Nota fiscal anexada"}</p>
                                     </TooltipContent>
                                   </Tooltip>
                                 )}
@@ -1362,6 +1241,11 @@ export default function Financial() {
                           </TableCell>
                           <TableCell className="text-right font-medium">
                             {formatCurrency(doc.amount)}
+                            {!doc.paid && doc.amount_paid > 0 && (
+                              <span className="block text-xs font-normal text-muted-foreground">
+                                Em aberto: {formatCurrency(outstandingBalance(doc))}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <FinancialStatusBadge
@@ -1402,7 +1286,7 @@ export default function Financial() {
                   <span className="font-bold">{formatCurrency(
                     receivablesData
                       .filter((doc: any) => !doc.paid)
-                      .reduce((sum: number, doc: any) => sum + (doc.amount || 0), 0)
+                      .reduce((sum: number, doc: any) => sum + outstandingBalance(doc), 0)
                   )}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm">
@@ -1447,11 +1331,11 @@ export default function Financial() {
                 <CardDescription>Valores a receber por cliente</CardDescription>
               </CardHeader>
               <CardContent>
-                {clientDistributionData.length > 0 ? (
+                {receivablesDistributionData.length > 0 ? (
                   <FinancialChart 
                     type="pie"
                     title=""
-                    data={clientDistributionData}
+                    data={receivablesDistributionData}
                     dataKeys={['value']}
                     xAxisDataKey="name"
                     colors={['#10B981', '#6366F1', '#F59E0B']}
@@ -1827,6 +1711,11 @@ export default function Financial() {
             </Card>
           </div>
         </TabsContent>
+
+        {/* Reconciliation Tab */}
+        <TabsContent value="reconciliation" className="mt-6">
+          <BankReconciliationPanel />
+        </TabsContent>
       </Tabs>
       
       {/* Diálogos para exibir detalhes e registrar pagamentos */}
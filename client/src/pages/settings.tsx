@@ -20,12 +20,14 @@ import {
   EyeIcon, 
   ZoomInIcon, 
   MonitorSmartphoneIcon, 
+  KeyRoundIcon,
   MousePointerSquareDashedIcon, 
   RotateCcw,
   PaintBucket,
   Palette,
   PanelLeft,
-  Layout
+  Layout,
+  History
 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { AlertCircle } from "lucide-react";
@@ -33,263 +35,156 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useAccessibility } from "@/hooks/use-accessibility";
 import { usePreferences } from "@/hooks/use-preferences";
 import { WorkspaceCustomizationWizard } from "@/components/WorkspaceCustomizationWizard";
+import { ActiveSessionsList } from "@/components/ActiveSessionsList";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { ApiTokensList } from "@/components/ApiTokensList";
+import { ActivityTimeline } from "@/components/ActivityTimeline";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  CONFIGURABLE_ROLES, PERMISSION_CATEGORIES, NOTIFICATION_EVENT_TYPES, NOTIFICATION_CHANNELS, DEFAULT_NOTIFICATION_PREFERENCES,
+  type PermissionCategory, type NotificationEventType, type NotificationChannel, type NotificationPreferences
+} from "@shared/schema";
 
-// Definição dos tipos de usuário e suas permissões
+// Permissão do catálogo mantido no servidor
 interface Permission {
-  id: string;
+  id: number;
+  key: string;
   name: string;
-  admin: boolean;
-  manager: boolean;
-  creator: boolean;
-  description?: string;
-  category: 'dashboard' | 'projects' | 'tasks' | 'users';
+  description?: string | null;
+  category: PermissionCategory;
 }
 
-// Lista de permissões organizadas por categoria
-const permissions: Permission[] = [
-  // Dashboard
-  { 
-    id: "access_dashboard", 
-    name: "Acessar Dashboard", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite visualizar o painel principal com métricas e resumos",
-    category: "dashboard"
-  },
-  { 
-    id: "view_financial_reports", 
-    name: "Visualizar relatórios financeiros", 
-    admin: true, 
-    manager: false, 
-    creator: false,
-    description: "Permite acessar e visualizar relatórios financeiros e orçamentos",
-    category: "dashboard"
-  },
-  { 
-    id: "view_financial_details", 
-    name: "Acessar detalhes financeiros", 
-    admin: true, 
-    manager: false, 
-    creator: false,
-    description: "Permite ver custos, orçamentos e detalhes de faturamento",
-    category: "dashboard"
-  },
-  { 
-    id: "view_team_performance", 
-    name: "Ver performance da equipe", 
-    admin: true, 
-    manager: true, 
-    creator: false,
-    description: "Permite visualizar métricas e relatórios de desempenho da equipe",
-    category: "dashboard"
-  },
-  
-  // Projetos
-  { 
-    id: "view_all_jobs", 
-    name: "Visualizar todos os Jobs", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite ver todos os projetos cadastrados no sistema",
-    category: "projects"
-  },
-  { 
-    id: "view_job_financials", 
-    name: "Ver informações financeiras dos Jobs", 
-    admin: true, 
-    manager: false, 
-    creator: false,
-    description: "Permite visualizar custos e orçamentos dos projetos",
-    category: "projects"
-  },
-  { 
-    id: "create_edit_jobs", 
-    name: "Criar/Editar Jobs", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite criar novos projetos e editar projetos existentes",
-    category: "projects"
-  },
-  { 
-    id: "approve_jobs", 
-    name: "Aprovar Jobs / Mudar status", 
-    admin: true, 
-    manager: true, 
-    creator: false,
-    description: "Permite aprovar projetos e alterar seus status",
-    category: "projects"
-  },
-  { 
-    id: "duplicate_jobs", 
-    name: "Duplicar Jobs", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite duplicar projetos existentes para criar novos",
-    category: "projects"
-  },
-  { 
-    id: "delete_jobs", 
-    name: "Excluir Jobs", 
-    admin: true, 
-    manager: false, 
-    creator: false,
-    description: "Permite excluir projetos do sistema",
-    category: "projects"
-  },
-  
-  // Tarefas
-  { 
-    id: "view_all_tasks", 
-    name: "Visualizar todas as tarefas", 
-    admin: true, 
-    manager: true, 
-    creator: false,
-    description: "Permite visualizar todas as tarefas do sistema",
-    category: "tasks"
-  },
-  { 
-    id: "view_assigned_tasks", 
-    name: "Visualizar tarefas atribuídas", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite visualizar apenas as tarefas atribuídas ao usuário",
-    category: "tasks"
-  },
-  { 
-    id: "create_edit_tasks", 
-    name: "Criar/Editar tarefas", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite criar e editar tarefas",
-    category: "tasks"
-  },
-  { 
-    id: "assign_tasks", 
-    name: "Atribuir tarefas a usuários", 
-    admin: true, 
-    manager: true, 
-    creator: false,
-    description: "Permite atribuir tarefas a outros usuários",
-    category: "tasks"
-  },
-  { 
-    id: "upload_files", 
-    name: "Upload de arquivos", 
-    admin: true, 
-    manager: true, 
-    creator: true,
-    description: "Permite fazer upload de arquivos para os projetos e tarefas",
-    category: "tasks"
-  },
-  
-  // Usuários
-  { 
-    id: "view_users", 
-    name: "Visualizar usuários", 
-    admin: true, 
-    manager: true, 
-    creator: false,
-    description: "Permite visualizar a lista de usuários do sistema",
-    category: "users"
-  },
-  { 
-    id: "manage_users", 
-    name: "Gerenciar usuários (CRUD)", 
-    admin: true, 
-    manager: false, 
-    creator: false,
-    description: "Permite adicionar, editar, visualizar e remover usuários do sistema",
-    category: "users"
-  },
-  { 
-    id: "assign_roles", 
-    name: "Atribuir funções a usuários", 
-    admin: true, 
-    manager: false, 
-    creator: false,
-    description: "Permite alterar a função (papel) de um usuário no sistema",
-    category: "users"
-  }
-];
+type ConfigurableRole = 'manager' | 'editor' | 'viewer';
+type RolePermissionMatrix = Record<ConfigurableRole, string[]>;
+
+const roleLabels: Record<ConfigurableRole, string> = {
+  manager: 'Gestor',
+  editor: 'Editor',
+  viewer: 'Visualizador'
+};
+
+const categoryLabels: Record<PermissionCategory, string> = {
+  dashboard: 'Dashboard',
+  projects: 'Projetos',
+  tasks: 'Tarefas',
+  clients: 'Clientes',
+  financial: 'Financeiro',
+  users: 'Usuários'
+};
+
+const notificationEventLabels: Record<NotificationEventType, { label: string; description: string }> = {
+  task_assigned: { label: 'Atribuições de Tarefas', description: 'Quando novas tarefas forem atribuídas a você' },
+  comment: { label: 'Comentários', description: 'Novos comentários em tarefas e projetos que você acompanha' },
+  mention: { label: 'Menções', description: 'Quando você for mencionado em comentários' },
+  project_update: { label: 'Atualizações de Projetos', description: 'Mudanças importantes, como projetos atrasados' },
+  payment: { label: 'Pagamentos', description: 'Pagamentos registrados em documentos financeiros' },
+  deadline_reminder: { label: 'Lembretes de Prazos', description: 'Prazos de entregas e vencimentos próximos' },
+  system: { label: 'Novidades do Sistema', description: 'Novidades e dicas de uso' }
+};
+
+const notificationChannelLabels: Record<NotificationChannel, string> = {
+  in_app: 'No sistema',
+  email: 'Email',
+  digest: 'Resumo diário'
+};
 
 // Componente para a aba de RBAC (Role-Based Access Control)
 function RBACSettings() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [localPermissions, setLocalPermissions] = useState<Permission[]>(permissions);
   const [showEditorNote, setShowEditorNote] = useState(true);
-  const [activeCategory, setActiveCategory] = useState<'dashboard' | 'projects' | 'tasks' | 'users'>('dashboard');
+  const [activeCategory, setActiveCategory] = useState<PermissionCategory>('dashboard');
+  const isAdmin = user?.role === 'admin';
 
-  // Nota: Comentamos temporariamente a verificação de permissão para que todos possam ver a aba de RBAC
-  /*
-  if (user?.role !== "admin") {
-    return (
-      <div className="py-6">
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertTitle>Acesso Restrito</AlertTitle>
-          <AlertDescription>
-            Você não tem permissão para acessar as configurações de RBAC. 
-            Esta seção está disponível apenas para administradores.
-          </AlertDescription>
-        </Alert>
-      </div>
-    );
-  }
-  */
+  const { data: permissionList = [], isLoading: isLoadingPermissions } = useQuery<Permission[]>({
+    queryKey: ['/api/permissions'],
+  });
 
-  // Função para atualizar uma permissão específica e mostrar notificação
-  const handlePermissionChange = (permissionId: string, role: 'admin' | 'manager' | 'creator', value: boolean) => {
-    // Atualiza o estado imediatamente
-    setLocalPermissions(prevPermissions => 
-      prevPermissions.map(perm => 
-        perm.id === permissionId ? { ...perm, [role]: value } : perm
-      )
-    );
-    
-    // Mostra notificação de alteração feita
-    const permission = permissions.find(p => p.id === permissionId);
-    const roleMap: Record<string, string> = {
-      'admin': 'Administrador',
-      'manager': 'Gestor',
-      'creator': 'Creator'
-    };
-    
-    showSuccessToast({
-      title: `Permissão ${value ? 'ativada' : 'desativada'}`,
-      description: `${permission?.name} para ${roleMap[role]} foi ${value ? 'ativada' : 'desativada'}.`
-    });
-    
-    // Aqui seria feita uma requisição ao backend para persistir as alterações
-    // No caso real, enviaria os dados para a API
+  const { data: matrix, isLoading: isLoadingMatrix } = useQuery<RolePermissionMatrix>({
+    queryKey: ['/api/permissions/roles'],
+  });
+
+  // Persiste a alteração de uma célula da matriz no servidor
+  const updateRolePermissionMutation = useMutation({
+    mutationFn: async ({ role, key, granted }: { role: ConfigurableRole; key: string; granted: boolean }) => {
+      const res = await apiRequest("PUT", `/api/permissions/roles/${role}/${key}`, { granted });
+      return await res.json();
+    },
+    onMutate: async ({ role, key, granted }) => {
+      // Atualização otimista para o seletor responder imediatamente
+      await queryClient.cancelQueries({ queryKey: ['/api/permissions/roles'] });
+      const previous = queryClient.getQueryData<RolePermissionMatrix>(['/api/permissions/roles']);
+      
+      if (previous) {
+        const current = previous[role] || [];
+        queryClient.setQueryData<RolePermissionMatrix>(['/api/permissions/roles'], {
+          ...previous,
+          [role]: granted ? [...current, key] : current.filter(k => k !== key)
+        });
+      }
+      
+      return { previous };
+    },
+    onSuccess: (_data, { role, key, granted }) => {
+      const permission = permissionList.find(p => p.key === key);
+      showSuccessToast({
+        title: `Permissão ${granted ? 'ativada' : 'desativada'}`,
+        description: `${permission?.name} para ${roleLabels[role]} foi ${granted ? 'ativada' : 'desativada'}.`
+      });
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['/api/permissions/roles'], context.previous);
+      }
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível atualizar a permissão",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/permissions/roles'] });
+    }
+  });
+
+  const handlePermissionChange = (permissionKey: string, role: ConfigurableRole, value: boolean) => {
+    updateRolePermissionMutation.mutate({ role, key: permissionKey, granted: value });
+  };
+
+  const isGranted = (role: ConfigurableRole, permissionKey: string) => {
+    return !!matrix?.[role]?.includes(permissionKey);
   };
 
   // Filtra as permissões pela categoria ativa
-  const filteredPermissions = localPermissions.filter(
+  const filteredPermissions = permissionList.filter(
     permission => permission.category === activeCategory
   );
 
   // Renderiza a tabela de permissões para uma categoria específica
   const renderPermissionsTable = () => {
+    if (isLoadingPermissions || isLoadingMatrix) {
+      return (
+        <div className="py-8 text-center text-sm text-muted-foreground">
+          Carregando permissões...
+        </div>
+      );
+    }
+
     return (
       <Table>
         <TableHeader>
           <TableRow className="bg-muted/50">
             <TableHead className="w-[300px]">Permissão</TableHead>
             <TableHead className="text-center">Admin <span className="text-xs text-muted-foreground block">(acesso total fixo)</span></TableHead>
-            <TableHead className="text-center">Gestor</TableHead>
-            <TableHead className="text-center">Creator</TableHead>
+            {CONFIGURABLE_ROLES.map(role => (
+              <TableHead key={role} className="text-center">{roleLabels[role]}</TableHead>
+            ))}
           </TableRow>
         </TableHeader>
         <TableBody>
           {filteredPermissions.map((permission) => (
-            <TableRow key={permission.id}>
+            <TableRow key={permission.key}>
               <TableCell className="font-medium">
                 <div>
                   {permission.name}
@@ -305,25 +200,25 @@ function RBACSettings() {
                   className="data-[state=checked]:bg-green-500"
                 />
               </TableCell>
-              <TableCell className="text-center">
-                <Switch 
-                  checked={permission.manager} 
-                  onCheckedChange={(value) => handlePermissionChange(permission.id, 'manager', value)}
-                  className="data-[state=checked]:bg-green-500"
-                />
-              </TableCell>
-              <TableCell className="text-center">
-                <Switch 
-                  checked={permission.creator} 
-                  onCheckedChange={(value) => handlePermissionChange(permission.id, 'creator', value)}
-                  className="data-[state=checked]:bg-green-500"
-                />
-                {permission.id === "create_edit_jobs" && permission.creator && (
-                  <div className="text-xs text-muted-foreground mt-1">(apenas jobs atribuídos)</div>
-                )}
-              </TableCell>
+              {CONFIGURABLE_ROLES.map(role => (
+                <TableCell key={role} className="text-center">
+                  <Switch 
+                    checked={isGranted(role, permission.key)} 
+                    disabled={!isAdmin}
+                    onCheckedChange={(value) => handlePermissionChange(permission.key, role, value)}
+                    className="data-[state=checked]:bg-green-500"
+                  />
+                </TableCell>
+              ))}
             </TableRow>
           ))}
+          {filteredPermissions.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={CONFIGURABLE_ROLES.length + 2} className="text-center text-sm text-muted-foreground py-6">
+                Nenhuma permissão cadastrada nesta categoria.
+              </TableCell>
+            </TableRow>
+          )}
         </TableBody>
       </Table>
     );
@@ -337,7 +232,8 @@ function RBACSettings() {
           <AlertTitle className="text-blue-800">Permissões do Sistema</AlertTitle>
           <AlertDescription className="text-blue-600">
             Configure quais funções têm acesso a quais recursos. Clique nos seletores para ativar ou desativar permissões.
-            As alterações são aplicadas automaticamente. Observe que Admins sempre têm acesso total a todas as permissões.
+            As alterações são salvas no servidor e valem para todos os usuários da função. Observe que Admins sempre têm acesso total a todas as permissões.
+            {!isAdmin && " Apenas administradores podem alterar a matriz."}
           </AlertDescription>
           <Button 
             variant="ghost" 
@@ -364,30 +260,15 @@ function RBACSettings() {
           {/* Navegação entre categorias de permissões */}
           <div className="mb-6">
             <div className="border rounded-lg flex overflow-hidden">
-              <button 
-                className={`flex-1 py-2 px-4 text-center font-medium ${activeCategory === 'dashboard' ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'}`}
-                onClick={() => setActiveCategory('dashboard')}
-              >
-                Dashboard
-              </button>
-              <button 
-                className={`flex-1 py-2 px-4 text-center font-medium ${activeCategory === 'projects' ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'}`}
-                onClick={() => setActiveCategory('projects')}
-              >
-                Projetos
-              </button>
-              <button 
-                className={`flex-1 py-2 px-4 text-center font-medium ${activeCategory === 'tasks' ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'}`}
-                onClick={() => setActiveCategory('tasks')}
-              >
-                Tarefas
-              </button>
-              <button 
-                className={`flex-1 py-2 px-4 text-center font-medium ${activeCategory === 'users' ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'}`}
-                onClick={() => setActiveCategory('users')}
-              >
-                Usuários
-              </button>
+              {PERMISSION_CATEGORIES.map(category => (
+                <button 
+                  key={category}
+                  className={`flex-1 py-2 px-4 text-center font-medium ${activeCategory === category ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'}`}
+                  onClick={() => setActiveCategory(category)}
+                >
+                  {categoryLabels[category]}
+                </button>
+              ))}
             </div>
           </div>
           
@@ -399,6 +280,26 @@ function RBACSettings() {
   );
 }
 
+// Componente para a aba de Atividade (registro global, apenas administradores)
+function ActivitySettings() {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-blue-500" />
+          <CardTitle>Registro de Atividades</CardTitle>
+        </div>
+        <CardDescription>
+          Quem criou, alterou ou excluiu projetos, tarefas, clientes, contatos, despesas e eventos, com os valores anteriores e novos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ActivityTimeline endpoint="/api/activity" showUserFilter />
+      </CardContent>
+    </Card>
+  );
+}
+
 // Componente para a aba de Perfil
 function ProfileSettings() {
   const { user, updateProfileMutation, changePasswordMutation } = useAuth();
@@ -695,6 +596,39 @@ function ProfileSettings() {
             </form>
           </CardContent>
         )}
+        
+        <CardContent className={passwordVisible ? "border-t pt-6" : undefined}>
+          <div className="flex items-center space-x-2 mb-1">
+            <ShieldIcon className="h-4 w-4 text-gray-500" />
+            <h3 className="text-sm font-semibold">Verificação em dois fatores</h3>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Além da senha, o login pedirá um código gerado pelo app autenticador do seu celular.
+          </p>
+          <TwoFactorSettings />
+        </CardContent>
+
+        <CardContent className="border-t pt-6">
+          <div className="flex items-center space-x-2 mb-1">
+            <MonitorSmartphoneIcon className="h-4 w-4 text-gray-500" />
+            <h3 className="text-sm font-semibold">Sessões ativas</h3>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Dispositivos conectados à sua conta. Encerre as sessões que você não reconhece.
+          </p>
+          <ActiveSessionsList />
+        </CardContent>
+
+        <CardContent className="border-t pt-6">
+          <div className="flex items-center space-x-2 mb-1">
+            <KeyRoundIcon className="h-4 w-4 text-gray-500" />
+            <h3 className="text-sm font-semibold">Tokens de API</h3>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Tokens de acesso pessoais para scripts e integrações, limitados aos escopos escolhidos.
+          </p>
+          <ApiTokensList />
+        </CardContent>
       </Card>
     </div>
   );
@@ -703,24 +637,45 @@ function ProfileSettings() {
 // Componente para a aba de Notificações
 function NotificationSettings() {
   const { toast } = useToast();
-  const [saving, setSaving] = useState(false);
-  const [emailNotifications, setEmailNotifications] = useState({
-    projectUpdates: true,
-    taskAssignments: true,
-    mentions: true,
-    reminders: false,
-    newsletter: false
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  const { data: userPreferences, isLoading } = useQuery<{ notification_preferences?: NotificationPreferences }>({
+    queryKey: ['/api/user-preferences'],
   });
 
-  const handleSaveNotifications = () => {
-    setSaving(true);
-    setTimeout(() => {
-      setSaving(false);
+  // Sincronizar o estado local com as preferências salvas no servidor
+  useEffect(() => {
+    if (userPreferences?.notification_preferences) {
+      setNotificationPreferences(userPreferences.notification_preferences);
+    }
+  }, [userPreferences]);
+
+  const saveNotificationsMutation = useMutation({
+    mutationFn: async (notification_preferences: NotificationPreferences) => {
+      const res = await apiRequest("PATCH", "/api/user-preferences", { notification_preferences });
+      return await res.json();
+    },
+    onSuccess: (updatedPreferences) => {
+      queryClient.setQueryData(['/api/user-preferences'], updatedPreferences);
       showSuccessToast({
         title: "Preferências de notificação atualizadas",
         description: "Suas preferências de notificação foram salvas com sucesso."
       });
-    }, 1500);
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao salvar preferências",
+        description: "Não foi possível salvar suas preferências de notificação.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleChannel = (eventType: NotificationEventType, channel: NotificationChannel, value: boolean) => {
+    setNotificationPreferences(prev => ({
+      ...prev,
+      [eventType]: { ...prev[eventType], [channel]: value }
+    }));
   };
 
   return (
@@ -736,89 +691,53 @@ function NotificationSettings() {
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
-          <div>
-            <h3 className="text-lg font-medium mb-4">Notificações por Email</h3>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="project-updates">Atualizações de Projetos</Label>
-                  <p className="text-sm text-muted-foreground">Receba emails quando projetos forem atualizados</p>
-                </div>
-                <Switch 
-                  id="project-updates" 
-                  checked={emailNotifications.projectUpdates}
-                  onCheckedChange={(value) => setEmailNotifications(prev => ({...prev, projectUpdates: value}))}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="task-assignments">Atribuições de Tarefas</Label>
-                  <p className="text-sm text-muted-foreground">Receba emails quando novas tarefas forem atribuídas a você</p>
-                </div>
-                <Switch 
-                  id="task-assignments" 
-                  checked={emailNotifications.taskAssignments}
-                  onCheckedChange={(value) => setEmailNotifications(prev => ({...prev, taskAssignments: value}))}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="mentions">Menções e Comentários</Label>
-                  <p className="text-sm text-muted-foreground">Receba emails quando for mencionado em comentários</p>
-                </div>
-                <Switch 
-                  id="mentions" 
-                  checked={emailNotifications.mentions}
-                  onCheckedChange={(value) => setEmailNotifications(prev => ({...prev, mentions: value}))}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="reminders">Lembretes de Prazos</Label>
-                  <p className="text-sm text-muted-foreground">Receba lembretes de prazos próximos</p>
-                </div>
-                <Switch 
-                  id="reminders" 
-                  checked={emailNotifications.reminders}
-                  onCheckedChange={(value) => setEmailNotifications(prev => ({...prev, reminders: value}))}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="newsletter">Newsletter e Atualizações do Sistema</Label>
-                  <p className="text-sm text-muted-foreground">Receba emails sobre novidades e dicas de uso</p>
-                </div>
-                <Switch 
-                  id="newsletter" 
-                  checked={emailNotifications.newsletter}
-                  onCheckedChange={(value) => setEmailNotifications(prev => ({...prev, newsletter: value}))}
-                />
-              </div>
-            </div>
-          </div>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Carregando preferências...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Evento</TableHead>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <TableHead key={channel} className="text-center">{notificationChannelLabels[channel]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {NOTIFICATION_EVENT_TYPES.map(eventType => (
+                  <TableRow key={eventType}>
+                    <TableCell>
+                      <Label>{notificationEventLabels[eventType].label}</Label>
+                      <p className="text-sm text-muted-foreground">{notificationEventLabels[eventType].description}</p>
+                    </TableCell>
+                    {NOTIFICATION_CHANNELS.map(channel => (
+                      <TableCell key={channel} className="text-center">
+                        <Switch
+                          aria-label={`${notificationEventLabels[eventType].label} - ${notificationChannelLabels[channel]}`}
+                          checked={notificationPreferences[eventType][channel]}
+                          onCheckedChange={(value) => toggleChannel(eventType, channel, value)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
           
           <Separator />
           
-          <div>
-            <h3 className="text-lg font-medium mb-4">Notificações no Sistema</h3>
-            <p className="text-sm text-muted-foreground mb-4">
-              Essas notificações sempre serão exibidas no sistema, independentemente das configurações acima.
-            </p>
-            <ul className="list-disc pl-5 space-y-2">
-              <li>Novas mensagens diretas</li>
-              <li>Solicitações de aprovação</li>
-              <li>Alertas de segurança</li>
-              <li>Avisos de manutenção do sistema</li>
-            </ul>
-          </div>
+          <p className="text-sm text-muted-foreground">
+            O resumo diário reúne por email os eventos do dia em uma única mensagem. Alertas de segurança
+            e avisos de manutenção do sistema são sempre exibidos, independentemente das configurações acima.
+          </p>
           
           <div className="flex justify-end">
-            <Button onClick={handleSaveNotifications} disabled={saving}>
-              {saving ? "Salvando..." : "Salvar Preferências"}
+            <Button
+              onClick={() => saveNotificationsMutation.mutate(notificationPreferences)}
+              disabled={saveNotificationsMutation.isPending || isLoading}
+            >
+              {saveNotificationsMutation.isPending ? "Salvando..." : "Salvar Preferências"}
             </Button>
           </div>
         </div>
@@ -1309,6 +1228,7 @@ function PersonalizationSettings() {
 export default function Settings() {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("rbac");
+  const isAdmin = user?.role === 'admin';
   
   // Definimos "rbac" como aba padrão para demonstração
   useEffect(() => {
@@ -1332,7 +1252,7 @@ export default function Settings() {
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="w-full border-b grid grid-cols-1 md:grid-cols-6 mb-8">
+        <TabsList className={`w-full border-b grid grid-cols-1 ${isAdmin ? 'md:grid-cols-7' : 'md:grid-cols-6'} mb-8`}>
           <TabsTrigger value="profile" className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary">
             <UserIcon className="h-4 w-4 mr-2" />
             Perfil
@@ -1358,6 +1278,12 @@ export default function Settings() {
             <ShieldIcon className="h-4 w-4 mr-2" />
             <span>Permissões</span>
           </TabsTrigger>
+          {isAdmin && (
+            <TabsTrigger value="activity" className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary">
+              <History className="h-4 w-4 mr-2" />
+              Atividade
+            </TabsTrigger>
+          )}
         </TabsList>
         
         <TabsContent value="profile">
@@ -1383,6 +1309,12 @@ export default function Settings() {
         <TabsContent value="rbac">
           <RBACSettings />
         </TabsContent>
+        
+        {isAdmin && (
+          <TabsContent value="activity">
+            <ActivitySettings />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -1,27 +1,20 @@
 import { useState, useRef, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, type Query } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { onWebSocketMessage } from "@/lib/socket";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { parseISO, format } from "date-fns";
+import { format } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
-import { motion } from "framer-motion";
 import { 
   formatDate, 
   formatDueDateWithDaysRemaining, 
   isTaskOverdue, 
   isTaskDueSoon, 
-  getTaskSortFunction,
   truncateText,
-  getInitials,
-  generateAvatarColor,
-  showSuccessToast,
-  animations
+  showSuccessToast
 } from "@/lib/utils";
-import { AnimatedElement } from "@/components/ui/animated-element";
 import {
   Select,
   SelectContent,
@@ -29,6 +22,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import TaskDetailSidebarNew from "@/components/TaskDetailSidebarNew";
 import {
   Dialog,
@@ -50,25 +51,32 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { useForm } from "react-hook-form";
+import { useForm, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertTaskSchema } from "@shared/schema";
+import {
+  insertTaskSchema,
+  taskListSearchParams,
+  type TaskListFilters,
+  type TaskSortDirection,
+  type TaskSortField,
+  type TaskView
+} from "@shared/schema";
 import {
   Plus,
-  Search,
   Calendar,
-  CalendarDays,
   MessageSquare,
   Paperclip,
-  User,
   MoreHorizontal,
-  Clock,
   CheckCircle,
   AlarmClock,
   Trash2,
-  ChevronUp,
-  ChevronDown
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Sparkles
 } from "lucide-react";
 
 import {
@@ -81,11 +89,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { TASK_STATUS_OPTIONS, TASK_PRIORITY_OPTIONS } from "@/lib/constants";
-// Já importado anteriormente
+import { TASK_STATUS_OPTIONS, TASK_PRIORITY_OPTIONS, TASK_STATUS_COLORS } from "@/lib/constants";
 import { TaskWithDetails } from "@/lib/types";
 import { UserAvatar } from "@/components/UserAvatar";
-import { ClientAvatar } from "@/components/ClientAvatar";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -94,6 +100,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import PriorityBadge from "@/components/PriorityBadge";
+import { TaskFilterBar, TaskSavedViewsMenu, TaskTagsInput } from "@/components/tasks";
 
 // Form schema for task creation and editing
 const taskFormSchema = insertTaskSchema.extend({
@@ -107,18 +114,48 @@ const taskFormSchema = insertTaskSchema.extend({
   due_time_temp: z.string().nullable().optional(),
 });
 
-export default function Tasks() {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [priorityFilter, setPriorityFilter] = useState("all");
-  const [projectFilter, setProjectFilter] = useState("all");
-  const [userFilter, setUserFilter] = useState("all");
-  const [clientFilter, setClientFilter] = useState("all");
-  // Estado para controlar a exibição das tarefas concluídas
-  const [showAllCompleted, setShowAllCompleted] = useState(false);
+// Os campos do formulário guardam as datas como digitadas; o envio recebe os valores convertidos
+type TaskFormInput = z.input<typeof taskFormSchema>;
+type TaskFormValues = z.infer<typeof taskFormSchema>;
+
+// Página da lista paginada de GET /api/tasks
+interface TaskListPage {
+  tasks: TaskWithDetails[];
+  total: number;
+}
+
+const PAGE_SIZE = 25;
+
+// Visão padrão: tarefas pendentes na ordenação inteligente
+const DEFAULT_FILTERS: TaskListFilters = { completed: false };
+const DEFAULT_SORT: { sortBy: TaskSortField; sortDir: TaskSortDirection } = { sortBy: "smart", sortDir: "desc" };
+
+// Direção inicial ao clicar numa coluna: textos e prazos crescem, pesos decrescem
+const INITIAL_SORT_DIRECTION: Record<TaskSortField, TaskSortDirection> = {
+  smart: "desc",
+  title: "asc",
+  priority: "desc",
+  status: "desc",
+  due_date: "asc",
+  created: "desc"
+};
+
+// Todas as consultas de tarefas (lista completa, páginas filtradas e detalhes)
+const isTaskQuery = (query: Query) => {
+  const [key] = query.queryKey;
+  return typeof key === "string" && key.startsWith("/api/tasks");
+};
+
+export default function Tasks({ params }: { params?: { id?: string } }) {
+  const [filters, setFilters] = useState<TaskListFilters>(DEFAULT_FILTERS);
+  const [sort, setSort] = useState(DEFAULT_SORT);
+  const [page, setPage] = useState(0);
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<TaskWithDetails | null>(null);
-  const [taskDetailId, setTaskDetailId] = useState<number | null>(null);
+  const [taskDetailId, setTaskDetailId] = useState<number | null>(
+    params?.id ? parseInt(params.id) : null
+  );
   
   // Estados para o diálogo de confirmação de exclusão
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
@@ -127,9 +164,17 @@ export default function Tasks() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  // /tasks/:id (ex.: resultado da busca) abre os detalhes da tarefa
+  useEffect(() => {
+    if (params?.id) {
+      setTaskDetailId(parseInt(params.id));
+    }
+  }, [params?.id]);
+
   // Task form
-  const form = useForm<z.infer<typeof taskFormSchema>>({
-    resolver: zodResolver(taskFormSchema),
+  const form = useForm<TaskFormInput, unknown, TaskFormValues>({
+    // zodResolver (v3) não tipa a saída transformada separada da entrada
+    resolver: zodResolver(taskFormSchema) as Resolver<TaskFormInput, unknown, TaskFormValues>,
     defaultValues: {
       title: "",
       description: "",
@@ -140,21 +185,25 @@ export default function Tasks() {
       estimated_hours: undefined,
       due_date: undefined,
       start_date: undefined,
+      tags: [],
       due_time_temp: undefined,
     },
   });
 
-  // Fetch tasks com otimizações de caching e performance
-  const { data: tasks = [], isLoading: isLoadingTasks } = useQuery<TaskWithDetails[]>({
-    queryKey: ['/api/tasks'],
+  // Filtros, ordenação e paginação são aplicados pelo servidor
+  const listParams = taskListSearchParams(filters, sort);
+  listParams.set("limit", String(PAGE_SIZE));
+  listParams.set("offset", String(page * PAGE_SIZE));
+  const listKey = `/api/tasks?${listParams.toString()}`;
+
+  const { data: taskPage, isLoading: isLoadingTasks, isFetching: isFetchingTasks } = useQuery<TaskListPage>({
+    queryKey: [listKey],
     staleTime: 30 * 1000, // 30 segundos antes de considerar os dados obsoletos
-    gcTime: 5 * 60 * 1000, // 5 minutos de cache
-    refetchOnWindowFocus: true, // Recarrega quando a janela recebe foco
-    onSuccess: (data) => {
-      // Removendo logs de depuração que não são mais necessários
-      // e podem prejudicar a performance
-    }
+    placeholderData: (previous) => previous, // Mantém a página atual enquanto a próxima carrega
   });
+  const tasks = taskPage?.tasks ?? [];
+  const total = taskPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   // Fetch projects for dropdown com otimizações
   const { data: projects = [] } = useQuery<any[]>({
@@ -180,109 +229,58 @@ export default function Tasks() {
     refetchOnWindowFocus: false // Clientes não precisam ser recarregados ao focar a janela
   });
 
-  // Listener para notificações de tarefas via WebSocket
-  const setupTaskWebSocketListener = () => {
-    // Remover handlers existentes para evitar duplicações
-    const cleanupFn = onWebSocketMessage('task_created', (data) => {
-      // Atualizar cache sem fazer nova requisição
-      queryClient.setQueryData(['/api/tasks'], (oldData: TaskWithDetails[] | undefined) => {
-        if (!oldData) return [data.task];
-        return [...oldData, data.task];
-      });
-    });
-    
-    return cleanupFn;
+  // Tarefas alteradas por outros usuários chegam pela sincronização em tempo real
+  // (useEntityChangeSync), que invalida todas as consultas /api/tasks
+  const invalidateTasks = () => queryClient.invalidateQueries({ predicate: isTaskQuery });
+
+  // Qualquer mudança de filtro ou ordenação volta para a primeira página; a visão ativa
+  // continua selecionada para poder ser atualizada com os novos filtros
+  const handleFiltersChange = (patch: Partial<TaskListFilters>) => {
+    setFilters(current => ({ ...current, ...patch }));
+    setPage(0);
+  };
+
+  const handleSort = (field: TaskSortField) => {
+    setSort(current => current.sortBy === field
+      ? { sortBy: field, sortDir: current.sortDir === "asc" ? "desc" : "asc" }
+      : { sortBy: field, sortDir: INITIAL_SORT_DIRECTION[field] });
+    setPage(0);
   };
-  
-  // Configurar o listener WebSocket quando o componente for montado
-  // e limpá-lo quando for desmontado
-  useEffect(() => {
-    const cleanupListener = setupTaskWebSocketListener();
-    return () => cleanupListener();
-  }, []);
 
-  // Create task mutation com suporte a atualização otimista
+  const handleApplyView = (view: TaskView) => {
+    setFilters(view.filters);
+    setSort({ sortBy: view.sort_by, sortDir: view.sort_dir });
+    setActiveViewId(view.id);
+    setPage(0);
+  };
+
+  const handleResetView = () => {
+    setFilters(DEFAULT_FILTERS);
+    setSort(DEFAULT_SORT);
+    setActiveViewId(null);
+    setPage(0);
+  };
+
+  // Create task mutation
   const createTaskMutation = useMutation({
     mutationFn: async (data: any) => {
       return apiRequest('POST', '/api/tasks', data);
     },
-    onMutate: async (newTaskData) => {
-      // Cancelar qualquer requisição em andamento
-      await queryClient.cancelQueries({ queryKey: ['/api/tasks'] });
-      
-      // Salvar o estado anterior
-      const previousTasks = queryClient.getQueryData(['/api/tasks']);
-      
-      // Criar ID temporário para a nova tarefa
-      const tempId = Date.now();
-      
-      // Criar objeto de tarefa temporário
-      const tempTask: TaskWithDetails = {
-        id: tempId,
-        title: newTaskData.title,
-        description: newTaskData.description || "",
-        status: newTaskData.status || "pendente",
-        priority: newTaskData.priority || "media",
-        due_date: newTaskData.due_date || null,
-        start_date: newTaskData.start_date || null,
-        estimated_hours: newTaskData.estimated_hours || null,
-        completed: newTaskData.completed || false,
-        project_id: newTaskData.project_id || null,
-        assigned_to: newTaskData.assigned_to || null,
-        creation_date: new Date().toISOString(),
-        // Adicionar dados de projeto e usuário, se disponíveis
-        project: newTaskData.project_id ? 
-          projects.find(p => p.id === parseInt(newTaskData.project_id)) : undefined,
-        assignedUser: newTaskData.assigned_to ? 
-          users.find(u => u.id === parseInt(newTaskData.assigned_to)) : undefined,
-        // Flag para indicar que é uma tarefa temporária
-        _isOptimistic: true
-      };
-      
-      // Atualizar o cache com a nova tarefa
-      queryClient.setQueryData(['/api/tasks'], (old: any[] = []) => {
-        return [...old, tempTask];
-      });
-      
-      // Mostrar toast imediatamente
+    onSuccess: () => {
+      invalidateTasks();
       showSuccessToast({
-        title: "Tarefa adicionada",
-        description: "A tarefa foi adicionada e está sendo salva...",
+        title: "Tarefa criada",
+        description: "Tarefa criada com sucesso",
       });
-      
-      // Fechar o diálogo imediatamente
       setIsDialogOpen(false);
       form.reset();
-      
-      // Retornar o estado anterior para caso de rollback
-      return { previousTasks };
     },
-    onError: (error, newTask, context) => {
-      // Reverter para o estado anterior em caso de erro
-      if (context?.previousTasks) {
-        queryClient.setQueryData(['/api/tasks'], context.previousTasks);
-      }
-      
-      // Mostrar mensagem de erro
+    onError: (error) => {
       toast({
         title: "Erro ao criar tarefa",
         description: error.message,
         variant: "destructive",
       });
-      
-      // Reabrir o diálogo com os dados preenchidos
-      setIsDialogOpen(true);
-      form.reset(newTask);
-    },
-    onSuccess: (response) => {
-      // Invalidar o cache para atualizar a lista com a versão real do servidor
-      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
-      
-      // Mostrar toast de confirmação final
-      showSuccessToast({
-        title: "Tarefa salva",
-        description: "Tarefa criada com sucesso no servidor",
-      });
     },
   });
 
@@ -293,8 +291,7 @@ export default function Tasks() {
     },
     onSuccess: () => {
       // Invalidar todas as queries relacionadas a tarefas para atualizar tanto a página quanto a sidebar
-      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/tasks'], exact: false });
+      invalidateTasks();
       
       showSuccessToast({ 
         title: "Tarefa atualizada", 
@@ -319,7 +316,7 @@ export default function Tasks() {
       return apiRequest('DELETE', `/api/tasks/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      invalidateTasks();
       showSuccessToast({
         title: "Tarefa excluída",
         description: "Tarefa excluída com sucesso",
@@ -348,48 +345,36 @@ export default function Tasks() {
     mutationFn: async ({ id, completed }: { id: number; completed: boolean }) => {
       // Quando a tarefa é marcada como concluída, também mudamos o status para "concluido"
       // Quando é desmarcada, voltamos para o status "pendente"
-      // Estratégia 3: Deixamos o servidor definir a data de conclusão
+      // Deixamos o servidor definir a data de conclusão
       const completionData = { 
         completed: completed,
-        // Atualiza o status baseado no estado de conclusão
         status: completed ? "concluido" : "pendente"
-        // Não enviamos o completion_date - o servidor já tem lógica para definir isso
       };
       
       return apiRequest('PATCH', `/api/tasks/${id}`, completionData);
     },
-    // Usar otimistic updates para atualização imediata na UI
+    // Atualização otimista da página exibida
     onMutate: async ({ id, completed }) => {
-      // Cancelar consultas pendentes para evitar sobrescrever o update otimista
-      await queryClient.cancelQueries({ queryKey: ['/api/tasks'] });
-      
-      // Guardar estado anterior para fallback em caso de erro
-      const previousTasks = queryClient.getQueryData(['/api/tasks']);
+      await queryClient.cancelQueries({ queryKey: [listKey] });
+      const previousPage = queryClient.getQueryData<TaskListPage>([listKey]);
       
-      // Atualizar a tarefa no cache de forma otimista
-      queryClient.setQueryData(['/api/tasks'], (old: any) => {
-        if (!Array.isArray(old)) return old;
-        return old.map((task: any) => {
-          if (task.id === id) {
-            return { 
-              ...task, 
-              completed: completed,
+      queryClient.setQueryData<TaskListPage>([listKey], (old) => old && {
+        ...old,
+        tasks: old.tasks.map(task => task.id === id
+          ? {
+              ...task,
+              completed,
               status: completed ? "concluido" : "pendente",
-              // Na UI, mostramos uma data provisória para feedback imediato
-              // Esta data será substituída pelo valor real do servidor
-              completion_date: completed ? new Date().toISOString() : null
-            };
-          }
-          return task;
-        });
+              // Data provisória, substituída pelo valor real do servidor
+              completion_date: completed ? new Date() : null
+            }
+          : task)
       });
       
-      return { previousTasks };
+      return { previousPage };
     },
     onSuccess: () => {
-      // Ainda invalidamos a query para garantir sincronização com o servidor
-      // mas o usuário já viu a mudança instantaneamente
-      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      invalidateTasks();
       showSuccessToast({ 
         title: "Tarefa atualizada", 
         description: "Status de conclusão atualizado com sucesso" 
@@ -397,8 +382,8 @@ export default function Tasks() {
     },
     onError: (error, _variables, context) => {
       // Em caso de erro, restaurar os dados ao estado anterior
-      if (context?.previousTasks) {
-        queryClient.setQueryData(['/api/tasks'], context.previousTasks);
+      if (context?.previousPage) {
+        queryClient.setQueryData([listKey], context.previousPage);
       }
       
       toast({
@@ -410,7 +395,7 @@ export default function Tasks() {
   });
 
   // Form submission handler
-  const onSubmit = (data: z.infer<typeof taskFormSchema>) => {
+  const onSubmit = (data: TaskFormValues) => {
     // Criamos uma cópia dos dados para processar
     const processedData = { ...data };
     
@@ -445,22 +430,8 @@ export default function Tasks() {
       else if (processedData.due_date && dueTimeTemp) {
         console.log("Caso 2: Combinando due_date existente com hora específica");
         
-        let baseDate: Date;
-        
-        // Verificar se a data está em formato string ou já é um objeto Date
-        if (typeof processedData.due_date === 'string') {
-          // Se for uma string ISO, parseamos diretamente
-          if (processedData.due_date.includes('T')) {
-            baseDate = new Date(processedData.due_date);
-          } 
-          // Se for uma string simples (YYYY-MM-DD), criamos uma data às 00:00
-          else {
-            baseDate = new Date(`${processedData.due_date}T00:00:00`);
-          }
-        } else {
-          // Se já for um objeto Date, usamos diretamente
-          baseDate = new Date(processedData.due_date);
-        }
+        // O schema do formulário já converte a data digitada (YYYY-MM-DD) em Date
+        const baseDate = new Date(processedData.due_date);
         
         // Dividir a hora em horas e minutos
         const [hours, minutes] = dueTimeTemp.split(':').map(Number);
@@ -499,6 +470,7 @@ export default function Tasks() {
       estimated_hours: undefined,
       due_date: undefined,
       start_date: undefined,
+      tags: [],
       due_time_temp: undefined,
     });
     setIsDialogOpen(true);
@@ -570,6 +542,12 @@ export default function Tasks() {
     }
   };
   
+  // Limpa os filtros mantendo a situação (pendentes/concluídas)
+  const handleClearFilters = () => {
+    setFilters(current => ({ completed: current.completed }));
+    setPage(0);
+  };
+  
   // Handle task checkbox toggle
   const handleToggleTaskCompletion = (taskId: number, currentStatus: boolean | null) => {
     toggleTaskCompletionMutation.mutate({
@@ -578,52 +556,9 @@ export default function Tasks() {
     });
   };
 
-  // Filter tasks based on criteria
-  let filteredTasks = tasks?.filter((task: TaskWithDetails) => {
-    // Search term filter
-    if (searchTerm && !task.title.toLowerCase().includes(searchTerm.toLowerCase())) {
-      return false;
-    }
-    
-    // Status filter
-    if (statusFilter !== "all" && task.status !== statusFilter) {
-      return false;
-    }
-    
-    // Priority filter
-    if (priorityFilter !== "all" && task.priority !== priorityFilter) {
-      return false;
-    }
-    
-    // Project filter
-    if (projectFilter !== "all" && task.project_id !== parseInt(projectFilter)) {
-      return false;
-    }
-    
-    // User filter
-    if (userFilter !== "all" && task.assigned_to !== parseInt(userFilter)) {
-      return false;
-    }
-    
-    // Client filter
-    if (clientFilter !== "all") {
-      // Precisamos verificar o cliente associado ao projeto
-      const project = projects.find(p => p.id === task.project_id);
-      if (!project || project.client_id !== parseInt(clientFilter)) {
-        return false;
-      }
-    }
-    
-    // Removemos os filtros baseados no activeTab para permitir
-    // que ambas as seções (pendentes e concluídas) sejam exibidas simultaneamente
-    
-    return true;
-  });
-  
-  // Sort tasks by the intelligent priority algorithm
-  if (filteredTasks) {
-    filteredTasks = [...filteredTasks].sort(getTaskSortFunction());
-  }
+
+  const firstItem = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastItem = Math.min(total, (page + 1) * PAGE_SIZE);
 
   return (
     <div className="space-y-4 relative">
@@ -672,201 +607,115 @@ export default function Tasks() {
         
         {/* Lista de tarefas */}
         <Card className="overflow-hidden">
-          <div className="bg-gray-50 p-4 flex items-center gap-2 border-b border-gray-200">
-            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-600">
-              <line x1="8" y1="6" x2="21" y2="6" />
-              <line x1="8" y1="12" x2="21" y2="12" />
-              <line x1="8" y1="18" x2="21" y2="18" />
-              <line x1="3" y1="6" x2="3.01" y2="6" />
-              <line x1="3" y1="12" x2="3.01" y2="12" />
-              <line x1="3" y1="18" x2="3.01" y2="18" />
-            </svg>
-            <h2 className="text-sm font-medium text-gray-700">Lista</h2>
+          {/* Visões salvas e filtros */}
+          <div className="bg-gray-50 p-4 flex flex-col lg:flex-row lg:items-start gap-2 border-b border-gray-200">
+            <TaskSavedViewsMenu
+              filters={filters}
+              sortBy={sort.sortBy}
+              sortDir={sort.sortDir}
+              activeViewId={activeViewId}
+              onApply={handleApplyView}
+              onReset={handleResetView}
+            />
+            <div className="flex-1">
+              <TaskFilterBar
+                filters={filters}
+                onChange={handleFiltersChange}
+                onClear={handleClearFilters}
+                projects={projects}
+                clients={clients}
+                users={users}
+              />
+            </div>
           </div>
           
-          {/* Tarefas Pendentes */}
-          <CardContent className="p-6">
-            <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-5">
-              <div className="flex items-center gap-3">
-                <AlarmClock className="h-5 w-5 text-amber-500" />
-                <h2 className="text-lg font-semibold">Tarefas Pendentes</h2>
-                {tasks && (
-                  <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
-                    {tasks.filter(t => !t.completed).length}
-                  </Badge>
-                )}
+          <CardContent className="p-0">
+            {isLoadingTasks ? (
+              <div className="flex justify-center items-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
               </div>
-              
-              <div className="flex flex-col md:flex-row items-start md:items-center gap-3">
-                {/* Filtros - primeira linha (em mobile) ou todos em linha (desktop) */}
-                <div className="flex flex-wrap w-full md:w-auto items-center gap-2">
-                  {/* Campo de busca */}
-                  <div className="relative w-full sm:w-64">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                    <Input
-                      placeholder="Buscar tarefas..."
-                      className="pl-9 bg-gray-50 border-gray-200"
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                    />
-                  </div>
-                  
-                  {/* Filtro por Prioridade */}
-                  <Select value={priorityFilter} onValueChange={setPriorityFilter}>
-                    <SelectTrigger className="w-full sm:w-40 bg-gray-50 border-gray-200">
-                      <SelectValue placeholder="Prioridade" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">Todas</SelectItem>
-                      {TASK_PRIORITY_OPTIONS.map(option => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  
-                  {/* Filtro por Cliente */}
-                  <Select value={clientFilter} onValueChange={setClientFilter}>
-                    <SelectTrigger className="w-full sm:w-40 bg-gray-50 border-gray-200">
-                      <SelectValue placeholder="Cliente" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">Todos</SelectItem>
-                      {clients.map(client => (
-                        <SelectItem key={client.id} value={client.id.toString()}>
-                          {client.shortName || client.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </header>
-            
-            {/* Tasks List */}
-            <div className="space-y-3">
-              {isLoadingTasks ? (
-                <div className="flex justify-center items-center py-8">
-                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
-                </div>
-              ) : filteredTasks && filteredTasks.filter(task => !task.completed).length > 0 ? (
-                filteredTasks.filter(task => !task.completed).map(task => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    onToggleComplete={() => handleToggleTaskCompletion(task.id, task.completed)}
-                    onView={() => handleViewTaskDetails(task.id)}
-                    onDelete={() => handleDeleteTask(task.id)}
-                    onEdit={() => handleEditTask(task.id)}
-                  />
-                ))
-              ) : (
-                <div className="bg-gray-50 rounded-lg p-8 text-center">
-                  <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-3">
-                    <CheckCircle className="h-6 w-6 text-gray-400" />
-                  </div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-1">Nenhuma tarefa pendente</h3>
-                  <p className="text-gray-500 text-sm mb-4">
-                    Todas as tarefas foram concluídas ou não correspondem aos filtros aplicados.
-                  </p>
-                  <Button onClick={handleNewTask}>Criar nova tarefa</Button>
+            ) : tasks.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-3">
+                  <CheckCircle className="h-6 w-6 text-gray-400" />
                 </div>
-              )}
-            </div>
-          </CardContent>
-          
-          {/* Tarefas Concluídas */}
-          <CardContent className="border-t border-gray-200 bg-gray-50 p-6">
-            <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-5">
-              <div className="flex items-center gap-3">
-                <CheckCircle className="h-5 w-5 text-green-500" />
-                <h2 className="text-lg font-semibold">Tarefas Concluídas</h2>
-                {tasks && (
-                  <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                    {tasks.filter(t => t.completed).length}
-                  </Badge>
-                )}
+                <h3 className="text-lg font-medium text-gray-900 mb-1">Nenhuma tarefa encontrada</h3>
+                <p className="text-gray-500 text-sm mb-4">
+                  Nenhuma tarefa corresponde aos filtros aplicados.
+                </p>
+                <Button onClick={handleNewTask}>Criar nova tarefa</Button>
               </div>
-              <div className="flex justify-end">
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setShowAllCompleted(!showAllCompleted)} 
-                  className="text-xs text-muted-foreground hover:text-primary bg-white"
-                >
-                  {showAllCompleted ? (
-                    <>
-                      <ChevronUp className="h-3.5 w-3.5 mr-1" />
-                      Mostrar menos
-                    </>
-                  ) : (
-                    <>
-                      <ChevronDown className="h-3.5 w-3.5 mr-1" />
-                      Mostrar todas
-                    </>
-                  )}
-                </Button>
-              </div>
-            </header>
-            
-            {/* Lista de Tarefas Concluídas */}
-            {showAllCompleted ? (
-              <div className="space-y-3">
-                {isLoadingTasks ? (
-                  <div className="flex justify-center items-center py-8">
-                    <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
-                  </div>
-                ) : filteredTasks && filteredTasks.filter(task => task.completed).length > 0 ? (
-                  filteredTasks.filter(task => task.completed).map(task => (
-                    <TaskCard
+            ) : (
+              <Table className={cn(isFetchingTasks && "opacity-60 transition-opacity")}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <SortableHead label="Tarefa" field="title" sort={sort} onSort={handleSort} />
+                    <TableHead className="hidden lg:table-cell">Responsável</TableHead>
+                    <SortableHead label="Prioridade" field="priority" sort={sort} onSort={handleSort} />
+                    <SortableHead label="Status" field="status" sort={sort} onSort={handleSort} className="hidden md:table-cell" />
+                    <SortableHead label="Prazo" field="due_date" sort={sort} onSort={handleSort} />
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tasks.map(task => (
+                    <TaskRow
                       key={task.id}
                       task={task}
                       onToggleComplete={() => handleToggleTaskCompletion(task.id, task.completed)}
-                      onDelete={() => handleDeleteTask(task.id)}
                       onView={() => handleViewTaskDetails(task.id)}
                       onEdit={() => handleEditTask(task.id)}
+                      onDelete={() => handleDeleteTask(task.id)}
+                      onTagClick={(tag) => handleFiltersChange({
+                        tags: filters.tags?.includes(tag) ? filters.tags : [...(filters.tags ?? []), tag]
+                      })}
                     />
-                  ))
-                ) : (
-                  <div className="bg-white rounded-lg p-8 text-center">
-                    <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-3">
-                      <AlarmClock className="h-6 w-6 text-gray-400" />
-                    </div>
-                    <h3 className="text-lg font-medium text-gray-900 mb-1">Nenhuma tarefa concluída</h3>
-                    <p className="text-gray-500 text-sm mb-4">
-                      Você ainda não concluiu nenhuma tarefa ou elas não correspondem aos filtros aplicados.
-                    </p>
-                  </div>
-                )}
-              </div>
-            ) : (
-              // Preview of Completed Tasks (mostrando até 6 tarefas)
-              <div className="space-y-3">
-                {filteredTasks && filteredTasks.filter(task => task.completed).slice(0, 6).map(task => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    onDelete={() => handleDeleteTask(task.id)}
-                    onToggleComplete={() => handleToggleTaskCompletion(task.id, task.completed)}
-                    onView={() => handleViewTaskDetails(task.id)}
-                    onEdit={() => handleEditTask(task.id)}
-                  />
-                ))}
-                
-                {filteredTasks && filteredTasks.filter(task => task.completed).length > 6 && (
-                  <Button 
-                    variant="outline" 
-                    className="w-full text-sm text-muted-foreground hover:text-primary bg-white"
-                    onClick={() => setShowAllCompleted(true)}
-                  >
-                    <ChevronDown className="h-4 w-4 mr-1" />
-                    Ver todas as {filteredTasks.filter(task => task.completed).length} tarefas concluídas
-                  </Button>
-                )}
-              </div>
+                  ))}
+                </TableBody>
+              </Table>
             )}
           </CardContent>
+          
+          {/* Ordenação e paginação */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border-t border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-500">
+            <div className="flex items-center gap-3">
+              <span>
+                {total > 0 ? `Mostrando ${firstItem}–${lastItem} de ${total}` : "Nenhuma tarefa"}
+              </span>
+              {sort.sortBy !== "smart" && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setSort(DEFAULT_SORT)}>
+                  <Sparkles className="h-3.5 w-3.5 mr-1" />
+                  Ordenação inteligente
+                </Button>
+              )}
+            </div>
+            {pageCount > 1 && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white"
+                  disabled={page === 0}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Anterior
+                </Button>
+                <span>Página {page + 1} de {pageCount}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white"
+                  disabled={page + 1 >= pageCount}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Próxima
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
         </Card>
       
         {/* Task Create/Edit Dialog */}
@@ -1107,6 +956,23 @@ export default function Tasks() {
                   />
                 </div>
                 
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Etiquetas</FormLabel>
+                      <FormControl>
+                        <TaskTagsInput value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormDescription>
+                        Pressione Enter ou vírgula para adicionar. As etiquetas podem ser usadas nos filtros.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <FormField
                   control={form.control}
                   name="estimated_hours"
@@ -1193,21 +1059,48 @@ export default function Tasks() {
   );
 }
 
-// Task Card Component
-interface TaskCardProps {
+interface SortableHeadProps {
+  label: string;
+  field: TaskSortField;
+  sort: { sortBy: TaskSortField; sortDir: TaskSortDirection };
+  onSort: (field: TaskSortField) => void;
+  className?: string;
+}
+
+// Cabeçalho de coluna que ordena a lista no servidor
+function SortableHead({ label, field, sort, onSort, className }: SortableHeadProps) {
+  const active = sort.sortBy === field;
+  const Icon = !active ? ArrowUpDown : sort.sortDir === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className}>
+      <button
+        type="button"
+        className={cn("inline-flex items-center gap-1 hover:text-gray-900", active && "text-gray-900")}
+        onClick={() => onSort(field)}
+      >
+        {label}
+        <Icon className={cn("h-3.5 w-3.5", !active && "opacity-40")} />
+      </button>
+    </TableHead>
+  );
+}
+
+// Task Row Component
+interface TaskRowProps {
   task: TaskWithDetails;
   onToggleComplete: () => void;
   onView: () => void;
   onEdit: () => void;
   onDelete: () => void;
+  onTagClick: (tag: string) => void;
 }
 
-function TaskCard({ task, onToggleComplete, onView, onEdit, onDelete }: TaskCardProps) {
-  // Check if task has related entity data
-  const hasProject = !!task.project;
-  const hasAssignee = !!task.assignedUser;
+function TaskRow({ task, onToggleComplete, onView, onEdit, onDelete, onTagClick }: TaskRowProps) {
   const hasComments = task.comments && task.comments.length > 0;
   const hasAttachments = task.attachments && task.attachments.length > 0;
+  const statusOption = TASK_STATUS_OPTIONS.find(option => option.value === task.status);
+  const statusColor = TASK_STATUS_COLORS[task.status as keyof typeof TASK_STATUS_COLORS] ?? "#6b7280";
   
   // Calculate task status
   const isOverdue = isTaskOverdue(task);
@@ -1215,196 +1108,184 @@ function TaskCard({ task, onToggleComplete, onView, onEdit, onDelete }: TaskCard
   const isCompleted = task.completed;
   
   // Referência para controlar animação
-  const cardRef = useRef<HTMLDivElement>(null);
+  const rowRef = useRef<HTMLTableRowElement>(null);
   
   // Handler para toggle com animação
   const handleToggleComplete = () => {
-    // Aplicar animação baseada no novo status (inverso do atual)
-    if (cardRef.current) {
-      const animationType = !isCompleted ? 'taskComplete' : 'fadeIn';
-      
-      // Usando animação CSS em vez de motion.animate que está causando erros
-      const element = cardRef.current;
-      if (!isCompleted) {
-        element.classList.add('animate-pulse');
-      } else {
-        element.classList.add('animate-fade-in');
-      }
+    const element = rowRef.current;
+    if (element) {
+      element.classList.add(isCompleted ? 'animate-fade-in' : 'animate-pulse');
       
-      // Remover classes de animação após terminar (tempo reduzido para 400ms)
+      // Remover classes de animação após terminar
       setTimeout(() => {
         element.classList.remove('animate-pulse');
         element.classList.remove('animate-fade-in');
       }, 400);
     }
     
-    // Chamar handler original imediatamente
     onToggleComplete();
   };
   
   return (
-    <Card 
-      ref={cardRef}
+    <TableRow
+      ref={rowRef}
       className={cn(
-        "border overflow-hidden transition-all duration-200",
-        {
-          "border-green-300 bg-green-50": isCompleted,
-          "border-red-300 bg-red-50": !isCompleted && isOverdue,
-          "border-amber-300 bg-amber-50": !isCompleted && !isOverdue && isDueSoon,
-          "border-gray-200 hover:border-gray-300": !isCompleted && !isOverdue && !isDueSoon,
-        }
+        "cursor-pointer",
+        isCompleted && "bg-green-50/60",
+        !isCompleted && isOverdue && "bg-red-50/60",
+        !isCompleted && !isOverdue && isDueSoon && "bg-amber-50/60"
       )}
+      onClick={onView}
     >
-      <CardContent className="px-4 py-3" onClick={onView}>
-        <div className="flex items-start gap-4">
-          {/* Task Completion Checkbox */}
-          <div className="pt-1" onClick={(e) => e.stopPropagation()}>
-            <Checkbox 
-              checked={isCompleted} 
-              onCheckedChange={handleToggleComplete}
-              className={cn(
-                "transition-colors duration-200",
-                isCompleted ? "text-green-500 border-green-500" : ""
-              )}
-            />
+      {/* Task Completion Checkbox */}
+      <TableCell className="align-top" onClick={(e) => e.stopPropagation()}>
+        <Checkbox 
+          checked={!!isCompleted} 
+          onCheckedChange={handleToggleComplete}
+          className={cn(
+            "mt-0.5 transition-colors duration-200",
+            isCompleted && "text-green-500 border-green-500"
+          )}
+        />
+      </TableCell>
+      
+      {/* Title, project, client and tags */}
+      <TableCell className="align-top max-w-[420px]">
+        <div className={cn("text-sm font-medium leading-tight", isCompleted && "line-through text-gray-500")}>
+          {task.title}
+        </div>
+        {(task.project || task.client) && (
+          <div className="mt-1 text-xs text-gray-500 truncate">
+            {task.project?.name}
+            {task.client && ` · ${task.client.shortName || task.client.name}`}
           </div>
-          
-          {/* Task Content */}
-          <div className="flex-1 min-w-0">
-            {/* Title and Project */}
-            <div className="mb-1">
-              <h3 className="text-sm font-medium leading-tight">{task.title}</h3>
-              
-              {/* Project info if available */}
-              {hasProject && (
-                <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
-                  <span>
-                    Projeto: {task.project?.name}
-                  </span>
-                </div>
-              )}
-            </div>
-            
-            {/* Description preview */}
-            {task.description && (
-              <p className="text-xs text-gray-500 line-clamp-2 mb-2">
-                {truncateText(task.description, 120)}
-              </p>
-            )}
-            
-            {/* Task Metadata */}
-            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
-              {/* Priority */}
-              <PriorityBadge priority={task.priority} size="sm" />
-              
-              {/* Due date */}
-              {task.due_date && (
-                <div className={cn(
-                  "flex items-center gap-1", 
-                  isOverdue && !isCompleted ? "text-red-600" : "",
-                  isDueSoon && !isCompleted && !isOverdue ? "text-amber-600" : ""
-                )}>
-                  <Calendar 
-                    className="h-3 w-3 mr-0.5"
-                  />
-                  <span className="whitespace-nowrap">
-                    {/* Usar formatDateWithTime que já detecta se tem hora específica */}
-                    {task.due_date ? (
-                      <>
-                        {formatDueDateWithDaysRemaining(task.due_date)}
-                        {new Date(task.due_date).getUTCHours() !== 23 && (
-                          <span className="ml-1 font-medium">
-                            às {format(new Date(task.due_date), 'HH:mm')}
-                          </span>
-                        )}
-                      </>
-                    ) : '-'}
-                  </span>
-                </div>
-              )}
-              
-              {/* Estimated hours */}
-              {task.estimated_hours && (
-                <div className="flex items-center gap-1 mr-3">
-                  <AlarmClock className="h-3 w-3" />
-                  <span>Estimativa: {task.estimated_hours}h</span>
-                </div>
-              )}
-              
-              {/* Comments */}
-              {hasComments && (
-                <div className="flex items-center text-xs mr-2">
-                  <MessageSquare className="h-3 w-3 mr-0.5" />
-                  <span>{task.comments?.length}</span>
-                </div>
-              )}
-              
-              {/* Attachments */}
-              {hasAttachments && (
-                <div className="flex items-center text-xs">
-                  <Paperclip className="h-3 w-3 mr-0.5" />
-                  <span>{task.attachments?.length}</span>
-                </div>
-              )}
-              
-              {/* Completion date for completed tasks (condensed) */}
-              {isCompleted && task.completion_date && (
-                <div className="flex items-center gap-1 text-green-600 ml-auto">
-                  <CheckCircle className="h-3 w-3" />
-                  <span>{formatDate(task.completion_date)}</span>
-                </div>
-              )}
-            </div>
+        )}
+        {task.description && (
+          <p className="text-xs text-gray-500 line-clamp-1 mt-0.5">
+            {truncateText(task.description, 120)}
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500">
+          {task.tags?.map(tag => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="px-1.5 py-0 text-[10px] font-normal bg-white hover:bg-gray-100"
+              onClick={(e) => {
+                e.stopPropagation();
+                onTagClick(tag);
+              }}
+            >
+              #{tag}
+            </Badge>
+          ))}
+          {task.estimated_hours && (
+            <span className="flex items-center gap-1 mr-2">
+              <AlarmClock className="h-3 w-3" />
+              {task.estimated_hours}h
+            </span>
+          )}
+          {hasComments && (
+            <span className="flex items-center mr-2">
+              <MessageSquare className="h-3 w-3 mr-0.5" />
+              {task.comments?.length}
+            </span>
+          )}
+          {hasAttachments && (
+            <span className="flex items-center">
+              <Paperclip className="h-3 w-3 mr-0.5" />
+              {task.attachments?.length}
+            </span>
+          )}
+        </div>
+      </TableCell>
+      
+      {/* Assignee */}
+      <TableCell className="align-top hidden lg:table-cell">
+        {task.assignedUser ? (
+          <div className="flex items-center gap-2">
+            <UserAvatar user={task.assignedUser} size="sm" />
+            <span className="text-xs truncate max-w-[120px]">{task.assignedUser.name}</span>
           </div>
-          
-          {/* Right side: assignee and actions */}
-          <div className="flex flex-col items-end gap-2">
-            {/* Assignee */}
-            {hasAssignee && (
-              <div className="flex items-center">
-                <UserAvatar
-                  user={task.assignedUser}
-                  size="sm"
-                />
-              </div>
+        ) : (
+          <span className="text-xs text-gray-400">—</span>
+        )}
+      </TableCell>
+      
+      {/* Priority */}
+      <TableCell className="align-top">
+        {task.priority && <PriorityBadge priority={task.priority} size="sm" />}
+      </TableCell>
+      
+      {/* Status */}
+      <TableCell className="align-top hidden md:table-cell">
+        <span className="inline-flex items-center gap-1.5 text-xs">
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: statusColor }} />
+          {statusOption?.label ?? task.status}
+        </span>
+      </TableCell>
+      
+      {/* Due date (completion date for completed tasks) */}
+      <TableCell className="align-top text-xs whitespace-nowrap">
+        {isCompleted && task.completion_date ? (
+          <span className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="h-3 w-3" />
+            {formatDate(task.completion_date)}
+          </span>
+        ) : task.due_date ? (
+          <span className={cn(
+            "flex items-center gap-1",
+            isOverdue && "text-red-600",
+            isDueSoon && !isOverdue && "text-amber-600"
+          )}>
+            <Calendar className="h-3 w-3" />
+            {formatDueDateWithDaysRemaining(task.due_date)}
+            {new Date(task.due_date).getUTCHours() !== 23 && (
+              <span className="font-medium">
+                às {format(new Date(task.due_date), 'HH:mm')}
+              </span>
             )}
-            
-            {/* Actions dropdown */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="icon" className="h-7 w-7">
-                  <MoreHorizontal className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={onView}>
-                  Ver detalhes
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={onEdit}>
-                  Editar
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={onToggleComplete}>
-                  {isCompleted ? "Marcar como pendente" : "Marcar como concluída"}
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem 
-                  onClick={onDelete}
-                  className="text-red-600"
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Excluir
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
+          </span>
+        ) : (
+          <span className="text-gray-400">Sem prazo</span>
+        )}
+      </TableCell>
+      
+      {/* Actions dropdown */}
+      <TableCell className="align-top" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={onView}>
+              Ver detalhes
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onEdit}>
+              Editar
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onToggleComplete}>
+              {isCompleted ? "Marcar como pendente" : "Marcar como concluída"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem 
+              onClick={onDelete}
+              className="text-red-600"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Excluir
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </TableCell>
+    </TableRow>
   );
 }
 
 // Helper function for conditional classNames
-function cn(...classes: (string | boolean | undefined)[]) {
+function cn(...classes: (string | boolean | null | undefined)[]) {
   return classes.filter(Boolean).join(" ");
-}
\ No newline at end of file
+}
@@ -4,7 +4,9 @@ import {
   ChevronUp,
   Edit, 
   Loader2,
+  LockOpen,
   Mail, 
+  MonitorSmartphone,
   Plus, 
   Search, 
   ShieldCheck, 
@@ -17,12 +19,14 @@ import { useLocation } from "wouter";
 import { useState, useEffect } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
+import { format } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { showSuccessToast } from "@/lib/utils";
+import { ActiveSessionsList } from "@/components/ActiveSessionsList";
 
 import { 
   Card, 
@@ -810,6 +814,7 @@ export default function Team() {
   const [editingUser, setEditingUser] = useState<any>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<any>(null);
+  const [sessionsUser, setSessionsUser] = useState<any>(null);
   
   const { toast } = useToast();
   
@@ -818,6 +823,14 @@ export default function Team() {
     queryKey: ['/api/users']
   });
   
+  // Contas bloqueadas por excesso de tentativas de login (somente admin)
+  const { data: lockouts = [] } = useQuery<{ user_id: number; locked_until: string }[]>({
+    queryKey: ['/api/security/lockouts'],
+    enabled: isAdmin,
+    refetchInterval: 60000
+  });
+  const lockedUntilByUser = new Map(lockouts.map(lockout => [lockout.user_id, lockout.locked_until]));
+  
   // Fetch tasks
   const { data: tasks = [] } = useQuery({
     queryKey: ['/api/tasks']
@@ -897,6 +910,27 @@ export default function Team() {
     }
   });
   
+  // Desbloquear conta bloqueada por tentativas de login
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("POST", `/api/users/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/security/lockouts'] });
+      showSuccessToast({
+        title: "Conta desbloqueada",
+        description: "O usuário já pode entrar novamente."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível desbloquear a conta",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Confirm deletion
   const confirmDeleteUser = () => {
     if (userToDelete) {
@@ -966,6 +1000,11 @@ export default function Team() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        {lockedUntilByUser.has(user.id) && (
+                          <Badge variant="destructive" title="Bloqueada por excesso de tentativas de login">
+                            Bloqueada até {format(new Date(lockedUntilByUser.get(user.id)!), "dd/MM HH:mm")}
+                          </Badge>
+                        )}
                         <Badge variant={
                           user.role === "admin" ? "default" : 
                           user.role === "manager" ? "outline" : 
@@ -982,6 +1021,25 @@ export default function Team() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {lockedUntilByUser.has(user.id) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => unlockUserMutation.mutate(user.id)}
+                            disabled={unlockUserMutation.isPending}
+                            title="Desbloquear conta"
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSessionsUser(user)}
+                          title="Sessões ativas"
+                        >
+                          <MonitorSmartphone className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1275,6 +1333,21 @@ export default function Team() {
           isDeleting={deleteUserMutation.isPending}
         />
       )}
+      
+      {/* Active sessions dialog */}
+      {isAdmin && sessionsUser && (
+        <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+          <DialogContent className="sm:max-w-[560px]">
+            <DialogHeader>
+              <DialogTitle>Sessões ativas de {sessionsUser.name}</DialogTitle>
+              <DialogDescription>
+                Encerre as sessões para desconectar o usuário de todos os dispositivos, por exemplo ao desligar um freelancer.
+              </DialogDescription>
+            </DialogHeader>
+            <ActiveSessionsList userId={sessionsUser.id} />
+          </DialogContent>
+        </Dialog>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+-- Catálogo de permissões e matriz função → permissão (RBAC)
+CREATE TABLE IF NOT EXISTS permissions (
+  id SERIAL PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  id SERIAL PRIMARY KEY,
+  role user_role NOT NULL,
+  permission_key TEXT NOT NULL,
+  granted_by INTEGER,
+  granted_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT role_permissions_role_permission_key_unique UNIQUE (role, permission_key),
+  FOREIGN KEY (permission_key) REFERENCES permissions(key) ON DELETE CASCADE ON UPDATE CASCADE,
+  FOREIGN KEY (granted_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Catálogo inicial: chaves verificadas por requirePermission() e permissões exibidas em Configurações
+INSERT INTO permissions (key, name, description, category) VALUES
+  ('access_dashboard', 'Acessar Dashboard', 'Permite visualizar o painel principal com métricas e resumos', 'dashboard'),
+  ('view_financial_reports', 'Visualizar relatórios financeiros', 'Permite acessar e visualizar relatórios financeiros e orçamentos', 'dashboard'),
+  ('view_team_performance', 'Ver performance da equipe', 'Permite visualizar métricas e relatórios de desempenho da equipe', 'dashboard'),
+  ('view_all_jobs', 'Visualizar todos os Jobs', 'Permite ver todos os projetos cadastrados no sistema', 'projects'),
+  ('manage_projects', 'Criar/Editar Jobs', 'Permite criar novos projetos, editar, duplicar e gerenciar a equipe e etapas', 'projects'),
+  ('approve_jobs', 'Aprovar Jobs / Mudar status', 'Permite aprovar projetos e alterar seus status', 'projects'),
+  ('delete_jobs', 'Excluir Jobs', 'Permite excluir projetos do sistema', 'projects'),
+  ('view_all_tasks', 'Visualizar todas as tarefas', 'Permite visualizar todas as tarefas do sistema', 'tasks'),
+  ('manage_tasks', 'Criar/Editar tarefas', 'Permite criar e editar tarefas', 'tasks'),
+  ('assign_tasks', 'Atribuir tarefas a usuários', 'Permite atribuir tarefas a outros usuários', 'tasks'),
+  ('upload_files', 'Upload de arquivos', 'Permite fazer upload de arquivos para os projetos e tarefas', 'tasks'),
+  ('manage_clients', 'Gerenciar clientes', 'Permite criar, editar e excluir clientes, contatos e interações', 'clients'),
+  ('view_financials', 'Ver informações financeiras', 'Permite visualizar documentos financeiros e despesas de projetos e clientes', 'financial'),
+  ('manage_financials', 'Gerenciar financeiro', 'Permite criar, editar, arquivar e excluir documentos financeiros e despesas', 'financial'),
+  ('view_users', 'Visualizar usuários', 'Permite visualizar a lista de usuários do sistema', 'users'),
+  ('manage_users', 'Gerenciar usuários (CRUD)', 'Permite adicionar, editar, visualizar e remover usuários do sistema', 'users'),
+  ('assign_roles', 'Atribuir funções a usuários', 'Permite alterar a função (papel) de um usuário no sistema', 'users')
+ON CONFLICT (key) DO NOTHING;
+
+-- Matriz padrão (equivalente aos valores que antes ficavam fixos na tela de Configurações)
+INSERT INTO role_permissions (role, permission_key) VALUES
+  ('manager', 'access_dashboard'),
+  ('manager', 'view_team_performance'),
+  ('manager', 'view_all_jobs'),
+  ('manager', 'manage_projects'),
+  ('manager', 'approve_jobs'),
+  ('manager', 'view_all_tasks'),
+  ('manager', 'manage_tasks'),
+  ('manager', 'assign_tasks'),
+  ('manager', 'upload_files'),
+  ('manager', 'manage_clients'),
+  ('manager', 'view_users'),
+  ('editor', 'access_dashboard'),
+  ('editor', 'view_all_jobs'),
+  ('editor', 'manage_tasks'),
+  ('editor', 'upload_files'),
+  ('viewer', 'access_dashboard')
+ON CONFLICT (role, permission_key) DO NOTHING;
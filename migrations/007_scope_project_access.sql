@@ -0,0 +1,9 @@
+-- Acesso por projeto: editores e visualizadores passam a enxergar apenas
+-- os projetos em que são membros (project_members). Quem mantém
+-- 'view_all_jobs' continua vendo todos os projetos.
+DELETE FROM role_permissions
+WHERE role = 'editor' AND permission_key = 'view_all_jobs';
+
+-- Acelera a verificação de membros por usuário
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members (user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_project_user ON project_members (project_id, user_id);
@@ -0,0 +1,3 @@
+-- Preferências de notificação por tipo de evento e canal (in_app, email, digest)
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS notification_preferences JSON DEFAULT '{}'::json;
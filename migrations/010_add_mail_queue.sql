@@ -0,0 +1,21 @@
+-- Fila de envio de emails com novas tentativas
+CREATE TABLE IF NOT EXISTS mail_queue (
+  id SERIAL PRIMARY KEY,
+  to_email TEXT NOT NULL,
+  to_name TEXT,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  template TEXT,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Busca das mensagens prontas para envio
+CREATE INDEX IF NOT EXISTS idx_mail_queue_pending ON mail_queue (next_attempt_at) WHERE status = 'pending';
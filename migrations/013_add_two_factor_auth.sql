@@ -0,0 +1,22 @@
+-- Autenticação em dois fatores (TOTP) com códigos de recuperação
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  secret_iv TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled_at TIMESTAMP,
+  last_used_step INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes (user_id) WHERE used_at IS NULL;
@@ -0,0 +1,33 @@
+-- Proteção contra força bruta no login: tentativas por conta e por IP persistidas no banco
+CREATE TABLE IF NOT EXISTS login_throttles (
+  id SERIAL PRIMARY KEY,
+  scope TEXT NOT NULL,
+  key TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  lockout_count INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMP,
+  next_attempt_at TIMESTAMP,
+  locked_until TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT login_throttles_scope_key_unique UNIQUE (scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_throttles_locked ON login_throttles (locked_until) WHERE locked_until IS NOT NULL;
+
+-- Registro de eventos de segurança
+CREATE TABLE IF NOT EXISTS security_events (
+  id SERIAL PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  identifier TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  metadata JSON,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_created_at ON security_events (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_user ON security_events (user_id, created_at DESC);
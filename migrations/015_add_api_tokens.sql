@@ -0,0 +1,16 @@
+-- Tokens de acesso pessoais com escopos para integrações e scripts
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes JSON NOT NULL DEFAULT '[]',
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  last_used_ip TEXT,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens (user_id) WHERE revoked_at IS NULL;
@@ -0,0 +1,38 @@
+-- Chat da equipe persistido: canais (geral, por projeto e conversas diretas),
+-- mensagens com menções e posição de leitura de cada usuário
+CREATE TABLE IF NOT EXISTS chat_channels (
+  id SERIAL PRIMARY KEY,
+  type TEXT NOT NULL,
+  name TEXT,
+  project_id INTEGER UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+  direct_key TEXT UNIQUE,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS chat_channel_members (
+  id SERIAL PRIMARY KEY,
+  channel_id INTEGER NOT NULL REFERENCES chat_channels(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  last_read_message_id INTEGER,
+  joined_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT chat_channel_members_channel_user_unique UNIQUE (channel_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_channel_members_user ON chat_channel_members (user_id);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id SERIAL PRIMARY KEY,
+  channel_id INTEGER NOT NULL REFERENCES chat_channels(id) ON DELETE CASCADE,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  mentions JSON NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_channel ON chat_messages (channel_id, id DESC);
+
+-- Canal geral, disponível para toda a equipe
+INSERT INTO chat_channels (type, name)
+SELECT 'general', 'Geral'
+WHERE NOT EXISTS (SELECT 1 FROM chat_channels WHERE type = 'general');
@@ -0,0 +1,7 @@
+-- Usuários mencionados (@[Nome](id)) em comentários de tarefas e projetos
+ALTER TABLE task_comments ADD COLUMN IF NOT EXISTS mentions JSON NOT NULL DEFAULT '[]';
+ALTER TABLE project_comments ADD COLUMN IF NOT EXISTS mentions JSON NOT NULL DEFAULT '[]';
+
+-- Filtro "Menções": comentários que citam um usuário
+CREATE INDEX IF NOT EXISTS idx_task_comments_mentions ON task_comments USING GIN ((mentions::jsonb));
+CREATE INDEX IF NOT EXISTS idx_project_comments_mentions ON project_comments USING GIN ((mentions::jsonb));
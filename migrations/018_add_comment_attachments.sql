@@ -0,0 +1,6 @@
+-- Arquivos anexados diretamente a comentários de tarefas e projetos
+ALTER TABLE task_attachments ADD COLUMN IF NOT EXISTS comment_id INTEGER REFERENCES task_comments(id) ON DELETE SET NULL;
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS comment_id INTEGER REFERENCES project_comments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_task_attachments_comment_id ON task_attachments(comment_id);
+CREATE INDEX IF NOT EXISTS idx_project_attachments_comment_id ON project_attachments(comment_id);
@@ -0,0 +1,104 @@
+-- Comentários unificados: tarefas, projetos, clientes e documentos financeiros
+-- passam a usar a tabela comments (entity_type + entity_id). Os comentários de
+-- task_comments e project_comments são copiados, com respostas, reações e anexos.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS comments (
+  id SERIAL PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('task', 'project', 'client', 'financial_document')),
+  entity_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  comment TEXT NOT NULL,
+  mentions JSON NOT NULL DEFAULT '[]',
+  parent_id INTEGER REFERENCES comments(id) ON DELETE SET NULL,
+  creation_date TIMESTAMP DEFAULT NOW(),
+  edited BOOLEAN DEFAULT FALSE,
+  edit_date TIMESTAMP,
+  deleted BOOLEAN DEFAULT FALSE,
+  delete_date TIMESTAMP,
+  -- Origem do registro copiado, usada só durante a migração
+  legacy_source TEXT,
+  legacy_id INTEGER
+);
+
+INSERT INTO comments (entity_type, entity_id, user_id, comment, mentions, creation_date, edited, edit_date, deleted, delete_date, legacy_source, legacy_id)
+SELECT 'task', task_id, user_id, comment, mentions, creation_date, edited, edit_date, deleted, delete_date, 'task', id
+FROM task_comments
+ORDER BY id;
+
+INSERT INTO comments (entity_type, entity_id, user_id, comment, mentions, creation_date, edited, edit_date, deleted, delete_date, legacy_source, legacy_id)
+SELECT 'project', project_id, user_id, comment, mentions, creation_date, edited, edit_date, deleted, delete_date, 'project', id
+FROM project_comments
+ORDER BY id;
+
+-- Respostas: parent_id passa a apontar para o novo ID do comentário pai
+UPDATE comments c
+SET parent_id = parent.id
+FROM task_comments old, comments parent
+WHERE c.legacy_source = 'task' AND old.id = c.legacy_id AND old.parent_id IS NOT NULL
+  AND parent.legacy_source = 'task' AND parent.legacy_id = old.parent_id;
+
+UPDATE comments c
+SET parent_id = parent.id
+FROM project_comments old, comments parent
+WHERE c.legacy_source = 'project' AND old.id = c.legacy_id AND old.parent_id IS NOT NULL
+  AND parent.legacy_source = 'project' AND parent.legacy_id = old.parent_id;
+
+-- Reações: comment_reactions (tarefas) é reaproveitada e recebe as de projeto
+ALTER TABLE comment_reactions DROP CONSTRAINT IF EXISTS comment_reactions_comment_id_task_comments_id_fk;
+
+DELETE FROM comment_reactions r
+WHERE NOT EXISTS (SELECT 1 FROM comments c WHERE c.legacy_source = 'task' AND c.legacy_id = r.comment_id);
+
+UPDATE comment_reactions r
+SET comment_id = c.id
+FROM comments c
+WHERE c.legacy_source = 'task' AND c.legacy_id = r.comment_id;
+
+INSERT INTO comment_reactions (comment_id, user_id, reaction_type, creation_date)
+SELECT c.id, r.user_id, r.reaction_type, r.creation_date
+FROM project_comment_reactions r
+JOIN comments c ON c.legacy_source = 'project' AND c.legacy_id = r.comment_id;
+
+ALTER TABLE comment_reactions
+ADD CONSTRAINT comment_reactions_comment_id_comments_id_fk
+FOREIGN KEY (comment_id) REFERENCES comments(id) ON DELETE CASCADE;
+
+-- Anexos de comentários
+ALTER TABLE task_attachments DROP CONSTRAINT IF EXISTS task_attachments_comment_id_fkey;
+ALTER TABLE project_attachments DROP CONSTRAINT IF EXISTS project_attachments_comment_id_fkey;
+
+UPDATE task_attachments a
+SET comment_id = c.id
+FROM comments c
+WHERE c.legacy_source = 'task' AND c.legacy_id = a.comment_id;
+
+UPDATE project_attachments a
+SET comment_id = c.id
+FROM comments c
+WHERE c.legacy_source = 'project' AND c.legacy_id = a.comment_id;
+
+ALTER TABLE task_attachments
+ADD CONSTRAINT task_attachments_comment_id_fkey
+FOREIGN KEY (comment_id) REFERENCES comments(id) ON DELETE SET NULL;
+
+ALTER TABLE project_attachments
+ADD CONSTRAINT project_attachments_comment_id_fkey
+FOREIGN KEY (comment_id) REFERENCES comments(id) ON DELETE SET NULL;
+
+ALTER TABLE client_attachments ADD COLUMN IF NOT EXISTS comment_id INTEGER REFERENCES comments(id) ON DELETE SET NULL;
+
+ALTER TABLE comments DROP COLUMN legacy_source;
+ALTER TABLE comments DROP COLUMN legacy_id;
+
+DROP TABLE project_comment_reactions;
+DROP TABLE project_comments;
+DROP TABLE task_comments;
+
+CREATE INDEX IF NOT EXISTS idx_comments_entity ON comments(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_mentions ON comments USING GIN ((mentions::jsonb));
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_comment_id ON comment_reactions(comment_id);
+CREATE INDEX IF NOT EXISTS idx_client_attachments_comment_id ON client_attachments(comment_id);
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Registro de atividades de projetos, tarefas, clientes, contatos, despesas e eventos
+CREATE TABLE IF NOT EXISTS activity_log (
+  id SERIAL PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('project', 'task', 'client', 'client_contact', 'expense', 'event')),
+  entity_id INTEGER NOT NULL,
+  entity_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  project_id INTEGER,
+  client_id INTEGER,
+  changes JSON NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_log_created_at ON activity_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_log_entity ON activity_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_activity_log_project ON activity_log (project_id, created_at DESC) WHERE project_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_log_client ON activity_log (client_id, created_at DESC) WHERE client_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_log_user ON activity_log (user_id, created_at DESC);
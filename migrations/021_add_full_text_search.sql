@@ -0,0 +1,50 @@
+-- Busca de texto completo (/api/search): configuração em português que ignora acentos
+-- e índices GIN com as mesmas expressões usadas em server/services/search.ts
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'portuguese_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION portuguese_unaccent (COPY = portuguese);
+    ALTER TEXT SEARCH CONFIGURATION portuguese_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, coalesce(name, '') || ' ' || coalesce(description, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, coalesce(title, '') || ' ' || coalesce(description, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_clients_search ON clients USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig,
+    coalesce(name, '') || ' ' || coalesce(short_name, '') || ' ' || coalesce(cnpj, '') || ' ' ||
+    coalesce(contact_name, '') || ' ' || coalesce(notes, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_contacts_search ON client_contacts USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, coalesce(name, '') || ' ' || coalesce(email, '') || ' ' || coalesce(position, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_search ON comments USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, coalesce(comment, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_attachments_search ON task_attachments USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, translate(coalesce(file_name, ''), '-_./', '    '))
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_attachments_search ON project_attachments USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, translate(coalesce(file_name, ''), '-_./', '    '))
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_attachments_search ON client_attachments USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, translate(coalesce(file_name, ''), '-_./', '    '))
+);
+
+CREATE INDEX IF NOT EXISTS idx_financial_documents_search ON financial_documents USING GIN (
+  to_tsvector('portuguese_unaccent'::regconfig, translate(coalesce(document_number, ''), '-_./', '    '))
+);
@@ -0,0 +1,19 @@
+-- Etiquetas das tarefas e índices usados pelos filtros da lista de tarefas
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS tags JSON DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_to ON tasks (assigned_to);
+CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks (project_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks (due_date);
+
+-- Visões salvas da lista de tarefas (filtros e ordenação com nome, por usuário)
+CREATE TABLE IF NOT EXISTS task_views (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSON NOT NULL DEFAULT '{}',
+  sort_by TEXT NOT NULL DEFAULT 'smart',
+  sort_dir TEXT NOT NULL DEFAULT 'desc' CHECK (sort_dir IN ('asc', 'desc')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT task_views_user_name_unique UNIQUE (user_id, name)
+);
@@ -0,0 +1,23 @@
+-- Parcelamento do faturamento de projetos
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS installment_plan JSON;
+
+-- Parcela a que cada fatura gerada pelo projeto corresponde
+ALTER TABLE financial_documents ADD COLUMN IF NOT EXISTS installment_number INTEGER;
+ALTER TABLE financial_documents ADD COLUMN IF NOT EXISTS installment_count INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_financial_documents_project_installment
+  ON financial_documents (project_id, installment_number);
+
+-- Faturas únicas geradas automaticamente antes do parcelamento passam a ser a parcela 1/1
+UPDATE financial_documents
+SET installment_number = 1, installment_count = 1
+WHERE installment_number IS NULL
+  AND document_type = 'invoice'
+  AND project_id IS NOT NULL
+  AND description LIKE 'Fatura referente ao projeto:%'
+  AND id = (
+    SELECT MIN(fd.id) FROM financial_documents fd
+    WHERE fd.project_id = financial_documents.project_id
+      AND fd.document_type = 'invoice'
+      AND fd.description LIKE 'Fatura referente ao projeto:%'
+  );
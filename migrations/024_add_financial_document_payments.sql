@@ -0,0 +1,34 @@
+-- Pagamentos parciais de documentos financeiros
+ALTER TYPE financial_status ADD VALUE IF NOT EXISTS 'partially_paid';
+
+ALTER TABLE financial_documents ADD COLUMN IF NOT EXISTS amount_paid DOUBLE PRECISION DEFAULT 0;
+
+-- Histórico de pagamentos (os revertidos permanecem, marcados com reverted_at)
+CREATE TABLE IF NOT EXISTS financial_document_payments (
+  id SERIAL PRIMARY KEY,
+  document_id INTEGER NOT NULL REFERENCES financial_documents(id) ON DELETE CASCADE,
+  amount DOUBLE PRECISION NOT NULL CHECK (amount > 0),
+  payment_date TIMESTAMP NOT NULL,
+  method TEXT,
+  reference TEXT,
+  notes TEXT,
+  created_by INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  reverted_at TIMESTAMP,
+  reverted_by INTEGER,
+  revert_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_financial_document_payments_document
+  ON financial_document_payments (document_id, payment_date);
+
+-- Documentos já pagos passam a ter o pagamento integral no histórico
+INSERT INTO financial_document_payments (document_id, amount, payment_date, notes, created_by)
+SELECT fd.id, fd.amount, COALESCE(fd.payment_date, fd.updated_at, NOW()), fd.payment_notes, COALESCE(fd.updated_by, fd.created_by)
+FROM financial_documents fd
+WHERE fd.paid = TRUE
+  AND fd.amount > 0
+  AND NOT EXISTS (SELECT 1 FROM financial_document_payments p WHERE p.document_id = fd.id);
+
+UPDATE financial_documents SET amount_paid = amount WHERE paid = TRUE;
+UPDATE financial_documents SET amount_paid = 0 WHERE amount_paid IS NULL;
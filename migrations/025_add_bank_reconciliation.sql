@@ -0,0 +1,36 @@
+-- Importação de extratos bancários (OFX) e retornos de cobrança (CNAB 240/400)
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+  id SERIAL PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('ofx', 'cnab240', 'cnab400')),
+  bank_code TEXT,
+  account TEXT,
+  period_start TIMESTAMP,
+  period_end TIMESTAMP,
+  imported_by INTEGER NOT NULL REFERENCES users(id),
+  imported_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_imports_imported_at ON bank_statement_imports (imported_at DESC);
+
+-- Transações importadas e a conciliação confirmada para cada uma
+CREATE TABLE IF NOT EXISTS bank_statement_transactions (
+  id SERIAL PRIMARY KEY,
+  import_id INTEGER NOT NULL REFERENCES bank_statement_imports(id) ON DELETE CASCADE,
+  external_id TEXT NOT NULL,
+  fingerprint TEXT NOT NULL UNIQUE,
+  transaction_date TIMESTAMP NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  description TEXT,
+  document_number TEXT,
+  payment_method TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'matched', 'ignored')),
+  matched_document_id INTEGER REFERENCES financial_documents(id) ON DELETE SET NULL,
+  matched_expense_id INTEGER REFERENCES expenses(id) ON DELETE SET NULL,
+  matched_payment_id INTEGER REFERENCES financial_document_payments(id) ON DELETE SET NULL,
+  matched_by INTEGER,
+  matched_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_transactions_import ON bank_statement_transactions (import_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_transactions_pending ON bank_statement_transactions (status) WHERE status = 'pending';
@@ -0,0 +1,3 @@
+-- Dados extraídos do XML da NFS-e anexada ao documento financeiro e o resultado da
+-- conferência (número, valor, emissão e CNPJ do tomador)
+ALTER TABLE financial_documents ADD COLUMN IF NOT EXISTS invoice_nfse JSON;
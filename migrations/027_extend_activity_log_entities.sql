@@ -0,0 +1,6 @@
+-- Registro de atividades também da equipe, das etapas e dos anexos de projetos e tarefas
+ALTER TABLE activity_log DROP CONSTRAINT IF EXISTS activity_log_entity_type_check;
+ALTER TABLE activity_log ADD CONSTRAINT activity_log_entity_type_check CHECK (entity_type IN (
+  'project', 'task', 'client', 'client_contact', 'expense', 'event',
+  'project_member', 'project_stage', 'task_attachment', 'project_attachment'
+));
@@ -0,0 +1,4 @@
+-- Vencimento para o qual o lembrete de prazo já foi enviado. Quando a data muda,
+-- o lembrete volta a ser enviado para o novo vencimento
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_reminder_sent_for TIMESTAMP;
+ALTER TABLE financial_documents ADD COLUMN IF NOT EXISTS due_reminder_sent_for TIMESTAMP;
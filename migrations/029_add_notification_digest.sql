@@ -0,0 +1,14 @@
+-- Notificações acumuladas para o resumo diário por email (canal "digest")
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Itens ainda não enviados de cada usuário
+CREATE INDEX IF NOT EXISTS idx_notification_digest_items_pending ON notification_digest_items (user_id) WHERE sent_at IS NULL;
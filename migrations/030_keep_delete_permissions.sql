@@ -0,0 +1,11 @@
+-- Exclusão de projetos e tarefas passou de função fixa (admin e manager) para permissões:
+-- gerentes mantêm a exclusão de projetos e a de tarefas ganha permissão própria, para que
+-- editores (que criam e editam tarefas) continuem sem poder excluí-las
+INSERT INTO permissions (key, name, description, category) VALUES
+  ('delete_tasks', 'Excluir tarefas', 'Permite excluir tarefas do sistema', 'tasks')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_key) VALUES
+  ('manager', 'delete_jobs'),
+  ('manager', 'delete_tasks')
+ON CONFLICT (role, permission_key) DO NOTHING;
@@ -3,9 +3,18 @@ import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import cookieParser from 'cookie-parser';
+import NodeCache from 'node-cache';
 import { db } from './db';
-import { users, refreshTokens, InsertRefreshToken, User } from '../shared/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { storage, type ProjectAccessScope } from './storage';
+import { z } from 'zod';
+import { users, refreshTokens, authTokens, InsertRefreshToken, User, type ProjectAccessLevel, getProjectAccessLevel, hasProjectAccessLevel } from '../shared/schema';
+import { eq, and, sql, isNull, ne, desc } from 'drizzle-orm';
+import { MailService } from './services/mail';
+import { TwoFactorService } from './services/two-factor';
+import { LoginThrottleService, type LoginBlock } from './services/login-throttle';
+import { SecurityEventService } from './services/security-events';
+import { ApiTokenService } from './services/api-tokens';
+import { RealtimeService } from './services/realtime';
 
 // Definir secrets reais em variáveis de ambiente para produção
 const JWT_SECRET = process.env.JWT_SECRET || 'content-crush-jwt-secret-key-2025';
@@ -15,12 +24,66 @@ const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'content-crush-encryption-k
 // Constantes para tokens
 const ACCESS_TOKEN_EXPIRY = '4h'; // 4 horas
 const REFRESH_TOKEN_EXPIRY = '7d'; // 7 dias
+const TWO_FACTOR_CHALLENGE_EXPIRY = '10m'; // Tempo para concluir o segundo passo do login
+const PASSWORD_RESET_TOKEN_TTL_MINUTES = 30;
+const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = 48;
+
+type AuthTokenType = 'password_reset' | 'email_verification';
+
+// Resposta genérica para não revelar se um email está cadastrado
+const GENERIC_EMAIL_RESPONSE = 'Se o email estiver cadastrado, você receberá as instruções em instantes.';
+
+const emailRequestSchema = z.object({
+  email: z.string().trim().email('Email inválido')
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token não fornecido'),
+  password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres')
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token não fornecido')
+});
+
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional()
+}).refine(data => !!data.code || !!data.recoveryCode, {
+  message: 'Informe o código do app autenticador ou um código de recuperação'
+});
+
+const twoFactorSetupSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().optional()
+});
+
+// Desafio emitido após a senha, enquanto o segundo fator não é concluído.
+// Usa um segredo próprio para nunca ser aceito como access token.
+type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+interface TwoFactorChallengePayload {
+  userId: number;
+  purpose: TwoFactorChallengePurpose;
+}
+
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:two-factor`;
+
+// Sessões revogadas precisam ser recusadas antes do access token expirar;
+// o estado de cada sessão fica em cache por alguns segundos para evitar uma consulta por requisição
+const sessionStatusCache = new NodeCache({ stdTTL: 30 });
+
+// Usuários que já atendem à política de 2FA (apenas o resultado positivo fica em cache,
+// para que a ativação feita no login libere o acesso de imediato)
+const twoFactorComplianceCache = new NodeCache({ stdTTL: 30 });
 
 // Interface para payload do token JWT
 interface JwtPayload {
   userId: number;
   role: string;
   permissions?: string[];
+  sid?: number; // Sessão (refresh token) que originou o access token
   iat?: number;
   exp?: number;
 }
@@ -43,11 +106,12 @@ export async function comparePassword(password: string, hashedPassword: string):
 /**
  * Gerar token JWT
  */
-export function generateAccessToken(user: User): string {
+export function generateAccessToken(user: User, sessionId?: number): string {
   const payload: JwtPayload = {
     userId: user.id,
     role: user.role,
-    permissions: user.permissions as string[] || []
+    permissions: user.permissions as string[] || [],
+    sid: sessionId
   };
   
   return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
@@ -63,9 +127,9 @@ export function generateRefreshToken(user: User, ipAddress?: string, userAgent?:
 }
 
 /**
- * Salvar token de refresh no banco de dados
+ * Salvar token de refresh no banco de dados, retornando o ID da sessão criada
  */
-export async function saveRefreshToken(userId: number, token: string, ipAddress?: string, userAgent?: string): Promise<void> {
+export async function saveRefreshToken(userId: number, token: string, ipAddress?: string, userAgent?: string): Promise<number> {
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + 7); // 7 dias
   
@@ -74,26 +138,56 @@ export async function saveRefreshToken(userId: number, token: string, ipAddress?
     token,
     expires_at: expiresAt,
     revoked: false,
+    last_used_at: new Date(),
     ip_address: ipAddress,
     user_agent: userAgent
   };
   
-  await db.insert(refreshTokens).values(refreshToken);
+  const [session] = await db.insert(refreshTokens)
+    .values(refreshToken)
+    .returning({ id: refreshTokens.id });
+  
+  return session.id;
+}
+
+/**
+ * Renovar o token de uma sessão existente, mantendo o mesmo ID de sessão
+ */
+export async function rotateRefreshToken(sessionId: number, token: string, ipAddress?: string, userAgent?: string): Promise<void> {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + 7); // 7 dias
+  
+  await db.update(refreshTokens)
+    .set({
+      token,
+      expires_at: expiresAt,
+      last_used_at: new Date(),
+      ip_address: ipAddress,
+      user_agent: userAgent
+    })
+    .where(eq(refreshTokens.id, sessionId));
 }
 
 /**
  * Revogar token de refresh 
  */
 export async function revokeRefreshToken(token: string): Promise<void> {
-  await db.update(refreshTokens)
-    .set({ revoked: true })
-    .where(eq(refreshTokens.token, token));
+  const revoked = await db.update(refreshTokens)
+    .set({ revoked: true, revoked_at: new Date() })
+    .where(eq(refreshTokens.token, token))
+    .returning({ id: refreshTokens.id, userId: refreshTokens.user_id });
+  
+  revoked.forEach(session => {
+    sessionStatusCache.set(session.id, false);
+    RealtimeService.disconnectUser(session.userId, [session.id])
+      .catch(error => console.error('[Tempo real] Erro ao desconectar sessão:', error));
+  });
 }
 
 /**
- * Verificar validade do token de refresh
+ * Verificar validade do token de refresh, retornando o usuário e a sessão
  */
-export async function verifyRefreshToken(token: string): Promise<User | null> {
+export async function verifyRefreshToken(token: string): Promise<{ user: User; sessionId: number } | null> {
   const [refreshToken] = await db.select()
     .from(refreshTokens)
     .where(
@@ -117,9 +211,357 @@ export async function verifyRefreshToken(token: string): Promise<User | null> {
       )
     );
   
+  return user ? { user, sessionId: refreshToken.id } : null;
+}
+
+/**
+ * Revogar todos os tokens de refresh ativos de um usuário,
+ * opcionalmente mantendo a sessão atual
+ */
+export async function revokeAllRefreshTokens(userId: number, exceptSessionId?: number): Promise<number> {
+  const revoked = await db.update(refreshTokens)
+    .set({ revoked: true, revoked_at: new Date() })
+    .where(
+      and(
+        eq(refreshTokens.user_id, userId),
+        eq(refreshTokens.revoked, false),
+        exceptSessionId ? ne(refreshTokens.id, exceptSessionId) : undefined
+      )
+    )
+    .returning({ id: refreshTokens.id });
+  
+  revoked.forEach(session => sessionStatusCache.set(session.id, false));
+  
+  // As conexões em tempo real das sessões encerradas caem junto com elas
+  RealtimeService.disconnectUser(userId, exceptSessionId ? revoked.map(session => session.id) : undefined)
+    .catch(error => console.error('[Tempo real] Erro ao desconectar sessões:', error));
+  return revoked.length;
+}
+
+/**
+ * Revogar uma sessão específica de um usuário
+ */
+export async function revokeSession(userId: number, sessionId: number): Promise<boolean> {
+  const [revoked] = await db.update(refreshTokens)
+    .set({ revoked: true, revoked_at: new Date() })
+    .where(
+      and(
+        eq(refreshTokens.id, sessionId),
+        eq(refreshTokens.user_id, userId),
+        eq(refreshTokens.revoked, false)
+      )
+    )
+    .returning({ id: refreshTokens.id });
+  
+  if (!revoked) {
+    return false;
+  }
+  
+  sessionStatusCache.set(revoked.id, false);
+  RealtimeService.disconnectUser(userId, [revoked.id])
+    .catch(error => console.error('[Tempo real] Erro ao desconectar sessão:', error));
+  return true;
+}
+
+/**
+ * Listar as sessões ativas (não revogadas e não expiradas) de um usuário
+ */
+export async function getActiveSessions(userId: number) {
+  return db.select({
+    id: refreshTokens.id,
+    ip_address: refreshTokens.ip_address,
+    user_agent: refreshTokens.user_agent,
+    created_at: refreshTokens.created_at,
+    last_used_at: refreshTokens.last_used_at,
+    expires_at: refreshTokens.expires_at
+  })
+    .from(refreshTokens)
+    .where(
+      and(
+        eq(refreshTokens.user_id, userId),
+        eq(refreshTokens.revoked, false),
+        sql`${refreshTokens.expires_at} > NOW()`
+      )
+    )
+    .orderBy(desc(refreshTokens.last_used_at));
+}
+
+/**
+ * Verificar se a sessão de um access token continua ativa
+ */
+async function isSessionActive(sessionId: number): Promise<boolean> {
+  const cached = sessionStatusCache.get<boolean>(sessionId);
+  if (cached !== undefined) {
+    return cached;
+  }
+  
+  const [session] = await db.select({ revoked: refreshTokens.revoked, expires_at: refreshTokens.expires_at })
+    .from(refreshTokens)
+    .where(eq(refreshTokens.id, sessionId));
+  
+  const active = !!session && !session.revoked && session.expires_at > new Date();
+  sessionStatusCache.set(sessionId, active);
+  return active;
+}
+
+function hashAuthToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Gerar token de uso único (redefinição de senha ou verificação de email).
+ * Tokens anteriores do mesmo tipo que ainda não foram usados deixam de valer.
+ */
+export async function createAuthToken(userId: number, type: AuthTokenType, ttlMinutes: number, ipAddress?: string): Promise<string> {
+  await db.update(authTokens)
+    .set({ used_at: new Date() })
+    .where(and(eq(authTokens.user_id, userId), eq(authTokens.type, type), isNull(authTokens.used_at)));
+
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await db.insert(authTokens).values({
+    user_id: userId,
+    type,
+    token_hash: hashAuthToken(token),
+    expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    ip_address: ipAddress
+  });
+
+  return token;
+}
+
+/**
+ * Consumir token de uso único: retorna o usuário dono do token se ele for válido,
+ * não tiver expirado e ainda não tiver sido usado
+ */
+export async function consumeAuthToken(token: string, type: AuthTokenType): Promise<User | null> {
+  const [authToken] = await db.update(authTokens)
+    .set({ used_at: new Date() })
+    .where(
+      and(
+        eq(authTokens.token_hash, hashAuthToken(token)),
+        eq(authTokens.type, type),
+        isNull(authTokens.used_at),
+        sql`${authTokens.expires_at} > NOW()`
+      )
+    )
+    .returning();
+
+  if (!authToken) {
+    return null;
+  }
+
+  const [user] = await db.select()
+    .from(users)
+    .where(
+      and(
+        eq(users.id, authToken.user_id),
+        eq(users.is_active, true)
+      )
+    );
+
+  return user || null;
+}
+
+/**
+ * Enviar email de verificação de cadastro
+ */
+async function sendVerificationEmail(user: User, ipAddress?: string): Promise<void> {
+  const token = await createAuthToken(user.id, 'email_verification', EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60, ipAddress);
+
+  await MailService.sendTemplate(
+    { email: user.email, name: user.name, userId: user.id },
+    'email_verification',
+    {
+      recipientName: user.name,
+      verifyLink: `/auth?verify=${token}`,
+      expiresInHours: EMAIL_VERIFICATION_TOKEN_TTL_HOURS
+    }
+  );
+}
+
+/**
+ * Política de 2FA: com REQUIRE_2FA_FOR_PRIVILEGED_USERS=true, administradores e quem
+ * possui "manage_financials" precisam ativar a autenticação em dois fatores para entrar
+ */
+export function isTwoFactorPolicyEnabled(): boolean {
+  return process.env.REQUIRE_2FA_FOR_PRIVILEGED_USERS === 'true';
+}
+
+/**
+ * Verificar se a política exige 2FA para o usuário
+ */
+export async function isTwoFactorRequired(user: { role: string; permissions?: string[] | null }): Promise<boolean> {
+  if (!isTwoFactorPolicyEnabled()) {
+    return false;
+  }
+  
+  if (user.role === 'admin') {
+    return true;
+  }
+  
+  return hasPermission({ role: user.role, permissions: user.permissions ?? [] }, 'manage_financials');
+}
+
+/**
+ * Verificar se o usuário é obrigado a usar 2FA e ainda não o ativou. Sessões abertas antes
+ * da política (ou de o usuário ganhar a permissão) e tokens de API são recusados até a
+ * ativação, que acontece no próximo login.
+ */
+async function isMissingRequiredTwoFactor(user: { id: number; role: string; permissions?: string[] | null }): Promise<boolean> {
+  if (twoFactorComplianceCache.get<boolean>(user.id)) {
+    return false;
+  }
+  
+  const missing = await isTwoFactorRequired(user) && !(await TwoFactorService.isEnabled(user.id));
+  if (!missing) {
+    twoFactorComplianceCache.set(user.id, true);
+  }
+  return missing;
+}
+
+function sendTwoFactorSetupRequired(res: Response, status: number) {
+  return res.status(status).json({
+    message: 'A autenticação em dois fatores é obrigatória para este usuário. Faça login novamente para ativá-la.',
+    code: 'TWO_FACTOR_SETUP_REQUIRED'
+  });
+}
+
+function createTwoFactorChallenge(userId: number, purpose: TwoFactorChallengePurpose): string {
+  const payload: TwoFactorChallengePayload = { userId, purpose };
+  return jwt.sign(payload, TWO_FACTOR_CHALLENGE_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY });
+}
+
+/**
+ * Validar o desafio do segundo passo do login, retornando o usuário se ainda estiver ativo
+ */
+async function verifyTwoFactorChallenge(token: string, purpose: TwoFactorChallengePurpose): Promise<User | null> {
+  let payload: TwoFactorChallengePayload;
+  try {
+    payload = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as TwoFactorChallengePayload;
+  } catch {
+    return null;
+  }
+  
+  if (payload.purpose !== purpose) {
+    return null;
+  }
+  
+  const [user] = await db.select()
+    .from(users)
+    .where(
+      and(
+        eq(users.id, payload.userId),
+        eq(users.is_active, true)
+      )
+    );
+  
   return user || null;
 }
 
+/**
+ * Resposta para tentativas de login recusadas pela proteção contra força bruta
+ */
+function sendLoginBlocked(res: Response, block: LoginBlock) {
+  const minutes = Math.ceil(block.retryAfterSeconds / 60);
+  const wait = block.retryAfterSeconds < 60
+    ? `${block.retryAfterSeconds} ${block.retryAfterSeconds === 1 ? 'segundo' : 'segundos'}`
+    : `${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}`;
+
+  const message = block.reason === 'backoff'
+    ? `Muitas tentativas sem sucesso. Aguarde ${wait} antes de tentar novamente.`
+    : block.scope === 'account'
+      ? `Conta bloqueada temporariamente após várias tentativas sem sucesso. Tente novamente em ${wait}.`
+      : `Muitas tentativas de login a partir deste endereço. Tente novamente em ${wait}.`;
+
+  res.set('Retry-After', String(block.retryAfterSeconds));
+  return res.status(429).json({
+    message,
+    code: block.reason === 'locked' && block.scope === 'account' ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+    retryAfter: block.retryAfterSeconds
+  });
+}
+
+/**
+ * Registra uma falha de login (senha ou segundo fator) e os bloqueios que ela provocar
+ */
+async function registerLoginFailure(req: Request, identifier: string, user: User | undefined, reason: string) {
+  const accountKey = LoginThrottleService.accountKey(identifier, user?.id);
+  const result = await LoginThrottleService.recordFailure(accountKey, req.ip, user?.id);
+
+  await SecurityEventService.log(reason === 'two_factor' ? 'two_factor_failed' : 'login_failed', req, {
+    userId: user?.id,
+    identifier,
+    metadata: reason === 'two_factor' ? undefined : { reason }
+  });
+
+  for (const scope of result.locked) {
+    console.warn(`[Login] ${scope === 'account' ? `Conta "${identifier}"` : `IP ${req.ip}`} bloqueado após falhas consecutivas`);
+    await SecurityEventService.log(scope === 'account' ? 'account_locked' : 'ip_locked', req, {
+      userId: scope === 'account' ? user?.id : undefined,
+      identifier,
+      metadata: { lockedUntil: result.block?.until }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Abrir uma nova sessão: salva o refresh token, define os cookies e
+ * retorna o corpo da resposta de login (usuário sem a senha e access token)
+ */
+async function issueSession(req: Request, res: Response, user: User) {
+  // Login concluído: as falhas anteriores da conta deixam de contar
+  await LoginThrottleService.recordSuccess(LoginThrottleService.accountKey(user.username, user.id));
+  await SecurityEventService.log('login_success', req, { userId: user.id, identifier: user.username });
+  
+  // Atualizar último login
+  await db.update(users)
+    .set({ last_login: new Date() })
+    .where(eq(users.id, user.id));
+  
+  // Gerar refresh token
+  const refreshToken = generateRefreshToken(
+    user, 
+    req.ip, 
+    req.headers['user-agent']
+  );
+  
+  // Salvar refresh token (cada login abre uma nova sessão)
+  const sessionId = await saveRefreshToken(
+    user.id, 
+    refreshToken,
+    req.ip,
+    req.headers['user-agent']
+  );
+  
+  // Gerar access token vinculado à sessão
+  const accessToken = generateAccessToken(user, sessionId);
+  
+  // Configurar cookies
+  res.cookie('accessToken', accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 4 * 60 * 60 * 1000 // 4 horas
+  });
+  
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/auth/refresh',
+    maxAge: 7 * 24 * 60 * 60 * 1000 // 7 dias
+  });
+  
+  // Retornar usuário sem a senha
+  const { password: _, ...userWithoutPassword } = user;
+  
+  return {
+    user: userWithoutPassword,
+    token: accessToken
+  };
+}
+
 /**
  * Middleware para verificar autenticação via JWT
  */
@@ -145,15 +587,103 @@ export function authenticateJWT(req: Request, res: Response, next: NextFunction)
     return res.status(401).json({ message: 'Token de acesso não fornecido' });
   }
   
+  // Tokens de acesso pessoais (integrações e scripts)
+  if (ApiTokenService.isApiToken(token)) {
+    return authenticateApiToken(req, res, next, token);
+  }
+  
+  let decoded: JwtPayload;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    req.user = { id: decoded.userId, role: decoded.role, permissions: decoded.permissions };
-    console.log(`[Auth] Token verificado para usuário ID: ${decoded.userId}, role: ${decoded.role}`);
-    next();
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
   } catch (err) {
     console.error('[Auth] Erro ao verificar token:', err);
     return res.status(403).json({ message: 'Token inválido ou expirado' });
   }
+  
+  // Recusar tokens de sessões encerradas (logout remoto ou "sair de todos os dispositivos")
+  const sessionCheck = decoded.sid ? isSessionActive(decoded.sid) : Promise.resolve(true);
+  
+  sessionCheck
+    .then(async active => {
+      if (!active) {
+        return res.status(401).json({ message: 'Sessão encerrada. Faça login novamente.' });
+      }
+      
+      if (await isMissingRequiredTwoFactor({ id: decoded.userId, role: decoded.role, permissions: decoded.permissions })) {
+        return sendTwoFactorSetupRequired(res, 401);
+      }
+      
+      req.user = { id: decoded.userId, role: decoded.role, permissions: decoded.permissions, sessionId: decoded.sid };
+      console.log(`[Auth] Token verificado para usuário ID: ${decoded.userId}, role: ${decoded.role}`);
+      next();
+    })
+    .catch(error => {
+      console.error('[Auth] Erro ao verificar sessão:', error);
+      res.status(500).json({ message: 'Erro interno do servidor' });
+    });
+}
+
+/**
+ * Valida um access token fora do ciclo HTTP (handshake do canal em tempo real).
+ * Retorna null para tokens inválidos, expirados, de sessões encerradas ou de usuários
+ * que ainda não ativaram o 2FA exigido pela política.
+ */
+export async function verifyAccessToken(token: string): Promise<NonNullable<Request['user']> | null> {
+  let decoded: JwtPayload;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+  } catch {
+    return null;
+  }
+
+  if (decoded.sid && !(await isSessionActive(decoded.sid))) {
+    return null;
+  }
+
+  if (await isMissingRequiredTwoFactor({ id: decoded.userId, role: decoded.role, permissions: decoded.permissions })) {
+    return null;
+  }
+
+  return { id: decoded.userId, role: decoded.role, permissions: decoded.permissions, sessionId: decoded.sid };
+}
+
+/**
+ * Autenticação por token de API: o token age em nome do usuário, limitado aos seus escopos.
+ * As permissões do usuário são lidas do banco a cada requisição, de modo que
+ * requirePermission/requireRole continuam valendo para o token.
+ */
+function authenticateApiToken(req: Request, res: Response, next: NextFunction, token: string) {
+  const path = req.originalUrl.split('?')[0];
+  
+  ApiTokenService.authenticate(token, req.ip)
+    .then(async result => {
+      if (!result) {
+        return res.status(401).json({ message: 'Token de API inválido, expirado ou revogado' });
+      }
+      
+      const resource = ApiTokenService.resolveResource(path);
+      if (!resource) {
+        return res.status(403).json({ message: 'Este recurso não está disponível para tokens de API' });
+      }
+      
+      const access = ApiTokenService.accessForMethod(req.method);
+      if (!ApiTokenService.hasScope(result.apiToken.scopes, resource, access)) {
+        return res.status(403).json({ message: `Acesso negado: o token não possui o escopo "${resource}:${access}"` });
+      }
+      
+      const { user, apiToken } = result;
+      if (await isMissingRequiredTwoFactor(user)) {
+        return sendTwoFactorSetupRequired(res, 403);
+      }
+      
+      req.user = { id: user.id, role: user.role, permissions: user.permissions ?? [], apiTokenId: apiToken.id };
+      console.log(`[Auth] Token de API ${apiToken.id} verificado para usuário ID: ${user.id}`);
+      next();
+    })
+    .catch(error => {
+      console.error('[Auth] Erro ao verificar token de API:', error);
+      res.status(500).json({ message: 'Erro interno do servidor' });
+    });
 }
 
 /**
@@ -175,21 +705,39 @@ export function requireRole(roles: string[]) {
   };
 }
 
+/**
+ * Verificar se o usuário possui uma permissão, seja concedida diretamente
+ * (users.permissions) ou pela matriz de permissões da sua função
+ */
+export async function hasPermission(user: { role: string; permissions?: string[] }, permission: string): Promise<boolean> {
+  if (user.role === 'admin') {
+    return true; // Admin tem todas as permissões
+  }
+  
+  if (user.permissions && user.permissions.includes(permission)) {
+    return true;
+  }
+  
+  const rolePermissionKeys = await storage.getRolePermissionKeys(user.role);
+  return rolePermissionKeys.includes(permission);
+}
+
 /**
  * Middleware para verificar permissões específicas
  */
 export function requirePermission(permission: string) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ message: 'Usuário não autenticado' });
     }
     
-    if (req.user.role === 'admin') {
-      return next(); // Admin tem todas as permissões
-    }
-    
-    if (req.user.permissions && req.user.permissions.includes(permission)) {
-      return next();
+    try {
+      if (await hasPermission(req.user, permission)) {
+        return next();
+      }
+    } catch (error) {
+      console.error('[Auth] Erro ao verificar permissão:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
     }
     
     return res.status(403).json({ 
@@ -198,6 +746,112 @@ export function requirePermission(permission: string) {
   };
 }
 
+/**
+ * Escopo de projetos do usuário: admin e quem possui "view_all_jobs" enxergam
+ * todos os projetos; os demais apenas aqueles em que são membros
+ */
+export async function getProjectScope(user: { id: number; role: string; permissions?: string[] }): Promise<ProjectAccessScope | undefined> {
+  if (await hasPermission(user, 'view_all_jobs')) {
+    return undefined;
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * Nível de acesso do usuário dentro de um projeto (null = sem acesso).
+ * Usuários sem restrição de escopo seguem apenas as permissões globais.
+ */
+export async function getProjectAccess(user: { id: number; role: string; permissions?: string[] }, projectId: number): Promise<ProjectAccessLevel | null> {
+  if (!(await getProjectScope(user))) {
+    return 'producer';
+  }
+
+  const member = await storage.getProjectMember(projectId, user.id);
+  return member ? getProjectAccessLevel(member.role) : null;
+}
+
+/**
+ * Verificar se o usuário é membro com papel de produção no projeto, o que permite
+ * remover comentários e anexos enviados por outros membros
+ */
+export async function canModerateProject(user: { id: number }, projectId: number | null | undefined): Promise<boolean> {
+  if (!projectId) {
+    return false;
+  }
+
+  const member = await storage.getProjectMember(projectId, user.id);
+  return !!member && getProjectAccessLevel(member.role) === 'producer';
+}
+
+/**
+ * Resolve o projeto do recurso acessado pela rota:
+ * número = projeto do recurso; null = recurso sem projeto; undefined = recurso inexistente
+ */
+export type ProjectIdResolver = (req: Request) => Promise<number | null | undefined>;
+
+export const projectFromParam = (param = 'id'): ProjectIdResolver =>
+  async (req) => parseInt(req.params[param]);
+
+export const projectFromTask = (param = 'id'): ProjectIdResolver =>
+  async (req) => (await storage.getTask(parseInt(req.params[param])))?.project_id;
+
+// Como projectFromTask, mas o responsável pela tarefa passa mesmo sem ser membro do
+// projeto (mesma regra de taskScopeCondition na listagem de tarefas)
+export const projectFromTaskUnlessAssigned = (param = 'id'): ProjectIdResolver =>
+  async (req) => {
+    const task = await storage.getTask(parseInt(req.params[param]));
+    if (!task) return undefined;
+    return task.assigned_to === req.user?.id ? null : task.project_id;
+  };
+
+export const projectFromTaskAttachment = (param = 'id'): ProjectIdResolver =>
+  async (req) => {
+    const attachment = await storage.getTaskAttachment(parseInt(req.params[param]));
+    if (!attachment) return undefined;
+    return (await storage.getTask(attachment.task_id))?.project_id;
+  };
+
+export const projectFromProjectAttachment = (param = 'id'): ProjectIdResolver =>
+  async (req) => (await storage.getProjectAttachment(parseInt(req.params[param])))?.project_id;
+
+/**
+ * Middleware para exigir um nível mínimo de acesso ao projeto do recurso.
+ * Recursos inexistentes ou sem projeto seguem para a rota, que aplica as regras globais.
+ */
+export function requireProjectAccess(level: ProjectAccessLevel, resolveProjectId: ProjectIdResolver) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Usuário não autenticado' });
+    }
+
+    try {
+      const projectId = await resolveProjectId(req);
+      if (projectId === null || projectId === undefined || isNaN(projectId)) {
+        return next();
+      }
+
+      const access = await getProjectAccess(req.user, projectId);
+      if (!access) {
+        return res.status(403).json({
+          message: 'Acesso negado: você não é membro deste projeto'
+        });
+      }
+
+      if (!hasProjectAccessLevel(access, level)) {
+        return res.status(403).json({
+          message: 'Acesso negado: seu papel neste projeto não permite esta ação'
+        });
+      }
+
+      return next();
+    } catch (error) {
+      console.error('[Auth] Erro ao verificar acesso ao projeto:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  };
+}
+
 /**
  * Criptografar dados usando AES-256-CBC
  */
@@ -251,7 +905,7 @@ export function setupAuth(app: Express) {
     
     try {
       const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-      req.user = { id: decoded.userId, role: decoded.role, permissions: decoded.permissions };
+      req.user = { id: decoded.userId, role: decoded.role, permissions: decoded.permissions, sessionId: decoded.sid };
     } catch (err) {
       // Token inválido, continue sem definir req.user
     }
@@ -289,47 +943,19 @@ export function setupAuth(app: Express) {
           name,
           role: 'viewer', // Papel padrão
           is_active: true,
+          email_verified: false,
           created_at: new Date(),
           updated_at: new Date()
         })
         .returning();
       
-      // Gerar tokens
-      const accessToken = generateAccessToken(user);
-      const refreshToken = generateRefreshToken(
-        user, 
-        req.ip, 
-        req.headers['user-agent']
-      );
-      
-      // Salvar refresh token
-      await saveRefreshToken(
-        user.id, 
-        refreshToken,
-        req.ip,
-        req.headers['user-agent']
-      );
-      
-      // Configurar cookies
-      res.cookie('accessToken', accessToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 4 * 60 * 60 * 1000 // 4 horas
-      });
-      
-      res.cookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        path: '/api/auth/refresh',
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 dias
-      });
-      
-      // Retornar usuário sem a senha
-      const { password: _, ...userWithoutPassword } = user;
+      // A sessão só é criada depois que o email for confirmado
+      await sendVerificationEmail(user, req.ip);
       
       return res.status(201).json({
-        user: userWithoutPassword,
-        token: accessToken
+        message: 'Conta criada. Enviamos um link de confirmação para o seu email.',
+        requiresVerification: true,
+        email: user.email
       });
     } catch (error) {
       console.error('Erro ao registrar usuário:', error);
@@ -342,6 +968,10 @@ export function setupAuth(app: Express) {
     try {
       const { username, password } = req.body;
       
+      if (typeof username !== 'string' || typeof password !== 'string' || !username.trim()) {
+        return res.status(400).json({ message: 'Informe usuário e senha' });
+      }
+      
       // Buscar usuário
       const [user] = await db.select()
         .from(users)
@@ -349,7 +979,26 @@ export function setupAuth(app: Express) {
           sql`${users.username} = ${username} OR ${users.email} = ${username}`
         );
       
+      // Proteção contra força bruta: conta ou IP bloqueados não têm a senha verificada
+      const block = await LoginThrottleService.check(
+        LoginThrottleService.accountKey(username, user?.id),
+        req.ip
+      );
+      
+      if (block) {
+        await SecurityEventService.log('login_blocked', req, {
+          userId: user?.id,
+          identifier: username,
+          metadata: { scope: block.scope, reason: block.reason, retryAfter: block.retryAfterSeconds }
+        });
+        return sendLoginBlocked(res, block);
+      }
+      
       if (!user) {
+        const failure = await registerLoginFailure(req, username, undefined, 'unknown_user');
+        if (failure.locked.length > 0 && failure.block) {
+          return sendLoginBlocked(res, failure.block);
+        }
         return res.status(401).json({ message: 'Credenciais inválidas' });
       }
       
@@ -362,53 +1011,149 @@ export function setupAuth(app: Express) {
       const passwordValid = await comparePassword(password, user.password);
       
       if (!passwordValid) {
+        const failure = await registerLoginFailure(req, username, user, 'invalid_password');
+        if (failure.locked.length > 0 && failure.block) {
+          return sendLoginBlocked(res, failure.block);
+        }
         return res.status(401).json({ message: 'Credenciais inválidas' });
       }
       
-      // Atualizar último login
-      await db.update(users)
-        .set({ last_login: new Date() })
-        .where(eq(users.id, user.id));
+      // Verificar se o email foi confirmado
+      if (user.email_verified === false) {
+        return res.status(403).json({
+          message: 'Confirme seu email antes de entrar. Verifique sua caixa de entrada.',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
+      }
       
-      // Gerar tokens
-      const accessToken = generateAccessToken(user);
-      const refreshToken = generateRefreshToken(
-        user, 
-        req.ip, 
-        req.headers['user-agent']
-      );
+      // Segundo fator: a sessão só é aberta depois do código do app autenticador
+      if (await TwoFactorService.isEnabled(user.id)) {
+        return res.status(200).json({
+          twoFactorRequired: true,
+          challengeToken: createTwoFactorChallenge(user.id, 'verify')
+        });
+      }
       
-      // Salvar refresh token
-      await saveRefreshToken(
-        user.id, 
-        refreshToken,
-        req.ip,
-        req.headers['user-agent']
-      );
+      // A política exige 2FA para este usuário: a ativação faz parte do login
+      if (await isTwoFactorRequired(user)) {
+        return res.status(200).json({
+          twoFactorSetupRequired: true,
+          challengeToken: createTwoFactorChallenge(user.id, 'setup')
+        });
+      }
       
-      // Configurar cookies
-      res.cookie('accessToken', accessToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 4 * 60 * 60 * 1000 // 4 horas
-      });
+      return res.status(200).json(await issueSession(req, res, user));
+    } catch (error) {
+      console.error('Erro ao fazer login:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
+  // Segundo passo do login: código do app autenticador ou código de recuperação
+  app.post('/api/auth/login/2fa', async (req: Request, res: Response) => {
+    try {
+      const parsed = twoFactorLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
       
-      res.cookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        path: '/api/auth/refresh',
-        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 dias
-      });
+      const { challengeToken, code, recoveryCode } = parsed.data;
+      const user = await verifyTwoFactorChallenge(challengeToken, 'verify');
       
-      // Retornar usuário sem a senha
-      const { password: _, ...userWithoutPassword } = user;
+      if (!user) {
+        return res.status(400).json({
+          message: 'A verificação expirou. Faça login novamente.',
+          code: 'TWO_FACTOR_CHALLENGE_EXPIRED'
+        });
+      }
       
-      return res.status(200).json({
-        user: userWithoutPassword,
-        token: accessToken
-      });
+      // Os códigos de 6 dígitos seguem os mesmos limites de tentativas da senha
+      const block = await LoginThrottleService.check(LoginThrottleService.accountKey(user.username, user.id), req.ip);
+      if (block) {
+        return sendLoginBlocked(res, block);
+      }
+      
+      const valid = code
+        ? await TwoFactorService.verifyCode(user.id, code)
+        : await TwoFactorService.useRecoveryCode(user.id, recoveryCode!);
+      
+      if (!valid) {
+        const failure = await registerLoginFailure(req, user.username, user, 'two_factor');
+        if (failure.locked.length > 0 && failure.block) {
+          return sendLoginBlocked(res, failure.block);
+        }
+        return res.status(400).json({ message: code ? 'Código inválido' : 'Código de recuperação inválido' });
+      }
+      
+      return res.status(200).json(await issueSession(req, res, user));
     } catch (error) {
-      console.error('Erro ao fazer login:', error);
+      console.error('Erro ao verificar segundo fator:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
+  // Ativação obrigatória do 2FA durante o login: gera o QR code
+  app.post('/api/auth/login/2fa/setup', async (req: Request, res: Response) => {
+    try {
+      const parsed = twoFactorSetupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      
+      const user = await verifyTwoFactorChallenge(parsed.data.challengeToken, 'setup');
+      
+      if (!user) {
+        return res.status(400).json({
+          message: 'A verificação expirou. Faça login novamente.',
+          code: 'TWO_FACTOR_CHALLENGE_EXPIRED'
+        });
+      }
+      
+      // Um novo segredo substituiria o já ativo; quem tem 2FA entra pelo fluxo de verificação
+      if (await TwoFactorService.isEnabled(user.id)) {
+        return res.status(409).json({
+          message: 'A verificação em duas etapas já está ativada. Faça login novamente.',
+          code: 'TWO_FACTOR_ALREADY_ENABLED'
+        });
+      }
+      
+      const enrollment = await TwoFactorService.beginEnrollment(user);
+      return res.status(200).json(enrollment);
+    } catch (error) {
+      console.error('Erro ao iniciar ativação do 2FA:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
+  // Ativação obrigatória do 2FA durante o login: confirma o código e abre a sessão
+  app.post('/api/auth/login/2fa/setup/confirm', async (req: Request, res: Response) => {
+    try {
+      const parsed = twoFactorSetupSchema.safeParse(req.body);
+      if (!parsed.success || !parsed.data.code) {
+        return res.status(400).json({ message: 'Informe o código do app autenticador' });
+      }
+      
+      const user = await verifyTwoFactorChallenge(parsed.data.challengeToken, 'setup');
+      
+      if (!user) {
+        return res.status(400).json({
+          message: 'A verificação expirou. Faça login novamente.',
+          code: 'TWO_FACTOR_CHALLENGE_EXPIRED'
+        });
+      }
+      
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(user.id, parsed.data.code);
+      
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: 'Código inválido' });
+      }
+      
+      await SecurityEventService.log('two_factor_enabled', req, { userId: user.id });
+      
+      const session = await issueSession(req, res, user);
+      return res.status(200).json({ ...session, recoveryCodes });
+    } catch (error) {
+      console.error('Erro ao confirmar ativação do 2FA:', error);
       return res.status(500).json({ message: 'Erro interno do servidor' });
     }
   });
@@ -444,9 +1189,9 @@ export function setupAuth(app: Express) {
       }
       
       // Verificar se o token de refresh é válido
-      const user = await verifyRefreshToken(refreshToken);
+      const session = await verifyRefreshToken(refreshToken);
       
-      if (!user) {
+      if (!session) {
         // Limpar cookies
         res.clearCookie('accessToken');
         res.clearCookie('refreshToken', { path: '/api/auth/refresh' });
@@ -454,20 +1199,28 @@ export function setupAuth(app: Express) {
         return res.status(403).json({ message: 'Refresh token inválido ou expirado' });
       }
       
-      // Revogar refresh token atual
-      await revokeRefreshToken(refreshToken);
+      const { user, sessionId } = session;
+      
+      // A política de 2FA passou a valer para o usuário: a sessão termina e o próximo login conduz a ativação
+      if (await isMissingRequiredTwoFactor(user)) {
+        await revokeRefreshToken(refreshToken);
+        res.clearCookie('accessToken');
+        res.clearCookie('refreshToken', { path: '/api/auth/refresh' });
+        
+        return sendTwoFactorSetupRequired(res, 403);
+      }
       
       // Gerar novos tokens
-      const accessToken = generateAccessToken(user);
+      const accessToken = generateAccessToken(user, sessionId);
       const newRefreshToken = generateRefreshToken(
         user, 
         req.ip, 
         req.headers['user-agent']
       );
       
-      // Salvar novo refresh token
-      await saveRefreshToken(
-        user.id, 
+      // Substituir o refresh token da sessão atual (o token anterior deixa de valer)
+      await rotateRefreshToken(
+        sessionId, 
         newRefreshToken,
         req.ip,
         req.headers['user-agent']
@@ -494,6 +1247,129 @@ export function setupAuth(app: Express) {
     }
   });
   
+  // Confirmar email do cadastro
+  app.post('/api/auth/verify-email', async (req: Request, res: Response) => {
+    try {
+      const parsed = verifyEmailSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      
+      const user = await consumeAuthToken(parsed.data.token, 'email_verification');
+      
+      if (!user) {
+        return res.status(400).json({ message: 'Link de confirmação inválido ou expirado' });
+      }
+      
+      await db.update(users)
+        .set({ email_verified: true, email_verified_at: new Date(), updated_at: new Date() })
+        .where(eq(users.id, user.id));
+      
+      return res.status(200).json({ message: 'Email confirmado. Você já pode entrar.' });
+    } catch (error) {
+      console.error('Erro ao confirmar email:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
+  // Reenviar email de confirmação do cadastro
+  app.post('/api/auth/resend-verification', async (req: Request, res: Response) => {
+    try {
+      const parsed = emailRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      
+      const [user] = await db.select()
+        .from(users)
+        .where(eq(users.email, parsed.data.email));
+      
+      if (user && user.is_active && user.email_verified === false) {
+        await sendVerificationEmail(user, req.ip);
+      }
+      
+      return res.status(200).json({ message: GENERIC_EMAIL_RESPONSE });
+    } catch (error) {
+      console.error('Erro ao reenviar confirmação de email:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
+  // Solicitar redefinição de senha
+  app.post('/api/auth/forgot-password', async (req: Request, res: Response) => {
+    try {
+      const parsed = emailRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      
+      const [user] = await db.select()
+        .from(users)
+        .where(eq(users.email, parsed.data.email));
+      
+      if (user && user.is_active) {
+        const token = await createAuthToken(user.id, 'password_reset', PASSWORD_RESET_TOKEN_TTL_MINUTES, req.ip);
+        await SecurityEventService.log('password_reset_requested', req, { userId: user.id, identifier: user.email });
+        
+        await MailService.sendTemplate(
+          { email: user.email, name: user.name, userId: user.id },
+          'password_reset',
+          {
+            recipientName: user.name,
+            resetLink: `/auth?reset=${token}`,
+            expiresInMinutes: PASSWORD_RESET_TOKEN_TTL_MINUTES
+          }
+        );
+      }
+      
+      return res.status(200).json({ message: GENERIC_EMAIL_RESPONSE });
+    } catch (error) {
+      console.error('Erro ao solicitar redefinição de senha:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
+  // Redefinir senha com o token recebido por email
+  app.post('/api/auth/reset-password', async (req: Request, res: Response) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      
+      const user = await consumeAuthToken(parsed.data.token, 'password_reset');
+      
+      if (!user) {
+        return res.status(400).json({ message: 'Link de redefinição inválido ou expirado' });
+      }
+      
+      const hashedPassword = await hashPassword(parsed.data.password);
+      
+      // Receber o link por email também comprova a posse do endereço
+      await db.update(users)
+        .set({
+          password: hashedPassword,
+          email_verified: true,
+          email_verified_at: user.email_verified ? user.email_verified_at : new Date(),
+          updated_at: new Date()
+        })
+        .where(eq(users.id, user.id));
+      
+      // Encerrar as sessões existentes somente depois que o token foi usado: o pedido de
+      // redefinição pode ser feito por qualquer um que saiba o email
+      await revokeAllRefreshTokens(user.id);
+      
+      // Quem recebeu o link por email recupera o acesso mesmo com a conta bloqueada
+      await LoginThrottleService.unlockAccount(user.id);
+      await SecurityEventService.log('password_reset_completed', req, { userId: user.id, identifier: user.email });
+      
+      return res.status(200).json({ message: 'Senha redefinida. Entre com a nova senha.' });
+    } catch (error) {
+      console.error('Erro ao redefinir senha:', error);
+      return res.status(500).json({ message: 'Erro interno do servidor' });
+    }
+  });
+  
   // Obter usuário atual
   app.get('/api/auth/me', authenticateJWT, async (req: Request, res: Response) => {
     try {
@@ -511,7 +1387,7 @@ export function setupAuth(app: Express) {
       const { password, ...userWithoutPassword } = user;
       
       // Gerar um novo token para garantir que ele esteja atualizado
-      const accessToken = generateAccessToken(user);
+      const accessToken = generateAccessToken(user, req.user!.sessionId);
       
       return res.status(200).json({
         user: userWithoutPassword,
@@ -532,6 +1408,8 @@ declare global {
         id: number;
         role: string;
         permissions?: string[];
+        sessionId?: number;
+        apiTokenId?: number; // Requisição autenticada por token de API
       };
     }
   }
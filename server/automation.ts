@@ -6,6 +6,8 @@ import { format, addDays, isAfter, isBefore, parseISO, subMonths, addMonths, add
 import { ptBR } from 'date-fns/locale';
 import { storage } from './storage';
 import { checkDelayedProjects } from './routes/project-status';
+import { NotificationService } from './services/notifications';
+import { ProjectBillingService } from './services/project-billing';
 
 /**
  * Cria eventos de produção para deadlines de entrega e alertas inteligentes
@@ -200,8 +202,9 @@ export async function syncProductionEvents(): Promise<{ success: boolean, messag
 /**
  * Sincroniza todas as datas importantes do projeto com documentos financeiros e eventos relacionados
  * @param projectId O ID do projeto a sincronizar
+ * @param userId ID do usuário responsável pela alteração (registrado na auditoria financeira)
  */
-export async function syncProjectDatesWithFinancialDocuments(projectId: number) {
+export async function syncProjectDatesWithFinancialDocuments(projectId: number, userId: number = 1) {
   try {
     // Buscar o projeto pelo ID
     const [project] = await db.select().from(projects).where(eq(projects.id, projectId));
@@ -217,89 +220,17 @@ export async function syncProjectDatesWithFinancialDocuments(projectId: number)
     // PARTE 1: SINCRONIZAR DOCUMENTOS FINANCEIROS
     // -----------------------------------------
     
-    // Buscar todos os documentos financeiros relacionados ao projeto (mesmo os pagos)
+    // As faturas geradas pelo projeto (uma por parcela) acompanham orçamento, data de
+    // emissão, prazo e parcelamento; documentos avulsos do projeto não são alterados
+    const billing = await ProjectBillingService.sync(projectId, userId);
+    updatedCount = billing.created + billing.updated + billing.cancelled;
+    
+    // Buscar os documentos financeiros do projeto já sincronizados (mesmo os pagos)
     const financialDocs = await db
       .select()
       .from(financialDocuments)
       .where(eq(financialDocuments.project_id, projectId));
     
-    // Verificar se existem documentos financeiros para sincronizar
-    if (financialDocs.length > 0) {
-      // Verificar se o projeto tem data de emissão configurada
-      if (project.issue_date) {
-        // Padroniza a data de emissão para meio-dia (12:00) para evitar problemas de fuso horário
-        const issueDate = new Date(project.issue_date);
-        const formattedIssueDate = new Date(
-          Date.UTC(
-            issueDate.getFullYear(),
-            issueDate.getMonth(),
-            issueDate.getDate(),
-            12, 0, 0
-          )
-        );
-        
-        // Calcula o vencimento: Data de Emissão + Prazo de Pagamento
-        const paymentTerm = project.payment_term || 30;
-        const dueDate = new Date(formattedIssueDate);
-        dueDate.setDate(dueDate.getDate() + paymentTerm);
-        
-        console.log(`[Automação] Sincronizando datas para projeto ID:${projectId}`);
-        console.log(`[Automação] Data de emissão padronizada: ${formattedIssueDate.toISOString()}`);
-        console.log(`[Automação] Data de vencimento calculada: ${dueDate.toISOString()}`);
-        
-        // Para cada documento financeiro, atualizar as datas
-        for (const doc of financialDocs) {
-          // Só atualiza documentos não pagos ou faturados recentemente (nos últimos 30 dias)
-          // Removemos a verificação de creation_date pois essa coluna não existe no banco
-          if (!doc.paid) {
-            await db.update(financialDocuments)
-              .set({
-                // Removida referência a creation_date
-                due_date: dueDate,
-                description: `Fatura referente ao projeto: ${project.name} (Prazo: ${paymentTerm} dias)`
-              })
-              .where(eq(financialDocuments.id, doc.id));
-            
-            updatedCount++;
-            console.log(`[Automação] Documento financeiro ID:${doc.id} sincronizado com as datas do projeto`);
-          }
-        }
-      } else {
-        console.log(`[Automação] Projeto ID:${projectId} não tem data de emissão configurada. Usando datas alternativas.`);
-        
-        // Se não tiver data de emissão, usar a data de início ou a data atual
-        const fallbackDate = project.startDate ? new Date(project.startDate) : new Date();
-        const formattedFallbackDate = new Date(
-          Date.UTC(
-            fallbackDate.getFullYear(),
-            fallbackDate.getMonth(),
-            fallbackDate.getDate(),
-            12, 0, 0
-          )
-        );
-        
-        // Calcular data de vencimento baseada na data alternativa
-        const paymentTerm = project.payment_term || 30;
-        const fallbackDueDate = new Date(formattedFallbackDate);
-        fallbackDueDate.setDate(fallbackDueDate.getDate() + paymentTerm);
-        
-        // Para documentos pendentes, atualizar com as datas alternativas
-        for (const doc of financialDocs) {
-          if (!doc.paid) {
-            await db.update(financialDocuments)
-              .set({
-                due_date: fallbackDueDate,
-                description: `Fatura referente ao projeto: ${project.name} (Prazo: ${paymentTerm} dias)`
-              })
-              .where(eq(financialDocuments.id, doc.id));
-            
-            updatedCount++;
-            console.log(`[Automação] Documento financeiro ID:${doc.id} atualizado com data alternativa`);
-          }
-        }
-      }
-    }
-    
     // PARTE 2: SINCRONIZAR EVENTOS DE CALENDÁRIO RELACIONADOS
     // ------------------------------------------------------
     
@@ -357,7 +288,11 @@ export async function syncProjectDatesWithFinancialDocuments(projectId: number)
     
     // Para cada documento financeiro, verificar se há eventos de vencimento
     for (const doc of financialDocs) {
-      if (!doc.paid && doc.due_date) {
+      if (!doc.paid && doc.due_date && doc.status !== 'cancelled') {
+        const eventTitle = doc.installment_count && doc.installment_count > 1
+          ? `Vencimento - ${project.name} (parcela ${doc.installment_number}/${doc.installment_count})`
+          : `Vencimento - ${project.name}`;
+
         // Buscar eventos específicos para este documento financeiro
         const docEvents = await db.select()
           .from(events)
@@ -375,7 +310,7 @@ export async function syncProjectDatesWithFinancialDocuments(projectId: number)
               .set({
                 start_date: doc.due_date,
                 end_date: doc.due_date,
-                title: `Vencimento - ${project.name}`,
+                title: eventTitle,
                 description: `Vencimento da fatura no valor de ${formatCurrency(doc.amount || 0)}`
               })
               .where(eq(events.id, event.id));
@@ -387,7 +322,7 @@ export async function syncProjectDatesWithFinancialDocuments(projectId: number)
           // Criar um novo evento para este documento financeiro
           const [newEvent] = await db.insert(events)
             .values({
-              title: `Vencimento - ${project.name}`,
+              title: eventTitle,
               description: `Vencimento da fatura no valor de ${formatCurrency(doc.amount || 0)}`,
               user_id: 1, // ID do sistema ou admin
               project_id: project.id,
@@ -479,6 +414,12 @@ export async function checkOverdueProjects() {
     
     await Promise.all(updatePromises);
     
+    // Notificar apenas projetos que acabaram de ser marcados como atrasados
+    const newlyDelayed = overdueProjects.filter(project => project.special_status !== 'delayed');
+    for (const project of newlyDelayed) {
+      await NotificationService.projectDelayed(project);
+    }
+    
     return { 
       success: true, 
       message: `${overdueProjects.length} projetos foram marcados como atrasados`, 
@@ -1354,6 +1295,93 @@ export async function createReminderEvents(): Promise<{ success: boolean, messag
   }
 }
 
+// Antecedência dos lembretes de prazo: tarefas na véspera, faturas a receber 3 dias antes
+const TASK_DUE_REMINDER_DAYS = 1;
+const INVOICE_DUE_REMINDER_DAYS = 3;
+
+/**
+ * Envia os lembretes de prazo (deadline_reminder): tarefas abertas com vencimento até
+ * amanhã e faturas a receber em aberto com vencimento nos próximos dias.
+ * Cada vencimento é avisado uma única vez (due_reminder_sent_for); se a data mudar,
+ * o lembrete é enviado de novo para o novo vencimento.
+ */
+export async function sendDueReminders(): Promise<{ success: boolean, message: string, tasks: number, invoices: number }> {
+  try {
+    console.log('[Automação] Enviando lembretes de prazo...');
+    const today = startOfDay(new Date());
+
+    const dueTasks = await db.select()
+      .from(tasks)
+      .where(
+        and(
+          eq(tasks.completed, false),
+          not(isNull(tasks.assigned_to)),
+          gte(tasks.due_date, today),
+          lte(tasks.due_date, endOfDay(addDays(today, TASK_DUE_REMINDER_DAYS))),
+          or(isNull(tasks.due_reminder_sent_for), sql`${tasks.due_reminder_sent_for} <> ${tasks.due_date}`)
+        )
+      );
+
+    for (const task of dueTasks) {
+      await NotificationService.taskDue(task);
+      await db.update(tasks)
+        .set({ due_reminder_sent_for: task.due_date })
+        .where(eq(tasks.id, task.id));
+    }
+
+    const dueInvoices = await db.select()
+      .from(financialDocuments)
+      .where(
+        and(
+          eq(financialDocuments.document_type, 'invoice'),
+          eq(financialDocuments.paid, false),
+          eq(financialDocuments.archived, false),
+          inArray(financialDocuments.status, ['pending', 'approved', 'partially_paid']),
+          gte(financialDocuments.due_date, today),
+          lte(financialDocuments.due_date, endOfDay(addDays(today, INVOICE_DUE_REMINDER_DAYS))),
+          or(isNull(financialDocuments.due_reminder_sent_for), sql`${financialDocuments.due_reminder_sent_for} <> ${financialDocuments.due_date}`)
+        )
+      );
+
+    for (const document of dueInvoices) {
+      await NotificationService.invoiceDue(document);
+      await db.update(financialDocuments)
+        .set({ due_reminder_sent_for: document.due_date })
+        .where(eq(financialDocuments.id, document.id));
+    }
+
+    return {
+      success: true,
+      message: `Lembretes enviados: ${dueTasks.length} tarefas e ${dueInvoices.length} faturas`,
+      tasks: dueTasks.length,
+      invoices: dueInvoices.length
+    };
+  } catch (error: any) {
+    console.error('[Automação] Erro ao enviar lembretes de prazo:', error);
+    return {
+      success: false,
+      message: `Erro ao enviar lembretes de prazo: ${error.message || 'Erro desconhecido'}`,
+      tasks: 0,
+      invoices: 0
+    };
+  }
+}
+
+let dueRemindersTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Agenda o envio diário dos lembretes de prazo para as 8h do próximo dia
+ */
+export function scheduleDueReminders(): void {
+  if (dueRemindersTimer) clearTimeout(dueRemindersTimer);
+
+  const nextRun = addHours(startOfDay(addDays(new Date(), 1)), 8);
+  dueRemindersTimer = setTimeout(async () => {
+    await sendDueReminders();
+    scheduleDueReminders();
+  }, nextRun.getTime() - Date.now());
+}
+
 /**
  * Executa todas as automações do sistema
  */
@@ -1379,6 +1407,10 @@ export async function runAutomations() {
   // Agenda a próxima verificação baseada em datas de entrega
   scheduleNextDeadlineCheck();
   
+  // Lembretes de prazo de tarefas e faturas (repetidos diariamente)
+  const dueRemindersResult = await sendDueReminders();
+  scheduleDueReminders();
+  
   // Sincroniza eventos do calendário
   const clientEventsResult = await syncClientEvents();
   const projectEventsResult = await syncProjectEvents();
@@ -1396,6 +1428,7 @@ export async function runAutomations() {
   return {
     updatedDates: updatedDatesResult,
     overdue: overdueResult,
+    dueReminders: dueRemindersResult,
     calendarEvents: {
       clients: clientEventsResult,
       projects: projectEventsResult,
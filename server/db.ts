@@ -21,4 +21,7 @@ export const pool = new Pool({
 });
 
 // Conecta e configura o cliente Drizzle com o timezone UTC
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+export const db = drizzle(pool, { schema });
+// Transação recebida pelo callback de db.transaction, para serviços que participam
+// de uma transação aberta por outro serviço
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
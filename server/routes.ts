@@ -3,24 +3,50 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
   insertClientSchema, insertProjectSchema, insertTaskSchema, 
-  insertProjectMemberSchema, insertProjectStageSchema, insertTaskCommentSchema, 
-  insertClientInteractionSchema, insertFinancialDocumentSchema, 
+  insertProjectMemberSchema, insertProjectStageSchema, 
+  insertClientInteractionSchema, insertFinancialDocumentSchema, updateFinancialDocumentSchema, 
   insertExpenseSchema, insertEventSchema, insertUserSchema, insertUserPreferenceSchema,
-  insertCommentReactionSchema, insertProjectCommentSchema, insertProjectCommentReactionSchema,
   insertClientContactSchema, financialDocuments,
   PROJECT_STATUS_CONFIG, isValidStatusTransition, calculateProgressFromStatus,
-  type ProjectStatus, type SpecialStatus
+  notificationPreferencesSchema, resolveNotificationPreferences,
+  normalizeTaskTags, TASK_DUE_PERIODS, TASK_SORT_FIELDS, TASK_SORT_DIRECTIONS, TASK_TAG_MAX_LENGTH,
+  installmentPlanError, outstandingBalance, registerPaymentSchema, revertPaymentSchema,
+  type FinancialDocument, type Project, type ProjectStatus, type SpecialStatus, type UserPreference,
+  type NotificationEventType, type NotificationChannel, type NotificationPreferencesInput
 } from "@shared/schema";
 import { z } from "zod";
-import { setupAuth, authenticateJWT, requireRole, requirePermission, comparePassword, hashPassword } from "./auth";
+import {
+  setupAuth, authenticateJWT, requireRole, requirePermission, hasPermission, comparePassword, hashPassword,
+  getProjectScope, canModerateProject, requireProjectAccess, projectFromParam, projectFromTask,
+  projectFromTaskUnlessAssigned, projectFromTaskAttachment, projectFromProjectAttachment
+} from "./auth";
 import { runAutomations, checkOverdueProjects, checkProjectsWithUpdatedDates } from "./automation";
-import { Server as SocketIOServer } from "socket.io";
-import { WebSocket, WebSocketServer } from "ws";
 import { eq } from "drizzle-orm";
 import { db } from "./db";
 import { parseISO } from "date-fns";
 import attachmentsRoutes from "./routes/attachments";
 import invoicesRoutes from "./routes/invoices";
+import permissionsRoutes from "./routes/permissions";
+import notificationsRoutes from "./routes/notifications";
+import sessionsRoutes from "./routes/sessions";
+import twoFactorRoutes from "./routes/two-factor";
+import securityRoutes from "./routes/security";
+import apiTokensRoutes from "./routes/api-tokens";
+import chatRoutes from "./routes/chat";
+import mentionsRoutes from "./routes/mentions";
+import commentsRoutes from "./routes/comments";
+import activityRoutes from "./routes/activity";
+import searchRoutes from "./routes/search";
+import taskViewsRoutes from "./routes/task-views";
+import financialReportsRoutes from "./routes/financial-reports";
+import bankReconciliationRoutes from "./routes/bank-reconciliation";
+import { NotificationService } from "./services/notifications";
+import { RealtimeService } from "./services/realtime";
+import { ActivityLogService } from "./services/activity-log";
+import { TaskListService } from "./services/task-list";
+import { ProjectBillingService } from "./services/project-billing";
+import { MailService } from "./services/mail";
+import { NotificationDigestService } from "./services/notification-digest";
 import { getProjectStatusHistory, updateProjectSpecialStatus } from "./routes/project-status";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -33,9 +59,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register invoices routes
   app.use('/api', invoicesRoutes);
   
+  // Register RBAC permission matrix routes
+  app.use('/api/permissions', permissionsRoutes);
+  
+  // Register notification center routes
+  app.use('/api/notifications', notificationsRoutes);
+  
+  // Register two-factor authentication management routes
+  app.use('/api/auth/2fa', twoFactorRoutes);
+  
+  // Register personal API token management routes
+  app.use('/api/auth/api-tokens', apiTokensRoutes);
+  
+  // Register team chat routes
+  app.use('/api/chat', chatRoutes);
+  
+  // Register comment mention routes (filtro "Menções")
+  app.use('/api/mentions', mentionsRoutes);
+  
+  // Register comment routes (/api/tasks/:id/comments, /api/projects/:id/comments, /api/clients/:id/comments e /api/financial-documents/:id/comments)
+  app.use('/api', commentsRoutes);
+  
+  // Register active session management routes (/api/auth/sessions e /api/users/:id/sessions)
+  app.use('/api', sessionsRoutes);
+  
+  // Register login protection routes (eventos de segurança e desbloqueio de contas)
+  app.use('/api', securityRoutes);
+  
+  // Register activity log routes (/api/activity, /api/projects/:id/activity e /api/clients/:id/activity)
+  app.use('/api', activityRoutes);
+  
+  // Register full-text search routes (barra de busca)
+  app.use('/api/search', searchRoutes);
+  
+  // Register saved task list view routes (visões salvas da página de tarefas)
+  app.use('/api/task-views', taskViewsRoutes);
+  
+  // Register financial reporting routes (indicadores da página Financeiro e do dashboard)
+  app.use('/api/financial-reports', financialReportsRoutes);
+  
+  // Register bank reconciliation routes (importação de extratos OFX/CNAB)
+  app.use('/api/bank-reconciliation', bankReconciliationRoutes);
+  
   // Rotas para status especial de projetos
-  app.get("/api/projects/:id/status-history", authenticateJWT, getProjectStatusHistory);
-  app.patch("/api/projects/:id/special-status", authenticateJWT, updateProjectSpecialStatus);
+  app.get("/api/projects/:id/status-history", authenticateJWT, requireProjectAccess('observer', projectFromParam()), getProjectStatusHistory);
+  app.patch("/api/projects/:id/special-status", authenticateJWT, requireProjectAccess('editor', projectFromParam()), updateProjectSpecialStatus);
 
   // Helper function to validate request body
   function validateBody<T extends z.ZodSchema>(schema: T) {
@@ -54,7 +122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   // Users - requer autenticação e permissões adequadas
-  app.get("/api/users", authenticateJWT, requireRole(['admin', 'manager']), async (_req, res) => {
+  app.get("/api/users", authenticateJWT, requirePermission('view_users'), async (_req, res) => {
     try {
       const users = await storage.getUsers();
       // Remove senhas da resposta
@@ -88,8 +156,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Criar um novo usuário (somente admin)
-  app.post("/api/users", authenticateJWT, requireRole(['admin']), validateBody(insertUserSchema), async (req, res) => {
+  // Criar um novo usuário
+  app.post("/api/users", authenticateJWT, requirePermission('manage_users'), validateBody(insertUserSchema), async (req, res) => {
     try {
       // Forçar papel 'viewer' para novos usuários criados pela UI
       const userData = {
@@ -114,14 +182,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       
-      // Só admins podem atualizar outros usuários ou alterar funções
-      if (req.user!.id !== id && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "Acesso negado. Apenas admins podem atualizar outros usuários." });
+      // Atualizar outros usuários requer "manage_users"
+      if (req.user!.id !== id && !(await hasPermission(req.user!, 'manage_users'))) {
+        return res.status(403).json({ message: "Acesso negado. Você não tem permissão para atualizar outros usuários." });
       }
       
-      // Só admins podem alterar a função de um usuário
-      if (req.body.role && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "Acesso negado. Apenas admins podem alterar funções de usuários." });
+      // Alterar a função de um usuário requer "assign_roles"
+      if (req.body.role && !(await hasPermission(req.user!, 'assign_roles'))) {
+        return res.status(403).json({ message: "Acesso negado. Você não tem permissão para alterar funções de usuários." });
       }
       
       // Verifica se o usuário existe
@@ -133,6 +201,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Atualiza o usuário
       const updatedUser = await storage.updateUser(id, req.body);
       
+      // Usuário desativado perde também as conexões em tempo real já abertas
+      if (updatedUser?.is_active === false) {
+        await RealtimeService.disconnectUser(id);
+      }
+      
       // Remove a senha da resposta
       const userWithoutPassword = { ...updatedUser };
       delete (userWithoutPassword as any).password;
@@ -148,14 +221,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       
-      // Só admins podem atualizar outros usuários ou alterar funções
-      if (req.user!.id !== id && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "Acesso negado. Apenas admins podem atualizar outros usuários." });
+      // Atualizar outros usuários requer "manage_users"
+      if (req.user!.id !== id && !(await hasPermission(req.user!, 'manage_users'))) {
+        return res.status(403).json({ message: "Acesso negado. Você não tem permissão para atualizar outros usuários." });
       }
       
-      // Só admins podem alterar a função de um usuário
-      if (req.body.role && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "Acesso negado. Apenas admins podem alterar funções de usuários." });
+      // Alterar a função de um usuário requer "assign_roles"
+      if (req.body.role && !(await hasPermission(req.user!, 'assign_roles'))) {
+        return res.status(403).json({ message: "Acesso negado. Você não tem permissão para alterar funções de usuários." });
       }
       
       // Verifica se o usuário existe
@@ -167,6 +240,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Atualiza o usuário
       const updatedUser = await storage.updateUser(id, req.body);
       
+      // Usuário desativado perde também as conexões em tempo real já abertas
+      if (updatedUser?.is_active === false) {
+        await RealtimeService.disconnectUser(id);
+      }
+      
       // Remove a senha da resposta
       const userWithoutPassword = { ...updatedUser };
       delete (userWithoutPassword as any).password;
@@ -234,8 +312,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Excluir um usuário (somente admin)
-  app.delete("/api/users/:id", authenticateJWT, requireRole(['admin']), async (req, res) => {
+  // Excluir um usuário
+  app.delete("/api/users/:id", authenticateJWT, requirePermission('manage_users'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -250,6 +328,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Usuário não encontrado" });
       }
       
+      await RealtimeService.disconnectUser(id);
+      
       res.status(204).end();
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -394,6 +474,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const client = await storage.createClient(req.body);
+      await ActivityLogService.record(req, 'client', 'created', { after: client });
+      RealtimeService.entityChanged('client', client.id, 'created', req.user!.id);
       res.status(201).json(client);
     } catch (error) {
       console.error("Erro ao criar cliente:", error);
@@ -442,27 +524,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      const existingClient = await storage.getClient(id);
       const updatedClient = await storage.updateClient(id, req.body);
       
       if (!updatedClient) {
         return res.status(404).json({ message: "Client not found" });
       }
       
-      // Emitir eventos WebSocket para notificar todos os clientes conectados
-      if (io) {
-        io.emit("client_updated", { client: updatedClient });
-      }
+      await ActivityLogService.record(req, 'client', 'updated', { before: existingClient, after: updatedClient });
       
-      if (wss) {
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ 
-              type: "client_updated", 
-              data: { client: updatedClient } 
-            }));
-          }
-        });
-      }
+      // Notificar quem acompanha o cliente em tempo real
+      RealtimeService.toClient(id, "client_updated", { type: "client_updated", clientId: id, client: updatedClient });
+      RealtimeService.entityChanged('client', id, 'updated', req.user!.id);
       
       // Mensagem personalizada para o toggle de status
       if (isQuickToggle) {
@@ -546,6 +619,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         detailMessage += ` ${result.deletedItems.contacts} contato(s) removido(s).`;
       }
       
+      await ActivityLogService.record(req, 'client', 'deleted', { before: client });
+      RealtimeService.entityChanged('client', id, 'deleted', req.user!.id);
+      
       res.status(200).json({ 
         message: detailMessage,
         deletedItems: result.deletedItems
@@ -561,24 +637,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/clients/:id/projects", authenticateJWT, async (req, res) => {
     try {
       const clientId = parseInt(req.params.id);
-      const projects = await storage.getProjectsByClient(clientId);
+      const projects = await storage.getProjectsByClient(clientId, await getProjectScope(req.user!));
       res.json(projects);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch client projects" });
     }
   });
   
-  // Obter documentos financeiros de um cliente específico
-  app.get("/api/clients/:id/financial-documents", authenticateJWT, async (req, res) => {
-    try {
-      const clientId = parseInt(req.params.id);
-      const documents = await storage.getFinancialDocumentsByClient(clientId);
-      res.json(documents);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch client financial documents" });
-    }
-  });
-  
   // Obter tarefas relacionadas a um cliente específico
   app.get("/api/clients/:id/tasks", authenticateJWT, async (req, res) => {
     try {
@@ -590,7 +655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Cliente não encontrado" });
       }
       
-      const tasks = await storage.getTasksByClient(clientId);
+      const tasks = await storage.getTasksByClient(clientId, await getProjectScope(req.user!));
       res.json(tasks);
     } catch (error) {
       console.error("Erro ao buscar tarefas do cliente:", error);
@@ -640,27 +705,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         client_id: clientId
       });
+      await ActivityLogService.record(req, 'client_contact', 'created', { after: contact });
       
-      // Emitir evento via WebSocket para notificar outros usuários
-      if (io) {
-        io.emit("client_updated", { 
-          type: "contact_created", 
-          clientId,
-          contact 
-        });
-      }
-      
-      if (wss) {
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ 
-              type: "client_updated",
-              action: "contact_created",
-              data: { clientId, contact } 
-            }));
-          }
-        });
-      }
+      // Notificar quem acompanha o cliente em tempo real
+      RealtimeService.toClient(clientId, "client_updated", {
+        type: "contact_created",
+        clientId,
+        contact
+      });
+      RealtimeService.entityChanged('client', clientId, 'updated', req.user!.id);
       
       res.status(201).json(contact);
     } catch (error) {
@@ -680,27 +733,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedContact = await storage.updateClientContact(contactId, req.body);
+      await ActivityLogService.record(req, 'client_contact', 'updated', { before: existingContact, after: updatedContact });
       
-      // Emitir evento via WebSocket para notificar outros usuários
-      if (io) {
-        io.emit("client_updated", { 
-          type: "contact_updated", 
-          clientId: existingContact.client_id,
-          contact: updatedContact
-        });
-      }
-      
-      if (wss) {
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ 
-              type: "client_updated",
-              action: "contact_updated",
-              data: { clientId: existingContact.client_id, contact: updatedContact } 
-            }));
-          }
-        });
-      }
+      // Notificar quem acompanha o cliente em tempo real
+      RealtimeService.toClient(existingContact.client_id, "client_updated", {
+        type: "contact_updated",
+        clientId: existingContact.client_id,
+        contact: updatedContact
+      });
+      RealtimeService.entityChanged('client', existingContact.client_id, 'updated', req.user!.id);
       
       res.json(updatedContact);
     } catch (error) {
@@ -720,27 +761,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedContact = await storage.updateClientContact(contactId, req.body);
+      await ActivityLogService.record(req, 'client_contact', 'updated', { before: existingContact, after: updatedContact });
       
-      // Emitir evento via WebSocket para notificar outros usuários
-      if (io) {
-        io.emit("client_updated", { 
-          type: "contact_updated", 
-          clientId: existingContact.client_id,
-          contact: updatedContact
-        });
-      }
-      
-      if (wss) {
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ 
-              type: "client_updated",
-              action: "contact_updated",
-              data: { clientId: existingContact.client_id, contact: updatedContact } 
-            }));
-          }
-        });
-      }
+      // Notificar quem acompanha o cliente em tempo real
+      RealtimeService.toClient(existingContact.client_id, "client_updated", {
+        type: "contact_updated",
+        clientId: existingContact.client_id,
+        contact: updatedContact
+      });
+      RealtimeService.entityChanged('client', existingContact.client_id, 'updated', req.user!.id);
       
       res.json(updatedContact);
     } catch (error) {
@@ -766,26 +795,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Contato não encontrado ou não pôde ser excluído" });
       }
       
-      // Emitir evento via WebSocket para notificar outros usuários
-      if (io) {
-        io.emit("client_updated", { 
-          type: "contact_deleted", 
-          clientId,
-          contactId
-        });
-      }
+      await ActivityLogService.record(req, 'client_contact', 'deleted', { before: contact });
       
-      if (wss) {
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ 
-              type: "client_updated",
-              action: "contact_deleted",
-              data: { clientId, contactId } 
-            }));
-          }
-        });
-      }
+      // Notificar quem acompanha o cliente em tempo real
+      RealtimeService.toClient(clientId, "client_updated", {
+        type: "contact_deleted",
+        clientId,
+        contactId
+      });
+      RealtimeService.entityChanged('client', clientId, 'updated', req.user!.id);
       
       res.status(204).end();
     } catch (error) {
@@ -806,27 +824,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const clientId = contact.client_id;
       const updatedContact = await storage.setPrimaryClientContact(contactId, clientId);
+      await ActivityLogService.record(req, 'client_contact', 'updated', { before: contact, after: updatedContact });
       
-      // Emitir evento via WebSocket para notificar outros usuários
-      if (io) {
-        io.emit("client_updated", { 
-          type: "contact_primary_changed", 
-          clientId,
-          contact: updatedContact
-        });
-      }
-      
-      if (wss) {
-        wss.clients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({ 
-              type: "client_updated",
-              action: "contact_primary_changed",
-              data: { clientId, contact: updatedContact } 
-            }));
-          }
-        });
-      }
+      // Notificar quem acompanha o cliente em tempo real
+      RealtimeService.toClient(clientId, "client_updated", {
+        type: "contact_primary_changed",
+        clientId,
+        contact: updatedContact
+      });
+      RealtimeService.entityChanged('client', clientId, 'updated', req.user!.id);
       
       res.json(updatedContact);
     } catch (error) {
@@ -853,12 +859,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         client_id: clientId
       });
+      RealtimeService.entityChanged('client', clientId, 'updated', req.user!.id);
       res.status(201).json(interaction);
     } catch (error) {
       res.status(500).json({ message: "Failed to create client interaction" });
     }
   });
 
+  // Verifica se a alteração muda os valores a faturar (orçamento ou parcelamento)
+  function projectBillingChanged(currentProject: Project, body: any): boolean {
+    const budgetChanged = body.budget !== undefined && (body.budget ?? 0) !== (currentProject.budget ?? 0);
+    const planChanged = body.installment_plan !== undefined &&
+      JSON.stringify(body.installment_plan ?? null) !== JSON.stringify(currentProject.installment_plan ?? null);
+    return budgetChanged || planChanged;
+  }
+
+  // Parcelamento com valores fixos precisa fechar com o orçamento (considerando o que não foi enviado)
+  function projectInstallmentPlanError(body: any, currentProject?: Project): string | null {
+    return installmentPlanError(
+      body.installment_plan !== undefined ? body.installment_plan : currentProject?.installment_plan,
+      body.budget !== undefined ? body.budget : currentProject?.budget
+    );
+  }
+
   // Função auxiliar para criar faturas com prazo de pagamento
   async function createProjectInvoice(projectId: number, clientId: number, projectName: string, budget: number, endDate: Date | null, paymentTerm: number = 30, createdBy: number = 1) {
     // Buscar o projeto para obter a data de emissão, se disponível
@@ -917,8 +940,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[${requestId}] [Projects API] Iniciando busca de projetos - ${userInfo}`);
     
     try {
-      // Buscar projetos com validação
-      const projects = await storage.getProjects();
+      // Buscar projetos com validação (restritos aos projetos do usuário, se aplicável)
+      const projects = await storage.getProjects(await getProjectScope(req.user!));
       console.log(`[${requestId}] [Projects API] Projetos carregados do storage: ${projects.length} items`);
       
       // Validação robusta dos dados - versão simplificada e síncrona
@@ -1000,7 +1023,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id", authenticateJWT, async (req, res) => {
+  app.get("/api/projects/:id", authenticateJWT, requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const project = await storage.getProject(id);
@@ -1020,6 +1043,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Extrair os membros da equipe e suas funções do corpo da requisição
       const { team_members, team_members_roles, ...projectData } = req.body;
       
+      const planError = projectInstallmentPlanError(projectData);
+      if (planError) {
+        return res.status(400).json({ message: planError });
+      }
+      
       // O Zod já está fazendo a conversão de string para Date através do transform no schema
       const project = await storage.createProject(projectData);
       
@@ -1041,26 +1069,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[Sistema] Adicionados ${team_members.length} membros à equipe do projeto ID:${project.id}`);
       }
       
-      // Gerar automaticamente um documento financeiro (fatura a receber) se o projeto tem orçamento
+      await ActivityLogService.record(req, 'project', 'created', { after: project });
+      RealtimeService.entityChanged('project', project.id, 'created', req.user!.id, { clientId: project.client_id });
+      
+      // Gerar automaticamente as faturas a receber (uma por parcela) se o projeto tem orçamento
       if (project.budget && project.budget > 0) {
-        const paymentTerm = project.payment_term || 30;
-        const financialDocument = await createProjectInvoice(
-          project.id, 
-          project.client_id, 
-          project.name, 
-          project.budget, 
-          project.endDate,
-          paymentTerm,
-          req.user?.id || 1
-        );
+        const invoices = await ProjectBillingService.generate(project, req.user!.id);
         
-        console.log(`[Sistema] Documento financeiro ID:${financialDocument.id} gerado automaticamente para o projeto ID:${project.id}`);
+        for (const invoice of invoices) {
+          RealtimeService.entityChanged('financial_document', invoice.id, 'created', req.user!.id, {
+            projectId: project.id,
+            clientId: project.client_id
+          });
+        }
         
-        // Incluir informação da fatura gerada na resposta
+        // Incluir informação das faturas geradas na resposta
         res.status(201).json({
           ...project,
           team_members: team_members || [],
-          generated_invoice: financialDocument
+          generated_invoice: invoices[0],
+          generated_invoices: invoices
         });
       } else {
         res.status(201).json({
@@ -1074,7 +1102,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/projects/:id", authenticateJWT, requirePermission('manage_projects'), validateBody(insertProjectSchema), async (req, res) => {
+  app.patch("/api/projects/:id", authenticateJWT, requirePermission('manage_projects'), requireProjectAccess('producer', projectFromParam()), validateBody(insertProjectSchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -1084,6 +1112,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
 
+      const planError = projectInstallmentPlanError(req.body, currentProject);
+      if (planError) {
+        return res.status(400).json({ message: planError });
+      }
+
+      const budgetError = await ProjectBillingService.budgetError(id, req.body.budget);
+      if (budgetError) {
+        return res.status(400).json({ message: budgetError });
+      }
+
       // **NOVA VALIDAÇÃO: Sistema Simplificado de Status**
       // Verificar se há mudança de status e validar transição
       if (req.body.status && req.body.status !== currentProject.status) {
@@ -1136,6 +1174,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // O Zod já está fazendo a conversão de string para Date através do transform no schema
       const updatedProject = await storage.updateProject(id, projectData);
+      await ActivityLogService.record(req, 'project', 'updated', { before: currentProject, after: updatedProject });
+      RealtimeService.entityChanged('project', id, 'updated', req.user!.id, { clientId: currentProject.client_id });
       
       // Verificar se houve alterações nas datas do projeto
       let datesChanged = false;
@@ -1186,6 +1226,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[Sistema] Prazo de Pagamento alterado: ${currentProject.payment_term || 'null'} -> ${req.body.payment_term}`);
       }
       
+      // Verificar alterações no orçamento ou no parcelamento (valores das faturas do projeto)
+      if (projectBillingChanged(currentProject, req.body)) {
+        datesChanged = true;
+        console.log(`[Sistema] Orçamento ou parcelamento alterado no projeto ID:${id}`);
+      }
+      
       // Se qualquer uma das datas importantes foi alterada, sincronizar em todo o sistema
       if (datesChanged) {
         console.log(`[Sistema] Projeto ID:${id} teve alterações nas datas - iniciando sincronização`);
@@ -1195,35 +1241,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const { syncProjectDatesWithFinancialDocuments } = await import('./automation');
           
           // Executar a sincronização para atualizar documentos financeiros e eventos de calendário
-          const syncResult = await syncProjectDatesWithFinancialDocuments(id);
+          const syncResult = await syncProjectDatesWithFinancialDocuments(id, req.user!.id);
           
           console.log(`[Sistema] Resultado da sincronização: ${syncResult.success ? 'Sucesso' : 'Falha'}`);
           console.log(`[Sistema] Detalhes: ${syncResult.message}`);
           
-          // Emitir notificação por Socket.IO sobre alterações de datas
-          if (typeof io !== 'undefined' && io) {
-            io.emit("project_dates_updated", { 
-              projectId: id,
-              success: syncResult.success,
-              message: syncResult.message
-            });
-          }
-          
-          // Emitir notificação por WebSocket sobre alterações de datas
-          if (typeof wss !== 'undefined' && wss) {
-            wss.clients.forEach(client => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({ 
-                  type: "project_dates_updated",
-                  data: { 
-                    projectId: id, 
-                    success: syncResult.success,
-                    message: syncResult.message
-                  } 
-                }));
-              }
-            });
-          }
+          // Notificar quem acompanha o projeto sobre alterações de datas
+          RealtimeService.toProject(id, "project_dates_updated", {
+            projectId: id,
+            success: syncResult.success,
+            message: syncResult.message
+          });
           
           // Adicionamos cabeçalho para indicar ao front-end que deve invalidar o cache
           res.setHeader('X-Invalidate-Cache', JSON.stringify([
@@ -1379,7 +1407,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Adicionar PUT como alternativa ao PATCH (para compatibilidade com alguns clientes)
-  app.put("/api/projects/:id", authenticateJWT, requirePermission('manage_projects'), validateBody(insertProjectSchema), async (req, res) => {
+  app.put("/api/projects/:id", authenticateJWT, requirePermission('manage_projects'), requireProjectAccess('producer', projectFromParam()), validateBody(insertProjectSchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -1389,6 +1417,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
+      const planError = projectInstallmentPlanError(req.body, currentProject);
+      if (planError) {
+        return res.status(400).json({ message: planError });
+      }
+      
+      const budgetError = await ProjectBillingService.budgetError(id, req.body.budget);
+      if (budgetError) {
+        return res.status(400).json({ message: budgetError });
+      }
+      
       // Verificar se houve alteração na data de emissão ou prazo de pagamento
       const issueDateChanged = req.body.issue_date !== undefined && 
         (!currentProject.issue_date || 
@@ -1397,18 +1435,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const paymentTermChanged = req.body.payment_term !== undefined && 
         currentProject.payment_term !== req.body.payment_term;
       
+      const billingChanged = projectBillingChanged(currentProject, req.body);
+      
       // Extrair os membros da equipe e suas funções do corpo da requisição
       const { team_members, team_members_roles, ...projectData } = req.body;
       
       // O Zod já está fazendo a conversão de string para Date através do transform no schema
       const updatedProject = await storage.updateProject(id, projectData);
+      await ActivityLogService.record(req, 'project', 'updated', { before: currentProject, after: updatedProject });
+      RealtimeService.entityChanged('project', id, 'updated', req.user!.id, { clientId: currentProject.client_id });
       
-      // Se a data de emissão ou prazo de pagamento foram alterados, sincroniza os documentos financeiros
-      if (issueDateChanged || paymentTermChanged) {
-        console.log(`[Sistema] Projeto ID:${id} teve alterações nas datas via PUT: Data de Emissão: ${issueDateChanged}, Prazo de Pagamento: ${paymentTermChanged}`);
+      // Se a data de emissão, o prazo de pagamento, o orçamento ou o parcelamento foram alterados, sincroniza os documentos financeiros
+      if (issueDateChanged || paymentTermChanged || billingChanged) {
+        console.log(`[Sistema] Projeto ID:${id} teve alterações nas datas via PUT: Data de Emissão: ${issueDateChanged}, Prazo de Pagamento: ${paymentTermChanged}, Orçamento/Parcelamento: ${billingChanged}`);
         // Importar a função de sincronização que implementamos em automation.ts
         const { syncProjectDatesWithFinancialDocuments } = await import('./automation');
-        const syncResult = await syncProjectDatesWithFinancialDocuments(id);
+        const syncResult = await syncProjectDatesWithFinancialDocuments(id, req.user!.id);
         console.log(`[Sistema] Resultado da sincronização via PUT: ${syncResult.success ? 'Sucesso' : 'Falha'} - ${syncResult.message}`);
       }
       
@@ -1570,7 +1612,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             if (endDate > today) {
               console.log(`[Verificação Manual] Atualizando status do projeto ${projectId} - ${project.name} de 'atrasado' para 'producao'`);
-              await storage.updateProjectStatus(projectId, 'producao');
+              const updatedProject = await storage.updateProjectStatus(projectId, 'producao');
+              await ActivityLogService.record(req, 'project', 'updated', { before: project, after: updatedProject });
+              RealtimeService.entityChanged('project', projectId, 'updated', req.user!.id, { clientId: project.client_id });
             }
           }
         }
@@ -1595,6 +1639,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
+      await ActivityLogService.record(req, 'project', 'created', { after: duplicatedProject });
+      RealtimeService.entityChanged('project', duplicatedProject.id, 'created', req.user!.id, { clientId: duplicatedProject.client_id });
       res.status(201).json(duplicatedProject);
     } catch (error) {
       console.error("Error duplicating project:", error);
@@ -1605,7 +1651,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Função para invalidação do cache após exclusão de registros relacionados
   async function invalidateRelatedRecords(projectId: number): Promise<void> {
     console.log(`[Cache] Invalidando registros relacionados ao projeto ID:${projectId}`);
-    io?.emit('cache-invalidation', {
+    RealtimeService.broadcast('cache-invalidation', {
       keys: [
         '/api/financial-documents',
         '/api/tasks',
@@ -1616,7 +1662,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
 
-  app.delete("/api/projects/:id", authenticateJWT, requireRole(['admin', 'manager']), async (req, res) => {
+  app.delete("/api/projects/:id", authenticateJWT, requirePermission('delete_jobs'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -1667,6 +1713,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Invalidar cache para garantir que o frontend reflita as mudanças
         await invalidateRelatedRecords(id);
+        await ActivityLogService.record(req, 'project', 'deleted', { before: project });
+        RealtimeService.entityChanged('project', id, 'deleted', req.user!.id, { clientId: project.client_id });
         
         res.status(204).end();
       } catch (transactionError) {
@@ -1680,7 +1728,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Project Members - Adicionando autenticação e permissões
-  app.get("/api/projects/:id/members", authenticateJWT, async (req, res) => {
+  app.get("/api/projects/:id/members", authenticateJWT, requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const members = await storage.getProjectMembers(projectId);
@@ -1690,7 +1738,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects/:id/members", authenticateJWT, requirePermission('manage_projects'), async (req, res) => {
+  app.post("/api/projects/:id/members", authenticateJWT, requirePermission('manage_projects'), requireProjectAccess('producer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       console.log('Tentando adicionar membro ao projeto:', projectId);
@@ -1712,6 +1760,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         const member = await storage.addProjectMember(validatedData);
         console.log('Membro adicionado com sucesso:', member);
+        await ActivityLogService.record(req, 'project_member', 'created', { after: member });
+        RealtimeService.entityChanged('project', projectId, 'updated', req.user!.id);
         res.status(201).json(member);
       } catch (validationError) {
         console.error('Erro de validação:', validationError);
@@ -1727,16 +1777,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/projects/:projectId/members/:userId", authenticateJWT, requirePermission('manage_projects'), async (req, res) => {
+  app.delete("/api/projects/:projectId/members/:userId", authenticateJWT, requirePermission('manage_projects'), requireProjectAccess('producer', projectFromParam('projectId')), async (req, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const userId = parseInt(req.params.userId);
+      const member = await storage.getProjectMember(projectId, userId);
       const success = await storage.removeProjectMember(projectId, userId);
       
       if (!success) {
         return res.status(404).json({ message: "Project member not found" });
       }
       
+      await ActivityLogService.record(req, 'project_member', 'deleted', { before: member });
+      RealtimeService.entityChanged('project', projectId, 'updated', req.user!.id);
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ message: "Failed to remove project member" });
@@ -1744,7 +1797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Project Stages - Adicionando autenticação e permissões
-  app.get("/api/projects/:id/stages", authenticateJWT, async (req, res) => {
+  app.get("/api/projects/:id/stages", authenticateJWT, requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const stages = await storage.getProjectStages(projectId);
@@ -1754,47 +1807,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects/:id/stages", authenticateJWT, requirePermission('manage_projects'), validateBody(insertProjectStageSchema), async (req, res) => {
+  app.post("/api/projects/:id/stages", authenticateJWT, requirePermission('manage_projects'), requireProjectAccess('producer', projectFromParam()), validateBody(insertProjectStageSchema), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const stage = await storage.createProjectStage({
         ...req.body,
         project_id: projectId
       });
+      await ActivityLogService.record(req, 'project_stage', 'created', { after: stage });
+      RealtimeService.entityChanged('project', projectId, 'updated', req.user!.id);
       res.status(201).json(stage);
     } catch (error) {
       res.status(500).json({ message: "Failed to create project stage" });
     }
   });
 
-  app.patch("/api/projects/:projectId/stages/:stageId", authenticateJWT, requirePermission('manage_projects'), async (req, res) => {
+  app.patch("/api/projects/:projectId/stages/:stageId", authenticateJWT, requirePermission('manage_projects'), requireProjectAccess('producer', projectFromParam('projectId')), async (req, res) => {
     try {
       const stageId = parseInt(req.params.stageId);
+      const stage = (await storage.getProjectStages(parseInt(req.params.projectId))).find(item => item.id === stageId);
       const updatedStage = await storage.updateProjectStage(stageId, req.body);
       
       if (!updatedStage) {
         return res.status(404).json({ message: "Project stage not found" });
       }
       
+      await ActivityLogService.record(req, 'project_stage', 'updated', { before: stage, after: updatedStage });
+      RealtimeService.entityChanged('project', parseInt(req.params.projectId), 'updated', req.user!.id);
       res.json(updatedStage);
     } catch (error) {
       res.status(500).json({ message: "Failed to update project stage" });
     }
   });
 
+  // Lista separada por vírgulas nos parâmetros de consulta, ex.: status=pendente,bloqueada
+  const csvParam = <T extends z.ZodTypeAny>(item: T) => z.string().optional()
+    .transform(value => value?.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(item).optional());
+  const booleanParam = z.enum(['true', 'false']).optional()
+    .transform(value => value === undefined ? undefined : value === 'true');
+
+  // Filtros, ordenação e paginação da lista de tarefas (ver taskListFiltersSchema)
+  const taskListQuerySchema = z.object({
+    search: z.string().trim().max(200).optional(),
+    assignedTo: csvParam(z.union([z.enum(['me', 'none']), z.coerce.number().int().positive()])),
+    projectId: csvParam(z.coerce.number().int().positive()),
+    clientId: csvParam(z.coerce.number().int().positive()),
+    priority: csvParam(z.string().max(30)),
+    status: csvParam(z.string().max(30)),
+    tags: csvParam(z.string().max(TASK_TAG_MAX_LENGTH)),
+    duePeriod: z.enum(TASK_DUE_PERIODS).optional(),
+    dueFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    dueTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    overdue: booleanParam,
+    completed: booleanParam,
+    sortBy: z.enum(TASK_SORT_FIELDS).default('smart'),
+    sortDir: z.enum(TASK_SORT_DIRECTIONS).default('desc'),
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+    offset: z.coerce.number().int().min(0).default(0)
+  });
+
   // Tasks - Adicionando autenticação e permissões
-  app.get("/api/tasks", authenticateJWT, async (_req, res) => {
+  // Sem parâmetros retorna todas as tarefas visíveis; com filtros, a filtragem e a ordenação
+  // são feitas no banco, e com limit a resposta é paginada: { tasks, total }
+  app.get("/api/tasks", authenticateJWT, async (req, res) => {
     try {
-      // Obter tarefas com detalhes de projeto e cliente
-      const tasks = await storage.getTasksWithDetails();
-      res.json(tasks);
+      if (Object.keys(req.query).length === 0) {
+        // Obter tarefas com detalhes de projeto e cliente (restritas aos projetos do usuário, se aplicável)
+        const tasks = await storage.getTasksWithDetails(await getProjectScope(req.user!));
+        return res.json(tasks);
+      }
+
+      const parsed = taskListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+
+      // Com parâmetros a resposta é sempre { tasks, total }; sem limit, traz todas as tarefas filtradas
+      const { sortBy, sortDir, limit, offset, ...filters } = parsed.data;
+      res.json(await TaskListService.list(req.user!, filters, { sortBy, sortDir, limit, offset }));
     } catch (error) {
       console.error("Erro ao buscar tarefas:", error);
       res.status(500).json({ message: "Failed to fetch tasks" });
     }
   });
 
-  app.get("/api/tasks/:id", authenticateJWT, async (req, res) => {
+  app.get("/api/tasks/:id", authenticateJWT, requireProjectAccess('observer', projectFromTaskUnlessAssigned()), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const task = await storage.getTask(id);
@@ -1809,7 +1907,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id/tasks", authenticateJWT, async (req, res) => {
+  app.get("/api/projects/:id/tasks", authenticateJWT, requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const tasks = await storage.getTasksByProject(projectId);
@@ -1835,7 +1933,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks", authenticateJWT, requirePermission('manage_tasks'), async (req, res) => {
+  app.post("/api/tasks", authenticateJWT, requirePermission('manage_tasks'), requireProjectAccess('editor', async (req) => req.body.project_id ? parseInt(req.body.project_id) : null), async (req, res) => {
     try {
       // Preparação dos dados para inserção - versão otimizada
       const taskData: any = {
@@ -1846,6 +1944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: req.body.status || "pending",
         priority: req.body.priority || "medium",
         estimated_hours: req.body.estimated_hours ? parseFloat(req.body.estimated_hours) : null,
+        tags: normalizeTaskTags(req.body.tags),
         completed: req.body.completed === true || req.body.completed === "true" ? true : false,
         start_date: null,
         due_date: null
@@ -1902,38 +2001,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Criar a tarefa no banco de dados
       const task = await storage.createTask(taskData);
       
-      // Emitir evento WebSocket para notificar clientes da nova tarefa
-      if (wss && wss.clients) {
-        wss.clients.forEach((client) => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({
-              type: 'task_created',
-              task: task
-            }));
-          }
-        });
-      }
+      // Notificar o responsável pela tarefa
+      NotificationService.taskAssigned(task, req.user!.id)
+        .catch(error => console.error("Erro ao notificar atribuição de tarefa:", error));
+      
+      // Notificar em tempo real o projeto e o responsável pela nova tarefa
+      RealtimeService.toTaskAudience(task, 'task_updated', {
+        action: 'created',
+        task,
+        timestamp: new Date().toISOString()
+      });
       
-      // Também notificar via Socket.IO (se disponível)
-      if (io) {
-        // Enviar para todos os clientes
-        io.emit('task_updated', { 
-          action: 'created', 
+      if (task.project_id) {
+        RealtimeService.toProject(task.project_id, 'project_task_update', {
+          action: 'task_created',
           task,
+          project_id: task.project_id,
           timestamp: new Date().toISOString()
         });
-        
-        // Enviar para a sala do projeto específico
-        if (task.project_id) {
-          io.to(`project:${task.project_id}`).emit('project_task_update', {
-            action: 'task_created',
-            task,
-            project_id: task.project_id,
-            timestamp: new Date().toISOString()
-          });
-        }
       }
       
+      await ActivityLogService.record(req, 'task', 'created', { after: task });
+      RealtimeService.entityChanged('task', task.id, 'created', req.user!.id, { projectId: task.project_id });
+      
       res.status(201).json(task);
     } catch (error: any) {
       console.error("Erro ao criar tarefa:", error);
@@ -1955,7 +2045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/tasks/:id", authenticateJWT, requirePermission('manage_tasks'), async (req, res) => {
+  app.patch("/api/tasks/:id", authenticateJWT, requirePermission('manage_tasks'), requireProjectAccess('editor', projectFromTaskUnlessAssigned()), requireProjectAccess('editor', async (req) => req.body.project_id ? parseInt(req.body.project_id) : null), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -1968,6 +2058,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (cleanedData.due_date === '') cleanedData.due_date = null;
       if (cleanedData.due_time_temp === '') cleanedData.due_time_temp = null;
       if (cleanedData.estimated_hours === '') cleanedData.estimated_hours = null;
+      if (cleanedData.tags !== undefined) cleanedData.tags = normalizeTaskTags(cleanedData.tags);
       
       // Conversão de datas de string para Date
       if (cleanedData.start_date && typeof cleanedData.start_date === 'string') {
@@ -2040,12 +2131,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Atualizando tarefa:", id, dataToUpdate);
       
+      const previousTask = await storage.getTask(id);
       const updatedTask = await storage.updateTask(id, dataToUpdate);
       
       if (!updatedTask) {
         return res.status(404).json({ message: "Task not found" });
       }
       
+      // Notificar o novo responsável quando a atribuição mudar
+      if (updatedTask.assigned_to && updatedTask.assigned_to !== previousTask?.assigned_to) {
+        NotificationService.taskAssigned(updatedTask, req.user!.id)
+          .catch(error => console.error("Erro ao notificar atribuição de tarefa:", error));
+      }
+      
+      await ActivityLogService.record(req, 'task', 'updated', { before: previousTask, after: updatedTask });
+      RealtimeService.entityChanged('task', id, 'updated', req.user!.id, { projectId: updatedTask.project_id });
+      
       res.json(updatedTask);
     } catch (error) {
       console.error("Erro ao atualizar tarefa:", error);
@@ -2053,278 +2154,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/tasks/:id", authenticateJWT, requireRole(['admin', 'manager']), async (req, res) => {
+  app.delete("/api/tasks/:id", authenticateJWT, requirePermission('delete_tasks'), requireProjectAccess('producer', projectFromTask()), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const task = await storage.getTask(id);
       const success = await storage.deleteTask(id);
       
       if (!success) {
         return res.status(404).json({ message: "Task not found" });
       }
       
+      await ActivityLogService.record(req, 'task', 'deleted', { before: task });
+      RealtimeService.entityChanged('task', id, 'deleted', req.user!.id, { projectId: task?.project_id });
+      
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete task" });
     }
   });
 
-  // Task Comments - Adicionando autenticação e permissões
-  app.get("/api/tasks/:id/comments", authenticateJWT, async (req, res) => {
-    try {
-      const taskId = parseInt(req.params.id);
-      const comments = await storage.getTaskComments(taskId);
-      
-      // Obter reações para os comentários
-      const reactions = await storage.getCommentReactionsByTaskId(taskId);
-      
-      // Mapear as reações aos comentários para retornar tudo junto
-      const commentsWithReactions = comments.map(comment => ({
-        ...comment,
-        reactions: reactions.filter(reaction => reaction.comment_id === comment.id)
-      }));
-      
-      res.json(commentsWithReactions);
-    } catch (error) {
-      console.error("Error fetching task comments:", error);
-      res.status(500).json({ message: "Failed to fetch task comments" });
-    }
-  });
-
-  app.get("/api/comments/:id", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getTaskCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      res.json(comment);
-    } catch (error) {
-      console.error("Error fetching comment:", error);
-      res.status(500).json({ message: "Failed to fetch comment" });
-    }
-  });
-
-  app.post("/api/tasks/:id/comments", authenticateJWT, validateBody(insertTaskCommentSchema), async (req, res) => {
-    try {
-      const taskId = parseInt(req.params.id);
-      
-      // Adiciona o ID do usuário autenticado como autor do comentário
-      const comment = await storage.createTaskComment({
-        ...req.body,
-        task_id: taskId,
-        user_id: req.user!.id,
-        creation_date: new Date(),
-        edited: false,
-        deleted: false
-      });
-      
-      // Notificar via WebSocket
-      if (io) {
-        io.to(`task-${taskId}`).emit('new-comment', comment);
-      }
-      
-      // Notificar via WebSocket nativo
-      const commentMsg = JSON.stringify({
-        type: 'new-comment',
-        data: comment
-      });
-      
-      wss.clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(commentMsg);
-        }
-      });
-      
-      res.status(201).json(comment);
-    } catch (error) {
-      console.error("Error creating task comment:", error);
-      res.status(500).json({ message: "Failed to create task comment" });
-    }
-  });
-  
-  // Rota para respostas a comentários
-  app.post("/api/comments/:id/reply", authenticateJWT, async (req, res) => {
-    try {
-      const parentId = parseInt(req.params.id);
-      const parentComment = await storage.getTaskCommentById(parentId);
-      
-      if (!parentComment) {
-        return res.status(404).json({ message: "Parent comment not found" });
-      }
-      
-      if (!req.body.comment) {
-        return res.status(400).json({ 
-          message: "Validation error", 
-          errors: [{ code: "invalid_type", expected: "string", received: "undefined", path: ["comment"], message: "Required" }] 
-        });
-      }
-      
-      // Criar comentário com referência ao pai
-      const reply = await storage.createTaskComment({
-        comment: req.body.comment,
-        task_id: parentComment.task_id,
-        user_id: req.user!.id,
-        parent_id: parentId,
-        creation_date: new Date(),
-        deleted: false
-      });
-      
-      // Notificar via WebSocket
-      if (io) {
-        io.to(`task-${parentComment.task_id}`).emit('new-reply', {
-          reply,
-          parentId
-        });
-      }
-      
-      res.status(201).json(reply);
-    } catch (error) {
-      console.error("Error creating reply:", error);
-      res.status(500).json({ message: "Failed to create reply" });
-    }
-  });
-  
-  // Rota para edição de comentários
-  app.patch("/api/comments/:id", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getTaskCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Verificar se o usuário é o autor do comentário
-      if (comment.user_id !== req.user!.id) {
-        return res.status(403).json({ message: "You can only edit your own comments" });
-      }
-      
-      if (!req.body.comment) {
-        return res.status(400).json({ 
-          message: "Validation error", 
-          errors: [{ code: "invalid_type", expected: "string", received: "undefined", path: ["comment"], message: "Required" }] 
-        });
-      }
-      
-      // Atualizar o comentário
-      const updatedComment = await storage.updateTaskComment(commentId, {
-        comment: req.body.comment,
-        edited: true,
-        edit_date: new Date()
-      });
-      
-      // Notificar via WebSocket
-      if (io) {
-        io.to(`task-${comment.task_id}`).emit('comment-updated', updatedComment);
-      }
-      
-      res.json(updatedComment);
-    } catch (error) {
-      console.error("Error updating comment:", error);
-      res.status(500).json({ message: "Failed to update comment" });
-    }
-  });
-  
-  // Rota para soft delete de comentários
-  app.delete("/api/comments/:id", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getTaskCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Verificar se o usuário é o autor do comentário ou um admin/manager
-      if (comment.user_id !== req.user!.id && !['admin', 'manager'].includes(req.user!.role)) {
-        return res.status(403).json({ message: "You can only delete your own comments" });
-      }
-      
-      // Soft delete do comentário
-      await storage.softDeleteTaskComment(commentId);
-      
-      // Notificar via WebSocket
-      if (io) {
-        io.to(`task-${comment.task_id}`).emit('comment-deleted', { id: commentId });
-      }
-      
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting comment:", error);
-      res.status(500).json({ message: "Failed to delete comment" });
-    }
-  });
-  
-  // Rotas para reações de comentários
-  app.post("/api/comments/:id/reactions", authenticateJWT, validateBody(insertCommentReactionSchema), async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getTaskCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Verificar se já existe uma reação deste usuário para este comentário
-      const existingReaction = await storage.getCommentReactionByUserAndComment(req.user!.id, commentId);
-      
-      if (existingReaction) {
-        return res.status(400).json({ message: "You've already reacted to this comment" });
-      }
-      
-      // Criar nova reação
-      const reaction = await storage.createCommentReaction({
-        comment_id: commentId,
-        user_id: req.user!.id,
-        type: req.body.type || 'like'
-      });
-      // Notificar via WebSocket
-      if (io) {
-        io.to(`task-${comment.task_id}`).emit('new-reaction', {
-          reaction,
-          commentId
-        });
-      }
-      
-      res.status(201).json(reaction);
-    } catch (error) {
-      console.error("Error creating reaction:", error);
-      res.status(500).json({ message: "Failed to create reaction" });
-    }
-  });
-  
-  app.delete("/api/comments/:commentId/reactions/:reactionId", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.commentId);
-      const reactionId = parseInt(req.params.reactionId);
-      
-      const comment = await storage.getTaskCommentById(commentId);
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Remover reação
-      await storage.deleteCommentReaction(reactionId);
-      
-      // Notificar via WebSocket
-      if (io) {
-        io.to(`task-${comment.task_id}`).emit('reaction-removed', {
-          reactionId,
-          commentId
-        });
-      }
-      
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting reaction:", error);
-      res.status(500).json({ message: "Failed to delete reaction" });
-    }
-  });
-  
   // Task Attachments - Rotas para gerenciar anexos de tarefas
-  app.get("/api/tasks/:id/attachments", authenticateJWT, async (req, res) => {
+  app.get("/api/tasks/:id/attachments", authenticateJWT, requireProjectAccess('observer', projectFromTaskUnlessAssigned()), async (req, res) => {
     try {
       const taskId = parseInt(req.params.id);
       const attachments = await storage.getTaskAttachments(taskId);
@@ -2335,7 +2185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/tasks/:id/attachments", authenticateJWT, async (req, res) => {
+  app.post("/api/tasks/:id/attachments", authenticateJWT, requireProjectAccess('editor', projectFromTask()), async (req, res) => {
     try {
       const taskId = parseInt(req.params.id);
       
@@ -2353,6 +2203,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         uploaded_by: req.user!.id
       });
       
+      await ActivityLogService.record(req, 'task_attachment', 'created', { after: attachment });
+      const task = await storage.getTask(taskId);
+      RealtimeService.entityChanged('task', taskId, 'updated', req.user!.id, { projectId: task?.project_id });
       res.status(201).json(attachment);
     } catch (error) {
       console.error("Error creating task attachment:", error);
@@ -2360,7 +2213,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/tasks/attachments/:id", authenticateJWT, async (req, res) => {
+  app.delete("/api/tasks/attachments/:id", authenticateJWT, requireProjectAccess('editor', projectFromTaskAttachment()), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -2370,10 +2223,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Attachment not found" });
       }
       
-      // Verificar se o usuário é o criador do anexo ou tem permissão de administrador/gerente
+      // Verificar se o usuário é o criador do anexo, administrador/gerente ou produtor do projeto
+      const task = await storage.getTask(attachment.task_id);
       if (attachment.uploaded_by !== req.user!.id && 
           req.user!.role !== 'admin' && 
-          req.user!.role !== 'manager') {
+          req.user!.role !== 'manager' &&
+          !(await canModerateProject(req.user!, task?.project_id))) {
         return res.status(403).json({ 
           message: "Permission denied. You can only delete your own attachments." 
         });
@@ -2384,6 +2239,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Attachment not found" });
       }
       
+      await ActivityLogService.record(req, 'task_attachment', 'deleted', { before: attachment });
+      RealtimeService.entityChanged('task', attachment.task_id, 'updated', req.user!.id, { projectId: task?.project_id });
       res.status(204).end();
     } catch (error) {
       console.error("Error deleting task attachment:", error);
@@ -2391,10 +2248,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Mesmo escopo da listagem de documentos: sem "view_all_jobs", apenas documentos de
+  // projetos em que o usuário é membro
+  async function canViewFinancialDocument(user: NonNullable<Request['user']>, document: FinancialDocument): Promise<boolean> {
+    if (!(await getProjectScope(user))) return true;
+    return !!document.project_id && !!(await storage.getProjectMember(document.project_id, user.id));
+  }
+
   // Financial Documents - Adicionando autenticação e permissões
-  app.get("/api/financial-documents", authenticateJWT, async (_req, res) => {
+  app.get("/api/financial-documents", authenticateJWT, requirePermission('view_financials'), async (req, res) => {
     try {
-      const documents = await storage.getFinancialDocuments();
+      const documents = await storage.getFinancialDocuments(await getProjectScope(req.user!));
       res.json(documents);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch financial documents" });
@@ -2404,14 +2268,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/clients/:id/financial-documents", authenticateJWT, requirePermission('view_financials'), async (req, res) => {
     try {
       const clientId = parseInt(req.params.id);
-      const documents = await storage.getFinancialDocumentsByClient(clientId);
+      const documents = await storage.getFinancialDocumentsByClient(clientId, await getProjectScope(req.user!));
       res.json(documents);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch client financial documents" });
     }
   });
 
-  app.get("/api/projects/:id/financial-documents", authenticateJWT, requirePermission('view_financials'), async (req, res) => {
+  app.get("/api/projects/:id/financial-documents", authenticateJWT, requirePermission('view_financials'), requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const documents = await storage.getFinancialDocumentsByProject(projectId);
@@ -2422,7 +2286,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Nova rota específica para o frontend buscar documentos por projeto
-  app.get("/api/financial-documents/project/:id", authenticateJWT, async (req, res) => {
+  app.get("/api/financial-documents/project/:id", authenticateJWT, requirePermission('view_financials'), requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const documents = await storage.getFinancialDocumentsByProject(projectId);
@@ -2455,7 +2319,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (calendarEvent) {
           // Notificar usuários sobre a atualização do calendário
-          io.emit('calendar_updated', {
+          RealtimeService.broadcast('calendar_updated', {
             type: 'calendar_updated',
             timestamp: new Date().toISOString(),
             message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -2464,14 +2328,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notificar sobre criação do documento
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'create', 
-        document,
+        documentId: document.id,
         timestamp: new Date().toISOString(),
         message: 'Um novo documento financeiro foi criado'
       });
       
+      RealtimeService.entityChanged('financial_document', document.id, 'created', req.user!.id, { projectId: document.project_id, clientId: document.client_id });
+      
       res.status(201).json(document);
     } catch (error) {
       console.error("Erro ao criar documento financeiro:", error);
@@ -2498,6 +2364,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Pagamentos parciais seriam apagados junto com o documento (ON DELETE CASCADE)
+      const { FinancialAuditService } = await import('./services/financial-audit');
+      const payments = await FinancialAuditService.getPayments(id);
+      if ((document.amount_paid ?? 0) > 0 || payments.some(payment => !payment.reverted_at)) {
+        return res.status(400).json({
+          message: "Cannot delete a financial document with registered payments",
+          detail: "Reverta os pagamentos registrados antes de excluir o documento"
+        });
+      }
+      
       // Importação para lidar com eventos de calendário
       const { removeFinancialDocumentEvents } = await import('./utils/calendarSync');
       
@@ -2508,7 +2384,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.deleteFinancialDocument(id);
       
       // Notificar usuários sobre atualização financeira
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'delete', 
         documentId: id,
@@ -2516,8 +2392,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: 'Um documento financeiro foi removido'
       });
       
+      RealtimeService.entityChanged('financial_document', id, 'deleted', req.user!.id, { projectId: document.project_id, clientId: document.client_id });
+      
       // Notificar sobre atualização do calendário
-      io.emit('calendar_updated', {
+      RealtimeService.broadcast('calendar_updated', {
         type: 'calendar_updated',
         timestamp: new Date().toISOString(),
         message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -2534,6 +2412,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       
+      // Pagamentos não são aceitos aqui: pago, status e valor recebido ficam fora do schema
+      const parsed = updateFinancialDocumentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation error", errors: parsed.error.errors });
+      }
+      
       // Importar o serviço de auditoria financeira
       const { FinancialAuditService } = await import('./services/financial-audit');
       
@@ -2541,12 +2425,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sessionInfo = {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
-        sessionId: req.sessionID
+        sessionId: req.user?.sessionId?.toString()
       };
       
       const updatedDocument = await FinancialAuditService.updateDocument(
         id,
-        req.body,
+        parsed.data,
         req.user!.id,
         req.body.reason || 'Atualização manual via interface',
         sessionInfo
@@ -2563,7 +2447,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updatedDocument.paid) {
         await removeFinancialDocumentEvents(updatedDocument.id);
         // Notificar usuários sobre a atualização do calendário
-        io.emit('calendar_updated', {
+        RealtimeService.broadcast('calendar_updated', {
           type: 'calendar_updated',
           timestamp: new Date().toISOString(),
           message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -2574,7 +2458,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (calendarEvent) {
           // Notificar usuários sobre a atualização do calendário
-          io.emit('calendar_updated', {
+          RealtimeService.broadcast('calendar_updated', {
             type: 'calendar_updated',
             timestamp: new Date().toISOString(),
             message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -2583,14 +2467,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notificar sobre atualização do documento
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'update', 
-        document: updatedDocument,
+        documentId: updatedDocument.id,
         timestamp: new Date().toISOString(),
         message: 'Um documento financeiro foi atualizado'
       });
       
+      RealtimeService.entityChanged('financial_document', id, 'updated', req.user!.id, { projectId: updatedDocument.project_id, clientId: updatedDocument.client_id });
+      
       res.json(updatedDocument);
     } catch (error) {
       console.error("Erro ao atualizar documento financeiro:", error);
@@ -2598,131 +2484,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Rota para registrar pagamento de um documento financeiro
-  app.post("/api/financial-documents/:id/pay", authenticateJWT, async (req, res) => {
+  // Histórico de pagamentos de um documento financeiro (inclui os revertidos)
+  app.get("/api/financial-documents/:id/payments", authenticateJWT, requirePermission('view_financials'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { notes, payment_date } = req.body;
-      
-      console.log(`[PaymentDebug] Iniciando pagamento para documento #${id}`);
-      console.log(`[PaymentDebug] Dados recebidos:`, { notes, payment_date, user: req.user?.id });
-      
-      // Importar o serviço de auditoria financeira
-      const { FinancialAuditService } = await import('./services/financial-audit');
       
-      // Verificar se o documento existe
       const document = await storage.getFinancialDocument(id);
-      if (!document) {
-        console.log(`[PaymentDebug] Documento #${id} não encontrado`);
+      if (!document || !(await canViewFinancialDocument(req.user!, document))) {
         return res.status(404).json({ message: "Documento financeiro não encontrado" });
       }
       
-      console.log(`[PaymentDebug] Documento encontrado:`, { id: document.id, paid: document.paid, status: document.status });
-      
-      // Se já estiver pago, retornar erro
-      if (document.paid) {
-        console.log(`[PaymentDebug] Documento #${id} já está pago`);
-        return res.status(400).json({ message: "Este documento já foi pago" });
-      }
+      const { FinancialAuditService } = await import('./services/financial-audit');
+      const payments = await FinancialAuditService.getPayments(id);
       
-      // Usar a data selecionada pelo usuário ou a data atual como fallback
-      const paymentDate = payment_date ? new Date(payment_date) : new Date();
-      console.log(`[PaymentDebug] Data de pagamento processada: ${paymentDate.toISOString()}`);
+      res.json({
+        payments,
+        amount: document.amount,
+        amount_paid: document.amount_paid || 0,
+        outstanding: outstandingBalance(document)
+      });
+    } catch (error) {
+      console.error("Erro ao buscar pagamentos do documento:", error);
+      res.status(500).json({ message: "Falha ao buscar pagamentos do documento" });
+    }
+  });
+  
+  // Rota para registrar pagamento (total ou parcial) de um documento financeiro
+  app.post("/api/financial-documents/:id/pay", authenticateJWT, requirePermission('manage_financials'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const parsed = registerPaymentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      const { amount, payment_date, method, reference, notes } = parsed.data;
+      
+      // Importar o serviço de auditoria financeira
+      const { FinancialAuditService } = await import('./services/financial-audit');
+      
+      // Verificar se o documento existe
+      const document = await storage.getFinancialDocument(id);
+      if (!document) {
+        return res.status(404).json({ message: "Documento financeiro não encontrado" });
+      }
+      
+      if (document.status === 'cancelled') {
+        return res.status(400).json({ message: "Não é possível registrar pagamento em um documento cancelado" });
+      }
+      
+      // Se já estiver pago, retornar erro
+      const balance = outstandingBalance(document);
+      if (balance <= 0) {
+        return res.status(400).json({ message: "Este documento já foi pago" });
+      }
+      
+      if (amount !== undefined && Math.round(amount * 100) > Math.round(balance * 100)) {
+        return res.status(400).json({ message: `O valor informado é maior que o saldo em aberto (R$ ${balance.toFixed(2)})` });
+      }
+      
+      // Usar a data selecionada pelo usuário ou a data atual como fallback
+      const paymentDate = payment_date ? new Date(payment_date) : new Date();
       
       // Extrair informações da sessão para auditoria
       const sessionInfo = {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
-        sessionId: req.sessionID || 'no-session'
+        sessionId: req.user?.sessionId?.toString()
       };
       
-      console.log(`[PaymentDebug] Chamando FinancialAuditService.markAsPaid`);
-      
-      const updatedDocument = await FinancialAuditService.markAsPaid(
+      const { document: updatedDocument, payment } = await FinancialAuditService.registerPayment(
         id,
         req.user!.id,
         {
+          amount,
           payment_date: paymentDate,
-          payment_notes: notes || null
+          method,
+          reference,
+          notes: notes || null
         },
         sessionInfo
       );
       
-      console.log(`[PaymentDebug] Documento atualizado com sucesso:`, { id: updatedDocument.id, paid: updatedDocument.paid });
-      
-      // Importação aqui para evitar problemas de importação circular
-      const { removeFinancialDocumentEvents } = await import('./utils/calendarSync');
-      
-      // Remover eventos do calendário para este documento pago
-      await removeFinancialDocumentEvents(id);
-      
-      // Notificar usuários sobre a atualização do calendário
-      io.emit('calendar_updated', {
-        type: 'calendar_updated',
-        timestamp: new Date().toISOString(),
-        message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
-      });
+      // Remover eventos do calendário apenas quando o documento foi quitado
+      if (updatedDocument.paid) {
+        // Importação aqui para evitar problemas de importação circular
+        const { removeFinancialDocumentEvents } = await import('./utils/calendarSync');
+        await removeFinancialDocumentEvents(id);
+        
+        // Notificar usuários sobre a atualização do calendário
+        RealtimeService.broadcast('calendar_updated', {
+          type: 'calendar_updated',
+          timestamp: new Date().toISOString(),
+          message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
+        });
+      }
       
       // Notificar sobre pagamento do documento
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'payment', 
-        document: updatedDocument,
+        documentId: updatedDocument.id,
         timestamp: new Date().toISOString(),
-        message: 'Um documento financeiro foi atualizado para pago'
+        message: updatedDocument.paid
+          ? 'Um documento financeiro foi atualizado para pago'
+          : 'Um pagamento parcial foi registrado em um documento financeiro'
       });
       
-      res.json(updatedDocument);
+      RealtimeService.entityChanged('financial_document', id, 'updated', req.user!.id, { projectId: updatedDocument.project_id, clientId: updatedDocument.client_id });
+      
+      // Notificar o criador do documento e os administradores quando o documento for quitado
+      if (updatedDocument.paid) {
+        NotificationService.paymentReceived(updatedDocument, req.user!.id)
+          .catch(error => console.error("Erro ao notificar pagamento:", error));
+      }
+      
+      res.json({ ...updatedDocument, payment });
     } catch (error) {
       console.error("Erro ao registrar pagamento:", error);
       res.status(500).json({ message: "Falha ao registrar pagamento" });
     }
   });
   
-  // Rota para reverter pagamento de um documento financeiro
-  app.post("/api/financial-documents/:id/revert-payment", authenticateJWT, async (req, res) => {
+  // Rota para reverter um pagamento de um documento financeiro (sem payment_id, o mais recente)
+  app.post("/api/financial-documents/:id/revert-payment", authenticateJWT, requirePermission('manage_financials'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
+      const parsed = revertPaymentSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+      }
+      
       // Verificar se o documento existe
       const document = await storage.getFinancialDocument(id);
       if (!document) {
         return res.status(404).json({ message: "Documento financeiro não encontrado" });
       }
       
-      // Se não estiver pago, retornar erro
-      if (!document.paid) {
-        return res.status(400).json({ message: "Este documento não está pago para ser revertido" });
+      const { FinancialAuditService } = await import('./services/financial-audit');
+      
+      // Localizar o pagamento a reverter entre os pagamentos ainda válidos
+      const activePayments = (await FinancialAuditService.getPayments(id)).filter(payment => !payment.reverted_at);
+      const payment = parsed.data.payment_id
+        ? activePayments.find(item => item.id === parsed.data.payment_id)
+        : activePayments[0];
+      
+      if (!payment) {
+        return res.status(400).json({
+          message: parsed.data.payment_id
+            ? "Pagamento não encontrado ou já revertido"
+            : "Este documento não possui pagamentos para reverter"
+        });
       }
       
+      const sessionInfo = {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        sessionId: req.user?.sessionId?.toString()
+      };
+      
       // Reverter o pagamento
-      const updatedDocument = await storage.updateFinancialDocument(id, {
-        status: 'pending',
-        payment_date: null
-      });
+      const { document: updatedDocument } = await FinancialAuditService.revertPayment(
+        id,
+        payment.id,
+        req.user!.id,
+        parsed.data.reason || 'Reversão manual via interface',
+        sessionInfo
+      );
       
       // Importação aqui para evitar problemas de importação circular
       const { syncFinancialDocumentToCalendar } = await import('./utils/calendarSync');
       
-      // Recriar eventos de calendário para este documento já que voltou a ser não pago
+      // Recriar eventos de calendário para este documento já que voltou a ter saldo em aberto
       await syncFinancialDocumentToCalendar(updatedDocument, req.user?.id || 1);
       
       // Notificar usuários sobre a atualização do calendário
-      io.emit('calendar_updated', {
+      RealtimeService.broadcast('calendar_updated', {
         type: 'calendar_updated',
         timestamp: new Date().toISOString(),
         message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
       });
       
       // Notificar sobre reversão do pagamento
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'payment_reversal', 
-        document: updatedDocument,
+        documentId: updatedDocument.id,
         timestamp: new Date().toISOString(),
         message: 'O pagamento de um documento financeiro foi revertido'
       });
       
+      RealtimeService.entityChanged('financial_document', id, 'updated', req.user!.id, { projectId: updatedDocument.project_id, clientId: updatedDocument.client_id });
+      
       res.json(updatedDocument);
     } catch (error) {
       console.error("Erro ao reverter pagamento:", error);
@@ -2765,14 +2719,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notificar usuários sobre a atualização do calendário
-      io.emit('calendar_updated', {
+      RealtimeService.broadcast('calendar_updated', {
         type: 'calendar_updated',
         timestamp: new Date().toISOString(),
         message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
       });
       
       // Notificar sobre exclusão do documento
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'delete', 
         documentId: id,
@@ -2780,6 +2734,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: 'Um documento financeiro foi excluído'
       });
       
+      RealtimeService.entityChanged('financial_document', id, 'deleted', req.user!.id, { projectId: document.project_id, clientId: document.client_id });
+      
       // Retornar 204 No Content para exclusão bem-sucedida
       res.status(204).end();
     } catch (error) {
@@ -2843,7 +2799,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sessionInfo = {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
-        sessionId: req.sessionID
+        sessionId: req.user?.sessionId?.toString()
       };
       
       const approvedDocument = await FinancialAuditService.approveDocument(
@@ -2854,14 +2810,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Notificar sobre aprovação
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_approved',
         action: 'approve', 
-        document: approvedDocument,
+        documentId: approvedDocument.id,
         timestamp: new Date().toISOString(),
         message: 'Um documento financeiro foi aprovado por um administrador'
       });
       
+      RealtimeService.entityChanged('financial_document', id, 'updated', req.user!.id, { projectId: approvedDocument.project_id, clientId: approvedDocument.client_id });
+      
       res.json({ 
         message: "Documento aprovado com sucesso", 
         document: approvedDocument 
@@ -2889,7 +2847,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sessionInfo = {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
-        sessionId: req.sessionID
+        sessionId: req.user?.sessionId?.toString()
       };
       
       const archivedDocument = await FinancialAuditService.archiveDocument(
@@ -2900,14 +2858,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Notificar sobre arquivamento
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_archived',
         action: 'archive', 
-        document: archivedDocument,
+        documentId: archivedDocument.id,
         timestamp: new Date().toISOString(),
         message: 'Um documento financeiro foi arquivado'
       });
       
+      RealtimeService.entityChanged('financial_document', id, 'updated', req.user!.id, { projectId: archivedDocument.project_id, clientId: archivedDocument.client_id });
+      
       res.json({ 
         message: "Documento arquivado com sucesso", 
         document: archivedDocument 
@@ -2919,16 +2879,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Expenses - Adicionando autenticação e permissões
-  app.get("/api/expenses", authenticateJWT, async (_req, res) => {
+  app.get("/api/expenses", authenticateJWT, requirePermission('view_financials'), async (req, res) => {
     try {
-      const expenses = await storage.getExpenses();
+      const expenses = await storage.getExpenses(await getProjectScope(req.user!));
       res.json(expenses);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch expenses" });
     }
   });
 
-  app.get("/api/projects/:id/expenses", authenticateJWT, requirePermission('view_financials'), async (req, res) => {
+  app.get("/api/projects/:id/expenses", authenticateJWT, requirePermission('view_financials'), requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const expenses = await storage.getExpensesByProject(projectId);
@@ -2957,7 +2917,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (calendarEvent) {
           // Notificar usuários sobre a atualização do calendário
-          io.emit('calendar_updated', {
+          RealtimeService.broadcast('calendar_updated', {
             type: 'calendar_updated',
             timestamp: new Date().toISOString(),
             message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -2966,14 +2926,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notificar sobre a criação da despesa
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'create_expense', 
-        expense: expense,
+        expenseId: expense.id,
         timestamp: new Date().toISOString(),
         message: 'Uma nova despesa foi registrada'
       });
       
+      await ActivityLogService.record(req, 'expense', 'created', { after: expense });
+      RealtimeService.entityChanged('expense', expense.id, 'created', req.user!.id, { projectId: expense.project_id });
+      
       res.status(201).json(expense);
     } catch (error) {
       console.error("Erro ao criar despesa:", error);
@@ -3035,7 +2998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updatedExpense.paid && !oldExpense.paid) {
         await removeExpenseEvents(id);
         // Notificar usuários sobre a atualização do calendário
-        io.emit('calendar_updated', {
+        RealtimeService.broadcast('calendar_updated', {
           type: 'calendar_updated',
           timestamp: new Date().toISOString(),
           message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -3047,7 +3010,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (calendarEvent) {
           // Notificar usuários sobre a atualização do calendário
-          io.emit('calendar_updated', {
+          RealtimeService.broadcast('calendar_updated', {
             type: 'calendar_updated',
             timestamp: new Date().toISOString(),
             message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
@@ -3056,16 +3019,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notificar sobre a atualização da despesa
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'update_expense', 
-        expense: updatedExpense,
+        expenseId: id,
         timestamp: new Date().toISOString(),
         message: updatedExpense.paid && !oldExpense.paid 
           ? 'Uma despesa foi marcada como paga' 
           : 'Uma despesa foi atualizada'
       });
       
+      await ActivityLogService.record(req, 'expense', 'updated', { before: oldExpense, after: updatedExpense });
+      RealtimeService.entityChanged('expense', id, 'updated', req.user!.id, { projectId: updatedExpense.project_id });
+      
       res.json(updatedExpense);
     } catch (error) {
       console.error("Erro ao atualizar despesa:", error);
@@ -3085,6 +3051,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await removeExpenseEvents(id);
       
       // Procede com a exclusão da despesa
+      const expense = await storage.getExpense(id);
       const deleted = await storage.deleteExpense(id);
       
       if (!deleted) {
@@ -3092,14 +3059,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Notificar usuários sobre a atualização do calendário
-      io.emit('calendar_updated', {
+      RealtimeService.broadcast('calendar_updated', {
         type: 'calendar_updated',
         timestamp: new Date().toISOString(),
         message: 'O calendário foi atualizado. Atualize a visualização para ver as mudanças.'
       });
       
       // Notificar sobre a exclusão da despesa
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         type: 'financial_updated',
         action: 'delete_expense', 
         expenseId: id,
@@ -3107,6 +3074,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: 'Uma despesa foi excluída'
       });
       
+      await ActivityLogService.record(req, 'expense', 'deleted', { before: expense });
+      RealtimeService.entityChanged('expense', id, 'deleted', req.user!.id);
+      
       res.status(204).end();
     } catch (error) {
       console.error("Erro ao excluir despesa:", error);
@@ -3133,13 +3103,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Notificar sobre a aprovação da despesa
-      io.emit('financial_updated', { 
+      RealtimeService.broadcast('financial_updated', { 
         action: 'approve_expense', 
-        expense: updatedExpense,
+        expenseId: id,
         timestamp: new Date().toISOString(),
         message: 'Uma despesa foi aprovada'
       });
       
+      await ActivityLogService.record(req, 'expense', 'updated', { before: expense, after: updatedExpense });
+      RealtimeService.entityChanged('expense', id, 'updated', req.user!.id, { projectId: updatedExpense?.project_id });
+      
       res.json(updatedExpense);
     } catch (error) {
       console.error("Erro ao aprovar despesa:", error);
@@ -3148,15 +3121,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Events - Adicionando autenticação e permissões
-  app.get("/api/events", authenticateJWT, async (_req, res) => {
+  app.get("/api/events", authenticateJWT, async (req, res) => {
     try {
-      const events = await storage.getEvents();
+      const events = await storage.getEvents(await getProjectScope(req.user!));
       res.json(events);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch events" });
     }
   });
 
+  app.get("/api/events/:id", authenticateJWT, async (req, res) => {
+    try {
+      const event = await storage.getEvent(parseInt(req.params.id), await getProjectScope(req.user!));
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event" });
+    }
+  });
+
   app.get("/api/users/:id/events", authenticateJWT, async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
@@ -3173,7 +3158,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id/events", authenticateJWT, async (req, res) => {
+  app.get("/api/projects/:id/events", authenticateJWT, requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const events = await storage.getEventsByProject(projectId);
@@ -3186,7 +3171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/clients/:id/events", authenticateJWT, async (req, res) => {
     try {
       const clientId = parseInt(req.params.id);
-      const events = await storage.getEventsByClient(clientId);
+      const events = await storage.getEventsByClient(clientId, await getProjectScope(req.user!));
       res.json(events);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch client events" });
@@ -3200,6 +3185,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         user_id: req.user!.id
       });
+      await ActivityLogService.record(req, 'event', 'created', { after: event });
+      RealtimeService.entityChanged('event', event.id, 'created', req.user!.id, { projectId: event.project_id, clientId: event.client_id });
       res.status(201).json(event);
     } catch (error) {
       res.status(500).json({ message: "Failed to create event" });
@@ -3221,6 +3208,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedEvent = await storage.updateEvent(id, req.body);
+      await ActivityLogService.record(req, 'event', 'updated', { before: event, after: updatedEvent });
+      RealtimeService.entityChanged('event', id, 'updated', req.user!.id, { projectId: event.project_id, clientId: event.client_id });
       res.json(updatedEvent);
     } catch (error) {
       res.status(500).json({ message: "Failed to update event" });
@@ -3242,6 +3231,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const success = await storage.deleteEvent(id);
+      await ActivityLogService.record(req, 'event', 'deleted', { before: event });
+      RealtimeService.entityChanged('event', id, 'deleted', req.user!.id, { projectId: event.project_id, clientId: event.client_id });
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete event" });
@@ -3249,27 +3240,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // User Preferences - Rotas para gerenciar preferências do usuário
+  // Valida o campo opcional notification_preferences (tipo de evento → canal → ativo)
+  function validateNotificationPreferences(req: Request, res: Response, next: Function) {
+    if (req.body.notification_preferences === undefined) {
+      return next();
+    }
+    
+    const parsed = notificationPreferencesSchema.safeParse(req.body.notification_preferences);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", errors: parsed.error.errors });
+    }
+    
+    req.body.notification_preferences = parsed.data;
+    next();
+  }
+  
+  // Resposta com as preferências de notificação completas (padrões + escolhas do usuário)
+  function withResolvedNotificationPreferences(preferences: UserPreference | undefined) {
+    if (!preferences) return preferences;
+    return {
+      ...preferences,
+      notification_preferences: resolveNotificationPreferences(preferences.notification_preferences)
+    };
+  }
+  
+  // Atualizações parciais preservam as escolhas já salvas para os demais eventos/canais
+  function mergeStoredNotificationPreferences(existing: UserPreference | undefined, changes: NotificationPreferencesInput): NotificationPreferencesInput {
+    const stored = existing?.notification_preferences ?? {};
+    const merged: NotificationPreferencesInput = { ...stored };
+    for (const [eventType, channels] of Object.entries(changes) as [NotificationEventType, Partial<Record<NotificationChannel, boolean>>][]) {
+      merged[eventType] = { ...(stored[eventType] ?? {}), ...channels };
+    }
+    return merged;
+  }
+  
   app.get("/api/user-preferences", authenticateJWT, async (req, res) => {
     try {
       const userId = req.user!.id;
       const preferences = await storage.getUserPreferences(userId);
-      res.json(preferences || { theme: 'light', accent_color: 'blue', clients_view_mode: 'grid' });
+      
+      if (!preferences) {
+        return res.json({
+          theme: 'light',
+          accent_color: 'blue',
+          clients_view_mode: 'grid',
+          notification_preferences: resolveNotificationPreferences(null)
+        });
+      }
+      
+      res.json(withResolvedNotificationPreferences(preferences));
     } catch (error) {
       console.error("Error fetching user preferences:", error);
       res.status(500).json({ message: "Failed to fetch user preferences" });
     }
   });
 
-  app.post("/api/user-preferences", authenticateJWT, validateBody(insertUserPreferenceSchema), async (req, res) => {
+  app.post("/api/user-preferences", authenticateJWT, validateBody(insertUserPreferenceSchema), validateNotificationPreferences, async (req, res) => {
     try {
       const userId = req.user!.id;
       // Verifica se já existem preferências para este usuário
       const existingPrefs = await storage.getUserPreferences(userId);
       
+      if (req.body.notification_preferences) {
+        req.body.notification_preferences = mergeStoredNotificationPreferences(existingPrefs, req.body.notification_preferences);
+      }
+      
       if (existingPrefs) {
         // Atualiza as preferências existentes
         const updatedPrefs = await storage.updateUserPreferences(userId, req.body);
-        return res.json(updatedPrefs);
+        return res.json(withResolvedNotificationPreferences(updatedPrefs));
       } else {
         // Cria novas preferências
         const prefData = {
@@ -3277,7 +3316,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           user_id: userId
         };
         const newPrefs = await storage.createUserPreferences(prefData);
-        return res.status(201).json(newPrefs);
+        return res.status(201).json(withResolvedNotificationPreferences(newPrefs));
       }
     } catch (error) {
       console.error("Error saving user preferences:", error);
@@ -3285,12 +3324,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/user-preferences", authenticateJWT, async (req, res) => {
+  app.patch("/api/user-preferences", authenticateJWT, validateNotificationPreferences, async (req, res) => {
     try {
       const userId = req.user!.id;
       // Verifica se existem preferências para este usuário
       const existingPrefs = await storage.getUserPreferences(userId);
       
+      if (req.body.notification_preferences) {
+        req.body.notification_preferences = mergeStoredNotificationPreferences(existingPrefs, req.body.notification_preferences);
+      }
+      
       if (!existingPrefs) {
         // Se não existir, cria um novo
         const prefData = {
@@ -3304,12 +3347,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           quick_actions: req.body.quick_actions || ['new-task', 'new-project', 'new-client']
         };
         const newPrefs = await storage.createUserPreferences(prefData);
-        return res.status(201).json(newPrefs);
+        return res.status(201).json(withResolvedNotificationPreferences(newPrefs));
       }
       
       // Atualiza apenas os campos fornecidos
       const updatedPrefs = await storage.updateUserPreferences(userId, req.body);
-      return res.json(updatedPrefs);
+      return res.json(withResolvedNotificationPreferences(updatedPrefs));
     } catch (error) {
       console.error("Error updating user preferences:", error);
       res.status(500).json({ message: "Failed to update user preferences" });
@@ -3346,97 +3389,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ===== Rotas para Eventos de Calendário =====
   
-  // Obter todos os eventos
-  app.get("/api/events", authenticateJWT, async (_req, res) => {
-    try {
-      const events = await storage.getEvents();
-      res.json(events);
-    } catch (error) {
-      console.error("Erro ao buscar eventos:", error);
-      res.status(500).json({ message: "Falha ao buscar eventos" });
-    }
-  });
-  
-  // Obter um evento específico
-  app.get("/api/events/:id", authenticateJWT, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const event = await storage.getEvent(id);
-      
-      if (!event) {
-        return res.status(404).json({ message: "Evento não encontrado" });
-      }
-      
-      res.json(event);
-    } catch (error) {
-      console.error("Erro ao buscar evento:", error);
-      res.status(500).json({ message: "Falha ao buscar evento" });
-    }
-  });
-  
-  // Criar um novo evento
-  app.post("/api/events", authenticateJWT, validateBody(insertEventSchema), async (req, res) => {
-    try {
-      const userId = req.user.id;
-      const event = await storage.createEvent({
-        ...req.body,
-        user_id: userId
-      });
-      res.status(201).json(event);
-    } catch (error) {
-      console.error("Erro ao criar evento:", error);
-      res.status(500).json({ message: "Falha ao criar evento" });
-    }
-  });
-  
-  // Atualizar um evento
-  app.patch("/api/events/:id", authenticateJWT, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      
-      // Verificar se o evento existe
-      const event = await storage.getEvent(id);
-      if (!event) {
-        return res.status(404).json({ message: "Evento não encontrado" });
-      }
-      
-      // Verificar se o usuário tem permissão
-      if (event.user_id !== req.user.id && req.user.role !== 'admin' && req.user.role !== 'manager') {
-        return res.status(403).json({ message: "Sem permissão para editar este evento" });
-      }
-      
-      const updatedEvent = await storage.updateEvent(id, req.body);
-      res.json(updatedEvent);
-    } catch (error) {
-      console.error("Erro ao atualizar evento:", error);
-      res.status(500).json({ message: "Falha ao atualizar evento" });
-    }
-  });
-  
-  // Excluir um evento
-  app.delete("/api/events/:id", authenticateJWT, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      
-      // Verificar se o evento existe
-      const event = await storage.getEvent(id);
-      if (!event) {
-        return res.status(404).json({ message: "Evento não encontrado" });
-      }
-      
-      // Verificar se o usuário tem permissão
-      if (event.user_id !== req.user.id && req.user.role !== 'admin' && req.user.role !== 'manager') {
-        return res.status(403).json({ message: "Sem permissão para excluir este evento" });
-      }
-      
-      await storage.deleteEvent(id);
-      res.status(204).end();
-    } catch (error) {
-      console.error("Erro ao excluir evento:", error);
-      res.status(500).json({ message: "Falha ao excluir evento" });
-    }
-  });
-  
   // Rota para sincronização manual do calendário
   app.post("/api/calendar/sync", authenticateJWT, requireRole(['admin', 'manager']), async (req, res) => {
     try {
@@ -3468,6 +3420,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Total de eventos limpos
       const totalCleaned = cleanupDocsResult + cleanupExpensesResult + cleanupOrphanResult;
       
+      RealtimeService.broadcast('calendar_updated', {
+        type: 'calendar_updated',
+        timestamp: new Date().toISOString(),
+        message: 'O calendário foi sincronizado. Atualize a visualização para ver as mudanças.'
+      });
+      
       console.log(`[API] Sincronização manual do calendário concluída: ${financialResult.count} eventos financeiros sincronizados, ${cleanupDocsResult} eventos de documentos pagos removidos, ${cleanupExpensesResult} eventos de despesas pagas removidos, ${cleanupOrphanResult} eventos órfãos de despesas removidos`);
       
       res.json({
@@ -3490,281 +3448,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // ===== Rotas para Comentários de Projetos =====
-  
-  // Obter todos os comentários de um projeto
-  app.get("/api/projects/:id/comments", authenticateJWT, async (req, res) => {
-    try {
-      const projectId = parseInt(req.params.id);
-      const comments = await storage.getProjectComments(projectId);
-      
-      // Obter reações para os comentários
-      const reactions = await storage.getProjectCommentReactionsByProjectId(projectId);
-      
-      // Mapear as reações aos comentários para retornar tudo junto
-      const commentsWithReactions = comments.map(comment => ({
-        ...comment,
-        reactions: reactions.filter(reaction => reaction.comment_id === comment.id)
-      }));
-      
-      res.json(commentsWithReactions);
-    } catch (error) {
-      console.error("Error fetching project comments:", error);
-      res.status(500).json({ message: "Failed to fetch project comments" });
-    }
-  });
-
-  // Obter um comentário específico de projeto por ID
-  app.get("/api/project-comments/:id", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getProjectCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      res.json(comment);
-    } catch (error) {
-      console.error("Error fetching project comment:", error);
-      res.status(500).json({ message: "Failed to fetch project comment" });
-    }
-  });
-
-  // Criar um novo comentário em um projeto
-  app.post("/api/projects/:id/comments", authenticateJWT, validateBody(insertProjectCommentSchema), async (req, res) => {
-    try {
-      const projectId = parseInt(req.params.id);
-      
-      // Adiciona o ID do usuário autenticado como autor do comentário
-      const comment = await storage.createProjectComment({
-        ...req.body,
-        project_id: projectId,
-        user_id: req.user!.id,
-        creation_date: new Date(),
-        edited: false,
-        deleted: false
-      });
-      
-      // Enviar notificação por WebSocket
-      if (comment) {
-        const user = await storage.getUser(req.user!.id);
-        
-        const commentWithUser = {
-          ...comment,
-          user: {
-            id: user?.id,
-            name: user?.name,
-            username: user?.username,
-            avatar: user?.avatar
-          }
-        };
-        
-        const projectRoom = `project:${projectId}`;
-        io.to(projectRoom).emit('new-project-comment', commentWithUser);
-      }
-      
-      res.status(201).json(comment);
-    } catch (error) {
-      console.error("Error creating project comment:", error);
-      res.status(500).json({ message: "Failed to create project comment" });
-    }
-  });
-
-  // Responder a um comentário de projeto
-  app.post("/api/project-comments/:id/reply", authenticateJWT, async (req, res) => {
-    try {
-      const parentId = parseInt(req.params.id);
-      const parentComment = await storage.getProjectCommentById(parentId);
-      
-      if (!parentComment) {
-        return res.status(404).json({ message: "Parent comment not found" });
-      }
-      
-      if (!req.body.comment) {
-        return res.status(400).json({ message: "Comment text is required" });
-      }
-      
-      // Criar resposta como um novo comentário com referência ao pai
-      const comment = await storage.createProjectComment({
-        project_id: parentComment.project_id,
-        user_id: req.user!.id,
-        comment: req.body.comment,
-        parent_id: parentId
-      });
-      
-      // Enviar notificação por WebSocket
-      if (comment) {
-        const user = await storage.getUser(req.user!.id);
-        
-        const commentWithUser = {
-          ...comment,
-          user: {
-            id: user?.id,
-            name: user?.name,
-            username: user?.username,
-            avatar: user?.avatar
-          }
-        };
-        
-        const projectRoom = `project:${parentComment.project_id}`;
-        io.to(projectRoom).emit('new-project-comment', commentWithUser);
-      }
-      
-      res.status(201).json(comment);
-    } catch (error) {
-      console.error("Error replying to project comment:", error);
-      res.status(500).json({ message: "Failed to reply to comment" });
-    }
-  });
-
-  // Editar um comentário de projeto
-  app.patch("/api/project-comments/:id", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getProjectCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Verificar se o usuário é o autor do comentário ou tem perfil de admin
-      if (comment.user_id !== req.user!.id && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "You can only edit your own comments" });
-      }
-      
-      if (!req.body.comment) {
-        return res.status(400).json({ message: "Comment text is required" });
-      }
-      
-      const updatedComment = await storage.updateProjectComment(commentId, {
-        comment: req.body.comment
-      });
-      
-      // Enviar notificação por WebSocket
-      if (updatedComment) {
-        const projectRoom = `project:${comment.project_id}`;
-        io.to(projectRoom).emit('updated-project-comment', updatedComment);
-      }
-      
-      res.json(updatedComment);
-    } catch (error) {
-      console.error("Error updating project comment:", error);
-      res.status(500).json({ message: "Failed to update comment" });
-    }
-  });
-
-  // Excluir (soft delete) um comentário de projeto
-  app.delete("/api/project-comments/:id", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getProjectCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Verificar se o usuário é o autor do comentário ou tem perfil de admin
-      if (comment.user_id !== req.user!.id && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "You can only delete your own comments" });
-      }
-      
-      // Soft delete do comentário
-      const success = await storage.softDeleteProjectComment(commentId);
-      
-      if (success) {
-        // Enviar notificação por WebSocket
-        const projectRoom = `project:${comment.project_id}`;
-        io.to(projectRoom).emit('deleted-project-comment', { id: commentId });
-        
-        res.status(200).json({ message: "Comment deleted successfully" });
-      } else {
-        res.status(500).json({ message: "Failed to delete comment" });
-      }
-    } catch (error) {
-      console.error("Error deleting project comment:", error);
-      res.status(500).json({ message: "Failed to delete comment" });
-    }
-  });
-
-  // Adicionar uma reação a um comentário de projeto
-  app.post("/api/project-comments/:id/reactions", authenticateJWT, validateBody(insertProjectCommentReactionSchema), async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.id);
-      const comment = await storage.getProjectCommentById(commentId);
-      
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Verificar se o usuário já reagiu a este comentário
-      const existingReaction = await storage.getProjectCommentReactionByUserAndComment(
-        req.user!.id,
-        commentId
-      );
-      
-      if (existingReaction) {
-        return res.status(400).json({ 
-          message: "You have already reacted to this comment",
-          reaction: existingReaction
-        });
-      }
-      
-      // Criar nova reação
-      const reaction = await storage.createProjectCommentReaction({
-        comment_id: commentId,
-        user_id: req.user!.id,
-        reaction_type: req.body.reaction_type
-      });
-      
-      // Enviar notificação por WebSocket
-      const projectRoom = `project:${comment.project_id}`;
-      io.to(projectRoom).emit('new-project-comment-reaction', { 
-        ...reaction,
-        comment_id: commentId
-      });
-      
-      res.status(201).json(reaction);
-    } catch (error) {
-      console.error("Error creating reaction:", error);
-      res.status(500).json({ message: "Failed to create reaction" });
-    }
-  });
-
-  // Remover uma reação de um comentário de projeto
-  app.delete("/api/project-comments/:commentId/reactions/:reactionId", authenticateJWT, async (req, res) => {
-    try {
-      const commentId = parseInt(req.params.commentId);
-      const reactionId = parseInt(req.params.reactionId);
-      
-      const comment = await storage.getProjectCommentById(commentId);
-      if (!comment) {
-        return res.status(404).json({ message: "Comment not found" });
-      }
-      
-      // Excluir a reação
-      const success = await storage.deleteProjectCommentReaction(reactionId);
-      
-      if (success) {
-        // Enviar notificação por WebSocket
-        const projectRoom = `project:${comment.project_id}`;
-        io.to(projectRoom).emit('deleted-project-comment-reaction', { 
-          id: reactionId,
-          comment_id: commentId
-        });
-        
-        res.status(200).json({ message: "Reaction removed successfully" });
-      } else {
-        res.status(500).json({ message: "Failed to remove reaction" });
-      }
-    } catch (error) {
-      console.error("Error removing reaction:", error);
-      res.status(500).json({ message: "Failed to remove reaction" });
-    }
-  });
-
   // Endpoints para gerenciamento de anexos de projetos
-  app.get("/api/projects/:id/attachments", authenticateJWT, async (req, res) => {
+  app.get("/api/projects/:id/attachments", authenticateJWT, requireProjectAccess('observer', projectFromParam()), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const attachments = await storage.getProjectAttachments(projectId);
@@ -3775,7 +3460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/projects/:id/attachments", authenticateJWT, async (req, res) => {
+  app.post("/api/projects/:id/attachments", authenticateJWT, requireProjectAccess('editor', projectFromParam()), async (req, res) => {
     try {
       console.log("Iniciando processamento de anexo de projeto");
       const projectId = parseInt(req.params.id);
@@ -3821,6 +3506,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const attachment = await storage.createProjectAttachment(attachmentData);
         console.log("Anexo criado com sucesso, ID:", attachment.id);
         
+        await ActivityLogService.record(req, 'project_attachment', 'created', { after: attachment });
+        RealtimeService.entityChanged('project', projectId, 'updated', req.user!.id, { clientId: project.client_id });
         res.status(201).json(attachment);
       } catch (dbError) {
         console.error("Erro no banco de dados ao criar anexo:", dbError);
@@ -3841,7 +3528,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/projects/attachments/:id", authenticateJWT, async (req, res) => {
+  app.delete("/api/projects/attachments/:id", authenticateJWT, requireProjectAccess('editor', projectFromProjectAttachment()), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -3852,14 +3539,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Anexo não encontrado" });
       }
       
-      // Apenas o usuário que enviou o anexo ou um admin pode excluí-lo
-      if (attachment.uploaded_by !== req.user!.id && req.user!.role !== 'admin') {
+      // Apenas o usuário que enviou o anexo, um admin ou o produtor do projeto pode excluí-lo
+      if (attachment.uploaded_by !== req.user!.id && req.user!.role !== 'admin' &&
+          !(await canModerateProject(req.user!, attachment.project_id))) {
         return res.status(403).json({ 
           message: "Permissão negada. Você só pode excluir seus próprios anexos." 
         });
       }
       
       await storage.deleteProjectAttachment(id);
+      await ActivityLogService.record(req, 'project_attachment', 'deleted', { before: attachment });
+      RealtimeService.entityChanged('project', attachment.project_id, 'updated', req.user!.id);
       res.status(200).json({ message: "Anexo excluído com sucesso" });
     } catch (error) {
       console.error("Erro ao excluir anexo do projeto:", error);
@@ -3869,377 +3559,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
   
-  // Configurar WebSocket Server (usando 'ws' para WebSockets nativos)
-  const wss = new WebSocketServer({ 
-    server: httpServer, 
-    path: '/ws' 
-  });
-
-  wss.on('connection', (ws) => {
-    console.log('Nova conexão WebSocket estabelecida');
-    
-    ws.on('message', async (message) => {
-      try {
-        // Parse da mensagem recebida (assumindo JSON)
-        const data = JSON.parse(message.toString());
-        console.log('Mensagem recebida:', data);
-        
-        // Processamento de diferentes tipos de mensagem
-        if (data.type === 'chat') {
-          // Broadcast para todos os clientes conectados
-          wss.clients.forEach((client) => {
-            if (client !== ws && client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify({
-                type: 'chat',
-                userId: data.userId,
-                userName: data.userName,
-                message: data.message,
-                timestamp: new Date().toISOString()
-              }));
-            }
-          });
-        } 
-        else if (data.type === 'notification') {
-          // Enviar notificação para usuários específicos
-          // Aqui precisaria de uma lógica para mapear usuários a conexões
-          // Para exemplo, enviamos para todos
-          wss.clients.forEach((client) => {
-            if (client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify({
-                type: 'notification',
-                title: data.title,
-                message: data.message,
-                userId: data.userId,
-                timestamp: new Date().toISOString()
-              }));
-            }
-          });
-        }
-        else if (data.type === 'comment') {
-          // Processar novo comentário
-          try {
-            const commentData = data.data;
-            const newComment = await storage.createTaskComment(commentData);
-            
-            // Broadcast para todos os clientes
-            wss.clients.forEach(client => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: 'comment',
-                  task_id: commentData.task_id,
-                  data: newComment
-                }));
-              }
-            });
-          } catch (error) {
-            console.error("Erro ao criar comentário via WebSocket:", error);
-            ws.send(JSON.stringify({
-              type: 'error',
-              message: 'Erro ao criar comentário'
-            }));
-          }
-        }
-        else if (data.type === 'comment_reaction') {
-          // Processar reação a comentário
-          try {
-            const reactionData = data.data;
-            let reaction;
-            
-            // Verificar se já existe uma reação do usuário
-            const existingReaction = await storage.getCommentReactionByUserAndComment(
-              reactionData.user_id,
-              reactionData.comment_id
-            );
-            
-            if (existingReaction) {
-              // Se já existe, remover (toggle)
-              await storage.deleteCommentReaction(existingReaction.id);
-              reaction = { deleted: true, id: existingReaction.id };
-            } else {
-              // Senão, criar nova reação
-              reaction = await storage.createCommentReaction(reactionData);
-            }
-            
-            // Broadcast para todos os clientes
-            wss.clients.forEach(client => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: 'comment_reaction',
-                  comment_id: reactionData.comment_id,
-                  data: reaction
-                }));
-              }
-            });
-          } catch (error) {
-            console.error("Erro ao processar reação via WebSocket:", error);
-            ws.send(JSON.stringify({
-              type: 'error',
-              message: 'Erro ao processar reação'
-            }));
-          }
-        }
-      } catch (error) {
-        console.error('Erro ao processar mensagem WebSocket:', error);
-      }
-    });
-    
-    ws.on('close', () => {
-      console.log('Conexão WebSocket fechada');
-    });
-    
-    // Enviar mensagem de boas-vindas
-    ws.send(JSON.stringify({ 
-      type: 'system', 
-      message: 'Conectado ao servidor WebSocket com sucesso!' 
-    }));
-  });
-
-  // Configurar Socket.IO (mais rico em recursos que WebSockets puros)
-  const io = new SocketIOServer(httpServer, {
-    path: '/socket.io',
-    cors: {
-      origin: '*',
-      methods: ['GET', 'POST']
-    }
-  });
-
-  // Mapeamento de salas para projetos e tarefas
-  const rooms = {
-    tasks: {},      // tasks[taskId] = [socketId1, socketId2, ...]
-    projects: {},   // projects[projectId] = [socketId1, socketId2, ...]
-    users: {}       // users[userId] = socketId
-  };
-
-  io.on('connection', (socket) => {
-    console.log('Nova conexão Socket.IO estabelecida:', socket.id);
-    
-    // Autenticação do usuário
-    socket.on('authenticate', async (data) => {
-      try {
-        const { userId, token } = data;
-        
-        // Aqui você deveria verificar o token usando a mesma lógica de auth.ts
-        // Para simplicidade, estamos apenas verificando se userId é um número válido
-        if (userId && !isNaN(parseInt(userId))) {
-          const userIdNum = parseInt(userId);
-          const user = await storage.getUser(userIdNum);
-          
-          if (user) {
-            // Registrar o socket para este usuário
-            rooms.users[userIdNum] = socket.id;
-            
-            socket.emit('authenticated', { 
-              success: true, 
-              userId: userIdNum,
-              userName: user.name
-            });
-            
-            console.log(`Usuário ${userIdNum} (${user.name}) autenticado via Socket.IO`);
-          } else {
-            socket.emit('authenticated', { success: false, error: 'Usuário não encontrado' });
-          }
-        } else {
-          socket.emit('authenticated', { success: false, error: 'ID de usuário inválido' });
-        }
-      } catch (error) {
-        console.error('Erro ao autenticar usuário no Socket.IO:', error);
-        socket.emit('authenticated', { success: false, error: 'Erro de autenticação' });
-      }
-    });
-    
-    // Entrar em uma sala de tarefa específica
-    socket.on('join-task', (taskId) => {
-      const taskRoom = `task:${taskId}`;
-      socket.join(taskRoom);
-      
-      // Registrar no nosso mapeamento
-      if (!rooms.tasks[taskId]) {
-        rooms.tasks[taskId] = [];
-      }
-      if (!rooms.tasks[taskId].includes(socket.id)) {
-        rooms.tasks[taskId].push(socket.id);
-      }
-      
-      console.log(`Socket ${socket.id} entrou na sala da tarefa ${taskId}`);
-      socket.to(taskRoom).emit('user-joined-task', { taskId });
-    });
-    
-    // Sair de uma sala de tarefa
-    socket.on('leave-task', (taskId) => {
-      const taskRoom = `task:${taskId}`;
-      socket.leave(taskRoom);
-      
-      // Atualizar nosso mapeamento
-      if (rooms.tasks[taskId]) {
-        rooms.tasks[taskId] = rooms.tasks[taskId].filter(id => id !== socket.id);
-      }
-      
-      console.log(`Socket ${socket.id} saiu da sala da tarefa ${taskId}`);
-      socket.to(taskRoom).emit('user-left-task', { taskId });
-    });
-    
-    // Entrar em uma sala de projeto específica
-    socket.on('join-project', (projectId) => {
-      const projectRoom = `project:${projectId}`;
-      socket.join(projectRoom);
-      
-      // Registrar no nosso mapeamento
-      if (!rooms.projects[projectId]) {
-        rooms.projects[projectId] = [];
-      }
-      if (!rooms.projects[projectId].includes(socket.id)) {
-        rooms.projects[projectId].push(socket.id);
-      }
-      
-      console.log(`Socket ${socket.id} entrou na sala do projeto ${projectId}`);
-      socket.to(projectRoom).emit('user-joined-project', { projectId });
-    });
-    
-    // Sair de uma sala de projeto
-    socket.on('leave-project', (projectId) => {
-      const projectRoom = `project:${projectId}`;
-      socket.leave(projectRoom);
-      
-      // Atualizar nosso mapeamento
-      if (rooms.projects[projectId]) {
-        rooms.projects[projectId] = rooms.projects[projectId].filter(id => id !== socket.id);
-      }
-      
-      console.log(`Socket ${socket.id} saiu da sala do projeto ${projectId}`);
-      socket.to(projectRoom).emit('user-left-project', { projectId });
-    });
-    
-    // Enviar um comentário para uma tarefa
-    socket.on('task-comment', async (data) => {
-      try {
-        const { taskId, userId, comment } = data;
-        
-        if (taskId && userId && comment) {
-          // Validar se o usuário existe
-          const user = await storage.getUser(parseInt(userId));
-          if (!user) {
-            socket.emit('error', { message: 'Usuário não encontrado' });
-            return;
-          }
-          
-          // Salvar o comentário no banco de dados
-          const newComment = await storage.createTaskComment({
-            task_id: parseInt(taskId),
-            user_id: parseInt(userId),
-            comment: comment,
-            created_at: new Date()
-          });
-          
-          // Emitir o evento para todos na sala da tarefa
-          const taskRoom = `task:${taskId}`;
-          io.to(taskRoom).emit('new-comment', {
-            id: newComment.id,
-            taskId: parseInt(taskId),
-            userId: parseInt(userId),
-            userName: user.name,
-            comment: comment,
-            createdAt: newComment.created_at
-          });
-          
-          console.log(`Novo comentário adicionado à tarefa ${taskId} por usuário ${userId}`);
-        } else {
-          socket.emit('error', { message: 'Dados incompletos para comentário' });
-        }
-      } catch (error) {
-        console.error('Erro ao processar comentário de tarefa:', error);
-        socket.emit('error', { message: 'Erro ao processar comentário' });
-      }
-    });
-    
-    // Enviar um comentário para um projeto
-    socket.on('project-comment', async (data) => {
-      try {
-        const { projectId, userId, comment } = data;
-        
-        if (projectId && userId && comment) {
-          // Validar se o usuário existe
-          const user = await storage.getUser(parseInt(userId));
-          if (!user) {
-            socket.emit('error', { message: 'Usuário não encontrado' });
-            return;
-          }
-          
-          // Salvar o comentário no banco de dados
-          const newComment = await storage.createProjectComment({
-            project_id: parseInt(projectId),
-            user_id: parseInt(userId),
-            comment: comment,
-            creation_date: new Date(),
-            edited: false,
-            deleted: false
-          });
-          
-          // Emitir o evento para todos na sala do projeto
-          const projectRoom = `project:${projectId}`;
-          io.to(projectRoom).emit('new-project-comment', {
-            ...newComment,
-            user: {
-              id: user.id,
-              name: user.name,
-              username: user.username,
-              avatar: user.avatar
-            }
-          });
-          
-          console.log(`Novo comentário adicionado ao projeto ${projectId} por usuário ${userId}`);
-        } else {
-          socket.emit('error', { message: 'Dados incompletos para comentário' });
-        }
-      } catch (error) {
-        console.error('Erro ao processar comentário de projeto:', error);
-        socket.emit('error', { message: 'Erro ao processar comentário' });
-      }
-    });
-    
-    // Enviar notificação para um usuário específico
-    socket.on('notify-user', (data) => {
-      const { targetUserId, notification } = data;
-      
-      if (targetUserId && notification && rooms.users[targetUserId]) {
-        const targetSocketId = rooms.users[targetUserId];
-        
-        io.to(targetSocketId).emit('notification', {
-          ...notification,
-          timestamp: new Date().toISOString()
-        });
-        
-        console.log(`Notificação enviada para usuário ${targetUserId}`);
-      } else {
-        socket.emit('error', { message: 'Usuário não encontrado ou dados incompletos' });
-      }
-    });
-    
-    // Manipular evento de desconexão
-    socket.on('disconnect', () => {
-      console.log('Socket.IO desconectado:', socket.id);
-      
-      // Remover o socket de todas as salas de tarefas
-      for (const [taskId, sockets] of Object.entries(rooms.tasks)) {
-        if (Array.isArray(sockets)) {
-          rooms.tasks[taskId] = sockets.filter(id => id !== socket.id);
-        }
-      }
-      
-      // Remover o socket de todas as salas de projetos
-      for (const [projectId, sockets] of Object.entries(rooms.projects)) {
-        if (Array.isArray(sockets)) {
-          rooms.projects[projectId] = sockets.filter(id => id !== socket.id);
-        }
-      }
-      
-      // Remover o socket do mapeamento de usuários
-      for (const [userId, socketId] of Object.entries(rooms.users)) {
-        if (socketId === socket.id) {
-          delete rooms.users[userId];
-        }
-      }
-    });
-  });
+  // Canal em tempo real (Socket.IO autenticado no handshake)
+  RealtimeService.attach(httpServer);
   
   // Executar automações ao iniciar o servidor
   console.log("🤖 Iniciando automações do sistema...");
@@ -4250,6 +3571,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     .catch(error => {
       console.error("🤖 Erro ao executar automações iniciais:", error);
     });
+
+  // Iniciar o envio da fila de emails
+  MailService.start()
+    .catch(error => {
+      console.error("Erro ao iniciar a fila de emails:", error);
+    });
+
+  // Agendar o resumo diário de notificações
+  NotificationDigestService.start();
   
   return httpServer;
 }
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ACTIVITY_ACTIONS, ACTIVITY_ENTITY_TYPES } from '@shared/schema';
+import { storage } from '../storage';
+import { authenticateJWT, requireProjectAccess, requireRole, projectFromParam } from '../auth';
+import { ActivityLogService } from '../services/activity-log';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const activityQuerySchema = z.object({
+  entityType: z.enum(ACTIVITY_ENTITY_TYPES).optional(),
+  action: z.enum(ACTIVITY_ACTIONS).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const globalActivityQuerySchema = activityQuerySchema.extend({
+  projectId: z.coerce.number().int().positive().optional(),
+  clientId: z.coerce.number().int().positive().optional()
+});
+
+// Registro de atividades de todo o sistema
+router.get('/activity', requireRole(['admin']), async (req, res) => {
+  try {
+    const parsed = globalActivityQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    res.json(await ActivityLogService.list(req.user!, parsed.data));
+  } catch (error) {
+    console.error('Erro ao buscar registro de atividades:', error);
+    res.status(500).json({ message: 'Falha ao buscar registro de atividades' });
+  }
+});
+
+// Linha do tempo do projeto: o projeto (equipe, etapas e anexos), suas tarefas, despesas e eventos
+router.get('/projects/:id/activity', requireProjectAccess('observer', projectFromParam()), async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ message: 'ID de projeto inválido' });
+    }
+
+    const parsed = activityQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    res.json(await ActivityLogService.list(req.user!, { ...parsed.data, projectId }));
+  } catch (error) {
+    console.error('Erro ao buscar atividades do projeto:', error);
+    res.status(500).json({ message: 'Falha ao buscar atividades do projeto' });
+  }
+});
+
+// Linha do tempo do cliente: o cliente, seus contatos e a atividade dos seus projetos
+router.get('/clients/:id/activity', async (req, res) => {
+  try {
+    const clientId = parseInt(req.params.id);
+    if (isNaN(clientId)) {
+      return res.status(400).json({ message: 'ID de cliente inválido' });
+    }
+
+    const parsed = activityQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const client = await storage.getClient(clientId);
+    if (!client) {
+      return res.status(404).json({ message: 'Cliente não encontrado' });
+    }
+
+    res.json(await ActivityLogService.list(req.user!, { ...parsed.data, clientId }));
+  } catch (error) {
+    console.error('Erro ao buscar atividades do cliente:', error);
+    res.status(500).json({ message: 'Falha ao buscar atividades do cliente' });
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { createApiTokenSchema } from '@shared/schema';
+import { authenticateJWT } from '../auth';
+import { ApiTokenService } from '../services/api-tokens';
+import { SecurityEventService } from '../services/security-events';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+// Listar os tokens de API do usuário autenticado
+router.get('/', async (req, res) => {
+  try {
+    const tokens = await ApiTokenService.list(req.user!.id);
+    res.json(tokens);
+  } catch (error) {
+    console.error('Erro ao buscar tokens de API:', error);
+    res.status(500).json({ message: 'Falha ao buscar tokens de API' });
+  }
+});
+
+// Criar um token (o valor é exibido uma única vez)
+router.post('/', async (req, res) => {
+  try {
+    const parsed = createApiTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const { token, apiToken } = await ApiTokenService.create(req.user!.id, parsed.data);
+    await SecurityEventService.log('api_token_created', req, {
+      userId: req.user!.id,
+      metadata: { tokenId: apiToken.id, name: apiToken.name, scopes: apiToken.scopes }
+    });
+
+    res.status(201).json({ ...apiToken, token });
+  } catch (error) {
+    console.error('Erro ao criar token de API:', error);
+    res.status(500).json({ message: 'Falha ao criar token de API' });
+  }
+});
+
+// Revogar um token
+router.delete('/:id', async (req, res) => {
+  try {
+    const tokenId = parseInt(req.params.id);
+    if (isNaN(tokenId)) {
+      return res.status(400).json({ message: 'ID de token inválido' });
+    }
+
+    const revoked = await ApiTokenService.revoke(req.user!.id, tokenId);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Token não encontrado' });
+    }
+
+    await SecurityEventService.log('api_token_revoked', req, { userId: req.user!.id, metadata: { tokenId } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao revogar token de API:', error);
+    res.status(500).json({ message: 'Falha ao revogar token de API' });
+  }
+});
+
+export default router;
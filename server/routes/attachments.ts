@@ -4,7 +4,7 @@ import { upload, processImage, moveFile } from '../upload';
 import path from 'path';
 import fs from 'fs';
 import { clientAttachments, projectAttachments, taskAttachments } from '../../shared/schema';
-import { authenticateJWT } from '../auth';
+import { authenticateJWT, requireProjectAccess, canModerateProject, projectFromParam, projectFromTask } from '../auth';
 
 const router = Router();
 
@@ -164,7 +164,7 @@ router.delete('/clients/:clientId/:attachmentId', async (req, res) => {
 
 // Project Attachments
 // Route to get project attachments
-router.get('/projects/:projectId', async (req, res) => {
+router.get('/projects/:projectId', requireProjectAccess('observer', projectFromParam('projectId')), async (req, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
     const attachments = await storage.getProjectAttachments(projectId);
@@ -176,7 +176,7 @@ router.get('/projects/:projectId', async (req, res) => {
 });
 
 // Route for project attachment upload
-router.post('/projects/:projectId', upload.single('file'), async (req, res) => {
+router.post('/projects/:projectId', requireProjectAccess('editor', projectFromParam('projectId')), upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ message: 'No file uploaded' });
@@ -223,7 +223,7 @@ router.post('/projects/:projectId', upload.single('file'), async (req, res) => {
 });
 
 // Route to download project attachment
-router.get('/projects/:projectId/download/:attachmentId', async (req, res) => {
+router.get('/projects/:projectId/download/:attachmentId', requireProjectAccess('observer', projectFromParam('projectId')), async (req, res) => {
   try {
     const attachmentId = parseInt(req.params.attachmentId);
     const attachment = await storage.getProjectAttachment(attachmentId);
@@ -278,7 +278,7 @@ router.get('/projects/:projectId/download/:attachmentId', async (req, res) => {
 });
 
 // Route to delete project attachment
-router.delete('/projects/:projectId/:attachmentId', async (req, res) => {
+router.delete('/projects/:projectId/:attachmentId', requireProjectAccess('editor', projectFromParam('projectId')), async (req, res) => {
   try {
     const attachmentId = parseInt(req.params.attachmentId);
     const attachment = await storage.getProjectAttachment(attachmentId);
@@ -287,7 +287,11 @@ router.delete('/projects/:projectId/:attachmentId', async (req, res) => {
       return res.status(404).json({ message: 'Attachment not found' });
     }
     
-    // Check permissions (optional, depending on business rules)
+    // Apenas quem enviou o anexo, admin/manager ou o produtor do projeto pode excluí-lo
+    if (attachment.uploaded_by !== req.user!.id && !['admin', 'manager'].includes(req.user!.role) &&
+        !(await canModerateProject(req.user!, attachment.project_id))) {
+      return res.status(403).json({ message: 'You can only delete your own attachments' });
+    }
     
     // Delete physical file
     const filePath = path.join(process.cwd(), attachment.file_url);
@@ -307,7 +311,7 @@ router.delete('/projects/:projectId/:attachmentId', async (req, res) => {
 
 // Task Attachments
 // Route to get task attachments
-router.get('/tasks/:taskId', async (req, res) => {
+router.get('/tasks/:taskId', requireProjectAccess('observer', projectFromTask('taskId')), async (req, res) => {
   try {
     const taskId = parseInt(req.params.taskId);
     const attachments = await storage.getTaskAttachments(taskId);
@@ -319,7 +323,7 @@ router.get('/tasks/:taskId', async (req, res) => {
 });
 
 // Route for task attachment upload
-router.post('/tasks/:taskId', upload.single('file'), async (req, res) => {
+router.post('/tasks/:taskId', requireProjectAccess('editor', projectFromTask('taskId')), upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ message: 'No file uploaded' });
@@ -361,7 +365,7 @@ router.post('/tasks/:taskId', upload.single('file'), async (req, res) => {
 });
 
 // Route to download task attachment
-router.get('/tasks/:taskId/download/:attachmentId', async (req, res) => {
+router.get('/tasks/:taskId/download/:attachmentId', requireProjectAccess('observer', projectFromTask('taskId')), async (req, res) => {
   try {
     const attachmentId = parseInt(req.params.attachmentId);
     const attachment = await storage.getTaskAttachment(attachmentId);
@@ -416,7 +420,7 @@ router.get('/tasks/:taskId/download/:attachmentId', async (req, res) => {
 });
 
 // Route to delete task attachment
-router.delete('/tasks/:taskId/:attachmentId', async (req, res) => {
+router.delete('/tasks/:taskId/:attachmentId', requireProjectAccess('editor', projectFromTask('taskId')), async (req, res) => {
   try {
     const attachmentId = parseInt(req.params.attachmentId);
     const attachment = await storage.getTaskAttachment(attachmentId);
@@ -425,7 +429,12 @@ router.delete('/tasks/:taskId/:attachmentId', async (req, res) => {
       return res.status(404).json({ message: 'Attachment not found' });
     }
     
-    // Check permissions (optional, depending on business rules)
+    // Apenas quem enviou o anexo, admin/manager ou o produtor do projeto pode excluí-lo
+    const task = await storage.getTask(attachment.task_id);
+    if (attachment.uploaded_by !== req.user!.id && !['admin', 'manager'].includes(req.user!.role) &&
+        !(await canModerateProject(req.user!, task?.project_id))) {
+      return res.status(403).json({ message: 'You can only delete your own attachments' });
+    }
     
     // Delete physical file
     const filePath = path.join(process.cwd(), attachment.file_url);
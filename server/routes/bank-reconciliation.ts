@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import { confirmReconciliationSchema } from '@shared/bank-reconciliation';
+import { authenticateJWT, requirePermission } from '../auth';
+import { statementUpload } from '../upload';
+import { BankReconciliationService } from '../services/bank-reconciliation';
+import { BankStatementParser, type ParsedBankStatement } from '../services/bank-statement-parser';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+router.use(requirePermission('manage_financials'));
+
+// Importa um extrato OFX ou retorno CNAB (campo "file"). Erros do upload (extensão ou
+// tamanho) são devolvidos como 400 em vez de seguirem para o tratador global.
+router.post('/imports', (req, res, next) => {
+  statementUpload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : 'Falha no upload do arquivo' });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    let statement: ParsedBankStatement;
+    try {
+      statement = BankStatementParser.parse(BankStatementParser.decode(req.file.buffer));
+    } catch (parseError) {
+      return res.status(400).json({ message: parseError instanceof Error ? parseError.message : 'Arquivo inválido' });
+    }
+
+    if (statement.transactions.length === 0) {
+      return res.status(400).json({ message: 'Nenhuma transação encontrada no arquivo' });
+    }
+
+    const detail = await BankReconciliationService.importStatement(statement, req.file.originalname, req.user!.id);
+    res.status(201).json(detail);
+  } catch (error) {
+    console.error('Erro ao importar extrato bancário:', error);
+    res.status(500).json({ message: 'Falha ao importar extrato bancário' });
+  }
+});
+
+// Importações mais recentes com a contagem de transações por situação
+router.get('/imports', async (req, res) => {
+  try {
+    res.json(await BankReconciliationService.listImports());
+  } catch (error) {
+    console.error('Erro ao listar importações de extratos:', error);
+    res.status(500).json({ message: 'Falha ao listar importações de extratos' });
+  }
+});
+
+// Transações da importação com os candidatos e a sugestão de conciliação
+router.get('/imports/:id', async (req, res) => {
+  try {
+    const importId = parseInt(req.params.id);
+    if (isNaN(importId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const detail = await BankReconciliationService.getImport(importId);
+    if (!detail) {
+      return res.status(404).json({ message: 'Importação não encontrada' });
+    }
+
+    res.json(detail);
+  } catch (error) {
+    console.error('Erro ao buscar importação de extrato:', error);
+    res.status(500).json({ message: 'Falha ao buscar importação de extrato' });
+  }
+});
+
+// Confirma as conciliações revisadas; as que falharem voltam em "errors"
+router.post('/imports/:id/confirm', async (req, res) => {
+  try {
+    const importId = parseInt(req.params.id);
+    if (isNaN(importId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const parsed = confirmReconciliationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const result = await BankReconciliationService.confirm(req, importId, parsed.data.matches);
+    if (!result) {
+      return res.status(404).json({ message: 'Importação não encontrada' });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Erro ao confirmar conciliação bancária:', error);
+    res.status(500).json({ message: 'Falha ao confirmar conciliação bancária' });
+  }
+});
+
+// Ignora uma transação pendente (tarifas, transferências entre contas...)
+router.post('/transactions/:id/ignore', async (req, res) => {
+  try {
+    const transactionId = parseInt(req.params.id);
+    if (isNaN(transactionId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const transaction = await BankReconciliationService.setIgnored(transactionId, true, req.user!.id);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transação pendente não encontrada' });
+    }
+
+    res.json(transaction);
+  } catch (error) {
+    console.error('Erro ao ignorar transação bancária:', error);
+    res.status(500).json({ message: 'Falha ao ignorar transação bancária' });
+  }
+});
+
+// Devolve uma transação ignorada para a revisão
+router.post('/transactions/:id/restore', async (req, res) => {
+  try {
+    const transactionId = parseInt(req.params.id);
+    if (isNaN(transactionId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const transaction = await BankReconciliationService.setIgnored(transactionId, false, req.user!.id);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transação ignorada não encontrada' });
+    }
+
+    res.json(transaction);
+  } catch (error) {
+    console.error('Erro ao restaurar transação bancária:', error);
+    res.status(500).json({ message: 'Falha ao restaurar transação bancária' });
+  }
+});
+
+export default router;
@@ -0,0 +1,177 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { sendChatMessageSchema, type ChatChannel } from '@shared/schema';
+import { storage } from '../storage';
+import { authenticateJWT, getProjectAccess } from '../auth';
+import { ChatService } from '../services/chat';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const historyQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30)
+});
+
+const directChannelSchema = z.object({
+  userId: z.number().int().positive()
+});
+
+const markReadSchema = z.object({
+  messageId: z.number().int().positive().optional()
+});
+
+// Canal de :id, se o usuário participar dele; do contrário responde com o erro e retorna null
+async function findAccessibleChannel(req: Request, res: Response): Promise<ChatChannel | null> {
+  const channelId = parseInt(req.params.id);
+  if (isNaN(channelId)) {
+    res.status(400).json({ message: 'ID de canal inválido' });
+    return null;
+  }
+
+  const channel = await ChatService.getChannel(channelId);
+  if (!channel) {
+    res.status(404).json({ message: 'Canal não encontrado' });
+    return null;
+  }
+
+  if (!(await ChatService.canAccess(req.user!, channel))) {
+    res.status(403).json({ message: 'Acesso negado a este canal' });
+    return null;
+  }
+
+  return channel;
+}
+
+// Listar os canais do usuário com as mensagens não lidas
+router.get('/channels', async (req, res) => {
+  try {
+    const channels = await ChatService.listChannels(req.user!);
+    res.json(channels);
+  } catch (error) {
+    console.error('Erro ao buscar canais de chat:', error);
+    res.status(500).json({ message: 'Falha ao buscar canais' });
+  }
+});
+
+// Membros ativos da equipe, para iniciar conversas e mencionar
+router.get('/users', async (_req, res) => {
+  try {
+    const chatUsers = await ChatService.listUsers();
+    res.json(chatUsers);
+  } catch (error) {
+    console.error('Erro ao buscar usuários do chat:', error);
+    res.status(500).json({ message: 'Falha ao buscar usuários' });
+  }
+});
+
+// Abrir (ou criar) uma conversa direta com outro usuário
+router.post('/channels/direct', async (req, res) => {
+  try {
+    const parsed = directChannelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const { userId } = parsed.data;
+    if (userId === req.user!.id) {
+      return res.status(400).json({ message: 'Não é possível iniciar uma conversa consigo mesmo' });
+    }
+
+    const peer = await storage.getUser(userId);
+    if (!peer || peer.is_active === false) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    const channel = await ChatService.getDirectChannel(req.user!.id, userId);
+    res.json(channel);
+  } catch (error) {
+    console.error('Erro ao abrir conversa direta:', error);
+    res.status(500).json({ message: 'Falha ao abrir conversa' });
+  }
+});
+
+// Abrir (ou criar) o canal de um projeto
+router.post('/channels/project/:projectId', async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ message: 'ID de projeto inválido' });
+    }
+
+    if (!(await getProjectAccess(req.user!, projectId))) {
+      return res.status(403).json({ message: 'Acesso negado a este projeto' });
+    }
+
+    const channel = await ChatService.getProjectChannel(projectId, req.user!.id);
+    if (!channel) {
+      return res.status(404).json({ message: 'Projeto não encontrado' });
+    }
+
+    res.json(channel);
+  } catch (error) {
+    console.error('Erro ao abrir canal do projeto:', error);
+    res.status(500).json({ message: 'Falha ao abrir canal do projeto' });
+  }
+});
+
+// Histórico do canal, paginado do mais recente para o mais antigo
+router.get('/channels/:id/messages', async (req, res) => {
+  try {
+    const channel = await findAccessibleChannel(req, res);
+    if (!channel) return;
+
+    const parsed = historyQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const page = await ChatService.getMessages(channel.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Erro ao buscar mensagens do chat:', error);
+    res.status(500).json({ message: 'Falha ao buscar mensagens' });
+  }
+});
+
+// Enviar uma mensagem ao canal
+router.post('/channels/:id/messages', async (req, res) => {
+  try {
+    const channel = await findAccessibleChannel(req, res);
+    if (!channel) return;
+
+    const parsed = sendChatMessageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const message = await ChatService.sendMessage(req.user!, channel, parsed.data.content);
+    res.status(201).json(message);
+  } catch (error) {
+    console.error('Erro ao enviar mensagem:', error);
+    res.status(500).json({ message: 'Falha ao enviar mensagem' });
+  }
+});
+
+// Marcar o canal como lido até a mensagem informada (ou até a última)
+router.post('/channels/:id/read', async (req, res) => {
+  try {
+    const channel = await findAccessibleChannel(req, res);
+    if (!channel) return;
+
+    const parsed = markReadSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    await ChatService.markRead(req.user!.id, channel.id, parsed.data.messageId);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Erro ao marcar canal como lido:', error);
+    res.status(500).json({ message: 'Falha ao marcar canal como lido' });
+  }
+});
+
+export default router;
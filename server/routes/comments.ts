@@ -0,0 +1,281 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { z } from 'zod';
+import {
+  COMMENT_ENTITY_PATHS,
+  createCommentSchema,
+  updateCommentSchema,
+  type CommentEntityType,
+  type EntityComment
+} from '@shared/schema';
+import { sanitizeCommentMarkdown } from '@shared/markdown';
+import { storage } from '../storage';
+import { authenticateJWT } from '../auth';
+import { CommentService, type CommentTarget } from '../services/comments';
+import { CommentAttachmentService } from '../services/comment-attachments';
+import { MentionService } from '../services/mentions';
+import { NotificationService } from '../services/notifications';
+
+const router = Router();
+
+// Comentários de tarefas, projetos, clientes e documentos financeiros:
+// /api/tasks/:entityId/comments, /api/clients/:entityId/comments, ...
+const ENTITY_TYPES_BY_PATH = Object.fromEntries(
+  Object.entries(COMMENT_ENTITY_PATHS).map(([type, path]) => [path, type as CommentEntityType])
+);
+const THREAD_PATH = `/:entity(${Object.values(COMMENT_ENTITY_PATHS).join('|')})/:entityId/comments`;
+
+const reactionSchema = z.object({
+  reaction_type: z.string().trim().min(1).max(20).default('like')
+});
+
+// Entidade carregada por loadThread
+const threadOf = (res: Response): CommentTarget => res.locals.commentTarget;
+
+// Carrega a entidade da rota e confere se o usuário pode ler (GET) ou escrever no tópico
+async function loadThread(req: Request, res: Response, next: NextFunction) {
+  try {
+    const entityId = parseInt(req.params.entityId);
+    if (isNaN(entityId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const target = await CommentService.getTarget(ENTITY_TYPES_BY_PATH[req.params.entity], entityId);
+    if (!target) {
+      return res.status(404).json({ message: 'Registro não encontrado' });
+    }
+
+    const mode = req.method === 'GET' ? 'read' : 'write';
+    if (!(await CommentService.canAccess(req.user!, target, mode))) {
+      return res.status(403).json({ message: 'Acesso negado aos comentários deste registro' });
+    }
+
+    res.locals.commentTarget = target;
+    next();
+  } catch (error) {
+    console.error('Erro ao verificar acesso aos comentários:', error);
+    res.status(500).json({ message: 'Falha ao verificar acesso aos comentários' });
+  }
+}
+
+// Comentário :commentId do tópico; do contrário responde 404 e retorna null
+async function findThreadComment(req: Request, res: Response): Promise<EntityComment | null> {
+  const target = threadOf(res);
+  const comment = await storage.getComment(parseInt(req.params.commentId));
+
+  if (!comment || comment.deleted || comment.entity_type !== target.type || comment.entity_id !== target.id) {
+    res.status(404).json({ message: 'Comentário não encontrado' });
+    return null;
+  }
+
+  return comment;
+}
+
+function commentTextRequired(res: Response) {
+  return res.status(400).json({
+    message: 'Validation error',
+    errors: [{ code: 'invalid_type', expected: 'string', received: 'undefined', path: ['comment'], message: 'Required' }]
+  });
+}
+
+// Listar os comentários da entidade com reações e anexos
+router.get(THREAD_PATH, authenticateJWT, loadThread, async (_req, res) => {
+  try {
+    res.json(await CommentService.list(threadOf(res)));
+  } catch (error) {
+    console.error('Erro ao buscar comentários:', error);
+    res.status(500).json({ message: 'Falha ao buscar comentários' });
+  }
+});
+
+router.get(`${THREAD_PATH}/:commentId`, authenticateJWT, loadThread, async (req, res) => {
+  try {
+    const comment = await findThreadComment(req, res);
+    if (comment) res.json(comment);
+  } catch (error) {
+    console.error('Erro ao buscar comentário:', error);
+    res.status(500).json({ message: 'Falha ao buscar comentário' });
+  }
+});
+
+// Novo comentário ou resposta (parent_id)
+router.post(THREAD_PATH, authenticateJWT, loadThread, async (req, res) => {
+  try {
+    const parsed = createCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const target = threadOf(res);
+    const { attachment_ids: attachmentIds, parent_id: parentId, comment } = parsed.data;
+
+    // Markdown sanitizado; o comentário pode ter só anexos, desde que algum deles
+    // possa ser vinculado (enviado pelo autor para este registro e ainda livre)
+    const text = sanitizeCommentMarkdown(comment);
+    const linkableIds = await CommentAttachmentService.available(target.type, target.id, req.user!.id, attachmentIds);
+    if (!text && linkableIds.length === 0) {
+      return commentTextRequired(res);
+    }
+
+    if (parentId) {
+      const parent = await storage.getComment(parentId);
+      if (!parent || parent.entity_type !== target.type || parent.entity_id !== target.id) {
+        return res.status(400).json({ message: 'Comentário respondido não pertence a este registro' });
+      }
+    }
+
+    // Menções válidas: usuários ativos que podem ler o tópico
+    const mentions = await MentionService.resolve(text, target, req.user!.id);
+
+    const created = await storage.createComment({
+      entity_type: target.type,
+      entity_id: target.id,
+      user_id: req.user!.id,
+      comment: text,
+      parent_id: parentId ?? null,
+      mentions
+    });
+    const attachments = await CommentAttachmentService.attach(created, req.user!.id, linkableIds);
+
+    // Os anexos foram vinculados a outro comentário entre a verificação e a gravação
+    if (!text && attachments.length === 0) {
+      await storage.softDeleteComment(created.id);
+      return commentTextRequired(res);
+    }
+
+    const result = { ...created, reactions: [], attachments };
+
+    CommentService.publish(target, 'created', created.id, req.user!.id);
+
+    NotificationService.commentMentioned(target, created, mentions)
+      .catch(error => console.error('Erro ao notificar menção em comentário:', error));
+    NotificationService.commented(target, created)
+      .catch(error => console.error('Erro ao notificar novo comentário:', error));
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Erro ao criar comentário:', error);
+    res.status(500).json({ message: 'Falha ao criar comentário' });
+  }
+});
+
+// Editar o texto (autor ou administrador)
+router.patch(`${THREAD_PATH}/:commentId`, authenticateJWT, loadThread, async (req, res) => {
+  try {
+    const parsed = updateCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const comment = await findThreadComment(req, res);
+    if (!comment) return;
+
+    if (comment.user_id !== req.user!.id && req.user!.role !== 'admin') {
+      return res.status(403).json({ message: 'Você só pode editar seus próprios comentários' });
+    }
+
+    const text = sanitizeCommentMarkdown(parsed.data.comment);
+    if (!text) {
+      return commentTextRequired(res);
+    }
+
+    const target = threadOf(res);
+    const mentions = await MentionService.resolve(text, target, comment.user_id);
+
+    const updated = await storage.updateComment(comment.id, {
+      comment: text,
+      mentions,
+      edited: true,
+      edit_date: new Date()
+    });
+
+    CommentService.publish(target, 'updated', comment.id, req.user!.id);
+
+    // Avisar apenas quem foi mencionado pela primeira vez nesta edição
+    NotificationService.commentMentioned(target, updated, MentionService.added(comment.mentions, mentions))
+      .catch(error => console.error('Erro ao notificar menção em comentário:', error));
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Erro ao atualizar comentário:', error);
+    res.status(500).json({ message: 'Falha ao atualizar comentário' });
+  }
+});
+
+// Remover (soft delete): autor, administrador/gerente ou produtor do projeto
+router.delete(`${THREAD_PATH}/:commentId`, authenticateJWT, loadThread, async (req, res) => {
+  try {
+    const comment = await findThreadComment(req, res);
+    if (!comment) return;
+
+    const target = threadOf(res);
+    if (comment.user_id !== req.user!.id && !(await CommentService.canModerate(req.user!, target))) {
+      return res.status(403).json({ message: 'Você só pode excluir seus próprios comentários' });
+    }
+
+    await storage.softDeleteComment(comment.id);
+    CommentService.publish(target, 'deleted', comment.id, req.user!.id);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao excluir comentário:', error);
+    res.status(500).json({ message: 'Falha ao excluir comentário' });
+  }
+});
+
+// Reagir a um comentário (uma reação por usuário)
+router.post(`${THREAD_PATH}/:commentId/reactions`, authenticateJWT, loadThread, async (req, res) => {
+  try {
+    const parsed = reactionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const comment = await findThreadComment(req, res);
+    if (!comment) return;
+
+    const existing = await storage.getCommentReactionByUserAndComment(req.user!.id, comment.id);
+    if (existing) {
+      return res.status(400).json({ message: 'Você já reagiu a este comentário' });
+    }
+
+    const reaction = await storage.createCommentReaction({
+      comment_id: comment.id,
+      user_id: req.user!.id,
+      reaction_type: parsed.data.reaction_type
+    });
+
+    CommentService.publish(threadOf(res), 'reaction_added', comment.id, req.user!.id);
+
+    res.status(201).json(reaction);
+  } catch (error) {
+    console.error('Erro ao registrar reação:', error);
+    res.status(500).json({ message: 'Falha ao registrar reação' });
+  }
+});
+
+// Remover a própria reação
+router.delete(`${THREAD_PATH}/:commentId/reactions/:reactionId`, authenticateJWT, loadThread, async (req, res) => {
+  try {
+    const comment = await findThreadComment(req, res);
+    if (!comment) return;
+
+    const reaction = await storage.getCommentReaction(parseInt(req.params.reactionId));
+    if (!reaction || reaction.comment_id !== comment.id) {
+      return res.status(404).json({ message: 'Reação não encontrada' });
+    }
+
+    if (reaction.user_id !== req.user!.id) {
+      return res.status(403).json({ message: 'Você só pode remover suas próprias reações' });
+    }
+
+    await storage.deleteCommentReaction(reaction.id);
+    CommentService.publish(threadOf(res), 'reaction_removed', comment.id, req.user!.id);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao remover reação:', error);
+    res.status(500).json({ message: 'Falha ao remover reação' });
+  }
+});
+
+export default router;
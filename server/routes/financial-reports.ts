@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { FINANCIAL_CLIENT_METRICS, financialReportQuerySchema } from '@shared/financial-reports';
+import { authenticateJWT, requirePermission } from '../auth';
+import { FinancialReportService } from '../services/financial-reports';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+router.use(requirePermission('view_financials'));
+
+const byClientQuerySchema = z.object({
+  metric: z.enum(FINANCIAL_CLIENT_METRICS).default('revenue'),
+  limit: z.coerce.number().int().min(1).max(50).default(5)
+});
+
+// Indicadores principais do período (cards da página Financeiro e do dashboard)
+router.get('/summary', async (req, res) => {
+  try {
+    const parsed = financialReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    res.json(await FinancialReportService.summary(req.user!, parsed.data));
+  } catch (error) {
+    console.error('Erro ao gerar resumo financeiro:', error);
+    res.status(500).json({ message: 'Falha ao gerar resumo financeiro' });
+  }
+});
+
+// Receitas e despesas por mês
+router.get('/cash-flow', async (req, res) => {
+  try {
+    const parsed = financialReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    res.json(await FinancialReportService.cashFlow(req.user!, parsed.data));
+  } catch (error) {
+    console.error('Erro ao gerar fluxo de caixa:', error);
+    res.status(500).json({ message: 'Falha ao gerar fluxo de caixa' });
+  }
+});
+
+// Receita do período ou valores em aberto por cliente (?metric=revenue|receivables)
+router.get('/by-client', async (req, res) => {
+  try {
+    const parsed = financialReportQuerySchema.safeParse(req.query);
+    const options = byClientQuerySchema.safeParse(req.query);
+    if (!parsed.success || !options.success) {
+      const errors = [...(parsed.error?.errors ?? []), ...(options.error?.errors ?? [])];
+      return res.status(400).json({ message: 'Validation error', errors });
+    }
+
+    res.json(await FinancialReportService.byClient(req.user!, parsed.data, options.data.metric, options.data.limit));
+  } catch (error) {
+    console.error('Erro ao gerar receita por cliente:', error);
+    res.status(500).json({ message: 'Falha ao gerar receita por cliente' });
+  }
+});
+
+// Despesas do período por categoria
+router.get('/by-category', async (req, res) => {
+  try {
+    const parsed = financialReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    res.json(await FinancialReportService.byCategory(req.user!, parsed.data));
+  } catch (error) {
+    console.error('Erro ao gerar despesas por categoria:', error);
+    res.status(500).json({ message: 'Falha ao gerar despesas por categoria' });
+  }
+});
+
+// Receita, despesas e margem do período por projeto
+router.get('/by-project', async (req, res) => {
+  try {
+    const parsed = financialReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    res.json(await FinancialReportService.projectMargins(req.user!, parsed.data));
+  } catch (error) {
+    console.error('Erro ao gerar margem por projeto:', error);
+    res.status(500).json({ message: 'Falha ao gerar margem por projeto' });
+  }
+});
+
+export default router;
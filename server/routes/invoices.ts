@@ -4,6 +4,11 @@ import { upload, processImage, moveFile } from '../upload';
 import path from 'path';
 import fs from 'fs';
 import { authenticateJWT, requirePermission } from '../auth';
+import { RealtimeService } from '../services/realtime';
+import { NfseService } from '../services/nfse';
+import { FinancialAuditService } from '../services/financial-audit';
+import type { FinancialDocument } from '@shared/schema';
+import type { NfseInvoiceData } from '@shared/nfse';
 
 const router = Router();
 
@@ -11,7 +16,7 @@ const router = Router();
 router.use(authenticateJWT);
 
 // Rota para upload de nota fiscal para documento financeiro
-router.post('/financial-documents/:id/invoice', upload.single('invoice'), async (req, res) => {
+router.post('/financial-documents/:id/invoice', requirePermission('manage_financials'), upload.single('invoice'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ message: 'Nenhum arquivo enviado' });
@@ -31,6 +36,19 @@ router.post('/financial-documents/:id/invoice', upload.single('invoice'), async
       return res.status(404).json({ message: 'Documento financeiro não encontrado' });
     }
     
+    // NFS-e em XML (layout ABRASF): ler a nota e conferir com o documento e o cliente
+    let nfse: NfseInvoiceData | null = null;
+    let nfseUpdates: Partial<FinancialDocument> = {};
+    if (NfseService.isXmlFile(req.file)) {
+      const nfseData = NfseService.parse(NfseService.decode(fs.readFileSync(filePath)));
+      if (nfseData) {
+        const client = await storage.getClient(document.client_id);
+        const { checks, updates } = NfseService.check(document, client, nfseData);
+        nfse = { ...nfseData, checks, checked_at: new Date().toISOString() };
+        nfseUpdates = updates;
+      }
+    }
+    
     // Processar imagem ou mover arquivo para diretório apropriado
     const isImage = mimeType.startsWith('image/');
     let fileUrl;
@@ -55,13 +73,15 @@ router.post('/financial-documents/:id/invoice', upload.single('invoice'), async
       return res.status(500).json({ message: 'Erro interno: arquivo não foi salvo corretamente' });
     }
     
+    let updatedDocument: FinancialDocument | undefined;
     try {
-      // Atualizar o documento financeiro no banco de dados
-      const updatedDocument = await storage.updateFinancialDocument(documentId, {
+      // Atualizar o documento financeiro no banco de dados (dados da NFS-e anterior são descartados)
+      updatedDocument = await storage.updateFinancialDocument(documentId, {
         invoice_file: fileUrl,
         invoice_file_name: fileName,
         invoice_file_uploaded_at: new Date(),
-        invoice_file_uploaded_by: req.user?.id || null
+        invoice_file_uploaded_by: req.user?.id || null,
+        invoice_nfse: nfse
       });
       
       if (!updatedDocument) {
@@ -76,6 +96,10 @@ router.post('/financial-documents/:id/invoice', upload.single('invoice'), async
       }
       
       console.log(`[Upload Success] Arquivo ${fileName} anexado ao documento ${documentId}`);
+      RealtimeService.entityChanged('financial_document', documentId, 'updated', req.user!.id, {
+        projectId: document.project_id,
+        clientId: document.client_id
+      });
       
     } catch (dbError) {
       // Rollback: remover arquivo se atualização do banco falhou
@@ -88,9 +112,28 @@ router.post('/financial-documents/:id/invoice', upload.single('invoice'), async
       throw dbError;
     }
 
+    // Número e data de emissão vazios preenchidos com os da NFS-e, com registro na auditoria
+    if (nfse && Object.keys(nfseUpdates).length > 0) {
+      updatedDocument = await FinancialAuditService.updateDocument(
+        documentId,
+        nfseUpdates,
+        req.user!.id,
+        `Dados preenchidos a partir da NFS-e nº ${nfse.number}`,
+        {
+          ip: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      );
+    }
+
+    if (nfse?.checks.some(check => check.status === 'mismatch')) {
+      console.warn(`[NFS-e] Divergências na nota ${nfse.number} anexada ao documento ${documentId}: ${nfse.checks.filter(check => check.status === 'mismatch').map(check => check.field).join(', ')}`);
+    }
+
     res.status(201).json({
       message: 'Nota fiscal anexada com sucesso',
-      document: document
+      document: updatedDocument,
+      nfse
     });
   } catch (error) {
     console.error('Erro ao fazer upload da nota fiscal:', error);
@@ -102,7 +145,7 @@ router.post('/financial-documents/:id/invoice', upload.single('invoice'), async
 });
 
 // Rota para excluir nota fiscal de um documento financeiro
-router.delete('/financial-documents/:id/invoice', async (req, res) => {
+router.delete('/financial-documents/:id/invoice', requirePermission('manage_financials'), async (req, res) => {
   try {
     const documentId = parseInt(req.params.id);
     
@@ -133,7 +176,12 @@ router.delete('/financial-documents/:id/invoice', async (req, res) => {
       invoice_file: null,
       invoice_file_name: null,
       invoice_file_uploaded_at: null,
-      invoice_file_uploaded_by: null
+      invoice_file_uploaded_by: null,
+      invoice_nfse: null
+    });
+    RealtimeService.entityChanged('financial_document', documentId, 'updated', req.user!.id, {
+      projectId: document.project_id,
+      clientId: document.client_id
     });
 
     res.json({
@@ -194,6 +242,7 @@ router.post('/expenses/:id/invoice', upload.single('invoice'), async (req, res)
       invoice_file_uploaded_at: new Date(),
       invoice_file_uploaded_by: req.user?.id || null
     });
+    RealtimeService.entityChanged('expense', expenseId, 'updated', req.user!.id, { projectId: expense.project_id });
 
     res.status(201).json(updatedExpense);
   } catch (error) {
@@ -239,6 +288,7 @@ router.delete('/expenses/:id/invoice', async (req, res) => {
       invoice_file_uploaded_at: null,
       invoice_file_uploaded_by: null
     });
+    RealtimeService.entityChanged('expense', expenseId, 'updated', req.user!.id, { projectId: expense.project_id });
 
     res.json({
       success: true,
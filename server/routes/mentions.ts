@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateJWT } from '../auth';
+import { MentionService } from '../services/mentions';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Comentários de tarefas e projetos que mencionam o usuário autenticado
+router.get('/', async (req, res) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const { limit, offset } = parsed.data;
+    // Busca um item a mais para saber se há próxima página
+    const items = await MentionService.listForUser(req.user!, { limit: limit + 1, offset });
+
+    res.json({ mentions: items.slice(0, limit), hasMore: items.length > limit });
+  } catch (error) {
+    console.error('Erro ao buscar menções:', error);
+    res.status(500).json({ message: 'Falha ao buscar menções' });
+  }
+});
+
+export default router;
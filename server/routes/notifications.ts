@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { authenticateJWT } from '../auth';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const listQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Listar notificações do usuário autenticado (mais recentes primeiro)
+router.get('/', async (req, res) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const { unread, limit, offset } = parsed.data;
+    const [items, unreadCount] = await Promise.all([
+      storage.getNotifications(req.user!.id, { unreadOnly: unread === 'true', limit, offset }),
+      storage.getUnreadNotificationCount(req.user!.id)
+    ]);
+
+    res.json({ notifications: items, unreadCount });
+  } catch (error) {
+    console.error('Erro ao buscar notificações:', error);
+    res.status(500).json({ message: 'Falha ao buscar notificações' });
+  }
+});
+
+// Quantidade de notificações não lidas
+router.get('/unread-count', async (req, res) => {
+  try {
+    const unreadCount = await storage.getUnreadNotificationCount(req.user!.id);
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Erro ao contar notificações não lidas:', error);
+    res.status(500).json({ message: 'Falha ao contar notificações não lidas' });
+  }
+});
+
+// Marcar todas as notificações como lidas
+router.post('/read-all', async (req, res) => {
+  try {
+    const updated = await storage.markAllNotificationsRead(req.user!.id);
+    res.json({ updated });
+  } catch (error) {
+    console.error('Erro ao marcar notificações como lidas:', error);
+    res.status(500).json({ message: 'Falha ao marcar notificações como lidas' });
+  }
+});
+
+// Marcar uma notificação como lida
+router.patch('/:id/read', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID de notificação inválido' });
+    }
+
+    const notification = await storage.markNotificationRead(id, req.user!.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notificação não encontrada' });
+    }
+
+    res.json(notification);
+  } catch (error) {
+    console.error('Erro ao marcar notificação como lida:', error);
+    res.status(500).json({ message: 'Falha ao marcar notificação como lida' });
+  }
+});
+
+export default router;
@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { authenticateJWT, requireRole } from '../auth';
+import { insertPermissionSchema, CONFIGURABLE_ROLES, PERMISSION_CATEGORIES } from '../../shared/schema';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const permissionBodySchema = insertPermissionSchema.extend({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, 'A chave deve usar apenas letras minúsculas, números e "_"'),
+  category: z.enum(PERMISSION_CATEGORIES)
+});
+
+// A chave é verificada literalmente por requirePermission(); só nome e descrição podem mudar
+const permissionUpdateSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable()
+}).partial().strict();
+
+const rolePermissionBodySchema = z.object({
+  granted: z.boolean()
+});
+
+// Listar o catálogo de permissões
+router.get('/', async (_req, res) => {
+  try {
+    const permissionList = await storage.getPermissions();
+    res.json(permissionList);
+  } catch (error) {
+    console.error('Erro ao buscar permissões:', error);
+    res.status(500).json({ message: 'Falha ao buscar permissões' });
+  }
+});
+
+// Obter a matriz função → permissões
+router.get('/roles', async (_req, res) => {
+  try {
+    const matrix = await storage.getRolePermissionMatrix();
+
+    // Garantir que todas as funções configuráveis apareçam, mesmo sem permissões
+    const response: Record<string, string[]> = {};
+    for (const role of CONFIGURABLE_ROLES) {
+      response[role] = matrix[role] || [];
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error('Erro ao buscar matriz de permissões:', error);
+    res.status(500).json({ message: 'Falha ao buscar matriz de permissões' });
+  }
+});
+
+// Conceder ou revogar uma permissão para uma função (somente admin)
+router.put('/roles/:role/:key', requireRole(['admin']), async (req, res) => {
+  try {
+    const role = req.params.role as typeof CONFIGURABLE_ROLES[number];
+    const key = req.params.key;
+
+    if (!CONFIGURABLE_ROLES.includes(role)) {
+      return res.status(400).json({ message: 'Função inválida. Admins sempre têm acesso total.' });
+    }
+
+    const parsed = rolePermissionBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const permission = await storage.getPermission(key);
+    if (!permission) {
+      return res.status(404).json({ message: 'Permissão não encontrada' });
+    }
+
+    await storage.setRolePermission(role, key, parsed.data.granted, req.user!.id);
+
+    const rolePermissionKeys = await storage.getRolePermissionKeys(role);
+    res.json({ role, permissions: rolePermissionKeys });
+  } catch (error) {
+    console.error('Erro ao atualizar matriz de permissões:', error);
+    res.status(500).json({ message: 'Falha ao atualizar matriz de permissões' });
+  }
+});
+
+// Criar uma nova permissão no catálogo (somente admin)
+router.post('/', requireRole(['admin']), async (req, res) => {
+  try {
+    const parsed = permissionBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const existing = await storage.getPermission(parsed.data.key);
+    if (existing) {
+      return res.status(409).json({ message: 'Já existe uma permissão com esta chave' });
+    }
+
+    const permission = await storage.createPermission(parsed.data);
+    res.status(201).json(permission);
+  } catch (error) {
+    console.error('Erro ao criar permissão:', error);
+    res.status(500).json({ message: 'Falha ao criar permissão' });
+  }
+});
+
+// Atualizar uma permissão do catálogo (somente admin)
+router.patch('/:key', requireRole(['admin']), async (req, res) => {
+  try {
+    const parsed = permissionUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const permission = await storage.updatePermission(req.params.key, parsed.data);
+    if (!permission) {
+      return res.status(404).json({ message: 'Permissão não encontrada' });
+    }
+
+    res.json(permission);
+  } catch (error) {
+    console.error('Erro ao atualizar permissão:', error);
+    res.status(500).json({ message: 'Falha ao atualizar permissão' });
+  }
+});
+
+// Remover uma permissão do catálogo (somente admin)
+router.delete('/:key', requireRole(['admin']), async (req, res) => {
+  try {
+    const deleted = await storage.deletePermission(req.params.key);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Permissão não encontrada' });
+    }
+
+    res.status(200).json({ message: 'Permissão removida com sucesso' });
+  } catch (error) {
+    console.error('Erro ao remover permissão:', error);
+    res.status(500).json({ message: 'Falha ao remover permissão' });
+  }
+});
+
+export default router;
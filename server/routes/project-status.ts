@@ -2,6 +2,8 @@ import { Request, Response } from "express";
 import { db } from "../db";
 import { projects, projectStatusHistory, specialStatusEnum, type ProjectStatus, type SpecialStatus, isValidSpecialStatusTransition } from "@shared/schema";
 import { eq, desc } from "drizzle-orm";
+import { RealtimeService } from "../services/realtime";
+import { ActivityLogService } from "../services/activity-log";
 
 // Função para obter o histórico de status especial de um projeto
 export async function getProjectStatusHistory(req: Request, res: Response) {
@@ -92,14 +94,15 @@ export async function updateProjectSpecialStatus(req: Request, res: Response) {
       .where(eq(projects.id, projectId))
       .returning();
     
-    // Enviar para WebSocket
-    if (req.app.locals.io) {
-      req.app.locals.io.emit('project_updated', { 
-        id: projectId, 
-        special_status: status,
-        message: `Status especial atualizado para ${status}`
-      });
-    }
+    await ActivityLogService.record(req, 'project', 'updated', { before: project, after: updatedProject });
+    RealtimeService.entityChanged('project', projectId, 'updated', req.user!.id, { clientId: updatedProject.client_id });
+    
+    // Notificar quem acompanha o projeto em tempo real
+    RealtimeService.toProject(projectId, 'project_updated', {
+      id: projectId,
+      special_status: status,
+      message: `Status especial atualizado para ${status}`
+    });
     
     return res.status(200).json({ 
       message: "Status especial atualizado com sucesso", 
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SEARCH_MIN_LENGTH, SEARCH_RESULT_TYPES, type SearchResultType } from '@shared/search';
+import { authenticateJWT } from '../auth';
+import { SearchService } from '../services/search';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(SEARCH_MIN_LENGTH).max(200),
+  // Lista separada por vírgulas, ex.: types=project,task
+  types: z.string().optional()
+    .transform(value => value?.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(SEARCH_RESULT_TYPES)).optional()),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+// Busca de texto completo em projetos, tarefas, clientes, contatos, comentários,
+// arquivos e documentos financeiros visíveis para o usuário
+router.get('/', async (req, res) => {
+  try {
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const { q, types, limit } = parsed.data;
+    const results = await SearchService.search(req.user!, q, { limit, types: types as SearchResultType[] | undefined });
+
+    res.json({ query: q, results });
+  } catch (error) {
+    console.error('Erro ao realizar busca:', error);
+    res.status(500).json({ message: 'Falha ao realizar busca' });
+  }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { authenticateJWT, requireRole } from '../auth';
+import { LoginThrottleService } from '../services/login-throttle';
+import { SecurityEventService } from '../services/security-events';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const eventsQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  type: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Registro de eventos de segurança (logins, bloqueios, 2FA, redefinições de senha)
+router.get('/security/events', requireRole(['admin']), async (req, res) => {
+  try {
+    const parsed = eventsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const { userId, type, limit, offset } = parsed.data;
+    const result = await SecurityEventService.list({ userId, eventType: type, limit, offset });
+    res.json(result);
+  } catch (error) {
+    console.error('Erro ao buscar eventos de segurança:', error);
+    res.status(500).json({ message: 'Falha ao buscar eventos de segurança' });
+  }
+});
+
+// Contas bloqueadas por excesso de tentativas de login
+router.get('/security/lockouts', requireRole(['admin']), async (req, res) => {
+  try {
+    const lockouts = await LoginThrottleService.getLockedAccounts();
+    res.json(lockouts);
+  } catch (error) {
+    console.error('Erro ao buscar contas bloqueadas:', error);
+    res.status(500).json({ message: 'Falha ao buscar contas bloqueadas' });
+  }
+});
+
+// Desbloquear a conta de um usuário
+router.post('/users/:id/unlock', requireRole(['admin']), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'ID de usuário inválido' });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    const unlocked = await LoginThrottleService.unlockAccount(userId);
+    if (!unlocked) {
+      return res.status(404).json({ message: 'A conta não está bloqueada' });
+    }
+
+    await SecurityEventService.log('account_unlocked', req, {
+      userId,
+      actorId: req.user!.id,
+      identifier: user.username
+    });
+    console.log(`[Segurança] Admin ${req.user!.id} desbloqueou a conta do usuário ${userId}`);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao desbloquear conta:', error);
+    res.status(500).json({ message: 'Falha ao desbloquear conta' });
+  }
+});
+
+export default router;
@@ -0,0 +1,145 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { authenticateJWT, requireRole, getActiveSessions, revokeSession, revokeAllRefreshTokens } from '../auth';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const revokeAllSchema = z.object({
+  keepCurrent: z.boolean().default(false)
+});
+
+// Encerrar a sessão do próprio navegador remove também os cookies de autenticação
+function clearAuthCookies(res: Response) {
+  res.clearCookie('accessToken');
+  res.clearCookie('refreshToken', { path: '/api/auth/refresh' });
+}
+
+// Listar as sessões ativas do usuário autenticado
+router.get('/auth/sessions', async (req, res) => {
+  try {
+    const sessions = await getActiveSessions(req.user!.id);
+    res.json(sessions.map(session => ({ ...session, current: session.id === req.user!.sessionId })));
+  } catch (error) {
+    console.error('Erro ao buscar sessões ativas:', error);
+    res.status(500).json({ message: 'Falha ao buscar sessões ativas' });
+  }
+});
+
+// Encerrar todas as sessões do usuário autenticado ("sair de todos os dispositivos")
+router.post('/auth/sessions/revoke-all', async (req, res) => {
+  try {
+    const parsed = revokeAllSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const exceptSessionId = parsed.data.keepCurrent ? req.user!.sessionId : undefined;
+    const revoked = await revokeAllRefreshTokens(req.user!.id, exceptSessionId);
+
+    if (!parsed.data.keepCurrent) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ revoked });
+  } catch (error) {
+    console.error('Erro ao encerrar sessões:', error);
+    res.status(500).json({ message: 'Falha ao encerrar sessões' });
+  }
+});
+
+// Encerrar uma sessão do usuário autenticado
+router.delete('/auth/sessions/:sessionId', async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ message: 'ID de sessão inválido' });
+    }
+
+    const revoked = await revokeSession(req.user!.id, sessionId);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Sessão não encontrada' });
+    }
+
+    const current = sessionId === req.user!.sessionId;
+    if (current) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ success: true, current });
+  } catch (error) {
+    console.error('Erro ao encerrar sessão:', error);
+    res.status(500).json({ message: 'Falha ao encerrar sessão' });
+  }
+});
+
+// Listar as sessões ativas de um usuário (administração da equipe)
+router.get('/users/:id/sessions', requireRole(['admin']), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'ID de usuário inválido' });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    const sessions = await getActiveSessions(userId);
+    res.json(sessions.map(session => ({ ...session, current: session.id === req.user!.sessionId })));
+  } catch (error) {
+    console.error('Erro ao buscar sessões do usuário:', error);
+    res.status(500).json({ message: 'Falha ao buscar sessões do usuário' });
+  }
+});
+
+// Encerrar todas as sessões de um usuário (ex.: desligamento de um freelancer)
+router.post('/users/:id/sessions/revoke-all', requireRole(['admin']), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: 'ID de usuário inválido' });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    const revoked = await revokeAllRefreshTokens(userId);
+    console.log(`[Sessões] Admin ${req.user!.id} encerrou ${revoked} sessões do usuário ${userId}`);
+
+    res.json({ revoked });
+  } catch (error) {
+    console.error('Erro ao encerrar sessões do usuário:', error);
+    res.status(500).json({ message: 'Falha ao encerrar sessões do usuário' });
+  }
+});
+
+// Encerrar uma sessão específica de um usuário
+router.delete('/users/:id/sessions/:sessionId', requireRole(['admin']), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(userId) || isNaN(sessionId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const revoked = await revokeSession(userId, sessionId);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Sessão não encontrada' });
+    }
+
+    console.log(`[Sessões] Admin ${req.user!.id} encerrou a sessão ${sessionId} do usuário ${userId}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao encerrar sessão do usuário:', error);
+    res.status(500).json({ message: 'Falha ao encerrar sessão do usuário' });
+  }
+});
+
+export default router;
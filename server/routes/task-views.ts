@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { saveTaskViewSchema } from '@shared/schema';
+import { authenticateJWT } from '../auth';
+import { TaskViewService } from '../services/task-views';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+// Visões salvas da lista de tarefas do usuário autenticado
+router.get('/', async (req, res) => {
+  try {
+    res.json(await TaskViewService.list(req.user!.id));
+  } catch (error) {
+    console.error('Erro ao buscar visões de tarefas:', error);
+    res.status(500).json({ message: 'Falha ao buscar visões de tarefas' });
+  }
+});
+
+// Salvar os filtros e a ordenação atuais como uma nova visão
+router.post('/', async (req, res) => {
+  try {
+    const parsed = saveTaskViewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    if (await TaskViewService.nameTaken(req.user!.id, parsed.data.name)) {
+      return res.status(409).json({ message: 'Já existe uma visão com esse nome' });
+    }
+
+    res.status(201).json(await TaskViewService.create(req.user!.id, parsed.data));
+  } catch (error) {
+    console.error('Erro ao salvar visão de tarefas:', error);
+    res.status(500).json({ message: 'Falha ao salvar visão de tarefas' });
+  }
+});
+
+// Renomear a visão ou substituir seus filtros e ordenação
+router.put('/:id', async (req, res) => {
+  try {
+    const viewId = parseInt(req.params.id);
+    if (isNaN(viewId)) {
+      return res.status(400).json({ message: 'ID de visão inválido' });
+    }
+
+    const parsed = saveTaskViewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    if (await TaskViewService.nameTaken(req.user!.id, parsed.data.name, viewId)) {
+      return res.status(409).json({ message: 'Já existe uma visão com esse nome' });
+    }
+
+    const view = await TaskViewService.update(req.user!.id, viewId, parsed.data);
+    if (!view) {
+      return res.status(404).json({ message: 'Visão não encontrada' });
+    }
+
+    res.json(view);
+  } catch (error) {
+    console.error('Erro ao atualizar visão de tarefas:', error);
+    res.status(500).json({ message: 'Falha ao atualizar visão de tarefas' });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const viewId = parseInt(req.params.id);
+    if (isNaN(viewId)) {
+      return res.status(400).json({ message: 'ID de visão inválido' });
+    }
+
+    const deleted = await TaskViewService.delete(req.user!.id, viewId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Visão não encontrada' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao excluir visão de tarefas:', error);
+    res.status(500).json({ message: 'Falha ao excluir visão de tarefas' });
+  }
+});
+
+export default router;
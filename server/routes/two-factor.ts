@@ -0,0 +1,141 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { authenticateJWT, isTwoFactorRequired, isTwoFactorPolicyEnabled } from '../auth';
+import { TwoFactorService } from '../services/two-factor';
+import { SecurityEventService } from '../services/security-events';
+
+const router = Router();
+
+// Middleware to check authentication for all routes
+router.use(authenticateJWT);
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Informe o código do app autenticador')
+});
+
+// Desativar aceita o código do app ou um código de recuperação (app perdido)
+const disableSchema = z.object({
+  code: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional()
+}).refine(data => !!data.code || !!data.recoveryCode, {
+  message: 'Informe o código do app autenticador ou um código de recuperação'
+});
+
+// Situação do 2FA do usuário autenticado
+router.get('/status', async (req, res) => {
+  try {
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    const status = await TwoFactorService.getStatus(user.id);
+    res.json({
+      ...status,
+      required: await isTwoFactorRequired(user),
+      policyEnabled: isTwoFactorPolicyEnabled()
+    });
+  } catch (error) {
+    console.error('Erro ao buscar situação do 2FA:', error);
+    res.status(500).json({ message: 'Falha ao buscar situação da autenticação em dois fatores' });
+  }
+});
+
+// Iniciar a ativação: retorna o QR code e o segredo para cadastro manual
+router.post('/setup', async (req, res) => {
+  try {
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return res.status(409).json({ message: 'A autenticação em dois fatores já está ativa' });
+    }
+
+    const enrollment = await TwoFactorService.beginEnrollment(user);
+    res.json(enrollment);
+  } catch (error) {
+    console.error('Erro ao iniciar ativação do 2FA:', error);
+    res.status(500).json({ message: 'Falha ao iniciar a ativação da autenticação em dois fatores' });
+  }
+});
+
+// Confirmar a ativação com o primeiro código do app
+router.post('/setup/confirm', async (req, res) => {
+  try {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user!.id, parsed.data.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Código inválido' });
+    }
+
+    await SecurityEventService.log('two_factor_enabled', req, { userId: req.user!.id });
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Erro ao confirmar ativação do 2FA:', error);
+    res.status(500).json({ message: 'Falha ao ativar a autenticação em dois fatores' });
+  }
+});
+
+// Gerar novos códigos de recuperação (os anteriores deixam de valer)
+router.post('/recovery-codes', async (req, res) => {
+  try {
+    const parsed = codeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    if (!(await TwoFactorService.verifyCode(req.user!.id, parsed.data.code))) {
+      return res.status(400).json({ message: 'Código inválido' });
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!.id);
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Erro ao gerar códigos de recuperação:', error);
+    res.status(500).json({ message: 'Falha ao gerar códigos de recuperação' });
+  }
+});
+
+// Desativar o 2FA
+router.post('/disable', async (req, res) => {
+  try {
+    const parsed = disableSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Validation error', errors: parsed.error.errors });
+    }
+
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: 'Usuário não encontrado' });
+    }
+
+    if (await isTwoFactorRequired(user)) {
+      return res.status(403).json({ message: 'A autenticação em dois fatores é obrigatória para o seu perfil' });
+    }
+
+    const { code, recoveryCode } = parsed.data;
+    const valid = code
+      ? await TwoFactorService.verifyCode(user.id, code)
+      : await TwoFactorService.useRecoveryCode(user.id, recoveryCode!);
+
+    if (!valid) {
+      return res.status(400).json({ message: 'Código inválido' });
+    }
+
+    await TwoFactorService.disable(user.id);
+    await SecurityEventService.log('two_factor_disabled', req, { userId: user.id });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao desativar 2FA:', error);
+    res.status(500).json({ message: 'Falha ao desativar a autenticação em dois fatores' });
+  }
+});
+
+export default router;
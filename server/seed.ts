@@ -1,7 +1,7 @@
 import { db } from "./db";
 import { 
   users, clients, projects, projectMembers, projectStages, 
-  tasks, taskComments, taskAttachments, clientInteractions,
+  tasks, taskAttachments, clientInteractions,
   financialDocuments, expenses, events
 } from "../shared/schema";
 
@@ -0,0 +1,215 @@
+import type { Request } from "express";
+import { db } from "../db";
+import { storage, taskScopeCondition } from "../storage";
+import { getProjectScope, hasPermission } from "../auth";
+import {
+  activityLog,
+  projectMembers,
+  tasks,
+  users,
+  type ActivityAction,
+  type ActivityChanges,
+  type ActivityEntityType,
+  type ActivityLogItem
+} from "@shared/schema";
+import { and, desc, eq, inArray, isNull, ne, or, sql, type SQL } from "drizzle-orm";
+
+type ActivityRecordValues = Record<string, unknown>;
+
+type ActivityViewer = { id: number; role: string; permissions?: string[] };
+
+export interface ActivityFilters {
+  entityType?: ActivityEntityType;
+  action?: ActivityAction;
+  userId?: number;
+  projectId?: number;
+  clientId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// Campos controlados pelo sistema, que não interessam na linha do tempo
+const IGNORED_FIELDS = new Set(['id', 'creation_date', 'created_at', 'updated_at', 'version', 'encryption_iv', 'encryption_key_id']);
+
+// Campos com conteúdo grande (imagens e arquivos em base64): registra só que houve mudança
+const OPAQUE_FIELDS = new Set(['logo', 'avatar', 'file_url']);
+const OPAQUE_VALUE = '[arquivo]';
+
+/**
+ * Serviço de Registro de Atividades
+ *
+ * Guarda quem criou, alterou ou excluiu projetos (equipe, etapas e anexos), tarefas
+ * (e anexos), clientes, contatos, despesas e eventos, com os valores anteriores e novos de cada campo alterado.
+ * As rotas chamam record() depois de gravar a mudança; falhas ao registrar a
+ * atividade nunca interrompem a requisição.
+ */
+export class ActivityLogService {
+
+  /**
+   * Registra a ação do usuário da requisição. Em "created" informe apenas after,
+   * em "deleted" apenas before; alterações sem diferença não são registradas.
+   */
+  static async record(
+    req: Request,
+    entityType: ActivityEntityType,
+    action: ActivityAction,
+    values: { before?: object | null; after?: object | null }
+  ): Promise<void> {
+    try {
+      const before = (values.before ?? null) as ActivityRecordValues | null;
+      const after = (values.after ?? null) as ActivityRecordValues | null;
+      const record = after ?? before;
+      if (!record || typeof record.id !== 'number') return;
+      if (action === 'updated' && (!before || !after)) return;
+
+      const changes = this.diff(before, after);
+      if (action === 'updated' && Object.keys(changes).length === 0) return;
+
+      const scope = await this.resolveScope(entityType, record);
+
+      await db.insert(activityLog).values({
+        entity_type: entityType,
+        entity_id: record.id,
+        entity_label: await this.labelOf(entityType, record),
+        action,
+        user_id: req.user?.id ?? null,
+        project_id: scope.projectId,
+        client_id: scope.clientId,
+        changes
+      });
+    } catch (error) {
+      console.error(`[Atividade] Erro ao registrar ${action} de ${entityType}:`, error);
+    }
+  }
+
+  /**
+   * Campos que mudaram entre before e after. Na criação (sem before) e na exclusão
+   * (sem after) entram todos os campos preenchidos.
+   */
+  static diff(before: ActivityRecordValues | null, after: ActivityRecordValues | null): ActivityChanges {
+    const changes: ActivityChanges = {};
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    Array.from(fields).forEach(field => {
+      if (IGNORED_FIELDS.has(field)) return;
+
+      // Numa atualização, campos ausentes do registro novo não foram alterados
+      if (before && after && !(field in after)) return;
+
+      const previous = this.normalize(field, before?.[field]);
+      const current = this.normalize(field, after?.[field]);
+      if (JSON.stringify(previous) === JSON.stringify(current)) return;
+
+      changes[field] = { before: previous, after: current };
+    });
+
+    return changes;
+  }
+
+  /**
+   * Atividades visíveis para o usuário, da mais recente para a mais antiga.
+   * Atividades de projetos seguem o escopo de projetos do usuário, as de tarefas o
+   * escopo da listagem de tarefas e despesas exigem a permissão 'view_financials'.
+   * Sem projeto, o usuário vê clientes, contatos e as próprias ações.
+   */
+  static async list(viewer: ActivityViewer, filters: ActivityFilters = {}): Promise<{ entries: ActivityLogItem[]; total: number }> {
+    const [scope, canViewFinancials] = await Promise.all([
+      getProjectScope(viewer),
+      hasPermission(viewer, 'view_financials')
+    ]);
+
+    const conditions: (SQL | undefined)[] = [];
+    if (filters.entityType) conditions.push(eq(activityLog.entity_type, filters.entityType));
+    if (filters.action) conditions.push(eq(activityLog.action, filters.action));
+    if (filters.userId) conditions.push(eq(activityLog.user_id, filters.userId));
+    if (filters.projectId) conditions.push(eq(activityLog.project_id, filters.projectId));
+    if (filters.clientId) conditions.push(eq(activityLog.client_id, filters.clientId));
+
+    if (scope) {
+      const memberProjects = db.select({ id: projectMembers.project_id })
+        .from(projectMembers)
+        .where(eq(projectMembers.user_id, viewer.id));
+      const visibleTasks = db.select({ id: tasks.id }).from(tasks).where(taskScopeCondition(scope));
+      conditions.push(or(
+        inArray(activityLog.project_id, memberProjects),
+        and(eq(activityLog.entity_type, 'task'), inArray(activityLog.entity_id, visibleTasks)),
+        and(isNull(activityLog.project_id), or(
+          inArray(activityLog.entity_type, ['client', 'client_contact']),
+          eq(activityLog.user_id, viewer.id)
+        ))
+      ));
+    }
+    if (!canViewFinancials) {
+      conditions.push(ne(activityLog.entity_type, 'expense'));
+    }
+
+    const where = and(...conditions);
+
+    const rows = await db.select({ entry: activityLog, user_name: users.name, user_avatar: users.avatar })
+      .from(activityLog)
+      .leftJoin(users, eq(activityLog.user_id, users.id))
+      .where(where)
+      .orderBy(desc(activityLog.created_at), desc(activityLog.id))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(activityLog)
+      .where(where);
+
+    return {
+      entries: rows.map(row => ({ ...row.entry, user_name: row.user_name, user_avatar: row.user_avatar })),
+      total: count
+    };
+  }
+
+  private static normalize(field: string, value: unknown): unknown {
+    if (value === undefined || value === null || value === '') return null;
+    if (OPAQUE_FIELDS.has(field)) return OPAQUE_VALUE;
+    if (value instanceof Date) return value.toISOString();
+    return value;
+  }
+
+  private static async labelOf(entityType: ActivityEntityType, record: ActivityRecordValues): Promise<string | null> {
+    // Membros da equipe aparecem pelo nome do usuário
+    const label = entityType === 'project_member' && typeof record.user_id === 'number'
+      ? (await storage.getUser(record.user_id))?.name
+      : record.name ?? record.title ?? record.file_name ?? record.description;
+    return typeof label === 'string' ? label.slice(0, 200) : null;
+  }
+
+  /**
+   * Projeto e cliente a que a atividade pertence, para as linhas do tempo
+   */
+  private static async resolveScope(
+    entityType: ActivityEntityType,
+    record: ActivityRecordValues
+  ): Promise<{ projectId: number | null; clientId: number | null }> {
+    const idOf = (value: unknown) => typeof value === 'number' ? value : null;
+
+    switch (entityType) {
+      case 'project':
+        return { projectId: idOf(record.id), clientId: idOf(record.client_id) };
+      case 'client':
+        return { projectId: null, clientId: idOf(record.id) };
+      case 'client_contact':
+        return { projectId: null, clientId: idOf(record.client_id) };
+      case 'task_attachment': {
+        const taskId = idOf(record.task_id);
+        const projectId = taskId ? (await storage.getTask(taskId))?.project_id ?? null : null;
+        const clientId = projectId ? (await storage.getProject(projectId))?.client_id ?? null : null;
+        return { projectId, clientId };
+      }
+      default: {
+        // Tarefas, despesas, eventos, equipe, etapas e anexos de projetos: o cliente vem
+        // do próprio registro ou do projeto
+        const projectId = idOf(record.project_id);
+        let clientId = idOf(record.client_id);
+        if (!clientId && projectId) {
+          clientId = (await storage.getProject(projectId))?.client_id ?? null;
+        }
+        return { projectId, clientId };
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import { db } from "../db";
+import {
+  apiTokens,
+  users,
+  API_TOKEN_PREFIX,
+  type ApiToken,
+  type ApiTokenAccess,
+  type ApiTokenResource,
+  type CreateApiTokenInput,
+  type User
+} from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+// Rotas da API liberadas para cada recurso dos escopos (prefixos de caminho)
+const RESOURCE_ROUTES: [string, ApiTokenResource][] = [
+  ['/api/projects', 'projects'],
+  ['/api/attachments/projects', 'projects'],
+  ['/api/tasks', 'tasks'],
+  ['/api/attachments/tasks', 'tasks'],
+  ['/api/clients', 'clients'],
+  ['/api/client-contacts', 'clients'],
+  ['/api/attachments/clients', 'clients'],
+  ['/api/financial-documents', 'financial'],
+  ['/api/expenses', 'financial'],
+  ['/api/events', 'calendar'],
+  ['/api/calendar', 'calendar'],
+  ['/api/users', 'team'],
+];
+
+// Ações de conta e segurança ficam restritas à interface, mesmo com escopo de equipe
+const BLOCKED_ROUTES = [/^\/api\/auth(\/|$)/, /^\/api\/security(\/|$)/, /^\/api\/users\/[^/]+\/(sessions|unlock)(\/|$)/];
+
+// last_used_at é gravado no máximo uma vez por minuto por token
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export type ApiTokenSummary = Omit<ApiToken, 'token_hash'>;
+
+/**
+ * Serviço de Tokens de API
+ *
+ * Tokens de acesso pessoais de longa duração para scripts e integrações. O token age
+ * em nome do usuário (as permissões continuam valendo via requirePermission) e os
+ * escopos restringem quais recursos da API ele alcança, em leitura ou escrita.
+ */
+export class ApiTokenService {
+
+  static isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static toSummary(record: ApiToken): ApiTokenSummary {
+    const { token_hash: _, ...summary } = record;
+    return summary;
+  }
+
+  /**
+   * Cria um token. O valor em texto só é retornado aqui e não pode ser recuperado depois.
+   */
+  static async create(userId: number, input: CreateApiTokenInput): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const expiresAt = input.expiresInDays
+      ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const [record] = await db.insert(apiTokens)
+      .values({
+        user_id: userId,
+        name: input.name,
+        token_hash: this.hashToken(token),
+        token_prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+        scopes: Array.from(new Set(input.scopes)),
+        expires_at: expiresAt
+      })
+      .returning();
+
+    return { token, apiToken: this.toSummary(record) };
+  }
+
+  /**
+   * Tokens não revogados do usuário (inclusive os expirados, para referência)
+   */
+  static async list(userId: number): Promise<ApiTokenSummary[]> {
+    const records = await db.select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.user_id, userId), isNull(apiTokens.revoked_at)))
+      .orderBy(desc(apiTokens.created_at));
+
+    return records.map(record => this.toSummary(record));
+  }
+
+  /**
+   * Revoga um token do usuário. Retorna false se o token não existir ou já estiver revogado.
+   */
+  static async revoke(userId: number, tokenId: number): Promise<boolean> {
+    const [revoked] = await db.update(apiTokens)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.user_id, userId), isNull(apiTokens.revoked_at)))
+      .returning({ id: apiTokens.id });
+
+    return !!revoked;
+  }
+
+  /**
+   * Valida o token recebido no cabeçalho Authorization e retorna o token e seu usuário
+   */
+  static async authenticate(token: string, ipAddress?: string): Promise<{ apiToken: ApiToken; user: User } | null> {
+    const [row] = await db.select({ apiToken: apiTokens, user: users })
+      .from(apiTokens)
+      .innerJoin(users, eq(apiTokens.user_id, users.id))
+      .where(eq(apiTokens.token_hash, this.hashToken(token)));
+
+    if (!row || row.apiToken.revoked_at || !row.user.is_active) {
+      return null;
+    }
+
+    const now = new Date();
+    if (row.apiToken.expires_at && row.apiToken.expires_at <= now) {
+      return null;
+    }
+
+    const lastUsed = row.apiToken.last_used_at?.getTime() ?? 0;
+    if (now.getTime() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+      await db.update(apiTokens)
+        .set({ last_used_at: now, last_used_ip: ipAddress ?? null })
+        .where(eq(apiTokens.id, row.apiToken.id));
+    }
+
+    return row;
+  }
+
+  /**
+   * Recurso da API correspondente ao caminho, ou null quando a rota não é liberada para tokens
+   */
+  static resolveResource(path: string): ApiTokenResource | null {
+    if (BLOCKED_ROUTES.some(pattern => pattern.test(path))) {
+      return null;
+    }
+
+    const match = RESOURCE_ROUTES.find(([prefix]) => path === prefix || path.startsWith(`${prefix}/`));
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Leitura para GET/HEAD/OPTIONS; escrita para os demais métodos
+   */
+  static accessForMethod(method: string): ApiTokenAccess {
+    return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'write';
+  }
+
+  static hasScope(scopes: string[], resource: ApiTokenResource, access: ApiTokenAccess): boolean {
+    return scopes.includes(`${resource}:${access}`) || (access === 'read' && scopes.includes(`${resource}:write`));
+  }
+}
@@ -0,0 +1,490 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import { differenceInCalendarDays, format } from "date-fns";
+import { db, type DbTransaction } from "../db";
+import {
+  bankStatementImports,
+  bankStatementTransactions,
+  clients,
+  expenses,
+  financialDocuments,
+  outstandingBalance,
+  type BankStatementImport,
+  type BankStatementTransaction,
+  type Expense
+} from "@shared/schema";
+import {
+  RECONCILIATION_DATE_WINDOW_DAYS,
+  type BankStatementFormat,
+  type BankStatementImportDetail,
+  type BankStatementImportSummary,
+  type ConfirmReconciliationInput,
+  type ConfirmReconciliationResult,
+  type ReconciliationCandidate,
+  type ReconciliationMatchReason,
+  type ReconciliationTransaction
+} from "@shared/bank-reconciliation";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import type { ParsedBankStatement } from "./bank-statement-parser";
+import { FinancialAuditService } from "./financial-audit";
+import { ActivityLogService } from "./activity-log";
+import { RealtimeService } from "./realtime";
+import { removeExpenseEvents, removeFinancialDocumentEvents } from "../utils/calendarSync";
+
+// Candidatos exibidos por transação na tela de revisão
+const MAX_CANDIDATES = 5;
+
+interface OpenInvoice {
+  id: number;
+  document_number: string | null;
+  description: string | null;
+  amount: number;
+  amount_paid: number | null;
+  paid: boolean | null;
+  due_date: Date | null;
+  client_name: string | null;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01;
+}
+
+// Números de documento comparados sem pontuação, espaços e zeros à esquerda
+function normalizeNumber(value: string | null | undefined): string {
+  return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^0+/, '');
+}
+
+// Datas mais próximas valem até 30 pontos dentro da janela de conciliação
+function dateScore(days: number | null): number {
+  if (days === null || days > RECONCILIATION_DATE_WINDOW_DAYS) return 0;
+  return Math.round(30 * (1 - days / (RECONCILIATION_DATE_WINDOW_DAYS + 1)));
+}
+
+function toDateString(date: Date | null): string | null {
+  return date ? format(date, 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Serviço de Conciliação Bancária
+ *
+ * Importa extratos OFX e retornos CNAB, sugere a fatura em aberto (créditos) ou a
+ * despesa não paga (débitos) de cada transação pelo valor, pela proximidade de datas
+ * e pelo número do documento, e registra as conciliações confirmadas. Pagamentos de
+ * faturas passam pelo FinancialAuditService, mantendo o histórico de pagamentos e a
+ * trilha de auditoria; despesas pagas ficam no registro de atividades.
+ */
+export class BankReconciliationService {
+  /**
+   * Grava o arquivo lido pelo BankStatementParser. Transações já importadas em outro
+   * arquivo são descartadas pela impressão digital.
+   */
+  static async importStatement(statement: ParsedBankStatement, fileName: string, userId: number): Promise<BankStatementImportDetail> {
+    const { importId, inserted } = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(bankStatementImports).values({
+        file_name: fileName,
+        format: statement.format,
+        bank_code: statement.bankCode,
+        account: statement.account,
+        period_start: statement.periodStart,
+        period_end: statement.periodEnd,
+        imported_by: userId
+      }).returning();
+
+      const rows = await tx.insert(bankStatementTransactions)
+        .values(statement.transactions.map(transaction => ({
+          import_id: created.id,
+          external_id: transaction.externalId,
+          fingerprint: crypto.createHash('sha256').update([
+            statement.format,
+            statement.bankCode,
+            statement.account,
+            transaction.externalId,
+            transaction.date.toISOString(),
+            transaction.amount.toFixed(2)
+          ].join('|')).digest('hex'),
+          transaction_date: transaction.date,
+          amount: transaction.amount,
+          description: transaction.description,
+          document_number: transaction.documentNumber,
+          payment_method: transaction.method
+        })))
+        .onConflictDoNothing({ target: bankStatementTransactions.fingerprint })
+        .returning({ id: bankStatementTransactions.id });
+
+      return { importId: created.id, inserted: rows.length };
+    });
+
+    console.log(`[Conciliação] Arquivo ${fileName} (${statement.format}) importado: ${inserted} transação(ões), ${statement.transactions.length - inserted} já importada(s)`);
+
+    const detail = await this.getImport(importId);
+    return { ...detail!, duplicates_skipped: statement.transactions.length - inserted };
+  }
+
+  static async listImports(limit: number = 20): Promise<BankStatementImportSummary[]> {
+    const imports = await db.select()
+      .from(bankStatementImports)
+      .orderBy(desc(bankStatementImports.imported_at))
+      .limit(limit);
+    if (imports.length === 0) return [];
+
+    const counts = await db.select({
+      importId: bankStatementTransactions.import_id,
+      status: bankStatementTransactions.status,
+      count: sql<number>`count(*)`.mapWith(Number)
+    })
+      .from(bankStatementTransactions)
+      .where(inArray(bankStatementTransactions.import_id, imports.map(item => item.id)))
+      .groupBy(bankStatementTransactions.import_id, bankStatementTransactions.status);
+
+    return imports.map(item => this.summarize(item, counts.filter(row => row.importId === item.id)));
+  }
+
+  /**
+   * Importação com as transações e, para as pendentes, os candidatos à conciliação
+   */
+  static async getImport(importId: number): Promise<BankStatementImportDetail | null> {
+    const [statementImport] = await db.select().from(bankStatementImports).where(eq(bankStatementImports.id, importId));
+    if (!statementImport) return null;
+
+    const transactions = await db.select()
+      .from(bankStatementTransactions)
+      .where(eq(bankStatementTransactions.import_id, importId))
+      .orderBy(bankStatementTransactions.transaction_date, bankStatementTransactions.id);
+
+    const pending = transactions.filter(transaction => transaction.status === 'pending');
+    const candidates = await this.findCandidates(pending);
+    const suggestions = this.assignSuggestions(pending, candidates);
+
+    const counts = ['pending', 'matched', 'ignored'].map(status => ({
+      status,
+      count: transactions.filter(transaction => transaction.status === status).length
+    }));
+
+    return {
+      ...this.summarize(statementImport, counts),
+      transactions: transactions.map((transaction): ReconciliationTransaction => ({
+        id: transaction.id,
+        external_id: transaction.external_id,
+        transaction_date: toDateString(transaction.transaction_date)!,
+        amount: transaction.amount,
+        description: transaction.description,
+        document_number: transaction.document_number,
+        status: transaction.status as ReconciliationTransaction['status'],
+        matched_document_id: transaction.matched_document_id,
+        matched_expense_id: transaction.matched_expense_id,
+        candidates: candidates.get(transaction.id) ?? [],
+        suggestion: suggestions.get(transaction.id) ?? null
+      }))
+    };
+  }
+
+  /**
+   * Confirma as conciliações escolhidas na revisão. Cada conciliação é independente:
+   * as que falham são devolvidas com o motivo e as demais seguem registradas.
+   */
+  static async confirm(req: Request, importId: number, matches: ConfirmReconciliationInput['matches']): Promise<ConfirmReconciliationResult | null> {
+    const [statementImport] = await db.select().from(bankStatementImports).where(eq(bankStatementImports.id, importId));
+    if (!statementImport) return null;
+
+    const result: ConfirmReconciliationResult = { confirmed: 0, errors: [] };
+
+    for (const match of matches) {
+      try {
+        if (match.document_id) {
+          await this.confirmDocument(req, statementImport, match.transaction_id, match.document_id);
+        } else {
+          await this.confirmExpense(req, importId, match.transaction_id, match.expense_id!);
+        }
+        result.confirmed++;
+      } catch (error) {
+        result.errors.push({
+          transaction_id: match.transaction_id,
+          message: error instanceof Error ? error.message : 'Falha ao conciliar transação'
+        });
+      }
+    }
+
+    console.log(`[Conciliação] Importação ID:${importId}: ${result.confirmed} conciliação(ões) confirmada(s), ${result.errors.length} com erro`);
+    return result;
+  }
+
+  /**
+   * Marca a transação como ignorada (tarifas, transferências internas...) ou a devolve
+   * para a revisão
+   */
+  static async setIgnored(transactionId: number, ignored: boolean, userId: number): Promise<BankStatementTransaction | null> {
+    const [updated] = await db.update(bankStatementTransactions)
+      .set(ignored
+        ? { status: 'ignored', matched_by: userId, matched_at: new Date() }
+        : { status: 'pending', matched_by: null, matched_at: null })
+      .where(and(
+        eq(bankStatementTransactions.id, transactionId),
+        eq(bankStatementTransactions.status, ignored ? 'pending' : 'ignored')
+      ))
+      .returning();
+    return updated ?? null;
+  }
+
+  /**
+   * Bloqueia a transação do extrato até o fim da conciliação: um segundo envio da mesma
+   * conciliação espera e encontra a transação já conciliada
+   */
+  private static async lockPendingTransaction(tx: DbTransaction, importId: number, transactionId: number): Promise<BankStatementTransaction> {
+    const [transaction] = await tx.select()
+      .from(bankStatementTransactions)
+      .where(and(eq(bankStatementTransactions.id, transactionId), eq(bankStatementTransactions.import_id, importId)))
+      .for('update');
+
+    if (!transaction) throw new Error('Transação não encontrada nesta importação');
+    if (transaction.status !== 'pending') throw new Error('Transação já conciliada ou ignorada');
+    return transaction;
+  }
+
+  // Marca a transação como conciliada somente se ainda estiver pendente
+  private static async markMatched(
+    tx: DbTransaction,
+    transactionId: number,
+    match: Pick<BankStatementTransaction, 'matched_document_id' | 'matched_payment_id' | 'matched_expense_id' | 'matched_by'>
+  ) {
+    const [updated] = await tx.update(bankStatementTransactions)
+      .set({ ...match, status: 'matched', matched_at: new Date() })
+      .where(and(eq(bankStatementTransactions.id, transactionId), eq(bankStatementTransactions.status, 'pending')))
+      .returning({ id: bankStatementTransactions.id });
+
+    if (!updated) throw new Error('Transação já conciliada ou ignorada');
+  }
+
+  private static async confirmDocument(
+    req: Request,
+    statementImport: BankStatementImport,
+    transactionId: number,
+    documentId: number
+  ) {
+    // Pagamento e conciliação na mesma transação: se qualquer passo falhar, nada é gravado
+    const updatedDocument = await db.transaction(async (tx) => {
+      const transaction = await this.lockPendingTransaction(tx, statementImport.id, transactionId);
+      if (transaction.amount <= 0) throw new Error('Apenas créditos podem ser conciliados com faturas');
+
+      const [document] = await tx.select()
+        .from(financialDocuments)
+        .where(eq(financialDocuments.id, documentId))
+        .for('update');
+      if (!document) throw new Error('Documento financeiro não encontrado');
+      if (document.status === 'cancelled') throw new Error('Documento financeiro cancelado');
+
+      const balance = outstandingBalance(document);
+      if (balance <= 0) throw new Error('Documento financeiro já está pago');
+
+      // Valores recebidos acima do saldo (juros e multa do boleto) quitam o documento
+      const amount = Math.min(transaction.amount, balance);
+      const notes = `Conciliação bancária: ${statementImport.file_name}${transaction.description ? ` - ${transaction.description}` : ''}` +
+        (transaction.amount > balance ? ` (valor recebido ${transaction.amount.toFixed(2)}, inclui encargos)` : '');
+
+      const { document: paidDocument, payment } = await FinancialAuditService.registerPayment(
+        documentId,
+        req.user!.id,
+        {
+          amount,
+          payment_date: transaction.transaction_date,
+          method: transaction.payment_method,
+          reference: transaction.external_id,
+          notes
+        },
+        {
+          ip: req.ip,
+          userAgent: req.get('User-Agent')
+        },
+        tx
+      );
+
+      await this.markMatched(tx, transaction.id, {
+        matched_document_id: documentId,
+        matched_payment_id: payment.id,
+        matched_expense_id: null,
+        matched_by: req.user!.id
+      });
+
+      return paidDocument;
+    });
+
+    if (updatedDocument.paid) {
+      await removeFinancialDocumentEvents(documentId);
+    }
+
+    RealtimeService.entityChanged('financial_document', documentId, 'updated', req.user!.id, {
+      projectId: updatedDocument.project_id,
+      clientId: updatedDocument.client_id
+    });
+  }
+
+  private static async confirmExpense(req: Request, importId: number, transactionId: number, expenseId: number) {
+    const { expense, updatedExpense } = await db.transaction(async (tx) => {
+      const transaction = await this.lockPendingTransaction(tx, importId, transactionId);
+      if (transaction.amount >= 0) throw new Error('Apenas débitos podem ser conciliados com despesas');
+
+      const [expense] = await tx.select().from(expenses).where(eq(expenses.id, expenseId)).for('update');
+      if (!expense) throw new Error('Despesa não encontrada');
+      if (expense.paid) throw new Error('Despesa já está paga');
+
+      const [updatedExpense] = await tx.update(expenses)
+        .set({ paid: true })
+        .where(eq(expenses.id, expenseId))
+        .returning();
+
+      await this.markMatched(tx, transaction.id, {
+        matched_document_id: null,
+        matched_payment_id: null,
+        matched_expense_id: expenseId,
+        matched_by: req.user!.id
+      });
+
+      return { expense, updatedExpense };
+    });
+
+    await removeExpenseEvents(expenseId);
+    await ActivityLogService.record(req, 'expense', 'updated', { before: expense, after: updatedExpense });
+    RealtimeService.entityChanged('expense', expenseId, 'updated', req.user!.id, { projectId: expense.project_id });
+  }
+
+  /**
+   * Candidatos de cada transação pendente, do mais provável para o menos provável
+   */
+  private static async findCandidates(transactions: BankStatementTransaction[]): Promise<Map<number, ReconciliationCandidate[]>> {
+    const result = new Map<number, ReconciliationCandidate[]>();
+    if (transactions.length === 0) return result;
+
+    const hasCredits = transactions.some(transaction => transaction.amount > 0);
+    const hasDebits = transactions.some(transaction => transaction.amount < 0);
+
+    const [invoices, openExpenses] = await Promise.all([
+      hasCredits
+        ? db.select({
+          id: financialDocuments.id,
+          document_number: financialDocuments.document_number,
+          description: financialDocuments.description,
+          amount: financialDocuments.amount,
+          amount_paid: financialDocuments.amount_paid,
+          paid: financialDocuments.paid,
+          due_date: financialDocuments.due_date,
+          client_name: clients.name
+        })
+          .from(financialDocuments)
+          .leftJoin(clients, eq(financialDocuments.client_id, clients.id))
+          .where(and(
+            eq(financialDocuments.document_type, 'invoice'),
+            sql`not coalesce(${financialDocuments.paid}, false)`,
+            sql`coalesce(${financialDocuments.status}, 'pending') <> 'cancelled'`
+          ))
+        : Promise.resolve([] as OpenInvoice[]),
+      hasDebits
+        ? db.select().from(expenses).where(sql`not coalesce(${expenses.paid}, false)`)
+        : Promise.resolve([] as Expense[])
+    ]);
+
+    for (const transaction of transactions) {
+      const candidates = transaction.amount > 0
+        ? invoices.map(invoice => this.scoreInvoice(transaction, invoice))
+        : openExpenses.map(expense => this.scoreExpense(transaction, expense));
+
+      result.set(transaction.id, candidates
+        .filter((candidate): candidate is ReconciliationCandidate => candidate !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CANDIDATES));
+    }
+
+    return result;
+  }
+
+  // Valor igual ao saldo em aberto: 50 pontos; número do documento: 40; data: até 30
+  private static scoreInvoice(transaction: BankStatementTransaction, invoice: OpenInvoice): ReconciliationCandidate | null {
+    const balance = outstandingBalance(invoice);
+    if (balance <= 0) return null;
+
+    const reasons: ReconciliationMatchReason[] = [];
+    const amountMatch = sameAmount(transaction.amount, balance);
+    if (amountMatch) reasons.push('amount');
+
+    const number = normalizeNumber(invoice.document_number);
+    const numberMatch = number.length >= 3 && (
+      normalizeNumber(transaction.document_number) === number ||
+      normalizeNumber(transaction.description).includes(number)
+    );
+    if (numberMatch) reasons.push('document_number');
+
+    // Pagamento parcial só é sugerido quando o número do documento confere
+    if (!amountMatch && !(numberMatch && transaction.amount < balance)) return null;
+
+    const days = invoice.due_date ? Math.abs(differenceInCalendarDays(transaction.transaction_date, invoice.due_date)) : null;
+    const datePoints = dateScore(days);
+    if (datePoints > 0) reasons.push('date');
+
+    return {
+      kind: 'document',
+      id: invoice.id,
+      label: [invoice.document_number || `Fatura #${invoice.id}`, invoice.client_name, invoice.description].filter(Boolean).join(' · '),
+      amount: balance,
+      date: toDateString(invoice.due_date),
+      score: Math.min(100, (amountMatch ? 50 : 0) + (numberMatch ? 40 : 0) + datePoints),
+      reasons
+    };
+  }
+
+  private static scoreExpense(transaction: BankStatementTransaction, expense: Expense): ReconciliationCandidate | null {
+    if (!sameAmount(Math.abs(transaction.amount), expense.amount)) return null;
+
+    const days = Math.abs(differenceInCalendarDays(transaction.transaction_date, expense.date));
+    const datePoints = dateScore(days);
+
+    return {
+      kind: 'expense',
+      id: expense.id,
+      label: [expense.category, expense.description].filter(Boolean).join(' · '),
+      amount: expense.amount,
+      date: toDateString(expense.date),
+      score: 50 + datePoints,
+      reasons: datePoints > 0 ? ['amount', 'date'] : ['amount']
+    };
+  }
+
+  // Sugestões sem repetir fatura/despesa: as combinações de maior pontuação escolhem primeiro
+  private static assignSuggestions(
+    transactions: BankStatementTransaction[],
+    candidates: Map<number, ReconciliationCandidate[]>
+  ): Map<number, ReconciliationCandidate> {
+    const pairs = transactions.flatMap(transaction =>
+      (candidates.get(transaction.id) ?? []).map(candidate => ({ transactionId: transaction.id, candidate }))
+    ).sort((a, b) => b.candidate.score - a.candidate.score);
+
+    const suggestions = new Map<number, ReconciliationCandidate>();
+    const used = new Set<string>();
+    for (const { transactionId, candidate } of pairs) {
+      const key = `${candidate.kind}:${candidate.id}`;
+      if (suggestions.has(transactionId) || used.has(key)) continue;
+      suggestions.set(transactionId, candidate);
+      used.add(key);
+    }
+    return suggestions;
+  }
+
+  private static summarize(
+    statementImport: BankStatementImport,
+    counts: { status: string; count: number }[]
+  ): BankStatementImportSummary {
+    const countOf = (status: string) => counts.filter(row => row.status === status).reduce((total, row) => total + row.count, 0);
+    return {
+      id: statementImport.id,
+      file_name: statementImport.file_name,
+      format: statementImport.format as BankStatementFormat,
+      bank_code: statementImport.bank_code,
+      account: statementImport.account,
+      period_start: toDateString(statementImport.period_start),
+      period_end: toDateString(statementImport.period_end),
+      imported_by: statementImport.imported_by,
+      imported_at: (statementImport.imported_at ?? new Date()).toISOString(),
+      transaction_count: counts.reduce((total, row) => total + row.count, 0),
+      pending_count: countOf('pending'),
+      matched_count: countOf('matched'),
+      ignored_count: countOf('ignored')
+    };
+  }
+}
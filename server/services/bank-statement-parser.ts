@@ -0,0 +1,230 @@
+import type { BankStatementFormat } from "@shared/bank-reconciliation";
+import type { FinancialPaymentMethod } from "@shared/schema";
+
+export interface ParsedBankTransaction {
+  externalId: string;
+  date: Date;
+  amount: number; // Créditos positivos, débitos negativos
+  description: string | null;
+  documentNumber: string | null;
+  method: FinancialPaymentMethod | null;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  bankCode: string | null;
+  account: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  transactions: ParsedBankTransaction[];
+}
+
+// Códigos de ocorrência de liquidação nos retornos de cobrança (demais ocorrências,
+// como entrada confirmada ou baixa, não movimentam dinheiro e são ignoradas)
+const CNAB240_SETTLEMENT_CODES = ['06', '17'];
+const CNAB400_SETTLEMENT_CODES = ['06', '07', '08', '10', '15', '17'];
+
+// Datas padronizadas ao meio-dia UTC, como os demais documentos financeiros
+function utcNoon(year: number, month: number, day: number): Date | null {
+  if (!year || !month || !day || month > 12 || day > 31) return null;
+  return new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+}
+
+function parseCnabDate(value: string): Date | null {
+  const digits = value.trim();
+  if (!/^\d+$/.test(digits) || /^0+$/.test(digits)) return null;
+  if (digits.length === 8) {
+    return utcNoon(parseInt(digits.slice(4, 8)), parseInt(digits.slice(2, 4)), parseInt(digits.slice(0, 2)));
+  }
+  if (digits.length === 6) {
+    return utcNoon(2000 + parseInt(digits.slice(4, 6)), parseInt(digits.slice(2, 4)), parseInt(digits.slice(0, 2)));
+  }
+  return null;
+}
+
+function parseCnabAmount(value: string): number {
+  const digits = value.trim();
+  return /^\d+$/.test(digits) ? parseInt(digits, 10) / 100 : 0;
+}
+
+// Campo de posição fixa, com posições de 1 a N como nos manuais dos bancos
+function field(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end).trim();
+}
+
+function periodOf(transactions: ParsedBankTransaction[]): { periodStart: Date | null; periodEnd: Date | null } {
+  if (transactions.length === 0) return { periodStart: null, periodEnd: null };
+  const times = transactions.map(transaction => transaction.date.getTime());
+  return { periodStart: new Date(Math.min(...times)), periodEnd: new Date(Math.max(...times)) };
+}
+
+/**
+ * Leitor de extratos OFX e arquivos de retorno de cobrança CNAB 240/400
+ *
+ * O formato é identificado pelo conteúdo: OFX pelo cabeçalho e CNAB pelo tamanho das
+ * linhas. Do CNAB são lidas apenas as liquidações de títulos (créditos na conta).
+ */
+export class BankStatementParser {
+  /**
+   * Converte o arquivo em texto. Extratos OFX de bancos brasileiros costumam vir em
+   * Windows-1252 (CHARSET:1252) e arquivos CNAB em ASCII/Latin-1.
+   */
+  static decode(buffer: Buffer): string {
+    const utf8 = buffer.toString('utf8');
+    return utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+  }
+
+  static detectFormat(content: string): BankStatementFormat | null {
+    if (/OFXHEADER|<OFX>/i.test(content)) return 'ofx';
+
+    // Linhas de tamanho fixo; alguns sistemas removem os espaços finais
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) return null;
+    const length = lines[0].length;
+    if (length >= 400) return 'cnab400';
+    if (length >= 240) return 'cnab240';
+    return null;
+  }
+
+  static parse(content: string): ParsedBankStatement {
+    const format = this.detectFormat(content);
+    switch (format) {
+      case 'ofx':
+        return this.parseOfx(content);
+      case 'cnab240':
+        return this.parseCnab240(content);
+      case 'cnab400':
+        return this.parseCnab400(content);
+      default:
+        throw new Error('Formato de arquivo não reconhecido. Envie um extrato OFX ou um retorno CNAB 240/400.');
+    }
+  }
+
+  /**
+   * OFX 1.x (SGML, sem fechamento das tags de valor) e 2.x (XML)
+   */
+  static parseOfx(content: string): ParsedBankStatement {
+    const tag = (block: string, name: string): string | null => {
+      const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block);
+      return match ? match[1].trim() || null : null;
+    };
+
+    const blocks = Array.from(content.matchAll(/<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi)).map(match => match[1]);
+
+    const transactions: ParsedBankTransaction[] = [];
+    blocks.forEach((block, index) => {
+      const posted = tag(block, 'DTPOSTED') || '';
+      const date = utcNoon(parseInt(posted.slice(0, 4)), parseInt(posted.slice(4, 6)), parseInt(posted.slice(6, 8)));
+      const amount = parseFloat((tag(block, 'TRNAMT') || '').replace(',', '.'));
+      if (!date || isNaN(amount) || amount === 0) return;
+
+      const memo = tag(block, 'MEMO');
+      const name = tag(block, 'NAME');
+      const description = [name, memo].filter(Boolean).join(' - ') || null;
+
+      transactions.push({
+        externalId: tag(block, 'FITID') || `${posted.slice(0, 8)}-${amount.toFixed(2)}-${index + 1}`,
+        date,
+        amount: Math.round(amount * 100) / 100,
+        description,
+        documentNumber: tag(block, 'CHECKNUM') || tag(block, 'REFNUM'),
+        method: /\bPIX\b/i.test(description || '') ? 'pix' : /BOLETO|COBRAN|LIQUIDA/i.test(description || '') ? 'boleto' : 'transferencia'
+      });
+    });
+
+    const start = tag(content, 'DTSTART');
+    const end = tag(content, 'DTEND');
+    const period = periodOf(transactions);
+
+    return {
+      format: 'ofx',
+      bankCode: tag(content, 'BANKID'),
+      account: tag(content, 'ACCTID'),
+      periodStart: start ? utcNoon(parseInt(start.slice(0, 4)), parseInt(start.slice(4, 6)), parseInt(start.slice(6, 8))) : period.periodStart,
+      periodEnd: end ? utcNoon(parseInt(end.slice(0, 4)), parseInt(end.slice(4, 6)), parseInt(end.slice(6, 8))) : period.periodEnd,
+      transactions
+    };
+  }
+
+  /**
+   * Retorno de cobrança CNAB 240 (FEBRABAN): segmento T (título) seguido do
+   * segmento U (valores pagos e datas de ocorrência/crédito)
+   */
+  static parseCnab240(content: string): ParsedBankStatement {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = lines[0] || '';
+    const transactions: ParsedBankTransaction[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (field(line, 8, 8) !== '3' || field(line, 14, 14) !== 'T') continue;
+
+      const segmentU = lines[i + 1] && field(lines[i + 1], 14, 14) === 'U' ? lines[i + 1] : null;
+      const movement = field(line, 16, 17);
+      if (!segmentU || !CNAB240_SETTLEMENT_CODES.includes(movement)) continue;
+
+      const ourNumber = field(line, 38, 57);
+      const yourNumber = field(line, 59, 73);
+      const paid = parseCnabAmount(field(segmentU, 78, 92)) || parseCnabAmount(field(line, 82, 96));
+      const date = parseCnabDate(field(segmentU, 146, 153)) || parseCnabDate(field(segmentU, 138, 145));
+      if (!date || paid <= 0) continue;
+
+      transactions.push({
+        externalId: ourNumber || yourNumber || field(line, 9, 13),
+        date,
+        amount: paid,
+        description: `Liquidação de título${yourNumber ? ` ${yourNumber}` : ''}${field(line, 149, 188) ? ` - ${field(line, 149, 188)}` : ''}`,
+        documentNumber: yourNumber || null,
+        method: 'boleto'
+      });
+      i++;
+    }
+
+    return {
+      format: 'cnab240',
+      bankCode: field(header, 1, 3) || null,
+      account: [field(header, 53, 57), field(header, 59, 70)].filter(Boolean).join('/') || null,
+      ...periodOf(transactions),
+      transactions
+    };
+  }
+
+  /**
+   * Retorno de cobrança CNAB 400, nas posições comuns aos layouts de Bradesco e Itaú
+   */
+  static parseCnab400(content: string): ParsedBankStatement {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = lines[0] || '';
+    const transactions: ParsedBankTransaction[] = [];
+
+    for (const line of lines) {
+      if (field(line, 1, 1) !== '1') continue;
+
+      const occurrence = field(line, 109, 110);
+      if (!CNAB400_SETTLEMENT_CODES.includes(occurrence)) continue;
+
+      const yourNumber = field(line, 117, 126);
+      const ourNumber = field(line, 63, 82).replace(/^0+/, '');
+      const paid = parseCnabAmount(field(line, 254, 266)) || parseCnabAmount(field(line, 153, 165));
+      const date = parseCnabDate(field(line, 296, 301)) || parseCnabDate(field(line, 111, 116));
+      if (!date || paid <= 0) continue;
+
+      transactions.push({
+        externalId: `${ourNumber || yourNumber}-${field(line, 395, 400)}`,
+        date,
+        amount: paid,
+        description: `Liquidação de título${yourNumber ? ` ${yourNumber}` : ''}`,
+        documentNumber: yourNumber || null,
+        method: 'boleto'
+      });
+    }
+
+    return {
+      format: 'cnab400',
+      bankCode: field(header, 77, 79) || null,
+      account: field(header, 27, 46) || null,
+      ...periodOf(transactions),
+      transactions
+    };
+  }
+}
@@ -0,0 +1,341 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import { getProjectAccess, getProjectScope } from "../auth";
+import { NotificationService } from "./notifications";
+import { RealtimeService } from "./realtime";
+import {
+  chatChannels,
+  chatChannelMembers,
+  chatMessages,
+  projectMembers,
+  users,
+  type ChatChannel,
+  type ChatChannelSummary,
+  type ChatMessageWithUser
+} from "@shared/schema";
+import { and, count, desc, eq, gt, inArray, isNull, lt, ne, or, sql } from "drizzle-orm";
+
+type ChatUser = { id: number; role: string; permissions?: string[] };
+type ChatPeer = NonNullable<ChatChannelSummary['peer']>;
+
+// Menção a um usuário pelo username: @joao.silva
+const MENTION_PATTERN = /(^|[^\w@])@([\w.-]+)/g;
+
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+const authorColumns = {
+  id: users.id,
+  name: users.name,
+  username: users.username,
+  avatar: users.avatar
+};
+
+function directKey(userId: number, peerId: number): string {
+  return [userId, peerId].sort((a, b) => a - b).join(':');
+}
+
+/**
+ * Serviço de Chat
+ *
+ * Persiste as conversas da equipe em canais: o canal geral, um canal por projeto
+ * (restrito a quem tem acesso ao projeto) e conversas diretas entre dois usuários.
+ * Cada usuário guarda a última mensagem lida por canal, de onde saem as contagens
+ * de não lidas. As mensagens novas são entregues na sala `chat:<id>` e as menções
+ * com @username viram notificações para os mencionados.
+ */
+export class ChatService {
+
+  static async getChannel(channelId: number): Promise<ChatChannel | undefined> {
+    const [channel] = await db.select().from(chatChannels).where(eq(chatChannels.id, channelId));
+    return channel;
+  }
+
+  /**
+   * Canal geral (criado pela migração; recriado aqui se tiver sido removido)
+   */
+  static async getGeneralChannel(): Promise<ChatChannel> {
+    const [existing] = await db.select().from(chatChannels).where(eq(chatChannels.type, 'general')).limit(1);
+    if (existing) return existing;
+
+    const [created] = await db.insert(chatChannels).values({ type: 'general', name: 'Geral' }).returning();
+    return created;
+  }
+
+  /**
+   * Canal do projeto, criado na primeira vez em que alguém o abre
+   */
+  static async getProjectChannel(projectId: number, createdBy: number): Promise<ChatChannel | undefined> {
+    const [existing] = await db.select().from(chatChannels).where(eq(chatChannels.project_id, projectId));
+    if (existing) return existing;
+
+    const project = await storage.getProject(projectId);
+    if (!project) return undefined;
+
+    await db.insert(chatChannels)
+      .values({ type: 'project', name: project.name, project_id: projectId, created_by: createdBy })
+      .onConflictDoNothing();
+
+    const [channel] = await db.select().from(chatChannels).where(eq(chatChannels.project_id, projectId));
+    return channel;
+  }
+
+  /**
+   * Conversa direta entre dois usuários; reaproveita a existente
+   */
+  static async getDirectChannel(userId: number, peerId: number): Promise<ChatChannel> {
+    const key = directKey(userId, peerId);
+
+    await db.insert(chatChannels)
+      .values({ type: 'direct', direct_key: key, created_by: userId })
+      .onConflictDoNothing();
+
+    const [channel] = await db.select().from(chatChannels).where(eq(chatChannels.direct_key, key));
+
+    await db.insert(chatChannelMembers)
+      .values([userId, peerId].map(id => ({ channel_id: channel.id, user_id: id })))
+      .onConflictDoNothing();
+
+    return channel;
+  }
+
+  /**
+   * Usuários ativos que podem receber mensagens diretas e menções
+   */
+  static async listUsers(): Promise<ChatPeer[]> {
+    return db.select(authorColumns)
+      .from(users)
+      .where(eq(users.is_active, true))
+      .orderBy(users.name);
+  }
+
+  /**
+   * Mesmas regras do restante da aplicação: o canal do projeto segue o acesso ao projeto
+   * e a conversa direta fica restrita aos dois participantes
+   */
+  static async canAccess(user: ChatUser, channel: ChatChannel): Promise<boolean> {
+    switch (channel.type) {
+      case 'general':
+        return true;
+      case 'project':
+        return !!channel.project_id && !!(await getProjectAccess(user, channel.project_id));
+      case 'direct': {
+        const [member] = await db.select({ id: chatChannelMembers.id })
+          .from(chatChannelMembers)
+          .where(and(eq(chatChannelMembers.channel_id, channel.id), eq(chatChannelMembers.user_id, user.id)));
+        return !!member;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Canais visíveis para o usuário, com não lidas e a última mensagem de cada um
+   */
+  static async listChannels(user: ChatUser): Promise<ChatChannelSummary[]> {
+    const general = await this.getGeneralChannel();
+
+    const scope = await getProjectScope(user);
+    const projectChannels = await db.select().from(chatChannels).where(
+      scope
+        ? and(
+            eq(chatChannels.type, 'project'),
+            inArray(
+              chatChannels.project_id,
+              db.select({ id: projectMembers.project_id }).from(projectMembers).where(eq(projectMembers.user_id, user.id))
+            )
+          )
+        : eq(chatChannels.type, 'project')
+    );
+
+    const directChannels = await db.select({ channel: chatChannels })
+      .from(chatChannelMembers)
+      .innerJoin(chatChannels, eq(chatChannelMembers.channel_id, chatChannels.id))
+      .where(and(eq(chatChannelMembers.user_id, user.id), eq(chatChannels.type, 'direct')));
+
+    const channels = [general, ...projectChannels, ...directChannels.map(row => row.channel)];
+    const channelIds = channels.map(channel => channel.id);
+
+    const [unreadCounts, lastMessages, peers] = await Promise.all([
+      this.getUnreadCounts(user.id, channelIds),
+      this.getLastMessages(channelIds),
+      this.getDirectPeers(user.id, directChannels.map(row => row.channel.id))
+    ]);
+
+    const summaries = channels.map(channel => {
+      const peer = peers.get(channel.id);
+      return {
+        ...channel,
+        displayName: peer?.name ?? channel.name ?? 'Canal',
+        unreadCount: unreadCounts.get(channel.id) ?? 0,
+        lastMessage: lastMessages.get(channel.id) ?? null,
+        ...(peer ? { peer } : {})
+      };
+    });
+
+    // Geral primeiro; depois os canais com atividade mais recente
+    const lastActivity = (summary: ChatChannelSummary) =>
+      summary.lastMessage?.created_at?.getTime() ?? summary.created_at?.getTime() ?? 0;
+
+    return [
+      summaries[0],
+      ...summaries.slice(1).sort((a, b) => lastActivity(b) - lastActivity(a))
+    ];
+  }
+
+  /**
+   * Mensagens não lidas por canal (as do próprio usuário não contam)
+   */
+  private static async getUnreadCounts(userId: number, channelIds: number[]): Promise<Map<number, number>> {
+    if (channelIds.length === 0) return new Map();
+
+    const rows = await db.select({ channelId: chatMessages.channel_id, value: count() })
+      .from(chatMessages)
+      .leftJoin(chatChannelMembers, and(
+        eq(chatChannelMembers.channel_id, chatMessages.channel_id),
+        eq(chatChannelMembers.user_id, userId)
+      ))
+      .where(and(
+        inArray(chatMessages.channel_id, channelIds),
+        or(isNull(chatMessages.user_id), ne(chatMessages.user_id, userId)),
+        or(
+          isNull(chatChannelMembers.last_read_message_id),
+          gt(chatMessages.id, chatChannelMembers.last_read_message_id)
+        )
+      ))
+      .groupBy(chatMessages.channel_id);
+
+    return new Map(rows.map(row => [row.channelId, Number(row.value)]));
+  }
+
+  private static async getLastMessages(channelIds: number[]): Promise<Map<number, ChatMessageWithUser>> {
+    if (channelIds.length === 0) return new Map();
+
+    const rows = await db.selectDistinctOn([chatMessages.channel_id], { message: chatMessages, user: authorColumns })
+      .from(chatMessages)
+      .leftJoin(users, eq(chatMessages.user_id, users.id))
+      .where(inArray(chatMessages.channel_id, channelIds))
+      .orderBy(chatMessages.channel_id, desc(chatMessages.id));
+
+    return new Map(rows.map(row => [row.message.channel_id, { ...row.message, user: row.user }]));
+  }
+
+  private static async getDirectPeers(userId: number, channelIds: number[]): Promise<Map<number, ChatPeer>> {
+    if (channelIds.length === 0) return new Map();
+
+    const rows = await db.select({ channelId: chatChannelMembers.channel_id, user: authorColumns })
+      .from(chatChannelMembers)
+      .innerJoin(users, eq(chatChannelMembers.user_id, users.id))
+      .where(and(inArray(chatChannelMembers.channel_id, channelIds), ne(chatChannelMembers.user_id, userId)));
+
+    return new Map(rows.map(row => [row.channelId, row.user]));
+  }
+
+  /**
+   * Histórico paginado do mais recente para o mais antigo: `before` é o ID da mensagem
+   * mais antiga já carregada. A página volta em ordem cronológica.
+   */
+  static async getMessages(channelId: number, options: { before?: number; limit: number }): Promise<{ messages: ChatMessageWithUser[]; hasMore: boolean }> {
+    const limit = Math.min(options.limit, MAX_HISTORY_PAGE_SIZE);
+
+    const rows = await db.select({ message: chatMessages, user: authorColumns })
+      .from(chatMessages)
+      .leftJoin(users, eq(chatMessages.user_id, users.id))
+      .where(and(
+        eq(chatMessages.channel_id, channelId),
+        options.before ? lt(chatMessages.id, options.before) : undefined
+      ))
+      .orderBy(desc(chatMessages.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const messages = rows.slice(0, limit)
+      .reverse()
+      .map(row => ({ ...row.message, user: row.user }));
+
+    return { messages, hasMore };
+  }
+
+  /**
+   * Grava a mensagem, entrega aos participantes em tempo real e notifica os mencionados
+   */
+  static async sendMessage(author: ChatUser, channel: ChatChannel, content: string): Promise<ChatMessageWithUser> {
+    const mentions = await this.resolveMentions(content, channel, author.id);
+
+    const [created] = await db.insert(chatMessages)
+      .values({ channel_id: channel.id, user_id: author.id, content, mentions })
+      .returning();
+
+    // O autor já leu a própria mensagem
+    await this.markRead(author.id, channel.id, created.id);
+
+    const [user] = await db.select(authorColumns).from(users).where(eq(users.id, author.id));
+    const message: ChatMessageWithUser = { ...created, user: user ?? null };
+
+    if (channel.type === 'general') {
+      RealtimeService.broadcast('chat_message', message);
+    } else {
+      // Nas conversas diretas o outro participante pode ainda não acompanhar o canal
+      const members = channel.type === 'direct' ? await this.getMemberIds(channel.id) : [];
+      RealtimeService.toChat(channel.id, members, 'chat_message', message);
+    }
+
+    if (mentions.length > 0) {
+      NotificationService.chatMentioned(message, channel, mentions)
+        .catch(error => console.error('[Chat] Erro ao notificar menções:', error));
+    }
+
+    return message;
+  }
+
+  /**
+   * Usuários ativos mencionados com @username que participam do canal
+   */
+  private static async resolveMentions(content: string, channel: ChatChannel, authorId: number): Promise<number[]> {
+    const usernames = Array.from(content.matchAll(MENTION_PATTERN), match => match[2].replace(/[.-]+$/, '').toLowerCase());
+    if (usernames.length === 0) return [];
+
+    const mentioned = await db.select({ id: users.id, role: users.role, permissions: users.permissions, is_active: users.is_active })
+      .from(users)
+      .where(inArray(sql`lower(${users.username})`, Array.from(new Set(usernames))));
+
+    const allowed = await Promise.all(mentioned.map(async user =>
+      user.id !== authorId
+        && user.is_active !== false
+        && await this.canAccess({ id: user.id, role: user.role, permissions: user.permissions ?? undefined }, channel)
+    ));
+
+    return mentioned.filter((_, index) => allowed[index]).map(user => user.id);
+  }
+
+  /**
+   * Avança a posição de leitura do usuário no canal (nunca retrocede).
+   * Sem messageId, marca como lida a última mensagem do canal.
+   */
+  static async markRead(userId: number, channelId: number, messageId?: number): Promise<void> {
+    let lastReadId = messageId;
+    if (!lastReadId) {
+      const [last] = await db.select({ id: chatMessages.id })
+        .from(chatMessages)
+        .where(eq(chatMessages.channel_id, channelId))
+        .orderBy(desc(chatMessages.id))
+        .limit(1);
+      if (!last) return;
+      lastReadId = last.id;
+    }
+
+    await db.insert(chatChannelMembers)
+      .values({ channel_id: channelId, user_id: userId, last_read_message_id: lastReadId })
+      .onConflictDoUpdate({
+        target: [chatChannelMembers.channel_id, chatChannelMembers.user_id],
+        set: { last_read_message_id: sql`GREATEST(COALESCE(${chatChannelMembers.last_read_message_id}, 0), ${lastReadId})` }
+      });
+  }
+
+  private static async getMemberIds(channelId: number): Promise<number[]> {
+    const rows = await db.select({ userId: chatChannelMembers.user_id })
+      .from(chatChannelMembers)
+      .where(eq(chatChannelMembers.channel_id, channelId));
+    return rows.map(row => row.userId);
+  }
+}
@@ -0,0 +1,84 @@
+import { db } from "../db";
+import {
+  clientAttachments,
+  projectAttachments,
+  taskAttachments,
+  type CommentAttachment,
+  type CommentEntityType,
+  type EntityComment
+} from "@shared/schema";
+import { and, eq, inArray, isNotNull, isNull } from "drizzle-orm";
+
+// Tabela de anexos de cada tipo de entidade e a coluna que aponta para a entidade.
+// Documentos financeiros não têm anexos avulsos (o arquivo é o próprio documento).
+const ATTACHMENT_TABLES = {
+  task: { table: taskAttachments, entityColumn: taskAttachments.task_id },
+  project: { table: projectAttachments, entityColumn: projectAttachments.project_id },
+  client: { table: clientAttachments, entityColumn: clientAttachments.client_id }
+};
+
+function attachmentTable(entityType: CommentEntityType) {
+  return entityType === 'financial_document' ? null : ATTACHMENT_TABLES[entityType];
+}
+
+/**
+ * Serviço de Anexos de Comentários
+ *
+ * Os arquivos passam pelo mesmo upload dos anexos de tarefas, projetos e clientes
+ * (/api/attachments) e depois são vinculados ao comentário pelo comment_id.
+ * Só é possível vincular arquivos que o próprio autor enviou para a mesma
+ * entidade e que ainda não pertencem a outro comentário.
+ */
+export class CommentAttachmentService {
+  /**
+   * Dos anexos pedidos, os que podem ser vinculados a um novo comentário da entidade
+   */
+  static async available(entityType: CommentEntityType, entityId: number, userId: number, attachmentIds: number[]): Promise<number[]> {
+    const source = attachmentTable(entityType);
+    if (!source || attachmentIds.length === 0) return [];
+
+    const { table, entityColumn } = source;
+    const rows = await db.select({ id: table.id })
+      .from(table)
+      .where(and(
+        inArray(table.id, attachmentIds),
+        eq(entityColumn, entityId),
+        eq(table.uploaded_by, userId),
+        isNull(table.comment_id)
+      ));
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Vincula os anexos ao comentário e retorna os que foram de fato vinculados
+   */
+  static async attach(comment: EntityComment, userId: number, attachmentIds: number[]): Promise<CommentAttachment[]> {
+    const source = attachmentTable(comment.entity_type);
+    if (!source || attachmentIds.length === 0) return [];
+
+    const { table, entityColumn } = source;
+    return db.update(table)
+      .set({ comment_id: comment.id })
+      .where(and(
+        inArray(table.id, attachmentIds),
+        eq(entityColumn, comment.entity_id),
+        eq(table.uploaded_by, userId),
+        isNull(table.comment_id)
+      ))
+      .returning();
+  }
+
+  /**
+   * Anexos dos comentários de uma entidade, para montar a lista de comentários
+   */
+  static async getCommentAttachments(entityType: CommentEntityType, entityId: number): Promise<CommentAttachment[]> {
+    const source = attachmentTable(entityType);
+    if (!source) return [];
+
+    const { table, entityColumn } = source;
+    return db.select()
+      .from(table)
+      .where(and(eq(entityColumn, entityId), isNotNull(table.comment_id)))
+      .orderBy(table.id);
+  }
+}
@@ -0,0 +1,133 @@
+import { storage } from "../storage";
+import { canModerateProject, getProjectAccess, hasPermission } from "../auth";
+import { CommentAttachmentService } from "./comment-attachments";
+import { RealtimeService } from "./realtime";
+import {
+  hasProjectAccessLevel,
+  type CommentEntityType,
+  type EntityComment,
+  type Task
+} from "@shared/schema";
+import type { CommentChangedEvent } from "@shared/realtime";
+
+type CommentUser = { id: number; role: string; permissions?: string[] };
+
+/**
+ * Entidade dona de um tópico de comentários, com o que as notificações e as
+ * regras de acesso precisam saber dela
+ */
+export interface CommentTarget {
+  type: CommentEntityType;
+  id: number;
+  projectId: number | null;
+  title: string;
+  link: string;
+  task?: Task;
+}
+
+/**
+ * Serviço de Comentários
+ *
+ * Um único conjunto de comentários, respostas e reações para tarefas, projetos,
+ * clientes e documentos financeiros. Cada comentário guarda a entidade a que
+ * pertence (entity_type + entity_id); a entidade define quem pode ler, escrever
+ * e moderar o tópico.
+ */
+export class CommentService {
+  /**
+   * Entidade do tópico, ou undefined se ela não existir
+   */
+  static async getTarget(type: CommentEntityType, id: number): Promise<CommentTarget | undefined> {
+    switch (type) {
+      case 'task': {
+        const task = await storage.getTask(id);
+        return task && { type, id, projectId: task.project_id ?? null, title: task.title, link: `/tasks/${id}`, task };
+      }
+      case 'project': {
+        const project = await storage.getProject(id);
+        return project && { type, id, projectId: id, title: project.name, link: `/projects/${id}` };
+      }
+      case 'client': {
+        const client = await storage.getClient(id);
+        return client && { type, id, projectId: null, title: client.name, link: `/clients/${id}` };
+      }
+      case 'financial_document': {
+        const document = await storage.getFinancialDocument(id);
+        return document && {
+          type,
+          id,
+          projectId: document.project_id ?? null,
+          title: document.document_number ? `Documento ${document.document_number}` : `Documento #${id}`,
+          link: '/financial'
+        };
+      }
+    }
+  }
+
+  /**
+   * Leitura exige acesso de observador ao projeto da entidade e escrita, de editor.
+   * Clientes seguem as rotas de clientes (qualquer usuário autenticado) e documentos
+   * financeiros exigem também a permissão 'view_financials'.
+   */
+  static async canAccess(user: CommentUser, target: CommentTarget, mode: 'read' | 'write'): Promise<boolean> {
+    if (target.type === 'financial_document' && !(await hasPermission(user, 'view_financials'))) {
+      return false;
+    }
+
+    if (target.type === 'client' || !target.projectId) {
+      return true;
+    }
+
+    const access = await getProjectAccess(user, target.projectId);
+    return !!access && hasProjectAccessLevel(access, mode === 'read' ? 'observer' : 'editor');
+  }
+
+  /**
+   * Remover comentários de outras pessoas: administradores, gerentes e produtores do projeto
+   */
+  static async canModerate(user: CommentUser, target: CommentTarget): Promise<boolean> {
+    return ['admin', 'manager'].includes(user.role) || await canModerateProject(user, target.projectId);
+  }
+
+  /**
+   * Comentários do tópico com reações e anexos
+   */
+  static async list(target: CommentTarget): Promise<EntityComment[]> {
+    const comments = await storage.getComments(target.type, target.id);
+    const [reactions, attachments] = await Promise.all([
+      storage.getCommentReactions(comments.map(comment => comment.id)),
+      CommentAttachmentService.getCommentAttachments(target.type, target.id)
+    ]);
+
+    return comments.map(comment => ({
+      ...comment,
+      reactions: reactions.filter(reaction => reaction.comment_id === comment.id),
+      attachments: attachments.filter(attachment => attachment.comment_id === comment.id)
+    }));
+  }
+
+  /**
+   * Avisa quem está com a entidade aberta para recarregar os comentários. O evento
+   * leva só os IDs; documentos financeiros não têm sala própria e vão para todos.
+   */
+  static publish(target: CommentTarget, action: CommentChangedEvent['action'], commentId: number, actorId: number) {
+    const event: CommentChangedEvent = {
+      action,
+      entity_type: target.type,
+      entity_id: target.id,
+      comment_id: commentId,
+      actorId
+    };
+
+    switch (target.type) {
+      case 'task':
+        return RealtimeService.toTask(target.id, 'comment_changed', event);
+      case 'project':
+        return RealtimeService.toProject(target.id, 'comment_changed', event);
+      case 'client':
+        return RealtimeService.toClient(target.id, 'comment_changed', event);
+      case 'financial_document':
+        return RealtimeService.broadcast('comment_changed', event);
+    }
+  }
+}
@@ -1,8 +1,12 @@
-import { db } from "../db";
-import { financialDocuments, financialAuditLog } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { db, type DbTransaction } from "../db";
+import { bankStatementTransactions, financialDocuments, financialAuditLog, financialDocumentPayments, outstandingBalance } from "@shared/schema";
+import { eq, and, asc, desc, isNull } from "drizzle-orm";
 import crypto from "crypto";
-import type { FinancialDocument, InsertFinancialAuditLog } from "@shared/schema";
+import type { FinancialDocument, FinancialDocumentPayment, InsertFinancialAuditLog } from "@shared/schema";
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
 
 /**
  * Serviço de Auditoria Financeira Profissional
@@ -134,7 +138,7 @@ export class FinancialAuditService {
   }
 
   /**
-   * Registra pagamento de um documento
+   * Registra o pagamento integral de um documento (quita o saldo em aberto)
    */
   static async markAsPaid(
     documentId: number,
@@ -145,17 +149,200 @@ export class FinancialAuditService {
     },
     sessionInfo: { ip?: string; userAgent?: string; sessionId?: string } = {}
   ) {
-    return await this.updateDocument(
+    const { document } = await this.registerPayment(
       documentId,
-      {
-        status: 'paid',
-        paid: true,
-        ...paymentData
-      },
       userId,
-      'Registro de pagamento',
+      { payment_date: paymentData.payment_date, notes: paymentData.payment_notes },
       sessionInfo
     );
+    return document;
+  }
+
+  /**
+   * Registra um pagamento (total ou parcial) no histórico do documento. Sem valor,
+   * o pagamento quita o saldo em aberto. O documento passa a 'paid' quando o saldo
+   * zera e a 'partially_paid' enquanto restar valor a receber/pagar. Com outerTx, o
+   * pagamento participa da transação de quem chamou (ex.: conciliação bancária).
+   */
+  static async registerPayment(
+    documentId: number,
+    userId: number,
+    paymentData: {
+      amount?: number;
+      payment_date: Date;
+      method?: string | null;
+      reference?: string | null;
+      notes?: string | null;
+    },
+    sessionInfo: { ip?: string; userAgent?: string; sessionId?: string } = {},
+    outerTx?: DbTransaction
+  ): Promise<{ document: FinancialDocument; payment: FinancialDocumentPayment }> {
+    return await (outerTx ?? db).transaction(async (tx) => {
+      // Bloqueia o documento até o fim da transação: pagamentos simultâneos esperam
+      // e calculam o saldo já com o pagamento anterior
+      const [currentDocument] = await tx
+        .select()
+        .from(financialDocuments)
+        .where(eq(financialDocuments.id, documentId))
+        .for('update');
+
+      if (!currentDocument) {
+        throw new Error('Documento financeiro não encontrado');
+      }
+
+      const balance = outstandingBalance(currentDocument);
+      const amount = roundCents(paymentData.amount ?? balance);
+      if (amount <= 0 || amount > balance) {
+        throw new Error(`Valor de pagamento inválido (saldo em aberto: ${balance.toFixed(2)})`);
+      }
+
+      const [payment] = await tx
+        .insert(financialDocumentPayments)
+        .values({
+          document_id: documentId,
+          amount,
+          payment_date: paymentData.payment_date,
+          method: paymentData.method ?? null,
+          reference: paymentData.reference ?? null,
+          notes: paymentData.notes ?? null,
+          created_by: userId
+        })
+        .returning();
+
+      const document = await this.settlePayments(
+        tx,
+        currentDocument,
+        userId,
+        'pay',
+        `Registro de pagamento de ${amount.toFixed(2)}${amount < balance ? ' (parcial)' : ''}`,
+        sessionInfo,
+        paymentData.notes ? { payment_notes: paymentData.notes } : {}
+      );
+
+      return { document, payment };
+    });
+  }
+
+  /**
+   * Reverte um único pagamento do histórico. O registro é mantido, marcado como
+   * revertido, e o valor pago e o status do documento são recalculados. A transação
+   * do extrato conciliada com o pagamento volta para a revisão.
+   */
+  static async revertPayment(
+    documentId: number,
+    paymentId: number,
+    userId: number,
+    reason: string,
+    sessionInfo: { ip?: string; userAgent?: string; sessionId?: string } = {}
+  ): Promise<{ document: FinancialDocument; payment: FinancialDocumentPayment }> {
+    return await db.transaction(async (tx) => {
+      const [currentDocument] = await tx
+        .select()
+        .from(financialDocuments)
+        .where(eq(financialDocuments.id, documentId))
+        .for('update');
+
+      if (!currentDocument) {
+        throw new Error('Documento financeiro não encontrado');
+      }
+
+      const [payment] = await tx
+        .update(financialDocumentPayments)
+        .set({ reverted_at: new Date(), reverted_by: userId, revert_reason: reason })
+        .where(and(
+          eq(financialDocumentPayments.id, paymentId),
+          eq(financialDocumentPayments.document_id, documentId),
+          isNull(financialDocumentPayments.reverted_at)
+        ))
+        .returning();
+
+      if (!payment) {
+        throw new Error('Pagamento não encontrado ou já revertido');
+      }
+
+      await tx
+        .update(bankStatementTransactions)
+        .set({ status: 'pending', matched_document_id: null, matched_payment_id: null, matched_by: null, matched_at: null })
+        .where(eq(bankStatementTransactions.matched_payment_id, payment.id));
+
+      const document = await this.settlePayments(
+        tx,
+        currentDocument,
+        userId,
+        'revert_payment',
+        `Reversão do pagamento de ${payment.amount.toFixed(2)}: ${reason}`,
+        sessionInfo
+      );
+
+      return { document, payment };
+    });
+  }
+
+  /**
+   * Histórico de pagamentos de um documento, incluindo os revertidos
+   */
+  static async getPayments(documentId: number) {
+    return await db
+      .select()
+      .from(financialDocumentPayments)
+      .where(eq(financialDocumentPayments.document_id, documentId))
+      .orderBy(desc(financialDocumentPayments.payment_date), desc(financialDocumentPayments.id));
+  }
+
+  /**
+   * Recalcula valor pago, status e data de pagamento a partir dos pagamentos válidos
+   * e registra a alteração na auditoria
+   */
+  private static async settlePayments(
+    tx: DbTransaction,
+    currentDocument: FinancialDocument,
+    userId: number,
+    action: 'pay' | 'revert_payment',
+    reason: string,
+    sessionInfo: { ip?: string; userAgent?: string; sessionId?: string },
+    extraUpdates: Partial<FinancialDocument> = {}
+  ): Promise<FinancialDocument> {
+    const payments = await tx
+      .select()
+      .from(financialDocumentPayments)
+      .where(and(
+        eq(financialDocumentPayments.document_id, currentDocument.id),
+        isNull(financialDocumentPayments.reverted_at)
+      ))
+      .orderBy(asc(financialDocumentPayments.payment_date));
+
+    const amountPaid = roundCents(payments.reduce((total, payment) => total + payment.amount, 0));
+    const paid = payments.length > 0 && amountPaid >= roundCents(currentDocument.amount);
+    const settledStatus = currentDocument.status === 'paid' || currentDocument.status === 'partially_paid'
+      ? 'pending'
+      : currentDocument.status;
+
+    const [updatedDocument] = await tx
+      .update(financialDocuments)
+      .set({
+        ...extraUpdates,
+        amount_paid: amountPaid,
+        paid,
+        status: paid ? 'paid' : amountPaid > 0 ? 'partially_paid' : settledStatus,
+        payment_date: payments.length > 0 ? payments[payments.length - 1].payment_date : null,
+        updated_by: userId,
+        updated_at: new Date(),
+        version: (currentDocument.version || 1) + 1
+      })
+      .where(eq(financialDocuments.id, currentDocument.id))
+      .returning();
+
+    await this.logAction(tx, {
+      document_id: currentDocument.id,
+      action,
+      user_id: userId,
+      old_values: currentDocument,
+      new_values: updatedDocument,
+      reason,
+      ...sessionInfo
+    });
+
+    return updatedDocument;
   }
 
   /**
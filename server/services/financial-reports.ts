@@ -0,0 +1,429 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  subWeeks,
+  subYears
+} from "date-fns";
+import { db } from "../db";
+import { getProjectScope } from "../auth";
+import { memberProjectIds } from "../storage";
+import { clients, expenses, financialDocumentPayments, financialDocuments, projects } from "@shared/schema";
+import {
+  FINANCIAL_CASH_FLOW_MIN_MONTHS,
+  type FinancialBreakdownItem,
+  type FinancialCashFlowPoint,
+  type FinancialClientMetric,
+  type FinancialProjectMargin,
+  type FinancialReportQuery,
+  type FinancialSummaryReport
+} from "@shared/financial-reports";
+import { and, desc, eq, gte, inArray, lt, lte, sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+type ReportViewer = { id: number; role: string; permissions?: string[] };
+
+interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+function sumIf(column: AnyColumn | SQL, condition: SQL): SQL<number> {
+  return sql<number>`coalesce(sum(${column}) filter (where ${condition}), 0)`.mapWith(Number);
+}
+
+function countIf(condition: SQL): SQL<number> {
+  return sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+}
+
+function within(column: AnyColumn, range: DateRange): SQL {
+  return sql`${gte(column, range.from)} and ${lte(column, range.to)}`;
+}
+
+function percentOf(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+// Mesma regra usada nos cards do dashboard: sem base anterior, qualquer valor conta como +100%
+function percentChange(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return Math.round(((current - previous) / Math.abs(previous)) * 100);
+}
+
+function toRange(range: DateRange) {
+  return { from: range.from.toISOString(), to: range.to.toISOString() };
+}
+
+const invoicePaid = sql`coalesce(${financialDocuments.paid}, false)`;
+// Pagamentos que contam como receita (os revertidos ficam no histórico, mas não entram)
+const paymentActive = sql`${financialDocumentPayments.reverted_at} is null`;
+const invoiceOpen = sql`not coalesce(${financialDocuments.paid}, false)`;
+// Saldo em aberto das faturas, descontados os pagamentos parciais
+const invoiceOutstanding = sql`(${financialDocuments.amount} - coalesce(${financialDocuments.amount_paid}, 0))`;
+const expenseOpen = sql`not coalesce(${expenses.paid}, false)`;
+
+/**
+ * Serviço de Relatórios Financeiros
+ *
+ * Agrega no banco os indicadores da página Financeiro e do card "Visão Financeira"
+ * do dashboard, filtrados por período, cliente e projeto. Os critérios de receita,
+ * despesa e saldos em aberto estão descritos em shared/financial-reports.ts.
+ * Usuários sem 'view_all_jobs' só enxergam documentos e despesas dos seus projetos,
+ * como na listagem de documentos financeiros.
+ */
+export class FinancialReportService {
+  /**
+   * Intervalo do período pedido e do período imediatamente anterior, de mesmo tamanho
+   */
+  static resolvePeriod(query: FinancialReportQuery, now: Date = new Date()): { current: DateRange; previous: DateRange } {
+    switch (query.period) {
+      case 'week':
+        return {
+          current: { from: startOfWeek(now, WEEK_OPTIONS), to: endOfWeek(now, WEEK_OPTIONS) },
+          previous: { from: startOfWeek(subWeeks(now, 1), WEEK_OPTIONS), to: endOfWeek(subWeeks(now, 1), WEEK_OPTIONS) }
+        };
+      case 'quarter':
+        return {
+          current: { from: startOfQuarter(now), to: endOfQuarter(now) },
+          previous: { from: startOfQuarter(subQuarters(now, 1)), to: endOfQuarter(subQuarters(now, 1)) }
+        };
+      case 'year':
+        return {
+          current: { from: startOfYear(now), to: endOfYear(now) },
+          previous: { from: startOfYear(subYears(now, 1)), to: endOfYear(subYears(now, 1)) }
+        };
+      case 'custom': {
+        const from = startOfDay(parseISO(query.from!));
+        const to = endOfDay(parseISO(query.to!));
+        const days = differenceInCalendarDays(to, from) + 1;
+        return {
+          current: { from, to },
+          previous: { from: subDays(from, days), to: subDays(to, days) }
+        };
+      }
+      case 'month':
+      default:
+        return {
+          current: { from: startOfMonth(now), to: endOfMonth(now) },
+          previous: { from: startOfMonth(subMonths(now, 1)), to: endOfMonth(subMonths(now, 1)) }
+        };
+    }
+  }
+
+  /**
+   * Indicadores principais: receita, despesas, lucro e margem do período (com a
+   * variação sobre o período anterior), saldos a receber e a pagar, fluxo de caixa
+   * dos próximos 30 dias e tempo médio de recebimento
+   */
+  static async summary(viewer: ReportViewer, query: FinancialReportQuery): Promise<FinancialSummaryReport> {
+    const { current, previous } = this.resolvePeriod(query);
+    const today = startOfDay(new Date());
+    const in30Days = addDays(new Date(), 30);
+
+    const [invoiceWhere, expenseWhere] = await Promise.all([
+      this.invoiceConditions(viewer, query),
+      this.expenseConditions(viewer, query)
+    ]);
+
+    const paidIn = (range: DateRange) => within(financialDocumentPayments.payment_date, range);
+    const overdue = sql`${invoiceOpen} and ${lt(financialDocuments.due_date, today)}`;
+    const dueNext30Days = sql`${invoiceOpen} and ${gte(financialDocuments.due_date, today)} and ${lt(financialDocuments.due_date, in30Days)}`;
+
+    const [[revenueTotals], [invoiceTotals], [expenseTotals]] = await Promise.all([
+      db.select({
+        revenue: sumIf(financialDocumentPayments.amount, paidIn(current)),
+        revenueCount: sql<number>`count(distinct ${financialDocumentPayments.document_id}) filter (where ${paidIn(current)})`.mapWith(Number),
+        previousRevenue: sumIf(financialDocumentPayments.amount, paidIn(previous)),
+        collectionDays: sql<number>`coalesce(avg(extract(epoch from (${financialDocumentPayments.payment_date} - coalesce(${financialDocuments.issue_date}, ${financialDocuments.created_at}))) / 86400) filter (where ${paidIn(current)}), 0)`.mapWith(Number)
+      })
+        .from(financialDocumentPayments)
+        .innerJoin(financialDocuments, eq(financialDocumentPayments.document_id, financialDocuments.id))
+        .where(and(...invoiceWhere, paymentActive)),
+      db.select({
+        receivables: sumIf(invoiceOutstanding, invoiceOpen),
+        receivablesCount: countIf(invoiceOpen),
+        overdue: sumIf(invoiceOutstanding, overdue),
+        overdueCount: countIf(overdue),
+        receivablesNext30Days: sumIf(invoiceOutstanding, dueNext30Days),
+        paidTotal: sumIf(financialDocuments.amount, invoicePaid),
+        paidCount: countIf(invoicePaid)
+      })
+        .from(financialDocuments)
+        .where(and(...invoiceWhere)),
+      db.select({
+        expenses: sumIf(expenses.amount, within(expenses.date, current)),
+        expensesCount: countIf(within(expenses.date, current)),
+        previousExpenses: sumIf(expenses.amount, within(expenses.date, previous)),
+        payables: sumIf(expenses.amount, expenseOpen),
+        payablesCount: countIf(expenseOpen),
+        payablesNext30Days: sumIf(expenses.amount, sql`${expenseOpen} and ${lt(expenses.date, in30Days)}`),
+        approvedTotal: sumIf(expenses.amount, sql`coalesce(${expenses.approved}, false)`),
+        approvedCount: countIf(sql`coalesce(${expenses.approved}, false)`)
+      })
+        .from(expenses)
+        .where(and(...expenseWhere))
+    ]);
+
+    const profit = revenueTotals.revenue - expenseTotals.expenses;
+    const previousProfit = revenueTotals.previousRevenue - expenseTotals.previousExpenses;
+
+    return {
+      period: toRange(current),
+      previousPeriod: toRange(previous),
+      revenue: revenueTotals.revenue,
+      revenueCount: revenueTotals.revenueCount,
+      expenses: expenseTotals.expenses,
+      expensesCount: expenseTotals.expensesCount,
+      profit,
+      grossMargin: percentOf(profit, revenueTotals.revenue),
+      previous: {
+        revenue: revenueTotals.previousRevenue,
+        expenses: expenseTotals.previousExpenses,
+        profit: previousProfit
+      },
+      change: {
+        revenue: percentChange(revenueTotals.revenue, revenueTotals.previousRevenue),
+        expenses: percentChange(expenseTotals.expenses, expenseTotals.previousExpenses),
+        profit: percentChange(profit, previousProfit)
+      },
+      receivables: {
+        total: invoiceTotals.receivables,
+        count: invoiceTotals.receivablesCount,
+        overdue: invoiceTotals.overdue,
+        overdueCount: invoiceTotals.overdueCount,
+        next30Days: invoiceTotals.receivablesNext30Days
+      },
+      payables: {
+        total: expenseTotals.payables,
+        count: expenseTotals.payablesCount,
+        next30Days: expenseTotals.payablesNext30Days
+      },
+      cashFlowNext30Days: invoiceTotals.receivablesNext30Days - expenseTotals.payablesNext30Days,
+      averageCollectionDays: Math.round(revenueTotals.collectionDays),
+      totals: {
+        paidInvoices: invoiceTotals.paidTotal,
+        paidInvoicesCount: invoiceTotals.paidCount,
+        approvedExpenses: expenseTotals.approvedTotal,
+        approvedExpensesCount: expenseTotals.approvedCount
+      }
+    };
+  }
+
+  /**
+   * Receitas e despesas por mês. A série cobre os meses do período e, no mínimo,
+   * os FINANCIAL_CASH_FLOW_MIN_MONTHS meses que terminam no último mês do período;
+   * meses sem movimento aparecem zerados.
+   */
+  static async cashFlow(viewer: ReportViewer, query: FinancialReportQuery): Promise<FinancialCashFlowPoint[]> {
+    const { current } = this.resolvePeriod(query);
+    const to = endOfMonth(current.to);
+    const earliest = startOfMonth(subMonths(to, FINANCIAL_CASH_FLOW_MIN_MONTHS - 1));
+    const range: DateRange = { from: current.from < earliest ? startOfMonth(current.from) : earliest, to };
+
+    const [invoiceWhere, expenseWhere] = await Promise.all([
+      this.invoiceConditions(viewer, query),
+      this.expenseConditions(viewer, query)
+    ]);
+
+    const paymentMonth = sql<string>`to_char(${financialDocumentPayments.payment_date}, 'YYYY-MM')`;
+    const expenseMonth = sql<string>`to_char(${expenses.date}, 'YYYY-MM')`;
+
+    const [revenueRows, expenseRows] = await Promise.all([
+      db.select({ month: paymentMonth, total: sql<number>`coalesce(sum(${financialDocumentPayments.amount}), 0)`.mapWith(Number) })
+        .from(financialDocumentPayments)
+        .innerJoin(financialDocuments, eq(financialDocumentPayments.document_id, financialDocuments.id))
+        .where(and(...invoiceWhere, paymentActive, within(financialDocumentPayments.payment_date, range)))
+        .groupBy(paymentMonth),
+      db.select({ month: expenseMonth, total: sql<number>`coalesce(sum(${expenses.amount}), 0)`.mapWith(Number) })
+        .from(expenses)
+        .where(and(...expenseWhere, within(expenses.date, range)))
+        .groupBy(expenseMonth)
+    ]);
+
+    const revenueByMonth = new Map(revenueRows.map(row => [row.month, row.total]));
+    const expensesByMonth = new Map(expenseRows.map(row => [row.month, row.total]));
+
+    return eachMonthOfInterval({ start: range.from, end: range.to }).map(date => {
+      const month = format(date, 'yyyy-MM');
+      const revenue = revenueByMonth.get(month) ?? 0;
+      const spent = expensesByMonth.get(month) ?? 0;
+      return { month, revenue, expenses: spent, balance: revenue - spent };
+    });
+  }
+
+  /**
+   * Valores por cliente, do maior para o menor: receita do período ('revenue') ou
+   * faturas em aberto ('receivables', independente do período)
+   */
+  static async byClient(
+    viewer: ReportViewer,
+    query: FinancialReportQuery,
+    metric: FinancialClientMetric,
+    limit: number
+  ): Promise<FinancialBreakdownItem[]> {
+    const { current } = this.resolvePeriod(query);
+    const invoiceWhere = await this.invoiceConditions(viewer, query);
+
+    if (metric === 'revenue') {
+      // Receita vem dos pagamentos do período; a contagem é de faturas que receberam pagamento
+      const total = sql<number>`coalesce(sum(${financialDocumentPayments.amount}), 0)`.mapWith(Number);
+      const rows = await db.select({
+        id: financialDocuments.client_id,
+        name: clients.name,
+        value: total,
+        count: sql<number>`count(distinct ${financialDocuments.id})`.mapWith(Number)
+      })
+        .from(financialDocumentPayments)
+        .innerJoin(financialDocuments, eq(financialDocumentPayments.document_id, financialDocuments.id))
+        .leftJoin(clients, eq(financialDocuments.client_id, clients.id))
+        .where(and(...invoiceWhere, paymentActive, within(financialDocumentPayments.payment_date, current)))
+        .groupBy(financialDocuments.client_id, clients.name)
+        .orderBy(desc(total))
+        .limit(limit);
+
+      return rows.map(row => ({ id: row.id, name: row.name ?? 'Cliente removido', value: row.value, count: row.count }));
+    }
+
+    const total = sql<number>`coalesce(sum(${invoiceOutstanding}), 0)`.mapWith(Number);
+    const rows = await db.select({
+      id: financialDocuments.client_id,
+      name: clients.name,
+      value: total,
+      count: sql<number>`count(*)`.mapWith(Number)
+    })
+      .from(financialDocuments)
+      .leftJoin(clients, eq(financialDocuments.client_id, clients.id))
+      .where(and(...invoiceWhere, invoiceOpen))
+      .groupBy(financialDocuments.client_id, clients.name)
+      .orderBy(desc(total))
+      .limit(limit);
+
+    return rows.map(row => ({ id: row.id, name: row.name ?? 'Cliente removido', value: row.value, count: row.count }));
+  }
+
+  /**
+   * Despesas do período por categoria, da maior para a menor
+   */
+  static async byCategory(viewer: ReportViewer, query: FinancialReportQuery): Promise<FinancialBreakdownItem[]> {
+    const { current } = this.resolvePeriod(query);
+    const expenseWhere = await this.expenseConditions(viewer, query);
+    const total = sql<number>`coalesce(sum(${expenses.amount}), 0)`.mapWith(Number);
+
+    const rows = await db.select({
+      name: expenses.category,
+      value: total,
+      count: sql<number>`count(*)`.mapWith(Number)
+    })
+      .from(expenses)
+      .where(and(...expenseWhere, within(expenses.date, current)))
+      .groupBy(expenses.category)
+      .orderBy(desc(total));
+
+    return rows.map(row => ({ id: null, ...row }));
+  }
+
+  /**
+   * Receita, despesas e margem do período por projeto (projetos cancelados ficam de
+   * fora). Apenas projetos com movimento no período aparecem, da maior margem para a menor.
+   */
+  static async projectMargins(viewer: ReportViewer, query: FinancialReportQuery): Promise<FinancialProjectMargin[]> {
+    const { current } = this.resolvePeriod(query);
+    const [invoiceWhere, expenseWhere, projectWhere] = await Promise.all([
+      this.invoiceConditions(viewer, query),
+      this.expenseConditions(viewer, query),
+      this.projectConditions(viewer, query)
+    ]);
+    const total = (column: AnyColumn) => sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number);
+
+    const [projectRows, revenueRows, expenseRows] = await Promise.all([
+      db.select({
+        id: projects.id,
+        name: projects.name,
+        clientId: projects.client_id,
+        clientName: clients.name,
+        status: projects.status
+      })
+        .from(projects)
+        .leftJoin(clients, eq(projects.client_id, clients.id))
+        .where(and(...projectWhere, sql`coalesce(${projects.special_status}, 'none') <> 'canceled'`)),
+      db.select({ projectId: financialDocuments.project_id, total: total(financialDocumentPayments.amount) })
+        .from(financialDocumentPayments)
+        .innerJoin(financialDocuments, eq(financialDocumentPayments.document_id, financialDocuments.id))
+        .where(and(...invoiceWhere, paymentActive, within(financialDocumentPayments.payment_date, current)))
+        .groupBy(financialDocuments.project_id),
+      db.select({ projectId: expenses.project_id, total: total(expenses.amount) })
+        .from(expenses)
+        .where(and(...expenseWhere, within(expenses.date, current)))
+        .groupBy(expenses.project_id)
+    ]);
+
+    const revenueByProject = new Map(revenueRows.map(row => [row.projectId, row.total]));
+    const expensesByProject = new Map(expenseRows.map(row => [row.projectId, row.total]));
+
+    return projectRows
+      .map(project => {
+        const revenue = revenueByProject.get(project.id) ?? 0;
+        const spent = expensesByProject.get(project.id) ?? 0;
+        return { ...project, revenue, expenses: spent, margin: percentOf(revenue - spent, revenue) };
+      })
+      .filter(project => project.revenue > 0 || project.expenses > 0)
+      .sort((a, b) => b.margin - a.margin || b.revenue - a.revenue);
+  }
+
+  // Projetos em que o usuário é membro (null = sem restrição de escopo). A subconsulta
+  // vai dentro de um objeto porque um builder retornado por função async seria executado.
+  private static async memberProjects(viewer: ReportViewer) {
+    const scope = await getProjectScope(viewer);
+    if (!scope) return null;
+    return { ids: memberProjectIds(scope.userId) };
+  }
+
+  // Faturas (documentos cancelados não entram em nenhum indicador)
+  private static async invoiceConditions(viewer: ReportViewer, query: FinancialReportQuery): Promise<(SQL | undefined)[]> {
+    const memberProjects = await this.memberProjects(viewer);
+    return [
+      eq(financialDocuments.document_type, 'invoice'),
+      sql`coalesce(${financialDocuments.status}, 'pending') <> 'cancelled'`,
+      memberProjects ? inArray(financialDocuments.project_id, memberProjects.ids) : undefined,
+      query.clientId ? eq(financialDocuments.client_id, query.clientId) : undefined,
+      query.projectId ? eq(financialDocuments.project_id, query.projectId) : undefined
+    ];
+  }
+
+  // Despesas não têm cliente: o filtro de cliente passa pelos projetos dele
+  private static async expenseConditions(viewer: ReportViewer, query: FinancialReportQuery): Promise<(SQL | undefined)[]> {
+    const memberProjects = await this.memberProjects(viewer);
+    return [
+      memberProjects ? inArray(expenses.project_id, memberProjects.ids) : undefined,
+      query.clientId
+        ? inArray(expenses.project_id, db.select({ id: projects.id }).from(projects).where(eq(projects.client_id, query.clientId)))
+        : undefined,
+      query.projectId ? eq(expenses.project_id, query.projectId) : undefined
+    ];
+  }
+
+  private static async projectConditions(viewer: ReportViewer, query: FinancialReportQuery): Promise<(SQL | undefined)[]> {
+    const memberProjects = await this.memberProjects(viewer);
+    return [
+      memberProjects ? inArray(projects.id, memberProjects.ids) : undefined,
+      query.clientId ? eq(projects.client_id, query.clientId) : undefined,
+      query.projectId ? eq(projects.id, query.projectId) : undefined
+    ];
+  }
+}
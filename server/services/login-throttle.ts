@@ -0,0 +1,250 @@
+import { db } from "../db";
+import { loginThrottles, type LoginThrottle } from "@shared/schema";
+import { and, eq, gt, isNotNull, isNull, lt, or } from "drizzle-orm";
+
+export type ThrottleScope = 'account' | 'ip';
+
+interface ThrottlePolicy {
+  backoffAfter: number; // Falhas a partir das quais cada nova tentativa exige espera
+  maxFailures: number; // Falhas que provocam o bloqueio temporário
+}
+
+export interface LoginBlock {
+  scope: ThrottleScope;
+  reason: 'locked' | 'backoff';
+  until: Date;
+  retryAfterSeconds: number;
+}
+
+export interface LoginFailureResult {
+  // Escopos bloqueados por esta falha (o bloqueio acabou de começar)
+  locked: ThrottleScope[];
+  block: LoginBlock | null;
+}
+
+export interface AccountLockout {
+  user_id: number;
+  locked_until: Date;
+  lockout_count: number;
+  last_failure_at: Date | null;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  account: { backoffAfter: 3, maxFailures: envInt('LOGIN_MAX_ATTEMPTS', 5) },
+  ip: { backoffAfter: 10, maxFailures: envInt('LOGIN_MAX_ATTEMPTS_PER_IP', 20) },
+};
+
+// Falhas mais antigas que a janela deixam de contar
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// O primeiro bloqueio dura LOGIN_LOCKOUT_MINUTES; cada bloqueio seguido dura o dobro, até 24h
+const LOCKOUT_BASE_MS = envInt('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000;
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+// Sem falhas por 24h, a contagem de bloqueios seguidos recomeça
+const LOCKOUT_RESET_MS = 24 * 60 * 60 * 1000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Serviço de Proteção do Login
+ *
+ * Conta as falhas de login por conta e por IP. Depois de algumas falhas cada nova
+ * tentativa exige uma espera que dobra a cada erro (backoff exponencial) e, ao atingir
+ * o limite, a conta ou o IP fica bloqueado temporariamente. O estado é gravado em
+ * login_throttles para sobreviver a reinícios do servidor.
+ */
+export class LoginThrottleService {
+  private static lastPurgeAt = 0;
+
+  /**
+   * Chave da conta: o id quando o usuário existe, para que username e email
+   * compartilhem o mesmo limite; o login informado caso contrário
+   */
+  static accountKey(identifier: string, userId?: number | null): string {
+    return userId ? `user:${userId}` : `name:${identifier.trim().toLowerCase()}`;
+  }
+
+  private static getBlock(record: LoginThrottle, now: Date): LoginBlock | null {
+    const scope = record.scope as ThrottleScope;
+
+    if (record.locked_until && record.locked_until > now) {
+      return this.toBlock(scope, 'locked', record.locked_until, now);
+    }
+    if (record.next_attempt_at && record.next_attempt_at > now) {
+      return this.toBlock(scope, 'backoff', record.next_attempt_at, now);
+    }
+    return null;
+  }
+
+  private static toBlock(scope: ThrottleScope, reason: LoginBlock['reason'], until: Date, now: Date): LoginBlock {
+    return {
+      scope,
+      reason,
+      until,
+      retryAfterSeconds: Math.max(1, Math.ceil((until.getTime() - now.getTime()) / 1000))
+    };
+  }
+
+  /**
+   * Verifica se uma nova tentativa é permitida. O bloqueio de conta tem prioridade
+   * sobre o de IP, e o bloqueio sobre a espera do backoff.
+   */
+  static async check(accountKey: string, ipAddress?: string): Promise<LoginBlock | null> {
+    const conditions = [and(eq(loginThrottles.scope, 'account'), eq(loginThrottles.key, accountKey))];
+    if (ipAddress) {
+      conditions.push(and(eq(loginThrottles.scope, 'ip'), eq(loginThrottles.key, ipAddress)));
+    }
+
+    const records = await db.select().from(loginThrottles).where(or(...conditions));
+    const now = new Date();
+
+    const blocks = records
+      .map(record => this.getBlock(record, now))
+      .filter((block): block is LoginBlock => block !== null)
+      .sort((a, b) =>
+        (a.scope === b.scope ? 0 : a.scope === 'account' ? -1 : 1) ||
+        (a.reason === b.reason ? 0 : a.reason === 'locked' ? -1 : 1)
+      );
+
+    return blocks[0] ?? null;
+  }
+
+  /**
+   * Registra uma falha de login (senha ou segundo fator incorretos) para a conta e o IP
+   */
+  static async recordFailure(accountKey: string, ipAddress?: string, userId?: number | null): Promise<LoginFailureResult> {
+    const results = [await this.registerFailure('account', accountKey, userId ?? null)];
+    if (ipAddress) {
+      results.push(await this.registerFailure('ip', ipAddress, null));
+    }
+
+    this.purgeStale().catch(error => {
+      console.error('[Login] Erro ao limpar controle de tentativas:', error);
+    });
+
+    const now = new Date();
+    const blocks = results
+      .map(record => this.getBlock(record, now))
+      .filter((block): block is LoginBlock => block !== null);
+
+    return {
+      locked: results
+        .filter(record => record.failure_count === 0 && record.locked_until && record.locked_until > now)
+        .map(record => record.scope as ThrottleScope),
+      block: blocks.find(block => block.reason === 'locked') ?? blocks[0] ?? null
+    };
+  }
+
+  private static async registerFailure(scope: ThrottleScope, key: string, userId: number | null): Promise<LoginThrottle> {
+    const policy = POLICIES[scope];
+
+    return db.transaction(async (tx) => {
+      await tx.insert(loginThrottles)
+        .values({ scope, key, user_id: userId })
+        .onConflictDoNothing();
+
+      const [record] = await tx.select()
+        .from(loginThrottles)
+        .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+        .for('update');
+
+      const now = new Date();
+      const sinceLastFailure = record.last_failure_at ? now.getTime() - record.last_failure_at.getTime() : Infinity;
+
+      let failureCount = sinceLastFailure > FAILURE_WINDOW_MS ? 1 : record.failure_count + 1;
+      let lockoutCount = sinceLastFailure > LOCKOUT_RESET_MS ? 0 : record.lockout_count;
+      let lockedUntil: Date | null = null;
+      let nextAttemptAt: Date | null = null;
+
+      if (failureCount >= policy.maxFailures) {
+        const duration = Math.min(LOCKOUT_BASE_MS * 2 ** lockoutCount, LOCKOUT_MAX_MS);
+        lockedUntil = new Date(now.getTime() + duration);
+        lockoutCount += 1;
+        failureCount = 0;
+      } else if (failureCount >= policy.backoffAfter) {
+        const delay = Math.min(BACKOFF_BASE_MS * 2 ** (failureCount - policy.backoffAfter), BACKOFF_MAX_MS);
+        nextAttemptAt = new Date(now.getTime() + delay);
+      }
+
+      const [updated] = await tx.update(loginThrottles)
+        .set({
+          user_id: userId ?? record.user_id,
+          failure_count: failureCount,
+          lockout_count: lockoutCount,
+          last_failure_at: now,
+          next_attempt_at: nextAttemptAt,
+          locked_until: lockedUntil,
+          updated_at: now
+        })
+        .where(eq(loginThrottles.id, record.id))
+        .returning();
+
+      return updated;
+    });
+  }
+
+  /**
+   * Login concluído: zera o controle da conta. O do IP continua valendo para
+   * que um acerto não libere novas tentativas contra outras contas.
+   */
+  static async recordSuccess(accountKey: string): Promise<void> {
+    await db.delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, 'account'), eq(loginThrottles.key, accountKey)));
+  }
+
+  /**
+   * Contas bloqueadas no momento
+   */
+  static async getLockedAccounts(): Promise<AccountLockout[]> {
+    const records = await db.select()
+      .from(loginThrottles)
+      .where(
+        and(
+          eq(loginThrottles.scope, 'account'),
+          isNotNull(loginThrottles.user_id),
+          gt(loginThrottles.locked_until, new Date())
+        )
+      );
+
+    return records.map(record => ({
+      user_id: record.user_id!,
+      locked_until: record.locked_until!,
+      lockout_count: record.lockout_count,
+      last_failure_at: record.last_failure_at
+    }));
+  }
+
+  /**
+   * Desbloqueia uma conta (ação do administrador). Retorna false se a conta não estava bloqueada.
+   */
+  static async unlockAccount(userId: number): Promise<boolean> {
+    // Remove também as falhas pendentes, que ainda aplicariam backoff
+    const [removed] = await db.delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, 'account'), eq(loginThrottles.key, this.accountKey('', userId))))
+      .returning();
+
+    return !!removed?.locked_until && removed.locked_until > new Date();
+  }
+
+  /**
+   * Remove registros sem bloqueio vigente e sem falhas recentes (no máximo uma vez por hora)
+   */
+  private static async purgeStale(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) return;
+    this.lastPurgeAt = Date.now();
+
+    const staleBefore = new Date(Date.now() - LOCKOUT_RESET_MS);
+    await db.delete(loginThrottles)
+      .where(
+        and(
+          lt(loginThrottles.last_failure_at, staleBefore),
+          or(isNull(loginThrottles.locked_until), lt(loginThrottles.locked_until, new Date()))
+        )
+      );
+  }
+}
@@ -0,0 +1,282 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+/**
+ * Templates de email (pt-BR)
+ *
+ * Cada template gera o assunto e as versões HTML e texto da mensagem.
+ * Os links recebidos são rotas do frontend (ex.: /tasks/12) e são convertidos
+ * em URLs absolutas a partir de APP_URL.
+ */
+
+const APP_NAME = 'Content Crush';
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTemplateData {
+  task_assigned: {
+    recipientName: string;
+    actorName: string;
+    taskTitle: string;
+    projectName?: string | null;
+    dueDate?: Date | string | null;
+    link: string;
+  };
+  invoice_due: {
+    recipientName: string;
+    documentLabel: string;
+    clientName?: string | null;
+    amount: number;
+    dueDate: Date | string;
+    link: string;
+  };
+  payment_received: {
+    recipientName: string;
+    documentLabel: string;
+    clientName?: string | null;
+    amount: number;
+    paidAt?: Date | string | null;
+    link: string;
+  };
+  project_delayed: {
+    recipientName: string;
+    projectName: string;
+    endDate?: Date | string | null;
+    link: string;
+  };
+  password_reset: {
+    recipientName: string;
+    resetLink: string;
+    expiresInMinutes: number;
+  };
+  email_verification: {
+    recipientName: string;
+    verifyLink: string;
+    expiresInHours: number;
+  };
+  // Resumo diário das notificações do canal "digest"
+  notification_digest: {
+    recipientName: string;
+    total: number;
+    items: Array<{ title: string; message: string }>; // As mais recentes, quando o total passa do limite
+    link: string;
+  };
+  // Notificações sem template próprio (ex.: comentários)
+  notification: {
+    recipientName: string;
+    title: string;
+    message: string;
+    link?: string | null;
+  };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+export function getAppUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, '');
+}
+
+// Converte uma rota do frontend em URL absoluta
+export function absoluteUrl(link: string): string {
+  return /^https?:\/\//i.test(link) ? link : `${getAppUrl()}${link.startsWith('/') ? '' : '/'}${link}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+}
+
+function formatDate(value: Date | string): string {
+  return format(new Date(value), "dd 'de' MMMM 'de' yyyy", { locale: ptBR });
+}
+
+interface LayoutOptions {
+  recipientName: string;
+  heading: string;
+  paragraphs: string[];
+  details?: Array<[string, string]>;
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+// Estrutura comum dos emails: saudação, conteúdo, detalhes, botão e rodapé
+function renderLayout({ recipientName, heading, paragraphs, details = [], action, footnote }: LayoutOptions): Omit<RenderedMail, 'subject'> {
+  const htmlParagraphs = paragraphs
+    .map(paragraph => `<p style="margin:0 0 16px;font-size:15px;line-height:22px;color:#374151;">${escapeHtml(paragraph)}</p>`)
+    .join('');
+
+  const htmlDetails = details.length > 0
+    ? `<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;margin:0 0 24px;border-collapse:collapse;">${details
+        .map(([label, value]) => `<tr><td style="padding:6px 0;font-size:14px;color:#6b7280;width:40%;">${escapeHtml(label)}</td><td style="padding:6px 0;font-size:14px;color:#111827;font-weight:600;">${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>`
+    : '';
+
+  const htmlAction = action
+    ? `<p style="margin:0 0 24px;"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 20px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;font-weight:600;">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  const htmlFootnote = footnote
+    ? `<p style="margin:0;font-size:13px;line-height:20px;color:#6b7280;">${escapeHtml(footnote)}</p>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(heading)}</title></head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;background:#f3f4f6;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;max-width:560px;background:#ffffff;border-radius:8px;padding:32px;">
+<tr><td>
+<p style="margin:0 0 24px;font-size:13px;font-weight:700;letter-spacing:0.05em;text-transform:uppercase;color:#4f46e5;">${APP_NAME}</p>
+<h1 style="margin:0 0 16px;font-size:20px;line-height:28px;color:#111827;">${escapeHtml(heading)}</h1>
+<p style="margin:0 0 16px;font-size:15px;line-height:22px;color:#374151;">Olá, ${escapeHtml(recipientName)}!</p>
+${htmlParagraphs}${htmlDetails}${htmlAction}${htmlFootnote}
+</td></tr>
+</table>
+<p style="margin:16px 0 0;font-size:12px;color:#9ca3af;">Você recebeu este email porque tem uma conta no ${APP_NAME}. Ajuste suas preferências em Configurações &gt; Notificações.</p>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    `Olá, ${recipientName}!`,
+    '',
+    ...paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(details.length > 0 ? [...details.map(([label, value]) => `${label}: ${value}`), ''] : []),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...(footnote ? [footnote, ''] : []),
+    '--',
+    `${APP_NAME}`,
+    'Ajuste suas preferências de email em Configurações > Notificações.'
+  ].join('\n');
+
+  return { html, text };
+}
+
+const templates: { [K in MailTemplateName]: (data: MailTemplateData[K]) => RenderedMail } = {
+  task_assigned: (data) => ({
+    subject: `Nova tarefa atribuída: ${data.taskTitle}`,
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Você tem uma nova tarefa',
+      paragraphs: [`${data.actorName} atribuiu a tarefa "${data.taskTitle}" a você.`],
+      details: [
+        ...(data.projectName ? [['Projeto', data.projectName] as [string, string]] : []),
+        ...(data.dueDate ? [['Prazo', formatDate(data.dueDate)] as [string, string]] : [])
+      ],
+      action: { label: 'Abrir tarefa', url: absoluteUrl(data.link) }
+    })
+  }),
+
+  invoice_due: (data) => ({
+    subject: `Vencimento próximo: ${data.documentLabel}`,
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Fatura próxima do vencimento',
+      paragraphs: [`O documento ${data.documentLabel} vence em ${formatDate(data.dueDate)}.`],
+      details: [
+        ...(data.clientName ? [['Cliente', data.clientName] as [string, string]] : []),
+        ['Valor', formatCurrency(data.amount)],
+        ['Vencimento', formatDate(data.dueDate)]
+      ],
+      action: { label: 'Ver no financeiro', url: absoluteUrl(data.link) }
+    })
+  }),
+
+  payment_received: (data) => ({
+    subject: `Pagamento registrado: ${data.documentLabel}`,
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Pagamento registrado',
+      paragraphs: [`O documento ${data.documentLabel} foi marcado como pago.`],
+      details: [
+        ...(data.clientName ? [['Cliente', data.clientName] as [string, string]] : []),
+        ['Valor', formatCurrency(data.amount)],
+        ...(data.paidAt ? [['Data do pagamento', formatDate(data.paidAt)] as [string, string]] : [])
+      ],
+      action: { label: 'Ver no financeiro', url: absoluteUrl(data.link) }
+    })
+  }),
+
+  project_delayed: (data) => ({
+    subject: `Projeto atrasado: ${data.projectName}`,
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Projeto atrasado',
+      paragraphs: [`O projeto "${data.projectName}" passou da data de entrega e foi marcado como atrasado.`],
+      details: data.endDate ? [['Data de entrega', formatDate(data.endDate)]] : [],
+      action: { label: 'Abrir projeto', url: absoluteUrl(data.link) }
+    })
+  }),
+
+  password_reset: (data) => ({
+    subject: 'Redefinição de senha',
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Redefina sua senha',
+      paragraphs: [
+        'Recebemos uma solicitação para redefinir a senha da sua conta.',
+        `O link abaixo é válido por ${data.expiresInMinutes} minutos e só pode ser usado uma vez.`
+      ],
+      action: { label: 'Redefinir senha', url: absoluteUrl(data.resetLink) },
+      footnote: 'Se você não solicitou a redefinição, ignore este email. Sua senha continuará a mesma.'
+    })
+  }),
+
+  email_verification: (data) => ({
+    subject: 'Confirme seu email',
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Confirme seu email',
+      paragraphs: [
+        'Sua conta foi criada. Para começar a usar o sistema, confirme que este endereço de email é seu.',
+        `O link abaixo é válido por ${data.expiresInHours} horas.`
+      ],
+      action: { label: 'Confirmar email', url: absoluteUrl(data.verifyLink) },
+      footnote: 'Se você não criou esta conta, ignore este email.'
+    })
+  }),
+
+  notification_digest: (data) => ({
+    subject: `Resumo diário: ${data.total} ${data.total === 1 ? 'notificação' : 'notificações'}`,
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: 'Seu resumo diário',
+      paragraphs: [
+        `Você tem ${data.total} ${data.total === 1 ? 'notificação' : 'notificações'} desde o último resumo.`,
+        ...data.items.map(item => `${item.title}: ${item.message}`)
+      ],
+      action: { label: 'Abrir no sistema', url: absoluteUrl(data.link) }
+    })
+  }),
+
+  notification: (data) => ({
+    subject: data.title,
+    ...renderLayout({
+      recipientName: data.recipientName,
+      heading: data.title,
+      paragraphs: [data.message],
+      action: data.link ? { label: 'Abrir no sistema', url: absoluteUrl(data.link) } : undefined
+    })
+  })
+};
+
+/**
+ * Gera o assunto e o conteúdo HTML/texto de um template
+ */
+export function renderMailTemplate<K extends MailTemplateName>(name: K, data: MailTemplateData[K]): RenderedMail {
+  return templates[name](data);
+}
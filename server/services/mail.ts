@@ -0,0 +1,223 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import fs from "fs/promises";
+import path from "path";
+import { db } from "../db";
+import { mailQueue, type InsertMailQueueItem, type MailQueueItem } from "@shared/schema";
+import { and, asc, eq, lte } from "drizzle-orm";
+import { renderMailTemplate, type MailTemplateData, type MailTemplateName } from "./mail-templates";
+
+export type MailTransportKind = 'smtp' | 'outbox' | 'disabled';
+
+export interface MailRecipient {
+  email: string;
+  name?: string | null;
+  userId?: number | null;
+}
+
+// Intervalo entre varreduras da fila e espera base entre novas tentativas (dobra a cada falha)
+const QUEUE_POLL_INTERVAL_MS = 30 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const QUEUE_BATCH_SIZE = 20;
+
+/**
+ * Serviço de Email
+ *
+ * As mensagens são gravadas na tabela mail_queue e enviadas em segundo plano,
+ * com novas tentativas em caso de falha. O transporte é escolhido por MAIL_TRANSPORT:
+ * - smtp: servidor SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS),
+ *   inclusive servidores locais de teste como MailHog/Mailpit na porta 1025
+ * - outbox: grava cada mensagem como arquivo .eml em MAIL_OUTBOX_DIR (padrão: ./outbox)
+ * - disabled: apenas registra no log
+ * Sem MAIL_TRANSPORT, usa smtp quando SMTP_HOST estiver definido e outbox caso contrário.
+ */
+export class MailService {
+  private static transporter: Transporter | null = null;
+  private static timer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  /**
+   * Transporte configurado pelas variáveis de ambiente
+   */
+  static getTransportKind(): MailTransportKind {
+    const configured = process.env.MAIL_TRANSPORT?.toLowerCase();
+    if (configured === 'smtp' || configured === 'outbox' || configured === 'disabled') {
+      return configured;
+    }
+    return process.env.SMTP_HOST ? 'smtp' : 'outbox';
+  }
+
+  static getFromAddress(): string {
+    return process.env.MAIL_FROM || 'Content Crush <no-reply@contentcrush.local>';
+  }
+
+  static getOutboxDir(): string {
+    return path.resolve(process.env.MAIL_OUTBOX_DIR || 'outbox');
+  }
+
+  private static getTransporter(): Transporter {
+    if (this.transporter) return this.transporter;
+
+    if (this.getTransportKind() === 'smtp') {
+      const port = parseInt(process.env.SMTP_PORT || '587');
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+          : undefined
+      });
+    } else {
+      // Gera a mensagem completa (RFC 822) em memória para ser gravada no outbox
+      this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    }
+
+    return this.transporter;
+  }
+
+  /**
+   * Inicia o processamento periódico da fila
+   */
+  static async start() {
+    if (this.timer) return;
+
+    // Mensagens que estavam em envio quando o servidor parou voltam para a fila
+    await db.update(mailQueue)
+      .set({ status: 'pending' })
+      .where(eq(mailQueue.status, 'sending'));
+
+    this.timer = setInterval(() => {
+      this.processQueue().catch(error => console.error('[Email] Erro ao processar fila:', error));
+    }, QUEUE_POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    console.log(`[Email] Fila iniciada (transporte: ${this.getTransportKind()})`);
+    this.processQueue().catch(error => console.error('[Email] Erro ao processar fila:', error));
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Adiciona uma mensagem à fila e dispara o envio
+   */
+  static async enqueue(message: InsertMailQueueItem): Promise<MailQueueItem> {
+    const [queued] = await db.insert(mailQueue).values(message).returning();
+
+    this.processQueue().catch(error => console.error('[Email] Erro ao processar fila:', error));
+
+    return queued;
+  }
+
+  /**
+   * Renderiza um template e adiciona a mensagem à fila
+   */
+  static async sendTemplate<K extends MailTemplateName>(
+    recipient: MailRecipient,
+    template: K,
+    data: MailTemplateData[K]
+  ): Promise<MailQueueItem> {
+    const rendered = renderMailTemplate(template, data);
+
+    return this.enqueue({
+      to_email: recipient.email,
+      to_name: recipient.name ?? null,
+      user_id: recipient.userId ?? null,
+      template,
+      ...rendered
+    });
+  }
+
+  /**
+   * Envia as mensagens pendentes cujo horário de tentativa já chegou
+   */
+  static async processQueue(): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    let sent = 0;
+    try {
+      const due = await db.select()
+        .from(mailQueue)
+        .where(and(eq(mailQueue.status, 'pending'), lte(mailQueue.next_attempt_at, new Date())))
+        .orderBy(asc(mailQueue.next_attempt_at))
+        .limit(QUEUE_BATCH_SIZE);
+
+      for (const item of due) {
+        // Reserva a mensagem antes de enviar para não duplicar o envio
+        const [claimed] = await db.update(mailQueue)
+          .set({ status: 'sending' })
+          .where(and(eq(mailQueue.id, item.id), eq(mailQueue.status, 'pending')))
+          .returning();
+        if (!claimed) continue;
+
+        if (await this.deliver(claimed)) sent++;
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return sent;
+  }
+
+  private static async deliver(item: MailQueueItem): Promise<boolean> {
+    const attempts = item.attempts + 1;
+
+    try {
+      await this.transport(item);
+
+      await db.update(mailQueue)
+        .set({ status: 'sent', attempts, last_error: null, sent_at: new Date() })
+        .where(eq(mailQueue.id, item.id));
+
+      return true;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= item.max_attempts;
+
+      await db.update(mailQueue)
+        .set({
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          last_error: lastError,
+          next_attempt_at: new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1))
+        })
+        .where(eq(mailQueue.id, item.id));
+
+      console.error(
+        `[Email] Falha ao enviar mensagem #${item.id} para ${item.to_email} (tentativa ${attempts}/${item.max_attempts}):`,
+        lastError
+      );
+      return false;
+    }
+  }
+
+  private static async transport(item: MailQueueItem) {
+    const kind = this.getTransportKind();
+
+    if (kind === 'disabled') {
+      console.log(`[Email] Envio desativado, mensagem #${item.id} para ${item.to_email} descartada: ${item.subject}`);
+      return;
+    }
+
+    const info = await this.getTransporter().sendMail({
+      from: this.getFromAddress(),
+      to: item.to_name ? { name: item.to_name, address: item.to_email } : item.to_email,
+      subject: item.subject,
+      html: item.html,
+      text: item.text
+    });
+
+    if (kind === 'outbox') {
+      const outboxDir = this.getOutboxDir();
+      await fs.mkdir(outboxDir, { recursive: true });
+
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${item.id}.eml`;
+      await fs.writeFile(path.join(outboxDir, fileName), info.message as Buffer);
+    }
+  }
+}
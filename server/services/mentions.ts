@@ -0,0 +1,129 @@
+import { db } from "../db";
+import { getProjectScope, hasPermission } from "../auth";
+import { CommentService, type CommentTarget } from "./comments";
+import {
+  clients,
+  comments,
+  financialDocuments,
+  projectMembers,
+  projects,
+  tasks,
+  users
+} from "@shared/schema";
+import { extractMentionIds, type MentionedComment } from "@shared/mentions";
+import { and, desc, eq, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+
+type MentionUser = { id: number; role: string; permissions?: string[] };
+
+const authorColumns = {
+  id: users.id,
+  name: users.name,
+  avatar: users.avatar
+};
+
+/**
+ * Serviço de Menções
+ *
+ * Resolve as menções @[Nome](id) dos comentários: só valem usuários ativos que
+ * podem ler o tópico do comentário. Também monta o filtro "Menções", com todos
+ * os comentários que citam o usuário.
+ */
+export class MentionService {
+  /**
+   * IDs mencionados no texto que podem ver o comentário (o autor é ignorado)
+   */
+  static async resolve(text: string, target: CommentTarget, authorId: number): Promise<number[]> {
+    const ids = extractMentionIds(text).filter(id => id !== authorId);
+    if (ids.length === 0) return [];
+
+    const candidates = await db.select({ id: users.id, role: users.role, permissions: users.permissions, is_active: users.is_active })
+      .from(users)
+      .where(inArray(users.id, ids));
+
+    const allowed = await Promise.all(candidates.map(async user => {
+      if (user.is_active === false) return false;
+      return CommentService.canAccess({ id: user.id, role: user.role, permissions: user.permissions ?? undefined }, target, 'read');
+    }));
+
+    return candidates.filter((_, index) => allowed[index]).map(user => user.id);
+  }
+
+  /**
+   * Menções novas de uma edição (quem já tinha sido mencionado não é notificado de novo)
+   */
+  static added(previous: number[] | null | undefined, current: number[]): number[] {
+    const before = new Set(previous ?? []);
+    return current.filter(id => !before.has(id));
+  }
+
+  /**
+   * Comentários que mencionam o usuário, do mais recente para o mais antigo,
+   * restritos às entidades que ele pode ver
+   */
+  static async listForUser(user: MentionUser, options: { limit: number; offset: number }): Promise<MentionedComment[]> {
+    const [scope, canViewFinancials] = await Promise.all([
+      getProjectScope(user),
+      hasPermission(user, 'view_financials')
+    ]);
+    const memberProjects = db.select({ id: projectMembers.project_id })
+      .from(projectMembers)
+      .where(eq(projectMembers.user_id, user.id));
+
+    const rows = await db.select({
+      comment: comments,
+      author: authorColumns,
+      task: { id: tasks.id, title: tasks.title, project_id: tasks.project_id },
+      project: { id: projects.id, name: projects.name },
+      client: { id: clients.id, name: clients.name },
+      document: { id: financialDocuments.id, document_number: financialDocuments.document_number, project_id: financialDocuments.project_id }
+    })
+      .from(comments)
+      .leftJoin(tasks, and(eq(comments.entity_type, 'task'), eq(tasks.id, comments.entity_id)))
+      .leftJoin(projects, and(eq(comments.entity_type, 'project'), eq(projects.id, comments.entity_id)))
+      .leftJoin(clients, and(eq(comments.entity_type, 'client'), eq(clients.id, comments.entity_id)))
+      .leftJoin(financialDocuments, and(eq(comments.entity_type, 'financial_document'), eq(financialDocuments.id, comments.entity_id)))
+      .leftJoin(users, eq(comments.user_id, users.id))
+      .where(and(
+        sql`${comments.mentions}::jsonb @> ${JSON.stringify([user.id])}::jsonb`,
+        or(isNull(comments.deleted), eq(comments.deleted, false)),
+        or(
+          and(isNotNull(tasks.id), scope ? or(isNull(tasks.project_id), inArray(tasks.project_id, memberProjects)) : undefined),
+          and(isNotNull(projects.id), scope ? inArray(projects.id, memberProjects) : undefined),
+          isNotNull(clients.id),
+          canViewFinancials
+            ? and(isNotNull(financialDocuments.id), scope ? or(isNull(financialDocuments.project_id), inArray(financialDocuments.project_id, memberProjects)) : undefined)
+            : undefined
+        )
+      ))
+      .orderBy(desc(comments.creation_date))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    return rows.map(({ comment, author, task, project, client, document }) => {
+      const base = {
+        kind: comment.entity_type,
+        id: comment.id,
+        comment: comment.comment,
+        creation_date: comment.creation_date,
+        author,
+        entity_id: comment.entity_id
+      };
+
+      if (task) {
+        return { ...base, entity_title: task.title, project_id: task.project_id, link: `/tasks/${task.id}` };
+      }
+      if (project) {
+        return { ...base, entity_title: project.name, project_id: project.id, link: `/projects/${project.id}` };
+      }
+      if (client) {
+        return { ...base, entity_title: client.name, project_id: null, link: `/clients/${client.id}` };
+      }
+      return {
+        ...base,
+        entity_title: document?.document_number ? `Documento ${document.document_number}` : `Documento #${comment.entity_id}`,
+        project_id: document?.project_id ?? null,
+        link: '/financial'
+      };
+    });
+  }
+}
@@ -0,0 +1,221 @@
+import path from "path";
+import { format } from "date-fns";
+import type { Client, FinancialDocument } from "@shared/schema";
+import {
+  NFSE_AMOUNT_TOLERANCE,
+  formatCnpj,
+  normalizeInvoiceNumber,
+  onlyDigits,
+  type NfseCheck,
+  type NfseData
+} from "@shared/nfse";
+
+// Conteúdo do primeiro elemento com o nome informado, ignorando o prefixo de namespace
+// (<Numero>, <ns2:Numero>, <nfse:Numero versao="...">)
+function element(xml: string, name: string): string | null {
+  const match = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`).exec(xml);
+  return match ? match[1] : null;
+}
+
+function text(xml: string | null, name: string): string | null {
+  if (!xml) return null;
+  const value = element(xml, name);
+  if (value === null) return null;
+  const decoded = value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+  return decoded || null;
+}
+
+function amount(xml: string | null, name: string): number {
+  const value = text(xml, name);
+  if (!value) return 0;
+  const parsed = parseFloat(value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value);
+  return isNaN(parsed) ? 0 : Math.round(parsed * 100) / 100;
+}
+
+// Datas do XML (2026-10-05 ou 2026-10-05T10:32:00-03:00) reduzidas ao dia de emissão
+function day(xml: string | null, name: string): string | null {
+  const value = text(xml, name);
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// CNPJ ou CPF dentro do bloco de identificação (ABRASF 1.0 usa <Cnpj> direto, 2.x usa <CpfCnpj>)
+function document(xml: string | null): string | null {
+  if (!xml) return null;
+  const digits = onlyDigits(text(xml, 'Cnpj') || text(xml, 'Cpf'));
+  return digits || null;
+}
+
+/**
+ * Leitura do XML da NFS-e no layout ABRASF (versões 1.0 e 2.x, usado pela maioria das
+ * prefeituras) e conferência com o documento financeiro a que a nota foi anexada
+ */
+export class NfseService {
+  static isXmlFile(file: { originalname: string; mimetype: string }): boolean {
+    return path.extname(file.originalname).toLowerCase() === '.xml' || /[/+]xml$/.test(file.mimetype);
+  }
+
+  /**
+   * Lê o arquivo no encoding da declaração XML. Várias prefeituras ainda geram as notas
+   * em ISO-8859-1 (<?xml version="1.0" encoding="ISO-8859-1"?>); sem declaração, UTF-8.
+   */
+  static decode(buffer: Buffer): string {
+    const declaration = /^\s*<\?xml[^>]*encoding=["']([\w.-]+)["']/i.exec(buffer.toString('latin1', 0, 200));
+    const encoding = declaration?.[1].toLowerCase();
+    const latin1 = !!encoding && /^(iso-?8859-1|latin-?1|windows-1252|cp1252)$/.test(encoding);
+    return buffer.toString(latin1 ? 'latin1' : 'utf8');
+  }
+
+  /**
+   * Extrai os dados da primeira NFS-e do arquivo. Retorna null quando o XML não é uma
+   * NFS-e ABRASF (RPS, lote de envio, XML de outro tipo)
+   */
+  static parse(xml: string): NfseData | null {
+    const infNfse = element(xml, 'InfNfse');
+    if (!infNfse) return null;
+
+    // Prefeituras costumam completar o número com zeros à esquerda (000000000000042)
+    const number = text(infNfse, 'Numero')?.replace(/^0+(?=\d)/, '');
+    if (!number) return null;
+
+    // 2.x: valores e tomador ficam na declaração de prestação de serviço (o RPS)
+    const declaration = element(infNfse, 'InfDeclaracaoPrestacaoServico');
+    const service = element(declaration ?? infNfse, 'Servico');
+    const values = element(service ?? infNfse, 'Valores');
+    const nfseValues = element(infNfse, 'ValoresNfse');
+    const provider = element(infNfse, 'PrestadorServico') ?? element(declaration ?? infNfse, 'Prestador');
+    const borrower = element(declaration ?? infNfse, 'TomadorServico') ?? element(declaration ?? infNfse, 'Tomador');
+
+    // IssRetido: 1 = sim, 2 = não
+    const issWithheld = text(values, 'IssRetido') === '1' || text(service, 'IssRetido') === '1';
+    const issValue = amount(values, 'ValorIss') || amount(nfseValues, 'ValorIss');
+    const netValue = amount(values, 'ValorLiquidoNfse') || amount(nfseValues, 'ValorLiquidoNfse');
+
+    return {
+      number,
+      verification_code: text(infNfse, 'CodigoVerificacao'),
+      issue_date: day(infNfse, 'DataEmissao'),
+      competence: day(infNfse, 'Competencia') ?? day(declaration, 'Competencia'),
+      service_value: amount(values, 'ValorServicos'),
+      deductions: amount(values, 'ValorDeducoes'),
+      iss_value: issValue,
+      iss_withheld: issWithheld,
+      iss_withheld_value: amount(values, 'ValorIssRetido') || (issWithheld ? issValue : 0),
+      retentions: {
+        pis: amount(values, 'ValorPis'),
+        cofins: amount(values, 'ValorCofins'),
+        inss: amount(values, 'ValorInss'),
+        ir: amount(values, 'ValorIr'),
+        csll: amount(values, 'ValorCsll')
+      },
+      net_value: netValue || null,
+      provider_cnpj: document(element(provider ?? '', 'IdentificacaoPrestador') ?? provider),
+      provider_name: text(provider, 'RazaoSocial'),
+      borrower_document: document(element(borrower ?? '', 'IdentificacaoTomador') ?? borrower),
+      borrower_name: text(borrower, 'RazaoSocial')
+    };
+  }
+
+  /**
+   * Confere número, valor e emissão com o documento e o tomador com o CNPJ do cliente.
+   * Número e emissão vazios no documento são preenchidos com os dados da nota (updates),
+   * exceto em documentos arquivados, que não podem ser alterados.
+   */
+  static check(
+    financialDocument: FinancialDocument,
+    client: Client | undefined,
+    nfse: NfseData
+  ): { checks: NfseCheck[]; updates: Partial<FinancialDocument> } {
+    const checks: NfseCheck[] = [];
+    const updates: Partial<FinancialDocument> = {};
+    const canFill = !financialDocument.archived;
+
+    // Número da nota
+    if (!financialDocument.document_number?.trim() && !canFill) {
+      checks.push({ field: 'document_number', status: 'missing', expected: null, found: nfse.number, message: 'Documento arquivado sem número; não foi possível preencher' });
+    } else if (!financialDocument.document_number?.trim()) {
+      updates.document_number = nfse.number;
+      checks.push({ field: 'document_number', status: 'filled', expected: null, found: nfse.number, message: `Número preenchido com o da NFS-e (${nfse.number})` });
+    } else if (normalizeInvoiceNumber(financialDocument.document_number) === normalizeInvoiceNumber(nfse.number)) {
+      checks.push({ field: 'document_number', status: 'match', expected: financialDocument.document_number, found: nfse.number, message: 'Número confere com a NFS-e' });
+    } else {
+      checks.push({
+        field: 'document_number',
+        status: 'mismatch',
+        expected: financialDocument.document_number,
+        found: nfse.number,
+        message: `Número do documento (${financialDocument.document_number}) difere do número da NFS-e (${nfse.number})`
+      });
+    }
+
+    // Valor dos serviços (valor bruto, antes das retenções)
+    const serviceValue = nfse.service_value.toFixed(2);
+    if (nfse.service_value <= 0) {
+      checks.push({ field: 'amount', status: 'missing', expected: financialDocument.amount.toFixed(2), found: null, message: 'Valor dos serviços não encontrado no XML' });
+    } else if (Math.abs(financialDocument.amount - nfse.service_value) <= NFSE_AMOUNT_TOLERANCE) {
+      checks.push({ field: 'amount', status: 'match', expected: financialDocument.amount.toFixed(2), found: serviceValue, message: 'Valor confere com a NFS-e' });
+    } else {
+      checks.push({
+        field: 'amount',
+        status: 'mismatch',
+        expected: financialDocument.amount.toFixed(2),
+        found: serviceValue,
+        message: `Valor do documento (${financialDocument.amount.toFixed(2)}) difere do valor dos serviços da NFS-e (${serviceValue})`
+      });
+    }
+
+    // Data de emissão
+    const issueDate = financialDocument.issue_date ? format(financialDocument.issue_date, 'yyyy-MM-dd') : null;
+    if (!nfse.issue_date) {
+      checks.push({ field: 'issue_date', status: 'missing', expected: issueDate, found: null, message: 'Data de emissão não encontrada no XML' });
+    } else if (!issueDate && !canFill) {
+      checks.push({ field: 'issue_date', status: 'missing', expected: null, found: nfse.issue_date, message: 'Documento arquivado sem data de emissão; não foi possível preencher' });
+    } else if (!issueDate) {
+      updates.issue_date = new Date(`${nfse.issue_date}T12:00:00.000Z`);
+      checks.push({ field: 'issue_date', status: 'filled', expected: null, found: nfse.issue_date, message: 'Data de emissão preenchida com a da NFS-e' });
+    } else if (issueDate === nfse.issue_date) {
+      checks.push({ field: 'issue_date', status: 'match', expected: issueDate, found: nfse.issue_date, message: 'Data de emissão confere com a NFS-e' });
+    } else {
+      checks.push({
+        field: 'issue_date',
+        status: 'mismatch',
+        expected: issueDate,
+        found: nfse.issue_date,
+        message: `Data de emissão do documento (${issueDate}) difere da data da NFS-e (${nfse.issue_date})`
+      });
+    }
+
+    // Tomador x cliente do documento
+    const clientCnpj = onlyDigits(client?.cnpj);
+    if (!nfse.borrower_document) {
+      checks.push({ field: 'client_cnpj', status: 'missing', expected: clientCnpj || null, found: null, message: 'CNPJ/CPF do tomador não encontrado no XML' });
+    } else if (!clientCnpj) {
+      checks.push({
+        field: 'client_cnpj',
+        status: 'missing',
+        expected: null,
+        found: nfse.borrower_document,
+        message: `Cliente sem CNPJ cadastrado; tomador da NFS-e: ${formatCnpj(nfse.borrower_document)}`
+      });
+    } else if (clientCnpj === nfse.borrower_document) {
+      checks.push({ field: 'client_cnpj', status: 'match', expected: clientCnpj, found: nfse.borrower_document, message: 'Tomador confere com o CNPJ do cliente' });
+    } else {
+      checks.push({
+        field: 'client_cnpj',
+        status: 'mismatch',
+        expected: clientCnpj,
+        found: nfse.borrower_document,
+        message: `Tomador da NFS-e (${formatCnpj(nfse.borrower_document)}${nfse.borrower_name ? ` - ${nfse.borrower_name}` : ''}) difere do CNPJ do cliente (${formatCnpj(clientCnpj)})`
+      });
+    }
+
+    return { checks, updates };
+  }
+}
@@ -0,0 +1,104 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import { notificationDigestItems, type InsertNotification, type NotificationDigestItem } from "@shared/schema";
+import { asc, inArray, isNull } from "drizzle-orm";
+import { MailService } from "./mail";
+
+// Horário de envio do resumo e limite de notificações listadas em um email
+const DIGEST_HOUR = 8;
+const DIGEST_MAX_ITEMS = 50;
+
+/**
+ * Resumo diário por email
+ *
+ * As notificações dos tipos em que o usuário ativou o canal "digest" são acumuladas
+ * na tabela notification_digest_items e enviadas uma vez por dia, às 8h, em um único
+ * email por usuário pela fila do MailService.
+ */
+export class NotificationDigestService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Inclui uma notificação no próximo resumo do destinatário
+   */
+  static async add(notification: InsertNotification) {
+    await db.insert(notificationDigestItems).values({
+      user_id: notification.user_id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      link: notification.link ?? null
+    });
+  }
+
+  /**
+   * Agenda o envio diário dos resumos
+   */
+  static start() {
+    if (this.timer) return;
+    this.schedule();
+    console.log(`[Resumo] Envio diário agendado para as ${DIGEST_HOUR}h`);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static schedule() {
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(DIGEST_HOUR, 0, 0, 0);
+    if (nextRun <= now) nextRun.setDate(nextRun.getDate() + 1);
+
+    this.timer = setTimeout(() => {
+      this.sendPending()
+        .catch(error => console.error('[Resumo] Erro ao enviar resumos:', error))
+        .finally(() => this.schedule());
+    }, nextRun.getTime() - now.getTime());
+    this.timer.unref();
+  }
+
+  /**
+   * Envia um email por usuário com as notificações acumuladas e as marca como enviadas.
+   * Itens de usuários sem email ou inativos são descartados.
+   */
+  static async sendPending(): Promise<number> {
+    const pending = await db.select()
+      .from(notificationDigestItems)
+      .where(isNull(notificationDigestItems.sent_at))
+      .orderBy(asc(notificationDigestItems.created_at));
+
+    const byUser = new Map<number, NotificationDigestItem[]>();
+    for (const item of pending) {
+      byUser.set(item.user_id, [...(byUser.get(item.user_id) ?? []), item]);
+    }
+
+    let sent = 0;
+    for (const [userId, items] of Array.from(byUser.entries())) {
+      const user = await storage.getUser(userId);
+
+      if (user?.email && user.is_active !== false) {
+        await MailService.sendTemplate({ email: user.email, name: user.name, userId: user.id }, 'notification_digest', {
+          recipientName: user.name,
+          total: items.length,
+          items: items.slice(-DIGEST_MAX_ITEMS).map(item => ({ title: item.title, message: item.message })),
+          link: '/'
+        });
+        sent++;
+      }
+
+      await db.update(notificationDigestItems)
+        .set({ sent_at: new Date() })
+        .where(inArray(notificationDigestItems.id, items.map(item => item.id)));
+    }
+
+    if (sent > 0) {
+      console.log(`[Resumo] ${sent} resumos diários enfileirados`);
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,363 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { storage } from "../storage";
+import { MailService } from "./mail";
+import { NotificationDigestService } from "./notification-digest";
+import { renderMailTemplate, type RenderedMail } from "./mail-templates";
+import { RealtimeService } from "./realtime";
+import type { CommentTarget } from "./comments";
+import {
+  NOTIFICATION_TYPE_EVENTS, resolveNotificationPreferences,
+  type InsertNotification, type Notification, type NotificationChannel, type NotificationPreferences,
+  type Task, type EntityComment, type Project, type FinancialDocument, type CommentEntityType,
+  type ChatChannel, type ChatMessageWithUser
+} from "@shared/schema";
+import { mentionsToPlainText } from "@shared/mentions";
+
+// Monta o email de uma notificação a partir do nome do destinatário
+type NotificationEmail = (recipientName: string) => RenderedMail;
+
+// Tipo e textos das notificações de comentário de cada entidade
+const COMMENT_NOTIFICATION_TYPES: Record<CommentEntityType, string> = {
+  task: 'task_comment',
+  project: 'project_comment',
+  client: 'client_comment',
+  financial_document: 'financial_document_comment'
+};
+
+const COMMENT_NOTIFICATION_TITLES: Record<CommentEntityType, string> = {
+  task: 'Novo comentário em tarefa',
+  project: 'Novo comentário em projeto',
+  client: 'Novo comentário em cliente',
+  financial_document: 'Novo comentário em documento financeiro'
+};
+
+const COMMENT_TARGET_LABELS: Record<CommentEntityType, string> = {
+  task: 'na tarefa',
+  project: 'no projeto',
+  client: 'no cliente',
+  financial_document: 'em'
+};
+
+/**
+ * Serviço de Notificações
+ *
+ * Persiste as notificações na caixa de entrada do usuário (tabela notifications)
+ * e as entrega pelo RealtimeService na sala `user:<id>` quando o usuário
+ * estiver conectado. Quando o usuário aceita o canal de email, a notificação também
+ * entra na fila do MailService e, com o canal de resumo, no email diário do
+ * NotificationDigestService, respeitando as preferências de cada usuário.
+ * Falhas nunca interrompem a operação que gerou a notificação.
+ */
+export class NotificationService {
+  /**
+   * Preferências de notificação do usuário, com os valores padrão aplicados
+   */
+  static async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const preferences = await storage.getUserPreferences(userId);
+    return resolveNotificationPreferences(preferences?.notification_preferences);
+  }
+
+  /**
+   * Verificar se o usuário aceita um tipo de notificação em determinado canal
+   */
+  static async isEnabled(userId: number, type: string, channel: NotificationChannel): Promise<boolean> {
+    const eventType = NOTIFICATION_TYPE_EVENTS[type] ?? 'system';
+    const preferences = await this.getPreferences(userId);
+    return preferences[eventType][channel];
+  }
+
+  /**
+   * Cria uma notificação para um único usuário nos canais que ele aceita
+   * (sistema e/ou email). Sem template de email, usa o modelo genérico.
+   */
+  static async notify(notification: InsertNotification, email?: NotificationEmail): Promise<Notification | null> {
+    try {
+      const eventType = NOTIFICATION_TYPE_EVENTS[notification.type] ?? 'system';
+      const preferences = await this.getPreferences(notification.user_id);
+
+      if (preferences[eventType].email) {
+        this.sendEmail(notification, email)
+          .catch(error => console.error('[Notificações] Erro ao enfileirar email:', error));
+      }
+
+      if (preferences[eventType].digest) {
+        NotificationDigestService.add(notification)
+          .catch(error => console.error('[Notificações] Erro ao incluir no resumo diário:', error));
+      }
+
+      if (!preferences[eventType].in_app) {
+        return null;
+      }
+
+      const created = await storage.createNotification(notification);
+
+      RealtimeService.toUser(created.user_id, 'notification', created);
+
+      return created;
+    } catch (error) {
+      console.error('[Notificações] Erro ao criar notificação:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Enfileira o email de uma notificação para o destinatário
+   */
+  private static async sendEmail(notification: InsertNotification, email?: NotificationEmail) {
+    const user = await storage.getUser(notification.user_id);
+    if (!user?.email || user.is_active === false) return;
+
+    const rendered = email
+      ? email(user.name)
+      : renderMailTemplate('notification', {
+          recipientName: user.name,
+          title: notification.title,
+          message: notification.message,
+          link: notification.link
+        });
+
+    await MailService.enqueue({
+      to_email: user.email,
+      to_name: user.name,
+      user_id: user.id,
+      template: notification.type,
+      ...rendered
+    });
+  }
+
+  /**
+   * Notifica vários usuários, ignorando IDs repetidos e o próprio autor da ação
+   */
+  static async notifyMany(
+    userIds: Array<number | null | undefined>,
+    notification: Omit<InsertNotification, 'user_id'>,
+    email?: NotificationEmail
+  ): Promise<Notification[]> {
+    const recipients = Array.from(new Set(userIds.filter((id): id is number => typeof id === 'number')))
+      .filter(id => id !== notification.actor_id);
+
+    const created = await Promise.all(
+      recipients.map(userId => this.notify({ ...notification, user_id: userId }, email))
+    );
+
+    return created.filter((item): item is Notification => item !== null);
+  }
+
+  /**
+   * Tarefa atribuída a um usuário
+   */
+  static async taskAssigned(task: Task, actorId: number) {
+    if (!task.assigned_to || task.assigned_to === actorId) return;
+
+    const [actor, project] = await Promise.all([
+      storage.getUser(actorId),
+      task.project_id ? storage.getProject(task.project_id) : Promise.resolve(undefined)
+    ]);
+    const actorName = actor?.name ?? 'Alguém';
+
+    await this.notify({
+      user_id: task.assigned_to,
+      actor_id: actorId,
+      type: 'task_assigned',
+      title: 'Nova tarefa atribuída',
+      message: `${actorName} atribuiu a tarefa "${task.title}" a você`,
+      link: `/tasks/${task.id}`,
+      entity_type: 'task',
+      entity_id: task.id
+    }, recipientName => renderMailTemplate('task_assigned', {
+      recipientName,
+      actorName,
+      taskTitle: task.title,
+      projectName: project?.name,
+      dueDate: task.due_date,
+      link: `/tasks/${task.id}`
+    }));
+  }
+
+  /**
+   * Novo comentário: em tarefas avisa o responsável e quem já participou da conversa,
+   * em projetos os membros e em clientes e documentos quem já comentou no tópico.
+   * Os mencionados recebem apenas o aviso de menção.
+   */
+  static async commented(target: CommentTarget, comment: EntityComment) {
+    const [actor, previousComments] = await Promise.all([
+      storage.getUser(comment.user_id),
+      storage.getComments(target.type, target.id)
+    ]);
+    const participants = previousComments.map(item => item.user_id);
+    const mentioned = new Set(comment.mentions ?? []);
+
+    const recipients = target.type === 'project'
+      ? await this.getProjectMemberIds(target.id)
+      : target.type === 'task'
+        ? [target.task?.assigned_to, ...participants]
+        : participants;
+
+    await this.notifyMany(recipients.filter(id => !id || !mentioned.has(id)), {
+      actor_id: comment.user_id,
+      type: COMMENT_NOTIFICATION_TYPES[target.type],
+      title: COMMENT_NOTIFICATION_TITLES[target.type],
+      message: `${actor?.name ?? 'Alguém'} comentou ${COMMENT_TARGET_LABELS[target.type]} "${target.title}"`,
+      link: target.link,
+      entity_type: target.type,
+      entity_id: target.id
+    });
+  }
+
+  /**
+   * Pagamento registrado: avisa quem criou o documento e os administradores
+   */
+  static async paymentReceived(document: FinancialDocument, actorId: number) {
+    const amount = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(document.amount);
+    const label = document.document_number ? `Documento ${document.document_number}` : `Documento #${document.id}`;
+    const client = await storage.getClient(document.client_id);
+
+    await this.notifyMany([document.created_by, ...(await this.getAdminIds())], {
+      actor_id: actorId,
+      type: 'payment_received',
+      title: 'Pagamento registrado',
+      message: `${label} foi marcado como pago (${amount})`,
+      link: '/financial',
+      entity_type: 'financial_document',
+      entity_id: document.id
+    }, recipientName => renderMailTemplate('payment_received', {
+      recipientName,
+      documentLabel: label,
+      clientName: client?.name,
+      amount: document.amount,
+      paidAt: document.payment_date,
+      link: '/financial'
+    }));
+  }
+
+  /**
+   * Projeto marcado como atrasado pela automação: avisa membros e administradores
+   */
+  static async projectDelayed(project: Pick<Project, 'id' | 'name' | 'endDate'>) {
+    const recipients = [...(await this.getProjectMemberIds(project.id)), ...(await this.getAdminIds())];
+
+    await this.notifyMany(recipients, {
+      actor_id: null,
+      type: 'project_delayed',
+      title: 'Projeto atrasado',
+      message: `O projeto "${project.name}" passou da data de entrega e foi marcado como atrasado`,
+      link: `/projects/${project.id}`,
+      entity_type: 'project',
+      entity_id: project.id
+    }, recipientName => renderMailTemplate('project_delayed', {
+      recipientName,
+      projectName: project.name,
+      endDate: project.endDate,
+      link: `/projects/${project.id}`
+    }));
+  }
+
+  /**
+   * Lembrete de prazo de tarefa (automação diária): avisa o responsável
+   */
+  static async taskDue(task: Pick<Task, 'id' | 'title' | 'assigned_to' | 'due_date'>) {
+    if (!task.assigned_to || !task.due_date) return;
+
+    const dueDate = format(task.due_date, 'dd/MM/yyyy', { locale: ptBR });
+
+    await this.notify({
+      user_id: task.assigned_to,
+      actor_id: null,
+      type: 'task_due',
+      title: 'Prazo de tarefa próximo',
+      message: `A tarefa "${task.title}" vence em ${dueDate}`,
+      link: `/tasks/${task.id}`,
+      entity_type: 'task',
+      entity_id: task.id
+    });
+  }
+
+  /**
+   * Fatura a receber próxima do vencimento (automação diária): avisa quem criou
+   * o documento e os administradores
+   */
+  static async invoiceDue(document: FinancialDocument) {
+    if (!document.due_date) return;
+
+    const amount = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(document.amount);
+    const label = document.document_number ? `Documento ${document.document_number}` : `Documento #${document.id}`;
+    const dueDate = document.due_date;
+    const client = await storage.getClient(document.client_id);
+
+    await this.notifyMany([document.created_by, ...(await this.getAdminIds())], {
+      actor_id: null,
+      type: 'invoice_due',
+      title: 'Fatura próxima do vencimento',
+      message: `${label} (${amount}) vence em ${format(dueDate, 'dd/MM/yyyy', { locale: ptBR })}`,
+      link: '/financial',
+      entity_type: 'financial_document',
+      entity_id: document.id
+    }, recipientName => renderMailTemplate('invoice_due', {
+      recipientName,
+      documentLabel: label,
+      clientName: client?.name,
+      amount: document.amount,
+      dueDate,
+      link: '/financial'
+    }));
+  }
+
+  /**
+   * Menção com @username no chat da equipe
+   */
+  static async chatMentioned(message: ChatMessageWithUser, channel: ChatChannel, userIds: number[]) {
+    const actorName = message.user?.name ?? 'Alguém';
+    const where = channel.type === 'direct' ? 'em uma conversa direta' : `no canal "${channel.name ?? 'Geral'}"`;
+    const preview = message.content.length > 120 ? `${message.content.slice(0, 117)}...` : message.content;
+
+    await this.notifyMany(userIds, {
+      actor_id: message.user_id,
+      type: 'chat_mention',
+      title: 'Você foi mencionado no chat',
+      message: `${actorName} mencionou você ${where}: "${preview}"`,
+      link: `/?chat=${channel.id}`,
+      entity_type: 'chat_channel',
+      entity_id: channel.id
+    });
+  }
+
+  /**
+   * Menção em comentário
+   */
+  static async commentMentioned(target: CommentTarget, comment: EntityComment, userIds: number[]) {
+    if (userIds.length === 0) return;
+
+    const actor = await storage.getUser(comment.user_id);
+    const text = mentionsToPlainText(comment.comment);
+    const preview = text.length > 120 ? `${text.slice(0, 117)}...` : text;
+
+    await this.notifyMany(userIds, {
+      actor_id: comment.user_id,
+      type: 'comment_mention',
+      title: 'Você foi mencionado em um comentário',
+      message: `${actor?.name ?? 'Alguém'} mencionou você ${COMMENT_TARGET_LABELS[target.type]} "${target.title}": "${preview}"`,
+      link: target.link,
+      entity_type: target.type,
+      entity_id: target.id
+    });
+  }
+
+  /**
+   * IDs dos membros de um projeto
+   */
+  static async getProjectMemberIds(projectId: number): Promise<number[]> {
+    const members = await storage.getProjectMembers(projectId);
+    return members.map(member => member.user_id);
+  }
+
+  /**
+   * IDs dos administradores ativos
+   */
+  static async getAdminIds(): Promise<number[]> {
+    const allUsers = await storage.getUsers();
+    return allUsers
+      .filter(user => user.role === 'admin' && user.is_active !== false)
+      .map(user => user.id);
+  }
+}
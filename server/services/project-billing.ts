@@ -0,0 +1,219 @@
+import { addDays } from "date-fns";
+import { db } from "../db";
+import {
+  financialDocuments,
+  projects,
+  buildInstallmentSchedule,
+  type FinancialDocument,
+  type Project,
+  type ProjectInstallment
+} from "@shared/schema";
+import { and, asc, eq, isNotNull, sql } from "drizzle-orm";
+import { FinancialAuditService } from "./financial-audit";
+import { removeFinancialDocumentEvents } from "../utils/calendarSync";
+
+export interface ProjectBillingSyncResult {
+  created: number;
+  updated: number;
+  cancelled: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Serviço de Faturamento de Projetos
+ *
+ * Gera uma fatura (documento financeiro do tipo 'invoice') para cada parcela do
+ * projeto e mantém essas faturas em dia quando o orçamento, a data de emissão, o
+ * prazo ou o parcelamento mudam. As faturas ficam ligadas às parcelas por
+ * installment_number; documentos avulsos do projeto não são alterados. Todas as
+ * criações e alterações passam pela auditoria financeira.
+ */
+export class ProjectBillingService {
+  /**
+   * Data base dos vencimentos: data de emissão do projeto (ou de início, ou hoje),
+   * padronizada ao meio-dia UTC para evitar problemas de fuso horário
+   */
+  static baseDate(project: Project): Date {
+    const source = new Date(project.issue_date ?? project.startDate ?? new Date());
+    return new Date(Date.UTC(source.getFullYear(), source.getMonth(), source.getDate(), 12, 0, 0));
+  }
+
+  static schedule(project: Project): ProjectInstallment[] {
+    return buildInstallmentSchedule(project.budget || 0, project.installment_plan, project.payment_term || 30);
+  }
+
+  static describe(project: Project, installment: ProjectInstallment): string {
+    if (installment.count === 1) {
+      return `Fatura referente ao projeto: ${project.name} (Prazo: ${installment.dueOffsetDays} dias)`;
+    }
+    return `Parcela ${installment.number}/${installment.count} do projeto: ${project.name} (Vencimento: ${installment.dueOffsetDays} dias após a emissão)`;
+  }
+
+  /**
+   * Gera as faturas de um projeto recém-criado, uma por parcela
+   */
+  static async generate(project: Project, userId: number): Promise<FinancialDocument[]> {
+    const baseDate = this.baseDate(project);
+    const documents: FinancialDocument[] = [];
+
+    for (const installment of this.schedule(project)) {
+      documents.push(await FinancialAuditService.createDocument({
+        project_id: project.id,
+        client_id: project.client_id,
+        document_type: 'invoice',
+        amount: installment.amount,
+        issue_date: baseDate,
+        due_date: addDays(baseDate, installment.dueOffsetDays),
+        description: this.describe(project, installment),
+        installment_number: installment.number,
+        installment_count: installment.count
+      }, userId));
+    }
+
+    console.log(`[Faturamento] ${documents.length} fatura(s) gerada(s) para o projeto ID:${project.id}`);
+    return documents;
+  }
+
+  /**
+   * Erro de validação quando o novo orçamento fica abaixo do valor já recebido nas
+   * faturas do projeto (null = orçamento válido ou não alterado)
+   */
+  static async budgetError(projectId: number, budget: number | null | undefined): Promise<string | null> {
+    if (budget === undefined) return null;
+
+    const [{ received }] = await db.select({
+      received: sql<string>`coalesce(sum(case when ${financialDocuments.paid} then ${financialDocuments.amount} else coalesce(${financialDocuments.amount_paid}, 0) end), 0)`
+    })
+      .from(financialDocuments)
+      .where(and(
+        eq(financialDocuments.project_id, projectId),
+        eq(financialDocuments.document_type, 'invoice'),
+        isNotNull(financialDocuments.installment_number),
+        sql`coalesce(${financialDocuments.status}, 'pending') <> 'cancelled'`
+      ));
+
+    const total = roundCents(Number(received));
+    if ((budget || 0) >= total) return null;
+
+    const formatted = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(total);
+    return `O orçamento não pode ser menor que o valor já recebido nas faturas do projeto (${formatted})`;
+  }
+
+  /**
+   * Ajusta as faturas do projeto ao parcelamento atual. Parcelas com pagamento (total
+   * ou parcial) e parcelas arquivadas não mudam e o restante do orçamento é dividido
+   * entre as parcelas em aberto, na proporção do parcelamento. Parcelas novas são
+   * criadas; as que deixaram de existir ou ficaram sem saldo, se ainda não receberam
+   * pagamento, são canceladas. Projetos cujas faturas ainda não foram geradas ficam
+   * como estão.
+   */
+  static async sync(projectId: number, userId: number): Promise<ProjectBillingSyncResult> {
+    const result: ProjectBillingSyncResult = { created: 0, updated: 0, cancelled: 0 };
+
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId));
+    if (!project) return result;
+
+    const linked = await db.select()
+      .from(financialDocuments)
+      .where(and(
+        eq(financialDocuments.project_id, projectId),
+        eq(financialDocuments.document_type, 'invoice'),
+        isNotNull(financialDocuments.installment_number),
+        sql`coalesce(${financialDocuments.status}, 'pending') <> 'cancelled'`
+      ))
+      .orderBy(asc(financialDocuments.installment_number), asc(financialDocuments.id));
+
+    if (linked.length === 0) return result;
+
+    const schedule = this.schedule(project);
+    const byNumber = new Map<number, FinancialDocument>();
+    linked.forEach(doc => {
+      if (!byNumber.has(doc.installment_number!)) byNumber.set(doc.installment_number!, doc);
+    });
+
+    const hasPayment = (doc?: FinancialDocument) => !!doc && (!!doc.paid || (doc.amount_paid || 0) > 0);
+    // Documentos arquivados não podem ser alterados pela auditoria financeira
+    const isFixed = (doc?: FinancialDocument) => !!doc && (hasPayment(doc) || !!doc.archived);
+    const isClosed = (installment: ProjectInstallment) => isFixed(byNumber.get(installment.number));
+    const fixedTotal = linked.filter(doc => isFixed(doc)).reduce((total, doc) => total + (doc.amount || 0), 0);
+    const amounts = this.redistribute(
+      schedule.filter(installment => !isClosed(installment)),
+      Math.max(0, (project.budget || 0) - fixedTotal)
+    );
+
+    const baseDate = this.baseDate(project);
+
+    for (const installment of schedule) {
+      if (isClosed(installment)) continue;
+
+      const values = {
+        amount: amounts.get(installment.number) ?? 0,
+        issue_date: baseDate,
+        due_date: addDays(baseDate, installment.dueOffsetDays),
+        description: this.describe(project, installment),
+        installment_count: installment.count
+      };
+      const existing = byNumber.get(installment.number);
+
+      // Sem saldo para a parcela (orçamento já coberto pelas parcelas pagas)
+      if (values.amount <= 0) {
+        if (existing) {
+          await FinancialAuditService.cancelDocument(existing.id, userId, 'Parcela sem saldo após a alteração do orçamento do projeto');
+          await removeFinancialDocumentEvents(existing.id);
+          result.cancelled++;
+        }
+        continue;
+      }
+
+      if (!existing) {
+        await FinancialAuditService.createDocument({
+          ...values,
+          project_id: project.id,
+          client_id: project.client_id,
+          document_type: 'invoice',
+          installment_number: installment.number
+        }, userId);
+        result.created++;
+      } else if (
+        existing.amount !== values.amount ||
+        existing.due_date?.getTime() !== values.due_date.getTime() ||
+        existing.issue_date?.getTime() !== values.issue_date.getTime() ||
+        existing.description !== values.description ||
+        existing.installment_count !== values.installment_count
+      ) {
+        await FinancialAuditService.updateDocument(existing.id, values, userId, 'Sincronização com o parcelamento do projeto');
+        result.updated++;
+      }
+    }
+
+    for (const doc of linked) {
+      if (isFixed(doc) || doc.installment_number! <= schedule.length) continue;
+      await FinancialAuditService.cancelDocument(doc.id, userId, 'Parcela removida do parcelamento do projeto');
+      await removeFinancialDocumentEvents(doc.id);
+      result.cancelled++;
+    }
+
+    console.log(`[Faturamento] Projeto ID:${projectId}: ${result.created} parcela(s) criada(s), ${result.updated} atualizada(s), ${result.cancelled} cancelada(s)`);
+    return result;
+  }
+
+  // Divide o valor entre as parcelas na proporção dos valores planejados (centavos na última)
+  private static redistribute(installments: ProjectInstallment[], total: number): Map<number, number> {
+    const amounts = new Map<number, number>();
+    if (installments.length === 0) return amounts;
+
+    const planned = installments.reduce((sum, installment) => sum + installment.amount, 0);
+    let assigned = 0;
+    installments.forEach((installment, index) => {
+      const amount = index === installments.length - 1
+        ? roundCents(total - assigned)
+        : roundCents(planned > 0 ? total * installment.amount / planned : total / installments.length);
+      amounts.set(installment.number, amount);
+      assigned += amount;
+    });
+    return amounts;
+  }
+}
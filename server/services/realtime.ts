@@ -0,0 +1,313 @@
+import type { Server as HttpServer } from "http";
+import { Server as SocketIOServer, type Socket } from "socket.io";
+import { storage } from "../storage";
+import { verifyAccessToken, getProjectAccess } from "../auth";
+import { ChatService } from "./chat";
+import {
+  PRESENCE_ROOM_TYPES,
+  REALTIME_PATH,
+  REALTIME_ROOM_TYPES,
+  realtimeRoomName,
+  type ClientToServerEvents,
+  type EntityChangedEvent,
+  type PresenceUser,
+  type RealtimeEntityAction,
+  type RealtimeEntityType,
+  type RealtimeEventArgs,
+  type RealtimeEventName,
+  type RealtimeRoom,
+  type ServerToClientEvents
+} from "@shared/realtime";
+
+interface SocketData {
+  user: { id: number; role: string; permissions?: string[]; sessionId?: number };
+  // Identificação exibida a quem estiver na mesma tarefa ou projeto
+  presence: PresenceUser;
+}
+
+type RealtimeServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+// O cookie httpOnly do access token chega no handshake; o pacote cookie é só dependência transitiva
+function readCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+function isPresenceRoom(room: RealtimeRoom): boolean {
+  return PRESENCE_ROOM_TYPES.includes(room.type);
+}
+
+// Sala a partir do nome no servidor (task:12); null para a sala interna do próprio socket
+function parseRoomName(name: string): RealtimeRoom | null {
+  const [type, id] = name.split(':');
+  const room = { type, id: Number(id) } as RealtimeRoom;
+  return isRealtimeRoom(room) ? room : null;
+}
+
+function isRealtimeRoom(room: unknown): room is RealtimeRoom {
+  const candidate = room as RealtimeRoom;
+  return !!candidate
+    && REALTIME_ROOM_TYPES.includes(candidate.type)
+    && Number.isInteger(candidate.id)
+    && candidate.id > 0;
+}
+
+/**
+ * Serviço de Tempo Real
+ *
+ * Único canal Socket.IO da aplicação. O access token é validado no handshake
+ * (a identidade nunca vem do cliente) e cada socket entra automaticamente na sala
+ * do próprio usuário. Salas de tarefas, projetos, clientes e canais de chat são assinadas pelo
+ * cliente e só são liberadas depois de conferido o acesso, como nas rotas REST.
+ */
+export class RealtimeService {
+  private static io: RealtimeServer | null = null;
+
+  static attach(httpServer: HttpServer): RealtimeServer {
+    const io: RealtimeServer = new SocketIOServer(httpServer, { path: REALTIME_PATH });
+
+    io.use((socket, next) => {
+      const token = readCookie(socket.handshake.headers.cookie, 'accessToken')
+        ?? (typeof socket.handshake.auth?.token === 'string' ? socket.handshake.auth.token : undefined);
+
+      if (!token) {
+        return next(new Error('unauthorized'));
+      }
+
+      verifyAccessToken(token)
+        .then(async user => {
+          if (!user) {
+            return next(new Error('unauthorized'));
+          }
+
+          const record = await storage.getUser(user.id);
+          if (!record || record.is_active === false) {
+            return next(new Error('unauthorized'));
+          }
+
+          socket.data.user = user;
+          socket.data.presence = { id: record.id, name: record.name, avatar: record.avatar ?? null };
+          next();
+        })
+        .catch(error => {
+          console.error('[Tempo real] Erro ao autenticar conexão:', error);
+          next(new Error('unauthorized'));
+        });
+    });
+
+    io.on('connection', (socket) => this.handleConnection(socket));
+
+    this.io = io;
+    return io;
+  }
+
+  private static handleConnection(socket: RealtimeSocket) {
+    const { user } = socket.data;
+    socket.join(realtimeRoomName('user', user.id));
+    console.log(`[Tempo real] Usuário ${user.id} conectado (${socket.id})`);
+
+    socket.on('subscribe', async (room, ack) => {
+      try {
+        if (!isRealtimeRoom(room)) {
+          return ack?.({ ok: false, message: 'Sala inválida' });
+        }
+
+        if (!(await this.canSubscribe(socket.data.user, room))) {
+          return ack?.({ ok: false, message: 'Acesso negado' });
+        }
+
+        await socket.join(realtimeRoomName(room.type, room.id));
+        ack?.({ ok: true });
+
+        if (isPresenceRoom(room)) {
+          await this.emitPresence(room);
+        }
+      } catch (error) {
+        console.error('[Tempo real] Erro ao assinar sala:', error);
+        ack?.({ ok: false, message: 'Erro ao assinar sala' });
+      }
+    });
+
+    socket.on('unsubscribe', async (room) => {
+      if (isRealtimeRoom(room) && !(room.type === 'user' && room.id === user.id)) {
+        await socket.leave(realtimeRoomName(room.type, room.id));
+
+        if (isPresenceRoom(room)) {
+          this.emitPresence(room).catch(error => console.error('[Tempo real] Erro ao atualizar presença:', error));
+        }
+      }
+    });
+
+    // Só repassa para salas que o socket já assinou (o acesso foi conferido no subscribe)
+    socket.on('typing', (event) => {
+      const room = event?.room;
+      if (!isRealtimeRoom(room) || !isPresenceRoom(room)) return;
+
+      const name = realtimeRoomName(room.type, room.id);
+      if (!socket.rooms.has(name)) return;
+
+      socket.to(name).emit('typing', { room, user: socket.data.presence, typing: event.typing === true });
+    });
+
+    // As salas ainda estão disponíveis em "disconnecting"; a presença é recalculada após a saída
+    let presenceRooms: RealtimeRoom[] = [];
+    socket.on('disconnecting', () => {
+      presenceRooms = Array.from(socket.rooms)
+        .map(parseRoomName)
+        .filter((room): room is RealtimeRoom => !!room && isPresenceRoom(room));
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log(`[Tempo real] Usuário ${user.id} desconectado (${reason})`);
+
+      presenceRooms.forEach(room => {
+        this.emitPresence(room).catch(error => console.error('[Tempo real] Erro ao atualizar presença:', error));
+      });
+    });
+  }
+
+  /**
+   * Mesmas regras das rotas de leitura: tarefas e projetos exigem acesso ao projeto,
+   * clientes qualquer usuário autenticado, a sala de usuário apenas o próprio usuário
+   * e os canais de chat quem participa do canal
+   */
+  private static async canSubscribe(user: SocketData['user'], room: RealtimeRoom): Promise<boolean> {
+    switch (room.type) {
+      case 'user':
+        return room.id === user.id;
+      case 'client':
+        return true;
+      case 'project':
+        return !!(await getProjectAccess(user, room.id));
+      case 'task': {
+        const task = await storage.getTask(room.id);
+        if (!task) return false;
+        return !task.project_id || !!(await getProjectAccess(user, task.project_id));
+      }
+      case 'chat': {
+        const channel = await ChatService.getChannel(room.id);
+        return !!channel && await ChatService.canAccess(user, channel);
+      }
+    }
+  }
+
+  /**
+   * Envia à sala a lista de usuários que estão com ela aberta (um usuário com
+   * várias abas aparece uma única vez)
+   */
+  private static async emitPresence(room: RealtimeRoom) {
+    if (!this.io) return;
+
+    const name = realtimeRoomName(room.type, room.id);
+    const sockets = await this.io.in(name).fetchSockets();
+
+    const viewers = new Map<number, PresenceUser>();
+    sockets.forEach(item => viewers.set(item.data.presence.id, item.data.presence));
+
+    this.emitTo([name], 'presence', { room, viewers: Array.from(viewers.values()) });
+  }
+
+  /**
+   * Derruba as conexões de um usuário: todas (conta desativada ou excluída, todas as
+   * sessões encerradas) ou apenas as abertas com as sessões informadas. A reconexão
+   * passa de novo pelo handshake, que recusa sessões revogadas e usuários inativos.
+   */
+  static async disconnectUser(userId: number, sessionIds?: number[]) {
+    if (!this.io) return;
+
+    const room = realtimeRoomName('user', userId);
+    if (!sessionIds) {
+      this.io.in(room).disconnectSockets(true);
+      return;
+    }
+
+    const sockets = await this.io.in(room).fetchSockets();
+    sockets
+      .filter(item => item.data.user.sessionId !== undefined && sessionIds.includes(item.data.user.sessionId))
+      .forEach(item => item.disconnect(true));
+  }
+
+  private static emitTo<E extends RealtimeEventName>(rooms: string[], event: E, ...args: RealtimeEventArgs<E>) {
+    if (!this.io || rooms.length === 0) return;
+    this.io.to(rooms).emit(event, ...args);
+  }
+
+  static toUser<E extends RealtimeEventName>(userId: number, event: E, ...args: RealtimeEventArgs<E>) {
+    this.emitTo([realtimeRoomName('user', userId)], event, ...args);
+  }
+
+  static toProject<E extends RealtimeEventName>(projectId: number, event: E, ...args: RealtimeEventArgs<E>) {
+    this.emitTo([realtimeRoomName('project', projectId)], event, ...args);
+  }
+
+  static toClient<E extends RealtimeEventName>(clientId: number, event: E, ...args: RealtimeEventArgs<E>) {
+    this.emitTo([realtimeRoomName('client', clientId)], event, ...args);
+  }
+
+  static toTask<E extends RealtimeEventName>(taskId: number, event: E, ...args: RealtimeEventArgs<E>) {
+    this.emitTo([realtimeRoomName('task', taskId)], event, ...args);
+  }
+
+  /**
+   * Entrega a um canal de chat e às salas pessoais de alguns usuários (lista vazia: só o canal)
+   */
+  static toChat<E extends RealtimeEventName>(channelId: number, userIds: number[], event: E, ...args: RealtimeEventArgs<E>) {
+    this.emitTo(
+      [realtimeRoomName('chat', channelId), ...userIds.map(userId => realtimeRoomName('user', userId))],
+      event,
+      ...args
+    );
+  }
+
+  /**
+   * Entrega às salas de uma tarefa: a própria tarefa, seu projeto e o responsável.
+   * O Socket.IO não repete o evento para quem está em mais de uma dessas salas.
+   */
+  static toTaskAudience<E extends RealtimeEventName>(
+    task: { id: number; project_id?: number | null; assigned_to?: number | null },
+    event: E,
+    ...args: RealtimeEventArgs<E>
+  ) {
+    const rooms = [realtimeRoomName('task', task.id)];
+    if (task.project_id) rooms.push(realtimeRoomName('project', task.project_id));
+    if (task.assigned_to) rooms.push(realtimeRoomName('user', task.assigned_to));
+    this.emitTo(rooms, event, ...args);
+  }
+
+  /**
+   * Publica a alteração de uma entidade para que as telas abertas recarreguem seus dados.
+   * Vai para todos os usuários conectados porque o evento não carrega dados.
+   */
+  static entityChanged(
+    entity: RealtimeEntityType,
+    id: number,
+    action: RealtimeEntityAction,
+    actorId: number,
+    related: Pick<EntityChangedEvent, 'projectId' | 'clientId'> = {}
+  ) {
+    this.broadcast('entity_changed', {
+      entity,
+      id,
+      action,
+      actorId,
+      ...related,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Entrega a todos os usuários conectados (todas as conexões são autenticadas)
+   */
+  static broadcast<E extends RealtimeEventName>(event: E, ...args: RealtimeEventArgs<E>) {
+    if (!this.io) return;
+    this.io.emit(event, ...args);
+  }
+}
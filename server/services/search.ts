@@ -0,0 +1,326 @@
+import { db } from "../db";
+import { getProjectScope, hasPermission } from "../auth";
+import { memberProjectIds, taskScopeCondition } from "../storage";
+import {
+  clientAttachments,
+  clientContacts,
+  clients,
+  comments,
+  financialDocuments,
+  projectAttachments,
+  projects,
+  taskAttachments,
+  tasks
+} from "@shared/schema";
+import type { SearchResult, SearchResultType } from "@shared/search";
+import { mentionsToPlainText } from "@shared/mentions";
+import { and, desc, eq, inArray, isNotNull, isNull, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+type SearchUser = { id: number; role: string; permissions?: string[] };
+
+// Máximo de termos considerados na consulta
+const MAX_TERMS = 8;
+
+// Tudo que não é letra (inclusive acentuada) ou número separa os termos
+const TERM_SEPARATOR = /[^0-9A-Za-zÀ-ÖØ-öø-ÿ]+/;
+
+// Peso de cada tipo na ordenação final: nomes de projetos e clientes aparecem antes
+// de trechos de comentários com a mesma relevância
+const TYPE_WEIGHTS: Record<SearchResultType, number> = {
+  project: 1,
+  client: 1,
+  task: 0.9,
+  contact: 0.8,
+  financial_document: 0.8,
+  attachment: 0.7,
+  comment: 0.6
+};
+
+/**
+ * Vetor de busca das colunas, com a configuração 'portuguese_unaccent' (sem acentos e
+ * com radicais em português). A expressão é a mesma dos índices GIN da migração 021;
+ * se mudar aqui, o índice correspondente precisa ser recriado.
+ */
+function searchVector(...columns: AnyColumn[]): SQL {
+  const text = sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `);
+  return sql`to_tsvector('portuguese_unaccent'::regconfig, ${text})`;
+}
+
+// Nomes de arquivos e números de documentos: separadores viram espaços ("NF-2024-001" → "NF 2024 001")
+function identifierVector(column: AnyColumn): SQL {
+  return sql`to_tsvector('portuguese_unaccent'::regconfig, translate(coalesce(${column}, ''), '-_./', '    '))`;
+}
+
+function matches(vector: SQL, query: string): SQL {
+  return sql`${vector} @@ to_tsquery('portuguese_unaccent'::regconfig, ${query})`;
+}
+
+function rankOf(vector: SQL, query: string): SQL<number> {
+  return sql<number>`ts_rank(${vector}, to_tsquery('portuguese_unaccent'::regconfig, ${query}))`.mapWith(Number);
+}
+
+/**
+ * Serviço de Busca
+ *
+ * Busca de texto completo (PostgreSQL) em projetos, tarefas, clientes, contatos,
+ * comentários, nomes de arquivos anexados e números de documentos financeiros.
+ * Cada tipo é consultado separadamente, com as mesmas regras de acesso das rotas
+ * de listagem, e os resultados são ordenados juntos pela relevância.
+ */
+export class SearchService {
+  /**
+   * Converte o texto digitado em tsquery: cada termo vira um prefixo ("cont" encontra
+   * "contrato") e todos precisam aparecer. Retorna null quando não sobra nenhum termo.
+   */
+  static toTsQuery(text: string): string | null {
+    const terms = text.split(TERM_SEPARATOR).filter(Boolean).slice(0, MAX_TERMS);
+    if (terms.length === 0) return null;
+    return terms.map(term => `${term}:*`).join(' & ');
+  }
+
+  static async search(
+    user: SearchUser,
+    text: string,
+    options: { limit: number; types?: SearchResultType[] }
+  ): Promise<SearchResult[]> {
+    const query = this.toTsQuery(text);
+    if (!query) return [];
+
+    const [scope, canViewFinancials] = await Promise.all([
+      getProjectScope(user),
+      hasPermission(user, 'view_financials')
+    ]);
+    const memberProjects = memberProjectIds(user.id);
+
+    // Projetos visíveis (undefined = sem restrição)
+    const projectVisible = (column: AnyColumn, allowNull: boolean) =>
+      scope ? (allowNull ? or(isNull(column), inArray(column, memberProjects)) : inArray(column, memberProjects)) : undefined;
+    // Tarefas visíveis: mesmo escopo da listagem de tarefas
+    const taskVisible = scope ? taskScopeCondition(scope) : undefined;
+
+    const context: SearchContext = { query, limit: options.limit, projectVisible, taskVisible, canViewFinancials };
+    const wanted = (type: SearchResultType) => !options.types || options.types.includes(type);
+
+    const searches: Promise<SearchResult[]>[] = [];
+    if (wanted('project')) searches.push(searchProjects(context));
+    if (wanted('task')) searches.push(searchTasks(context));
+    if (wanted('client')) searches.push(searchClients(context));
+    if (wanted('contact')) searches.push(searchContacts(context));
+    if (wanted('comment')) searches.push(searchComments(context));
+    if (wanted('attachment')) searches.push(searchAttachments(context));
+    if (wanted('financial_document') && canViewFinancials) searches.push(searchFinancialDocuments(context));
+
+    const results = (await Promise.all(searches)).flat();
+
+    return results
+      .sort((a, b) => b.rank * TYPE_WEIGHTS[b.type] - a.rank * TYPE_WEIGHTS[a.type])
+      .slice(0, options.limit);
+  }
+}
+
+interface SearchContext {
+  query: string;
+  limit: number;
+  projectVisible: (column: AnyColumn, allowNull: boolean) => SQL | undefined;
+  taskVisible: SQL | undefined;
+  canViewFinancials: boolean;
+}
+
+async function searchProjects({ query, limit, projectVisible }: SearchContext): Promise<SearchResult[]> {
+  const vector = searchVector(projects.name, projects.description);
+  const rows = await db.select({ id: projects.id, name: projects.name, client: clients.name, rank: rankOf(vector, query) })
+    .from(projects)
+    .leftJoin(clients, eq(projects.client_id, clients.id))
+    .where(and(matches(vector, query), projectVisible(projects.id, false)))
+    .orderBy(desc(rankOf(vector, query)))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: 'project',
+    id: row.id,
+    title: row.name,
+    subtitle: row.client,
+    link: `/projects/${row.id}`,
+    rank: row.rank
+  }));
+}
+
+async function searchTasks({ query, limit, taskVisible }: SearchContext): Promise<SearchResult[]> {
+  const vector = searchVector(tasks.title, tasks.description);
+  const rows = await db.select({ id: tasks.id, title: tasks.title, project: projects.name, rank: rankOf(vector, query) })
+    .from(tasks)
+    .leftJoin(projects, eq(tasks.project_id, projects.id))
+    .where(and(matches(vector, query), taskVisible))
+    .orderBy(desc(rankOf(vector, query)))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: 'task',
+    id: row.id,
+    title: row.title,
+    subtitle: row.project,
+    link: `/tasks/${row.id}`,
+    rank: row.rank
+  }));
+}
+
+async function searchClients({ query, limit }: SearchContext): Promise<SearchResult[]> {
+  const vector = searchVector(clients.name, clients.shortName, clients.cnpj, clients.contactName, clients.notes);
+  const rows = await db.select({ id: clients.id, name: clients.name, city: clients.city, cnpj: clients.cnpj, rank: rankOf(vector, query) })
+    .from(clients)
+    .where(matches(vector, query))
+    .orderBy(desc(rankOf(vector, query)))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: 'client',
+    id: row.id,
+    title: row.name,
+    subtitle: row.city ?? row.cnpj,
+    link: `/clients/${row.id}`,
+    rank: row.rank
+  }));
+}
+
+async function searchContacts({ query, limit }: SearchContext): Promise<SearchResult[]> {
+  const vector = searchVector(clientContacts.name, clientContacts.email, clientContacts.position);
+  const rows = await db.select({
+    id: clientContacts.id,
+    name: clientContacts.name,
+    position: clientContacts.position,
+    client_id: clientContacts.client_id,
+    client: clients.name,
+    rank: rankOf(vector, query)
+  })
+    .from(clientContacts)
+    .leftJoin(clients, eq(clientContacts.client_id, clients.id))
+    .where(matches(vector, query))
+    .orderBy(desc(rankOf(vector, query)))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: 'contact',
+    id: row.id,
+    title: row.name,
+    subtitle: [row.position, row.client].filter(Boolean).join(' · ') || null,
+    link: `/clients/${row.client_id}`,
+    rank: row.rank
+  }));
+}
+
+async function searchComments({ query, limit, projectVisible, taskVisible, canViewFinancials }: SearchContext): Promise<SearchResult[]> {
+  const vector = searchVector(comments.comment);
+  const rows = await db.select({
+    id: comments.id,
+    entity_type: comments.entity_type,
+    entity_id: comments.entity_id,
+    snippet: sql<string>`ts_headline('portuguese_unaccent'::regconfig, ${comments.comment}, to_tsquery('portuguese_unaccent'::regconfig, ${query}), 'StartSel="", StopSel="", MaxWords=18, MinWords=6')`,
+    task: tasks.title,
+    project: projects.name,
+    client: clients.name,
+    document: financialDocuments.document_number,
+    rank: rankOf(vector, query)
+  })
+    .from(comments)
+    .leftJoin(tasks, and(eq(comments.entity_type, 'task'), eq(tasks.id, comments.entity_id)))
+    .leftJoin(projects, and(eq(comments.entity_type, 'project'), eq(projects.id, comments.entity_id)))
+    .leftJoin(clients, and(eq(comments.entity_type, 'client'), eq(clients.id, comments.entity_id)))
+    .leftJoin(financialDocuments, and(eq(comments.entity_type, 'financial_document'), eq(financialDocuments.id, comments.entity_id)))
+    .where(and(
+      matches(vector, query),
+      or(isNull(comments.deleted), eq(comments.deleted, false)),
+      or(
+        and(isNotNull(tasks.id), taskVisible),
+        and(isNotNull(projects.id), projectVisible(projects.id, false)),
+        isNotNull(clients.id),
+        canViewFinancials
+          ? and(isNotNull(financialDocuments.id), projectVisible(financialDocuments.project_id, true))
+          : undefined
+      )
+    ))
+    .orderBy(desc(rankOf(vector, query)))
+    .limit(limit);
+
+  return rows.map(row => {
+    const [title, link] =
+      row.task !== null ? [row.task, `/tasks/${row.entity_id}`] :
+      row.project !== null ? [row.project, `/projects/${row.entity_id}`] :
+      row.client !== null ? [row.client, `/clients/${row.entity_id}`] :
+      [row.document ? `Documento ${row.document}` : `Documento #${row.entity_id}`, '/financial'];
+
+    return {
+      type: 'comment',
+      id: row.id,
+      title,
+      subtitle: mentionsToPlainText(row.snippet),
+      link,
+      rank: row.rank
+    };
+  });
+}
+
+async function searchAttachments({ query, limit, projectVisible, taskVisible }: SearchContext): Promise<SearchResult[]> {
+  const taskVector = identifierVector(taskAttachments.file_name);
+  const projectVector = identifierVector(projectAttachments.file_name);
+  const clientVector = identifierVector(clientAttachments.file_name);
+
+  const [taskRows, projectRows, clientRows] = await Promise.all([
+    db.select({ id: taskAttachments.id, file_name: taskAttachments.file_name, entity_id: tasks.id, entity: tasks.title, rank: rankOf(taskVector, query) })
+      .from(taskAttachments)
+      .innerJoin(tasks, eq(taskAttachments.task_id, tasks.id))
+      .where(and(matches(taskVector, query), taskVisible))
+      .orderBy(desc(rankOf(taskVector, query)))
+      .limit(limit),
+    db.select({ id: projectAttachments.id, file_name: projectAttachments.file_name, entity_id: projects.id, entity: projects.name, rank: rankOf(projectVector, query) })
+      .from(projectAttachments)
+      .innerJoin(projects, eq(projectAttachments.project_id, projects.id))
+      .where(and(matches(projectVector, query), projectVisible(projects.id, false)))
+      .orderBy(desc(rankOf(projectVector, query)))
+      .limit(limit),
+    db.select({ id: clientAttachments.id, file_name: clientAttachments.file_name, entity_id: clients.id, entity: clients.name, rank: rankOf(clientVector, query) })
+      .from(clientAttachments)
+      .innerJoin(clients, eq(clientAttachments.client_id, clients.id))
+      .where(matches(clientVector, query))
+      .orderBy(desc(rankOf(clientVector, query)))
+      .limit(limit)
+  ]);
+
+  const toResult = (base: string) => (row: { id: number; file_name: string; entity_id: number; entity: string; rank: number }): SearchResult => ({
+    type: 'attachment',
+    id: row.id,
+    title: row.file_name,
+    subtitle: row.entity,
+    link: `${base}/${row.entity_id}`,
+    rank: row.rank
+  });
+
+  return [
+    ...taskRows.map(toResult('/tasks')),
+    ...projectRows.map(toResult('/projects')),
+    ...clientRows.map(toResult('/clients'))
+  ];
+}
+
+async function searchFinancialDocuments({ query, limit, projectVisible }: SearchContext): Promise<SearchResult[]> {
+  const vector = identifierVector(financialDocuments.document_number);
+  const rows = await db.select({
+    id: financialDocuments.id,
+    document_number: financialDocuments.document_number,
+    client: clients.name,
+    rank: rankOf(vector, query)
+  })
+    .from(financialDocuments)
+    .leftJoin(clients, eq(financialDocuments.client_id, clients.id))
+    .where(and(matches(vector, query), projectVisible(financialDocuments.project_id, true)))
+    .orderBy(desc(rankOf(vector, query)))
+    .limit(limit);
+
+  return rows.map(row => ({
+    type: 'financial_document',
+    id: row.id,
+    title: `Documento ${row.document_number}`,
+    subtitle: row.client,
+    link: '/financial',
+    rank: row.rank
+  }));
+}
@@ -0,0 +1,88 @@
+import type { Request } from "express";
+import { db } from "../db";
+import { securityEvents, users, type SecurityEvent } from "@shared/schema";
+import { and, desc, eq, sql, type SQL } from "drizzle-orm";
+
+export type SecurityEventType =
+  | 'login_success'
+  | 'login_failed'
+  | 'login_blocked'
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'ip_locked'
+  | 'two_factor_failed'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'password_reset_requested'
+  | 'password_reset_completed'
+  | 'api_token_created'
+  | 'api_token_revoked';
+
+export interface SecurityEventInput {
+  userId?: number | null;
+  actorId?: number | null;
+  identifier?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SecurityEventFilters {
+  userId?: number;
+  eventType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Serviço de Eventos de Segurança
+ *
+ * Registra tentativas de login, bloqueios e alterações de credenciais para auditoria.
+ * Falhas ao gravar o evento nunca interrompem a requisição.
+ */
+export class SecurityEventService {
+
+  /**
+   * Registra um evento a partir da requisição (IP e user agent)
+   */
+  static async log(type: SecurityEventType, req: Request, event: SecurityEventInput = {}): Promise<void> {
+    try {
+      await db.insert(securityEvents).values({
+        event_type: type,
+        user_id: event.userId ?? null,
+        actor_id: event.actorId ?? null,
+        identifier: event.identifier ?? null,
+        ip_address: req.ip ?? null,
+        user_agent: req.headers['user-agent'] ?? null,
+        metadata: event.metadata ?? null
+      });
+    } catch (error) {
+      console.error(`[Segurança] Erro ao registrar evento ${type}:`, error);
+    }
+  }
+
+  /**
+   * Lista os eventos mais recentes, com o nome do usuário envolvido
+   */
+  static async list(filters: SecurityEventFilters = {}): Promise<{ events: (SecurityEvent & { user_name: string | null })[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.userId) conditions.push(eq(securityEvents.user_id, filters.userId));
+    if (filters.eventType) conditions.push(eq(securityEvents.event_type, filters.eventType));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = await db.select({ event: securityEvents, user_name: users.name })
+      .from(securityEvents)
+      .leftJoin(users, eq(securityEvents.user_id, users.id))
+      .where(where)
+      .orderBy(desc(securityEvents.created_at))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(securityEvents)
+      .where(where);
+
+    return {
+      events: rows.map(row => ({ ...row.event, user_name: row.user_name })),
+      total: count
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import { addDays, endOfDay, endOfMonth, endOfWeek, parseISO, startOfDay, startOfMonth, startOfWeek } from "date-fns";
+import { db } from "../db";
+import { getProjectScope } from "../auth";
+import { taskScopeCondition } from "../storage";
+import {
+  clients,
+  projects,
+  tasks,
+  users,
+  TASK_PRIORITY_WEIGHTS,
+  TASK_STATUS_WEIGHTS,
+  type Task,
+  type TaskDuePeriod,
+  type TaskListFilters,
+  type TaskSortDirection,
+  type TaskSortField
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, ilike, inArray, isNull, lte, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+type TaskListViewer = { id: number; role: string; permissions?: string[] };
+
+export interface TaskListOptions {
+  sortBy?: TaskSortField;
+  sortDir?: TaskSortDirection;
+  limit?: number; // Sem limite retorna todas as tarefas filtradas
+  offset?: number;
+}
+
+export type TaskListItem = Task & {
+  project?: typeof projects.$inferSelect;
+  client?: { id: number; name: string; shortName: string | null };
+  assignedUser?: { id: number; name: string; email: string; avatar: string | null; role: string };
+};
+
+// Tarefas que vencem dentro deste prazo contam como "próximas do prazo" na ordenação smart
+const DUE_SOON_DAYS = 5;
+
+/**
+ * Peso numérico de uma coluna de texto. Os pesos são constantes do código, então
+ * entram direto no SQL (parâmetros num CASE seriam tratados como texto).
+ */
+function weightOf(column: AnyColumn, weights: Record<string, number>, fallback: number): SQL<number> {
+  const cases = Object.entries(weights).map(([value, weight]) => sql`when ${value} then ${sql.raw(String(weight))}`);
+  return sql<number>`(case ${column} ${sql.join(cases, sql` `)} else ${sql.raw(String(fallback))} end)`;
+}
+
+const priorityWeight = weightOf(tasks.priority, TASK_PRIORITY_WEIGHTS, TASK_PRIORITY_WEIGHTS.media);
+const statusWeight = weightOf(tasks.status, TASK_STATUS_WEIGHTS, TASK_STATUS_WEIGHTS.pendente);
+const isCompleted = sql`coalesce(${tasks.completed}, false)`;
+
+/**
+ * Intervalo [início, fim] do período de prazo, calculado a partir de agora
+ */
+function duePeriodRange(period: Exclude<TaskDuePeriod, 'no_date'>, now: Date): [Date, Date] {
+  switch (period) {
+    case 'today':
+      return [startOfDay(now), endOfDay(now)];
+    case 'this_week':
+      return [startOfWeek(now, { weekStartsOn: 1 }), endOfWeek(now, { weekStartsOn: 1 })];
+    case 'next_7_days':
+      return [startOfDay(now), endOfDay(addDays(now, 7))];
+    case 'this_month':
+      return [startOfMonth(now), endOfMonth(now)];
+  }
+}
+
+// Curingas do ILIKE digitados na busca valem como texto
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Serviço da lista de tarefas
+ *
+ * Aplica no banco os filtros, a ordenação e a paginação da página de tarefas
+ * (GET /api/tasks com parâmetros de consulta), respeitando o escopo de projetos
+ * do usuário: sem 'view_all_jobs', apenas tarefas dos seus projetos ou atribuídas a ele.
+ */
+export class TaskListService {
+
+  static async list(
+    viewer: TaskListViewer,
+    filters: TaskListFilters,
+    options: TaskListOptions = {}
+  ): Promise<{ tasks: TaskListItem[]; total: number }> {
+    const where = and(...await this.conditions(viewer, filters));
+
+    let query = db.select({
+      task: tasks,
+      project: projects,
+      client: { id: clients.id, name: clients.name, shortName: clients.shortName },
+      assignedUser: { id: users.id, name: users.name, email: users.email, avatar: users.avatar, role: users.role }
+    })
+      .from(tasks)
+      .leftJoin(projects, eq(tasks.project_id, projects.id))
+      .leftJoin(clients, eq(projects.client_id, clients.id))
+      .leftJoin(users, eq(tasks.assigned_to, users.id))
+      .where(where)
+      .orderBy(...this.orderBy(options.sortBy ?? 'smart', options.sortDir ?? 'desc'))
+      .$dynamic();
+
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    if (options.offset) query = query.offset(options.offset);
+
+    const [rows, [{ count }]] = await Promise.all([
+      query,
+      db.select({ count: sql<number>`count(*)::int` }).from(tasks).where(where)
+    ]);
+
+    return {
+      tasks: rows.map(row => ({
+        ...row.task,
+        project: row.project ?? undefined,
+        client: row.client ?? undefined,
+        assignedUser: row.assignedUser ?? undefined
+      })),
+      total: count
+    };
+  }
+
+  private static async conditions(viewer: TaskListViewer, filters: TaskListFilters): Promise<(SQL | undefined)[]> {
+    const conditions: (SQL | undefined)[] = [];
+    const now = new Date();
+
+    const scope = await getProjectScope(viewer);
+    if (scope) conditions.push(taskScopeCondition(scope));
+
+    if (filters.search) {
+      const pattern = `%${escapeLike(filters.search)}%`;
+      conditions.push(or(ilike(tasks.title, pattern), ilike(tasks.description, pattern)));
+    }
+
+    if (filters.assignedTo?.length) {
+      const userIds = filters.assignedTo
+        .map(value => value === 'me' ? viewer.id : value)
+        .filter((value): value is number => typeof value === 'number');
+      conditions.push(or(
+        userIds.length > 0 ? inArray(tasks.assigned_to, userIds) : undefined,
+        filters.assignedTo.includes('none') ? isNull(tasks.assigned_to) : undefined
+      ));
+    }
+
+    if (filters.projectId?.length) {
+      conditions.push(inArray(tasks.project_id, filters.projectId));
+    }
+    if (filters.clientId?.length) {
+      const clientProjects = db.select({ id: projects.id })
+        .from(projects)
+        .where(inArray(projects.client_id, filters.clientId));
+      conditions.push(inArray(tasks.project_id, clientProjects));
+    }
+
+    if (filters.priority?.length) conditions.push(inArray(tasks.priority, filters.priority));
+    if (filters.status?.length) conditions.push(inArray(tasks.status, filters.status));
+
+    if (filters.tags?.length) {
+      const tags = filters.tags.map(tag => sql`${tag.toLowerCase()}`);
+      conditions.push(sql`exists (
+        select 1 from json_array_elements_text(coalesce(${tasks.tags}, '[]'::json)) as tag
+        where lower(tag) in (${sql.join(tags, sql`, `)})
+      )`);
+    }
+
+    if (filters.duePeriod === 'no_date') {
+      conditions.push(isNull(tasks.due_date));
+    } else if (filters.duePeriod) {
+      const [from, to] = duePeriodRange(filters.duePeriod, now);
+      conditions.push(gte(tasks.due_date, from), lte(tasks.due_date, to));
+    }
+    if (filters.dueFrom) conditions.push(gte(tasks.due_date, startOfDay(parseISO(filters.dueFrom))));
+    if (filters.dueTo) conditions.push(lte(tasks.due_date, endOfDay(parseISO(filters.dueTo))));
+
+    // Atrasada: prazo antes de hoje e ainda não concluída (mesma regra da interface)
+    if (filters.overdue !== undefined) {
+      const overdue = sql`(${tasks.due_date} < ${startOfDay(now)} and ${isCompleted} = false)`;
+      conditions.push(filters.overdue ? overdue : sql`not coalesce(${overdue}, false)`);
+    }
+    if (filters.completed !== undefined) {
+      conditions.push(sql`${isCompleted} = ${filters.completed}`);
+    }
+
+    return conditions;
+  }
+
+  private static orderBy(sortBy: TaskSortField, sortDir: TaskSortDirection): SQL[] {
+    const direction = sortDir === 'asc' ? asc : desc;
+    const nullsLast = (expression: SQL) => sql`${expression} nulls last`;
+
+    switch (sortBy) {
+      case 'title':
+        return [direction(sql`lower(${tasks.title})`), desc(tasks.id)];
+      case 'priority':
+        return [direction(priorityWeight), asc(tasks.due_date), desc(tasks.id)];
+      case 'status':
+        return [direction(statusWeight), asc(tasks.due_date), desc(tasks.id)];
+      case 'due_date':
+        return [nullsLast(direction(tasks.due_date)), desc(priorityWeight), desc(tasks.id)];
+      case 'created':
+        return [nullsLast(direction(tasks.creation_date)), desc(tasks.id)];
+      case 'smart':
+      default: {
+        // Pendentes antes das concluídas; entre elas, atrasadas, depois as que vencem
+        // nos próximos dias e por fim as demais, cada grupo por prioridade e prazo
+        const urgency = sql`(case
+          when ${tasks.due_date} < ${startOfDay(new Date())} then 0
+          when ${tasks.due_date} < ${addDays(new Date(), DUE_SOON_DAYS)} then 1
+          else 2 end)`;
+        return [
+          asc(isCompleted),
+          asc(urgency),
+          desc(priorityWeight),
+          nullsLast(asc(tasks.due_date)),
+          desc(statusWeight),
+          desc(tasks.id)
+        ];
+      }
+    }
+  }
+}
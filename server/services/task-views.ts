@@ -0,0 +1,58 @@
+import { db } from "../db";
+import { taskViews, type SaveTaskViewInput, type TaskView } from "@shared/schema";
+import { and, asc, eq, ne } from "drizzle-orm";
+
+/**
+ * Serviço de Visões Salvas de Tarefas
+ *
+ * Cada usuário guarda combinações de filtros e ordenação da lista de tarefas com
+ * um nome (ex.: "Minhas tarefas críticas desta semana"). Os nomes são únicos por usuário.
+ */
+export class TaskViewService {
+
+  static async list(userId: number): Promise<TaskView[]> {
+    return db.select()
+      .from(taskViews)
+      .where(eq(taskViews.user_id, userId))
+      .orderBy(asc(taskViews.name));
+  }
+
+  /**
+   * Indica se o usuário já tem outra visão com o nome informado
+   */
+  static async nameTaken(userId: number, name: string, exceptId?: number): Promise<boolean> {
+    const [existing] = await db.select({ id: taskViews.id })
+      .from(taskViews)
+      .where(and(
+        eq(taskViews.user_id, userId),
+        eq(taskViews.name, name),
+        exceptId ? ne(taskViews.id, exceptId) : undefined
+      ));
+    return !!existing;
+  }
+
+  static async create(userId: number, input: SaveTaskViewInput): Promise<TaskView> {
+    const [view] = await db.insert(taskViews)
+      .values({ user_id: userId, ...input })
+      .returning();
+    return view;
+  }
+
+  /**
+   * Atualiza uma visão do usuário (undefined = visão não encontrada)
+   */
+  static async update(userId: number, id: number, input: SaveTaskViewInput): Promise<TaskView | undefined> {
+    const [view] = await db.update(taskViews)
+      .set({ ...input, updated_at: new Date() })
+      .where(and(eq(taskViews.id, id), eq(taskViews.user_id, userId)))
+      .returning();
+    return view;
+  }
+
+  static async delete(userId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(taskViews)
+      .where(and(eq(taskViews.id, id), eq(taskViews.user_id, userId)))
+      .returning({ id: taskViews.id });
+    return deleted.length > 0;
+  }
+}
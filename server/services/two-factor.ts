@@ -0,0 +1,211 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { authenticator } from "otplib";
+import { db } from "../db";
+import { userTwoFactor, twoFactorRecoveryCodes, type User, type UserTwoFactor } from "@shared/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
+
+const TOTP_ISSUER = 'Content Crush';
+const TOTP_STEP_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Aceita o código do intervalo anterior/seguinte para tolerar diferenças de relógio
+authenticator.options = { step: TOTP_STEP_SECONDS, window: 1 };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // Data URL (PNG) para exibir no app
+}
+
+/**
+ * Serviço de Autenticação em Dois Fatores (TOTP)
+ *
+ * Gerencia a ativação por QR code, a verificação dos códigos de 6 dígitos
+ * gerados por apps autenticadores e os códigos de recuperação de uso único.
+ * O segredo TOTP é armazenado criptografado e cada código só pode ser usado uma vez.
+ */
+export class TwoFactorService {
+
+  private static getEncryptionKey(): Buffer {
+    // Deriva uma chave de 32 bytes independentemente do tamanho de ENCRYPTION_KEY
+    return crypto.createHash('sha256')
+      .update(process.env.ENCRYPTION_KEY || 'content-crush-encryption-key-32chars!')
+      .digest();
+  }
+
+  private static encryptSecret(secret: string): { secret: string; secret_iv: string } {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', this.getEncryptionKey(), iv);
+    const encrypted = cipher.update(secret, 'utf8', 'hex') + cipher.final('hex');
+    return { secret: encrypted, secret_iv: iv.toString('hex') };
+  }
+
+  private static decryptSecret(record: UserTwoFactor): string {
+    const decipher = crypto.createDecipheriv('aes-256-cbc', this.getEncryptionKey(), Buffer.from(record.secret_iv, 'hex'));
+    return decipher.update(record.secret, 'hex', 'utf8') + decipher.final('utf8');
+  }
+
+  // Os códigos são comparados sem hífens, espaços ou diferença de maiúsculas
+  private static hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private static generateRecoveryCode(): string {
+    const bytes = crypto.randomBytes(10);
+    const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  }
+
+  private static async getRecord(userId: number): Promise<UserTwoFactor | undefined> {
+    const [record] = await db.select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.user_id, userId));
+    return record;
+  }
+
+  /**
+   * Intervalo TOTP correspondente ao código, ou null se o código for inválido
+   * ou já tiver sido usado
+   */
+  private static matchTotp(record: UserTwoFactor, code: string): number | null {
+    const token = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(token)) return null;
+
+    const delta = authenticator.checkDelta(token, this.decryptSecret(record));
+    if (delta === null) return null;
+
+    const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+    if (record.last_used_step !== null && step <= record.last_used_step) return null;
+
+    return step;
+  }
+
+  /**
+   * Situação do 2FA do usuário
+   */
+  static async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const record = await this.getRecord(userId);
+    if (!record?.enabled) {
+      return { enabled: false, enabledAt: null, recoveryCodesRemaining: 0 };
+    }
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.user_id, userId), isNull(twoFactorRecoveryCodes.used_at)));
+
+    return { enabled: true, enabledAt: record.enabled_at, recoveryCodesRemaining: count };
+  }
+
+  static async isEnabled(userId: number): Promise<boolean> {
+    const record = await this.getRecord(userId);
+    return !!record?.enabled;
+  }
+
+  /**
+   * Inicia a ativação: gera um novo segredo (ainda inativo) e o QR code para o app autenticador
+   */
+  static async beginEnrollment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrollment> {
+    const secret = authenticator.generateSecret();
+    const encrypted = this.encryptSecret(secret);
+
+    await db.insert(userTwoFactor)
+      .values({ user_id: user.id, ...encrypted, enabled: false })
+      .onConflictDoUpdate({
+        target: userTwoFactor.user_id,
+        set: { ...encrypted, enabled: false, enabled_at: null, last_used_step: null, updated_at: new Date() }
+      });
+
+    const otpauthUrl = authenticator.keyuri(user.email, TOTP_ISSUER, secret);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Conclui a ativação com o primeiro código do app. Retorna os códigos de recuperação
+   * (exibidos uma única vez) ou null se o código for inválido.
+   */
+  static async confirmEnrollment(userId: number, code: string): Promise<string[] | null> {
+    const record = await this.getRecord(userId);
+    if (!record || record.enabled) return null;
+
+    const step = this.matchTotp(record, code);
+    if (step === null) return null;
+
+    await db.update(userTwoFactor)
+      .set({ enabled: true, enabled_at: new Date(), last_used_step: step, updated_at: new Date() })
+      .where(eq(userTwoFactor.id, record.id));
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Verifica um código do app autenticador
+   */
+  static async verifyCode(userId: number, code: string): Promise<boolean> {
+    const record = await this.getRecord(userId);
+    if (!record?.enabled) return false;
+
+    const step = this.matchTotp(record, code);
+    if (step === null) return false;
+
+    await db.update(userTwoFactor)
+      .set({ last_used_step: step, updated_at: new Date() })
+      .where(eq(userTwoFactor.id, record.id));
+
+    return true;
+  }
+
+  /**
+   * Usa um código de recuperação (cada código vale uma única vez)
+   */
+  static async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    const [used] = await db.update(twoFactorRecoveryCodes)
+      .set({ used_at: new Date() })
+      .where(
+        and(
+          eq(twoFactorRecoveryCodes.user_id, userId),
+          eq(twoFactorRecoveryCodes.code_hash, this.hashRecoveryCode(code)),
+          isNull(twoFactorRecoveryCodes.used_at)
+        )
+      )
+      .returning();
+
+    return !!used;
+  }
+
+  /**
+   * Gera um novo conjunto de códigos de recuperação, invalidando os anteriores
+   */
+  static async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.user_id, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(
+        codes.map(code => ({ user_id: userId, code_hash: this.hashRecoveryCode(code) }))
+      );
+    });
+
+    return codes;
+  }
+
+  /**
+   * Desativa o 2FA e descarta segredo e códigos de recuperação
+   */
+  static async disable(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.user_id, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.user_id, userId));
+    });
+  }
+}
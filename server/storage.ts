@@ -6,23 +6,31 @@ import NodeCache from "node-cache";
 const cache = new NodeCache({ stdTTL: 30 });
 import {
   users, clients, projects, projectMembers, projectStages, tasks,
-  taskComments, taskAttachments, clientInteractions, financialDocuments,
+  comments, taskAttachments, clientInteractions, financialDocuments,
   expenses, events, refreshTokens, userPreferences, commentReactions,
-  projectComments, projectCommentReactions, clientContacts, projectAttachments,
-  clientAttachments,
+  clientContacts, projectAttachments,
+  clientAttachments, permissions, rolePermissions, notifications,
   type User, type Client, type Project, type ProjectMember, type ProjectStage, 
-  type Task, type TaskComment, type TaskAttachment, type ClientInteraction,
+  type Task, type EntityComment, type TaskAttachment, type ClientInteraction,
   type FinancialDocument, type Expense, type Event, type UserPreference,
-  type ProjectComment, type ProjectCommentReaction, type ClientContact, 
+  type CommentEntityType, type ClientContact, 
   type ProjectAttachment, type ClientAttachment,
   type InsertUser, type InsertClient, type InsertProject, type InsertProjectMember,
-  type InsertProjectStage, type InsertTask, type InsertTaskComment, type InsertTaskAttachment,
+  type InsertProjectStage, type InsertTask, type InsertComment, type InsertTaskAttachment,
   type InsertClientInteraction, type InsertFinancialDocument, type InsertExpense, type InsertEvent,
   type InsertUserPreference, type InsertCommentReaction, type CommentReaction,
-  type InsertProjectComment, type InsertProjectCommentReaction, type InsertClientContact,
-  type InsertProjectAttachment, type InsertClientAttachment
+  type InsertClientContact,
+  type InsertProjectAttachment, type InsertClientAttachment,
+  type Permission, type InsertPermission, type UserRole,
+  type Notification, type InsertNotification
 } from "../shared/schema";
 
+// Restringe consultas aos projetos em que o usuário é membro (project_members).
+// Ausente = sem restrição (admin ou quem possui 'view_all_jobs').
+export interface ProjectAccessScope {
+  userId: number;
+}
+
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
@@ -40,32 +48,38 @@ export interface IStorage {
   createUserPreferences(preferences: InsertUserPreference): Promise<UserPreference>;
   updateUserPreferences(userId: number, preferences: Partial<InsertUserPreference>): Promise<UserPreference | undefined>;
   
-  // Comments
-  getTaskComments(taskId: number): Promise<TaskComment[]>;
-  getTaskCommentById(commentId: number): Promise<TaskComment | undefined>;
-  createTaskComment(comment: InsertTaskComment): Promise<TaskComment>;
-  updateTaskComment(commentId: number, updates: Partial<TaskComment>): Promise<TaskComment>;
-  softDeleteTaskComment(commentId: number): Promise<boolean>;
+  // Permissions (RBAC)
+  getPermissions(): Promise<Permission[]>;
+  getPermission(key: string): Promise<Permission | undefined>;
+  createPermission(permission: InsertPermission): Promise<Permission>;
+  updatePermission(key: string, permission: Partial<InsertPermission>): Promise<Permission | undefined>;
+  deletePermission(key: string): Promise<boolean>;
+  getRolePermissionMatrix(): Promise<Record<string, string[]>>;
+  getRolePermissionKeys(role: string): Promise<string[]>;
+  setRolePermission(role: UserRole, permissionKey: string, granted: boolean, grantedBy?: number): Promise<void>;
+  
+  // Notifications
+  getNotifications(userId: number, options?: { unreadOnly?: boolean; limit?: number; offset?: number }): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  
+  // Comments (tarefas, projetos, clientes e documentos financeiros)
+  getComments(entityType: CommentEntityType, entityId: number): Promise<EntityComment[]>;
+  getComment(commentId: number): Promise<EntityComment | undefined>;
+  createComment(comment: InsertComment): Promise<EntityComment>;
+  updateComment(commentId: number, updates: Partial<EntityComment>): Promise<EntityComment>;
+  softDeleteComment(commentId: number): Promise<boolean>;
+  deleteEntityComments(entityType: CommentEntityType, entityIds: number[]): Promise<void>;
   
   // Comment Reactions
-  getCommentReactionsByTaskId(taskId: number): Promise<CommentReaction[]>;
+  getCommentReactions(commentIds: number[]): Promise<CommentReaction[]>;
+  getCommentReaction(reactionId: number): Promise<CommentReaction | undefined>;
   getCommentReactionByUserAndComment(userId: number, commentId: number): Promise<CommentReaction | undefined>;
   createCommentReaction(reaction: InsertCommentReaction): Promise<CommentReaction>;
   deleteCommentReaction(reactionId: number): Promise<boolean>;
   
-  // Project Comments
-  getProjectComments(projectId: number): Promise<ProjectComment[]>;
-  getProjectCommentById(commentId: number): Promise<ProjectComment | undefined>;
-  createProjectComment(comment: InsertProjectComment): Promise<ProjectComment>;
-  updateProjectComment(commentId: number, updates: Partial<ProjectComment>): Promise<ProjectComment>;
-  softDeleteProjectComment(commentId: number): Promise<boolean>;
-  
-  // Project Comment Reactions
-  getProjectCommentReactionsByProjectId(projectId: number): Promise<ProjectCommentReaction[]>;
-  getProjectCommentReactionByUserAndComment(userId: number, commentId: number): Promise<ProjectCommentReaction | undefined>;
-  createProjectCommentReaction(reaction: InsertProjectCommentReaction): Promise<ProjectCommentReaction>;
-  deleteProjectCommentReaction(reactionId: number): Promise<boolean>;
-  
   // Clients
   getClient(id: number): Promise<Client | undefined>;
   getClients(): Promise<Client[]>;
@@ -80,7 +94,7 @@ export interface IStorage {
       contacts: number;
     } 
   }>;
-  getTasksByClient(clientId: number): Promise<Task[]>;
+  getTasksByClient(clientId: number, scope?: ProjectAccessScope): Promise<Task[]>;
   
   // Client Contacts
   getClientContact(id: number): Promise<ClientContact | undefined>;
@@ -92,8 +106,8 @@ export interface IStorage {
   
   // Projects
   getProject(id: number): Promise<Project | undefined>;
-  getProjects(): Promise<Project[]>;
-  getProjectsByClient(clientId: number): Promise<Project[]>;
+  getProjects(scope?: ProjectAccessScope): Promise<Project[]>;
+  getProjectsByClient(clientId: number, scope?: ProjectAccessScope): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
   updateProjectStatus(id: number, status: string): Promise<Project | undefined>;
@@ -102,6 +116,7 @@ export interface IStorage {
   
   // Project Members
   getProjectMembers(projectId: number): Promise<ProjectMember[]>;
+  getProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined>;
   addProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
   removeProjectMember(projectId: number, userId: number): Promise<boolean>;
   
@@ -113,19 +128,14 @@ export interface IStorage {
   
   // Tasks
   getTask(id: number): Promise<Task | undefined>;
-  getTasks(): Promise<Task[]>;
-  getTasksWithDetails(): Promise<Task[]>; // Método adicional para obter tarefas com detalhes de projeto e cliente
+  getTasks(scope?: ProjectAccessScope): Promise<Task[]>;
+  getTasksWithDetails(scope?: ProjectAccessScope): Promise<Task[]>; // Método adicional para obter tarefas com detalhes de projeto e cliente
   getTasksByProject(projectId: number): Promise<Task[]>;
   getTasksByUser(userId: number): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<InsertTask>): Promise<Task | undefined>;
   deleteTask(id: number): Promise<boolean>;
   
-  // Task Comments
-  getTaskComments(taskId: number): Promise<TaskComment[]>;
-  createTaskComment(comment: InsertTaskComment): Promise<TaskComment>;
-  deleteTaskComment(id: number): Promise<boolean>;
-  
   // Task Attachments
   getTaskAttachments(taskId: number): Promise<TaskAttachment[]>;
   getTaskAttachment(id: number): Promise<TaskAttachment | undefined>;
@@ -154,8 +164,8 @@ export interface IStorage {
   // Financial Documents
   getFinancialDocument(id: number): Promise<FinancialDocument | undefined>;
   getFinancialDocumentById(id: number): Promise<FinancialDocument | undefined>; // Alias para compatibilidade
-  getFinancialDocuments(): Promise<FinancialDocument[]>;
-  getFinancialDocumentsByClient(clientId: number): Promise<FinancialDocument[]>;
+  getFinancialDocuments(scope?: ProjectAccessScope): Promise<FinancialDocument[]>;
+  getFinancialDocumentsByClient(clientId: number, scope?: ProjectAccessScope): Promise<FinancialDocument[]>;
   getFinancialDocumentsByProject(projectId: number): Promise<FinancialDocument[]>;
   createFinancialDocument(document: InsertFinancialDocument): Promise<FinancialDocument>;
   updateFinancialDocument(id: number, document: Partial<InsertFinancialDocument>): Promise<FinancialDocument | undefined>;
@@ -163,18 +173,18 @@ export interface IStorage {
   
   // Expenses
   getExpense(id: number): Promise<Expense | undefined>;
-  getExpenses(): Promise<Expense[]>;
+  getExpenses(scope?: ProjectAccessScope): Promise<Expense[]>;
   getExpensesByProject(projectId: number): Promise<Expense[]>;
   createExpense(expense: InsertExpense): Promise<Expense>;
   updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense | undefined>;
   deleteExpense(id: number): Promise<boolean>;
   
   // Events
-  getEvent(id: number): Promise<Event | undefined>;
-  getEvents(): Promise<Event[]>;
+  getEvent(id: number, scope?: ProjectAccessScope): Promise<Event | undefined>;
+  getEvents(scope?: ProjectAccessScope): Promise<Event[]>;
   getEventsByUser(userId: number): Promise<Event[]>;
   getEventsByProject(projectId: number): Promise<Event[]>;
-  getEventsByClient(clientId: number): Promise<Event[]>;
+  getEventsByClient(clientId: number, scope?: ProjectAccessScope): Promise<Event[]>;
   createEvent(event: InsertEvent): Promise<Event>;
   updateEvent(id: number, event: Partial<InsertEvent>): Promise<Event | undefined>;
   deleteEvent(id: number): Promise<boolean>;
@@ -187,7 +197,8 @@ export class MemStorage implements IStorage {
   private projectMembersData: Map<number, ProjectMember>;
   private projectStagesData: Map<number, ProjectStage>;
   private tasksData: Map<number, Task>;
-  private taskCommentsData: Map<number, TaskComment>;
+  private commentsData: Map<number, EntityComment>;
+  private commentReactionsData: Map<number, CommentReaction>;
   private taskAttachmentsData: Map<number, TaskAttachment>;
   private clientContactsData: Map<number, ClientContact>;
   private clientInteractionsData: Map<number, ClientInteraction>;
@@ -195,8 +206,6 @@ export class MemStorage implements IStorage {
   private expensesData: Map<number, Expense>;
   private eventsData: Map<number, Event>;
   private userPreferencesData: Map<number, UserPreference>;
-  private projectCommentsData: Map<number, ProjectComment>;
-  private projectCommentReactionsData: Map<number, ProjectCommentReaction>;
   
   private userId: number = 1;
   private clientId: number = 1;
@@ -204,7 +213,8 @@ export class MemStorage implements IStorage {
   private projectMemberId: number = 1;
   private projectStageId: number = 1;
   private taskId: number = 1;
-  private taskCommentId: number = 1;
+  private commentId: number = 1;
+  private commentReactionId: number = 1;
   private taskAttachmentId: number = 1;
   private clientContactId: number = 1;
   private clientInteractionId: number = 1;
@@ -212,8 +222,6 @@ export class MemStorage implements IStorage {
   private expenseId: number = 1;
   private eventId: number = 1;
   private userPreferenceId: number = 1;
-  private projectCommentId: number = 1;
-  private projectCommentReactionId: number = 1;
 
   constructor() {
     this.usersData = new Map();
@@ -222,7 +230,8 @@ export class MemStorage implements IStorage {
     this.projectMembersData = new Map();
     this.projectStagesData = new Map();
     this.tasksData = new Map();
-    this.taskCommentsData = new Map();
+    this.commentsData = new Map();
+    this.commentReactionsData = new Map();
     this.taskAttachmentsData = new Map();
     this.clientContactsData = new Map();
     this.clientInteractionsData = new Map();
@@ -230,8 +239,6 @@ export class MemStorage implements IStorage {
     this.expensesData = new Map();
     this.eventsData = new Map();
     this.userPreferencesData = new Map();
-    this.projectCommentsData = new Map();
-    this.projectCommentReactionsData = new Map();
 
     // Add some initial data
     this.seedData();
@@ -1128,11 +1135,7 @@ export class MemStorage implements IStorage {
       const tasks = await this.getTasksByProject(id);
       for (const task of tasks) {
         // Excluir comentários da tarefa
-        const comments = Array.from(this.taskCommentsData.values())
-          .filter(comment => comment.task_id === task.id);
-        for (const comment of comments) {
-          this.taskCommentsData.delete(comment.id);
-        }
+        await this.deleteEntityComments('task', [task.id]);
         
         // Excluir anexos da tarefa
         const attachments = Array.from(this.taskAttachmentsData.values())
@@ -1164,18 +1167,8 @@ export class MemStorage implements IStorage {
         this.eventsData.delete(event.id);
       }
       
-      // Excluir comentários do projeto
-      const projectComments = await this.getProjectComments(id);
-      for (const comment of projectComments) {
-        // Também excluir reações aos comentários
-        const reactions = Array.from(this.projectCommentReactionsData.values())
-          .filter(reaction => reaction.comment_id === comment.id);
-        for (const reaction of reactions) {
-          this.projectCommentReactionsData.delete(reaction.id);
-        }
-        
-        this.projectCommentsData.delete(comment.id);
-      }
+      // Excluir comentários do projeto (as reações vão junto)
+      await this.deleteEntityComments('project', [id]);
       
       // Finalmente, excluir o projeto
       return this.projectsData.delete(id);
@@ -1300,7 +1293,8 @@ export class MemStorage implements IStorage {
     const task: Task = { 
       ...insertTask, 
       id, 
-      creation_date: new Date() 
+      creation_date: new Date(),
+      due_reminder_sent_for: null
     };
     this.tasksData.set(id, task);
     return task;
@@ -1319,36 +1313,10 @@ export class MemStorage implements IStorage {
   }
 
   async deleteTask(id: number): Promise<boolean> {
+    await this.deleteEntityComments('task', [id]);
     return this.tasksData.delete(id);
   }
 
-  // Task Comments
-  async getTaskComments(taskId: number): Promise<TaskComment[]> {
-    return Array.from(this.taskCommentsData.values())
-      .filter((comment) => comment.task_id === taskId)
-      .sort((a, b) => {
-        if (a.creation_date && b.creation_date) {
-          return a.creation_date.getTime() - b.creation_date.getTime();
-        }
-        return 0;
-      });
-  }
-
-  async createTaskComment(insertComment: InsertTaskComment): Promise<TaskComment> {
-    const id = this.taskCommentId++;
-    const comment: TaskComment = { 
-      ...insertComment, 
-      id, 
-      creation_date: new Date() 
-    };
-    this.taskCommentsData.set(id, comment);
-    return comment;
-  }
-
-  async deleteTaskComment(id: number): Promise<boolean> {
-    return this.taskCommentsData.delete(id);
-  }
-
   // Task Attachments
   async getTaskAttachments(taskId: number): Promise<TaskAttachment[]> {
     return Array.from(this.taskAttachmentsData.values()).filter(
@@ -1577,96 +1545,123 @@ export class MemStorage implements IStorage {
     return updatedPreferences;
   }
 
-  // Project Comments
-  async getProjectComments(projectId: number): Promise<ProjectComment[]> {
-    return Array.from(this.projectCommentsData.values())
-      .filter((comment) => comment.project_id === projectId && comment.deleted === false)
-      .sort((a, b) => a.creation_date.getTime() - b.creation_date.getTime());
+  // Comments
+  async getComments(entityType: CommentEntityType, entityId: number): Promise<EntityComment[]> {
+    return Array.from(this.commentsData.values())
+      .filter((comment) => comment.entity_type === entityType && comment.entity_id === entityId && !comment.deleted)
+      .sort((a, b) => (a.creation_date?.getTime() ?? 0) - (b.creation_date?.getTime() ?? 0));
   }
   
-  async getProjectCommentById(commentId: number): Promise<ProjectComment | undefined> {
-    return this.projectCommentsData.get(commentId);
+  async getComment(commentId: number): Promise<EntityComment | undefined> {
+    return this.commentsData.get(commentId);
   }
   
-  async createProjectComment(comment: InsertProjectComment): Promise<ProjectComment> {
-    const id = this.projectCommentId++;
-    const projectComment: ProjectComment = {
-      ...comment,
+  async createComment(insertComment: InsertComment): Promise<EntityComment> {
+    const id = this.commentId++;
+    const comment: EntityComment = {
+      ...insertComment,
       id,
+      mentions: insertComment.mentions ?? [],
+      parent_id: insertComment.parent_id ?? null,
       creation_date: new Date(),
       edited: false,
-      deleted: false
+      edit_date: null,
+      deleted: false,
+      delete_date: null
     };
-    this.projectCommentsData.set(id, projectComment);
-    return projectComment;
+    this.commentsData.set(id, comment);
+    return comment;
   }
   
-  async updateProjectComment(commentId: number, updates: Partial<ProjectComment>): Promise<ProjectComment> {
-    const comment = this.projectCommentsData.get(commentId);
+  async updateComment(commentId: number, updates: Partial<EntityComment>): Promise<EntityComment> {
+    const comment = this.commentsData.get(commentId);
     if (!comment) {
       throw new Error(`Comment with ID ${commentId} not found`);
     }
     
-    const updatedComment = {
-      ...comment,
-      ...updates,
-      edited: true,
-      edit_date: new Date()
-    };
-    
-    this.projectCommentsData.set(commentId, updatedComment);
+    const updatedComment = { ...comment, ...updates };
+    this.commentsData.set(commentId, updatedComment);
     return updatedComment;
   }
   
-  async softDeleteProjectComment(commentId: number): Promise<boolean> {
-    const comment = this.projectCommentsData.get(commentId);
+  async softDeleteComment(commentId: number): Promise<boolean> {
+    const comment = this.commentsData.get(commentId);
     if (!comment) {
       return false;
     }
     
-    const updatedComment = {
-      ...comment,
-      deleted: true
-    };
-    
-    this.projectCommentsData.set(commentId, updatedComment);
+    this.commentsData.set(commentId, { ...comment, deleted: true, delete_date: new Date() });
     return true;
   }
   
-  // Project Comment Reactions
-  async getProjectCommentReactionsByProjectId(projectId: number): Promise<ProjectCommentReaction[]> {
-    const comments = await this.getProjectComments(projectId);
-    const commentIds = comments.map(comment => comment.id);
-    
-    if (commentIds.length === 0) {
-      return [];
+  async deleteEntityComments(entityType: CommentEntityType, entityIds: number[]): Promise<void> {
+    const removed = Array.from(this.commentsData.values())
+      .filter(comment => comment.entity_type === entityType && entityIds.includes(comment.entity_id));
+    for (const comment of removed) {
+      this.commentsData.delete(comment.id);
+      Array.from(this.commentReactionsData.values())
+        .filter(reaction => reaction.comment_id === comment.id)
+        .forEach(reaction => this.commentReactionsData.delete(reaction.id));
     }
-    
-    return Array.from(this.projectCommentReactionsData.values())
+  }
+  
+  // Comment Reactions
+  async getCommentReactions(commentIds: number[]): Promise<CommentReaction[]> {
+    return Array.from(this.commentReactionsData.values())
       .filter(reaction => commentIds.includes(reaction.comment_id));
   }
   
-  async getProjectCommentReactionByUserAndComment(userId: number, commentId: number): Promise<ProjectCommentReaction | undefined> {
-    return Array.from(this.projectCommentReactionsData.values())
+  async getCommentReaction(reactionId: number): Promise<CommentReaction | undefined> {
+    return this.commentReactionsData.get(reactionId);
+  }
+  
+  async getCommentReactionByUserAndComment(userId: number, commentId: number): Promise<CommentReaction | undefined> {
+    return Array.from(this.commentReactionsData.values())
       .find(reaction => reaction.user_id === userId && reaction.comment_id === commentId);
   }
   
-  async createProjectCommentReaction(reaction: InsertProjectCommentReaction): Promise<ProjectCommentReaction> {
-    const id = this.projectCommentReactionId++;
-    const projectCommentReaction: ProjectCommentReaction = {
+  async createCommentReaction(reaction: InsertCommentReaction): Promise<CommentReaction> {
+    const id = this.commentReactionId++;
+    const commentReaction: CommentReaction = {
       ...reaction,
       id,
+      reaction_type: reaction.reaction_type ?? 'like',
       creation_date: new Date()
     };
-    this.projectCommentReactionsData.set(id, projectCommentReaction);
-    return projectCommentReaction;
+    this.commentReactionsData.set(id, commentReaction);
+    return commentReaction;
   }
   
-  async deleteProjectCommentReaction(reactionId: number): Promise<boolean> {
-    return this.projectCommentReactionsData.delete(reactionId);
+  async deleteCommentReaction(reactionId: number): Promise<boolean> {
+    return this.commentReactionsData.delete(reactionId);
   }
 }
 
+// Subconsulta com os IDs dos projetos em que o usuário é membro
+export function memberProjectIds(userId: number) {
+  return db.select({ id: projectMembers.project_id })
+    .from(projectMembers)
+    .where(eq(projectMembers.user_id, userId));
+}
+
+// Tarefas visíveis no escopo: de projetos em que o usuário é membro ou atribuídas a ele
+export function taskScopeCondition(scope: ProjectAccessScope) {
+  return or(
+    inArray(tasks.project_id, memberProjectIds(scope.userId)),
+    eq(tasks.assigned_to, scope.userId)
+  );
+}
+
+// Eventos visíveis no escopo: criados pelo usuário, de projetos em que é membro ou de
+// tarefas visíveis para ele
+function eventScopeCondition(scope: ProjectAccessScope) {
+  return or(
+    eq(events.user_id, scope.userId),
+    inArray(events.project_id, memberProjectIds(scope.userId)),
+    inArray(events.task_id, db.select({ id: tasks.id }).from(tasks).where(taskScopeCondition(scope)))
+  );
+}
+
 export class DatabaseStorage implements IStorage {
   // Users
   async getUser(id: number): Promise<User | undefined> {
@@ -1846,7 +1841,13 @@ export class DatabaseStorage implements IStorage {
       await db.delete(clientContacts).where(eq(clientContacts.client_id, id));
       
       // Excluir documentos financeiros do cliente
-      await db.delete(financialDocuments).where(eq(financialDocuments.client_id, id));
+      const clientDocuments = await db.delete(financialDocuments)
+        .where(eq(financialDocuments.client_id, id))
+        .returning({ id: financialDocuments.id });
+      await this.deleteEntityComments('financial_document', clientDocuments.map(doc => doc.id));
+      
+      // Excluir comentários do cliente
+      await this.deleteEntityComments('client', [id]);
       
       // Finalmente, excluir o cliente
       await db.delete(clients).where(eq(clients.id, id));
@@ -1874,7 +1875,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async getTasksByClient(clientId: number): Promise<Task[]> {
+  async getTasksByClient(clientId: number, scope?: ProjectAccessScope): Promise<Task[]> {
     try {
       // Primeiro, obtém todos os projetos do cliente
       const clientProjects = await this.getProjectsByClient(clientId);
@@ -1890,7 +1891,10 @@ export class DatabaseStorage implements IStorage {
       // Busca todas as tarefas relacionadas a esses projetos
       const clientTasks = await db.select()
         .from(tasks)
-        .where(inArray(tasks.project_id, projectIds));
+        .where(and(
+          inArray(tasks.project_id, projectIds),
+          scope ? taskScopeCondition(scope) : undefined
+        ));
       
       // Para cada tarefa, adiciona informações do projeto e do usuário assignado
       const tasksWithDetails = await Promise.all(clientTasks.map(async task => {
@@ -1928,9 +1932,9 @@ export class DatabaseStorage implements IStorage {
     return project || undefined;
   }
 
-  async getProjects(): Promise<Project[]> {
+  async getProjects(scope?: ProjectAccessScope): Promise<Project[]> {
     const startTime = Date.now();
-    const cacheKey = 'all_projects';
+    const cacheKey = scope ? `member_projects:${scope.userId}` : 'all_projects';
     const requestId = `cache_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
     
     console.log(`[${requestId}] [Storage] Iniciando getProjects()`);
@@ -1970,6 +1974,7 @@ export class DatabaseStorage implements IStorage {
         progress: projects.progress,
         thumbnail: projects.thumbnail
       }).from(projects)
+        .where(scope ? inArray(projects.id, memberProjectIds(scope.userId)) : undefined)
         .orderBy(desc(projects.creation_date || projects.id));
       
       // Validar dados antes de cachear
@@ -2019,8 +2024,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getProjectsByClient(clientId: number): Promise<Project[]> {
-    return await db.select().from(projects).where(eq(projects.client_id, clientId));
+  async getProjectsByClient(clientId: number, scope?: ProjectAccessScope): Promise<Project[]> {
+    return await db.select().from(projects).where(and(
+      eq(projects.client_id, clientId),
+      scope ? inArray(projects.id, memberProjectIds(scope.userId)) : undefined
+    ));
   }
 
   async createProject(insertProject: InsertProject): Promise<Project> {
@@ -2114,10 +2122,8 @@ export class DatabaseStorage implements IStorage {
       // Excluir tarefas do projeto 
       // Primeiro, pegar todas as tarefas para excluir comentários e anexos
       const projectTasks = await this.getTasksByProject(id);
+      await this.deleteEntityComments('task', projectTasks.map(task => task.id));
       for (const task of projectTasks) {
-        // Excluir comentários da tarefa
-        await db.delete(taskComments).where(eq(taskComments.task_id, task.id));
-        
         // Excluir anexos da tarefa
         await db.delete(taskAttachments).where(eq(taskAttachments.task_id, task.id));
       }
@@ -2126,7 +2132,10 @@ export class DatabaseStorage implements IStorage {
       await db.delete(tasks).where(eq(tasks.project_id, id));
       
       // Excluir documentos financeiros do projeto
-      await db.delete(financialDocuments).where(eq(financialDocuments.project_id, id));
+      const projectDocuments = await db.delete(financialDocuments)
+        .where(eq(financialDocuments.project_id, id))
+        .returning({ id: financialDocuments.id });
+      await this.deleteEntityComments('financial_document', projectDocuments.map(doc => doc.id));
       
       // Excluir despesas do projeto
       await db.delete(expenses).where(eq(expenses.project_id, id));
@@ -2134,6 +2143,9 @@ export class DatabaseStorage implements IStorage {
       // Excluir eventos do projeto
       await db.delete(events).where(eq(events.project_id, id));
       
+      // Excluir comentários do projeto
+      await this.deleteEntityComments('project', [id]);
+      
       // Finalmente, excluir o projeto
       await db.delete(projects).where(eq(projects.id, id));
       
@@ -2149,8 +2161,18 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(projectMembers).where(eq(projectMembers.project_id, projectId));
   }
 
+  async getProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined> {
+    const [member] = await db.select().from(projectMembers)
+      .where(and(
+        eq(projectMembers.project_id, projectId),
+        eq(projectMembers.user_id, userId)
+      ));
+    return member || undefined;
+  }
+
   async addProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
     const [member] = await db.insert(projectMembers).values(insertMember).returning();
+    cache.del(`member_projects:${member.user_id}`);
     return member;
   }
 
@@ -2160,6 +2182,7 @@ export class DatabaseStorage implements IStorage {
         eq(projectMembers.project_id, projectId),
         eq(projectMembers.user_id, userId)
       ));
+    cache.del(`member_projects:${userId}`);
     return true;
   }
   
@@ -2195,14 +2218,14 @@ export class DatabaseStorage implements IStorage {
     return task || undefined;
   }
 
-  async getTasks(): Promise<Task[]> {
-    return await db.select().from(tasks);
+  async getTasks(scope?: ProjectAccessScope): Promise<Task[]> {
+    return await db.select().from(tasks).where(scope ? taskScopeCondition(scope) : undefined);
   }
   
-  async getTasksWithDetails(): Promise<Task[]> {
+  async getTasksWithDetails(scope?: ProjectAccessScope): Promise<Task[]> {
     try {
-      // Primeiro, obtemos todas as tarefas
-      const allTasks = await db.select().from(tasks);
+      // Primeiro, obtemos todas as tarefas (restritas ao escopo do usuário, se houver)
+      const allTasks = await db.select().from(tasks).where(scope ? taskScopeCondition(scope) : undefined);
       
       // Se não houver tarefas, retorna array vazio
       if (allTasks.length === 0) {
@@ -2336,30 +2359,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTask(id: number): Promise<boolean> {
+    await this.deleteEntityComments('task', [id]);
     const result = await db.delete(tasks).where(eq(tasks.id, id));
     return true;
   }
   
-  // Task Comments
-  async getTaskComments(taskId: number): Promise<TaskComment[]> {
+  // Comments
+  async getComments(entityType: CommentEntityType, entityId: number): Promise<EntityComment[]> {
     return await db.select()
-      .from(taskComments)
+      .from(comments)
       .where(and(
-        eq(taskComments.task_id, taskId),
-        eq(taskComments.deleted, false)
+        eq(comments.entity_type, entityType),
+        eq(comments.entity_id, entityId),
+        eq(comments.deleted, false)
       ))
-      .orderBy(taskComments.creation_date);
+      .orderBy(asc(comments.creation_date));
   }
   
-  async getTaskCommentById(commentId: number): Promise<TaskComment | undefined> {
+  async getComment(commentId: number): Promise<EntityComment | undefined> {
     const [comment] = await db.select()
-      .from(taskComments)
-      .where(eq(taskComments.id, commentId));
+      .from(comments)
+      .where(eq(comments.id, commentId));
     return comment;
   }
 
-  async createTaskComment(insertComment: InsertTaskComment): Promise<TaskComment> {
-    const [comment] = await db.insert(taskComments)
+  async createComment(insertComment: InsertComment): Promise<EntityComment> {
+    const [comment] = await db.insert(comments)
       .values({
         ...insertComment,
         creation_date: new Date(),
@@ -2370,10 +2395,10 @@ export class DatabaseStorage implements IStorage {
     return comment;
   }
   
-  async updateTaskComment(commentId: number, updates: Partial<TaskComment>): Promise<TaskComment> {
-    const [updatedComment] = await db.update(taskComments)
+  async updateComment(commentId: number, updates: Partial<EntityComment>): Promise<EntityComment> {
+    const [updatedComment] = await db.update(comments)
       .set(updates)
-      .where(eq(taskComments.id, commentId))
+      .where(eq(comments.id, commentId))
       .returning();
     
     if (!updatedComment) {
@@ -2383,38 +2408,44 @@ export class DatabaseStorage implements IStorage {
     return updatedComment;
   }
   
-  async softDeleteTaskComment(commentId: number): Promise<boolean> {
-    const [result] = await db.update(taskComments)
+  async softDeleteComment(commentId: number): Promise<boolean> {
+    const [result] = await db.update(comments)
       .set({
         deleted: true,
         delete_date: new Date()
       })
-      .where(eq(taskComments.id, commentId))
+      .where(eq(comments.id, commentId))
       .returning();
       
     return !!result;
   }
 
-  async deleteTaskComment(id: number): Promise<boolean> {
-    const result = await db.delete(taskComments).where(eq(taskComments.id, id));
-    return true;
+  // Remove os comentários de entidades excluídas (as reações saem em cascata)
+  async deleteEntityComments(entityType: CommentEntityType, entityIds: number[]): Promise<void> {
+    if (entityIds.length === 0) return;
+    await db.delete(comments)
+      .where(and(
+        eq(comments.entity_type, entityType),
+        inArray(comments.entity_id, entityIds)
+      ));
   }
   
   // Comment Reactions
-  async getCommentReactionsByTaskId(taskId: number): Promise<CommentReaction[]> {
-    const comments = await this.getTaskComments(taskId);
-    const commentIds = comments.map(comment => comment.id);
-    
+  async getCommentReactions(commentIds: number[]): Promise<CommentReaction[]> {
     if (commentIds.length === 0) {
       return [];
     }
     
-    // Usando o operador inArray para buscar reações para vários comentários
-    const reactions = await db.select()
+    return await db.select()
       .from(commentReactions)
       .where(inArray(commentReactions.comment_id, commentIds));
-      
-    return reactions;
+  }
+  
+  async getCommentReaction(reactionId: number): Promise<CommentReaction | undefined> {
+    const [reaction] = await db.select()
+      .from(commentReactions)
+      .where(eq(commentReactions.id, reactionId));
+    return reaction;
   }
   
   async getCommentReactionByUserAndComment(userId: number, commentId: number): Promise<CommentReaction | undefined> {
@@ -2658,6 +2689,8 @@ export class DatabaseStorage implements IStorage {
           paid: financialDocuments.paid,
           payment_date: financialDocuments.payment_date,
           payment_notes: financialDocuments.payment_notes,
+          amount_paid: financialDocuments.amount_paid,
+          invoice_nfse: financialDocuments.invoice_nfse,
           status: financialDocuments.status,
           description: financialDocuments.description,
           invoice_file: financialDocuments.invoice_file,
@@ -2692,7 +2725,7 @@ export class DatabaseStorage implements IStorage {
     return this.getFinancialDocument(id);
   }
 
-  async getFinancialDocuments(): Promise<FinancialDocument[]> {
+  async getFinancialDocuments(scope?: ProjectAccessScope): Promise<FinancialDocument[]> {
     const maxRetries = 3;
     let retries = 0;
     
@@ -2709,6 +2742,8 @@ export class DatabaseStorage implements IStorage {
           paid: financialDocuments.paid,
           payment_date: financialDocuments.payment_date,
           payment_notes: financialDocuments.payment_notes,
+          amount_paid: financialDocuments.amount_paid,
+          invoice_nfse: financialDocuments.invoice_nfse,
           status: financialDocuments.status,
           description: financialDocuments.description,
           invoice_file: financialDocuments.invoice_file,
@@ -2716,7 +2751,8 @@ export class DatabaseStorage implements IStorage {
           invoice_file_uploaded_at: financialDocuments.invoice_file_uploaded_at,
           invoice_file_uploaded_by: financialDocuments.invoice_file_uploaded_by
         })
-        .from(financialDocuments);
+        .from(financialDocuments)
+        .where(scope ? inArray(financialDocuments.project_id, memberProjectIds(scope.userId)) : undefined);
       } catch (error) {
         retries++;
         console.error(`Error fetching financial documents (attempt ${retries}/${maxRetries}):`, error);
@@ -2735,7 +2771,7 @@ export class DatabaseStorage implements IStorage {
     return [];
   }
 
-  async getFinancialDocumentsByClient(clientId: number): Promise<FinancialDocument[]> {
+  async getFinancialDocumentsByClient(clientId: number, scope?: ProjectAccessScope): Promise<FinancialDocument[]> {
     const maxRetries = 3;
     let retries = 0;
     
@@ -2752,6 +2788,8 @@ export class DatabaseStorage implements IStorage {
           paid: financialDocuments.paid,
           payment_date: financialDocuments.payment_date,
           payment_notes: financialDocuments.payment_notes,
+          amount_paid: financialDocuments.amount_paid,
+          invoice_nfse: financialDocuments.invoice_nfse,
           status: financialDocuments.status,
           description: financialDocuments.description,
           invoice_file: financialDocuments.invoice_file,
@@ -2760,7 +2798,10 @@ export class DatabaseStorage implements IStorage {
           invoice_file_uploaded_by: financialDocuments.invoice_file_uploaded_by
         })
         .from(financialDocuments)
-        .where(eq(financialDocuments.client_id, clientId));
+        .where(and(
+          eq(financialDocuments.client_id, clientId),
+          scope ? inArray(financialDocuments.project_id, memberProjectIds(scope.userId)) : undefined
+        ));
       } catch (error) {
         retries++;
         console.error(`Error fetching financial documents for client id=${clientId} (attempt ${retries}/${maxRetries}):`, error);
@@ -2797,6 +2838,8 @@ export class DatabaseStorage implements IStorage {
           paid: financialDocuments.paid,
           payment_date: financialDocuments.payment_date,
           payment_notes: financialDocuments.payment_notes,
+          amount_paid: financialDocuments.amount_paid,
+          invoice_nfse: financialDocuments.invoice_nfse,
           status: financialDocuments.status,
           description: financialDocuments.description,
           invoice_file: financialDocuments.invoice_file,
@@ -2894,6 +2937,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteFinancialDocument(id: number): Promise<boolean> {
+    await this.deleteEntityComments('financial_document', [id]);
     const result = await db.delete(financialDocuments).where(eq(financialDocuments.id, id));
     return true;
   }
@@ -2925,13 +2969,15 @@ export class DatabaseStorage implements IStorage {
     return undefined;
   }
 
-  async getExpenses(): Promise<Expense[]> {
+  async getExpenses(scope?: ProjectAccessScope): Promise<Expense[]> {
     const maxRetries = 3;
     let retries = 0;
     
     while (retries < maxRetries) {
       try {
-        return await db.select().from(expenses);
+        return await db.select()
+          .from(expenses)
+          .where(scope ? inArray(expenses.project_id, memberProjectIds(scope.userId)) : undefined);
       } catch (error) {
         retries++;
         console.error(`Error fetching expenses (attempt ${retries}/${maxRetries}):`, error);
@@ -3058,13 +3104,16 @@ export class DatabaseStorage implements IStorage {
   }
   
   // Events
-  async getEvent(id: number): Promise<Event | undefined> {
-    const [event] = await db.select().from(events).where(eq(events.id, id));
+  async getEvent(id: number, scope?: ProjectAccessScope): Promise<Event | undefined> {
+    const [event] = await db.select().from(events).where(and(
+      eq(events.id, id),
+      scope ? eventScopeCondition(scope) : undefined
+    ));
     return event || undefined;
   }
 
-  async getEvents(): Promise<Event[]> {
-    return await db.select().from(events);
+  async getEvents(scope?: ProjectAccessScope): Promise<Event[]> {
+    return await db.select().from(events).where(scope ? eventScopeCondition(scope) : undefined);
   }
 
   async getEventsByUser(userId: number): Promise<Event[]> {
@@ -3075,8 +3124,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(events).where(eq(events.project_id, projectId));
   }
 
-  async getEventsByClient(clientId: number): Promise<Event[]> {
-    return await db.select().from(events).where(eq(events.client_id, clientId));
+  async getEventsByClient(clientId: number, scope?: ProjectAccessScope): Promise<Event[]> {
+    return await db.select().from(events).where(and(
+      eq(events.client_id, clientId),
+      scope ? eventScopeCondition(scope) : undefined
+    ));
   }
 
   async createEvent(insertEvent: InsertEvent): Promise<Event> {
@@ -3119,110 +3171,136 @@ export class DatabaseStorage implements IStorage {
     return updatedPreferences;
   }
 
-  // Project Comments
-  async getProjectComments(projectId: number): Promise<ProjectComment[]> {
+  // Permissions (RBAC)
+  async getPermissions(): Promise<Permission[]> {
     return await db.select()
-      .from(projectComments)
-      .where(and(
-        eq(projectComments.project_id, projectId),
-        eq(projectComments.deleted, false)
-      ))
-      .orderBy(asc(projectComments.creation_date));
+      .from(permissions)
+      .orderBy(asc(permissions.category), asc(permissions.id));
   }
-  
-  async getProjectCommentById(commentId: number): Promise<ProjectComment | undefined> {
-    const [comment] = await db.select()
-      .from(projectComments)
-      .where(eq(projectComments.id, commentId));
-    return comment || undefined;
+
+  async getPermission(key: string): Promise<Permission | undefined> {
+    const [permission] = await db.select().from(permissions).where(eq(permissions.key, key));
+    return permission;
   }
-  
-  async createProjectComment(comment: InsertProjectComment): Promise<ProjectComment> {
-    const [projectComment] = await db.insert(projectComments)
-      .values({
-        ...comment,
-        creation_date: new Date(),
-        edited: false,
-        deleted: false
-      })
-      .returning();
-    return projectComment;
+
+  async createPermission(permission: InsertPermission): Promise<Permission> {
+    const [newPermission] = await db.insert(permissions).values(permission).returning();
+    return newPermission;
   }
-  
-  async updateProjectComment(commentId: number, updates: Partial<ProjectComment>): Promise<ProjectComment> {
-    const [updatedComment] = await db.update(projectComments)
-      .set({
-        ...updates,
-        edited: true,
-        edit_date: new Date()
-      })
-      .where(eq(projectComments.id, commentId))
+
+  async updatePermission(key: string, permission: Partial<InsertPermission>): Promise<Permission | undefined> {
+    const [updated] = await db.update(permissions)
+      .set(permission)
+      .where(eq(permissions.key, key))
       .returning();
     
-    if (!updatedComment) {
-      throw new Error(`Comment with ID ${commentId} not found`);
+    // A chave pode ter sido renomeada (cascata em role_permissions)
+    cache.del(cache.keys().filter(k => k.startsWith('role_permissions:')));
+    return updated;
+  }
+
+  async deletePermission(key: string): Promise<boolean> {
+    const result = await db.delete(permissions).where(eq(permissions.key, key)).returning();
+    cache.del(cache.keys().filter(k => k.startsWith('role_permissions:')));
+    return result.length > 0;
+  }
+
+  async getRolePermissionMatrix(): Promise<Record<string, string[]>> {
+    const rows = await db.select().from(rolePermissions);
+    const matrix: Record<string, string[]> = {};
+    
+    for (const row of rows) {
+      if (!matrix[row.role]) {
+        matrix[row.role] = [];
+      }
+      matrix[row.role].push(row.permission_key);
     }
     
-    return updatedComment;
+    return matrix;
   }
-  
-  async softDeleteProjectComment(commentId: number): Promise<boolean> {
-    const result = await db.update(projectComments)
-      .set({ deleted: true })
-      .where(eq(projectComments.id, commentId));
+
+  async getRolePermissionKeys(role: string): Promise<string[]> {
+    // Consultado a cada requisição protegida por requirePermission, por isso fica em cache
+    const cacheKey = `role_permissions:${role}`;
+    const cached = cache.get<string[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
     
-    return true;
-  }
-  
-  // Project Comment Reactions
-  async getProjectCommentReactionsByProjectId(projectId: number): Promise<ProjectCommentReaction[]> {
-    // Primeiro obtenha todos os IDs de comentários para o projeto
-    const commentsResult = await db.select({ id: projectComments.id })
-      .from(projectComments)
-      .where(and(
-        eq(projectComments.project_id, projectId),
-        eq(projectComments.deleted, false)
-      ));
+    const rows = await db.select({ key: rolePermissions.permission_key })
+      .from(rolePermissions)
+      .where(eq(rolePermissions.role, role as UserRole));
+    const keys = rows.map(row => row.key);
     
-    if (commentsResult.length === 0) {
-      return [];
+    cache.set(cacheKey, keys, 60);
+    return keys;
+  }
+
+  async setRolePermission(role: UserRole, permissionKey: string, granted: boolean, grantedBy?: number): Promise<void> {
+    if (granted) {
+      await db.insert(rolePermissions)
+        .values({ role, permission_key: permissionKey, granted_by: grantedBy ?? null })
+        .onConflictDoNothing();
+    } else {
+      await db.delete(rolePermissions)
+        .where(and(
+          eq(rolePermissions.role, role),
+          eq(rolePermissions.permission_key, permissionKey)
+        ));
     }
     
-    const commentIds = commentsResult.map(comment => comment.id);
-    
-    // Agora obtenha todas as reações para esses comentários
+    cache.del(`role_permissions:${role}`);
+  }
+
+  // Notifications
+  async getNotifications(userId: number, options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}): Promise<Notification[]> {
+    const { unreadOnly = false, limit = 20, offset = 0 } = options;
     return await db.select()
-      .from(projectCommentReactions)
-      .where(inArray(projectCommentReactions.comment_id, commentIds));
+      .from(notifications)
+      .where(and(
+        eq(notifications.user_id, userId),
+        unreadOnly ? eq(notifications.read, false) : undefined
+      ))
+      .orderBy(desc(notifications.created_at), desc(notifications.id))
+      .limit(limit)
+      .offset(offset);
   }
-  
-  async getProjectCommentReactionByUserAndComment(userId: number, commentId: number): Promise<ProjectCommentReaction | undefined> {
-    const [reaction] = await db.select()
-      .from(projectCommentReactions)
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db.select({ value: count() })
+      .from(notifications)
       .where(and(
-        eq(projectCommentReactions.user_id, userId),
-        eq(projectCommentReactions.comment_id, commentId)
+        eq(notifications.user_id, userId),
+        eq(notifications.read, false)
       ));
-    
-    return reaction || undefined;
+    return Number(result?.value ?? 0);
   }
-  
-  async createProjectCommentReaction(reaction: InsertProjectCommentReaction): Promise<ProjectCommentReaction> {
-    const [projectCommentReaction] = await db.insert(projectCommentReactions)
-      .values({
-        ...reaction,
-        creation_date: new Date()
-      })
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set({ read: true, read_at: new Date() })
+      .where(and(
+        eq(notifications.id, id),
+        eq(notifications.user_id, userId)
+      ))
       .returning();
-    
-    return projectCommentReaction;
+    return updated;
   }
-  
-  async deleteProjectCommentReaction(reactionId: number): Promise<boolean> {
-    const result = await db.delete(projectCommentReactions)
-      .where(eq(projectCommentReactions.id, reactionId));
-      
-    return true;
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db.update(notifications)
+      .set({ read: true, read_at: new Date() })
+      .where(and(
+        eq(notifications.user_id, userId),
+        eq(notifications.read, false)
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
   }
 
   // Client Contacts
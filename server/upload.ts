@@ -4,6 +4,7 @@ import fs from 'fs';
 import { Request } from 'express';
 import sharp from 'sharp';
 import { randomUUID } from 'crypto';
+import { BANK_STATEMENT_EXTENSIONS, BANK_STATEMENT_MAX_SIZE } from '@shared/bank-reconciliation';
 
 // Criar diretórios de upload se não existirem
 const uploadDir = path.join(process.cwd(), 'uploads');
@@ -55,7 +56,7 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     'application/vnd.ms-powerpoint',
     'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'text/plain', 'text/csv', 'application/json',
+    'text/plain', 'text/csv', 'application/json', 'application/xml', 'text/xml',
     'application/zip', 'application/x-rar-compressed',
     'video/mp4', 'video/quicktime', 'video/x-msvideo',
     'audio/mpeg', 'audio/wav', 'audio/ogg'
@@ -77,6 +78,23 @@ const upload = multer({
   }
 });
 
+// Extratos bancários e retornos CNAB são lidos da memória e não ficam salvos em disco.
+// Os navegadores não têm tipo MIME padrão para .ofx/.ret, por isso o filtro usa a extensão.
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (BANK_STATEMENT_EXTENSIONS.includes(extension)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Tipo de arquivo não permitido: ${extension || file.mimetype}`));
+    }
+  },
+  limits: {
+    fileSize: BANK_STATEMENT_MAX_SIZE,
+  }
+});
+
 // Função para processar imagens após o upload
 export async function processImage(filePath: string, category: string, id: string | number): Promise<string> {
   try {
@@ -143,4 +161,4 @@ export function moveFile(filePath: string, category: string, id: string | number
   }
 }
 
-export { upload };
\ No newline at end of file
+export { upload, statementUpload };
\ No newline at end of file
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import { storage } from '../storage';
+import { NfseService } from '../services/nfse';
+import { NFSE_AMOUNT_TOLERANCE, normalizeInvoiceNumber, type NfseData } from '@shared/nfse';
 
 export class FileIntegrityService {
   /**
@@ -54,7 +56,8 @@ export class FileIntegrityService {
   }
   
   /**
-   * Busca arquivos existentes que podem corresponder a registros sem arquivo
+   * Busca arquivos existentes que podem corresponder a registros sem arquivo. XMLs de
+   * NFS-e são comparados pelo número e pelo valor da nota; os demais, pelo nome do arquivo.
    */
   static async findPotentialMatches() {
     console.log('[FileIntegrity] Buscando correspondências potenciais...');
@@ -65,21 +68,51 @@ export class FileIntegrityService {
     const allFiles = this.scanUploadDirectory();
     const matches = [];
     
+    // Ler cada XML uma única vez
+    const nfseFiles = allFiles
+      .filter(file => path.extname(file.path).toLowerCase() === '.xml')
+      .map(file => {
+        try {
+          return { file, nfse: NfseService.parse(NfseService.decode(fs.readFileSync(file.path))) };
+        } catch (error) {
+          console.error(`[FileIntegrity] Erro ao ler ${file.relativePath}:`, error);
+          return { file, nfse: null };
+        }
+      })
+      .filter((item): item is { file: typeof item.file; nfse: NfseData } => item.nfse !== null);
+    
+    const namedFiles = allFiles.filter(file => {
+      if (nfseFiles.some(item => item.file === file)) return false;
+      const fileName = path.basename(file.path).toLowerCase();
+      return fileName.includes('nfse') || fileName.includes('invoice');
+    });
+    
     for (const doc of documentsWithoutFiles) {
-      // Buscar por arquivos que possam corresponder a este documento
-      const potentialFiles = allFiles.filter(file => {
-        const fileName = path.basename(file.path).toLowerCase();
-        return fileName.includes('nfse') || fileName.includes('invoice');
-      });
+      const documentNumber = normalizeInvoiceNumber(doc.document_number);
+      
+      // Notas com o mesmo número ou o mesmo valor de serviços
+      const nfseMatches = nfseFiles.filter(({ nfse }) =>
+        (documentNumber && normalizeInvoiceNumber(nfse.number) === documentNumber) ||
+        Math.abs(nfse.service_value - doc.amount) <= NFSE_AMOUNT_TOLERANCE
+      );
       
-      if (potentialFiles.length > 0) {
+      if (nfseMatches.length > 0 || namedFiles.length > 0) {
         matches.push({
           documentId: doc.id,
           amount: doc.amount,
-          potentialFiles: potentialFiles.map(f => ({
-            path: f.relativePath,
-            fileName: path.basename(f.path)
-          }))
+          potentialFiles: [
+            ...nfseMatches.map(({ file, nfse }) => ({
+              path: file.relativePath,
+              fileName: path.basename(file.path),
+              nfseNumber: nfse.number,
+              reason: documentNumber && normalizeInvoiceNumber(nfse.number) === documentNumber ? 'document_number' : 'amount'
+            })),
+            ...namedFiles.map(f => ({
+              path: f.relativePath,
+              fileName: path.basename(f.path),
+              reason: 'file_name'
+            }))
+          ]
         });
       }
     }
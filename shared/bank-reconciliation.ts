@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+// ===== CONCILIAÇÃO BANCÁRIA =====
+// Importação de extratos (OFX) e arquivos de retorno de cobrança (CNAB 240/400).
+// As transações importadas são comparadas com as faturas em aberto (créditos) e as
+// despesas não pagas (débitos); cada sugestão precisa ser confirmada na tela de revisão.
+
+export const BANK_STATEMENT_FORMATS = ['ofx', 'cnab240', 'cnab400'] as const;
+export type BankStatementFormat = typeof BANK_STATEMENT_FORMATS[number];
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  ofx: 'OFX',
+  cnab240: 'CNAB 240',
+  cnab400: 'CNAB 400'
+};
+
+// Extensões aceitas no upload (arquivos de retorno CNAB costumam vir como .ret ou .txt)
+export const BANK_STATEMENT_EXTENSIONS = ['.ofx', '.ret', '.txt', '.rem', '.cnab'];
+
+// Tamanho máximo do arquivo importado
+export const BANK_STATEMENT_MAX_SIZE = 5 * 1024 * 1024;
+
+export const BANK_TRANSACTION_STATUSES = ['pending', 'matched', 'ignored'] as const;
+export type BankTransactionStatus = typeof BANK_TRANSACTION_STATUSES[number];
+
+// Diferença máxima, em dias, entre a data da transação e o vencimento da fatura
+// (ou a data da despesa) para que o valor sozinho sugira a conciliação
+export const RECONCILIATION_DATE_WINDOW_DAYS = 10;
+
+// Pontuação mínima para a sugestão vir pré-selecionada na revisão
+export const RECONCILIATION_AUTO_SELECT_SCORE = 70;
+
+export const confirmReconciliationSchema = z.object({
+  matches: z.array(z.object({
+    transaction_id: z.number().int().positive(),
+    document_id: z.number().int().positive().optional(),
+    expense_id: z.number().int().positive().optional()
+  }).refine(match => !!match.document_id !== !!match.expense_id, {
+    message: 'Informe a fatura ou a despesa da conciliação'
+  })).min(1).max(500)
+});
+export type ConfirmReconciliationInput = z.infer<typeof confirmReconciliationSchema>;
+
+export type ReconciliationMatchReason = 'amount' | 'date' | 'document_number';
+
+export interface ReconciliationCandidate {
+  kind: 'document' | 'expense';
+  id: number;
+  label: string;
+  amount: number; // Saldo em aberto da fatura ou valor da despesa
+  date: string | null; // Vencimento da fatura ou data da despesa
+  score: number; // 0 a 100
+  reasons: ReconciliationMatchReason[];
+}
+
+export interface ReconciliationTransaction {
+  id: number;
+  external_id: string;
+  transaction_date: string;
+  amount: number; // Créditos positivos, débitos negativos
+  description: string | null;
+  document_number: string | null;
+  status: BankTransactionStatus;
+  matched_document_id: number | null;
+  matched_expense_id: number | null;
+  // Melhor candidato primeiro; a sugestão não repete um candidato já sugerido a outra transação
+  candidates: ReconciliationCandidate[];
+  suggestion: ReconciliationCandidate | null;
+}
+
+export interface BankStatementImportSummary {
+  id: number;
+  file_name: string;
+  format: BankStatementFormat;
+  bank_code: string | null;
+  account: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  imported_by: number;
+  imported_at: string;
+  transaction_count: number;
+  pending_count: number;
+  matched_count: number;
+  ignored_count: number;
+}
+
+export interface BankStatementImportDetail extends BankStatementImportSummary {
+  duplicates_skipped?: number;
+  transactions: ReconciliationTransaction[];
+}
+
+export interface ConfirmReconciliationResult {
+  confirmed: number;
+  errors: { transaction_id: number; message: string }[];
+}
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+// ===== RELATÓRIOS FINANCEIROS =====
+// Indicadores e séries agregados no servidor (/api/financial-reports), usados pela
+// página Financeiro e pelo card "Visão Financeira" do dashboard.
+//
+// Critérios comuns a todos os relatórios:
+// - Receita: pagamentos recebidos em faturas (document_type 'invoice'), inclusive os
+//   parciais, pela data de cada pagamento; pagamentos revertidos não contam
+// - Despesas: despesas lançadas, pela data da despesa (aprovadas ou não)
+// - A receber / a pagar: faturas e despesas ainda não pagas, independentes do período
+//   (nas faturas pagas em parte, conta apenas o saldo em aberto)
+
+export const FINANCIAL_REPORT_PERIODS = ['week', 'month', 'quarter', 'year', 'custom'] as const;
+export type FinancialReportPeriod = typeof FINANCIAL_REPORT_PERIODS[number];
+
+export const FINANCIAL_CLIENT_METRICS = ['revenue', 'receivables'] as const;
+export type FinancialClientMetric = typeof FINANCIAL_CLIENT_METRICS[number];
+
+// O fluxo de caixa mensal mostra no mínimo estes meses, terminando no último mês do período
+export const FINANCIAL_CASH_FLOW_MIN_MONTHS = 6;
+
+const reportDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato AAAA-MM-DD');
+
+export const financialReportQuerySchema = z.object({
+  period: z.enum(FINANCIAL_REPORT_PERIODS).default('month'),
+  from: reportDate.optional(),
+  to: reportDate.optional(),
+  clientId: z.coerce.number().int().positive().optional(),
+  projectId: z.coerce.number().int().positive().optional()
+}).refine(query => query.period !== 'custom' || (query.from && query.to && query.from <= query.to), {
+  message: 'Período personalizado exige as datas "from" e "to" (from ≤ to)',
+  path: ['from']
+});
+
+export type FinancialReportQuery = z.infer<typeof financialReportQuerySchema>;
+
+export interface FinancialReportRange {
+  from: string;
+  to: string;
+}
+
+export interface FinancialSummaryReport {
+  period: FinancialReportRange;
+  previousPeriod: FinancialReportRange;
+  revenue: number;
+  revenueCount: number;
+  expenses: number;
+  expensesCount: number;
+  profit: number;
+  grossMargin: number; // % da receita
+  previous: { revenue: number; expenses: number; profit: number };
+  change: { revenue: number; expenses: number; profit: number }; // % vs. período anterior
+  receivables: {
+    total: number;
+    count: number;
+    overdue: number;
+    overdueCount: number;
+    next30Days: number;
+  };
+  payables: {
+    total: number;
+    count: number;
+    next30Days: number;
+  };
+  cashFlowNext30Days: number;
+  // Tempo médio de recebimento: dias entre a emissão e o pagamento das faturas pagas no período
+  averageCollectionDays: number;
+  // Totais históricos (sem filtro de período)
+  totals: {
+    paidInvoices: number;
+    paidInvoicesCount: number;
+    approvedExpenses: number;
+    approvedExpensesCount: number;
+  };
+}
+
+export interface FinancialCashFlowPoint {
+  month: string; // AAAA-MM
+  revenue: number;
+  expenses: number;
+  balance: number;
+}
+
+export interface FinancialBreakdownItem {
+  id: number | null;
+  name: string;
+  value: number;
+  count: number;
+}
+
+export interface FinancialProjectMargin {
+  id: number;
+  name: string;
+  clientId: number;
+  clientName: string | null;
+  status: string;
+  revenue: number;
+  expenses: number;
+  margin: number; // % da receita
+}
+
+/**
+ * Parâmetros de consulta dos relatórios, no formato aceito pelas rotas
+ */
+export function financialReportSearchParams(query: Partial<FinancialReportQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of ['period', 'from', 'to', 'clientId', 'projectId'] as const) {
+    const value = query[key];
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+  }
+  return params;
+}
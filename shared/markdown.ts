@@ -0,0 +1,147 @@
+// ===== MARKDOWN DOS COMENTÁRIOS =====
+// Subconjunto seguro de markdown: **negrito**, *itálico*, `código`, blocos ```,
+// listas (- item / 1. item) e links [texto](https://...). HTML nunca é interpretado:
+// o servidor remove tags e links com protocolos inseguros, e o cliente monta os
+// elementos a partir da árvore abaixo, sem innerHTML.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'mention'; userId: number; name: string };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'code_block'; text: string };
+
+// Trechos de código (```bloco``` ou `inline`), preservados pela sanitização
+const CODE_SEGMENT_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]+`)/;
+const HTML_TAG_PATTERN = /<\/?[a-zA-Z!][^>]*>/g;
+// Links [texto](url), exceto menções @[Nome](id)
+const LINK_PATTERN = /(?<!@)\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+const INLINE_PATTERN = /`([^`\n]+)`|@\[([^\]\n]+)\]\((\d+)\)|\[([^\]\n]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|(?<![\w*])\*(?![\s*])(.+?)(?<!\s)\*(?![\w*])|(?<!\w)_(?![\s_])(.+?)(?<!\s)_(?!\w)/g;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Links aceitos: http(s), mailto e caminhos internos da aplicação
+ */
+export function isSafeUrl(href: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(href) || (href.startsWith('/') && !href.startsWith('//'));
+}
+
+/**
+ * Sanitização feita pelo servidor antes de gravar o comentário
+ */
+export function sanitizeCommentMarkdown(text: string): string {
+  const normalized = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+
+  return normalized
+    .split(CODE_SEGMENT_PATTERN)
+    .map((part, index) => index % 2 === 1
+      ? part
+      : part
+          .replace(HTML_TAG_PATTERN, '')
+          .replace(LINK_PATTERN, (match, label: string, href: string) => isSafeUrl(href) ? match : label))
+    .join('')
+    .trim();
+}
+
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+
+    const [, code, mentionName, mentionId, linkLabel, linkHref, strong, em, emUnderscore] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (mentionId !== undefined) {
+      nodes.push({ type: 'mention', userId: Number(mentionId), name: mentionName });
+    } else if (linkHref !== undefined) {
+      nodes.push(isSafeUrl(linkHref)
+        ? { type: 'link', href: linkHref, children: parseMarkdownInline(linkLabel) }
+        : { type: 'text', text: linkLabel });
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseMarkdownInline(strong) });
+    } else {
+      nodes.push({ type: 'em', children: parseMarkdownInline(em ?? emUnderscore) });
+    }
+
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return nodes;
+}
+
+/**
+ * Converte o texto do comentário em blocos para exibição
+ */
+export function parseCommentMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseMarkdownInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trimStart().startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trimStart().startsWith('```')) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code_block', text: code.join('\n') });
+      continue;
+    }
+
+    const unordered = UNORDERED_ITEM_PATTERN.exec(line);
+    const ordered = unordered ? null : ORDERED_ITEM_PATTERN.exec(line);
+    if (unordered || ordered) {
+      flushParagraph();
+      const isOrdered = !!ordered;
+      const previous = blocks[blocks.length - 1];
+      const item = parseMarkdownInline((unordered ?? ordered)![1]);
+      if (previous?.type === 'list' && previous.ordered === isOrdered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [item] });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      // Linha em branco encerra a lista atual
+      blocks.push({ type: 'paragraph', children: [] });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+
+  // Parágrafos vazios só serviam para separar listas
+  return blocks.filter(block => block.type !== 'paragraph' || block.children.length > 0);
+}
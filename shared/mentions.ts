@@ -0,0 +1,81 @@
+// ===== MENÇÕES EM COMENTÁRIOS =====
+// A menção é gravada no texto como @[Nome](id). O ID identifica o usuário mesmo
+// que ele mude de nome; o nome fica apenas como fallback de exibição.
+
+export const MENTION_MARKUP_PATTERN = /@\[([^\]\n]+)\]\((\d+)\)/g;
+
+// Comentário em que o usuário foi mencionado, com a entidade de origem (filtro "Menções")
+export interface MentionedComment {
+  kind: 'task' | 'project' | 'client' | 'financial_document';
+  id: number;
+  comment: string;
+  creation_date: Date | null;
+  author: { id: number; name: string; avatar: string | null } | null;
+  entity_id: number;
+  entity_title: string;
+  project_id: number | null;
+  link: string;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; userId: number; name: string };
+
+export function formatMention(user: { id: number; name: string }): string {
+  return `@[${user.name.replace(/[\[\]\n]/g, '')}](${user.id})`;
+}
+
+/**
+ * IDs dos usuários mencionados, sem repetição
+ */
+export function extractMentionIds(text: string): number[] {
+  const ids = Array.from(text.matchAll(MENTION_MARKUP_PATTERN), match => Number(match[2]));
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Divide o texto em trechos e menções, para exibição
+ */
+export function parseMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(MENTION_MARKUP_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', userId: Number(match[2]), name: match[1] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Texto com as menções no formato legível (@Nome), para notificações e edição
+ */
+export function mentionsToPlainText(text: string): string {
+  return text.replace(MENTION_MARKUP_PATTERN, (_, name: string) => `@${name}`);
+}
+
+/**
+ * Converte o texto digitado (@Nome) para o formato gravado (@[Nome](id)),
+ * usando os usuários escolhidos no autocompletar. Nomes mais longos têm
+ * prioridade, para que "@Ana Paula" não seja lido como "@Ana".
+ */
+export function applyMentions(text: string, mentions: Array<{ id: number; name: string }>): string {
+  if (mentions.length === 0) return text;
+
+  const byName = new Map(mentions.map(mention => [mention.name, mention]));
+  const names = Array.from(byName.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`@(${names.join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+
+  return text.replace(pattern, (_, name: string) => formatMention(byName.get(name)!));
+}
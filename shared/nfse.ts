@@ -0,0 +1,79 @@
+// ===== NFS-e (NOTA FISCAL DE SERVIÇO ELETRÔNICA) =====
+// Dados lidos do XML da NFS-e (layout ABRASF 1.0/2.x) anexado a um documento financeiro
+// e o resultado da conferência com o documento e o CNPJ do cliente.
+
+export interface NfseRetentions {
+  pis: number;
+  cofins: number;
+  inss: number;
+  ir: number;
+  csll: number;
+}
+
+export interface NfseData {
+  number: string;
+  verification_code: string | null;
+  issue_date: string | null; // yyyy-MM-dd
+  competence: string | null; // yyyy-MM-dd
+  service_value: number; // ValorServicos (valor bruto da nota)
+  deductions: number;
+  iss_value: number;
+  iss_withheld: boolean; // ISS retido pelo tomador
+  iss_withheld_value: number;
+  retentions: NfseRetentions; // Tributos federais retidos
+  net_value: number | null; // ValorLiquidoNfse
+  provider_cnpj: string | null; // Somente dígitos
+  provider_name: string | null;
+  borrower_document: string | null; // CNPJ ou CPF do tomador, somente dígitos
+  borrower_name: string | null;
+}
+
+export type NfseCheckField = 'document_number' | 'amount' | 'issue_date' | 'client_cnpj';
+
+// filled: o campo estava vazio e foi preenchido com o valor da nota
+// missing: não foi possível conferir (campo ausente no cadastro ou no XML)
+export type NfseCheckStatus = 'match' | 'filled' | 'mismatch' | 'missing';
+
+export interface NfseCheck {
+  field: NfseCheckField;
+  status: NfseCheckStatus;
+  expected: string | null; // Valor do documento/cliente
+  found: string | null; // Valor da NFS-e
+  message: string;
+}
+
+// Gravado em financial_documents.invoice_nfse
+export interface NfseInvoiceData extends NfseData {
+  checks: NfseCheck[];
+  checked_at: string;
+}
+
+export const NFSE_CHECK_FIELD_LABELS: Record<NfseCheckField, string> = {
+  document_number: 'Número',
+  amount: 'Valor',
+  issue_date: 'Data de emissão',
+  client_cnpj: 'CNPJ do tomador'
+};
+
+// Diferença aceita entre o valor do documento e o valor dos serviços da nota
+export const NFSE_AMOUNT_TOLERANCE = 0.01;
+
+export function onlyDigits(value: string | null | undefined): string {
+  return (value || '').replace(/\D/g, '');
+}
+
+// Números de nota comparados sem pontuação e zeros à esquerda ("NF 000.042" = "42")
+export function normalizeInvoiceNumber(value: string | null | undefined): string {
+  return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^(NFSE|NFS|NF)/, '').replace(/^0+/, '');
+}
+
+export function formatCnpj(value: string | null | undefined): string {
+  const digits = onlyDigits(value);
+  if (digits.length === 14) return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+  if (digits.length === 11) return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+  return value || '';
+}
+
+export function hasNfseMismatch(data: Pick<NfseInvoiceData, 'checks'> | null | undefined): boolean {
+  return !!data?.checks.some(check => check.status === 'mismatch');
+}
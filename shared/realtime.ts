@@ -0,0 +1,172 @@
+import type {
+  ChatMessageWithUser,
+  Client,
+  ClientContact,
+  CommentEntityType,
+  Notification,
+  Task
+} from "./schema";
+
+// ===== CANAL EM TEMPO REAL =====
+// Contratos dos eventos trocados pelo Socket.IO entre servidor e cliente.
+// A conexão é autenticada no handshake (cookie accessToken ou auth.token) e
+// cada evento é entregue apenas às salas interessadas.
+
+export const REALTIME_PATH = '/socket.io';
+
+export const REALTIME_ROOM_TYPES = ['task', 'project', 'client', 'user', 'chat'] as const;
+export type RealtimeRoomType = typeof REALTIME_ROOM_TYPES[number];
+
+export interface RealtimeRoom {
+  type: RealtimeRoomType;
+  id: number;
+}
+
+// Nome da sala no servidor: task:12, project:3, client:7, user:1, chat:5
+export function realtimeRoomName(type: RealtimeRoomType, id: number): string {
+  return `${type}:${id}`;
+}
+
+export type RealtimeAck = { ok: true } | { ok: false; message: string };
+
+// Quem está com uma tarefa ou projeto aberto (salas task:<id> e project:<id>)
+export const PRESENCE_ROOM_TYPES: RealtimeRoomType[] = ['task', 'project'];
+
+export interface PresenceUser {
+  id: number;
+  name: string;
+  avatar: string | null;
+}
+
+export interface PresenceEvent {
+  room: RealtimeRoom;
+  viewers: PresenceUser[];
+}
+
+export interface TypingEvent {
+  room: RealtimeRoom;
+  user: PresenceUser;
+  typing: boolean;
+}
+
+// Atualizações de clientes e seus contatos (sala client:<id>)
+export type ClientUpdatedEvent =
+  | { type: 'client_updated'; clientId: number; client: Client }
+  | { type: 'contact_created' | 'contact_updated' | 'contact_primary_changed'; clientId: number; contact?: ClientContact }
+  | { type: 'contact_deleted'; clientId: number; contactId: number };
+
+export interface ProjectUpdatedEvent {
+  id: number;
+  special_status?: string;
+  message?: string;
+}
+
+export interface ProjectDatesUpdatedEvent {
+  projectId: number;
+  success: boolean;
+  message: string;
+}
+
+export interface TaskUpdatedEvent {
+  action: 'created';
+  task: Task;
+  timestamp: string;
+}
+
+export interface ProjectTaskUpdateEvent {
+  action: 'task_created';
+  task: Task;
+  project_id: number;
+  timestamp: string;
+}
+
+// Como em entity_changed, vai para todos os usuários e por isso leva só os IDs
+export interface FinancialUpdatedEvent {
+  type?: string;
+  action: string;
+  documentId?: number;
+  expenseId?: number;
+  timestamp: string;
+  message: string;
+}
+
+export interface CalendarUpdatedEvent {
+  type: 'calendar_updated';
+  timestamp: string;
+  message: string;
+}
+
+export interface CacheInvalidationEvent {
+  keys: string[];
+}
+
+// Alteração em uma entidade, publicada por todas as rotas de escrita.
+// Leva apenas identificadores: os dados são relidos pela API, que aplica as permissões.
+export const REALTIME_ENTITY_TYPES = ['project', 'task', 'client', 'financial_document', 'expense', 'event'] as const;
+export type RealtimeEntityType = typeof REALTIME_ENTITY_TYPES[number];
+export type RealtimeEntityAction = 'created' | 'updated' | 'deleted';
+
+export interface EntityChangedEvent {
+  entity: RealtimeEntityType;
+  id: number;
+  action: RealtimeEntityAction;
+  actorId: number;
+  // Entidades relacionadas, para atualizar também as listagens aninhadas
+  projectId?: number | null;
+  clientId?: number | null;
+  timestamp: string;
+}
+
+// Alteração nos comentários de uma entidade (sala da tarefa, do projeto ou do cliente;
+// documentos financeiros vão para todos). Como em entity_changed, leva só os IDs.
+export interface CommentChangedEvent {
+  action: 'created' | 'updated' | 'deleted' | 'reaction_added' | 'reaction_removed';
+  entity_type: CommentEntityType;
+  entity_id: number;
+  comment_id: number;
+  actorId: number;
+}
+
+export interface ServerToClientEvents {
+  // Sala user:<id>
+  notification: (notification: Notification) => void;
+
+  // Sala client:<id>
+  client_updated: (event: ClientUpdatedEvent) => void;
+
+  // Sala project:<id>
+  project_updated: (event: ProjectUpdatedEvent) => void;
+  project_dates_updated: (event: ProjectDatesUpdatedEvent) => void;
+  project_task_update: (event: ProjectTaskUpdateEvent) => void;
+
+  // Salas task:<id>, project:<id> e user:<responsável>
+  task_updated: (event: TaskUpdatedEvent) => void;
+
+  // Salas task:<id>, project:<id> e client:<id> (documentos financeiros: todos os usuários)
+  comment_changed: (event: CommentChangedEvent) => void;
+
+  // Salas task:<id> e project:<id>: quem está vendo e quem está digitando um comentário
+  presence: (event: PresenceEvent) => void;
+  typing: (event: TypingEvent) => void;
+
+  // Sala chat:<id> (canal geral: todos os usuários conectados)
+  chat_message: (message: ChatMessageWithUser) => void;
+
+  // Todos os usuários conectados
+  financial_updated: (event: FinancialUpdatedEvent) => void;
+  calendar_updated: (event: CalendarUpdatedEvent) => void;
+  'cache-invalidation': (event: CacheInvalidationEvent) => void;
+  entity_changed: (event: EntityChangedEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  // Entrar/sair da sala de uma entidade; o servidor confere o acesso antes de entrar
+  subscribe: (room: RealtimeRoom, ack?: (result: RealtimeAck) => void) => void;
+  unsubscribe: (room: RealtimeRoom) => void;
+  // Avisa a sala que o usuário começou ou parou de digitar (apenas salas já assinadas)
+  typing: (event: { room: RealtimeRoom; typing: boolean }) => void;
+}
+
+export type RealtimeEventName = keyof ServerToClientEvents;
+export type RealtimeEventArgs<E extends RealtimeEventName> = Parameters<ServerToClientEvents[E]>;
+export type RealtimeEventPayload<E extends RealtimeEventName> = Parameters<ServerToClientEvents[E]>[0];
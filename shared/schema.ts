@@ -1,8 +1,9 @@
-import { pgTable, text, serial, integer, timestamp, boolean, doublePrecision, json, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, doublePrecision, json, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 import { parseISO } from "date-fns";
+import type { NfseInvoiceData } from "./nfse";
 
 // Enum para roles/funções de usuário
 export const userRoleEnum = pgEnum('user_role', ['admin', 'manager', 'editor', 'viewer']);
@@ -50,6 +51,9 @@ export const users = pgTable("users", {
   permissions: json("permissions").$type<string[]>().default([]),
   last_login: timestamp("last_login"),
   is_active: boolean("is_active").default(true),
+  // Contas criadas pela equipe já nascem verificadas; o auto-cadastro grava false até a confirmação por email
+  email_verified: boolean("email_verified").default(true),
+  email_verified_at: timestamp("email_verified_at"),
   timezone: text("timezone"), // Fuso horário do usuário
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
@@ -63,10 +67,95 @@ export const refreshTokens = pgTable("refresh_tokens", {
   expires_at: timestamp("expires_at").notNull(),
   created_at: timestamp("created_at").defaultNow(),
   revoked: boolean("revoked").default(false),
+  revoked_at: timestamp("revoked_at"),
+  last_used_at: timestamp("last_used_at"), // Última renovação do token (atividade da sessão)
   ip_address: text("ip_address"),
   user_agent: text("user_agent"),
 });
 
+// Tokens de uso único enviados por email (redefinição de senha e verificação de email).
+// Apenas o hash SHA-256 do token é armazenado.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // password_reset, email_verification
+  token_hash: text("token_hash").notNull().unique(),
+  expires_at: timestamp("expires_at").notNull(),
+  used_at: timestamp("used_at"),
+  ip_address: text("ip_address"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Autenticação em dois fatores (TOTP). Fica fora de users para que o segredo
+// nunca seja enviado junto com os dados do usuário.
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text("secret").notNull(), // Segredo TOTP criptografado (AES-256-CBC)
+  secret_iv: text("secret_iv").notNull(),
+  enabled: boolean("enabled").notNull().default(false), // false enquanto a ativação não for confirmada com um código
+  enabled_at: timestamp("enabled_at"),
+  last_used_step: integer("last_used_step"), // Último intervalo TOTP aceito, impede reutilizar o mesmo código
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Códigos de recuperação de uso único (apenas o hash é armazenado)
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  code_hash: text("code_hash").notNull(),
+  used_at: timestamp("used_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Tokens de acesso pessoais para integrações e scripts (Authorization: Bearer cct_...).
+// Apenas o hash SHA-256 do token é armazenado; o prefixo identifica o token na interface.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  token_hash: text("token_hash").notNull().unique(),
+  token_prefix: text("token_prefix").notNull(),
+  scopes: json("scopes").$type<string[]>().notNull().default([]), // Ex.: projects:read, financial:write
+  expires_at: timestamp("expires_at"), // null = sem expiração
+  last_used_at: timestamp("last_used_at"),
+  last_used_ip: text("last_used_ip"),
+  revoked_at: timestamp("revoked_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Controle de tentativas de login por conta e por IP (backoff exponencial e bloqueio temporário).
+// Fica no banco para que o bloqueio continue valendo após reiniciar o servidor.
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // account, ip
+  key: text("key").notNull(), // user:<id> ou name:<login informado> para contas; endereço IP
+  user_id: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  failure_count: integer("failure_count").notNull().default(0), // Falhas consecutivas desde o último sucesso/bloqueio
+  lockout_count: integer("lockout_count").notNull().default(0), // Bloqueios seguidos (cada um dura o dobro do anterior)
+  last_failure_at: timestamp("last_failure_at"),
+  next_attempt_at: timestamp("next_attempt_at"), // Espera do backoff antes da próxima tentativa
+  locked_until: timestamp("locked_until"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  scopeKeyUnique: unique("login_throttles_scope_key_unique").on(table.scope, table.key),
+}));
+
+// Registro de eventos de segurança (logins, bloqueios, desbloqueios, 2FA, redefinição de senha)
+export const securityEvents = pgTable("security_events", {
+  id: serial("id").primaryKey(),
+  event_type: text("event_type").notNull(),
+  user_id: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  actor_id: integer("actor_id").references(() => users.id, { onDelete: 'set null' }), // Quem executou a ação (ex.: admin que desbloqueou)
+  identifier: text("identifier"), // Login informado na tentativa
+  ip_address: text("ip_address"),
+  user_agent: text("user_agent"),
+  metadata: json("metadata").$type<Record<string, unknown>>(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 export const userPreferences = pgTable("user_preferences", {
   id: serial("id").primaryKey(),
   user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -76,9 +165,79 @@ export const userPreferences = pgTable("user_preferences", {
   sidebar_collapsed: boolean("sidebar_collapsed").default(false),
   dashboard_widgets: json("dashboard_widgets").$type<string[]>().default(['tasks', 'projects', 'clients']),
   quick_actions: json("quick_actions").$type<string[]>().default(['new-task', 'new-project', 'new-client']),
+  // Apenas as escolhas do usuário; valores ausentes seguem DEFAULT_NOTIFICATION_PREFERENCES
+  notification_preferences: json("notification_preferences").$type<NotificationPreferencesInput>().default({}),
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Catálogo de permissões do sistema (RBAC)
+export const permissions = pgTable("permissions", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // Identificador usado em requirePermission()
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category").notNull(), // dashboard, projects, tasks, clients, financial, users
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Matriz função → permissão (admins sempre têm acesso total)
+export const rolePermissions = pgTable("role_permissions", {
+  id: serial("id").primaryKey(),
+  role: userRoleEnum("role").notNull(),
+  permission_key: text("permission_key").notNull().references(() => permissions.key, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  granted_by: integer("granted_by").references(() => users.id, { onDelete: 'set null' }),
+  granted_at: timestamp("granted_at").defaultNow(),
+}, (table) => ({
+  rolePermissionUnique: unique("role_permissions_role_permission_key_unique").on(table.role, table.permission_key),
+}));
+
+// Central de notificações persistentes (entregues também em tempo real quando o usuário está online)
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // task_assigned, task_comment, project_comment, payment_received, project_delayed, task_due, invoice_due
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // Rota do frontend para abrir o item relacionado
+  entity_type: text("entity_type"), // task, project, client, financial_document
+  entity_id: integer("entity_id"),
+  actor_id: integer("actor_id").references(() => users.id, { onDelete: 'set null' }),
+  read: boolean("read").notNull().default(false),
+  read_at: timestamp("read_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Notificações acumuladas para o resumo diário por email (canal "digest")
+export const notificationDigestItems = pgTable("notification_digest_items", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text("type").notNull(), // Tipo da notificação de origem (task_assigned, task_comment...)
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"),
+  sent_at: timestamp("sent_at"), // null = aguardando o próximo resumo
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Fila de emails: cada mensagem é reenviada com espera crescente até atingir o limite de tentativas
+export const mailQueue = pgTable("mail_queue", {
+  id: serial("id").primaryKey(),
+  to_email: text("to_email").notNull(),
+  to_name: text("to_name"),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  template: text("template"), // Template ou tipo de notificação de origem (task_assigned, password_reset...)
+  user_id: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default('pending'), // pending, sending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  max_attempts: integer("max_attempts").notNull().default(5),
+  last_error: text("last_error"),
+  next_attempt_at: timestamp("next_attempt_at").defaultNow(),
+  sent_at: timestamp("sent_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -125,6 +284,7 @@ export const projects = pgTable("projects", {
   endDate: timestamp("end_date"),
   issue_date: timestamp("issue_date"), // Data de emissão para documentos financeiros
   payment_term: integer("payment_term").default(30), // Prazo de pagamento em dias: 30, 60 ou 75
+  installment_plan: json("installment_plan").$type<ProjectInstallmentPlan>(), // Parcelamento (null = fatura única)
   progress: integer("progress").default(0),
   thumbnail: text("thumbnail"),
   creation_date: timestamp("creation_date").defaultNow(),
@@ -161,37 +321,49 @@ export const tasks = pgTable("tasks", {
   estimated_hours: doublePrecision("estimated_hours"),
   completed: boolean("completed").default(false),
   completion_date: timestamp("completion_date"),
+  due_reminder_sent_for: timestamp("due_reminder_sent_for"), // Vencimento já avisado pelo lembrete de prazo
+  tags: json("tags").$type<string[]>().default([]), // Etiquetas livres usadas nos filtros da lista
   creation_date: timestamp("creation_date").defaultNow(),
 });
 
-export const taskComments = pgTable("task_comments", {
+// Visões salvas da lista de tarefas: filtros e ordenação com nome, por usuário
+export const taskViews = pgTable("task_views", {
   id: serial("id").primaryKey(),
-  task_id: integer("task_id").notNull(),
-  user_id: integer("user_id").notNull(),
-  comment: text("comment").notNull(),
-  parent_id: integer("parent_id"), // para respostas a outros comentários
-  creation_date: timestamp("creation_date").defaultNow(),
-  edited: boolean("edited").default(false),
-  edit_date: timestamp("edit_date"),
-  deleted: boolean("deleted").default(false),
-  delete_date: timestamp("delete_date"),
-});
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  filters: json("filters").$type<TaskListFilters>().notNull().default({}),
+  sort_by: text("sort_by").$type<TaskSortField>().notNull().default('smart'),
+  sort_dir: text("sort_dir").$type<TaskSortDirection>().notNull().default('desc'),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userNameUnique: unique("task_views_user_name_unique").on(table.user_id, table.name),
+}));
 
-// Reações aos comentários (like, etc)
-export const commentReactions = pgTable("comment_reactions", {
-  id: serial("id").primaryKey(),
-  comment_id: integer("comment_id").notNull(),
-  user_id: integer("user_id").notNull(),
-  reaction_type: text("reaction_type").notNull().default("like"), // like, heart, etc
-  creation_date: timestamp("creation_date").defaultNow(),
-});
+// Comentários de tarefas, projetos, clientes e documentos financeiros: cada
+// comentário pertence a uma entidade (entity_type + entity_id)
+export const COMMENT_ENTITY_TYPES = ['task', 'project', 'client', 'financial_document'] as const;
+export type CommentEntityType = typeof COMMENT_ENTITY_TYPES[number];
+
+// Segmento da API de cada entidade: /api/<segmento>/:id/comments
+export const COMMENT_ENTITY_PATHS: Record<CommentEntityType, string> = {
+  task: 'tasks',
+  project: 'projects',
+  client: 'clients',
+  financial_document: 'financial-documents'
+};
 
-// Comentários de projeto
-export const projectComments = pgTable("project_comments", {
+export function commentsApiPath(entityType: CommentEntityType, entityId: number): string {
+  return `/api/${COMMENT_ENTITY_PATHS[entityType]}/${entityId}/comments`;
+}
+
+export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
-  project_id: integer("project_id").notNull(),
+  entity_type: text("entity_type").$type<CommentEntityType>().notNull(),
+  entity_id: integer("entity_id").notNull(),
   user_id: integer("user_id").notNull(),
   comment: text("comment").notNull(),
+  mentions: json("mentions").$type<number[]>().notNull().default([]), // IDs dos usuários mencionados no texto
   parent_id: integer("parent_id"), // para respostas a outros comentários
   creation_date: timestamp("creation_date").defaultNow(),
   edited: boolean("edited").default(false),
@@ -200,10 +372,10 @@ export const projectComments = pgTable("project_comments", {
   delete_date: timestamp("delete_date"),
 });
 
-// Reações aos comentários de projeto
-export const projectCommentReactions = pgTable("project_comment_reactions", {
+// Reações aos comentários (like, etc)
+export const commentReactions = pgTable("comment_reactions", {
   id: serial("id").primaryKey(),
-  comment_id: integer("comment_id").notNull(),
+  comment_id: integer("comment_id").notNull().references(() => comments.id, { onDelete: 'cascade' }),
   user_id: integer("user_id").notNull(),
   reaction_type: text("reaction_type").notNull().default("like"), // like, heart, etc
   creation_date: timestamp("creation_date").defaultNow(),
@@ -218,6 +390,8 @@ export const taskAttachments = pgTable("task_attachments", {
   file_url: text("file_url").notNull(),
   uploaded_by: integer("uploaded_by"),
   upload_date: timestamp("upload_date").defaultNow(),
+  // Comentário em que o arquivo foi anexado (null = anexo direto da entidade)
+  comment_id: integer("comment_id"),
   // Campos para criptografia
   encrypted: boolean("encrypted").default(false),
   encryption_iv: text("encryption_iv"), // Vetor de inicialização para AES-256
@@ -233,6 +407,8 @@ export const projectAttachments = pgTable("project_attachments", {
   file_url: text("file_url").notNull(),
   uploaded_by: integer("uploaded_by"),
   upload_date: timestamp("upload_date").defaultNow(),
+  // Comentário em que o arquivo foi anexado (null = anexo direto da entidade)
+  comment_id: integer("comment_id"),
   // Campos para criptografia
   encrypted: boolean("encrypted").default(false),
   encryption_iv: text("encryption_iv"), // Vetor de inicialização para AES-256
@@ -248,6 +424,8 @@ export const clientAttachments = pgTable("client_attachments", {
   file_url: text("file_url").notNull(),
   uploaded_by: integer("uploaded_by"),
   upload_date: timestamp("upload_date").defaultNow(),
+  // Comentário em que o arquivo foi anexado (null = anexo direto do cliente)
+  comment_id: integer("comment_id"),
   description: text("description"), // Campo opcional para descrever o arquivo
   tags: text("tags"), // Tags para facilitar a busca e organização
   // Campos para criptografia
@@ -284,6 +462,7 @@ export const financialStatusEnum = pgEnum('financial_status', [
   'pending',     // Pendente de aprovação
   'approved',    // Aprovado para pagamento/recebimento
   'paid',        // Pago/Recebido
+  'partially_paid', // Pago/Recebido em parte (ver financial_document_payments)
   'cancelled',   // Cancelado
   'archived'     // Arquivado (dados antigos)
 ]);
@@ -300,12 +479,19 @@ export const financialDocuments = pgTable("financial_documents", {
   paid: boolean("paid").default(false),
   payment_date: timestamp("payment_date"),
   payment_notes: text("payment_notes"),
+  amount_paid: doublePrecision("amount_paid").default(0), // Soma dos pagamentos registrados e não revertidos
   status: financialStatusEnum("status").default("pending"),
   description: text("description"),
   invoice_file: text("invoice_file"),
   invoice_file_name: text("invoice_file_name"),
   invoice_file_uploaded_at: timestamp("invoice_file_uploaded_at"),
   invoice_file_uploaded_by: integer("invoice_file_uploaded_by"),
+  invoice_nfse: json("invoice_nfse").$type<NfseInvoiceData>(), // Dados lidos do XML da NFS-e anexada e conferência com o documento
+  due_reminder_sent_for: timestamp("due_reminder_sent_for"), // Vencimento já avisado pelo lembrete de fatura
+  
+  // Parcela do faturamento do projeto gerada automaticamente (null = documento avulso)
+  installment_number: integer("installment_number"),
+  installment_count: integer("installment_count"),
   
   // Campos de auditoria
   created_at: timestamp("created_at").defaultNow(),
@@ -325,7 +511,7 @@ export const financialDocuments = pgTable("financial_documents", {
 export const financialAuditLog = pgTable("financial_audit_log", {
   id: serial("id").primaryKey(),
   document_id: integer("document_id").notNull(),
-  action: text("action").notNull(), // create, update, approve, pay, cancel, archive
+  action: text("action").notNull(), // create, update, approve, pay, revert_payment, cancel, archive
   user_id: integer("user_id").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
   
@@ -345,6 +531,55 @@ export const financialAuditLog = pgTable("financial_audit_log", {
   session_id: text("session_id"), // ID da sessão
 });
 
+// Pagamentos (totais ou parciais) registrados para cada documento financeiro.
+// Pagamentos revertidos continuam no histórico, marcados com reverted_at.
+export const financialDocumentPayments = pgTable("financial_document_payments", {
+  id: serial("id").primaryKey(),
+  document_id: integer("document_id").notNull().references(() => financialDocuments.id, { onDelete: 'cascade' }),
+  amount: doublePrecision("amount").notNull(),
+  payment_date: timestamp("payment_date").notNull(),
+  method: text("method"), // FINANCIAL_PAYMENT_METHODS
+  reference: text("reference"), // Identificador da transação, número do boleto, etc.
+  notes: text("notes"),
+  created_by: integer("created_by").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+  reverted_at: timestamp("reverted_at"),
+  reverted_by: integer("reverted_by"),
+  revert_reason: text("revert_reason"),
+});
+
+// Extratos e arquivos de retorno bancário importados para conciliação
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: serial("id").primaryKey(),
+  file_name: text("file_name").notNull(),
+  format: text("format").notNull(), // BANK_STATEMENT_FORMATS
+  bank_code: text("bank_code"),
+  account: text("account"),
+  period_start: timestamp("period_start"),
+  period_end: timestamp("period_end"),
+  imported_by: integer("imported_by").notNull().references(() => users.id),
+  imported_at: timestamp("imported_at").defaultNow(),
+});
+
+// Transações de um extrato importado e a conciliação confirmada para cada uma
+export const bankStatementTransactions = pgTable("bank_statement_transactions", {
+  id: serial("id").primaryKey(),
+  import_id: integer("import_id").notNull().references(() => bankStatementImports.id, { onDelete: 'cascade' }),
+  external_id: text("external_id").notNull(), // FITID do OFX ou nosso número do CNAB
+  fingerprint: text("fingerprint").notNull().unique(), // Evita importar a mesma transação duas vezes
+  transaction_date: timestamp("transaction_date").notNull(),
+  amount: doublePrecision("amount").notNull(), // Créditos positivos, débitos negativos
+  description: text("description"),
+  document_number: text("document_number"), // Número do documento informado pelo banco
+  payment_method: text("payment_method"), // FINANCIAL_PAYMENT_METHODS
+  status: text("status").notNull().default("pending"), // BANK_TRANSACTION_STATUSES
+  matched_document_id: integer("matched_document_id").references(() => financialDocuments.id, { onDelete: 'set null' }),
+  matched_expense_id: integer("matched_expense_id").references(() => expenses.id, { onDelete: 'set null' }),
+  matched_payment_id: integer("matched_payment_id").references(() => financialDocumentPayments.id, { onDelete: 'set null' }),
+  matched_by: integer("matched_by"),
+  matched_at: timestamp("matched_at"),
+});
+
 export const projectStatusHistory = pgTable("project_status_history", {
   id: serial("id").primaryKey(),
   project_id: integer("project_id").notNull(),
@@ -355,6 +590,34 @@ export const projectStatusHistory = pgTable("project_status_history", {
   reason: text("reason"),
 });
 
+// Registro de atividades: quem criou, alterou ou excluiu projetos (e sua equipe, etapas e
+// anexos), tarefas (e anexos), clientes, contatos, despesas e eventos. project_id e client_id permitem montar a linha do
+// tempo do projeto e do cliente sem consultar a entidade (que pode ter sido excluída).
+export const ACTIVITY_ENTITY_TYPES = [
+  'project', 'task', 'client', 'client_contact', 'expense', 'event',
+  'project_member', 'project_stage', 'task_attachment', 'project_attachment'
+] as const;
+export type ActivityEntityType = typeof ACTIVITY_ENTITY_TYPES[number];
+
+export const ACTIVITY_ACTIONS = ['created', 'updated', 'deleted'] as const;
+export type ActivityAction = typeof ACTIVITY_ACTIONS[number];
+
+// Valor anterior e novo de cada campo alterado
+export type ActivityChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const activityLog = pgTable("activity_log", {
+  id: serial("id").primaryKey(),
+  entity_type: text("entity_type").notNull(),
+  entity_id: integer("entity_id").notNull(),
+  entity_label: text("entity_label"), // Nome/título da entidade no momento da ação
+  action: text("action").notNull(), // created, updated, deleted
+  user_id: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  project_id: integer("project_id"),
+  client_id: integer("client_id"),
+  changes: json("changes").$type<ActivityChanges>().notNull().default({}),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 export const expenses = pgTable("expenses", {
   id: serial("id").primaryKey(),
   project_id: integer("project_id"),
@@ -393,6 +656,37 @@ export const events = pgTable("events", {
   creation_date: timestamp("creation_date").defaultNow(),
 });
 
+// Chat da equipe: canal geral, um canal por projeto e conversas diretas entre dois usuários
+export const chatChannels = pgTable("chat_channels", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // general, project, direct
+  name: text("name"),
+  project_id: integer("project_id").unique().references(() => projects.id, { onDelete: 'cascade' }),
+  direct_key: text("direct_key").unique(), // "<menor id>:<maior id>" para não duplicar conversas diretas
+  created_by: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Participantes das conversas diretas e posição de leitura de cada usuário em qualquer canal
+export const chatChannelMembers = pgTable("chat_channel_members", {
+  id: serial("id").primaryKey(),
+  channel_id: integer("channel_id").notNull().references(() => chatChannels.id, { onDelete: 'cascade' }),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  last_read_message_id: integer("last_read_message_id"),
+  joined_at: timestamp("joined_at").defaultNow(),
+}, (table) => ({
+  channelUserUnique: unique("chat_channel_members_channel_user_unique").on(table.channel_id, table.user_id),
+}));
+
+export const chatMessages = pgTable("chat_messages", {
+  id: serial("id").primaryKey(),
+  channel_id: integer("channel_id").notNull().references(() => chatChannels.id, { onDelete: 'cascade' }),
+  user_id: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  content: text("content").notNull(),
+  mentions: json("mentions").$type<number[]>().notNull().default([]), // IDs dos usuários mencionados com @
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ 
   id: true, 
@@ -408,6 +702,12 @@ export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({
 // Schema para preferências do usuário
 export const insertUserPreferenceSchema = createInsertSchema(userPreferences).omit({ id: true, updated_at: true });
 
+// Schemas para RBAC
+export const insertPermissionSchema = createInsertSchema(permissions).omit({ id: true, created_at: true });
+export const insertRolePermissionSchema = createInsertSchema(rolePermissions).omit({ id: true, granted_at: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, read: true, read_at: true, created_at: true });
+export const insertMailQueueSchema = createInsertSchema(mailQueue).omit({ id: true, status: true, attempts: true, last_error: true, sent_at: true, created_at: true });
+
 // Schema base para clientes
 const clientBaseSchema = createInsertSchema(clients).omit({ id: true });
 // Schema personalizado com transformações para data 'since'
@@ -435,6 +735,8 @@ export const insertProjectSchema = projectBaseSchema.extend({
   ).default(30).refine(val => [30, 60, 75].includes(val), {
     message: "Prazo de pagamento deve ser 30, 60 ou 75 dias"
   }),
+  // z.lazy: o schema do parcelamento é declarado mais abaixo, na seção de parcelamento
+  installment_plan: z.lazy(() => projectInstallmentPlanSchema).nullable().optional(),
   // Lista de IDs dos usuários que farão parte da equipe
   team_members: z.array(z.number()).optional(),
   // Mapa de funções para cada membro da equipe (chave: userId, valor: função)
@@ -453,7 +755,7 @@ export const insertProjectMemberSchema = projectMemberBaseSchema.extend({
 export const insertProjectStageSchema = createInsertSchema(projectStages).omit({ id: true, completion_date: true });
 
 // Schema base para tarefas - simplificado para aceitar valores nulos e strings como datas
-const taskBaseSchema = createInsertSchema(tasks).omit({ id: true, creation_date: true, completion_date: true });
+const taskBaseSchema = createInsertSchema(tasks).omit({ id: true, creation_date: true, completion_date: true, due_reminder_sent_for: true });
 
 // Schema simplificado para tarefas
 export const insertTaskSchema = taskBaseSchema.extend({
@@ -462,6 +764,8 @@ export const insertTaskSchema = taskBaseSchema.extend({
   assigned_to: z.number().nullable().optional(),
   priority: z.string().nullable().optional(),
   estimated_hours: z.number().nullable().optional(),
+  tags: z.array(z.string()).nullable().optional()
+    .transform(value => value === undefined ? undefined : normalizeTaskTags(value)),
   start_date: z.union([z.string(), z.date(), z.null()]).nullable().optional(),
   // due_date agora armazena data e hora completas no formato ISO
   due_date: z.union([z.string(), z.date(), z.null()]).nullable().optional()
@@ -478,7 +782,9 @@ export const insertTaskSchema = taskBaseSchema.extend({
       }
     })
 });
-export const insertTaskCommentSchema = createInsertSchema(taskComments).omit({ 
+export const insertCommentSchema = createInsertSchema(comments, {
+  entity_type: z.enum(COMMENT_ENTITY_TYPES)
+}).omit({ 
   id: true, 
   creation_date: true, 
   edited: true, 
@@ -486,18 +792,15 @@ export const insertTaskCommentSchema = createInsertSchema(taskComments).omit({
   deleted: true, 
   delete_date: true 
 });
-export const insertCommentReactionSchema = createInsertSchema(commentReactions).omit({ id: true, creation_date: true });
-
-// Schemas para comentários de projeto
-export const insertProjectCommentSchema = createInsertSchema(projectComments).omit({ 
-  id: true, 
-  creation_date: true, 
-  edited: true, 
-  edit_date: true, 
-  deleted: true, 
-  delete_date: true 
+// Criação pela API: a entidade vem da rota, o autor e as menções são definidos
+// pelo servidor, e os arquivos já enviados pelo autor podem ser anexados
+export const COMMENT_ATTACHMENT_LIMIT = 10;
+export const commentAttachmentIdsSchema = z.array(z.number().int().positive()).max(COMMENT_ATTACHMENT_LIMIT);
+export const createCommentSchema = insertCommentSchema.omit({ entity_type: true, entity_id: true, user_id: true, mentions: true }).extend({
+  attachment_ids: commentAttachmentIdsSchema.default([])
 });
-export const insertProjectCommentReactionSchema = createInsertSchema(projectCommentReactions).omit({ id: true, creation_date: true });
+export const updateCommentSchema = z.object({ comment: z.string() });
+export const insertCommentReactionSchema = createInsertSchema(commentReactions).omit({ id: true, creation_date: true });
 
 export const insertTaskAttachmentSchema = createInsertSchema(taskAttachments).omit({ 
   id: true, 
@@ -531,7 +834,7 @@ export const insertClientContactSchema = createInsertSchema(clientContacts).omit
 
 export const insertClientInteractionSchema = createInsertSchema(clientInteractions).omit({ id: true, date: true });
 // Schema base para documentos financeiros
-const financialDocumentBaseSchema = createInsertSchema(financialDocuments).omit({ id: true, creation_date: true, payment_date: true });
+const financialDocumentBaseSchema = createInsertSchema(financialDocuments).omit({ id: true, creation_date: true, payment_date: true, amount_paid: true, due_reminder_sent_for: true });
 
 // Schema personalizado com transformações para datas usando Luxon
 export const insertFinancialDocumentSchema = financialDocumentBaseSchema.extend({
@@ -580,6 +883,20 @@ export const insertFinancialDocumentSchema = financialDocumentBaseSchema.extend(
     return val; // Retorna a data como está se já tem horário definido
   }).nullable().optional(),
 });
+
+// Edição manual de um documento: pago, status e valores recebidos só mudam por
+// /pay e /revert-payment, que mantêm o histórico de pagamentos em dia
+export const updateFinancialDocumentSchema = z.object({
+  project_id: z.number().int().nullable(),
+  client_id: z.number().int(),
+  document_type: z.string(),
+  document_number: z.string().nullable(),
+  amount: z.number(),
+  due_date: insertFinancialDocumentSchema.shape.due_date,
+  issue_date: insertFinancialDocumentSchema.shape.issue_date,
+  description: z.string().nullable(),
+  version: z.number().int() // Controle de concorrência (FinancialAuditService.updateDocument)
+}).partial();
 // Schema base para despesas
 const expenseBaseSchema = createInsertSchema(expenses).omit({ id: true, creation_date: true });
 
@@ -672,42 +989,63 @@ export const insertEventSchema = eventBaseSchema.extend({
 // Select types
 export type User = typeof users.$inferSelect;
 export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type SecurityEvent = typeof securityEvents.$inferSelect;
 export type UserPreference = typeof userPreferences.$inferSelect;
+export type Permission = typeof permissions.$inferSelect;
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type MailQueueItem = typeof mailQueue.$inferSelect;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
 export type Client = typeof clients.$inferSelect;
 export type Project = typeof projects.$inferSelect;
 export type ProjectMember = typeof projectMembers.$inferSelect;
 export type ProjectStage = typeof projectStages.$inferSelect;
 export type Task = typeof tasks.$inferSelect;
-export type TaskComment = typeof taskComments.$inferSelect & {
+export type TaskView = typeof taskViews.$inferSelect;
+// Anexo de comentário (vem da tabela de anexos da tarefa, do projeto ou do cliente)
+export type CommentAttachment = Pick<TaskAttachment, 'id' | 'file_name' | 'file_size' | 'file_type' | 'file_url' | 'uploaded_by' | 'upload_date' | 'comment_id'>;
+export type EntityComment = typeof comments.$inferSelect & {
   reactions?: CommentReaction[];
+  attachments?: CommentAttachment[];
 };
 export type CommentReaction = typeof commentReactions.$inferSelect;
-export type ProjectComment = typeof projectComments.$inferSelect & {
-  reactions?: ProjectCommentReaction[];
-};
-export type ProjectCommentReaction = typeof projectCommentReactions.$inferSelect;
 export type TaskAttachment = typeof taskAttachments.$inferSelect;
 export type ProjectAttachment = typeof projectAttachments.$inferSelect;
 export type ClientContact = typeof clientContacts.$inferSelect;
 export type ClientInteraction = typeof clientInteractions.$inferSelect;
 export type FinancialDocument = typeof financialDocuments.$inferSelect;
 export type FinancialAuditLog = typeof financialAuditLog.$inferSelect;
+export type FinancialDocumentPayment = typeof financialDocumentPayments.$inferSelect;
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+export type BankStatementTransaction = typeof bankStatementTransactions.$inferSelect;
+export type ActivityLogEntry = typeof activityLog.$inferSelect;
+export type ActivityLogItem = ActivityLogEntry & { user_name: string | null; user_avatar: string | null };
 export type Expense = typeof expenses.$inferSelect;
 export type Event = typeof events.$inferSelect;
+export type ChatChannel = typeof chatChannels.$inferSelect;
+export type ChatChannelMember = typeof chatChannelMembers.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
 
 // Insert types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
 export type InsertUserPreference = z.infer<typeof insertUserPreferenceSchema>;
+export type InsertPermission = z.infer<typeof insertPermissionSchema>;
+export type InsertRolePermission = z.infer<typeof insertRolePermissionSchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type InsertMailQueueItem = z.infer<typeof insertMailQueueSchema>;
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
 export type InsertProjectStage = z.infer<typeof insertProjectStageSchema>;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
-export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type CreateComment = z.infer<typeof createCommentSchema>;
 export type InsertCommentReaction = z.infer<typeof insertCommentReactionSchema>;
-export type InsertProjectComment = z.infer<typeof insertProjectCommentSchema>;
-export type InsertProjectCommentReaction = z.infer<typeof insertProjectCommentReactionSchema>;
 export type InsertTaskAttachment = z.infer<typeof insertTaskAttachmentSchema>;
 export type InsertProjectAttachment = z.infer<typeof insertProjectAttachmentSchema>;
 export type InsertClientContact = z.infer<typeof insertClientContactSchema>;
@@ -723,17 +1061,45 @@ export const insertFinancialAuditLogSchema = createInsertSchema(financialAuditLo
 });
 export type InsertFinancialAuditLog = z.infer<typeof insertFinancialAuditLogSchema>;
 
+export const insertFinancialDocumentPaymentSchema = createInsertSchema(financialDocumentPayments).omit({
+  id: true,
+  created_at: true,
+  reverted_at: true,
+  reverted_by: true,
+  revert_reason: true
+});
+export type InsertFinancialDocumentPayment = z.infer<typeof insertFinancialDocumentPaymentSchema>;
+
+export const insertBankStatementImportSchema = createInsertSchema(bankStatementImports).omit({
+  id: true,
+  imported_at: true
+});
+export type InsertBankStatementImport = z.infer<typeof insertBankStatementImportSchema>;
+
+export const insertBankStatementTransactionSchema = createInsertSchema(bankStatementTransactions).omit({
+  id: true,
+  matched_by: true,
+  matched_at: true
+});
+export type InsertBankStatementTransaction = z.infer<typeof insertBankStatementTransactionSchema>;
+
+export const insertActivityLogSchema = createInsertSchema(activityLog).omit({
+  id: true,
+  created_at: true
+});
+export type InsertActivityLogEntry = z.infer<typeof insertActivityLogSchema>;
+
 // Definição de relações
 export const usersRelations = relations(users, ({ many, one }) => ({
   tasks: many(tasks, { relationName: "user_tasks" }),
   projectMembers: many(projectMembers),
-  taskComments: many(taskComments),
-  projectComments: many(projectComments),
+  comments: many(comments),
   taskAttachments: many(taskAttachments),
   clientInteractions: many(clientInteractions),
   expenses: many(expenses),
   events: many(events),
   refreshTokens: many(refreshTokens),
+  authTokens: many(authTokens),
   statusChanges: many(projectStatusHistory),
   preferences: one(userPreferences, {
     fields: [users.id],
@@ -741,6 +1107,13 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   })
 }));
 
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.user_id],
+    references: [users.id]
+  })
+}));
+
 export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
   user: one(users, {
     fields: [refreshTokens.user_id],
@@ -755,6 +1128,32 @@ export const userPreferencesRelations = relations(userPreferences, ({ one }) =>
   })
 }));
 
+export const permissionsRelations = relations(permissions, ({ many }) => ({
+  roles: many(rolePermissions)
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  permission: one(permissions, {
+    fields: [rolePermissions.permission_key],
+    references: [permissions.key]
+  }),
+  grantedBy: one(users, {
+    fields: [rolePermissions.granted_by],
+    references: [users.id]
+  })
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.user_id],
+    references: [users.id]
+  }),
+  actor: one(users, {
+    fields: [notifications.actor_id],
+    references: [users.id]
+  })
+}));
+
 export const clientsRelations = relations(clients, ({ many }) => ({
   projects: many(projects),
   clientInteractions: many(clientInteractions),
@@ -772,7 +1171,6 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   members: many(projectMembers, { relationName: "project_members" }),
   stages: many(projectStages, { relationName: "project_stages" }),
   tasks: many(tasks, { relationName: "project_tasks" }),
-  comments: many(projectComments, { relationName: "project_comments" }),
   attachments: many(projectAttachments, { relationName: "project_attachments" }),
   financialDocuments: many(financialDocuments, { relationName: "project_financial_documents" }),
   expenses: many(expenses, { relationName: "project_expenses" }),
@@ -814,33 +1212,26 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     references: [users.id],
     relationName: "user_tasks"
   }),
-  comments: many(taskComments),
   attachments: many(taskAttachments),
   events: many(events)
 }));
 
-export const taskCommentsRelations = relations(taskComments, ({ one, many }) => ({
-  task: one(tasks, {
-    fields: [taskComments.task_id],
-    references: [tasks.id],
-    onDelete: "cascade"
-  }),
+export const commentsRelations = relations(comments, ({ one, many }) => ({
   user: one(users, {
-    fields: [taskComments.user_id],
+    fields: [comments.user_id],
     references: [users.id]
   }),
   reactions: many(commentReactions),
-  parent: one(taskComments, {
-    fields: [taskComments.parent_id],
-    references: [taskComments.id]
+  parent: one(comments, {
+    fields: [comments.parent_id],
+    references: [comments.id]
   })
 }));
 
 export const commentReactionsRelations = relations(commentReactions, ({ one }) => ({
-  comment: one(taskComments, {
+  comment: one(comments, {
     fields: [commentReactions.comment_id],
-    references: [taskComments.id],
-    onDelete: "cascade"
+    references: [comments.id]
   }),
   user: one(users, {
     fields: [commentReactions.user_id],
@@ -848,38 +1239,6 @@ export const commentReactionsRelations = relations(commentReactions, ({ one }) =
   })
 }));
 
-// Relações para comentários de projeto
-export const projectCommentsRelations = relations(projectComments, ({ one, many }) => ({
-  project: one(projects, {
-    fields: [projectComments.project_id],
-    references: [projects.id],
-    relationName: "project_comments",
-    onDelete: "cascade"
-  }),
-  user: one(users, {
-    fields: [projectComments.user_id],
-    references: [users.id]
-  }),
-  reactions: many(projectCommentReactions),
-  parent: one(projectComments, {
-    fields: [projectComments.parent_id],
-    references: [projectComments.id]
-  })
-}));
-
-// Relações para reações de comentários de projeto
-export const projectCommentReactionsRelations = relations(projectCommentReactions, ({ one }) => ({
-  comment: one(projectComments, {
-    fields: [projectCommentReactions.comment_id],
-    references: [projectComments.id],
-    onDelete: "cascade"
-  }),
-  user: one(users, {
-    fields: [projectCommentReactions.user_id],
-    references: [users.id]
-  })
-}));
-
 export const taskAttachmentsRelations = relations(taskAttachments, ({ one }) => ({
   task: one(tasks, {
     fields: [taskAttachments.task_id],
@@ -986,6 +1345,389 @@ export const eventsRelations = relations(events, ({ one }) => ({
 }));
 
 
+// ===== RBAC =====
+
+// Funções de usuário configuráveis na matriz de permissões (admin tem acesso total fixo)
+export const USER_ROLES = ['admin', 'manager', 'editor', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+export const CONFIGURABLE_ROLES = ['manager', 'editor', 'viewer'] as const;
+
+// Categorias do catálogo de permissões
+export const PERMISSION_CATEGORIES = ['dashboard', 'projects', 'tasks', 'clients', 'financial', 'users'] as const;
+export type PermissionCategory = typeof PERMISSION_CATEGORIES[number];
+
+// ===== TOKENS DE API =====
+
+// Recursos liberados por escopo; "write" inclui "read"
+export const API_TOKEN_RESOURCES = ['projects', 'tasks', 'clients', 'financial', 'calendar', 'team'] as const;
+export type ApiTokenResource = typeof API_TOKEN_RESOURCES[number];
+export const API_TOKEN_ACCESS_LEVELS = ['read', 'write'] as const;
+export type ApiTokenAccess = typeof API_TOKEN_ACCESS_LEVELS[number];
+export type ApiTokenScope = `${ApiTokenResource}:${ApiTokenAccess}`;
+
+export const API_TOKEN_SCOPES = API_TOKEN_RESOURCES.flatMap(resource =>
+  API_TOKEN_ACCESS_LEVELS.map(access => `${resource}:${access}` as ApiTokenScope)
+);
+
+export const API_TOKEN_RESOURCE_LABELS: Record<ApiTokenResource, string> = {
+  projects: 'Projetos',
+  tasks: 'Tarefas',
+  clients: 'Clientes',
+  financial: 'Financeiro',
+  calendar: 'Calendário',
+  team: 'Equipe',
+};
+
+export const API_TOKEN_PREFIX = 'cct_';
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Informe um nome para o token').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES as [ApiTokenScope, ...ApiTokenScope[]])).min(1, 'Selecione ao menos um escopo'),
+  expiresInDays: z.number().int().min(1).max(365).nullable()
+});
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
+
+// ===== CHAT DA EQUIPE =====
+
+export const CHAT_CHANNEL_TYPES = ['general', 'project', 'direct'] as const;
+export type ChatChannelType = typeof CHAT_CHANNEL_TYPES[number];
+
+export const CHAT_MESSAGE_MAX_LENGTH = 2000;
+
+export const sendChatMessageSchema = z.object({
+  content: z.string().trim().min(1, 'A mensagem não pode ficar vazia').max(CHAT_MESSAGE_MAX_LENGTH)
+});
+
+// Mensagem com o autor, como retornada pela API e pelo canal em tempo real
+export type ChatMessageWithUser = ChatMessage & {
+  user: { id: number; name: string; username: string; avatar: string | null } | null;
+};
+
+// Canal como listado para um usuário: nome de exibição, não lidas e última mensagem
+export type ChatChannelSummary = ChatChannel & {
+  displayName: string;
+  unreadCount: number;
+  lastMessage: ChatMessageWithUser | null;
+  // Outro participante, nas conversas diretas
+  peer?: { id: number; name: string; username: string; avatar: string | null };
+};
+
+// ===== PREFERÊNCIAS DE NOTIFICAÇÃO =====
+
+// Tipos de evento configuráveis em Configurações > Notificações
+export const NOTIFICATION_EVENT_TYPES = [
+  'task_assigned',
+  'comment',
+  'mention',
+  'project_update',
+  'payment',
+  'deadline_reminder',
+  'system',
+] as const;
+export type NotificationEventType = typeof NOTIFICATION_EVENT_TYPES[number];
+
+// Canais de entrega: caixa de entrada no sistema, email imediato e resumo periódico por email
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'digest'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export type NotificationPreferences = Record<NotificationEventType, Record<NotificationChannel, boolean>>;
+export type NotificationPreferencesInput = Partial<Record<NotificationEventType, Partial<Record<NotificationChannel, boolean>>>>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  task_assigned: { in_app: true, email: true, digest: false },
+  comment: { in_app: true, email: true, digest: false },
+  mention: { in_app: true, email: true, digest: false },
+  project_update: { in_app: true, email: true, digest: false },
+  payment: { in_app: true, email: false, digest: false },
+  deadline_reminder: { in_app: true, email: false, digest: false },
+  system: { in_app: true, email: false, digest: false },
+};
+
+// Tipo de notificação (notifications.type) → tipo de evento usado nas preferências
+export const NOTIFICATION_TYPE_EVENTS: Record<string, NotificationEventType> = {
+  task_assigned: 'task_assigned',
+  task_comment: 'comment',
+  project_comment: 'comment',
+  client_comment: 'comment',
+  financial_document_comment: 'comment',
+  payment_received: 'payment',
+  project_delayed: 'project_update',
+  task_due: 'deadline_reminder',
+  invoice_due: 'deadline_reminder',
+  chat_mention: 'mention',
+  comment_mention: 'mention',
+};
+
+export const notificationPreferencesSchema = z.object(
+  Object.fromEntries(NOTIFICATION_EVENT_TYPES.map(eventType => [
+    eventType,
+    z.object(Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => [channel, z.boolean()]))).partial().strict().optional()
+  ]))
+).strict() as z.ZodType<NotificationPreferencesInput>;
+
+// Combina preferências salvas (parciais) com uma base, canal a canal
+export function mergeNotificationPreferences(
+  base: NotificationPreferences,
+  overrides: NotificationPreferencesInput | null | undefined
+): NotificationPreferences {
+  const merged = {} as NotificationPreferences;
+  for (const eventType of NOTIFICATION_EVENT_TYPES) {
+    merged[eventType] = { ...base[eventType], ...(overrides?.[eventType] ?? {}) };
+  }
+  return merged;
+}
+
+export function resolveNotificationPreferences(stored: NotificationPreferencesInput | null | undefined): NotificationPreferences {
+  return mergeNotificationPreferences(DEFAULT_NOTIFICATION_PREFERENCES, stored);
+}
+
+// ===== ACESSO POR PROJETO =====
+
+// Níveis de acesso de um membro dentro do projeto, do menor para o maior:
+// observer - apenas visualiza; editor - edita tarefas, comenta e envia anexos;
+// producer - além disso, remove comentários e anexos de outros membros
+export const PROJECT_ACCESS_LEVELS = ['observer', 'editor', 'producer'] as const;
+export type ProjectAccessLevel = typeof PROJECT_ACCESS_LEVELS[number];
+
+// Papel do membro (project_members.role) → nível de acesso.
+// Papéis não listados (funções da equipe, 'member') têm acesso de edição.
+export const PROJECT_MEMBER_ROLE_ACCESS: Record<string, ProjectAccessLevel> = {
+  producer: 'producer',
+  coordenacao: 'producer',
+  producao: 'producer',
+  editor: 'editor',
+  observer: 'observer',
+};
+
+export function getProjectAccessLevel(memberRole: string | null | undefined): ProjectAccessLevel {
+  if (!memberRole) return 'editor';
+  return PROJECT_MEMBER_ROLE_ACCESS[memberRole] ?? 'editor';
+}
+
+export function hasProjectAccessLevel(level: ProjectAccessLevel, required: ProjectAccessLevel): boolean {
+  return PROJECT_ACCESS_LEVELS.indexOf(level) >= PROJECT_ACCESS_LEVELS.indexOf(required);
+}
+
+// ===== PAGAMENTOS DE DOCUMENTOS FINANCEIROS =====
+
+export const FINANCIAL_PAYMENT_METHODS = ['pix', 'boleto', 'transferencia', 'cartao', 'dinheiro', 'cheque', 'outro'] as const;
+export type FinancialPaymentMethod = typeof FINANCIAL_PAYMENT_METHODS[number];
+
+export const FINANCIAL_PAYMENT_METHOD_LABELS: Record<FinancialPaymentMethod, string> = {
+  pix: 'PIX',
+  boleto: 'Boleto',
+  transferencia: 'Transferência (TED/DOC)',
+  cartao: 'Cartão',
+  dinheiro: 'Dinheiro',
+  cheque: 'Cheque',
+  outro: 'Outro'
+};
+
+// Sem "amount", o pagamento quita o saldo em aberto do documento
+export const registerPaymentSchema = z.object({
+  amount: z.number().positive('O valor do pagamento deve ser maior que zero').optional(),
+  payment_date: z.union([z.string(), z.date()]).optional().nullable(),
+  method: z.enum(FINANCIAL_PAYMENT_METHODS).optional().nullable(),
+  reference: z.string().max(200).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable()
+});
+export type RegisterPaymentInput = z.infer<typeof registerPaymentSchema>;
+
+// Sem "payment_id", reverte o pagamento mais recente ainda válido
+export const revertPaymentSchema = z.object({
+  payment_id: z.number().int().positive().optional(),
+  reason: z.string().max(500).optional()
+});
+
+/**
+ * Saldo em aberto do documento (valor menos os pagamentos registrados)
+ */
+export function outstandingBalance(document: { amount: number | null; amount_paid?: number | null; paid?: boolean | null }): number {
+  if (document.paid) return 0;
+  return Math.max(0, Math.round(((document.amount || 0) - (document.amount_paid || 0)) * 100) / 100);
+}
+
+// ===== PARCELAMENTO DE PROJETOS =====
+
+// Parcelas definidas por percentual do orçamento ou por valor fixo (em R$). Cada
+// parcela vence "due_offset_days" dias após a data de emissão do projeto.
+export const INSTALLMENT_PLAN_TYPES = ['percentage', 'fixed'] as const;
+export type InstallmentPlanType = typeof INSTALLMENT_PLAN_TYPES[number];
+
+export const PROJECT_INSTALLMENTS_MAX = 12;
+
+export const projectInstallmentPlanSchema = z.object({
+  type: z.enum(INSTALLMENT_PLAN_TYPES),
+  installments: z.array(z.object({
+    value: z.number().positive('O valor da parcela deve ser maior que zero'),
+    due_offset_days: z.number().int().min(0).max(730)
+  })).min(2, 'O parcelamento precisa de pelo menos 2 parcelas').max(PROJECT_INSTALLMENTS_MAX)
+}).refine(plan => plan.type !== 'percentage' || Math.abs(sumOf(plan.installments.map(item => item.value)) - 100) < 0.01, {
+  message: 'Os percentuais das parcelas devem somar 100%',
+  path: ['installments']
+});
+
+export type ProjectInstallmentPlan = z.infer<typeof projectInstallmentPlanSchema>;
+
+export interface ProjectInstallment {
+  number: number;
+  count: number;
+  amount: number;
+  dueOffsetDays: number;
+}
+
+function sumOf(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Mensagem de erro quando o parcelamento não fecha com o orçamento (valores fixos
+ * precisam somar exatamente o orçamento), ou null quando está consistente
+ */
+export function installmentPlanError(plan: ProjectInstallmentPlan | null | undefined, budget: number | null | undefined): string | null {
+  if (!plan || plan.type !== 'fixed') return null;
+  const total = roundCents(sumOf(plan.installments.map(item => item.value)));
+  if (Math.abs(total - roundCents(budget || 0)) >= 0.01) {
+    return `As parcelas somam R$ ${total.toFixed(2)}, mas o orçamento é R$ ${roundCents(budget || 0).toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Parcelas do faturamento do projeto. Sem parcelamento, é uma fatura única que vence
+ * no prazo de pagamento. Valores são arredondados em centavos e a última parcela
+ * absorve a diferença do arredondamento.
+ */
+export function buildInstallmentSchedule(
+  budget: number,
+  plan: ProjectInstallmentPlan | null | undefined,
+  paymentTerm: number
+): ProjectInstallment[] {
+  if (!plan || plan.installments.length === 0) {
+    return [{ number: 1, count: 1, amount: roundCents(budget), dueOffsetDays: paymentTerm }];
+  }
+
+  const count = plan.installments.length;
+  const amounts = plan.installments.map(item =>
+    plan.type === 'percentage' ? roundCents(budget * item.value / 100) : roundCents(item.value)
+  );
+  amounts[count - 1] = roundCents(budget - sumOf(amounts.slice(0, -1)));
+
+  return plan.installments.map((item, index) => ({
+    number: index + 1,
+    count,
+    amount: amounts[index],
+    dueOffsetDays: item.due_offset_days
+  }));
+}
+
+// ===== FILTROS E VISÕES SALVAS DE TAREFAS =====
+
+// Valores numéricos para ordenação de prioridades
+export const TASK_PRIORITY_WEIGHTS = {
+  critica: 40,
+  alta: 30,
+  media: 20,
+  baixa: 10
+};
+
+// Valores numéricos para ordenação de status
+export const TASK_STATUS_WEIGHTS = {
+  bloqueada: 40,
+  pendente: 30,
+  em_andamento: 20,
+  concluido: 10,
+  cancelada: 0
+};
+
+// Períodos de prazo relativos à data atual: uma visão salva como "desta semana"
+// continua valendo nas semanas seguintes
+export const TASK_DUE_PERIODS = ['today', 'this_week', 'next_7_days', 'this_month', 'no_date'] as const;
+export type TaskDuePeriod = typeof TASK_DUE_PERIODS[number];
+
+// smart = atrasadas e próximas do prazo primeiro, depois prioridade e prazo
+export const TASK_SORT_FIELDS = ['smart', 'title', 'priority', 'status', 'due_date', 'created'] as const;
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+export const TASK_SORT_DIRECTIONS = ['asc', 'desc'] as const;
+export type TaskSortDirection = typeof TASK_SORT_DIRECTIONS[number];
+
+export const TASK_TAG_MAX_LENGTH = 40;
+export const TASK_TAGS_MAX = 20;
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (use AAAA-MM-DD)');
+
+// Filtros de GET /api/tasks. Listas combinam com OU dentro do filtro e com E entre filtros;
+// em assignedTo, 'me' é o usuário autenticado e 'none' as tarefas sem responsável
+export const taskListFiltersSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  assignedTo: z.array(z.union([z.literal('me'), z.literal('none'), z.number().int().positive()])).optional(),
+  projectId: z.array(z.number().int().positive()).optional(),
+  clientId: z.array(z.number().int().positive()).optional(),
+  priority: z.array(z.string().min(1).max(30)).optional(),
+  status: z.array(z.string().min(1).max(30)).optional(),
+  tags: z.array(z.string().trim().min(1).max(TASK_TAG_MAX_LENGTH)).optional(),
+  duePeriod: z.enum(TASK_DUE_PERIODS).optional(),
+  dueFrom: isoDateSchema.optional(),
+  dueTo: isoDateSchema.optional(),
+  overdue: z.boolean().optional(),
+  completed: z.boolean().optional()
+});
+export type TaskListFilters = z.infer<typeof taskListFiltersSchema>;
+
+export const saveTaskViewSchema = z.object({
+  name: z.string().trim().min(1, 'Informe um nome para a visão').max(80),
+  filters: taskListFiltersSchema,
+  sort_by: z.enum(TASK_SORT_FIELDS).default('smart'),
+  sort_dir: z.enum(TASK_SORT_DIRECTIONS).default('desc')
+});
+export type SaveTaskViewInput = z.infer<typeof saveTaskViewSchema>;
+
+/**
+ * Etiquetas de uma tarefa sem espaços extras nem repetições (ignorando maiúsculas)
+ */
+export function normalizeTaskTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+
+  const tags = new Map<string, string>();
+  value.forEach(item => {
+    if (typeof item !== 'string') return;
+    // A vírgula separa as etiquetas nos parâmetros de consulta
+    const tag = item.replace(/,/g, ' ').trim().replace(/\s+/g, ' ').slice(0, TASK_TAG_MAX_LENGTH);
+    if (tag && !tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  });
+
+  return Array.from(tags.values()).slice(0, TASK_TAGS_MAX);
+}
+
+/**
+ * Parâmetros de consulta de GET /api/tasks para os filtros e a ordenação informados
+ * (listas separadas por vírgula)
+ */
+export function taskListSearchParams(
+  filters: TaskListFilters,
+  sort?: { sortBy: TaskSortField; sortDir: TaskSortDirection }
+): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, String(value));
+    }
+  });
+
+  if (sort) {
+    params.set('sortBy', sort.sortBy);
+    params.set('sortDir', sort.sortDir);
+  }
+  return params;
+}
+
 // ===== SISTEMA DE STATUS SIMPLIFICADO =====
 
 // Constantes para Status de Projetos (fluxo principal)
@@ -0,0 +1,40 @@
+// ===== BUSCA GLOBAL =====
+// Resultados da busca de texto completo (/api/search) usada pela barra de busca.
+
+export const SEARCH_RESULT_TYPES = [
+  'project',
+  'task',
+  'client',
+  'contact',
+  'comment',
+  'attachment',
+  'financial_document'
+] as const;
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number];
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  link: string;
+  rank: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+  project: 'Projetos',
+  task: 'Tarefas',
+  client: 'Clientes',
+  contact: 'Contatos',
+  comment: 'Comentários',
+  attachment: 'Arquivos',
+  financial_document: 'Documentos financeiros'
+};
+
+// Tamanho mínimo do texto para consultar o servidor
+export const SEARCH_MIN_LENGTH = 2;